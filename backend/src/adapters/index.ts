@@ -1,9 +1,11 @@
-import { BankDataProvider, BudgetProvider, CancellationProvider, NotificationProvider } from './types';
+import { BankDataProvider, BankSyncResult, BudgetProvider, CancellationProvider, NotificationProvider } from './types';
 import { MockBankDataProvider } from './mock-bank';
+import { PlaidBankDataProvider, PlaidConfig, resolvePlaidConfig } from './plaid-bank';
 import { MockBudgetProvider } from './mock-budget';
 import { MockNotificationProvider } from './mock-notification';
+import { MockCancellationProvider } from './mock-cancellation';
 
-export type { BankDataProvider, BudgetProvider, CancellationProvider, NotificationProvider };
+export type { BankDataProvider, BankSyncResult, BudgetProvider, CancellationProvider, NotificationProvider };
 
 export interface Adapters {
   bank: BankDataProvider;
@@ -12,11 +14,31 @@ export interface Adapters {
   notification: NotificationProvider;
 }
 
-export function createAdapters(): Adapters {
+export interface AdapterConfig {
+  /** 'nessie' (default) or 'plaid'; read from BANK_PROVIDER */
+  bankProvider?: string;
+  plaid?: PlaidConfig | null;
+}
+
+function createBankProvider(config: AdapterConfig): BankDataProvider {
+  const provider = (config.bankProvider || 'nessie').toLowerCase();
+  if (provider === 'plaid') {
+    if (config.plaid) return new PlaidBankDataProvider(config.plaid);
+    console.warn('[adapters] BANK_PROVIDER=plaid but PLAID_CLIENT_ID/PLAID_SECRET are not set; using mock bank');
+  } else if (provider !== 'nessie') {
+    console.warn(`[adapters] Unknown BANK_PROVIDER "${provider}"; using mock bank`);
+  }
+  return new MockBankDataProvider();
+}
+
+export function createAdapters(
+  config: AdapterConfig = { bankProvider: process.env.BANK_PROVIDER, plaid: resolvePlaidConfig() }
+): Adapters {
   return {
-    bank: new MockBankDataProvider(),
+    bank: createBankProvider(config),
     budget: new MockBudgetProvider(),
-    cancellation: null, // No cancellation provider; use "verify by absence" approach
+    // A local stub; a cancellation is only trusted once the next charge doesn't come (services/subscription-cancellation.ts)
+    cancellation: new MockCancellationProvider(),
     notification: new MockNotificationProvider(),
   };
 }
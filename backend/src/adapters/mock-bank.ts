@@ -2,10 +2,14 @@ import { BankDataProvider } from './types';
 import { Transaction, RecurringCandidate } from '../schemas';
 import { getDb } from '../db/database';
 import { ingestTransactions } from '../services/ingestion';
+import { rowToRecurringCandidate } from '../services/subscription-analysis';
 import {
   getTransactionHistory,
+  getNessieAccounts,
+  mapNessieAccountType,
   mapNessieTransactionsToBackendTransactions,
 } from '../services/nessie';
+import { upsertProviderAccount, detectTransfers } from '../services/accounts';
 
 const NESSIE_PROVIDER = 'nessie';
 const DEFAULT_INITIAL_LOOKBACK_DAYS = 120;
@@ -126,6 +130,23 @@ function isSyncDue(lastSyncAt: string | null): boolean {
   return elapsedMs >= minIntervalMinutes * 60 * 1000;
 }
 
+/**
+ * Mirror the Nessie accounts (with today's balance) into the account table.
+ * Returns a map of Nessie account id → local account id.
+ */
+export async function refreshNessieAccounts(userId: string): Promise<Map<string, string>> {
+  const accounts = await getNessieAccounts();
+  const ids = new Map<string, string>();
+  for (const account of accounts) {
+    ids.set(account._id, upsertProviderAccount(userId, NESSIE_PROVIDER, account._id, {
+      name: account.nickname || account.type || 'Account',
+      type: mapNessieAccountType(account.type),
+      balance: typeof account.balance === 'number' ? account.balance : undefined,
+    }));
+  }
+  return ids;
+}
+
 function rowToTransaction(row: any): Transaction {
   return {
     id: row.id,
@@ -142,6 +163,7 @@ function rowToTransaction(row: any): Transaction {
     pending: !!row.pending,
     pending_transaction_id: row.pending_transaction_id,
     metadata: JSON.parse(row.metadata || '{}'),
+    account_id: row.account_id ?? null,
   };
 }
 
@@ -193,14 +215,28 @@ export class MockBankDataProvider implements BankDataProvider {
     const endDate = new Date();
 
     try {
+      const accountIds = await refreshNessieAccounts(userId);
       const nessieTransactions = await getTransactionHistory(startDate, endDate);
-      const mapped = mapNessieTransactionsToBackendTransactions(userId, nessieTransactions);
+      const mapped = mapNessieTransactionsToBackendTransactions(userId, nessieTransactions).map(tx => ({
+        ...tx,
+        account_id: accountIds.get(tx.metadata.nessie_account_id as string) ?? null,
+      }));
       db.prepare(`DELETE FROM transaction_ WHERE user_id = ? AND provider <> ?`).run(
         userId,
         NESSIE_PROVIDER
       );
       ingestTransactions(mapped);
 
+      // Rows ingested before accounts existed get linked on the next sync
+      const backfill = db.prepare(
+        `UPDATE transaction_ SET account_id = ? WHERE user_id = ? AND provider_txn_id = ? AND account_id IS NULL`
+      );
+      let backfilled = 0;
+      for (const tx of mapped) {
+        if (tx.account_id) backfilled += backfill.run(tx.account_id, userId, tx.provider_txn_id).changes;
+      }
+      if (backfilled > 0) detectTransfers(userId);
+
       const latestDate = mapped.reduce<string>((latest, tx) => {
         if (!latest) return tx.date;
         return tx.date > latest ? tx.date : latest;
@@ -229,15 +265,6 @@ export class MockBankDataProvider implements BankDataProvider {
       .prepare('SELECT * FROM recurring_candidate WHERE user_id = ?')
       .all(userId) as any[];
 
-    return rows.map((r) => ({
-      id: r.id,
-      user_id: r.user_id,
-      merchant_key: r.merchant_key,
-      typical_amount: r.typical_amount,
-      cadence: r.cadence,
-      next_expected_date: r.next_expected_date,
-      confidence: r.confidence,
-      source: JSON.parse(r.source || '{}'),
-    }));
+    return rows.map(rowToRecurringCandidate);
   }
 }
@@ -0,0 +1,89 @@
+import { v4 as uuid } from 'uuid';
+import { CancellationProvider, CancellationResult } from './types';
+import { normalizeMerchantKey } from '../services/merchant-key';
+
+type Outcome = 'cancelled' | 'manual' | 'fails';
+
+interface MerchantPlaybook {
+  match: string;
+  name: string;
+  outcome: Outcome;
+  instructions: string[];
+}
+
+// How the stub treats each merchant: some cancel online, some only by hand
+// (a gym, a newspaper), one always fails so the error path can be tried.
+const PLAYBOOKS: MerchantPlaybook[] = [
+  { match: 'netflix', name: 'Netflix', outcome: 'cancelled', instructions: ['Account → Membership → Cancel membership'] },
+  { match: 'spotify', name: 'Spotify', outcome: 'cancelled', instructions: ['Account → Your plan → Change plan → Cancel Premium'] },
+  { match: 'hulu', name: 'Hulu', outcome: 'cancelled', instructions: ['Account → Cancel your subscription'] },
+  { match: 'disney', name: 'Disney+', outcome: 'cancelled', instructions: ['Account → Subscription → Cancel subscription'] },
+  {
+    match: 'planet fitness',
+    name: 'Planet Fitness',
+    outcome: 'manual',
+    instructions: ['Visit your home club and ask to cancel, or mail a signed cancellation letter to it', 'Keep the cancellation receipt'],
+  },
+  {
+    match: 'new york times',
+    name: 'The New York Times',
+    outcome: 'manual',
+    instructions: ['Open Account → Subscription overview → Cancel subscription', 'Finish the cancellation in the live chat it opens'],
+  },
+  {
+    match: 'adobe',
+    name: 'Adobe',
+    outcome: 'manual',
+    instructions: ['Sign in at account.adobe.com → Plans → Manage plan → Cancel plan', 'Annual plans cancelled early can charge a fee; check before confirming'],
+  },
+  { match: 'xfinity', name: 'Xfinity', outcome: 'fails', instructions: ['Call or chat with Xfinity support to cancel'] },
+];
+
+const GENERIC_INSTRUCTIONS = [
+  'Look for Cancel or Manage subscription in your account settings on the merchant\'s website or app',
+  'If there is no online option, contact their support and ask for a cancellation confirmation',
+];
+
+/**
+ * Local stand-in for a cancellation service. Nothing is sent anywhere: the
+ * outcome comes from the merchant's playbook above, and unknown merchants
+ * get generic manual steps. Whatever it says, the charge is still verified
+ * by absence.
+ */
+export class MockCancellationProvider implements CancellationProvider {
+  async initiateCancel(_userId: string, merchantKey: string): Promise<CancellationResult> {
+    const key = normalizeMerchantKey(merchantKey, '');
+    const playbook = PLAYBOOKS.find(p => key.includes(p.match));
+    if (!playbook) {
+      return {
+        success: true,
+        needsManualSteps: true,
+        message: `We can't cancel ${merchantKey} for you. Follow these steps, and Scotty will watch for the next charge.`,
+        instructions: GENERIC_INSTRUCTIONS,
+      };
+    }
+
+    switch (playbook.outcome) {
+      case 'cancelled':
+        return {
+          success: true,
+          message: `${playbook.name} cancellation requested.`,
+          confirmationId: `mock_cancel_${uuid().slice(0, 8)}`,
+          instructions: playbook.instructions,
+        };
+      case 'manual':
+        return {
+          success: true,
+          needsManualSteps: true,
+          message: `${playbook.name} has to be cancelled by you.`,
+          instructions: playbook.instructions,
+        };
+      case 'fails':
+        return {
+          success: false,
+          message: `Couldn't reach ${playbook.name} to cancel. Try again later or cancel with them directly.`,
+          instructions: playbook.instructions,
+        };
+    }
+  }
+}
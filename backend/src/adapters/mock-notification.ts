@@ -1,4 +1,5 @@
 import { NotificationProvider, NotificationPayload } from './types';
+import { userToday } from '../services/user-clock';
 
 const dailyCounts = new Map<string, { count: number; date: string }>();
 
@@ -15,7 +16,7 @@ export class MockNotificationProvider implements NotificationProvider {
       console.log(`[notification] Daily limit reached for user ${userId}, skipping:`, payload.title);
       return;
     }
-    const today = new Date().toISOString().split('T')[0];
+    const today = userToday(userId);
     const entry = dailyCounts.get(userId);
     if (entry && entry.date === today) {
       entry.count++;
@@ -26,7 +27,7 @@ export class MockNotificationProvider implements NotificationProvider {
   }
 
   async getDailyCount(userId: string): Promise<number> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = userToday(userId);
     const entry = dailyCounts.get(userId);
     if (entry && entry.date === today) return entry.count;
     return 0;
@@ -0,0 +1,439 @@
+import { v4 as uuid } from 'uuid';
+import { BankDataProvider, BankSyncResult } from './types';
+import { Transaction, RecurringCandidate } from '../schemas';
+import { getDb } from '../db/database';
+import { applyTransactionDelta } from '../services/ingestion';
+import { rowToRecurringCandidate } from '../services/subscription-analysis';
+import { reevaluateQuestsForDates } from '../services/quest-evaluation';
+import { matchTransferContributions } from '../services/goals';
+import { AccountType, upsertProviderAccount } from '../services/accounts';
+
+const PLAID_PROVIDER = 'plaid';
+const PLAID_ENV_URLS: Record<string, string> = {
+  sandbox: 'https://sandbox.plaid.com',
+  development: 'https://development.plaid.com',
+  production: 'https://production.plaid.com',
+};
+const SYNC_PAGE_SIZE = 250;
+const MAX_SYNC_PAGES = 50;
+
+export interface PlaidConfig {
+  clientId: string;
+  secret: string;
+  /** sandbox | development | production */
+  env?: string;
+  /** Overrides env; used to point at a local fake server in tests */
+  baseUrl?: string;
+  products?: string[];
+  countryCodes?: string[];
+}
+
+export type PlaidItemStatus = 'ACTIVE' | 'LOGIN_REQUIRED' | 'ERROR';
+
+export interface PlaidItem {
+  item_id: string;
+  user_id: string;
+  institution_name: string | null;
+  status: PlaidItemStatus;
+  error_code: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Error payload returned by every Plaid endpoint on failure. */
+export class PlaidApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly errorType: string,
+    public readonly errorCode: string,
+    message: string
+  ) {
+    super(`Plaid ${errorCode}: ${message}`);
+    this.name = 'PlaidApiError';
+  }
+}
+
+// Error codes that mean the user must go back through Link (update mode)
+const LOGIN_REQUIRED_CODES = new Set(['ITEM_LOGIN_REQUIRED', 'PENDING_EXPIRATION', 'ACCESS_NOT_GRANTED']);
+
+interface PlaidTransaction {
+  transaction_id: string;
+  account_id: string;
+  date: string;
+  authorized_date?: string | null;
+  amount: number;
+  iso_currency_code: string | null;
+  name: string;
+  merchant_name?: string | null;
+  pending: boolean;
+  pending_transaction_id: string | null;
+  category?: string[] | null;
+  personal_finance_category?: { primary: string; detailed: string } | null;
+}
+
+interface PlaidAccount {
+  account_id: string;
+  name: string;
+  official_name?: string | null;
+  mask?: string | null;
+  type: string;
+  subtype?: string | null;
+  balances: { current: number | null; iso_currency_code?: string | null };
+}
+
+interface PlaidSyncResponse {
+  accounts?: PlaidAccount[];
+  added: PlaidTransaction[];
+  modified: PlaidTransaction[];
+  removed: Array<{ transaction_id: string }>;
+  next_cursor: string;
+  has_more: boolean;
+}
+
+// Plaid personal_finance_category → the app's category names
+const PFC_CATEGORY: Record<string, string> = {
+  FOOD_AND_DRINK: 'Food & Drink',
+  TRANSPORTATION: 'Transportation',
+  TRAVEL: 'Travel',
+  ENTERTAINMENT: 'Entertainment',
+  GENERAL_MERCHANDISE: 'Shopping',
+  MEDICAL: 'Health',
+  PERSONAL_CARE: 'Health',
+  RENT_AND_UTILITIES: 'Utilities',
+  LOAN_PAYMENTS: 'Payment',
+  BANK_FEES: 'Service',
+  GENERAL_SERVICES: 'Service',
+  INCOME: 'Income',
+  TRANSFER_IN: 'Transfer',
+  TRANSFER_OUT: 'Transfer',
+};
+
+export function mapPlaidCategory(txn: Pick<PlaidTransaction, 'category' | 'personal_finance_category'>): string | null {
+  const pfc = txn.personal_finance_category;
+  if (pfc) {
+    if (pfc.detailed === 'FOOD_AND_DRINK_GROCERIES') return 'Groceries';
+    if (pfc.detailed?.startsWith('ENTERTAINMENT_TV_AND_MOVIES') || pfc.detailed === 'GENERAL_SERVICES_SUBSCRIPTION') {
+      return 'Subscription';
+    }
+    if (PFC_CATEGORY[pfc.primary]) return PFC_CATEGORY[pfc.primary];
+  }
+  return txn.category?.[0] ?? null;
+}
+
+/**
+ * Plaid reports outflows as positive amounts; this app stores spending as negative.
+ */
+export function mapPlaidTransaction(userId: string, itemId: string, txn: PlaidTransaction): Transaction {
+  return {
+    id: uuid(),
+    user_id: userId,
+    provider: PLAID_PROVIDER,
+    provider_txn_id: txn.transaction_id,
+    date: txn.date,
+    amount: Math.round(-txn.amount * 100) / 100,
+    currency: txn.iso_currency_code || 'USD',
+    name: txn.name,
+    merchant_name: txn.merchant_name ?? null,
+    category_primary: mapPlaidCategory(txn),
+    category_detailed: txn.personal_finance_category?.detailed ?? txn.category?.[1] ?? null,
+    pending: txn.pending,
+    pending_transaction_id: txn.pending_transaction_id,
+    metadata: {
+      plaid_item_id: itemId,
+      plaid_account_id: txn.account_id,
+      authorized_date: txn.authorized_date ?? null,
+    },
+  };
+}
+
+export function mapPlaidAccountType(account: Pick<PlaidAccount, 'type' | 'subtype'>): AccountType {
+  if (account.type === 'credit') return 'credit_card';
+  if (account.subtype === 'savings' || account.subtype === 'money market' || account.subtype === 'cd') return 'savings';
+  return 'checking';
+}
+
+export function resolvePlaidConfig(env: NodeJS.ProcessEnv = process.env): PlaidConfig | null {
+  if (!env.PLAID_CLIENT_ID || !env.PLAID_SECRET) return null;
+  return {
+    clientId: env.PLAID_CLIENT_ID,
+    secret: env.PLAID_SECRET,
+    env: env.PLAID_ENV || 'sandbox',
+    baseUrl: env.PLAID_BASE_URL || undefined,
+  };
+}
+
+function syncStateKey(itemId: string): string {
+  return `${PLAID_PROVIDER}:${itemId}`;
+}
+
+function getCursor(userId: string, itemId: string): string | null {
+  const row = getDb().prepare(
+    'SELECT cursor FROM bank_sync_state WHERE user_id = ? AND provider = ?'
+  ).get(userId, syncStateKey(itemId)) as { cursor: string | null } | undefined;
+  return row?.cursor ?? null;
+}
+
+function upsertSyncState(userId: string, itemId: string, cursor: string | null, lastError: string | null): void {
+  getDb().prepare(`
+    INSERT INTO bank_sync_state (user_id, provider, cursor, last_sync_at, last_error)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(user_id, provider) DO UPDATE SET
+      cursor = excluded.cursor,
+      last_sync_at = excluded.last_sync_at,
+      last_error = excluded.last_error,
+      updated_at = datetime('now')
+  `).run(userId, syncStateKey(itemId), cursor, new Date().toISOString(), lastError);
+}
+
+function setItemStatus(itemId: string, status: PlaidItemStatus, errorCode: string | null): void {
+  getDb().prepare(`
+    UPDATE plaid_item SET status = ?, error_code = ?, updated_at = datetime('now') WHERE item_id = ?
+  `).run(status, errorCode, itemId);
+}
+
+function mapItemRow(row: any): PlaidItem {
+  return {
+    item_id: row.item_id,
+    user_id: row.user_id,
+    institution_name: row.institution_name,
+    status: row.status,
+    error_code: row.error_code,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export class PlaidBankDataProvider implements BankDataProvider {
+  readonly providerName = PLAID_PROVIDER;
+  private baseUrl: string;
+
+  constructor(private config: PlaidConfig) {
+    this.baseUrl = (config.baseUrl || PLAID_ENV_URLS[config.env || 'sandbox'] || PLAID_ENV_URLS.sandbox)
+      .replace(/\/$/, '');
+  }
+
+  private async post<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    const resp = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ client_id: this.config.clientId, secret: this.config.secret, ...body }),
+    });
+    const json = await resp.json().catch(() => ({})) as any;
+    if (!resp.ok) {
+      throw new PlaidApiError(
+        resp.status,
+        json.error_type || 'API_ERROR',
+        json.error_code || `HTTP_${resp.status}`,
+        json.error_message || resp.statusText
+      );
+    }
+    return json as T;
+  }
+
+  // ─── Link ───
+
+  /**
+   * Create a Link token. Passing an itemId opens Link in update mode so the
+   * user can repair an item stuck in ITEM_LOGIN_REQUIRED.
+   */
+  async createLinkToken(userId: string, itemId?: string): Promise<{ link_token: string; expiration: string }> {
+    const body: Record<string, unknown> = {
+      user: { client_user_id: userId },
+      client_name: 'Scotty',
+      language: 'en',
+      country_codes: this.config.countryCodes || ['US'],
+    };
+    if (itemId) {
+      const item = getDb().prepare(
+        'SELECT access_token FROM plaid_item WHERE item_id = ? AND user_id = ?'
+      ).get(itemId, userId) as { access_token: string } | undefined;
+      if (!item) throw new Error('Plaid item not found');
+      body.access_token = item.access_token;
+    } else {
+      body.products = this.config.products || ['transactions'];
+    }
+    return this.post('/link/token/create', body);
+  }
+
+  async exchangePublicToken(userId: string, publicToken: string, institutionName?: string): Promise<PlaidItem> {
+    const { access_token, item_id } = await this.post<{ access_token: string; item_id: string }>(
+      '/item/public_token/exchange',
+      { public_token: publicToken }
+    );
+    const db = getDb();
+    db.prepare('INSERT OR IGNORE INTO user_profile (id) VALUES (?)').run(userId);
+    db.prepare(`
+      INSERT INTO plaid_item (item_id, user_id, access_token, institution_name)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(item_id) DO UPDATE SET
+        access_token = excluded.access_token,
+        status = 'ACTIVE',
+        error_code = NULL,
+        updated_at = datetime('now')
+    `).run(item_id, userId, access_token, institutionName || null);
+    return this.getItem(userId, item_id)!;
+  }
+
+  /** Called after Link update mode succeeds; the next sync will retry the item. */
+  markItemReconnected(userId: string, itemId: string): PlaidItem | null {
+    const item = this.getItem(userId, itemId);
+    if (!item) return null;
+    setItemStatus(itemId, 'ACTIVE', null);
+    return this.getItem(userId, itemId);
+  }
+
+  listItems(userId: string): PlaidItem[] {
+    const rows = getDb().prepare(
+      'SELECT * FROM plaid_item WHERE user_id = ? ORDER BY created_at'
+    ).all(userId) as any[];
+    return rows.map(mapItemRow);
+  }
+
+  getItem(userId: string, itemId: string): PlaidItem | null {
+    const row = getDb().prepare(
+      'SELECT * FROM plaid_item WHERE item_id = ? AND user_id = ?'
+    ).get(itemId, userId) as any;
+    return row ? mapItemRow(row) : null;
+  }
+
+  // ─── BankDataProvider ───
+
+  async listTransactions(userId: string, start: string, end: string, includePending: boolean): Promise<Transaction[]> {
+    let sql = `SELECT * FROM transaction_ WHERE user_id = ? AND provider = ? AND date >= ? AND date <= ?`;
+    if (!includePending) sql += ` AND pending = 0`;
+    sql += ` ORDER BY date DESC`;
+
+    const rows = getDb().prepare(sql).all(userId, PLAID_PROVIDER, start, end) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      user_id: row.user_id,
+      provider: row.provider,
+      provider_txn_id: row.provider_txn_id,
+      date: row.date,
+      amount: row.amount,
+      currency: row.currency,
+      name: row.name,
+      merchant_name: row.merchant_name,
+      category_primary: row.category_primary,
+      category_detailed: row.category_detailed,
+      pending: !!row.pending,
+      pending_transaction_id: row.pending_transaction_id,
+      metadata: JSON.parse(row.metadata || '{}'),
+      account_id: row.account_id ?? null,
+    }));
+  }
+
+  /**
+   * Run /transactions/sync for each of the user's active items and apply the
+   * added/modified/removed deltas. Items needing re-authentication are flagged
+   * and skipped rather than failing the whole sync. Pass cursor 'force' to
+   * restart every item from the beginning of its history.
+   */
+  async syncTransactions(userId: string, cursor?: string): Promise<BankSyncResult> {
+    const items = getDb().prepare(
+      `SELECT item_id, access_token, institution_name FROM plaid_item WHERE user_id = ? AND status != 'LOGIN_REQUIRED'`
+    ).all(userId) as Array<{ item_id: string; access_token: string; institution_name: string | null }>;
+
+    const transactions: Transaction[] = [];
+    const removed: string[] = [];
+    const changedIds: string[] = [];
+    const cursors: Record<string, string> = {};
+
+    for (const item of items) {
+      const startCursor = cursor === 'force' ? null : getCursor(userId, item.item_id);
+      try {
+        const delta = await this.fetchItemDelta(item.access_token, startCursor);
+
+        const accountIds = new Map<string, string>();
+        for (const account of delta.accounts || []) {
+          accountIds.set(account.account_id, upsertProviderAccount(userId, PLAID_PROVIDER, account.account_id, {
+            name: account.official_name || account.name,
+            type: mapPlaidAccountType(account),
+            institution: item.institution_name,
+            mask: account.mask ?? null,
+            currency: account.balances.iso_currency_code || 'USD',
+            balance: account.balances.current ?? undefined,
+          }));
+        }
+        const withAccount = (t: PlaidTransaction): Transaction => ({
+          ...mapPlaidTransaction(userId, item.item_id, t),
+          account_id: accountIds.get(t.account_id) ?? this.findAccountId(userId, t.account_id),
+        });
+        const added = delta.added.map(withAccount);
+        const modified = delta.modified.map(withAccount);
+        const removedIds = delta.removed.map(r => r.transaction_id);
+
+        const db = getDb();
+        const applied = db.transaction(() => {
+          // A modified row we never saw (e.g. after a forced resync) is just an insert
+          const result = applyTransactionDelta(userId, { upsert: [...added, ...modified], remove: removedIds }, PLAID_PROVIDER);
+          upsertSyncState(userId, item.item_id, delta.next_cursor, null);
+          setItemStatus(item.item_id, 'ACTIVE', null);
+          return result;
+        })();
+        reevaluateQuestsForDates(userId, applied.changedDates);
+        matchTransferContributions(userId);
+
+        transactions.push(...added, ...modified);
+        removed.push(...removedIds);
+        changedIds.push(...applied.changedIds);
+        cursors[item.item_id] = delta.next_cursor;
+      } catch (err) {
+        if (err instanceof PlaidApiError && LOGIN_REQUIRED_CODES.has(err.errorCode)) {
+          setItemStatus(item.item_id, 'LOGIN_REQUIRED', err.errorCode);
+          upsertSyncState(userId, item.item_id, startCursor, err.errorCode);
+          console.warn(`[plaid] Item ${item.item_id} needs re-authentication (${err.errorCode})`);
+          continue;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        const errorCode = err instanceof PlaidApiError ? err.errorCode : null;
+        setItemStatus(item.item_id, 'ERROR', errorCode);
+        upsertSyncState(userId, item.item_id, startCursor, message);
+        throw err;
+      }
+    }
+
+    return { transactions, removed, changedIds, cursor: JSON.stringify(cursors) };
+  }
+
+  /**
+   * Page through /transactions/sync until has_more is false. If Plaid reports
+   * the data changed mid-pagination, restart from the original cursor.
+   */
+  private async fetchItemDelta(accessToken: string, startCursor: string | null): Promise<PlaidSyncResponse> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const result: PlaidSyncResponse = { added: [], modified: [], removed: [], next_cursor: startCursor || '', has_more: true };
+      try {
+        for (let page = 0; result.has_more && page < MAX_SYNC_PAGES; page++) {
+          const body: Record<string, unknown> = { access_token: accessToken, count: SYNC_PAGE_SIZE };
+          if (result.next_cursor) body.cursor = result.next_cursor;
+          const resp = await this.post<PlaidSyncResponse>('/transactions/sync', body);
+          result.added.push(...resp.added);
+          result.modified.push(...resp.modified);
+          result.removed.push(...resp.removed);
+          result.next_cursor = resp.next_cursor;
+          result.has_more = resp.has_more;
+          if (resp.accounts) result.accounts = resp.accounts;
+        }
+        return result;
+      } catch (err) {
+        if (err instanceof PlaidApiError && err.errorCode === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION') continue;
+        throw err;
+      }
+    }
+    throw new Error('Plaid sync kept changing during pagination; try again later');
+  }
+
+  /** The local account for a Plaid account id, if it has been seen before */
+  private findAccountId(userId: string, plaidAccountId: string): string | null {
+    const row = getDb().prepare(
+      `SELECT id FROM account WHERE user_id = ? AND provider = ? AND provider_account_id = ?`
+    ).get(userId, PLAID_PROVIDER, plaidAccountId) as { id: string } | undefined;
+    return row?.id ?? null;
+  }
+
+  async listRecurringCandidates(userId: string, _lookbackDays: number): Promise<RecurringCandidate[]> {
+    const rows = getDb().prepare('SELECT * FROM recurring_candidate WHERE user_id = ?').all(userId) as any[];
+    return rows.map(rowToRecurringCandidate);
+  }
+}
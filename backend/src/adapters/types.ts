@@ -1,5 +1,14 @@
 import { Transaction, RecurringCandidate } from '../schemas';
 
+export interface BankSyncResult {
+  transactions: Transaction[];
+  /** provider_txn_ids the provider reported as removed since the last cursor */
+  removed?: string[];
+  /** Ids of the stored rows the sync inserted or changed; defaults to the ids of `transactions` */
+  changedIds?: string[];
+  cursor: string;
+}
+
 export interface BankDataProvider {
   listTransactions(
     userId: string,
@@ -11,7 +20,7 @@ export interface BankDataProvider {
   syncTransactions(
     userId: string,
     cursor?: string
-  ): Promise<{ transactions: Transaction[]; cursor: string }>;
+  ): Promise<BankSyncResult>;
 
   listRecurringCandidates(
     userId: string,
@@ -34,6 +43,9 @@ export interface CancellationResult {
   success: boolean;
   message: string;
   confirmationId?: string;
+  /** The provider can't cancel for the user; they finish it by following `instructions` */
+  needsManualSteps?: boolean;
+  instructions?: string[];
 }
 
 export interface CancellationProvider {
@@ -2,11 +2,16 @@ import { v4 as uuid } from 'uuid';
 import { z } from 'zod';
 import { getDb } from '../db/database';
 import { TOOLS, ToolContext, ToolDefinition } from './tools';
-import { DailyDigestOutput, ChatResponseOutput, TriggerType, ChatSuggestedAction } from '../schemas';
+import { DailyDigestOutput, ChatResponseOutput, TriggerType, ChatSuggestedAction, MetricType } from '../schemas';
 import { Adapters } from '../adapters';
 import { buildDualSummary } from '../services/financial-summary';
-import { searchTransactions, detectAnomalies } from '../services/retrieval';
+import { searchTransactions, detectAnomalies, listTransactionStats } from '../services/retrieval';
+import { normalizeTag } from '../services/tags';
 import { createBudget, listBudgets } from '../services/budget';
+import { listCategories, excludedCategoryNames } from '../services/categories';
+import { METRIC_TYPES, metricPromptLines } from '../services/quest-metrics';
+import { recentQuestFeedback, recentlyDeclinedCategories } from '../services/quest-lifecycle';
+import { userToday, addDays } from '../services/user-clock';
 
 export type JobType = 'generate_daily_payload' | 'generate_chat_response' | 'propose_subscription_actions';
 
@@ -252,7 +257,9 @@ export class AgentRunner {
     const activeQuest = await TOOLS.find(t => t.name === 'get_active_quest')!.execute(ctx, {});
     const recurring = await TOOLS.find(t => t.name === 'get_recurring_candidates')!.execute(ctx, {});
 
-    const contextPrompt = buildDailyContextPrompt(summary7d, summary30d, budgets, activeQuest, recurring);
+    const questFeedback = recentQuestFeedback(userId);
+
+    const contextPrompt = buildDailyContextPrompt(summary7d, summary30d, budgets, activeQuest, recurring, questFeedback);
 
     // Use newer Dedalus Anthropic models while avoiding high-cost Opus defaults.
     const modelList = models || ['anthropic/claude-sonnet-4-5', 'anthropic/claude-3-5-sonnet-20241022'];
@@ -377,6 +384,12 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
           output = this.generateFallbackChat(userMessage, summary7d, summary30d);
         }
       }
+    } else if (retrievalContext?.answer) {
+      output = {
+        message: retrievalContext.answer,
+        recommended_actions: [],
+        suggested_actions: this.buildFallbackSuggestedActions(summary7d, summary30d, userMessage),
+      };
     } else {
       output = this.generateFallbackChat(userMessage, summary7d, summary30d);
     }
@@ -394,7 +407,13 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
    * Detect if the user is asking about specific transactions and pre-fetch results.
    * Returns retrieval context to inject into the LLM prompt, or null if no retrieval needed.
    */
-  private buildRetrievalContext(userId: string, message: string): { text: string; tools: string[] } | null {
+  private buildRetrievalContext(
+    userId: string,
+    message: string
+  ): { text: string; tools: string[]; answer?: string } | null {
+    const tagContext = this.buildTagContext(userId, message);
+    if (tagContext) return tagContext;
+
     const msg = message.toLowerCase();
     const tools: string[] = [];
 
@@ -425,11 +444,9 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
 
     // Expand date range if asking about older transactions
     if (msg.includes('last month') || msg.includes('month')) {
-      const d60 = new Date(); d60.setDate(d60.getDate() - 60);
-      searchParams.date_start = d60.toISOString().split('T')[0];
+      searchParams.date_start = addDays(userToday(userId), -60);
     } else if (msg.includes('last year') || msg.includes('year')) {
-      const d365 = new Date(); d365.setDate(d365.getDate() - 365);
-      searchParams.date_start = d365.toISOString().split('T')[0];
+      searchParams.date_start = addDays(userToday(userId), -365);
     }
 
     tools.push('search_transactions');
@@ -451,6 +468,40 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
     return { text, tools };
   }
 
+  /**
+   * "How much did I spend on #trip-nyc?" — total the tagged spending (all
+   * time) by category, with the largest charges as evidence. `answer` is a
+   * plain-text reply for when the LLM is unavailable.
+   */
+  private buildTagContext(userId: string, message: string): { text: string; tools: string[]; answer: string } | null {
+    const tag = message.match(/#([\w-]+)/)?.[1];
+    const normalized = tag ? normalizeTag(tag) : null;
+    if (!normalized) return null;
+
+    const dateEnd = userToday(userId);
+    const stats = listTransactionStats({
+      user_id: userId, date_start: '1970-01-01', date_end: dateEnd, group_by: 'category', tag: normalized,
+    });
+    const { transactions } = searchTransactions({
+      user_id: userId, tags: [normalized], date_start: '1970-01-01', date_end: dateEnd, sort_by: 'amount', limit: 5,
+    });
+    const tools = ['list_transaction_stats', 'search_transactions'];
+
+    if (stats.overall.total_count === 0) {
+      const answer = `I don't see any spending tagged #${normalized} yet. Tag a transaction from your feed and ask me again!`;
+      return { text: `No spending is tagged #${normalized}.`, tools, answer };
+    }
+
+    const total = `$${stats.overall.total_spend.toFixed(2)} across ${stats.overall.total_count} transaction(s)`;
+    const byCategory = stats.rows.map(r => `${r.group_key} $${r.total_spend.toFixed(2)}`).join(', ');
+    const lines = transactions.map(t =>
+      `- ${t.date} | $${Math.abs(t.amount).toFixed(2)} | ${t.merchant_name || t.name} | ${t.category_primary || 'Other'}${t.note ? ` | note: ${t.note}` : ''} (id: ${t.id})`
+    );
+    const text = `Spending tagged #${normalized} (all time): ${total}. By category: ${byCategory}.\nLargest:\n${lines.join('\n')}`;
+    const answer = `Woof! You've spent ${total} tagged #${normalized}. Breakdown: ${byCategory}.`;
+    return { text, tools, answer };
+  }
+
   private parseAndValidate<T>(raw: string, schema: z.ZodSchema<T>): T | null {
     try {
       // Try to parse the entire response as JSON first
@@ -491,8 +542,7 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
 
     // Validate quest is transaction-trackable (no self-report)
     if (output.quest) {
-      const validTypes = ['CATEGORY_SPEND_CAP', 'MERCHANT_SPEND_CAP', 'NO_MERCHANT_CHARGE', 'TRANSFER_AMOUNT'];
-      if (!validTypes.includes(output.quest.metric_type)) {
+      if (!MetricType.options.includes(output.quest.metric_type)) {
         output.quest = null;
       }
     }
@@ -508,7 +558,7 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
     hasActiveQuest: boolean
   ): DailyDigestOutput {
     const insights: DailyDigestOutput['insights'] = [];
-    const today = new Date().toISOString().split('T')[0];
+    const today = userToday(userId);
 
     // Win insight
     if (summary7d.total_spent < summary30d.total_spent / 4) {
@@ -528,7 +578,7 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
     }
 
     // Top spending category insight (exclude income/transfer categories)
-    const NON_SPENDING = ['Income', 'Transfer', 'Payment', 'Refund'];
+    const NON_SPENDING = ['Income', 'Transfer', 'Payment', 'Refund', ...excludedCategoryNames(userId)];
     const topCat = Object.entries(summary7d.by_category as Record<string, number>)
       .filter(([cat]) => !NON_SPENDING.includes(cat))
       .sort(([, a], [, b]) => b - a)[0];
@@ -545,30 +595,14 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
       });
     }
 
-    // Quest generation
+    // Quest generation: the top category the user hasn't just turned down
     let quest: DailyDigestOutput['quest'] = null;
-    if (!hasActiveQuest && topCat) {
-      const dailyAvg = (topCat[1] as number) / 7;
-      const cap = Math.round(dailyAvg * 0.8 * 100) / 100; // 20% reduction target
-      const actionTips: Record<string, string> = {
-        'Food & Drink': `Pack lunch or cook at home instead of eating out. Your daily average is $${dailyAvg.toFixed(2)} — stay under $${cap.toFixed(2)} to complete this quest.`,
-        'Shopping': `Hold off on any non-essential purchases today. Sleep on it — if you still want it tomorrow, revisit. Stay under $${cap.toFixed(2)}.`,
-        'Entertainment': `Find a free activity today — stream something at home, go for a walk, or read. Keep spending under $${cap.toFixed(2)}.`,
-        'Transportation': `Walk, bike, or batch your errands to cut transit costs. Aim to spend under $${cap.toFixed(2)} today.`,
-        'Groceries': `Stick to your grocery list and skip impulse aisle items. Keep today's total under $${cap.toFixed(2)}.`,
-      };
-      const description = actionTips[topCat[0]]
-        || `Cut back on ${topCat[0]} today — skip one unnecessary purchase and stay under $${cap.toFixed(2)}. That's 20% below your $${dailyAvg.toFixed(2)} daily average.`;
-
-      quest = {
-        title: `Keep ${topCat[0]} under $${cap.toFixed(2)} today`,
-        description,
-        metric_type: 'CATEGORY_SPEND_CAP',
-        metric_params: { category: topCat[0], cap, window: 'daily' },
-        reward_food_type: 'bone',
-        happiness_delta: 5,
-        window_hours: 24,
-      };
+    const declined = recentlyDeclinedCategories(userId);
+    const questCat = Object.entries(summary7d.by_category as Record<string, number>)
+      .filter(([cat]) => !NON_SPENDING.includes(cat) && !declined.includes(cat))
+      .sort(([, a], [, b]) => b - a)[0];
+    if (!hasActiveQuest && questCat) {
+      quest = this.categoryCapQuest(questCat[0], questCat[1]);
     }
 
     return {
@@ -578,6 +612,46 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
     };
   }
 
+  /**
+   * A quest to swap in for one the user turned down: a category cap on their
+   * biggest spending category that isn't `excludeCategories` or recently
+   * declined. Null when there's nothing left to offer.
+   */
+  generateAlternativeQuest(userId: string, excludeCategories: string[]): DailyDigestOutput['quest'] {
+    const { summary7d } = buildDualSummary(userId);
+    const skip = ['Income', 'Transfer', 'Payment', 'Refund', ...excludedCategoryNames(userId),
+      ...recentlyDeclinedCategories(userId), ...excludeCategories];
+    const next = Object.entries(summary7d.by_category as Record<string, number>)
+      .filter(([cat, spent]) => !skip.includes(cat) && spent > 0)
+      .sort(([, a], [, b]) => b - a)[0];
+    return next ? this.categoryCapQuest(next[0], next[1]) : null;
+  }
+
+  /** A one-day cap 20% under the category's daily average over the last week */
+  private categoryCapQuest(category: string, spent7d: number): NonNullable<DailyDigestOutput['quest']> {
+    const dailyAvg = spent7d / 7;
+    const cap = Math.round(dailyAvg * 0.8 * 100) / 100; // 20% reduction target
+    const actionTips: Record<string, string> = {
+      'Food & Drink': `Pack lunch or cook at home instead of eating out. Your daily average is $${dailyAvg.toFixed(2)} — stay under $${cap.toFixed(2)} to complete this quest.`,
+      'Shopping': `Hold off on any non-essential purchases today. Sleep on it — if you still want it tomorrow, revisit. Stay under $${cap.toFixed(2)}.`,
+      'Entertainment': `Find a free activity today — stream something at home, go for a walk, or read. Keep spending under $${cap.toFixed(2)}.`,
+      'Transportation': `Walk, bike, or batch your errands to cut transit costs. Aim to spend under $${cap.toFixed(2)} today.`,
+      'Groceries': `Stick to your grocery list and skip impulse aisle items. Keep today's total under $${cap.toFixed(2)}.`,
+    };
+    const description = actionTips[category]
+      || `Cut back on ${category} today — skip one unnecessary purchase and stay under $${cap.toFixed(2)}. That's 20% below your $${dailyAvg.toFixed(2)} daily average.`;
+
+    return {
+      title: `Keep ${category} under $${cap.toFixed(2)} today`,
+      description,
+      metric_type: 'CATEGORY_SPEND_CAP',
+      metric_params: { category, cap, window: 'daily' },
+      reward_food_type: 'bone',
+      happiness_delta: 5,
+      window_hours: 24,
+    };
+  }
+
   
 
   private buildFallbackSuggestedActions(
@@ -728,10 +802,10 @@ Respond as Scotty, a friendly Scottish Terrier financial buddy. Keep it concise
 
     // Compute per-category budgets from actual 30d spending
     const suggestions: BudgetSuggestion[] = [];
-    const validCategories = [
-      'Food & Drink', 'Groceries', 'Transportation', 'Entertainment',
-      'Shopping', 'Health', 'Subscription',
-    ];
+    // Any of the user's own categories, skipping ones that aren't spending
+    const validCategories = listCategories(userId)
+      .filter(c => !c.exclude_from_spending)
+      .map(c => c.name);
     const discretionaryCategories = ['Entertainment', 'Shopping', 'Food & Drink'];
 
     const byCategory = summary30d.by_category as Record<string, number>;
@@ -870,14 +944,21 @@ const DAILY_SYSTEM_PROMPT = `You are the AI engine for Scotty, a gamified financ
 Generate a daily digest as valid JSON matching this schema:
 {
   "insights": [{ "title": string (max 80 chars), "blurb": string (max 280 chars), "confidence": "HIGH"|"MEDIUM"|"LOW", "metrics": {} }],
-  "quest": { "title": string (short catchy name), "description": string (max 200 chars — a specific, actionable tip telling the user exactly what to do to complete the quest. Include a concrete action like 'Cook dinner at home instead of ordering DoorDash' or 'Skip your afternoon Starbucks run and brew coffee at the office'. Never just restate the title.), "metric_type": "CATEGORY_SPEND_CAP"|"MERCHANT_SPEND_CAP"|"NO_MERCHANT_CHARGE"|"TRANSFER_AMOUNT", "metric_params": {}, "reward_food_type": "kibble"|"bone"|"steak"|"salmon"|"truffle", "happiness_delta": 1-20, "window_hours": 1-168 } or null,
+  "quest": { "title": string (short catchy name), "description": string (max 200 chars — a specific, actionable tip telling the user exactly what to do to complete the quest. Include a concrete action like 'Cook dinner at home instead of ordering DoorDash' or 'Skip your afternoon Starbucks run and brew coffee at the office'. Never just restate the title.), "metric_type": ${METRIC_TYPES.map(t => `"${t}"`).join('|')}, "metric_params": {} (see below), "reward_food_type": "kibble"|"bone"|"steak"|"salmon"|"truffle", "happiness_delta": 1-20, "window_hours": 1-168 } or null,
   "action": { "type": "SUBSCRIPTION_REVIEW"|"BUDGET_SUGGESTION"|"SAVINGS_TIP"|"SPENDING_ALERT", "payload": {}, "requires_approval": true } or null
 }
 
 Rules:
 - 1-3 insights per day. Include at least one positive/"win" when possible.
 - At most 1 quest. Must be measurable via bank transactions only — no self-report.
-- Quest types: category spend cap, merchant spend cap, no-merchant-charge verification, savings transfer detection.
+- Don't offer a quest like one the user recently turned down; their reasons say what to change.
+- Quest types and their metric_params:
+${metricPromptLines()}
+- Approving an action runs it, so its payload must be complete:
+  - BUDGET_SUGGESTION: { "category": string, "limit_amount": number, "frequency"?: "Day"|"Week"|"Month" }
+  - SUBSCRIPTION_REVIEW: { "merchant_key": string } (one of the recurring charges)
+  - SAVINGS_TIP: { "goal"?: { "name": string, "target_amount": number, "deadline"?: "YYYY-MM-DD" }, "quest"?: a quest as above }
+  - SPENDING_ALERT: any details to show
 - Label pending-derived data as provisional with MEDIUM/LOW confidence.
 - Be concise, friendly, dog-themed.`;
 
@@ -918,7 +999,9 @@ Rules:
 - Never claim you can cancel subscriptions. Instead suggest "reviewing" or "verifying by absence of charges."
 - Keep responses under 1000 characters.`;
 
-function buildDailyContextPrompt(summary7d: any, summary30d: any, budgets: any[], activeQuest: any, recurring: any[]): string {
+function buildDailyContextPrompt(
+  summary7d: any, summary30d: any, budgets: any[], activeQuest: any, recurring: any[], questFeedback: string[]
+): string {
   return `Generate today's daily digest.
 
 Financial Data:
@@ -931,6 +1014,7 @@ Financial Data:
 - Active quest: ${activeQuest ? JSON.stringify(activeQuest) : 'none'}
 - Recurring charges detected: ${recurring.length > 0 ? JSON.stringify(recurring.slice(0, 5)) : 'none'}
 - Pending transactions total: $${summary7d.pending_total}
+- Quests the user recently turned down: ${questFeedback.length > 0 ? questFeedback.map(f => `\n  - ${f}`).join('') : 'none'}
 
-Today: ${new Date().toISOString().split('T')[0]}`;
+Today: ${summary7d.period_end}`;
 }
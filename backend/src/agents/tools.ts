@@ -1,9 +1,16 @@
 import { getTransactions } from '../services/ingestion';
 import { buildFinancialSummary, buildDualSummary } from '../services/financial-summary';
 import { getUpcomingSubscriptions, detectRecurringCandidates } from '../services/subscription-analysis';
+import { detectIncomeStreams } from '../services/income-detection';
+import {
+  forecastCashFlow, DEFAULT_FORECAST_DAYS, MIN_FORECAST_DAYS, MAX_FORECAST_DAYS,
+} from '../services/cash-flow-forecast';
+import { listCategories } from '../services/categories';
+import { listTags } from '../services/tags';
 import {
   searchTransactions, getTransactionById, listTransactionStats, detectAnomalies,
 } from '../services/retrieval';
+import { userToday, addDays, startOfMonth } from '../services/user-clock';
 import { Adapters } from '../adapters';
 import { getDb } from '../db/database';
 
@@ -46,9 +53,39 @@ export const TOOLS: ToolDefinition[] = [
   },
   {
     name: 'get_recurring_candidates',
-    description: 'Get detected recurring/subscription charges. Params: lookback_days (optional, default 90)',
+    description: 'Get detected recurring/subscription charges (weekly, monthly, quarterly, annual) with price history and free trials. Params: lookback_days (optional, default 800)',
+    execute: async (ctx, params) => {
+      return detectRecurringCandidates(ctx.userId, params.lookback_days);
+    },
+  },
+  {
+    name: 'get_income_streams',
+    description: 'Get detected income streams (paychecks, stipends, recurring deposits) with cadence, typical amount and next expected date. Params: lookback_days (optional, default 120)',
+    execute: async (ctx, params) => {
+      return detectIncomeStreams(ctx.userId, params.lookback_days ?? 120);
+    },
+  },
+  {
+    name: 'get_cash_flow_forecast',
+    description: "Project the user's checking and cash balance day by day from expected income, upcoming subscriptions and remaining budgets. Returns safe_to_spend_today, next_income_date, lowest_balance and overdraft_dates. Params: days (optional, 7-60, default 30)",
     execute: async (ctx, params) => {
-      return detectRecurringCandidates(ctx.userId, params.lookback_days ?? 90);
+      const days = Math.min(MAX_FORECAST_DAYS, Math.max(MIN_FORECAST_DAYS, Math.round(params.days ?? DEFAULT_FORECAST_DAYS)));
+      const { days: daily, ...forecast } = forecastCashFlow(ctx.userId, days);
+      // The day-by-day list is long; the days that move money are enough for the model
+      return { ...forecast, key_days: daily.filter(d => d.entries.length > 0 || d.balance < 0) };
+    },
+  },
+  {
+    name: 'get_categories',
+    description: "Get the user's categories (including custom ones) with their parent category and whether they count as spending. Use these names for budgets and category quests.",
+    execute: async (ctx) => {
+      const categories = listCategories(ctx.userId);
+      const names = new Map(categories.map(c => [c.id, c.name]));
+      return categories.map(c => ({
+        name: c.name,
+        parent: c.parent_id ? names.get(c.parent_id) ?? null : null,
+        exclude_from_spending: c.exclude_from_spending,
+      }));
     },
   },
   {
@@ -78,11 +115,10 @@ export const TOOLS: ToolDefinition[] = [
     description: 'Get recent insights for the user. Params: days (optional, default 7)',
     execute: async (ctx, params) => {
       const db = getDb();
-      const daysAgo = new Date();
-      daysAgo.setDate(daysAgo.getDate() - (params.days ?? 7));
+      const since = addDays(userToday(ctx.userId), -(params.days ?? 7));
       return db.prepare(
         `SELECT * FROM insight WHERE user_id = ? AND date >= ? ORDER BY date DESC`
-      ).all(ctx.userId, daysAgo.toISOString().split('T')[0]);
+      ).all(ctx.userId, since);
     },
   },
   {
@@ -99,10 +135,17 @@ export const TOOLS: ToolDefinition[] = [
       };
     },
   },
+  {
+    name: 'get_tags',
+    description: "Get the tags the user has put on transactions (like #trip-nyc or #reimbursable) with how many transactions and how much spending each covers. No params needed.",
+    execute: async (ctx) => {
+      return listTags(ctx.userId);
+    },
+  },
   // ─── Retrieval Tools ───
   {
     name: 'search_transactions',
-    description: 'Search transactions with filters. Params: query_text (optional), date_start, date_end, amount_min, amount_max, categories[] (optional), merchant_keys[] (optional), pending (bool), sort_by (date|amount|relevance), limit (default 25, max 100), offset',
+    description: 'Search transactions with filters. Params: query_text (optional; also matches notes, and #tag in it filters by tag), date_start, date_end, amount_min, amount_max, categories[] (optional), merchant_keys[] (optional), tags[] (optional, all must match), pending (bool), sort_by (date|amount|relevance), limit (default 25, max 100), offset',
     execute: async (ctx, params) => {
       return searchTransactions({ user_id: ctx.userId, ...params });
     },
@@ -116,7 +159,7 @@ export const TOOLS: ToolDefinition[] = [
   },
   {
     name: 'list_transaction_stats',
-    description: 'Compute aggregate stats for any time span. Params: date_start, date_end, group_by (category|merchant|day|week|month), category (optional), merchant_key (optional), amount_min/max (optional), limit',
+    description: 'Compute aggregate stats for any time span. Params: date_start, date_end, group_by (category|merchant|tag|day|week|month), category (optional), merchant_key (optional), tag (optional, e.g. trip-nyc), amount_min/max (optional), limit',
     execute: async (ctx, params) => {
       return listTransactionStats({ user_id: ctx.userId, ...params } as any);
     },
@@ -148,11 +191,9 @@ export const TOOLS: ToolDefinition[] = [
     execute: async (ctx) => {
       const budgets = await ctx.adapters.budget.getBudgets(ctx.userId);
       // Compute remaining for each budget
-      const now = new Date();
-      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0];
-      const monthEnd = now.toISOString().split('T')[0];
+      const today = userToday(ctx.userId);
       const stats = listTransactionStats({
-        user_id: ctx.userId, date_start: monthStart, date_end: monthEnd, group_by: 'category',
+        user_id: ctx.userId, date_start: startOfMonth(today), date_end: today, group_by: 'category',
       });
       const spentMap = new Map(stats.rows.map(r => [r.group_key, r.total_spend]));
       return budgets.map((b: any) => ({
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyToken } from '../services/auth';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireAuth — the authenticated caller. Handlers never read user_id from input. */
+      userId?: string;
+      authToken?: string;
+    }
+  }
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+/**
+ * Reject requests without a valid session token; otherwise attach req.userId.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const token = getBearerToken(req);
+  const userId = token ? verifyToken(token) : null;
+  if (!token || !userId) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+  req.userId = userId;
+  req.authToken = token;
+  next();
+}
@@ -2,38 +2,272 @@ import { Router, Request, Response } from 'express';
 import { Orchestrator } from '../orchestrator';
 import { AgentRunner } from '../agents/runner';
 import { Adapters } from '../adapters';
-import { evaluateQuest, evaluateUserQuests } from '../services/quest-evaluation';
-import { getUpcomingSubscriptions, detectRecurringCandidates, upsertRecurringCandidates } from '../services/subscription-analysis';
+import { PlaidBankDataProvider, PlaidApiError } from '../adapters/plaid-bank';
+import { refreshNessieAccounts } from '../adapters/mock-bank';
+import { evaluateQuest, evaluateUserQuests, reevaluateQuestsForDates } from '../services/quest-evaluation';
+import { listQuestMetrics, promptParams, presentQuest, validateMetricParams } from '../services/quest-metrics';
+import { estimateQuestSuccess, calibrateQuest, TIER_REWARDS } from '../services/quest-calibration';
+import {
+  acceptQuest, declineQuest, pauseQuest, resumeQuest, abandonQuest, rerollsLeft, REROLLS_PER_WEEK, LifecycleResult,
+} from '../services/quest-lifecycle';
+import {
+  listQuestChains,
+  getQuestChain,
+  createQuestChain,
+  abandonQuestChain,
+  validateQuestChainInput,
+  chainForQuest,
+} from '../services/quest-chains';
+import { listCampaigns, joinCampaign } from '../services/campaigns';
+import {
+  getUpcomingSubscriptions, getSubscriptionHeadsUps, detectRecurringCandidates, upsertRecurringCandidates,
+} from '../services/subscription-analysis';
 import { computeHealthMetrics } from '../services/health-metrics';
+import { DEFAULT_FORECAST_DAYS, validateForecastDays, forecastCashFlow } from '../services/cash-flow-forecast';
+import {
+  validateGoalInput, createGoal, listGoals, goalProgress, listContributions,
+  validateContributionInput, contribute, withdraw, linkGoalAccount,
+} from '../services/goals';
+import { estimateMonthlyIncome, detectIncomeStreams } from '../services/income-detection';
 import { searchTransactions, getTransactionById, listTransactionStats, detectAnomalies, DetectAnomaliesInput } from '../services/retrieval';
-import { buildDualSummary } from '../services/financial-summary';
+import { buildDualSummary, todaySpend } from '../services/financial-summary';
 import { resetAndSeedNessieDummyData, getTransactionHistory, inferNessieCategory } from '../services/nessie';
 import { runFullSeed } from '../db/seed';
-import { listBudgets, createBudget, updateBudget, validateBudgetInput, BudgetFrequency, computeProjections } from '../services/budget';
+import {
+  CSV_PROFILES, validateStatementImportInput, previewStatementImport, getStatementImport,
+  listStatementImports, commitStatementImport, rollbackStatementImport,
+  listImportedTransactionIds,
+} from '../services/statement-import';
+import {
+  listBudgets,
+  getBudget,
+  createBudget,
+  updateBudget,
+  validateBudgetInput,
+  validateBudgetOptions,
+  BudgetFrequency,
+  BudgetOptions,
+  computeProjections,
+} from '../services/budget';
+import {
+  listBudgetStatus,
+  getBudgetHistory,
+  unassignedIncome,
+  validateFundingInput,
+  fundEnvelopes,
+  moveBetweenEnvelopes,
+} from '../services/budget-periods';
+import {
+  checkBudgetAlerts,
+  listBudgetAlerts,
+  markAlertsRead,
+  getAlertSettings,
+  setAlertSettings,
+  validateAlertSettings,
+} from '../services/budget-alerts';
+import { validateQuietHours, getQuietHours, setQuietHours } from '../services/quiet-hours';
+import { listActions, getAction, approveAction, dismissAction, undoAction } from '../services/action-executor';
+import {
+  CANCELLATION_STATUSES, CancellationStatus, listCancellations, validateCancelInput, cancelSubscription, keepSubscription,
+} from '../services/subscription-cancellation';
 import { getDb } from '../db/database';
-import { TransactionSchema } from '../schemas';
+import { getTransactionAudit } from '../services/ingestion';
+import { getSplits, setTransactionSplits, validateSplitsInput } from '../services/splits';
+import {
+  listRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  getRule,
+  validateRuleInput,
+  reapplyRules,
+  recategorizeTransaction,
+} from '../services/categorization-rules';
+import {
+  listCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  validateCategoryInput,
+  validateCategoryName,
+} from '../services/categories';
+import {
+  listAccounts,
+  getAccount,
+  createAccount,
+  validateAccountInput,
+  recordBalanceSnapshot,
+  getBalanceHistory,
+  assignTransactionAccount,
+  signedBalance,
+} from '../services/accounts';
+import {
+  listTags,
+  renameTag,
+  deleteTag,
+  validateTag,
+  validateTagsInput,
+  validateNoteInput,
+  setTransactionTags,
+  removeTransactionTag,
+  setTransactionNote,
+} from '../services/tags';
+import { TransactionSchema, ActionStatus } from '../schemas';
 import { z } from 'zod';
 import { v4 as uuid } from 'uuid';
+import { requireAuth } from './middleware';
+import { validateCredentialsInput, signUp, logIn, revokeToken, getAuthUser, seedRoutesEnabled } from '../services/auth';
+import { listJobs, retryJob, cancelJob, JobResult } from '../orchestrator/job-queue';
+import { AppEvent, subscribeEvents, eventsSince, formatServerSentEvent, publishScottyState } from '../services/events';
+import { addDays, addMonths, isValidTimezone, startOfMonth, startOfNextMonth, userToday } from '../services/user-clock';
+
+type OwnedTable = 'quest' | 'budget';
+
+/** Id-addressed rows are only visible to their owner; others get a 404. */
+function isOwnedBy(table: OwnedTable, id: string, userId: string): boolean {
+  const row = getDb().prepare(`SELECT user_id FROM ${table} WHERE id = ?`).get(id) as { user_id: string } | undefined;
+  return !!row && row.user_id === userId;
+}
+
+/** A quest row with its latest progress and how the metric presents it */
+function questWithProgress(q: any) {
+  const params = JSON.parse(q.metric_params || '{}');
+  const snapshot = getDb().prepare(
+    `SELECT * FROM quest_progress_snapshot WHERE quest_id = ? ORDER BY created_at DESC LIMIT 1`
+  ).get(q.id) as any;
+  const confirmedValue = snapshot?.confirmed_value ?? 0;
+
+  return {
+    id: q.id,
+    title: q.title,
+    description: q.description,
+    status: q.status,
+    metric_type: q.metric_type,
+    metric_params: params,
+    reward_food_type: q.reward_food_type,
+    happiness_delta: q.happiness_delta,
+    success_probability: q.success_probability ?? null,
+    difficulty: q.difficulty ?? null,
+    paused_at: q.paused_at ?? null,
+    window_start: q.window_start,
+    window_end: q.window_end,
+    confirmed_value: confirmedValue,
+    pending_value: snapshot?.pending_value ?? 0,
+    explanation: snapshot?.explanation ?? '',
+    ...presentQuest(q.metric_type, params, confirmedValue),
+    chain: chainForQuest(q.id),
+  };
+}
+
+/** 404 for someone else's quest, 409 for a move the quest's state doesn't allow */
+function sendQuestLifecycle(res: Response, result: LifecycleResult | null, status = 200) {
+  if (!result) return res.status(404).json({ error: 'Quest not found' });
+  if (result.error) return res.status(409).json({ error: result.error });
+  res.status(status).json(questWithProgress(result.quest));
+}
+
+/** 404 for an unknown job, 409 for a move its status doesn't allow */
+function sendJobResult(res: Response, result: JobResult | null) {
+  if (!result) return res.status(404).json({ error: 'Job not found' });
+  if (result.error) return res.status(409).json({ error: result.error });
+  res.json(result.job);
+}
+
+const EVENT_HEARTBEAT_MS = 25_000;
 
 export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   const router = Router();
   const orchestrator = new Orchestrator(adapters, runner);
 
+  // ─── POST /v1/auth/signup ───
+  router.post('/v1/auth/signup', async (req: Request, res: Response) => {
+    try {
+      const validation = validateCredentialsInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const session = signUp(req.body.email, req.body.password);
+      res.status(201).json(session);
+    } catch (err: any) {
+      if (err.message?.includes('UNIQUE constraint')) {
+        return res.status(409).json({ error: 'An account with this email already exists' });
+      }
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/auth/login ───
+  router.post('/v1/auth/login', async (req: Request, res: Response) => {
+    try {
+      const { email, password } = req.body;
+      if (!email || !password) return res.status(400).json({ error: 'email and password required' });
+
+      const session = logIn(email, password);
+      if (!session) return res.status(401).json({ error: 'Invalid email or password' });
+      res.json(session);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // Everything below requires a bearer token; handlers read the caller from req.userId.
+  router.use(requireAuth);
+
+  // ─── POST /v1/auth/logout ───
+  router.post('/v1/auth/logout', async (req: Request, res: Response) => {
+    try {
+      revokeToken(req.authToken!);
+      res.json({ ok: true });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/auth/me ───
+  router.get('/v1/auth/me', async (req: Request, res: Response) => {
+    try {
+      const user = getAuthUser(req.userId!);
+      res.json(user ?? { user_id: req.userId, email: null });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/events (server-sent events; Last-Event-ID replays what a reconnecting client missed) ───
+  router.get('/v1/events', (req: Request, res: Response) => {
+    const userId = req.userId!;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    const send = (event: AppEvent) => res.write(formatServerSentEvent(event));
+    const lastId = parseInt(req.header('Last-Event-ID') || (req.query.last_event_id as string), 10);
+    if (lastId >= 0) eventsSince(userId, lastId).forEach(send);
+
+    const unsubscribe = subscribeEvents(userId, send);
+    // Comment lines keep proxies and mobile networks from dropping an idle stream
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), EVENT_HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
   // ─── GET /v1/transactions ───
   router.get('/v1/transactions', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
-      const now = new Date();
-      const end = req.query.end as string || now.toISOString().split('T')[0];
-      const d30 = new Date(now);
-      d30.setDate(d30.getDate() - (parseInt(req.query.days as string) || 30));
-      const start = req.query.start as string || d30.toISOString().split('T')[0];
+      const today = userToday(userId);
+      const end = req.query.end as string || today;
+      const start = req.query.start as string || addDays(today, -(parseInt(req.query.days as string) || 30));
       const includePending = req.query.include_pending === 'true';
 
       // Refresh from Nessie when due (adapter throttles and only ingests new rows).
-      await adapters.bank.syncTransactions(userId);
+      await orchestrator.syncBank(userId);
 
       const txns = await adapters.bank.listTransactions(userId, start, end, includePending);
       res.json(txns);
@@ -45,8 +279,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/profile ───
   router.get('/v1/profile', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const db = getDb();
       const user = db
@@ -56,11 +289,8 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
         | undefined;
       if (!user) return res.status(404).json({ error: 'User not found' });
 
-      const now = new Date();
-      const end = now.toISOString().split('T')[0];
-      const d30 = new Date(now);
-      d30.setDate(d30.getDate() - 30);
-      const start = d30.toISOString().split('T')[0];
+      const end = userToday(userId);
+      const start = addDays(end, -30);
 
       const budgetRows = db
         .prepare('SELECT amount, period FROM budget WHERE user_id = ?')
@@ -103,18 +333,44 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── PUT /v1/profile/timezone ───
+  // The IANA zone (e.g. America/Los_Angeles) that "today", budget periods and quest windows follow
+  router.put('/v1/profile/timezone', async (req: Request, res: Response) => {
+    try {
+      const { timezone } = req.body ?? {};
+      if (!isValidTimezone(timezone)) {
+        return res.status(400).json({ error: 'timezone must be an IANA time zone such as America/New_York' });
+      }
+      const { changes } = getDb().prepare(`UPDATE user_profile SET timezone = ?, updated_at = datetime('now') WHERE id = ?`)
+        .run(timezone, req.userId!);
+      if (!changes) return res.status(404).json({ error: 'User not found' });
+      res.json({ timezone, today: userToday(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/profile/quiet-hours ───
+  // { quiet_hours: { start: '22:00', end: '07:00' } } in local time, or null; alerts wait until they end
+  router.put('/v1/profile/quiet-hours', async (req: Request, res: Response) => {
+    try {
+      const validation = validateQuietHours(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      if (!setQuietHours(req.userId!, req.body.quiet_hours)) return res.status(404).json({ error: 'User not found' });
+      res.json({ quiet_hours: getQuietHours(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── GET /v1/budgets ───
   router.get('/v1/budgets', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const db = getDb();
-      const now = new Date();
-      const end = now.toISOString().split('T')[0];
-      const d30 = new Date(now);
-      d30.setDate(d30.getDate() - 30);
-      const start = d30.toISOString().split('T')[0];
+      const end = userToday(userId);
+      const start = addDays(end, -30);
 
       const rows = db
         .prepare(
@@ -129,10 +385,12 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
                END
              ), 0) AS spent
            FROM budget b
-           LEFT JOIN transaction_ t
+           LEFT JOIN transaction_line t
              ON t.user_id = b.user_id
             AND (t.category_primary = b.category
-                 OR (b.category = 'Food & Drink' AND t.category_primary = 'Groceries'))
+                 OR t.category_primary IN (
+                   SELECT c.name FROM category c JOIN category p ON p.id = c.parent_id
+                   WHERE p.user_id = b.user_id AND p.name = b.category))
             AND t.date BETWEEN ? AND ?
             AND t.pending = 0
            WHERE b.user_id = ?
@@ -162,8 +420,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/health-metrics ───
   router.get('/v1/health-metrics', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const metrics = computeHealthMetrics(userId);
       res.json(metrics);
@@ -172,18 +429,37 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── GET /v1/income/streams ───
+  router.get('/v1/income/streams', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const lookbackDays = req.query.lookback_days ? Number(req.query.lookback_days) : 120;
+      if (!Number.isInteger(lookbackDays) || lookbackDays < 30 || lookbackDays > 730) {
+        return res.status(400).json({ error: 'lookback_days must be an integer between 30 and 730' });
+      }
+
+      const streams = detectIncomeStreams(userId, lookbackDays);
+      const estimate = estimateMonthlyIncome(userId);
+      res.json({ streams, monthly_income: estimate.monthly_income, income_source: estimate.source });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── POST /v1/scotty/set-happiness ───
   router.post('/v1/scotty/set-happiness', async (req: Request, res: Response) => {
     try {
-      const { user_id, happiness } = req.body;
-      if (!user_id || happiness == null) return res.status(400).json({ error: 'user_id and happiness required' });
+      const userId = req.userId!;
+      const { happiness } = req.body;
+      if (happiness == null) return res.status(400).json({ error: 'happiness required' });
 
       const clamped = Math.max(0, Math.min(100, happiness));
       const mood = clamped >= 60 ? 'happy' : 'sad';
       const db = getDb();
       db.prepare(`
         UPDATE scotty_state SET happiness = ?, mood = ?, last_fed = datetime('now'), updated_at = datetime('now') WHERE user_id = ?
-      `).run(clamped, mood, user_id);
+      `).run(clamped, mood, userId);
+      publishScottyState(userId);
       res.json({ happiness: clamped, mood });
     } catch (err: any) {
       res.status(500).json({ error: err.message });
@@ -193,8 +469,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/scotty/state ───
   router.get('/v1/scotty/state', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const db = getDb();
       const state = db.prepare('SELECT * FROM scotty_state WHERE user_id = ?').get(userId) as any;
@@ -251,28 +526,29 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/scotty/feed (legacy credit-based) ───
   router.post('/v1/scotty/feed', async (req: Request, res: Response) => {
     try {
-      const { user_id, food_type } = req.body;
-      if (!user_id || !food_type) {
-        return res.status(400).json({ error: 'user_id and food_type required' });
+      const userId = req.userId!;
+      const { food_type } = req.body;
+      if (!food_type) {
+        return res.status(400).json({ error: 'food_type required' });
       }
 
       const cost = food_type === 'meal' ? 5 : 2;
       const happinessBoost = food_type === 'meal' ? 15 : 5;
 
       const db = getDb();
-      let state = db.prepare('SELECT * FROM scotty_state WHERE user_id = ?').get(user_id) as any;
+      let state = db.prepare('SELECT * FROM scotty_state WHERE user_id = ?').get(userId) as any;
 
       if (!state) {
         db.prepare(`
           INSERT INTO scotty_state (user_id, happiness, mood, food_credits)
           VALUES (?, 70, 'content', 10)
-        `).run(user_id);
+        `).run(userId);
         state = { happiness: 70, mood: 'content', food_credits: 10, last_fed: null };
       }
 
       if (state.food_credits < cost) {
         // Allow feeding but clamp credits to 0 (frontend manages food inventory)
-        console.warn(`[feed] User ${user_id} has ${state.food_credits} credits but needs ${cost}, clamping to 0`);
+        console.warn(`[feed] User ${userId} has ${state.food_credits} credits but needs ${cost}, clamping to 0`);
       }
 
       const newHappiness = Math.min(100, state.happiness + happinessBoost);
@@ -284,7 +560,8 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
         UPDATE scotty_state
         SET happiness = ?, mood = ?, food_credits = ?, last_fed = ?, updated_at = datetime('now')
         WHERE user_id = ?
-      `).run(newHappiness, newMood, newCredits, now, user_id);
+      `).run(newHappiness, newMood, newCredits, now, userId);
+      publishScottyState(userId);
 
       res.json({
         happiness: newHappiness,
@@ -300,8 +577,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/budget ───
   router.get('/v1/budget', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
       const budgets = listBudgets(userId);
       res.json({ budgets });
     } catch (err: any) {
@@ -312,14 +588,16 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/budget ───
   router.post('/v1/budget', async (req: Request, res: Response) => {
     try {
-      const validation = validateBudgetInput(req.body);
+      const validation = validateBudgetInput({ ...req.body, user_id: req.userId });
       if (validation.error) return res.status(400).json({ error: validation.error });
 
+      const { rollover, rollover_cap, envelope, anchor_day } = req.body;
       const budget = createBudget(
-        req.body.user_id,
+        req.userId!,
         req.body.category,
         req.body.limit_amount,
         req.body.frequency || 'Month',
+        { rollover, rollover_cap, envelope, anchor_day },
       );
       res.status(201).json(budget);
     } catch (err: any) {
@@ -333,11 +611,27 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── PUT /v1/budget/:id ───
   router.put('/v1/budget/:id', async (req: Request, res: Response) => {
     try {
-      const updates: { limit_amount?: number; frequency?: BudgetFrequency; category?: string } = {};
+      const updates: { limit_amount?: number; frequency?: BudgetFrequency; category?: string } & BudgetOptions = {};
       if (req.body.limit_amount !== undefined) updates.limit_amount = req.body.limit_amount;
       if (req.body.frequency) updates.frequency = req.body.frequency;
       if (req.body.category) updates.category = req.body.category;
+      if (req.body.rollover !== undefined) updates.rollover = req.body.rollover;
+      if (req.body.rollover_cap !== undefined) updates.rollover_cap = req.body.rollover_cap;
+      if (req.body.envelope !== undefined) updates.envelope = req.body.envelope;
+      if (req.body.anchor_day !== undefined) updates.anchor_day = req.body.anchor_day;
 
+      if (!isOwnedBy('budget', req.params.id as string, req.userId!)) {
+        return res.status(404).json({ error: 'Budget not found' });
+      }
+      if (updates.category) {
+        const categoryCheck = validateCategoryName(req.userId!, updates.category);
+        if (categoryCheck.error) return res.status(400).json({ error: categoryCheck.error });
+      }
+      if (updates.frequency && !['Day', 'Week', 'Month'].includes(updates.frequency)) {
+        return res.status(400).json({ error: 'frequency must be Day, Week, or Month' });
+      }
+      const optionsCheck = validateBudgetOptions(updates, updates.frequency ?? getBudget(req.params.id as string)!.frequency);
+      if (optionsCheck.error) return res.status(400).json({ error: optionsCheck.error });
       const budget = updateBudget(req.params.id as string, updates);
       if (!budget) return res.status(404).json({ error: 'Budget not found' });
       res.json(budget);
@@ -349,8 +643,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/budget/projections ───
   router.get('/v1/budget/projections', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
       const result = computeProjections(userId);
       res.json(result);
     } catch (err: any) {
@@ -358,6 +651,140 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── GET /v1/budget/status ───
+  // Each budget's current period: its limit (or envelope funding), what rolled over, spent and available
+  router.get('/v1/budget/status', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      res.json({ budgets: listBudgetStatus(userId), to_be_budgeted: unassignedIncome(userId) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/budget/:id/history ───
+  router.get('/v1/budget/:id/history', async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 12;
+      const periods = getBudgetHistory(req.userId!, req.params.id as string, limit);
+      if (!periods) return res.status(404).json({ error: 'Budget not found' });
+      res.json({ periods });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/budget/fund ───
+  // Put income into envelope budgets: { allocations: [{ budget_id, amount }] }
+  router.post('/v1/budget/fund', async (req: Request, res: Response) => {
+    try {
+      const validation = validateFundingInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      const result = fundEnvelopes(req.userId!, req.body.allocations);
+      if (!result) return res.status(404).json({ error: 'Budget not found' });
+      if (result.error) return res.status(409).json({ error: result.error });
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/budget/:id/move ───
+  router.post('/v1/budget/:id/move', async (req: Request, res: Response) => {
+    try {
+      const { to_budget_id, amount } = req.body ?? {};
+      if (typeof to_budget_id !== 'string') return res.status(400).json({ error: 'to_budget_id required' });
+      if (typeof amount !== 'number' || !(amount > 0)) return res.status(400).json({ error: 'amount must be a positive number' });
+      const result = moveBetweenEnvelopes(req.userId!, req.params.id as string, to_budget_id, amount);
+      if (!result) return res.status(404).json({ error: 'Budget not found' });
+      if (result.error) return res.status(409).json({ error: result.error });
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/budget/alerts ───
+  // The alert inbox; ?unread=true for unread alerts only
+  router.get('/v1/budget/alerts', async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      res.json(listBudgetAlerts(req.userId!, { unreadOnly: req.query.unread === 'true', limit }));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/budget/alerts/read-all ───
+  router.post('/v1/budget/alerts/read-all', async (req: Request, res: Response) => {
+    try {
+      res.json({ marked: markAlertsRead(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/budget/alerts/:id/read ───
+  router.post('/v1/budget/alerts/:id/read', async (req: Request, res: Response) => {
+    try {
+      const marked = markAlertsRead(req.userId!, req.params.id as string);
+      if (marked === null) return res.status(404).json({ error: 'Alert not found' });
+      res.json({ marked });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/budget/:id/alerts ───
+  router.get('/v1/budget/:id/alerts', async (req: Request, res: Response) => {
+    try {
+      const settings = getAlertSettings(req.userId!, req.params.id as string);
+      if (!settings) return res.status(404).json({ error: 'Budget not found' });
+      res.json(settings);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/budget/:id/alerts ───
+  // { rules?: [{ type, threshold }], muted?: boolean }; an empty rules list restores the defaults
+  router.put('/v1/budget/:id/alerts', async (req: Request, res: Response) => {
+    try {
+      const validation = validateAlertSettings(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      const settings = setAlertSettings(req.userId!, req.params.id as string, {
+        rules: req.body.rules,
+        muted: req.body.muted,
+      });
+      if (!settings) return res.status(404).json({ error: 'Budget not found' });
+      res.json(settings);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/spend/today ───
+  router.get('/v1/spend/today', async (req: Request, res: Response) => {
+    try {
+      res.json(todaySpend(req.userId!));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/cash-flow/forecast ───
+  // Projected daily balance and safe-to-spend; ?days=30 (7-60)
+  router.get('/v1/cash-flow/forecast', async (req: Request, res: Response) => {
+    try {
+      const days = req.query.days ? Number(req.query.days) : DEFAULT_FORECAST_DAYS;
+      const validation = validateForecastDays(days);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      res.json(forecastCashFlow(req.userId!, days));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── GET /v1/finance/transactions (Nessie-backed) ───
   router.get('/v1/finance/transactions', async (req: Request, res: Response) => {
     try {
@@ -431,27 +858,31 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
-  // ─── GET /v1/finance/accounts (Nessie-backed) ───
+  // ─── GET /v1/finance/accounts ───
   router.get('/v1/finance/accounts', async (req: Request, res: Response) => {
     try {
-      const baseUrl = process.env.NESSIE_BASE_URL || 'http://api.nessieisreal.com';
-      const apiKey = process.env.NESSIE_API_KEY;
-      if (!apiKey) return res.status(500).json({ error: 'NESSIE_API_KEY not configured' });
-
-      const url = `${baseUrl}/accounts?key=${encodeURIComponent(apiKey)}`;
-      const resp = await fetch(url);
-      if (!resp.ok) throw new Error(`Nessie ${resp.status}`);
-      const accounts = await resp.json() as any[];
+      const userId = req.userId!;
+      // Refresh balances from Nessie when it is configured; stored accounts are the source of truth
+      if (process.env.NESSIE_API_KEY) {
+        try {
+          await refreshNessieAccounts(userId);
+        } catch (err: any) {
+          console.warn('[accounts] Nessie refresh failed:', err.message);
+        }
+      }
 
-      const mapped = accounts.map((a: any) => ({
-        id: a._id,
+      const accounts = listAccounts(userId);
+      const mapped = accounts.map(a => ({
+        id: a.id,
         type: a.type,
-        nickname: a.nickname || a.type,
-        balance: a.balance,
-        currency: 'USD',
+        nickname: a.name,
+        balance: a.current_balance,
+        balance_as_of: a.balance_as_of,
+        currency: a.currency,
       }));
 
-      const totalBalance = mapped.reduce((sum: number, a: any) => sum + (a.balance || 0), 0);
+      // Net of credit card debt
+      const totalBalance = accounts.reduce((sum, a) => sum + signedBalance(a), 0);
 
       res.json({
         accounts: mapped,
@@ -462,11 +893,245 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── GET /v1/accounts ───
+  router.get('/v1/accounts', async (req: Request, res: Response) => {
+    try {
+      res.json({ accounts: listAccounts(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/accounts (manual accounts, e.g. cash) ───
+  router.post('/v1/accounts', async (req: Request, res: Response) => {
+    try {
+      const validation = validateAccountInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const account = createAccount(req.userId!, {
+        name: req.body.name,
+        type: req.body.type,
+        institution: req.body.institution,
+        mask: req.body.mask,
+        currency: req.body.currency,
+        balance: req.body.balance,
+      });
+      res.status(201).json(account);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/accounts/:id/balances ───
+  router.get('/v1/accounts/:id/balances', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const account = getAccount(userId, req.params.id as string);
+      if (!account) return res.status(404).json({ error: 'Account not found' });
+      const { start, end } = req.query;
+      res.json({
+        account,
+        balances: getBalanceHistory(userId, account.id, start as string | undefined, end as string | undefined),
+      });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/accounts/:id/balances ───
+  router.post('/v1/accounts/:id/balances', async (req: Request, res: Response) => {
+    try {
+      const { balance, as_of } = req.body || {};
+      if (typeof balance !== 'number' || !Number.isFinite(balance)) {
+        return res.status(400).json({ error: 'balance must be a number' });
+      }
+      if (as_of !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(as_of)) {
+        return res.status(400).json({ error: 'as_of must be YYYY-MM-DD' });
+      }
+      const snapshot = recordBalanceSnapshot(req.userId!, req.params.id as string, balance, as_of, 'manual');
+      if (!snapshot) return res.status(404).json({ error: 'Account not found' });
+      res.status(201).json(snapshot);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/transactions/:id/account ───
+  router.put('/v1/transactions/:id/account', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const accountId = req.body?.account_id ?? null;
+      if (accountId !== null && !getAccount(userId, accountId)) {
+        return res.status(404).json({ error: 'Account not found' });
+      }
+      if (!assignTransactionAccount(userId, req.params.id as string, accountId)) {
+        return res.status(404).json({ error: 'Transaction not found' });
+      }
+      res.json(getTransactionById(userId, req.params.id as string));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/categories ───
+  router.get('/v1/categories', async (req: Request, res: Response) => {
+    try {
+      res.json({ categories: listCategories(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/categories ───
+  router.post('/v1/categories', async (req: Request, res: Response) => {
+    try {
+      const validation = validateCategoryInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const result = createCategory(req.userId!, req.body);
+      if (result.error) return res.status(400).json({ error: result.error });
+      res.status(201).json(result.category);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/categories/:id (a rename carries over to transactions, budgets, rules and quests) ───
+  router.put('/v1/categories/:id', async (req: Request, res: Response) => {
+    try {
+      const validation = validateCategoryInput(req.body, true);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const result = updateCategory(req.userId!, req.params.id as string, req.body);
+      if (!result) return res.status(404).json({ error: 'Category not found' });
+      if (result.error) return res.status(400).json({ error: result.error });
+      // Moving a category under another changes what its parent's quests count
+      evaluateUserQuests(req.userId!);
+      res.json(result.category);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── DELETE /v1/categories/:id?reassign_to= (defaults to the parent, or Other) ───
+  router.delete('/v1/categories/:id', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const result = deleteCategory(userId, req.params.id as string, req.query.reassign_to as string | undefined);
+      if (!result) return res.status(404).json({ error: 'Category not found' });
+      if (result.error) return res.status(400).json({ error: result.error });
+      evaluateUserQuests(userId);
+      res.json({ reassigned_to: result.reassignedTo });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/rules ───
+  router.get('/v1/rules', async (req: Request, res: Response) => {
+    try {
+      res.json({ rules: listRules(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/rules ───
+  router.post('/v1/rules', async (req: Request, res: Response) => {
+    try {
+      const validation = validateRuleInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      if (req.body.set_category) {
+        const categoryCheck = validateCategoryName(req.userId!, req.body.set_category);
+        if (categoryCheck.error) return res.status(400).json({ error: categoryCheck.error });
+      }
+      res.status(201).json(createRule(req.userId!, req.body));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/rules/:id ───
+  router.put('/v1/rules/:id', async (req: Request, res: Response) => {
+    try {
+      const validation = validateRuleInput(req.body, true);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      if (req.body.set_category) {
+        const categoryCheck = validateCategoryName(req.userId!, req.body.set_category);
+        if (categoryCheck.error) return res.status(400).json({ error: categoryCheck.error });
+      }
+
+      const result = updateRule(req.userId!, req.params.id as string, req.body);
+      if (!result) return res.status(404).json({ error: 'Rule not found' });
+      if (result.error) return res.status(400).json({ error: result.error });
+      res.json(result.rule);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── DELETE /v1/rules/:id (past changes stay; re-categorize by hand or with another rule) ───
+  router.delete('/v1/rules/:id', async (req: Request, res: Response) => {
+    try {
+      if (!deleteRule(req.userId!, req.params.id as string)) return res.status(404).json({ error: 'Rule not found' });
+      res.status(204).end();
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/rules/apply (re-apply all rules, or one rule_id, to history) ───
+  router.post('/v1/rules/apply', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const ruleId = req.body?.rule_id as string | undefined;
+      if (ruleId && !getRule(userId, ruleId)) return res.status(404).json({ error: 'Rule not found' });
+
+      const result = reapplyRules(userId, ruleId);
+      reevaluateQuestsForDates(userId, result.changedDates);
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/tags (with usage counts and spend) ───
+  router.get('/v1/tags', async (req: Request, res: Response) => {
+    try {
+      res.json({ tags: listTags(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/tags/:tag (rename across all transactions) ───
+  router.put('/v1/tags/:tag', async (req: Request, res: Response) => {
+    try {
+      const validation = validateTag(req.body?.name);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      const updated = renameTag(req.userId!, req.params.tag as string, req.body.name);
+      if (updated === 0) return res.status(404).json({ error: 'Tag not found' });
+      res.json({ updated });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── DELETE /v1/tags/:tag (remove from all transactions) ───
+  router.delete('/v1/tags/:tag', async (req: Request, res: Response) => {
+    try {
+      const updated = deleteTag(req.userId!, req.params.tag as string);
+      if (updated === 0) return res.status(404).json({ error: 'Tag not found' });
+      res.json({ updated });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── GET /v1/scotty/inventory ───
   router.get('/v1/scotty/inventory', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const db = getDb();
       const items = db.prepare(
@@ -482,8 +1147,9 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/scotty/inventory (admin: add reward items) ───
   router.post('/v1/scotty/inventory', async (req: Request, res: Response) => {
     try {
-      const { user_id, item_type, quantity, source_quest_id } = req.body;
-      if (!user_id || !item_type) return res.status(400).json({ error: 'user_id and item_type required' });
+      const userId = req.userId!;
+      const { item_type, quantity, source_quest_id } = req.body;
+      if (!item_type) return res.status(400).json({ error: 'item_type required' });
       const qty = quantity || 1;
 
       const db = getDb();
@@ -493,11 +1159,11 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
         ON CONFLICT(user_id, item_type) DO UPDATE SET
           quantity = quantity + excluded.quantity,
           updated_at = datetime('now')
-      `).run(uuid(), user_id, item_type, qty, source_quest_id || null);
+      `).run(uuid(), userId, item_type, qty, source_quest_id || null);
 
       const item = db.prepare(
         'SELECT * FROM inventory_item WHERE user_id = ? AND item_type = ?'
-      ).get(user_id, item_type);
+      ).get(userId, item_type);
 
       res.status(201).json(item);
     } catch (err: any) {
@@ -508,8 +1174,9 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/scotty/inventory/feed ───
   router.post('/v1/scotty/inventory/feed', async (req: Request, res: Response) => {
     try {
-      const { user_id, item_type, quantity } = req.body;
-      if (!user_id || !item_type) return res.status(400).json({ error: 'user_id and item_type required' });
+      const userId = req.userId!;
+      const { item_type, quantity } = req.body;
+      if (!item_type) return res.status(400).json({ error: 'item_type required' });
       const qty = quantity || 1;
 
       // Food effect mapping
@@ -528,7 +1195,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
       const feedTransaction = db.transaction(() => {
         const inv = db.prepare(
           'SELECT * FROM inventory_item WHERE user_id = ? AND item_type = ?'
-        ).get(user_id, item_type) as any;
+        ).get(userId, item_type) as any;
 
         if (!inv || inv.quantity < qty) {
           throw new Error(`Not enough ${item_type}: have ${inv?.quantity || 0}, need ${qty}`);
@@ -537,15 +1204,15 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
         // Decrement inventory
         db.prepare(
           'UPDATE inventory_item SET quantity = quantity - ?, updated_at = datetime(\'now\') WHERE user_id = ? AND item_type = ?'
-        ).run(qty, user_id, item_type);
+        ).run(qty, userId, item_type);
 
         // Ensure scotty_state exists
-        let state = db.prepare('SELECT * FROM scotty_state WHERE user_id = ?').get(user_id) as any;
+        let state = db.prepare('SELECT * FROM scotty_state WHERE user_id = ?').get(userId) as any;
         if (!state) {
           db.prepare(`
             INSERT INTO scotty_state (user_id, happiness, mood, food_credits, growth_level, stamina)
             VALUES (?, 70, 'content', 10, 1, 100)
-          `).run(user_id);
+          `).run(userId);
           state = { happiness: 70, stamina: 100, growth_level: 1 };
         }
 
@@ -558,7 +1225,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
         // Growth level: every 20 feeding events = +1 level
         const feedCount = (db.prepare(
           'SELECT COUNT(*) as cnt FROM feeding_event WHERE user_id = ?'
-        ).get(user_id) as any).cnt;
+        ).get(userId) as any).cnt;
         const newGrowthLevel = Math.max(state.growth_level || 1, Math.floor((feedCount + 1) / 20) + 1);
 
         db.prepare(`
@@ -566,18 +1233,18 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
           SET happiness = ?, stamina = ?, mood = ?, growth_level = ?,
               last_fed = datetime('now'), updated_at = datetime('now')
           WHERE user_id = ?
-        `).run(newHappiness, newStamina, newMood, newGrowthLevel, user_id);
+        `).run(newHappiness, newStamina, newMood, newGrowthLevel, userId);
 
         // Log feeding event
         db.prepare(`
           INSERT INTO feeding_event (id, user_id, item_type, delta_happiness, delta_stamina)
           VALUES (?, ?, ?, ?, ?)
-        `).run(uuid(), user_id, item_type, deltaH, deltaS);
+        `).run(uuid(), userId, item_type, deltaH, deltaS);
 
         // Return updated state
         const updatedInv = db.prepare(
           'SELECT * FROM inventory_item WHERE user_id = ? AND quantity > 0 ORDER BY item_type'
-        ).all(user_id);
+        ).all(userId);
         return {
           scottyState: {
             happiness: newHappiness,
@@ -590,6 +1257,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
       });
 
       const result = feedTransaction();
+      publishScottyState(userId);
       res.json(result);
     } catch (err: any) {
       if (err.message?.includes('Not enough')) {
@@ -602,8 +1270,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/scotty/status ───
   router.get('/v1/scotty/status', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const db = getDb();
       const state = db.prepare('SELECT * FROM scotty_state WHERE user_id = ?').get(userId) as any;
@@ -629,8 +1296,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/home/daily ───
   router.get('/v1/home/daily', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const payload = await orchestrator.getAppOpenPayload(userId);
       res.json(payload);
@@ -639,57 +1305,238 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── GET /v1/quests/metrics (every quest type the backend can verify) ───
+  router.get('/v1/quests/metrics', async (_req: Request, res: Response) => {
+    try {
+      res.json({
+        metrics: listQuestMetrics().map(m => ({
+          type: m.type,
+          summary: m.summary,
+          icon: m.icon,
+          params: promptParams(m),
+          progress_unit: m.progressUnit,
+        })),
+      });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/estimate (chance a proposed quest succeeds; with a tier, the cap that hits it) ───
+  router.post('/v1/quests/estimate', async (req: Request, res: Response) => {
+    try {
+      const { metric_type, metric_params, window_days = 1, tier } = req.body ?? {};
+      const check = validateMetricParams(metric_type, metric_params);
+      if (check.error) return res.status(400).json({ error: check.error });
+      if (!Number.isInteger(window_days) || window_days < 1 || window_days > 30) {
+        return res.status(400).json({ error: 'window_days must be a whole number from 1 to 30' });
+      }
+      if (tier !== undefined && !(tier in TIER_REWARDS)) {
+        return res.status(400).json({ error: 'tier must be easy, medium or hard' });
+      }
+
+      const estimate = estimateQuestSuccess(req.userId!, metric_type, metric_params, window_days);
+      if (!tier) return res.json({ estimate });
+      const calibrated = calibrateQuest(req.userId!, {
+        title: '', metric_type, metric_params, ...TIER_REWARDS.medium,
+      }, window_days, tier);
+      res.json({
+        estimate,
+        calibrated: {
+          metric_params: calibrated.quest.metric_params,
+          reward_food_type: calibrated.quest.reward_food_type,
+          happiness_delta: calibrated.quest.happiness_delta,
+          estimate: calibrated.estimate,
+        },
+      });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── GET /v1/quests/active ───
   router.get('/v1/quests/active', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const db = getDb();
       const quest = db.prepare(
         `SELECT * FROM quest WHERE user_id = ? AND status = 'ACTIVE' LIMIT 1`
       ).get(userId) as any;
 
-      if (!quest) return res.json(null);
+      if (!quest) return res.json(null);
+
+      const params = JSON.parse(quest.metric_params || '{}');
+      res.json({
+        ...quest,
+        metric_params: params,
+        ...presentQuest(quest.metric_type, params, 0),
+      });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/:id/evaluate ───
+  router.post('/v1/quests/:id/evaluate', async (req: Request, res: Response) => {
+    try {
+      if (!isOwnedBy('quest', req.params.id as string, req.userId!)) {
+        return res.status(404).json({ error: 'Quest not found' });
+      }
+      const result = evaluateQuest(req.params.id as string);
+      res.json(result);
+    } catch (err: any) {
+      res.status(404).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/:id/accept ───
+  router.post('/v1/quests/:id/accept', async (req: Request, res: Response) => {
+    try {
+      sendQuestLifecycle(res, acceptQuest(req.userId!, req.params.id as string));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/:id/decline (optional { reason }, remembered for later digests) ───
+  router.post('/v1/quests/:id/decline', async (req: Request, res: Response) => {
+    try {
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 200) : undefined;
+      sendQuestLifecycle(res, declineQuest(req.userId!, req.params.id as string, reason));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/:id/swap (decline for an alternative offer; uses a weekly reroll) ───
+  router.post('/v1/quests/:id/swap', async (req: Request, res: Response) => {
+    try {
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 200) : undefined;
+      sendQuestLifecycle(res, await orchestrator.swapOfferedQuest(req.userId!, req.params.id as string, reason), 201);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/quests/rerolls ───
+  router.get('/v1/quests/rerolls', async (req: Request, res: Response) => {
+    try {
+      res.json({ rerolls_left: rerollsLeft(req.userId!), per_week: REROLLS_PER_WEEK });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/:id/pause ───
+  router.post('/v1/quests/:id/pause', async (req: Request, res: Response) => {
+    try {
+      sendQuestLifecycle(res, pauseQuest(req.userId!, req.params.id as string));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/:id/resume (the window starts over from today) ───
+  router.post('/v1/quests/:id/resume', async (req: Request, res: Response) => {
+    try {
+      sendQuestLifecycle(res, resumeQuest(req.userId!, req.params.id as string));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quests/:id/abandon ───
+  router.post('/v1/quests/:id/abandon', async (req: Request, res: Response) => {
+    try {
+      sendQuestLifecycle(res, abandonQuest(req.userId!, req.params.id as string));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/quest-chains ───
+  router.get('/v1/quest-chains', async (req: Request, res: Response) => {
+    try {
+      res.json({ chains: listQuestChains(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/quest-chains ───
+  router.post('/v1/quest-chains', async (req: Request, res: Response) => {
+    try {
+      const validation = validateQuestChainInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      res.status(201).json(createQuestChain(req.userId!, req.body));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/quest-chains/:id ───
+  router.get('/v1/quest-chains/:id', async (req: Request, res: Response) => {
+    try {
+      const chain = getQuestChain(req.userId!, req.params.id as string);
+      if (!chain) return res.status(404).json({ error: 'Quest chain not found' });
+      res.json(chain);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── DELETE /v1/quest-chains/:id (leave the chain; its unfinished quest is removed) ───
+  router.delete('/v1/quest-chains/:id', async (req: Request, res: Response) => {
+    try {
+      if (!abandonQuestChain(req.userId!, req.params.id as string)) {
+        return res.status(404).json({ error: 'Active quest chain not found' });
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
 
-      res.json({
-        ...quest,
-        metric_params: JSON.parse(quest.metric_params || '{}'),
-      });
+  // ─── GET /v1/campaigns ───
+  router.get('/v1/campaigns', async (req: Request, res: Response) => {
+    try {
+      res.json({ campaigns: listCampaigns(req.userId!) });
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
-  // ─── POST /v1/quests/:id/evaluate ───
-  router.post('/v1/quests/:id/evaluate', async (req: Request, res: Response) => {
+  // ─── POST /v1/campaigns/:id/join ───
+  router.post('/v1/campaigns/:id/join', async (req: Request, res: Response) => {
     try {
-      const result = evaluateQuest(req.params.id as string);
-      res.json(result);
+      const result = joinCampaign(req.userId!, req.params.id as string);
+      if (!result) return res.status(404).json({ error: 'Campaign not found' });
+      if (result.error) return res.status(409).json({ error: result.error, chain: result.chain });
+      res.status(201).json(result.chain);
     } catch (err: any) {
-      res.status(404).json({ error: err.message });
+      res.status(500).json({ error: err.message });
     }
   });
 
   // ─── GET /v1/subscriptions/upcoming ───
   router.get('/v1/subscriptions/upcoming', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const daysAhead = parseInt(req.query.days_ahead as string || '30');
       let subs = getUpcomingSubscriptions(userId, daysAhead);
 
       // If no recurring candidates in DB, detect them on-the-fly and persist
       if (subs.length === 0) {
-        const candidates = detectRecurringCandidates(userId, 180);
+        const candidates = detectRecurringCandidates(userId);
         if (candidates.length > 0) {
           upsertRecurringCandidates(candidates);
           subs = getUpcomingSubscriptions(userId, daysAhead);
         }
       }
 
-      const today = new Date().toISOString().split('T')[0];
+      const today = userToday(userId);
       const billDays = subs
         .filter((s): s is typeof s & { next_expected_date: string } => !!s.next_expected_date)
         .map(s => new Date(s.next_expected_date).getDate());
@@ -699,47 +1546,66 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
         subscriptions: subs,
         bill_days: [...new Set(billDays)],
         due_today: dueToday,
+        ...getSubscriptionHeadsUps(userId),
       });
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
+  // ─── GET /v1/subscriptions/cancellations ───
+  // Cancellations newest first; ?status=CANCELLING for the ones still being watched
+  router.get('/v1/subscriptions/cancellations', async (req: Request, res: Response) => {
+    try {
+      const statuses = req.query.status ? String(req.query.status).split(',').map(s => s.trim().toUpperCase()) : [];
+      if (statuses.some(s => !CANCELLATION_STATUSES.includes(s as CancellationStatus))) {
+        return res.status(400).json({ error: `status must be among ${CANCELLATION_STATUSES.join(', ')}` });
+      }
+      res.json({ cancellations: listCancellations(req.userId!, statuses as CancellationStatus[]) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/subscriptions/:id/cancel ───
+  // :id is a recurring charge from /v1/subscriptions/upcoming; body { method?: 'provider' | 'self' }
+  router.post('/v1/subscriptions/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const validation = validateCancelInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const result = await cancelSubscription(req.userId!, req.params.id as string, adapters.cancellation, { method: req.body?.method });
+      if (!result) return res.status(404).json({ error: 'Subscription not found' });
+      if (result.error) return res.status(409).json({ error: result.error, cancellation: result.cancellation });
+      res.status(201).json(result.cancellation);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/subscriptions/cancellations/:id/keep ───
+  router.post('/v1/subscriptions/cancellations/:id/keep', async (req: Request, res: Response) => {
+    try {
+      const result = keepSubscription(req.userId!, req.params.id as string);
+      if (!result) return res.status(404).json({ error: 'Cancellation not found' });
+      if (result.error) return res.status(409).json({ error: result.error });
+      res.json(result.cancellation);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── GET /v1/quests/list ───
   router.get('/v1/quests/list', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const db = getDb();
       const quests = db.prepare(
         `SELECT * FROM quest WHERE user_id = ? ORDER BY created_at DESC`
       ).all(userId) as any[];
 
-      const mapped = quests.map((q: any) => {
-        const params = JSON.parse(q.metric_params || '{}');
-        // Get latest progress snapshot
-        const snapshot = db.prepare(
-          `SELECT * FROM quest_progress_snapshot WHERE quest_id = ? ORDER BY created_at DESC LIMIT 1`
-        ).get(q.id) as any;
-
-        return {
-          id: q.id,
-          title: q.title,
-          status: q.status,
-          metric_type: q.metric_type,
-          metric_params: params,
-          reward_food_type: q.reward_food_type,
-          happiness_delta: q.happiness_delta,
-          window_start: q.window_start,
-          window_end: q.window_end,
-          confirmed_value: snapshot?.confirmed_value ?? 0,
-          pending_value: snapshot?.pending_value ?? 0,
-          explanation: snapshot?.explanation ?? '',
-        };
-      });
-
-      res.json(mapped);
+      res.json(quests.map(questWithProgress));
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
@@ -748,8 +1614,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/quests/refresh ───
   router.post('/v1/quests/refresh', async (req: Request, res: Response) => {
     try {
-      const userId = (req.body?.user_id as string) || (req.query.user_id as string);
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       // Trigger daily digest which generates new quests
       const result = await orchestrator.runDailyDigest(userId);
@@ -763,29 +1628,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
         `SELECT * FROM quest WHERE user_id = ? ORDER BY created_at DESC`
       ).all(userId) as any[];
 
-      const mapped = quests.map((q: any) => {
-        const params = JSON.parse(q.metric_params || '{}');
-        const snapshot = db.prepare(
-          `SELECT * FROM quest_progress_snapshot WHERE quest_id = ? ORDER BY created_at DESC LIMIT 1`
-        ).get(q.id) as any;
-
-        return {
-          id: q.id,
-          title: q.title,
-          status: q.status,
-          metric_type: q.metric_type,
-          metric_params: params,
-          reward_food_type: q.reward_food_type,
-          happiness_delta: q.happiness_delta,
-          window_start: q.window_start,
-          window_end: q.window_end,
-          confirmed_value: snapshot?.confirmed_value ?? 0,
-          pending_value: snapshot?.pending_value ?? 0,
-          explanation: snapshot?.explanation ?? '',
-        };
-      });
-
-      res.json(mapped);
+      res.json(quests.map(questWithProgress));
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
@@ -794,19 +1637,17 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/finance/spending-trend ───
   router.get('/v1/finance/spending-trend', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string || 'user_1';
+      const userId = req.userId!;
       const months = parseInt(req.query.months as string || '6');
 
       const db = getDb();
-      const now = new Date();
+      const thisMonth = startOfMonth(userToday(userId));
       const result: { month: string; total: number }[] = [];
 
       for (let i = months - 1; i >= 0; i--) {
-        const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        const start = d.toISOString().split('T')[0];
-        const endDate = new Date(d.getFullYear(), d.getMonth() + 1, 0);
-        const end = endDate.toISOString().split('T')[0];
-        const monthLabel = d.toLocaleString('en-US', { month: 'short' });
+        const start = addMonths(thisMonth, -i);
+        const end = addDays(startOfNextMonth(start), -1);
+        const monthLabel = new Date(`${start}T00:00:00Z`).toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
 
         const row = db.prepare(`
           SELECT COALESCE(SUM(ABS(amount)), 0) as total
@@ -826,18 +1667,62 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── GET /v1/actions ───
+  // The action queue, newest first; ?status=OPEN,APPROVED for pending ones
+  router.get('/v1/actions', async (req: Request, res: Response) => {
+    try {
+      const statuses = req.query.status ? String(req.query.status).split(',').map(s => s.trim().toUpperCase()) : [];
+      const parsed = z.array(ActionStatus).safeParse(statuses);
+      if (!parsed.success) return res.status(400).json({ error: `status must be among ${ActionStatus.options.join(', ')}` });
+      res.json({ actions: listActions(req.userId!, parsed.data) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/actions/:id ───
+  router.get('/v1/actions/:id', async (req: Request, res: Response) => {
+    try {
+      const action = getAction(req.userId!, req.params.id as string);
+      if (!action) return res.status(404).json({ error: 'Action not found' });
+      res.json(action);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── POST /v1/actions/:id/approve ───
+  // Runs the action; the response is the action with its status and result
   router.post('/v1/actions/:id/approve', async (req: Request, res: Response) => {
     try {
-      const db = getDb();
-      const action = db.prepare('SELECT * FROM action_queue_item WHERE id = ?').get(req.params.id) as any;
-      if (!action) return res.status(404).json({ error: 'Action not found' });
-      if (action.status !== 'OPEN') return res.status(400).json({ error: `Action is ${action.status}, not OPEN` });
+      const result = await approveAction(req.userId!, req.params.id as string, adapters.cancellation);
+      if (!result) return res.status(404).json({ error: 'Action not found' });
+      if (result.error) return res.status(400).json({ error: result.error });
+      res.json(result.action);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
 
-      db.prepare(`UPDATE action_queue_item SET status = 'APPROVED', updated_at = datetime('now') WHERE id = ?`)
-        .run(req.params.id);
+  // ─── POST /v1/actions/:id/dismiss ───
+  router.post('/v1/actions/:id/dismiss', async (req: Request, res: Response) => {
+    try {
+      const result = dismissAction(req.userId!, req.params.id as string);
+      if (!result) return res.status(404).json({ error: 'Action not found' });
+      if (result.error) return res.status(400).json({ error: result.error });
+      res.json(result.action);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
 
-      res.json({ id: req.params.id, status: 'APPROVED' });
+  // ─── POST /v1/actions/:id/undo ───
+  router.post('/v1/actions/:id/undo', async (req: Request, res: Response) => {
+    try {
+      const result = undoAction(req.userId!, req.params.id as string);
+      if (!result) return res.status(404).json({ error: 'Action not found' });
+      if (result.error) return res.status(409).json({ error: result.error });
+      res.json(result.action);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
@@ -846,15 +1731,20 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/webhooks/transactions ───
   router.post('/v1/webhooks/transactions', async (req: Request, res: Response) => {
     try {
-      const { user_id, transactions, webhook_event_id } = req.body;
-      if (!user_id || !transactions) {
-        return res.status(400).json({ error: 'user_id and transactions required' });
+      const userId = req.userId!;
+      const { transactions, webhook_event_id, removed } = req.body;
+      if (!transactions) {
+        return res.status(400).json({ error: 'transactions required' });
       }
 
       // Validate transactions loosely
       const txns = z.array(TransactionSchema).parse(transactions);
+      if (txns.some(t => t.user_id !== userId)) {
+        return res.status(403).json({ error: 'Transactions must belong to the authenticated user' });
+      }
+      const removedIds = z.array(z.string()).parse(removed ?? []);
 
-      const result = await orchestrator.handleTransactionUpdate(user_id, txns, webhook_event_id);
+      const result = await orchestrator.handleTransactionUpdate(userId, txns, webhook_event_id, removedIds);
       res.json(result);
     } catch (err: any) {
       if (err instanceof z.ZodError) {
@@ -864,10 +1754,153 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── GET /v1/imports/profiles ───
+  router.get('/v1/imports/profiles', async (_req: Request, res: Response) => {
+    res.json({
+      profiles: Object.values(CSV_PROFILES).map(p => ({ id: p.id, label: p.label })),
+      formats: ['csv', 'ofx', 'qfx'],
+    });
+  });
+
+  // ─── GET /v1/imports ───
+  router.get('/v1/imports', async (req: Request, res: Response) => {
+    try {
+      res.json({ imports: listStatementImports(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/imports/preview (parse + diff, nothing is ingested yet) ───
+  router.post('/v1/imports/preview', async (req: Request, res: Response) => {
+    try {
+      const validation = validateStatementImportInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const preview = previewStatementImport(req.userId!, {
+        filename: req.body.filename,
+        content: req.body.content,
+        format: req.body.format,
+        profile: req.body.profile,
+      });
+      res.status(201).json(preview);
+    } catch (err: any) {
+      if (err.message?.startsWith('Unreadable statement')) {
+        return res.status(400).json({ error: err.message });
+      }
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/imports/:id/commit ───
+  router.post('/v1/imports/:id/commit', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const existing = getStatementImport(userId, req.params.id as string);
+      if (!existing) return res.status(404).json({ error: 'Import not found' });
+      if (existing.status !== 'PREVIEW') {
+        return res.status(400).json({ error: `Import is ${existing.status}, not PREVIEW` });
+      }
+
+      const result = commitStatementImport(userId, existing.id);
+      const questResults = evaluateUserQuests(userId);
+      const alerts = await checkBudgetAlerts(userId, adapters.notification, listImportedTransactionIds(userId, existing.id));
+      res.json({ import: result, questResults, alerts });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/imports/:id/rollback ───
+  router.post('/v1/imports/:id/rollback', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const existing = getStatementImport(userId, req.params.id as string);
+      if (!existing) return res.status(404).json({ error: 'Import not found' });
+      if (existing.status !== 'COMMITTED') {
+        return res.status(400).json({ error: `Import is ${existing.status}, not COMMITTED` });
+      }
+
+      const result = rollbackStatementImport(userId, existing.id);
+      const questResults = evaluateUserQuests(userId);
+      res.json({ import: result, questResults });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── Plaid Link (only when BANK_PROVIDER=plaid) ───
+  const plaid = adapters.bank instanceof PlaidBankDataProvider ? adapters.bank : null;
+  const plaidErrorStatus = (err: any) => (err instanceof PlaidApiError && err.status < 500 ? 400 : 502);
+
+  // ─── POST /v1/plaid/link-token ───
+  router.post('/v1/plaid/link-token', async (req: Request, res: Response) => {
+    if (!plaid) return res.status(404).json({ error: 'Plaid is not enabled' });
+    try {
+      const token = await plaid.createLinkToken(req.userId!);
+      res.status(201).json(token);
+    } catch (err: any) {
+      res.status(plaidErrorStatus(err)).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/plaid/exchange ───
+  router.post('/v1/plaid/exchange', async (req: Request, res: Response) => {
+    if (!plaid) return res.status(404).json({ error: 'Plaid is not enabled' });
+    try {
+      const { public_token, institution_name } = req.body || {};
+      if (typeof public_token !== 'string' || !public_token) {
+        return res.status(400).json({ error: 'public_token required' });
+      }
+      const item = await plaid.exchangePublicToken(req.userId!, public_token, institution_name);
+      const sync = await orchestrator.syncBank(req.userId!);
+      res.status(201).json({ item, synced: sync.transactions.length });
+    } catch (err: any) {
+      res.status(plaidErrorStatus(err)).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/plaid/items ───
+  router.get('/v1/plaid/items', async (req: Request, res: Response) => {
+    if (!plaid) return res.status(404).json({ error: 'Plaid is not enabled' });
+    try {
+      res.json({ items: plaid.listItems(req.userId!) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/plaid/items/:id/link-token (update mode for LOGIN_REQUIRED items) ───
+  router.post('/v1/plaid/items/:id/link-token', async (req: Request, res: Response) => {
+    if (!plaid) return res.status(404).json({ error: 'Plaid is not enabled' });
+    try {
+      if (!plaid.getItem(req.userId!, req.params.id as string)) {
+        return res.status(404).json({ error: 'Plaid item not found' });
+      }
+      const token = await plaid.createLinkToken(req.userId!, req.params.id as string);
+      res.status(201).json(token);
+    } catch (err: any) {
+      res.status(plaidErrorStatus(err)).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/plaid/items/:id/reconnected ───
+  router.post('/v1/plaid/items/:id/reconnected', async (req: Request, res: Response) => {
+    if (!plaid) return res.status(404).json({ error: 'Plaid is not enabled' });
+    try {
+      const item = plaid.markItemReconnected(req.userId!, req.params.id as string);
+      if (!item) return res.status(404).json({ error: 'Plaid item not found' });
+      const sync = await orchestrator.syncBank(req.userId!);
+      res.json({ item: plaid.getItem(req.userId!, item.item_id), synced: sync.transactions.length });
+    } catch (err: any) {
+      res.status(plaidErrorStatus(err)).json({ error: err.message });
+    }
+  });
+
   // ─── GET /v1/chat/suggested-actions ───
   router.get('/v1/chat/suggested-actions', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string || 'user_1';
+      const userId = req.userId!;
       const { summary7d, summary30d } = buildDualSummary(userId);
       const actions = runner.buildSuggestedActionsPublic(summary7d, summary30d);
       res.json({ actions });
@@ -879,12 +1912,13 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/chat ───
   router.post('/v1/chat', async (req: Request, res: Response) => {
     try {
-      const { user_id, message } = req.body;
-      if (!user_id || !message) {
-        return res.status(400).json({ error: 'user_id and message required' });
+      const userId = req.userId!;
+      const { message } = req.body;
+      if (!message) {
+        return res.status(400).json({ error: 'message required' });
       }
 
-      const { output } = await runner.generateChatResponse(user_id, message);
+      const { output } = await runner.generateChatResponse(userId, message);
       // Frontend expects { response: string, actions?: any[], suggested_actions?: any[] }
       res.json({
         response: output.message,
@@ -901,25 +1935,23 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /ai/scotty/insights — anomaly-driven insights with evidence ───
   router.get('/ai/scotty/insights', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
       const anomalyResult = detectAnomalies({ user_id: userId, sensitivity: 'med', limit: 10 });
 
-      const now = new Date();
-      const d7 = new Date(now); d7.setDate(d7.getDate() - 7);
-      const d90 = new Date(now); d90.setDate(d90.getDate() - 90);
+      const today = userToday(userId);
+      const d7 = addDays(today, -7);
 
       const stats7d = listTransactionStats({
         user_id: userId,
-        date_start: d7.toISOString().split('T')[0],
-        date_end: now.toISOString().split('T')[0],
+        date_start: d7,
+        date_end: today,
         group_by: 'category',
       });
       const stats90d = listTransactionStats({
         user_id: userId,
-        date_start: d90.toISOString().split('T')[0],
-        date_end: now.toISOString().split('T')[0],
+        date_start: addDays(today, -90),
+        date_end: today,
         group_by: 'category',
       });
 
@@ -965,7 +1997,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
           confidence: 'HIGH',
           evidence: {
             transaction_ids: [],
-            time_window: `${d7.toISOString().split('T')[0]} to ${now.toISOString().split('T')[0]}`,
+            time_window: `${d7} to ${today}`,
             computed_metrics: { total_7d: stats7d.overall.total_spend, category: topCat.group_key },
           },
           followup: 'Ask me about your spending trends!',
@@ -991,19 +2023,15 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /ai/quests/generate — full-history quest generation with evidence ───
   router.post('/ai/quests/generate', async (req: Request, res: Response) => {
     try {
-      const userId = req.body.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
 
-      const now = new Date();
-      const d7 = new Date(now); d7.setDate(d7.getDate() - 7);
-      const d30 = new Date(now); d30.setDate(d30.getDate() - 30);
-      const d90 = new Date(now); d90.setDate(d90.getDate() - 90);
-      const nowStr = now.toISOString().split('T')[0];
+      const today = userToday(userId);
+      const d7 = addDays(today, -7);
 
       // Gather multi-window stats
-      const stats7d = listTransactionStats({ user_id: userId, date_start: d7.toISOString().split('T')[0], date_end: nowStr, group_by: 'category' });
-      const stats30d = listTransactionStats({ user_id: userId, date_start: d30.toISOString().split('T')[0], date_end: nowStr, group_by: 'category' });
-      const stats90d = listTransactionStats({ user_id: userId, date_start: d90.toISOString().split('T')[0], date_end: nowStr, group_by: 'category' });
+      const stats7d = listTransactionStats({ user_id: userId, date_start: d7, date_end: today, group_by: 'category' });
+      const stats30d = listTransactionStats({ user_id: userId, date_start: addDays(today, -30), date_end: today, group_by: 'category' });
+      const stats90d = listTransactionStats({ user_id: userId, date_start: addDays(today, -90), date_end: today, group_by: 'category' });
 
       const anomalies = detectAnomalies({ user_id: userId, sensitivity: 'med', limit: 10 });
       const recurring = detectRecurringCandidates(userId, 90);
@@ -1066,7 +2094,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
           explanation: `Your top spending category this week is ${topCat.group_key} at $${topCat.total_spend.toFixed(2)}.`,
           evidence: {
             transaction_ids: [],
-            time_window: `${d7.toISOString().split('T')[0]} to ${nowStr}`,
+            time_window: `${d7} to ${today}`,
             computed_metrics: { total_7d: topCat.total_spend, daily_avg: dailyAvg },
           },
         });
@@ -1097,6 +2125,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     try {
       const questId = req.body.quest_id as string;
       if (!questId) return res.status(400).json({ error: 'quest_id required' });
+      if (!isOwnedBy('quest', questId, req.userId!)) return res.status(404).json({ error: 'Quest not found' });
       const result = evaluateQuest(questId);
       res.json(result);
     } catch (err: any) {
@@ -1107,8 +2136,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /ai/transactions/recurring ───
   router.get('/ai/transactions/recurring', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
       const lookbackDays = parseInt(req.query.lookback_days as string || '180');
       const candidates = detectRecurringCandidates(userId, lookbackDays);
       res.json(candidates);
@@ -1120,24 +2148,22 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /ai/goals/breakdown ───
   router.post('/ai/goals/breakdown', async (req: Request, res: Response) => {
     try {
-      const { user_id, goal_name, target_amount, deadline_days } = req.body;
-      if (!user_id || !target_amount) return res.status(400).json({ error: 'user_id and target_amount required' });
+      const userId = req.userId!;
+      const { goal_name, target_amount, deadline_days } = req.body;
+      if (!target_amount) return res.status(400).json({ error: 'target_amount required' });
 
       const days = deadline_days || 30;
       const dailyTarget = Math.round((target_amount / days) * 100) / 100;
 
       // Get current savings rate context
-      const now = new Date();
-      const d30 = new Date(now); d30.setDate(d30.getDate() - 30);
+      const today = userToday(userId);
       const stats = listTransactionStats({
-        user_id, date_start: d30.toISOString().split('T')[0],
-        date_end: now.toISOString().split('T')[0], group_by: 'category',
+        user_id: userId, date_start: addDays(today, -30),
+        date_end: today, group_by: 'category',
       });
 
       const questChain = [];
       for (let d = 0; d < Math.min(days, 7); d++) {
-        const windowStart = new Date(now);
-        windowStart.setDate(windowStart.getDate() + d);
         questChain.push({
           title: `${goal_name || 'Savings'}: save $${dailyTarget.toFixed(2)} today`,
           metric_type: 'TRANSFER_AMOUNT',
@@ -1164,9 +2190,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/search/transactions ───
   router.post('/v1/search/transactions', async (req: Request, res: Response) => {
     try {
-      const { user_id, ...params } = req.body;
-      if (!user_id) return res.status(400).json({ error: 'user_id required' });
-      const result = searchTransactions({ user_id, ...params });
+      const result = searchTransactions({ ...req.body, user_id: req.userId! });
       res.json(result);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
@@ -1176,8 +2200,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/transactions/:id ───
   router.get('/v1/transactions/:id', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
       const txn = getTransactionById(userId, req.params.id as string);
       if (!txn) return res.status(404).json({ error: 'Transaction not found' });
       res.json(txn);
@@ -1186,15 +2209,119 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
     }
   });
 
+  // ─── GET /v1/transactions/:id/audit (provider corrections and removals) ───
+  router.get('/v1/transactions/:id/audit', async (req: Request, res: Response) => {
+    try {
+      const entries = getTransactionAudit(req.userId!, req.params.id as string);
+      const txn = getTransactionById(req.userId!, req.params.id as string);
+      if (!txn && entries.length === 0) return res.status(404).json({ error: 'Transaction not found' });
+      res.json({ transaction: txn, audit: entries });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/transactions/:id/splits ───
+  router.get('/v1/transactions/:id/splits', async (req: Request, res: Response) => {
+    try {
+      const txn = getTransactionById(req.userId!, req.params.id as string);
+      if (!txn) return res.status(404).json({ error: 'Transaction not found' });
+      res.json({ transaction_id: txn.id, amount: txn.amount, splits: getSplits(req.userId!, txn.id) });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/transactions/:id/splits (empty list removes the split) ───
+  router.put('/v1/transactions/:id/splits', async (req: Request, res: Response) => {
+    try {
+      const txn = getTransactionById(req.userId!, req.params.id as string);
+      if (!txn) return res.status(404).json({ error: 'Transaction not found' });
+      const validation = validateSplitsInput(req.body, txn.amount);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      for (const split of req.body.splits) {
+        const categoryCheck = validateCategoryName(req.userId!, split.category.trim());
+        if (categoryCheck.error) return res.status(400).json({ error: categoryCheck.error });
+      }
+
+      const splits = setTransactionSplits(req.userId!, txn.id, req.body.splits);
+      res.json({ transaction_id: txn.id, amount: txn.amount, splits });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/transactions/:id/category (manual fix; optionally remember it as a rule) ───
+  router.put('/v1/transactions/:id/category', async (req: Request, res: Response) => {
+    try {
+      const userId = req.userId!;
+      const { category, create_rule } = req.body || {};
+      if (typeof category !== 'string' || !category.trim()) return res.status(400).json({ error: 'category required' });
+      const categoryCheck = validateCategoryName(userId, category.trim());
+      if (categoryCheck.error) return res.status(400).json({ error: categoryCheck.error });
+
+      const result = recategorizeTransaction(userId, req.params.id as string, category.trim());
+      if (!result) return res.status(404).json({ error: 'Transaction not found' });
+
+      if (!create_rule) {
+        reevaluateQuestsForDates(userId, [result.transaction.date]);
+        return res.json({ transaction: result.transaction, suggested_rule: result.suggestedRule });
+      }
+
+      const rule = createRule(userId, result.suggestedRule);
+      const applied = reapplyRules(userId, rule.id);
+      reevaluateQuestsForDates(userId, [...new Set([result.transaction.date, ...applied.changedDates])]);
+      res.json({ transaction: result.transaction, rule, reapplied: applied.updated });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/transactions/:id/tags (replaces the list) ───
+  router.put('/v1/transactions/:id/tags', async (req: Request, res: Response) => {
+    try {
+      const validation = validateTagsInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      const tags = setTransactionTags(req.userId!, req.params.id as string, req.body.tags);
+      if (!tags) return res.status(404).json({ error: 'Transaction not found' });
+      res.json({ transaction_id: req.params.id, tags });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── DELETE /v1/transactions/:id/tags/:tag ───
+  router.delete('/v1/transactions/:id/tags/:tag', async (req: Request, res: Response) => {
+    try {
+      const tags = removeTransactionTag(req.userId!, req.params.id as string, req.params.tag as string);
+      if (!tags) return res.status(404).json({ error: 'Transaction not found' });
+      res.json({ transaction_id: req.params.id, tags });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/transactions/:id/note (null or blank clears it) ───
+  router.put('/v1/transactions/:id/note', async (req: Request, res: Response) => {
+    try {
+      const validation = validateNoteInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
+      const result = setTransactionNote(req.userId!, req.params.id as string, req.body.note);
+      if (!result) return res.status(404).json({ error: 'Transaction not found' });
+      res.json({ transaction_id: req.params.id, note: result.note });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── POST /v1/stats/transactions ───
   router.post('/v1/stats/transactions', async (req: Request, res: Response) => {
     try {
-      const { user_id, ...params } = req.body;
-      if (!user_id) return res.status(400).json({ error: 'user_id required' });
+      const params = req.body;
       if (!params.date_start || !params.date_end || !params.group_by) {
         return res.status(400).json({ error: 'date_start, date_end, and group_by required' });
       }
-      const result = listTransactionStats({ user_id, ...params });
+      const result = listTransactionStats({ ...params, user_id: req.userId! });
       res.json(result);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
@@ -1204,9 +2331,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/anomalies/detect ───
   router.post('/v1/anomalies/detect', async (req: Request, res: Response) => {
     try {
-      const { user_id, ...params } = req.body;
-      if (!user_id) return res.status(400).json({ error: 'user_id required' });
-      const result = detectAnomalies({ user_id, ...params });
+      const result = detectAnomalies({ ...req.body, user_id: req.userId! });
       res.json(result);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
@@ -1216,27 +2341,10 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/goals ───
   router.post('/v1/goals', async (req: Request, res: Response) => {
     try {
-      const { user_id, name, target_amount, deadline, saved_so_far, budget_percent } = req.body;
-      if (!user_id || !name || !target_amount) {
-        return res.status(400).json({ error: 'user_id, name, and target_amount required' });
-      }
-      if (typeof target_amount !== 'number' || target_amount <= 0) {
-        return res.status(400).json({ error: 'target_amount must be a positive number' });
-      }
-
-      const db = getDb();
-      const id = uuid();
-      db.prepare(`
-        INSERT INTO goal (id, user_id, name, target_amount, saved_so_far, deadline, budget_percent)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
-      `).run(
-        id, user_id, name, target_amount,
-        saved_so_far || 0,
-        deadline || null,
-        budget_percent || 10
-      );
+      const validation = validateGoalInput(req.body);
+      if (validation.error) return res.status(400).json({ error: validation.error });
 
-      const goal = db.prepare('SELECT * FROM goal WHERE id = ?').get(id);
+      const goal = createGoal(req.userId!, req.body);
       res.status(201).json(goal);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
@@ -1246,15 +2354,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/goals ───
   router.get('/v1/goals', async (req: Request, res: Response) => {
     try {
-      const userId = req.query.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
-
-      const db = getDb();
-      const goals = db.prepare(
-        `SELECT * FROM goal WHERE user_id = ? ORDER BY created_at DESC`
-      ).all(userId);
-
-      res.json({ goals });
+      res.json({ goals: listGoals(req.userId!) });
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
@@ -1263,30 +2363,67 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── GET /v1/goals/:id/progress ───
   router.get('/v1/goals/:id/progress', async (req: Request, res: Response) => {
     try {
-      const db = getDb();
-      const goal = db.prepare('SELECT * FROM goal WHERE id = ?').get(req.params.id) as any;
-      if (!goal) return res.status(404).json({ error: 'Goal not found' });
-
-      const remaining = Math.max(0, goal.target_amount - goal.saved_so_far);
-      let monthsLeft = 6;
-      if (goal.deadline) {
-        const daysLeft = Math.max(1, Math.ceil(
-          (new Date(goal.deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-        ));
-        monthsLeft = Math.max(1, daysLeft / 30);
+      const result = goalProgress(req.userId!, req.params.id as string);
+      if (!result) return res.status(404).json({ error: 'Goal not found' });
+      res.json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── GET /v1/goals/:id/contributions ───
+  router.get('/v1/goals/:id/contributions', async (req: Request, res: Response) => {
+    try {
+      const contributions = listContributions(req.userId!, req.params.id as string);
+      if (!contributions) return res.status(404).json({ error: 'Goal not found' });
+      res.json({ contributions });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/goals/:id/contributions ───
+  router.post('/v1/goals/:id/contributions', async (req: Request, res: Response) => {
+    try {
+      const validation = validateContributionInput(req.body, 'contribution');
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const result = contribute(req.userId!, req.params.id as string, req.body);
+      if (!result) return res.status(404).json({ error: 'Goal not found' });
+      if (result.error) return res.status(409).json({ error: result.error });
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/goals/:id/withdrawals ───
+  router.post('/v1/goals/:id/withdrawals', async (req: Request, res: Response) => {
+    try {
+      const validation = validateContributionInput(req.body, 'withdrawal');
+      if (validation.error) return res.status(400).json({ error: validation.error });
+
+      const result = withdraw(req.userId!, req.params.id as string, req.body);
+      if (!result) return res.status(404).json({ error: 'Goal not found' });
+      if (result.error) return res.status(409).json({ error: result.error });
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── PUT /v1/goals/:id/account ───
+  router.put('/v1/goals/:id/account', async (req: Request, res: Response) => {
+    try {
+      const accountId = req.body?.account_id;
+      if (accountId !== null && (typeof accountId !== 'string' || !accountId)) {
+        return res.status(400).json({ error: 'account_id must be an account id, or null to unlink' });
       }
-      const monthlyPace = remaining / monthsLeft;
 
-      res.json({
-        goal,
-        progress: {
-          target_amount: goal.target_amount,
-          current_amount: goal.saved_so_far,
-          remaining,
-          monthly_pace_needed: Math.round(monthlyPace * 100) / 100,
-          percent_complete: Math.round((goal.saved_so_far / goal.target_amount) * 100),
-        },
-      });
+      const result = linkGoalAccount(req.userId!, req.params.id as string, accountId);
+      if (!result) return res.status(404).json({ error: 'Goal not found' });
+      if (result.error) return res.status(400).json({ error: result.error });
+      res.json(result.goal);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
@@ -1295,8 +2432,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/budgets/generate ───
   router.post('/v1/budgets/generate', async (req: Request, res: Response) => {
     try {
-      const userId = req.body.user_id as string;
-      if (!userId) return res.status(400).json({ error: 'user_id required' });
+      const userId = req.userId!;
       const apply = req.body.apply === true;
 
       const suggestions = await runner.generateBudgetSuggestions(userId, { apply });
@@ -1309,27 +2445,56 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
   // ─── POST /v1/admin/daily-digest (trigger digest manually) ───
   router.post('/v1/admin/daily-digest', async (req: Request, res: Response) => {
     try {
-      const { user_id } = req.body;
-      if (user_id) {
-        const result = await orchestrator.runDailyDigest(user_id);
-        return res.json(result);
-      }
-      const result = await orchestrator.runDailyDigestAll();
+      const result = await orchestrator.runDailyDigest(req.userId!);
       res.json(result);
     } catch (err: any) {
       res.status(500).json({ error: err.message });
     }
   });
 
+  // ─── GET /v1/admin/jobs (the caller's jobs; ?status=DEAD&type=daily_digest&limit=50) ───
+  router.get('/v1/admin/jobs', async (req: Request, res: Response) => {
+    try {
+      const jobs = listJobs({
+        status: req.query.status as string | undefined,
+        type: req.query.type as string | undefined,
+        user_id: req.userId!,
+        limit: parseInt(req.query.limit as string) || undefined,
+      });
+      res.json({ jobs });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/admin/jobs/:id/retry (dead or cancelled jobs) ───
+  router.post('/v1/admin/jobs/:id/retry', async (req: Request, res: Response) => {
+    try {
+      sendJobResult(res, retryJob(req.userId!, req.params.id as string));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  // ─── POST /v1/admin/jobs/:id/cancel (queued or dead jobs) ───
+  router.post('/v1/admin/jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      sendJobResult(res, cancelJob(req.userId!, req.params.id as string));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
   // ─── POST /v1/admin/nessie/sync ───
   router.post('/v1/admin/nessie/sync', async (req: Request, res: Response) => {
     try {
-      const userId = (req.body?.user_id as string) || 'user_1';
+      const userId = req.userId!;
       const force = req.body?.force === true;
-      const result = await adapters.bank.syncTransactions(userId, force ? 'force' : undefined);
+      const result = await orchestrator.syncBank(userId, force ? 'force' : undefined);
       res.json({
         userId,
         synced: result.transactions.length,
+        alerts: result.alerts.length,
         cursor: result.cursor,
       });
     } catch (err: any) {
@@ -1339,6 +2504,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
 
   // ─── POST /v1/admin/nessie/seed ───
   router.post('/v1/admin/nessie/seed', async (_req: Request, res: Response) => {
+    if (!seedRoutesEnabled()) return res.status(404).json({ error: 'Not found' });
     try {
       const result = await resetAndSeedNessieDummyData();
       res.json(result);
@@ -1349,6 +2515,7 @@ export function createRouter(adapters: Adapters, runner: AgentRunner): Router {
 
   // ─── POST /v1/admin/seed (full seed via seed.ts) ───
   router.post('/v1/admin/seed', async (_req: Request, res: Response) => {
+    if (!seedRoutesEnabled()) return res.status(404).json({ error: 'Not found' });
     try {
       await runFullSeed();
       res.json({ ok: true, message: 'Full seed complete' });
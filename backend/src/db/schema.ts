@@ -269,4 +269,787 @@ export const MIGRATIONS = [
       ALTER TABLE quest ADD COLUMN description TEXT NOT NULL DEFAULT '';
     `,
   },
+  {
+    version: 7,
+    name: 'auth_accounts',
+    sql: `
+      -- Credentials: one login per user_profile
+      CREATE TABLE IF NOT EXISTS user_credential (
+        user_id TEXT PRIMARY KEY REFERENCES user_profile(id),
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- Sessions: bearer tokens are signed session ids, revocable server-side
+      CREATE TABLE IF NOT EXISTS auth_session (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_auth_session_user ON auth_session(user_id);
+    `,
+  },
+  {
+    version: 8,
+    name: 'statement_import',
+    sql: `
+      -- Uploaded bank statements: parsed rows are held in payload until committed
+      CREATE TABLE IF NOT EXISTS statement_import (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        filename TEXT,
+        format TEXT NOT NULL CHECK (format IN ('csv', 'ofx', 'qfx')),
+        profile TEXT,
+        status TEXT NOT NULL DEFAULT 'PREVIEW' CHECK (status IN ('PREVIEW', 'COMMITTED', 'ROLLED_BACK')),
+        row_count INTEGER NOT NULL DEFAULT 0,
+        new_count INTEGER NOT NULL DEFAULT 0,
+        duplicate_count INTEGER NOT NULL DEFAULT 0,
+        error_count INTEGER NOT NULL DEFAULT 0,
+        inserted_count INTEGER NOT NULL DEFAULT 0,
+        payload TEXT NOT NULL DEFAULT '[]',
+        errors TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        committed_at TEXT,
+        rolled_back_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_statement_import_user ON statement_import(user_id, created_at);
+
+      -- Transactions actually inserted by a committed import (what rollback removes)
+      CREATE TABLE IF NOT EXISTS statement_import_txn (
+        import_id TEXT NOT NULL REFERENCES statement_import(id),
+        transaction_id TEXT NOT NULL,
+        PRIMARY KEY (import_id, transaction_id)
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: 'plaid_item',
+    sql: `
+      -- Linked Plaid Items; sync cursors live in bank_sync_state (provider = 'plaid:<item_id>')
+      CREATE TABLE IF NOT EXISTS plaid_item (
+        item_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        access_token TEXT NOT NULL,
+        institution_name TEXT,
+        status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'LOGIN_REQUIRED', 'ERROR')),
+        error_code TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_plaid_item_user ON plaid_item(user_id);
+    `,
+  },
+  {
+    version: 10,
+    name: 'transaction_audit',
+    sql: `
+      -- Prior values of transactions changed or deleted by a provider correction
+      CREATE TABLE IF NOT EXISTS transaction_audit (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        transaction_id TEXT NOT NULL,
+        provider_txn_id TEXT,
+        action TEXT NOT NULL CHECK (action IN ('MODIFIED', 'REMOVED')),
+        old_values TEXT NOT NULL,
+        new_values TEXT,
+        source TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_transaction_audit_txn ON transaction_audit(transaction_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_transaction_audit_user ON transaction_audit(user_id, created_at);
+    `,
+  },
+  {
+    version: 11,
+    name: 'accounts_and_transfers',
+    sql: `
+      -- First-class accounts. Credit card balances are the amount owed (positive).
+      CREATE TABLE IF NOT EXISTS account (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('checking', 'savings', 'credit_card', 'cash')),
+        institution TEXT,
+        mask TEXT,
+        provider TEXT NOT NULL DEFAULT 'manual',
+        provider_account_id TEXT,
+        currency TEXT NOT NULL DEFAULT 'USD',
+        current_balance REAL NOT NULL DEFAULT 0,
+        balance_as_of TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_account_user ON account(user_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_account_provider
+        ON account(user_id, provider, provider_account_id) WHERE provider_account_id IS NOT NULL;
+
+      -- One balance per account per day; later snapshots on the same day replace earlier ones
+      CREATE TABLE IF NOT EXISTS account_balance_snapshot (
+        id TEXT PRIMARY KEY,
+        account_id TEXT NOT NULL REFERENCES account(id),
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        as_of TEXT NOT NULL,
+        balance REAL NOT NULL,
+        source TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(account_id, as_of)
+      );
+
+      -- Both legs of a transfer between the user's own accounts share a transfer_group_id
+      ALTER TABLE transaction_ ADD COLUMN account_id TEXT REFERENCES account(id);
+      ALTER TABLE transaction_ ADD COLUMN transfer_group_id TEXT;
+
+      CREATE INDEX IF NOT EXISTS idx_txn_account_date ON transaction_(account_id, date);
+      CREATE INDEX IF NOT EXISTS idx_txn_transfer_group ON transaction_(transfer_group_id);
+    `,
+  },
+  {
+    version: 12,
+    name: 'transaction_splits',
+    sql: `
+      -- Category allocations of one transaction (e.g. a Costco run that is half groceries,
+      -- half shopping). Split amounts carry the parent's sign and sum to its amount.
+      CREATE TABLE IF NOT EXISTS transaction_split (
+        id TEXT PRIMARY KEY,
+        transaction_id TEXT NOT NULL REFERENCES transaction_(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        category TEXT NOT NULL,
+        amount REAL NOT NULL,
+        note TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_transaction_split_txn ON transaction_split(transaction_id);
+
+      -- One row per category allocation: unsplit transactions as-is, split ones once per split.
+      -- Category aggregates read from here instead of transaction_.
+      CREATE VIEW IF NOT EXISTS transaction_line AS
+        SELECT t.id AS transaction_id, NULL AS split_id, t.user_id, t.date, t.amount, t.category_primary,
+               t.merchant_key, t.merchant_name, t.name, t.pending, t.account_id, t.transfer_group_id
+        FROM transaction_ t
+        WHERE NOT EXISTS (SELECT 1 FROM transaction_split s WHERE s.transaction_id = t.id)
+        UNION ALL
+        SELECT t.id, s.id, t.user_id, t.date, s.amount, s.category,
+               t.merchant_key, t.merchant_name, t.name, t.pending, t.account_id, t.transfer_group_id
+        FROM transaction_split s
+        JOIN transaction_ t ON t.id = s.transaction_id;
+    `,
+  },
+  {
+    version: 13,
+    name: 'categorization_rules',
+    sql: `
+      -- User-defined rules applied at ingest (and on demand to history). Every
+      -- non-null match_* predicate must hold; amounts compare against |amount|.
+      CREATE TABLE IF NOT EXISTS categorization_rule (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        name TEXT,
+        priority INTEGER NOT NULL DEFAULT 100,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        match_merchant_key TEXT,
+        match_name_regex TEXT,
+        match_amount_min REAL,
+        match_amount_max REAL,
+        match_account_id TEXT REFERENCES account(id) ON DELETE CASCADE,
+        set_category TEXT,
+        set_merchant_name TEXT,
+        add_tag TEXT,
+        mark_transfer INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_categorization_rule_user ON categorization_rule(user_id, priority);
+    `,
+  },
+  {
+    version: 14,
+    name: 'user_categories',
+    sql: `
+      -- Each user's categories. Transactions, splits, budgets and rules refer to
+      -- them by name. One level of nesting: a parent's totals include its children.
+      CREATE TABLE IF NOT EXISTS category (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        name TEXT NOT NULL,
+        parent_id TEXT REFERENCES category(id) ON DELETE SET NULL,
+        icon TEXT,
+        color TEXT,
+        -- Charges here (e.g. credit card payments) don't count as spending
+        exclude_from_spending INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(user_id, name COLLATE NOCASE)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_category_parent ON category(parent_id);
+
+      -- Starting set every user gets; Groceries rolls up into Food & Drink
+      CREATE TABLE IF NOT EXISTS default_category (
+        name TEXT PRIMARY KEY,
+        parent_name TEXT,
+        icon TEXT NOT NULL,
+        color TEXT NOT NULL,
+        exclude_from_spending INTEGER NOT NULL DEFAULT 0,
+        sort_order INTEGER NOT NULL
+      );
+
+      INSERT OR IGNORE INTO default_category (name, parent_name, icon, color, exclude_from_spending, sort_order) VALUES
+        ('Food & Drink', NULL, '🍔', '#ff6b6b', 0, 1),
+        ('Groceries', 'Food & Drink', '🛒', '#4caf50', 0, 2),
+        ('Transportation', NULL, '🚗', '#81d4fa', 0, 3),
+        ('Entertainment', NULL, '🎭', '#9b59b6', 0, 4),
+        ('Shopping', NULL, '🛍️', '#ff9800', 0, 5),
+        ('Subscription', NULL, '📱', '#e1bee7', 0, 6),
+        ('Utilities', NULL, '💡', '#bbdefb', 0, 7),
+        ('Education', NULL, '📚', '#c8e6c9', 0, 8),
+        ('Health', NULL, '💊', '#f8bbd0', 0, 9),
+        ('Travel', NULL, '✈️', '#80cbc4', 0, 10),
+        ('Service', NULL, '🧾', '#ffe082', 0, 11),
+        ('Income', NULL, '💰', '#a5d6a7', 1, 12),
+        ('Payment', NULL, '💳', '#b0bec5', 1, 13),
+        ('Transfer', NULL, '🔁', '#cfd8dc', 1, 14),
+        ('Other', NULL, '📦', '#999999', 0, 15);
+
+      INSERT OR IGNORE INTO category (id, user_id, name, icon, color, exclude_from_spending)
+        SELECT lower(hex(randomblob(16))), u.id, d.name, d.icon, d.color, d.exclude_from_spending
+        FROM user_profile u CROSS JOIN default_category d
+        ORDER BY u.id, d.sort_order;
+
+      UPDATE category SET parent_id = (
+        SELECT p.id FROM category p JOIN default_category d ON d.parent_name = p.name
+        WHERE p.user_id = category.user_id AND d.name = category.name
+      )
+      WHERE name IN (SELECT name FROM default_category WHERE parent_name IS NOT NULL);
+
+      CREATE TRIGGER IF NOT EXISTS seed_default_categories AFTER INSERT ON user_profile
+      BEGIN
+        INSERT OR IGNORE INTO category (id, user_id, name, icon, color, exclude_from_spending)
+          SELECT lower(hex(randomblob(16))), NEW.id, name, icon, color, exclude_from_spending
+          FROM default_category ORDER BY sort_order;
+        UPDATE category SET parent_id = (
+          SELECT p.id FROM category p JOIN default_category d ON d.parent_name = p.name
+          WHERE p.user_id = NEW.id AND d.name = category.name
+        )
+        WHERE user_id = NEW.id AND name IN (SELECT name FROM default_category WHERE parent_name IS NOT NULL);
+      END;
+    `,
+  },
+  {
+    version: 15,
+    name: 'quest_metric_types',
+    sql: `
+      -- SQLite can't alter a CHECK constraint: rebuild quest with the new
+      -- metric types. Foreign keys are off so snapshots keep pointing at it.
+      PRAGMA foreign_keys = OFF;
+      BEGIN;
+
+      CREATE TABLE quest_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK(status IN ('ACTIVE','COMPLETED_PROVISIONAL','COMPLETED_VERIFIED','FAILED','EXPIRED')),
+        title TEXT NOT NULL,
+        window_start TEXT NOT NULL,
+        window_end TEXT NOT NULL,
+        metric_type TEXT NOT NULL CHECK(metric_type IN (
+          'CATEGORY_SPEND_CAP','MERCHANT_SPEND_CAP','NO_MERCHANT_CHARGE','TRANSFER_AMOUNT',
+          'NO_SPEND_DAYS','MAX_TRANSACTION_COUNT','DAILY_STREAK_UNDER_LIMIT','SAVINGS_DEPOSIT','CATEGORY_REDUCTION_PCT'
+        )),
+        metric_params TEXT NOT NULL DEFAULT '{}',
+        reward_food_type TEXT NOT NULL CHECK(reward_food_type IN ('kibble','bone','steak','salmon','truffle')),
+        happiness_delta INTEGER NOT NULL DEFAULT 5,
+        created_by TEXT NOT NULL DEFAULT 'agent',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        description TEXT NOT NULL DEFAULT ''
+      );
+
+      INSERT INTO quest_new (id, user_id, status, title, window_start, window_end, metric_type, metric_params,
+        reward_food_type, happiness_delta, created_by, created_at, updated_at, description)
+      SELECT id, user_id, status, title, window_start, window_end, metric_type, metric_params,
+        reward_food_type, happiness_delta, created_by, created_at, updated_at, description
+      FROM quest;
+
+      DROP TABLE quest;
+      ALTER TABLE quest_new RENAME TO quest;
+      CREATE INDEX IF NOT EXISTS idx_quest_user_status ON quest(user_id, status);
+
+      COMMIT;
+      PRAGMA foreign_keys = ON;
+    `,
+  },
+  {
+    version: 16,
+    name: 'quest_metric_registry',
+    sql: `
+      -- Metric types are now checked against the quest metric registry in
+      -- code, so the column no longer lists them. Same rebuild as v15.
+      PRAGMA foreign_keys = OFF;
+      BEGIN;
+
+      CREATE TABLE quest_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK(status IN ('ACTIVE','COMPLETED_PROVISIONAL','COMPLETED_VERIFIED','FAILED','EXPIRED')),
+        title TEXT NOT NULL,
+        window_start TEXT NOT NULL,
+        window_end TEXT NOT NULL,
+        metric_type TEXT NOT NULL,
+        metric_params TEXT NOT NULL DEFAULT '{}',
+        reward_food_type TEXT NOT NULL CHECK(reward_food_type IN ('kibble','bone','steak','salmon','truffle')),
+        happiness_delta INTEGER NOT NULL DEFAULT 5,
+        created_by TEXT NOT NULL DEFAULT 'agent',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        description TEXT NOT NULL DEFAULT ''
+      );
+
+      INSERT INTO quest_new (id, user_id, status, title, window_start, window_end, metric_type, metric_params,
+        reward_food_type, happiness_delta, created_by, created_at, updated_at, description)
+      SELECT id, user_id, status, title, window_start, window_end, metric_type, metric_params,
+        reward_food_type, happiness_delta, created_by, created_at, updated_at, description
+      FROM quest;
+
+      DROP TABLE quest;
+      ALTER TABLE quest_new RENAME TO quest;
+      CREATE INDEX IF NOT EXISTS idx_quest_user_status ON quest(user_id, status);
+
+      COMMIT;
+      PRAGMA foreign_keys = ON;
+    `,
+  },
+  {
+    version: 17,
+    name: 'quest_chains',
+    sql: `
+      -- Quest chains: ordered quests where verifying step N unlocks step N+1.
+      -- Campaign chains carry the campaign id and the end of that year's run.
+      CREATE TABLE IF NOT EXISTS quest_chain (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        title TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        campaign_id TEXT,
+        status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK(status IN ('ACTIVE','COMPLETED','FAILED','EXPIRED','ABANDONED')),
+        current_step INTEGER NOT NULL DEFAULT 0,
+        reward_food_type TEXT NOT NULL CHECK(reward_food_type IN ('kibble','bone','steak','salmon','truffle')),
+        reward_happiness INTEGER NOT NULL DEFAULT 10,
+        reward_growth_levels INTEGER NOT NULL DEFAULT 0,
+        ends_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS quest_chain_step (
+        chain_id TEXT NOT NULL REFERENCES quest_chain(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        metric_type TEXT NOT NULL,
+        metric_params TEXT NOT NULL DEFAULT '{}',
+        window_days INTEGER NOT NULL,
+        reward_food_type TEXT NOT NULL DEFAULT 'bone' CHECK(reward_food_type IN ('kibble','bone','steak','salmon','truffle')),
+        happiness_delta INTEGER NOT NULL DEFAULT 5,
+        quest_id TEXT REFERENCES quest(id),
+        PRIMARY KEY (chain_id, position)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_quest_chain_user_status ON quest_chain(user_id, status);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_quest_chain_user_campaign ON quest_chain(user_id, campaign_id, ends_at)
+        WHERE campaign_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_quest_chain_step_quest ON quest_chain_step(quest_id);
+    `,
+  },
+  {
+    version: 18,
+    name: 'quest_difficulty',
+    sql: `
+      -- Calibrated chance of success and difficulty tier, set when the quest
+      -- is created. Null for metrics the calibration service can't estimate.
+      ALTER TABLE quest ADD COLUMN success_probability REAL;
+      ALTER TABLE quest ADD COLUMN difficulty TEXT CHECK(difficulty IN ('easy','medium','hard'));
+    `,
+  },
+  {
+    version: 19,
+    name: 'quest_lifecycle',
+    sql: `
+      -- Digest quests start OFFERED until the user accepts, declines or swaps
+      -- them; active quests can be PAUSED or ABANDONED. rerolled_at marks a
+      -- quest given up for an alternative (rerolls are limited per week).
+      -- Quest decline reasons go to chat_memory as quest_feedback.
+      PRAGMA foreign_keys = OFF;
+      BEGIN;
+
+      CREATE TABLE quest_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK(status IN ('OFFERED','ACTIVE','PAUSED','COMPLETED_PROVISIONAL','COMPLETED_VERIFIED','FAILED','EXPIRED','DECLINED','ABANDONED')),
+        title TEXT NOT NULL,
+        window_start TEXT NOT NULL,
+        window_end TEXT NOT NULL,
+        metric_type TEXT NOT NULL,
+        metric_params TEXT NOT NULL DEFAULT '{}',
+        reward_food_type TEXT NOT NULL CHECK(reward_food_type IN ('kibble','bone','steak','salmon','truffle')),
+        happiness_delta INTEGER NOT NULL DEFAULT 5,
+        created_by TEXT NOT NULL DEFAULT 'agent',
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        description TEXT NOT NULL DEFAULT '',
+        success_probability REAL,
+        difficulty TEXT CHECK(difficulty IN ('easy','medium','hard')),
+        paused_at TEXT,
+        rerolled_at TEXT
+      );
+
+      INSERT INTO quest_new (id, user_id, status, title, window_start, window_end, metric_type, metric_params,
+        reward_food_type, happiness_delta, created_by, created_at, updated_at, description, success_probability, difficulty)
+      SELECT id, user_id, status, title, window_start, window_end, metric_type, metric_params,
+        reward_food_type, happiness_delta, created_by, created_at, updated_at, description, success_probability, difficulty
+      FROM quest;
+
+      DROP TABLE quest;
+      ALTER TABLE quest_new RENAME TO quest;
+      CREATE INDEX IF NOT EXISTS idx_quest_user_status ON quest(user_id, status);
+
+      CREATE TABLE chat_memory_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        type TEXT NOT NULL CHECK(type IN ('preference','summary','goal_context','quest_feedback')),
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      INSERT INTO chat_memory_new SELECT id, user_id, type, content, created_at FROM chat_memory;
+      DROP TABLE chat_memory;
+      ALTER TABLE chat_memory_new RENAME TO chat_memory;
+      CREATE INDEX IF NOT EXISTS idx_chat_memory_user ON chat_memory(user_id, type);
+
+      COMMIT;
+      PRAGMA foreign_keys = ON;
+    `,
+  },
+  {
+    version: 20,
+    name: 'job_queue',
+    sql: `
+      -- Durable background jobs (daily digest, bank sync). A worker leases a
+      -- due job; a lease that runs out (crashed worker) puts it back in the
+      -- queue. Failures retry with backoff until max_attempts, then the row
+      -- stays as DEAD for inspection. dedupe_key stops two schedulers (or two
+      -- server instances) enqueuing the same run twice. Times are ISO-8601 UTC.
+      CREATE TABLE IF NOT EXISTS job (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        user_id TEXT REFERENCES user_profile(id) ON DELETE CASCADE,
+        payload TEXT NOT NULL DEFAULT '{}',
+        status TEXT NOT NULL DEFAULT 'QUEUED' CHECK(status IN ('QUEUED','RUNNING','SUCCEEDED','DEAD','CANCELLED')),
+        dedupe_key TEXT UNIQUE,
+        run_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        lease_owner TEXT,
+        lease_expires_at TEXT,
+        last_error TEXT,
+        result TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        finished_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_job_status_run_at ON job(status, run_at);
+      CREATE INDEX IF NOT EXISTS idx_job_user ON job(user_id, type);
+    `,
+  },
+  {
+    version: 21,
+    name: 'budget_periods',
+    sql: `
+      -- Budget options. rollover carries the end of one period into the next:
+      -- 'surplus' only what was left, 'all' an overspend too, each capped at
+      -- rollover_cap when set. An envelope budget spends what was funded into
+      -- it from income (budget_funding) instead of a fixed limit and always
+      -- carries its balance. anchor_day moves the period start (day of month
+      -- 1-28, or day of week 0-6 with 0 = Sunday). schedule_start is the
+      -- local date the current frequency and anchor took effect; the first
+      -- period after a change is cut short at it.
+      ALTER TABLE budget ADD COLUMN rollover TEXT NOT NULL DEFAULT 'none' CHECK(rollover IN ('none','surplus','all'));
+      ALTER TABLE budget ADD COLUMN rollover_cap REAL;
+      ALTER TABLE budget ADD COLUMN envelope INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE budget ADD COLUMN anchor_day INTEGER;
+      ALTER TABLE budget ADD COLUMN schedule_start TEXT;
+      UPDATE budget SET schedule_start = date(created_at);
+
+      -- Per-period actuals, written once a period ends. period_end is the
+      -- first day after the period. ending_balance = base + carried_in - spent,
+      -- where base is the limit (prorated for a cut-short period) or, for an
+      -- envelope, what was funded during the period.
+      CREATE TABLE IF NOT EXISTS budget_period (
+        id TEXT PRIMARY KEY,
+        budget_id TEXT NOT NULL REFERENCES budget(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        base_amount REAL NOT NULL,
+        carried_in REAL NOT NULL DEFAULT 0,
+        spent REAL NOT NULL,
+        ending_balance REAL NOT NULL,
+        closed_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(budget_id, period_start)
+      );
+      CREATE INDEX IF NOT EXISTS idx_budget_period_user ON budget_period(user_id, period_start);
+
+      -- Money put into (or moved between) envelope budgets. A move is two
+      -- rows: a negative one on the source and a positive one on the target.
+      CREATE TABLE IF NOT EXISTS budget_funding (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        budget_id TEXT NOT NULL REFERENCES budget(id) ON DELETE CASCADE,
+        amount REAL NOT NULL,
+        source TEXT NOT NULL CHECK(source IN ('income','move')),
+        counterpart_budget_id TEXT,
+        date TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS idx_budget_funding_budget ON budget_funding(budget_id, date);
+    `,
+  },
+  {
+    version: 22,
+    name: 'budget_alerts',
+    sql: `
+      -- Alert rules per budget. threshold is the percent used for
+      -- PERCENT_USED, the day of the period (from 1) for PROJECTED_OVERSPEND
+      -- ("on track to go over by day X") and the dollar amount for
+      -- LARGE_TRANSACTION. A budget without rules gets the defaults in
+      -- services/budget-alerts.ts; alerts_muted silences it.
+      CREATE TABLE IF NOT EXISTS budget_alert_rule (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        budget_id TEXT NOT NULL REFERENCES budget(id) ON DELETE CASCADE,
+        type TEXT NOT NULL CHECK(type IN ('PERCENT_USED','PROJECTED_OVERSPEND','LARGE_TRANSACTION')),
+        threshold REAL NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS idx_budget_alert_rule_budget ON budget_alert_rule(budget_id);
+      ALTER TABLE budget ADD COLUMN alerts_muted INTEGER NOT NULL DEFAULT 0;
+
+      -- Triggered alerts: the app's inbox. dedupe_key makes each alert fire
+      -- once per budget period (or once per transaction). status records the
+      -- delivery: SENT, HELD for quiet hours (sent when they end), SKIPPED
+      -- when the daily notification limit was reached, SUPERSEDED when a
+      -- higher threshold fired in the same check, FAILED when the provider
+      -- errored.
+      CREATE TABLE IF NOT EXISTS budget_alert (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        budget_id TEXT NOT NULL REFERENCES budget(id) ON DELETE CASCADE,
+        type TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        period_start TEXT NOT NULL,
+        dedupe_key TEXT NOT NULL UNIQUE,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL,
+        data TEXT NOT NULL DEFAULT '{}',
+        status TEXT NOT NULL CHECK(status IN ('SENT','HELD','SKIPPED','SUPERSEDED','FAILED')),
+        sent_at TEXT,
+        read_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS idx_budget_alert_user ON budget_alert(user_id, created_at);
+    `,
+  },
+  {
+    version: 23,
+    name: 'action_execution',
+    sql: `
+      -- Approving an action now runs it (services/action-executor.ts). It
+      -- stays APPROVED while there is something left to confirm (a
+      -- subscription cancellation waiting for the next charge not to come),
+      -- then ends COMPLETED or FAILED; UNDONE once reverted. result is the
+      -- execution's JSON result, undo the steps that revert it, error why it
+      -- failed. Same rebuild as v15 for the wider status CHECK.
+      PRAGMA foreign_keys = OFF;
+      BEGIN;
+
+      CREATE TABLE action_queue_item_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL DEFAULT '{}',
+        requires_approval INTEGER NOT NULL DEFAULT 1,
+        status TEXT NOT NULL DEFAULT 'OPEN' CHECK(status IN ('OPEN','DISMISSED','APPROVED','COMPLETED','FAILED','UNDONE')),
+        result TEXT,
+        undo TEXT,
+        error TEXT,
+        executed_at TEXT,
+        completed_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      INSERT INTO action_queue_item_new (id, user_id, type, payload, requires_approval, status, created_at, updated_at)
+      SELECT id, user_id, type, payload, requires_approval, status, created_at, updated_at FROM action_queue_item;
+
+      DROP TABLE action_queue_item;
+      ALTER TABLE action_queue_item_new RENAME TO action_queue_item;
+      CREATE INDEX IF NOT EXISTS idx_action_user_status ON action_queue_item(user_id, status);
+
+      COMMIT;
+      PRAGMA foreign_keys = ON;
+    `,
+  },
+  {
+    version: 24,
+    name: 'subscription_cancellation',
+    sql: `
+      -- A subscription the user is cancelling, keyed by the normalized
+      -- merchant_key so it survives recurring_candidate being re-detected.
+      -- It's CANCELLING while charges from the merchant are watched from
+      -- watch_from through verify_by (the expected charge date plus a grace
+      -- window); then CONFIRMED if none came, or STILL_CHARGING at the first
+      -- one. FAILED when the cancellation provider couldn't cancel; KEPT when
+      -- the user changed their mind. method is 'provider' (the
+      -- CancellationProvider was asked) or 'self' (the user cancels).
+      -- credited_goal_id is the goal a confirmed month of savings went to.
+      CREATE TABLE IF NOT EXISTS subscription_cancellation (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        recurring_candidate_id TEXT,
+        merchant_key TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('CANCELLING','CONFIRMED','STILL_CHARGING','FAILED','KEPT')),
+        method TEXT NOT NULL CHECK(method IN ('provider','self')),
+        message TEXT,
+        confirmation_id TEXT,
+        instructions TEXT NOT NULL DEFAULT '[]',
+        typical_amount REAL NOT NULL,
+        cadence TEXT NOT NULL,
+        monthly_amount REAL NOT NULL,
+        watch_from TEXT NOT NULL,
+        expected_date TEXT NOT NULL,
+        verify_by TEXT NOT NULL,
+        charge_transaction_id TEXT,
+        credited_goal_id TEXT,
+        settled_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS idx_subscription_cancellation_user ON subscription_cancellation(user_id, merchant_key);
+      CREATE INDEX IF NOT EXISTS idx_subscription_cancellation_status ON subscription_cancellation(status);
+    `,
+  },
+  {
+    version: 25,
+    name: 'subscription_price_history',
+    sql: `
+      -- One row per subscription: re-detection updates the merchant's row
+      -- (keeping its id) instead of adding another, so keep the newest of
+      -- any duplicates.
+      DELETE FROM recurring_candidate WHERE rowid NOT IN (
+        SELECT MAX(rowid) FROM recurring_candidate GROUP BY user_id, merchant_key
+      );
+      DROP INDEX IF EXISTS idx_recurring_user_merchant;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_recurring_user_merchant ON recurring_candidate(user_id, merchant_key);
+
+      -- price_history: [{amount, since, transaction_id}], oldest first, for
+      -- fixed-price subscriptions. trial: {amount, charged_on, converts_on,
+      -- converted_on} when the first charge was a $0/$1 free trial.
+      ALTER TABLE recurring_candidate ADD COLUMN price_history TEXT NOT NULL DEFAULT '[]';
+      ALTER TABLE recurring_candidate ADD COLUMN trial TEXT;
+    `,
+  },
+  {
+    version: 26,
+    name: 'goal_contributions',
+    sql: `
+      -- Every change to what a goal has saved (services/goals.ts);
+      -- goal.saved_so_far is kept as their sum. kind says where the money
+      -- came from: 'initial' (already saved when the goal was created),
+      -- 'manual', 'transfer' (matched from the goal's linked savings
+      -- account; transaction_id), 'quest' (what a spend-cap quest left
+      -- unspent; quest_id), 'subscription' (a confirmed cancellation's
+      -- monthly savings; subscription_cancellation_id) or 'withdrawal'.
+      -- Withdrawals, and transfers out of the linked account, are negative.
+      CREATE TABLE IF NOT EXISTS goal_contribution (
+        id TEXT PRIMARY KEY,
+        goal_id TEXT NOT NULL REFERENCES goal(id),
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        kind TEXT NOT NULL CHECK(kind IN ('initial','manual','transfer','quest','subscription','withdrawal')),
+        amount REAL NOT NULL,
+        date TEXT NOT NULL,
+        note TEXT,
+        transaction_id TEXT,
+        quest_id TEXT,
+        subscription_cancellation_id TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_goal_contribution_goal ON goal_contribution(goal_id, date);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_goal_contribution_txn ON goal_contribution(goal_id, transaction_id) WHERE transaction_id IS NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_goal_contribution_quest ON goal_contribution(quest_id) WHERE quest_id IS NOT NULL;
+
+      -- linked_account_id: a savings account whose transfers after
+      -- linked_at count toward the goal. completed_at is cleared if a
+      -- withdrawal takes the goal back under target; rewarded_at isn't, so
+      -- Scotty's reward for finishing is only given once.
+      ALTER TABLE goal ADD COLUMN linked_account_id TEXT REFERENCES account(id);
+      ALTER TABLE goal ADD COLUMN linked_at TEXT;
+      ALTER TABLE goal ADD COLUMN completed_at TEXT;
+      ALTER TABLE goal ADD COLUMN rewarded_at TEXT;
+
+      INSERT INTO goal_contribution (id, goal_id, user_id, kind, amount, date, note)
+      SELECT lower(hex(randomblob(16))), id, user_id, 'initial', saved_so_far, date(created_at), 'Saved before contributions were tracked'
+      FROM goal WHERE saved_so_far > 0;
+    `,
+  },
+  {
+    version: 27,
+    name: 'action_executing_status',
+    sql: `
+      -- approveAction claims an OPEN action by moving it to EXECUTING
+      -- before running it, so two approvals of the same action can't both
+      -- run the executor. Same rebuild as v23 for the wider status CHECK.
+      PRAGMA foreign_keys = OFF;
+      BEGIN;
+
+      CREATE TABLE action_queue_item_new (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES user_profile(id),
+        type TEXT NOT NULL,
+        payload TEXT NOT NULL DEFAULT '{}',
+        requires_approval INTEGER NOT NULL DEFAULT 1,
+        status TEXT NOT NULL DEFAULT 'OPEN' CHECK(status IN ('OPEN','DISMISSED','EXECUTING','APPROVED','COMPLETED','FAILED','UNDONE')),
+        result TEXT,
+        undo TEXT,
+        error TEXT,
+        executed_at TEXT,
+        completed_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      INSERT INTO action_queue_item_new
+      SELECT id, user_id, type, payload, requires_approval, status, result, undo, error,
+        executed_at, completed_at, created_at, updated_at
+      FROM action_queue_item;
+
+      DROP TABLE action_queue_item;
+      ALTER TABLE action_queue_item_new RENAME TO action_queue_item;
+      CREATE INDEX IF NOT EXISTS idx_action_user_status ON action_queue_item(user_id, status);
+
+      COMMIT;
+      PRAGMA foreign_keys = ON;
+    `,
+  },
 ];
@@ -6,6 +6,7 @@ import { buildSeedTransactionsForUser } from '../services/nessie';
 import { createAdapters } from '../adapters';
 import { AgentRunner, DedalusProvider, ClaudeLLMProvider, MockLLMProvider, LLMProvider } from '../agents/runner';
 import { Orchestrator } from '../orchestrator';
+import { ensureDemoCredential, DEMO_USER_ID } from '../services/auth';
 import path from 'path';
 import fs from 'fs';
 
@@ -44,11 +45,12 @@ export async function runFullSeed() {
   const db = getDb();
 
   // Create demo user
-  const userId = 'user_1';
+  const userId = DEMO_USER_ID;
   db.prepare(`
     INSERT OR IGNORE INTO user_profile (id, timezone, preferences)
     VALUES (?, 'America/New_York', '{"quest_types_avoid": [], "notification_limit": 5}')
   `).run(userId);
+  ensureDemoCredential();
 
   // Create scotty state
   db.prepare(`
@@ -71,6 +73,8 @@ export async function runFullSeed() {
   console.log(`Detected ${candidates.length} recurring candidates`);
 
   // Clear stale data so daily digest runs fresh (delete children before parents for FK)
+  db.prepare(`DELETE FROM quest_chain_step WHERE chain_id IN (SELECT id FROM quest_chain WHERE user_id = ?)`).run(userId);
+  db.prepare(`DELETE FROM quest_chain WHERE user_id = ?`).run(userId);
   db.prepare(`DELETE FROM quest_progress_snapshot WHERE quest_id IN (SELECT id FROM quest WHERE user_id = ?)`).run(userId);
   db.prepare(`DELETE FROM quest WHERE user_id = ?`).run(userId);
   db.prepare(`DELETE FROM insight WHERE user_id = ?`).run(userId);
@@ -1,12 +1,17 @@
 import express from 'express';
 import path from 'path';
 import fs from 'fs';
-import cron from 'node-cron';
 import { initDb } from './db/database';
 import { createAdapters } from './adapters';
+import { PlaidBankDataProvider } from './adapters/plaid-bank';
 import { AgentRunner, DedalusProvider, ClaudeLLMProvider, MockLLMProvider } from './agents/runner';
 import { createRouter } from './api/routes';
 import { Orchestrator } from './orchestrator';
+import { JobWorker, pruneJobs } from './orchestrator/job-queue';
+import { scheduleUserJobs, createJobHandlers } from './orchestrator/scheduler';
+import { assertAuthConfigured, ensureDemoCredential } from './services/auth';
+import { deliverHeldAlerts } from './services/budget-alerts';
+import { verifySubscriptionCancellations, failStaleExecutions } from './services/action-executor';
 
 // Config: loaded from .env via --env-file flag in dev script, or from config.local.ts
 let DEDALUS_API_KEY = process.env.DEDALUS_API_KEY || '';
@@ -25,6 +30,13 @@ const NESSIE_SYNC_INTERVAL_MINUTES = Math.max(
   1,
   Math.min(59, parseInt(process.env.NESSIE_SYNC_INTERVAL_MINUTES || '30', 10) || 30)
 );
+const JOB_CONCURRENCY = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10) || 2);
+// ENABLE_CRON is the old name, from when node-cron ran these loops
+const JOBS_ENABLED = (process.env.ENABLE_JOBS ?? process.env.ENABLE_CRON) !== 'false';
+const SCHEDULE_TICK_MS = 60_000;
+
+// Fail fast rather than sign sessions with the development secret
+assertAuthConfigured();
 
 // Ensure data directory exists
 const dataDir = path.join(__dirname, '../data');
@@ -34,7 +46,8 @@ if (!fs.existsSync(dataDir)) {
 
 // Initialize database
 console.log('Initializing database...');
-const db = initDb();
+initDb();
+ensureDemoCredential();
 
 // Initialize adapters
 const adapters = createAdapters();
@@ -79,39 +92,50 @@ app.get('/health', (_req, res) => {
 // API routes
 app.use('/api', createRouter(adapters, runner));
 
-// Start cron for daily digest (5:00 AM daily)
+// Background jobs: the scheduler enqueues each user's digest (at 5 AM their
+// time) and bank syncs; the worker runs them from the durable job queue.
 const orchestrator = new Orchestrator(adapters, runner);
 
-if (process.env.ENABLE_CRON !== 'false') {
-  if (process.env.NESSIE_API_KEY) {
-    const syncSchedule = `*/${NESSIE_SYNC_INTERVAL_MINUTES} * * * *`;
-    cron.schedule(syncSchedule, async () => {
-      console.log(`[cron] Running Nessie sync for all users (every ${NESSIE_SYNC_INTERVAL_MINUTES} min)...`);
-      try {
-        const users = db.prepare('SELECT id FROM user_profile').all() as { id: string }[];
-        for (const user of users) {
-          await adapters.bank.syncTransactions(user.id);
-        }
-        console.log(`[cron] Nessie sync complete for ${users.length} users`);
-      } catch (err) {
-        console.error('[cron] Nessie sync failed:', err);
-      }
-    });
-    console.log(`Nessie sync cron scheduled (${syncSchedule}).`);
-  } else {
-    console.log('NESSIE_API_KEY not set — skipping Nessie sync cron.');
-  }
+if (JOBS_ENABLED) {
+  // Sync whichever bank is configured: a Plaid adapter, or Nessie once it has a key
+  const bankConfigured = adapters.bank instanceof PlaidBankDataProvider || !!process.env.NESSIE_API_KEY;
+  const syncIntervalMinutes = bankConfigured ? NESSIE_SYNC_INTERVAL_MINUTES : null;
+  if (!syncIntervalMinutes) console.log('No bank provider configured — skipping scheduled bank sync.');
 
-  cron.schedule('0 5 * * *', async () => {
-    console.log('[cron] Running daily digest for all users...');
+  const scheduleTick = () => {
     try {
-      const result = await orchestrator.runDailyDigestAll();
-      console.log(`[cron] Daily digest complete: ${result.processed} users processed, ${result.errors.length} errors`);
+      const queued = scheduleUserJobs(new Date(), { syncIntervalMinutes });
+      if (queued.digests || queued.syncs) {
+        console.log(`[jobs] Enqueued ${queued.digests} digests and ${queued.syncs} syncs`);
+      }
+      pruneJobs();
     } catch (err) {
-      console.error('[cron] Daily digest failed:', err);
+      console.error('[jobs] Scheduling failed:', err);
     }
+    try {
+      verifySubscriptionCancellations();
+    } catch (err) {
+      console.error('[jobs] Verifying subscription cancellations failed:', err);
+    }
+    try {
+      failStaleExecutions();
+    } catch (err) {
+      console.error('[jobs] Failing stale action executions failed:', err);
+    }
+    // Budget alerts held during quiet hours go out once they end
+    deliverHeldAlerts(adapters.notification).catch(err => {
+      console.error('[jobs] Delivering held budget alerts failed:', err);
+    });
+  };
+  scheduleTick();
+  setInterval(scheduleTick, SCHEDULE_TICK_MS);
+
+  const worker = new JobWorker(createJobHandlers(orchestrator), { concurrency: JOB_CONCURRENCY });
+  worker.start();
+  process.once('SIGTERM', () => {
+    worker.stop().finally(() => process.exit(0));
   });
-  console.log('Daily digest cron scheduled (5:00 AM).');
+  console.log(`Job worker started (concurrency ${JOB_CONCURRENCY}); digests run at 5:00 AM in each user's timezone.`);
 }
 
 // Start server
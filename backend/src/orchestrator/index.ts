@@ -1,10 +1,17 @@
 import { v4 as uuid } from 'uuid';
 import { getDb } from '../db/database';
 import { AgentRunner } from '../agents/runner';
-import { Adapters } from '../adapters';
-import { ingestTransactions } from '../services/ingestion';
-import { evaluateUserQuests } from '../services/quest-evaluation';
+import { Adapters, BankSyncResult } from '../adapters';
+import { applyTransactionDelta } from '../services/ingestion';
+import { evaluateUserQuests, reevaluateQuestsForDates } from '../services/quest-evaluation';
 import { detectRecurringCandidates, upsertRecurringCandidates } from '../services/subscription-analysis';
+import { createQuestChain, validateQuestChainInput } from '../services/quest-chains';
+import { offerQuest, openOffer, checkSwap, swapQuest, LifecycleResult } from '../services/quest-lifecycle';
+import { publishEvent } from '../services/events';
+import { checkBudgetAlerts, BudgetAlert } from '../services/budget-alerts';
+import { matchTransferContributions } from '../services/goals';
+import { getTransactionById } from '../services/retrieval';
+import { userToday } from '../services/user-clock';
 import { Transaction } from '../schemas';
 import { WorkflowEngine, WorkflowDefinition, WorkflowStep, WorkflowContext } from './workflow';
 
@@ -29,7 +36,8 @@ export class Orchestrator {
    * 5) Log decision
    */
   async runDailyDigest(userId: string): Promise<{ success: boolean; idempotencyKey: string }> {
-    const today = new Date().toISOString().split('T')[0];
+    // Keyed by the user's local date, so a digest is one per day where they live
+    const today = userToday(userId);
     const idempotencyKey = `daily_digest:${userId}:${today}`;
 
     const workflow: WorkflowDefinition<{ userId: string }, { success: boolean; idempotencyKey: string }> = {
@@ -51,7 +59,7 @@ export class Orchestrator {
         {
           name: 'sync_transactions',
           execute: async (input, context) => {
-            await this.adapters.bank.syncTransactions(input.userId);
+            await this.syncBank(input.userId);
             return input;
           },
           retryPolicy: { maxAttempts: 3, backoffMs: 1000, exponential: true },
@@ -95,13 +103,18 @@ export class Orchestrator {
           name: 'persist_insights',
           execute: async (input) => {
             const db = getDb();
-            const today = new Date().toISOString().split('T')[0];
             for (const insight of input.output.insights) {
               const id = uuid();
-              db.prepare(`
+              const { changes } = db.prepare(`
                 INSERT OR IGNORE INTO insight (id, user_id, date, title, blurb, confidence, metrics)
                 VALUES (?, ?, ?, ?, ?, ?, ?)
               `).run(id, input.userId, today, insight.title, insight.blurb, insight.confidence, JSON.stringify(insight.metrics));
+              if (changes > 0) {
+                publishEvent(input.userId, 'insight.created', {
+                  id, date: today, title: insight.title, blurb: insight.blurb,
+                  confidence: insight.confidence, metrics: insight.metrics,
+                });
+              }
             }
             return input;
           },
@@ -109,24 +122,10 @@ export class Orchestrator {
         {
           name: 'persist_quest',
           execute: async (input) => {
-            if (input.output.quest) {
-              const db = getDb();
-              const questId = uuid();
-              const now = new Date();
-              const windowEnd = new Date(now.getTime() + input.output.quest.window_hours * 60 * 60 * 1000);
-              db.prepare(`
-                INSERT INTO quest (id, user_id, status, title, description, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta, created_by)
-                VALUES (?, ?, 'ACTIVE', ?, ?, ?, ?, ?, ?, ?, ?, 'agent')
-              `).run(
-                questId, input.userId, input.output.quest.title,
-                input.output.quest.description || '',
-                now.toISOString().split('T')[0],
-                windowEnd.toISOString().split('T')[0],
-                input.output.quest.metric_type,
-                JSON.stringify(input.output.quest.metric_params),
-                input.output.quest.reward_food_type,
-                input.output.quest.happiness_delta
-              );
+            // The quest is offered for the user to accept, decline or swap;
+            // one offer at a time
+            if (input.output.quest && !openOffer(input.userId)) {
+              offerQuest(input.userId, input.output.quest);
             }
             return input;
           },
@@ -134,16 +133,17 @@ export class Orchestrator {
         {
           name: 'persist_action',
           execute: async (input) => {
-            if (input.output.action) {
+            const action = input.output.action;
+            if (action) {
               const db = getDb();
+              const id = uuid();
               db.prepare(`
                 INSERT INTO action_queue_item (id, user_id, type, payload, requires_approval, status)
                 VALUES (?, ?, ?, ?, ?, 'OPEN')
-              `).run(
-                uuid(), input.userId, input.output.action.type,
-                JSON.stringify(input.output.action.payload),
-                input.output.action.requires_approval ? 1 : 0
-              );
+              `).run(id, input.userId, action.type, JSON.stringify(action.payload), action.requires_approval ? 1 : 0);
+              publishEvent(input.userId, 'action.created', {
+                id, type: action.type, payload: action.payload, requires_approval: action.requires_approval, status: 'OPEN',
+              });
             }
             return input;
           },
@@ -170,20 +170,24 @@ export class Orchestrator {
 
   /**
    * Flow 2: Transactions Update (webhook)
-   * - Ingest new/updated transactions
-   * - Recompute quest progress
-   * - Handle completions, failures, expiries
+   * - Upsert new/corrected transactions and delete removed ones
+   * - Recompute quest progress, including settled quests whose window overlaps a change
+   * - Handle completions, failures, expiries and revocations
+   * - Count transfers into goals' linked savings accounts
+   * - Push the changes to the user's live event stream
    */
   async handleTransactionUpdate(
     userId: string,
     transactions: Transaction[],
-    webhookEventId?: string
-  ): Promise<{ ingested: number; questResults: any[] }> {
-    const idempotencyKey = webhookEventId ? `webhook:${webhookEventId}` : `webhook:${userId}:${Date.now()}`;
+    webhookEventId?: string,
+    removedTxnIds: string[] = []
+  ): Promise<{ ingested: number; modified: number; removed: number; questResults: any[]; alerts: BudgetAlert[] }> {
+    // Scoped to the user: two users' providers can send the same event id
+    const idempotencyKey = webhookEventId ? `webhook:${userId}:${webhookEventId}` : `webhook:${userId}:${Date.now()}`;
 
     const workflow: WorkflowDefinition<
-      { userId: string; transactions: Transaction[] },
-      { ingested: number; questResults: any[] }
+      { userId: string; transactions: Transaction[]; removedTxnIds: string[] },
+      { ingested: number; modified: number; removed: number; questResults: any[]; alerts: BudgetAlert[] }
     > = {
       id: 'transaction_update',
       name: 'Transaction Update Workflow',
@@ -192,24 +196,74 @@ export class Orchestrator {
         {
           name: 'ingest_transactions',
           execute: async (input) => {
-            const result = ingestTransactions(input.transactions);
+            const result = applyTransactionDelta(
+              input.userId,
+              { upsert: input.transactions, remove: input.removedTxnIds },
+              'webhook'
+            );
+            if (result.changedIds.length > 0 || result.removedIds.length > 0) {
+              publishEvent(input.userId, 'transaction.ingested', {
+                inserted: result.inserted,
+                modified: result.modified,
+                removed: result.removed,
+                transactions: result.changedIds.map(id => getTransactionById(input.userId, id)).filter(Boolean),
+                removed_ids: result.removedIds,
+              });
+            }
             return { ...input, ingestionResult: result };
           },
         },
         {
           name: 'evaluate_quests',
           execute: async (input) => {
-            const questResults = evaluateUserQuests(input.userId);
+            const changed = reevaluateQuestsForDates(input.userId, input.ingestionResult.changedDates);
+            const evaluated = new Set(changed.map(r => r.questId));
+            const open = evaluateUserQuests(input.userId).filter(r => !evaluated.has(r.questId));
+            return { ...input, questResults: [...changed, ...open] };
+          },
+        },
+        {
+          name: 'match_goal_transfers',
+          execute: async (input) => {
+            matchTransferContributions(input.userId);
+            return input;
+          },
+        },
+        {
+          name: 'check_budget_alerts',
+          execute: async (input) => {
+            const alerts = await checkBudgetAlerts(
+              input.userId,
+              this.adapters.notification,
+              input.ingestionResult.changedIds
+            );
             return {
               ingested: input.ingestionResult.inserted,
-              questResults,
+              modified: input.ingestionResult.modified,
+              removed: input.ingestionResult.removed,
+              questResults: input.questResults,
+              alerts,
             };
           },
         },
       ],
     };
 
-    return await this.workflowEngine.execute(workflow, { userId, transactions });
+    return await this.workflowEngine.execute(workflow, { userId, transactions, removedTxnIds });
+  }
+
+  /**
+   * Pull new transactions from the bank provider, then fire the budget alerts
+   * they trigger. Scheduled syncs, Plaid Link and manual refreshes all go
+   * through here so none of them skips the alert check.
+   */
+  async syncBank(userId: string, cursor?: string): Promise<BankSyncResult & { alerts: BudgetAlert[] }> {
+    const result = await this.adapters.bank.syncTransactions(userId, cursor);
+    const changedIds = result.changedIds ?? result.transactions.map(t => t.id);
+    if (changedIds.length === 0) return { ...result, alerts: [] };
+
+    const alerts = await checkBudgetAlerts(userId, this.adapters.notification, changedIds);
+    return { ...result, alerts };
   }
 
   /**
@@ -218,7 +272,7 @@ export class Orchestrator {
    */
   async getAppOpenPayload(userId: string): Promise<any> {
     const db = getDb();
-    const today = new Date().toISOString().split('T')[0];
+    const today = userToday(userId);
 
     // Check if digest ran today
     const insights = db.prepare(
@@ -281,46 +335,38 @@ export class Orchestrator {
   }
 
   /**
-   * Flow 4: User Creates Goal -> queue quest chain
+   * Flow 4: User Creates Goal -> quest chain, one day-long step per day.
+   * Each day's quest unlocks once the previous one is verified.
    */
   async createGoalQuests(
     userId: string,
     goal: { title: string; metric_type: string; metric_params: Record<string, any>; days: number }
-  ): Promise<{ queued: number }> {
+  ): Promise<{ queued: number; chainId: string }> {
     const workflow: WorkflowDefinition<
       { userId: string; goal: typeof goal },
-      { queued: number }
+      { queued: number; chainId: string }
     > = {
       id: 'create_goal_quests',
       name: 'Create Goal Quests Workflow',
       idempotencyKey: (input) => `goal_quests:${input.userId}:${input.goal.title}:${Date.now()}`,
       steps: [
         {
-          name: 'queue_quests',
+          name: 'create_chain',
           execute: async (input) => {
-            const db = getDb();
-            let queued = 0;
-
-            for (let d = 0; d < input.goal.days; d++) {
-              const startDate = new Date();
-              startDate.setDate(startDate.getDate() + d);
-
-              db.prepare(`
-                INSERT INTO action_queue_item (id, user_id, type, payload, requires_approval, status)
-                VALUES (?, ?, 'FUTURE_QUEST', ?, 0, 'OPEN')
-              `).run(
-                uuid(), input.userId,
-                JSON.stringify({
-                  title: `${input.goal.title} - Day ${d + 1}`,
-                  metric_type: input.goal.metric_type,
-                  metric_params: input.goal.metric_params,
-                  scheduled_date: startDate.toISOString().split('T')[0],
-                })
-              );
-              queued++;
-            }
+            const chainInput = {
+              title: input.goal.title,
+              steps: Array.from({ length: input.goal.days }, (_, d) => ({
+                title: `${input.goal.title} - Day ${d + 1}`,
+                metric_type: input.goal.metric_type,
+                metric_params: input.goal.metric_params,
+                window_days: 1,
+              })),
+            };
+            const check = validateQuestChainInput(chainInput);
+            if (check.error) throw new Error(check.error);
 
-            return { queued };
+            const chain = createQuestChain(input.userId, chainInput);
+            return { queued: chain.total_steps, chainId: chain.id };
           },
         },
       ],
@@ -330,24 +376,30 @@ export class Orchestrator {
   }
 
   /**
-   * Run digest for all active users.
+   * Flow 5: User swaps an offered quest -> alternative offer.
+   * Uses up one of the week's rerolls. Null when the quest isn't the user's.
    */
-  async runDailyDigestAll(): Promise<{ processed: number; errors: string[] }> {
-    const db = getDb();
-    const users = db.prepare('SELECT id FROM user_profile').all() as { id: string }[];
-    const errors: string[] = [];
-    let processed = 0;
+  async swapOfferedQuest(userId: string, questId: string, reason?: string): Promise<LifecycleResult | null> {
+    const check = checkSwap(userId, questId);
+    if (!check || check.error) return check;
 
-    for (const user of users) {
-      try {
-        await this.runDailyDigest(user.id);
-        processed++;
-      } catch (err: any) {
-        errors.push(`User ${user.id}: ${err.message}`);
-      }
-    }
+    const declinedCategory = JSON.parse(check.quest.metric_params || '{}').category;
+    const alternative = this.runner.generateAlternativeQuest(userId, declinedCategory ? [declinedCategory] : []);
+    if (!alternative) return { error: 'No alternative quest to offer right now' };
+
+    const workflow: WorkflowDefinition<{ userId: string; questId: string }, LifecycleResult> = {
+      id: 'swap_quest',
+      name: 'Swap Quest Workflow',
+      idempotencyKey: (input) => `quest_swap:${input.userId}:${input.questId}`,
+      steps: [
+        {
+          name: 'offer_alternative',
+          execute: async (input) => swapQuest(input.userId, input.questId, alternative, reason),
+        },
+      ],
+    };
 
-    return { processed, errors };
+    return await this.workflowEngine.execute(workflow, { userId, questId });
   }
 
   /**
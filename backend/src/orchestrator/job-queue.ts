@@ -0,0 +1,306 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+
+/**
+ * Durable Job Queue
+ *
+ * Background work (daily digest, bank sync) is stored as rows in `job` so it
+ * survives crashes and can be shared by several server instances:
+ * - A worker leases due jobs inside an IMMEDIATE transaction, so two workers
+ *   never claim the same one
+ * - A lease that runs out (the worker died) puts the job back in the queue
+ * - Failures retry with exponential backoff; after max_attempts the row is
+ *   kept as DEAD (the dead letter) until its user retries or cancels it
+ */
+
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'DEAD' | 'CANCELLED';
+
+export interface Job {
+  id: string;
+  type: string;
+  user_id: string | null;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  dedupe_key: string | null;
+  run_at: string;
+  attempts: number;
+  max_attempts: number;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  result: unknown;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+export interface EnqueueOptions {
+  userId?: string | null;
+  payload?: Record<string, unknown>;
+  runAt?: Date;
+  /** A second job with the same key is not enqueued */
+  dedupeKey?: string;
+  maxAttempts?: number;
+}
+
+export interface JobResult {
+  job?: Job;
+  error?: string;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const DEFAULT_LEASE_MS = 5 * 60_000;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+
+function rowToJob(row: any): Job {
+  return {
+    ...row,
+    payload: JSON.parse(row.payload || '{}'),
+    result: row.result ? JSON.parse(row.result) : null,
+  };
+}
+
+/** Wait before the next attempt: 30s, 1m, 2m, … capped at an hour */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Add a job to the queue. Returns its id, or null when a job with the same
+ * dedupe key already exists.
+ */
+export function enqueueJob(type: string, options: EnqueueOptions = {}): string | null {
+  const id = uuid();
+  const { changes } = getDb().prepare(`
+    INSERT OR IGNORE INTO job (id, type, user_id, payload, dedupe_key, run_at, max_attempts)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, type, options.userId ?? null, JSON.stringify(options.payload ?? {}), options.dedupeKey ?? null,
+    (options.runAt ?? new Date()).toISOString(), options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  );
+  return changes > 0 ? id : null;
+}
+
+export function getJob(jobId: string): Job | null {
+  const row = getDb().prepare(`SELECT * FROM job WHERE id = ?`).get(jobId);
+  return row ? rowToJob(row) : null;
+}
+
+/** A job only its own user may see or change; other users' jobs read as not found */
+function getUserJob(userId: string, jobId: string): Job | null {
+  const job = getJob(jobId);
+  return job && job.user_id === userId ? job : null;
+}
+
+export function listJobs(filters: { status?: string; type?: string; user_id?: string; limit?: number } = {}): Job[] {
+  let sql = `SELECT * FROM job WHERE 1 = 1`;
+  const params: unknown[] = [];
+  if (filters.status) {
+    sql += ` AND status = ?`;
+    params.push(filters.status);
+  }
+  if (filters.type) {
+    sql += ` AND type = ?`;
+    params.push(filters.type);
+  }
+  if (filters.user_id) {
+    sql += ` AND user_id = ?`;
+    params.push(filters.user_id);
+  }
+  sql += ` ORDER BY run_at DESC, rowid DESC LIMIT ?`;
+  params.push(Math.min(filters.limit || 50, 200));
+  return (getDb().prepare(sql).all(...params) as any[]).map(rowToJob);
+}
+
+/**
+ * Lease up to `limit` due jobs to `owner`, oldest first. Jobs whose lease ran
+ * out go back in the queue first (or to DEAD if that was their last attempt).
+ */
+export function claimDueJobs(owner: string, limit: number, now = new Date(), leaseMs = DEFAULT_LEASE_MS): Job[] {
+  if (limit <= 0) return [];
+  const db = getDb();
+  const nowIso = now.toISOString();
+
+  const claim = db.transaction(() => {
+    db.prepare(`
+      UPDATE job SET
+        status = CASE WHEN attempts >= max_attempts THEN 'DEAD' ELSE 'QUEUED' END,
+        finished_at = CASE WHEN attempts >= max_attempts THEN ? ELSE NULL END,
+        last_error = 'Lease expired before the job finished',
+        lease_owner = NULL, lease_expires_at = NULL, updated_at = datetime('now')
+      WHERE status = 'RUNNING' AND lease_expires_at < ?
+    `).run(nowIso, nowIso);
+
+    const due = db.prepare(`
+      SELECT id FROM job WHERE status = 'QUEUED' AND run_at <= ? ORDER BY run_at, rowid LIMIT ?
+    `).all(nowIso, limit) as { id: string }[];
+
+    const lease = db.prepare(`
+      UPDATE job SET status = 'RUNNING', attempts = attempts + 1, lease_owner = ?, lease_expires_at = ?,
+        updated_at = datetime('now')
+      WHERE id = ?
+    `);
+    const expires = new Date(now.getTime() + leaseMs).toISOString();
+    for (const { id } of due) lease.run(owner, expires, id);
+    return due.map(({ id }) => getJob(id)!);
+  });
+
+  // IMMEDIATE takes the write lock up front, so another process can't claim in between
+  return claim.immediate();
+}
+
+/** Push out the lease of a job that is still running. False if the lease was lost. */
+export function extendLease(jobId: string, owner: string, now = new Date(), leaseMs = DEFAULT_LEASE_MS): boolean {
+  const { changes } = getDb().prepare(`
+    UPDATE job SET lease_expires_at = ?, updated_at = datetime('now')
+    WHERE id = ? AND lease_owner = ? AND status = 'RUNNING'
+  `).run(new Date(now.getTime() + leaseMs).toISOString(), jobId, owner);
+  return changes > 0;
+}
+
+/** Record a finished job. Ignored if the lease was lost (the job was requeued or cancelled). */
+export function completeJob(jobId: string, owner: string, result: unknown, now = new Date()): void {
+  getDb().prepare(`
+    UPDATE job SET status = 'SUCCEEDED', result = ?, last_error = NULL, lease_owner = NULL, lease_expires_at = NULL,
+      finished_at = ?, updated_at = datetime('now')
+    WHERE id = ? AND lease_owner = ? AND status = 'RUNNING'
+  `).run(JSON.stringify(result ?? null), now.toISOString(), jobId, owner);
+}
+
+/** Record a failed attempt: retry after a backoff, or move to DEAD after the last attempt */
+export function failJob(jobId: string, owner: string, error: string, now = new Date()): void {
+  const job = getJob(jobId);
+  if (!job || job.lease_owner !== owner || job.status !== 'RUNNING') return;
+
+  if (job.attempts >= job.max_attempts) {
+    getDb().prepare(`
+      UPDATE job SET status = 'DEAD', last_error = ?, lease_owner = NULL, lease_expires_at = NULL,
+        finished_at = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(error, now.toISOString(), jobId);
+    return;
+  }
+  getDb().prepare(`
+    UPDATE job SET status = 'QUEUED', last_error = ?, run_at = ?, lease_owner = NULL, lease_expires_at = NULL,
+      updated_at = datetime('now')
+    WHERE id = ?
+  `).run(error, new Date(now.getTime() + retryDelayMs(job.attempts)).toISOString(), jobId);
+}
+
+/** Queue the user's dead or cancelled job again with fresh attempts. Null if not found. */
+export function retryJob(userId: string, jobId: string, now = new Date()): JobResult | null {
+  const job = getUserJob(userId, jobId);
+  if (!job) return null;
+  if (job.status !== 'DEAD' && job.status !== 'CANCELLED') {
+    return { error: `Only dead or cancelled jobs can be retried (job is ${job.status})` };
+  }
+  getDb().prepare(`
+    UPDATE job SET status = 'QUEUED', attempts = 0, run_at = ?, finished_at = NULL, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(now.toISOString(), jobId);
+  return { job: getJob(jobId)! };
+}
+
+/** Cancel the user's queued job, or discard a dead one. Running jobs finish first. Null if not found. */
+export function cancelJob(userId: string, jobId: string, now = new Date()): JobResult | null {
+  const job = getUserJob(userId, jobId);
+  if (!job) return null;
+  if (job.status !== 'QUEUED' && job.status !== 'DEAD') {
+    return { error: `Only queued or dead jobs can be cancelled (job is ${job.status})` };
+  }
+  getDb().prepare(`
+    UPDATE job SET status = 'CANCELLED', finished_at = ?, updated_at = datetime('now') WHERE id = ?
+  `).run(now.toISOString(), jobId);
+  return { job: getJob(jobId)! };
+}
+
+/** Delete succeeded and cancelled jobs that finished more than `days` days ago */
+export function pruneJobs(days = 30, now = new Date()): number {
+  const cutoff = new Date(now.getTime() - days * 86_400_000).toISOString();
+  return getDb().prepare(`
+    DELETE FROM job WHERE status IN ('SUCCEEDED', 'CANCELLED') AND finished_at < ?
+  `).run(cutoff).changes;
+}
+
+export type JobHandler = (job: Job) => Promise<unknown>;
+
+export interface JobWorkerOptions {
+  /** Jobs run at the same time by this worker */
+  concurrency?: number;
+  pollIntervalMs?: number;
+  leaseMs?: number;
+}
+
+/**
+ * Runs due jobs with the handler registered for their type, at most
+ * `concurrency` at a time. Each job is its own unit: one user's failure
+ * doesn't stop the others.
+ */
+export class JobWorker {
+  readonly id = `worker:${uuid()}`;
+  private handlers: Record<string, JobHandler>;
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private leaseMs: number;
+  private running = new Set<Promise<void>>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(handlers: Record<string, JobHandler>, options: JobWorkerOptions = {}) {
+    this.handlers = handlers;
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.pollIntervalMs = options.pollIntervalMs ?? 5_000;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  /** Stop polling and wait for the jobs already running */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await Promise.all(this.running);
+  }
+
+  /** Claim due jobs for the free slots and start them. Returns their promises. */
+  tick(now = new Date()): Promise<void>[] {
+    let jobs: Job[];
+    try {
+      jobs = claimDueJobs(this.id, this.concurrency - this.running.size, now, this.leaseMs);
+    } catch (err: any) {
+      console.error('[JobWorker] Claiming jobs failed:', err.message);
+      return [];
+    }
+    return jobs.map(job => {
+      const run = this.run(job).finally(() => this.running.delete(run));
+      this.running.add(run);
+      return run;
+    });
+  }
+
+  /** Run what is due now and wait for it (used by tests and admin triggers) */
+  async runDue(now = new Date()): Promise<number> {
+    const runs = this.tick(now);
+    await Promise.all(runs);
+    return runs.length;
+  }
+
+  private async run(job: Job): Promise<void> {
+    const handler = this.handlers[job.type];
+    // Keep the lease alive while a long job (an LLM call, a slow bank) runs
+    const renew = setInterval(() => extendLease(job.id, this.id, new Date(), this.leaseMs), this.leaseMs / 2);
+    try {
+      if (!handler) throw new Error(`No handler for job type ${job.type}`);
+      const result = await handler(job);
+      completeJob(job.id, this.id, result);
+    } catch (err: any) {
+      console.error(`[JobWorker] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, err.message);
+      failJob(job.id, this.id, err.message ?? String(err));
+    } finally {
+      clearInterval(renew);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { getDb } from '../db/database';
+import { enqueueJob, JobHandler } from './job-queue';
+import { Orchestrator } from './index';
+import { localClock } from '../services/user-clock';
+
+/**
+ * Per-user Scheduling
+ *
+ * Runs every minute and enqueues what is due for each user:
+ * - the daily digest once the user's local clock (user_profile.timezone)
+ *   reaches DIGEST_LOCAL_HOUR, keyed by their local date
+ * - a bank sync every `syncIntervalMinutes`, keyed by the interval slot
+ * Dedupe keys make repeated ticks, restarts and extra server instances safe.
+ */
+
+export const DIGEST_LOCAL_HOUR = 5;
+
+export const JOB_TYPES = {
+  DAILY_DIGEST: 'daily_digest',
+  BANK_SYNC: 'bank_sync',
+} as const;
+
+export interface ScheduleOptions {
+  /** Enqueue bank syncs at this interval; null or 0 to skip them */
+  syncIntervalMinutes?: number | null;
+}
+
+/** Enqueue every user's due jobs. Returns how many were new. */
+export function scheduleUserJobs(now = new Date(), options: ScheduleOptions = {}): { digests: number; syncs: number } {
+  const users = getDb().prepare(`SELECT id, timezone FROM user_profile`).all() as { id: string; timezone: string }[];
+  let digests = 0;
+  let syncs = 0;
+
+  for (const user of users) {
+    const clock = localClock(user.timezone, now);
+    if (clock.hour >= DIGEST_LOCAL_HOUR) {
+      const id = enqueueJob(JOB_TYPES.DAILY_DIGEST, {
+        userId: user.id,
+        dedupeKey: `${JOB_TYPES.DAILY_DIGEST}:${user.id}:${clock.date}`,
+        runAt: now,
+      });
+      if (id) digests++;
+    }
+
+    if (options.syncIntervalMinutes) {
+      const slot = Math.floor(now.getTime() / (options.syncIntervalMinutes * 60_000));
+      const id = enqueueJob(JOB_TYPES.BANK_SYNC, {
+        userId: user.id,
+        dedupeKey: `${JOB_TYPES.BANK_SYNC}:${user.id}:${slot}`,
+        runAt: now,
+        maxAttempts: 3,
+      });
+      if (id) syncs++;
+    }
+  }
+
+  return { digests, syncs };
+}
+
+/** What the worker runs for each job type */
+export function createJobHandlers(orchestrator: Orchestrator): Record<string, JobHandler> {
+  return {
+    [JOB_TYPES.DAILY_DIGEST]: async (job) => orchestrator.runDailyDigest(job.user_id!),
+    [JOB_TYPES.BANK_SYNC]: async (job) => {
+      const result = await orchestrator.syncBank(job.user_id!);
+      return { synced: result.transactions.length, alerts: result.alerts.length, cursor: result.cursor };
+    },
+  };
+}
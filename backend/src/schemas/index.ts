@@ -1,16 +1,24 @@
 import { z } from 'zod';
+import { METRIC_TYPES, validateMetricParams } from '../services/quest-metrics';
 
 // ─── Enums ───
 export const QuestStatus = z.enum([
-  'ACTIVE', 'COMPLETED_PROVISIONAL', 'COMPLETED_VERIFIED', 'FAILED', 'EXPIRED',
+  'OFFERED', 'ACTIVE', 'PAUSED', 'COMPLETED_PROVISIONAL', 'COMPLETED_VERIFIED', 'FAILED', 'EXPIRED', 'DECLINED', 'ABANDONED',
 ]);
 export type QuestStatus = z.infer<typeof QuestStatus>;
 
-export const MetricType = z.enum([
-  'CATEGORY_SPEND_CAP', 'MERCHANT_SPEND_CAP', 'NO_MERCHANT_CHARGE', 'TRANSFER_AMOUNT',
-]);
+/** Metric types come from the quest metric registry (services/quest-metrics) */
+export const MetricType = z.enum(METRIC_TYPES);
 export type MetricType = z.infer<typeof MetricType>;
 
+/** Reject a quest whose metric_params don't fit its metric_type */
+function checkMetricParams(quest: { metric_type: MetricType; metric_params: Record<string, unknown> }, ctx: z.RefinementCtx): void {
+  const { issues } = validateMetricParams(quest.metric_type, quest.metric_params);
+  for (const issue of issues ?? []) {
+    ctx.addIssue({ ...issue, path: ['metric_params', ...issue.path] });
+  }
+}
+
 export const FoodType = z.enum(['kibble', 'bone', 'steak', 'salmon', 'truffle']);
 export type FoodType = z.infer<typeof FoodType>;
 
@@ -22,7 +30,7 @@ export const ActionType = z.enum([
 ]);
 export type ActionType = z.infer<typeof ActionType>;
 
-export const ActionStatus = z.enum(['OPEN', 'DISMISSED', 'APPROVED', 'COMPLETED']);
+export const ActionStatus = z.enum(['OPEN', 'DISMISSED', 'EXECUTING', 'APPROVED', 'COMPLETED', 'FAILED', 'UNDONE']);
 export type ActionStatus = z.infer<typeof ActionStatus>;
 
 export const TriggerType = z.enum([
@@ -31,6 +39,16 @@ export const TriggerType = z.enum([
 export type TriggerType = z.infer<typeof TriggerType>;
 
 // ─── Transaction ───
+/** A category allocation of part of a transaction; same sign as the parent amount */
+export const TransactionSplitSchema = z.object({
+  id: z.string(),
+  transaction_id: z.string(),
+  category: z.string(),
+  amount: z.number(),
+  note: z.string().nullable(),
+});
+export type TransactionSplit = z.infer<typeof TransactionSplitSchema>;
+
 export const TransactionSchema = z.object({
   id: z.string(),
   user_id: z.string(),
@@ -46,6 +64,8 @@ export const TransactionSchema = z.object({
   pending: z.boolean(),
   pending_transaction_id: z.string().nullable(),
   metadata: z.record(z.unknown()).default({}),
+  account_id: z.string().nullable().optional(),
+  splits: z.array(TransactionSplitSchema).optional(),
 });
 export type Transaction = z.infer<typeof TransactionSchema>;
 
@@ -93,7 +113,7 @@ export const AgentQuestOutput = z.object({
   reward_food_type: FoodType,
   happiness_delta: z.number().int().min(1).max(20),
   window_hours: z.number().int().min(1).max(168),
-});
+}).superRefine(checkMetricParams);
 
 export const AgentActionOutput = z.object({
   type: ActionType,
@@ -185,7 +205,7 @@ export const QuestWithEvidence = z.object({
   window_hours: z.number().int().min(1).max(168),
   explanation: z.string().max(200),
   evidence: EvidenceObject,
-});
+}).superRefine(checkMetricParams);
 export type QuestWithEvidence = z.infer<typeof QuestWithEvidence>;
 
 export const QuestGenerateResponseSchema = z.object({
@@ -257,14 +277,34 @@ export const FinancialSummarySchema = z.object({
 export type FinancialSummary = z.infer<typeof FinancialSummarySchema>;
 
 // ─── Recurring Candidate ───
+export const PricePointSchema = z.object({
+  amount: z.number(),
+  /** Date of the first charge at this price */
+  since: z.string(),
+  transaction_id: z.string(),
+});
+export type PricePoint = z.infer<typeof PricePointSchema>;
+
+export const SubscriptionTrialSchema = z.object({
+  amount: z.number(),
+  charged_on: z.string(),
+  /** When the trial is expected to turn into a paid charge */
+  converts_on: z.string(),
+  converted_on: z.string().nullable(),
+});
+export type SubscriptionTrial = z.infer<typeof SubscriptionTrialSchema>;
+
 export const RecurringCandidateSchema = z.object({
   id: z.string(),
   user_id: z.string(),
   merchant_key: z.string(),
   typical_amount: z.number(),
-  cadence: z.enum(['monthly', 'weekly', 'annual', 'unknown']),
+  cadence: z.enum(['monthly', 'weekly', 'quarterly', 'annual', 'unknown']),
   next_expected_date: z.string().nullable(),
   confidence: z.number().min(0).max(1),
   source: z.record(z.unknown()).default({}),
+  /** Oldest first; empty for charges whose amount varies (utilities) */
+  price_history: z.array(PricePointSchema).default([]),
+  trial: SubscriptionTrialSchema.nullable().default(null),
 });
 export type RecurringCandidate = z.infer<typeof RecurringCandidateSchema>;
@@ -0,0 +1,317 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { userToday, addDays, daysBetween } from './user-clock';
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  institution: string | null;
+  mask: string | null;
+  provider: string;
+  provider_account_id: string | null;
+  currency: string;
+  /** For credit cards this is the amount owed */
+  current_balance: number;
+  balance_as_of: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BalanceSnapshot {
+  account_id: string;
+  as_of: string;
+  balance: number;
+  source: string | null;
+}
+
+export interface AccountInput {
+  name: string;
+  type: AccountType;
+  institution?: string | null;
+  mask?: string | null;
+  currency?: string;
+  balance?: number;
+}
+
+export const ACCOUNT_TYPES: AccountType[] = ['checking', 'savings', 'credit_card', 'cash'];
+
+// Max days between the two legs of a transfer (ACH can take a couple of business days)
+const TRANSFER_WINDOW_DAYS = 3;
+
+const TRANSFER_CATEGORIES = ['transfer', 'payment'];
+const TRANSFER_NAME_RE = /\b(transfer|xfer|payment|autopay|pmt)\b/i;
+// Money moving this way between the user's accounts is a transfer even without a label
+const TRANSFER_ACCOUNT_PAIRS = ['checking>credit_card', 'checking>savings', 'savings>checking', 'savings>credit_card'];
+
+function mapAccountRow(row: any): Account {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    type: row.type,
+    institution: row.institution,
+    mask: row.mask,
+    provider: row.provider,
+    provider_account_id: row.provider_account_id,
+    currency: row.currency,
+    current_balance: row.current_balance,
+    balance_as_of: row.balance_as_of,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export function validateAccountInput(body: any): { error?: string } {
+  if (!body || typeof body.name !== 'string' || !body.name.trim()) return { error: 'name required' };
+  if (!ACCOUNT_TYPES.includes(body.type)) {
+    return { error: `Invalid type. Must be one of: ${ACCOUNT_TYPES.join(', ')}` };
+  }
+  if (body.balance !== undefined && (typeof body.balance !== 'number' || !Number.isFinite(body.balance))) {
+    return { error: 'balance must be a number' };
+  }
+  return {};
+}
+
+/**
+ * Net worth contribution: credit card balances are debts.
+ */
+export function signedBalance(account: Pick<Account, 'type' | 'current_balance'>): number {
+  return account.type === 'credit_card' ? -account.current_balance : account.current_balance;
+}
+
+export function listAccounts(userId: string): Account[] {
+  const rows = getDb().prepare(
+    `SELECT * FROM account WHERE user_id = ? ORDER BY type, name`
+  ).all(userId) as any[];
+  return rows.map(mapAccountRow);
+}
+
+export function getAccount(userId: string, accountId: string): Account | null {
+  const row = getDb().prepare(
+    `SELECT * FROM account WHERE id = ? AND user_id = ?`
+  ).get(accountId, userId) as any;
+  return row ? mapAccountRow(row) : null;
+}
+
+export function createAccount(userId: string, input: AccountInput): Account {
+  const db = getDb();
+  const id = uuid();
+  db.prepare(`
+    INSERT INTO account (id, user_id, name, type, institution, mask, currency)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, userId, input.name.trim(), input.type, input.institution ?? null, input.mask ?? null, input.currency || 'USD');
+
+  if (input.balance !== undefined) recordBalanceSnapshot(userId, id, input.balance, undefined, 'manual');
+  return getAccount(userId, id)!;
+}
+
+/**
+ * Create or refresh an account reported by a bank provider, keyed by the
+ * provider's account id. Returns the local account id.
+ */
+export function upsertProviderAccount(
+  userId: string,
+  provider: string,
+  providerAccountId: string,
+  input: AccountInput
+): string {
+  const db = getDb();
+  const existing = db.prepare(
+    `SELECT id FROM account WHERE user_id = ? AND provider = ? AND provider_account_id = ?`
+  ).get(userId, provider, providerAccountId) as { id: string } | undefined;
+
+  let id = existing?.id;
+  if (id) {
+    db.prepare(`
+      UPDATE account SET name = ?, type = ?, institution = COALESCE(?, institution), mask = COALESCE(?, mask),
+        updated_at = datetime('now')
+      WHERE id = ?
+    `).run(input.name, input.type, input.institution ?? null, input.mask ?? null, id);
+  } else {
+    id = uuid();
+    db.prepare(`
+      INSERT INTO account (id, user_id, name, type, institution, mask, provider, provider_account_id, currency)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, userId, input.name, input.type, input.institution ?? null, input.mask ?? null,
+      provider, providerAccountId, input.currency || 'USD');
+  }
+
+  if (input.balance !== undefined) recordBalanceSnapshot(userId, id, input.balance, undefined, provider);
+  return id;
+}
+
+/**
+ * Record a point-in-time balance and make it the account's current balance
+ * if it is the newest one. Returns null when the account isn't the user's.
+ */
+export function recordBalanceSnapshot(
+  userId: string,
+  accountId: string,
+  balance: number,
+  asOf: string = userToday(userId),
+  source: string | null = null
+): BalanceSnapshot | null {
+  const db = getDb();
+  const account = getAccount(userId, accountId);
+  if (!account) return null;
+
+  const rounded = Math.round(balance * 100) / 100;
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO account_balance_snapshot (id, account_id, user_id, as_of, balance, source)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(account_id, as_of) DO UPDATE SET balance = excluded.balance, source = excluded.source
+    `).run(uuid(), accountId, userId, asOf, rounded, source);
+
+    if (!account.balance_as_of || asOf >= account.balance_as_of) {
+      db.prepare(`
+        UPDATE account SET current_balance = ?, balance_as_of = ?, updated_at = datetime('now') WHERE id = ?
+      `).run(rounded, asOf, accountId);
+    }
+  })();
+
+  return { account_id: accountId, as_of: asOf, balance: rounded, source };
+}
+
+export function getBalanceHistory(userId: string, accountId: string, start?: string, end?: string): BalanceSnapshot[] {
+  let sql = `SELECT account_id, as_of, balance, source FROM account_balance_snapshot WHERE user_id = ? AND account_id = ?`;
+  const params: unknown[] = [userId, accountId];
+  if (start) {
+    sql += ` AND as_of >= ?`;
+    params.push(start);
+  }
+  if (end) {
+    sql += ` AND as_of <= ?`;
+    params.push(end);
+  }
+  sql += ` ORDER BY as_of`;
+  return getDb().prepare(sql).all(...params) as BalanceSnapshot[];
+}
+
+/**
+ * Assign (or clear) the account a transaction belongs to. Clearing the
+ * account also breaks any transfer pairing it was part of.
+ */
+export function assignTransactionAccount(userId: string, transactionId: string, accountId: string | null): boolean {
+  const db = getDb();
+  const txn = db.prepare(
+    `SELECT id, date, transfer_group_id FROM transaction_ WHERE id = ? AND user_id = ?`
+  ).get(transactionId, userId) as { id: string; date: string; transfer_group_id: string | null } | undefined;
+  if (!txn) return false;
+
+  db.transaction(() => {
+    if (txn.transfer_group_id) clearTransferGroups([txn.transfer_group_id]);
+    db.prepare(`UPDATE transaction_ SET account_id = ?, updated_at = datetime('now') WHERE id = ?`)
+      .run(accountId, transactionId);
+    detectTransfers(userId, { dates: [txn.date] });
+  })();
+  return true;
+}
+
+export function clearTransferGroups(groupIds: string[]): void {
+  const stmt = getDb().prepare(`UPDATE transaction_ SET transfer_group_id = NULL WHERE transfer_group_id = ?`);
+  for (const groupId of groupIds) stmt.run(groupId);
+}
+
+interface TransferCandidate {
+  id: string;
+  account_id: string;
+  date: string;
+  amount: number;
+  name: string;
+  category_primary: string | null;
+  category_detailed: string | null;
+  account_type: AccountType;
+}
+
+function hasTransferLabel(txn: TransferCandidate): boolean {
+  const categories = [txn.category_primary, txn.category_detailed].map(c => (c ?? '').toLowerCase());
+  return categories.some(c => TRANSFER_CATEGORIES.some(t => c.includes(t))) || TRANSFER_NAME_RE.test(txn.name);
+}
+
+function looksLikeTransfer(out: TransferCandidate, inflow: TransferCandidate): boolean {
+  return hasTransferLabel(out) || hasTransferLabel(inflow)
+    || TRANSFER_ACCOUNT_PAIRS.includes(`${out.account_type}>${inflow.account_type}`);
+}
+
+/**
+ * Detect transfers between the user's own accounts and tag both legs with a
+ * shared transfer_group_id so they drop out of spending and income totals.
+ *
+ * - Paired legs: an outflow and an inflow of the same amount in two different
+ *   accounts of the user, posted within TRANSFER_WINDOW_DAYS of each other
+ *   (e.g. a credit card payment from checking). A matching amount alone isn't
+ *   enough: a leg must be categorized or named as a transfer or payment, or
+ *   the money must go from a bank account to a card or between checking and
+ *   savings. Otherwise a card purchase and an unrelated refund of the same
+ *   amount would drop out of spending.
+ * - Single-leg transfers: providers that report one row per transfer can set
+ *   metadata.counterparty_account_id to the provider id of the other account.
+ *
+ * Pass dates to limit the scan to rows near recently changed transactions.
+ * Returns the number of transactions newly tagged.
+ */
+export function detectTransfers(userId: string, options: { dates?: string[] } = {}): number {
+  const db = getDb();
+  let range = '';
+  const rangeParams: string[] = [];
+  if (options.dates) {
+    if (options.dates.length === 0) return 0;
+    const sorted = [...options.dates].sort();
+    range = ` AND date >= ? AND date <= ?`;
+    rangeParams.push(addDays(sorted[0], -TRANSFER_WINDOW_DAYS), addDays(sorted[sorted.length - 1], TRANSFER_WINDOW_DAYS));
+  }
+
+  const candidates = db.prepare(`
+    SELECT id, account_id, date, amount, name, category_primary, category_detailed,
+      (SELECT type FROM account WHERE account.id = transaction_.account_id) AS account_type
+    FROM transaction_
+    WHERE user_id = ? AND pending = 0 AND transfer_group_id IS NULL AND account_id IS NOT NULL${range}
+    ORDER BY date, id
+  `).all(userId, ...rangeParams) as TransferCandidate[];
+
+  const tag = db.prepare(`UPDATE transaction_ SET transfer_group_id = ? WHERE id = ?`);
+  let tagged = 0;
+
+  db.transaction(() => {
+    const inflows = candidates.filter(t => t.amount > 0);
+    const matched = new Set<string>();
+
+    for (const out of candidates.filter(t => t.amount < 0)) {
+      let best: (typeof inflows)[number] | null = null;
+      for (const inflow of inflows) {
+        if (matched.has(inflow.id) || inflow.account_id === out.account_id) continue;
+        if (Math.abs(inflow.amount + out.amount) >= 0.005) continue;
+        if (!looksLikeTransfer(out, inflow)) continue;
+        const gap = Math.abs(daysBetween(out.date, inflow.date));
+        if (gap > TRANSFER_WINDOW_DAYS) continue;
+        if (!best || gap < Math.abs(daysBetween(out.date, best.date))) best = inflow;
+      }
+      if (!best) continue;
+
+      matched.add(best.id);
+      const groupId = uuid();
+      tag.run(groupId, out.id);
+      tag.run(groupId, best.id);
+      tagged += 2;
+    }
+
+    const singleLeg = db.prepare(`
+      SELECT id FROM transaction_
+      WHERE user_id = ? AND transfer_group_id IS NULL${range}
+        AND json_extract(metadata, '$.counterparty_account_id') IN (
+          SELECT provider_account_id FROM account WHERE user_id = ? AND provider_account_id IS NOT NULL
+        )
+    `).all(userId, ...rangeParams, userId) as { id: string }[];
+    for (const row of singleLeg) {
+      tag.run(uuid(), row.id);
+      tagged++;
+    }
+  })();
+
+  return tagged;
+}
@@ -0,0 +1,373 @@
+import { v4 as uuid } from 'uuid';
+import { z } from 'zod';
+import { getDb } from '../db/database';
+import { CancellationProvider } from '../adapters/types';
+import { ActionStatus, ActionType, AgentQuestOutput } from '../schemas';
+import { createBudget, updateBudget, getBudget, BudgetFrequency } from './budget';
+import { getUpcomingSubscriptions } from './subscription-analysis';
+import { normalizeMerchantKey } from './merchant-key';
+import { offerQuest, acceptQuest, abandonQuest } from './quest-lifecycle';
+import { getTransactionById } from './retrieval';
+import { publishEvent } from './events';
+import { userToday } from './user-clock';
+import { cancelSubscription, keepSubscription, verifyCancellations, getCancellation } from './subscription-cancellation';
+
+// The action queue executor. Approving an OPEN action runs the executor for
+// its type: a budget suggestion creates or changes the budget, a savings tip
+// creates its goal and/or quest, a subscription review starts a
+// cancellation and then watches for the next charge. Each run stores a
+// result for the app and the steps that undo it. Actions whose effect can
+// only be confirmed later stay APPROVED until verifySubscriptionCancellations
+// settles them.
+
+export interface ActionItem {
+  id: string;
+  type: ActionType;
+  payload: Record<string, unknown>;
+  requires_approval: boolean;
+  status: ActionStatus;
+  result: Record<string, any> | null;
+  error: string | null;
+  executed_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ActionResult {
+  action?: ActionItem;
+  error?: string;
+}
+
+type UndoStep =
+  | { kind: 'delete_budget'; budget_id: string }
+  | { kind: 'restore_budget'; budget_id: string; limit_amount: number; frequency: BudgetFrequency }
+  | { kind: 'cancel_goal'; goal_id: string }
+  | { kind: 'abandon_quest'; quest_id: string }
+  | { kind: 'keep_subscription'; cancellation_id: string };
+
+interface Execution {
+  /** COMPLETED when done; APPROVED when something is still to be confirmed */
+  status: 'APPROVED' | 'COMPLETED';
+  result: Record<string, unknown>;
+  undo: UndoStep[];
+}
+
+interface ExecutionContext {
+  userId: string;
+  today: string;
+  now: Date;
+  cancellation: CancellationProvider | null;
+}
+
+const BudgetSuggestionPayload = z.object({
+  category: z.string().min(1),
+  limit_amount: z.number().positive(),
+  frequency: z.enum(['Day', 'Week', 'Month']).optional(),
+}).passthrough();
+
+const SubscriptionReviewPayload = z.object({ merchant_key: z.string().min(1) }).passthrough();
+
+const SavingsTipPayload = z.object({
+  goal: z.object({
+    name: z.string().min(1),
+    target_amount: z.number().positive(),
+    deadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  }).optional(),
+  quest: AgentQuestOutput.optional(),
+}).passthrough();
+
+function parsePayload<T>(schema: z.ZodType<T>, payload: unknown): T {
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid payload: ${issue.path.join('.') || 'payload'} ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+async function executeBudgetSuggestion(payload: unknown, ctx: ExecutionContext): Promise<Execution> {
+  const { category, limit_amount, frequency } = parsePayload(BudgetSuggestionPayload, payload);
+  const existing = getDb().prepare(`SELECT id FROM budget WHERE user_id = ? AND category = ?`).get(ctx.userId, category) as
+    | { id: string }
+    | undefined;
+
+  if (existing) {
+    const before = getBudget(existing.id)!;
+    const budget = updateBudget(existing.id, { limit_amount, frequency })!;
+    return {
+      status: 'COMPLETED',
+      result: { budget_id: budget.id, created: false, previous_limit: before.limit_amount, limit_amount: budget.limit_amount },
+      undo: [{ kind: 'restore_budget', budget_id: budget.id, limit_amount: before.limit_amount, frequency: before.frequency }],
+    };
+  }
+  const budget = createBudget(ctx.userId, category, limit_amount, frequency ?? 'Month');
+  return {
+    status: 'COMPLETED',
+    result: { budget_id: budget.id, created: true, limit_amount: budget.limit_amount },
+    undo: [{ kind: 'delete_budget', budget_id: budget.id }],
+  };
+}
+
+async function executeSubscriptionReview(payload: unknown, ctx: ExecutionContext): Promise<Execution> {
+  const { merchant_key } = parsePayload(SubscriptionReviewPayload, payload);
+  const key = normalizeMerchantKey(merchant_key, '');
+  // An annual charge can be most of a year out
+  const candidate = getUpcomingSubscriptions(ctx.userId, 400).find(s => normalizeMerchantKey(s.merchant_key, '') === key);
+  if (!candidate) throw new Error(`No recurring charge found for ${merchant_key}`);
+
+  const attempt = (await cancelSubscription(ctx.userId, candidate.id, ctx.cancellation, {}, ctx.now))!;
+  if (attempt.error) throw new Error(`Cancellation failed: ${attempt.error}`);
+  const cancellation = attempt.cancellation!;
+  return {
+    status: 'APPROVED',
+    result: {
+      cancellation_id: cancellation.id,
+      merchant_key: cancellation.merchant_key,
+      monthly_amount: cancellation.monthly_amount,
+      message: cancellation.message,
+      instructions: cancellation.instructions,
+      confirmation_id: cancellation.confirmation_id,
+      verify_by: cancellation.verify_by,
+    },
+    undo: [{ kind: 'keep_subscription', cancellation_id: cancellation.id }],
+  };
+}
+
+async function executeSavingsTip(payload: unknown, ctx: ExecutionContext): Promise<Execution> {
+  const { goal, quest } = parsePayload(SavingsTipPayload, payload);
+  const result: Record<string, unknown> = {};
+  const undo: UndoStep[] = [];
+
+  getDb().transaction(() => {
+    if (quest) {
+      // Approving the tip is the user's yes, so the quest starts right away
+      const questId = offerQuest(ctx.userId, quest, ctx.today);
+      acceptQuest(ctx.userId, questId, ctx.today);
+      result.quest_id = questId;
+      undo.push({ kind: 'abandon_quest', quest_id: questId });
+    }
+    if (goal) {
+      const goalId = uuid();
+      getDb().prepare(`INSERT INTO goal (id, user_id, name, target_amount, deadline) VALUES (?, ?, ?, ?, ?)`)
+        .run(goalId, ctx.userId, goal.name, goal.target_amount, goal.deadline ?? null);
+      result.goal_id = goalId;
+      undo.push({ kind: 'cancel_goal', goal_id: goalId });
+    }
+  })();
+  if (undo.length === 0) result.acknowledged = true;
+  return { status: 'COMPLETED', result, undo };
+}
+
+const EXECUTORS: Record<ActionType, (payload: unknown, ctx: ExecutionContext) => Promise<Execution>> = {
+  BUDGET_SUGGESTION: executeBudgetSuggestion,
+  SUBSCRIPTION_REVIEW: executeSubscriptionReview,
+  SAVINGS_TIP: executeSavingsTip,
+  // An alert is information only; approving it acknowledges it
+  SPENDING_ALERT: async () => ({ status: 'COMPLETED', result: { acknowledged: true }, undo: [] }),
+};
+
+function rowToAction(row: any): ActionItem {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: JSON.parse(row.payload || '{}'),
+    requires_approval: !!row.requires_approval,
+    status: row.status,
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error,
+    executed_at: row.executed_at,
+    completed_at: row.completed_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function getActionRow(userId: string, actionId: string): any | null {
+  return getDb().prepare(`SELECT * FROM action_queue_item WHERE id = ? AND user_id = ?`).get(actionId, userId) ?? null;
+}
+
+/** Save a status change and tell the app about it */
+function settle(
+  userId: string,
+  actionId: string,
+  status: ActionStatus,
+  fields: { result?: Record<string, unknown>; undo?: UndoStep[]; error?: string | null; executed?: boolean } = {}
+): ActionItem {
+  const row = getActionRow(userId, actionId);
+  const finished = status === 'COMPLETED' || status === 'FAILED';
+  getDb().prepare(`
+    UPDATE action_queue_item SET status = ?, result = ?, undo = ?, error = ?,
+      executed_at = ?, completed_at = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(
+    status,
+    fields.result ? JSON.stringify(fields.result) : row.result,
+    fields.undo ? JSON.stringify(fields.undo) : row.undo,
+    fields.error !== undefined ? fields.error : row.error,
+    fields.executed ? new Date().toISOString() : row.executed_at,
+    finished ? new Date().toISOString() : row.completed_at,
+    actionId
+  );
+  const action = rowToAction(getActionRow(userId, actionId));
+  publishEvent(userId, 'action.updated', {
+    id: action.id, type: action.type, status: action.status, result: action.result, error: action.error,
+  });
+  return action;
+}
+
+/** The user's actions, newest first, optionally only those in `statuses` */
+export function listActions(userId: string, statuses: ActionStatus[] = []): ActionItem[] {
+  const filter = statuses.length > 0 ? `AND status IN (${statuses.map(() => '?').join(', ')})` : '';
+  const rows = getDb().prepare(`
+    SELECT * FROM action_queue_item WHERE user_id = ? ${filter} ORDER BY created_at DESC, rowid DESC
+  `).all(userId, ...statuses) as any[];
+  return rows.map(rowToAction);
+}
+
+export function getAction(userId: string, actionId: string): ActionItem | null {
+  const row = getActionRow(userId, actionId);
+  return row ? rowToAction(row) : null;
+}
+
+/**
+ * Approve an OPEN action and run it. The action is claimed (EXECUTING)
+ * before the executor runs, so a second approval of it gets an error rather
+ * than running it twice. An executor error leaves the action FAILED with the
+ * reason. Null if the action isn't the user's.
+ */
+export async function approveAction(
+  userId: string,
+  actionId: string,
+  cancellation: CancellationProvider | null,
+  now = new Date()
+): Promise<ActionResult | null> {
+  const row = getActionRow(userId, actionId);
+  if (!row) return null;
+  const { changes } = getDb().prepare(`
+    UPDATE action_queue_item SET status = 'EXECUTING', updated_at = datetime('now')
+    WHERE id = ? AND user_id = ? AND status = 'OPEN'
+  `).run(actionId, userId);
+  if (changes !== 1) return { error: `Action is ${getActionRow(userId, actionId).status}, not OPEN` };
+
+  try {
+    const ctx: ExecutionContext = { userId, today: userToday(userId, now), now, cancellation };
+    const execution = await EXECUTORS[row.type as ActionType](JSON.parse(row.payload || '{}'), ctx);
+    return { action: settle(userId, actionId, execution.status, { ...execution, executed: true }) };
+  } catch (err: any) {
+    return { action: settle(userId, actionId, 'FAILED', { error: err.message, executed: true }) };
+  }
+}
+
+/** How long an action may stay EXECUTING before the sweep gives up on it */
+const EXECUTION_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Fail actions left EXECUTING longer than the timeout, e.g. because the
+ * server stopped mid-run, so they don't stay stuck. Returns how many failed.
+ */
+export function failStaleExecutions(now = new Date(), timeoutMs = EXECUTION_TIMEOUT_MS): number {
+  const cutoff = new Date(now.getTime() - timeoutMs).toISOString();
+  const rows = getDb().prepare(`
+    SELECT id, user_id FROM action_queue_item WHERE status = 'EXECUTING' AND updated_at < datetime(?)
+  `).all(cutoff) as { id: string; user_id: string }[];
+  for (const row of rows) {
+    settle(row.user_id, row.id, 'FAILED', { error: 'Interrupted before it finished' });
+  }
+  return rows.length;
+}
+
+/** Dismiss an OPEN action without running it. Null if the action isn't the user's. */
+export function dismissAction(userId: string, actionId: string): ActionResult | null {
+  const row = getActionRow(userId, actionId);
+  if (!row) return null;
+  if (row.status !== 'OPEN') return { error: `Action is ${row.status}, not OPEN` };
+  return { action: settle(userId, actionId, 'DISMISSED') };
+}
+
+function revertStep(userId: string, step: UndoStep): void {
+  const db = getDb();
+  switch (step.kind) {
+    case 'delete_budget':
+      db.prepare(`DELETE FROM budget WHERE id = ? AND user_id = ?`).run(step.budget_id, userId);
+      break;
+    case 'restore_budget':
+      updateBudget(step.budget_id, { limit_amount: step.limit_amount, frequency: step.frequency });
+      break;
+    case 'cancel_goal':
+      db.prepare(`UPDATE goal SET status = 'CANCELLED', updated_at = datetime('now') WHERE id = ? AND user_id = ?`)
+        .run(step.goal_id, userId);
+      break;
+    case 'abandon_quest': {
+      const abandoned = abandonQuest(userId, step.quest_id);
+      if (abandoned?.error) throw new Error(abandoned.error);
+      break;
+    }
+    case 'keep_subscription': {
+      const kept = keepSubscription(userId, step.cancellation_id);
+      if (kept?.error) throw new Error(kept.error);
+      break;
+    }
+  }
+}
+
+/**
+ * Revert what an approved action did: delete or restore the budget, cancel
+ * the goal, abandon the quest, stop watching for a cancelled charge.
+ * Null if the action isn't the user's.
+ */
+export function undoAction(userId: string, actionId: string): ActionResult | null {
+  const row = getActionRow(userId, actionId);
+  if (!row) return null;
+  if (row.status !== 'APPROVED' && row.status !== 'COMPLETED') return { error: `Can't undo an action that is ${row.status}` };
+  const steps: UndoStep[] = JSON.parse(row.undo || '[]');
+  if (steps.length === 0) return { error: 'Nothing to undo' };
+  if (row.type === 'SUBSCRIPTION_REVIEW' && row.status === 'COMPLETED') {
+    return { error: 'The cancellation is already confirmed; resubscribe with the merchant instead' };
+  }
+
+  try {
+    getDb().transaction(() => {
+      for (const step of [...steps].reverse()) revertStep(userId, step);
+    })();
+  } catch (err: any) {
+    return { error: `Can't undo: ${err.message}` };
+  }
+  return { action: settle(userId, actionId, 'UNDONE') };
+}
+
+/**
+ * Bring subscription reviews up to date with their cancellations, after
+ * checking the cancellations being watched: a confirmed one completes the
+ * action, a still-charging one fails it, a kept one undoes it. Returns how
+ * many actions settled.
+ */
+export function verifySubscriptionCancellations(now = new Date()): number {
+  verifyCancellations(now);
+  const rows = getDb().prepare(`
+    SELECT * FROM action_queue_item WHERE type = 'SUBSCRIPTION_REVIEW' AND status = 'APPROVED'
+  `).all() as any[];
+  let settled = 0;
+
+  for (const row of rows) {
+    const result = JSON.parse(row.result || '{}');
+    const cancellation = result.cancellation_id ? getCancellation(row.user_id, result.cancellation_id) : null;
+    if (!cancellation || cancellation.status === 'CANCELLING') continue;
+
+    if (cancellation.status === 'CONFIRMED') {
+      settle(row.user_id, row.id, 'COMPLETED', {
+        result: { ...result, verification: 'CONFIRMED', monthly_savings: cancellation.monthly_amount },
+      });
+    } else if (cancellation.status === 'STILL_CHARGING') {
+      const charge = getTransactionById(row.user_id, cancellation.charge_transaction_id!);
+      settle(row.user_id, row.id, 'FAILED', {
+        result: { ...result, verification: 'STILL_CHARGING', charge_transaction_id: cancellation.charge_transaction_id },
+        error: charge ? `Still charging: $${Math.abs(charge.amount).toFixed(2)} on ${charge.date}` : 'Still charging',
+      });
+    } else {
+      settle(row.user_id, row.id, 'UNDONE');
+    }
+    settled++;
+  }
+  return settled;
+}
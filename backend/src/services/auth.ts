@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+
+export interface AuthUser {
+  user_id: string;
+  email: string;
+}
+
+export interface AuthSession {
+  token: string;
+  user_id: string;
+  email: string;
+  expires_at: string;
+}
+
+const SESSION_TTL_DAYS = 30;
+const MIN_PASSWORD_LENGTH = 8;
+const SCRYPT_KEYLEN = 64;
+
+const DEV_AUTH_SECRET = 'scotty-dev-secret';
+
+const isProduction = () => process.env.NODE_ENV === 'production';
+
+/**
+ * Refuse to run in production without AUTH_SECRET: the development
+ * fallback is in the repo, so anyone could sign session tokens with it.
+ */
+export function assertAuthConfigured(): void {
+  if (isProduction() && !process.env.AUTH_SECRET) {
+    throw new Error('AUTH_SECRET must be set when NODE_ENV is production');
+  }
+}
+
+function getAuthSecret(): string {
+  assertAuthConfigured();
+  return process.env.AUTH_SECRET || DEV_AUTH_SECRET;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Hash a password with scrypt and a per-password random salt.
+ * Stored format: scrypt$<salt hex>$<hash hex>
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function sign(sessionId: string): string {
+  return crypto.createHmac('sha256', getAuthSecret()).update(sessionId).digest('base64url');
+}
+
+export function validateCredentialsInput(body: any): { error?: string } {
+  if (!body.email || typeof body.email !== 'string') return { error: 'email required' };
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())) return { error: 'email is not valid' };
+  if (!body.password || typeof body.password !== 'string') return { error: 'password required' };
+  if (body.password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+  return {};
+}
+
+/**
+ * Register credentials for an existing user_profile (creating the profile if needed).
+ * Throws on duplicate email (UNIQUE constraint) — routes map that to 409.
+ */
+export function createCredential(userId: string, email: string, password: string): AuthUser {
+  const db = getDb();
+  const normalized = normalizeEmail(email);
+
+  db.transaction(() => {
+    db.prepare('INSERT OR IGNORE INTO user_profile (id) VALUES (?)').run(userId);
+    db.prepare(`
+      INSERT INTO user_credential (user_id, email, password_hash)
+      VALUES (?, ?, ?)
+    `).run(userId, normalized, hashPassword(password));
+  })();
+
+  return { user_id: userId, email: normalized };
+}
+
+/**
+ * Sign up a brand-new user and open a session for them.
+ */
+export function signUp(email: string, password: string): AuthSession {
+  const user = createCredential(uuid(), email, password);
+  return issueSession(user);
+}
+
+/**
+ * Returns a new session, or null when the email/password pair doesn't match.
+ */
+export function logIn(email: string, password: string): AuthSession | null {
+  const db = getDb();
+  const row = db.prepare(
+    'SELECT user_id, email, password_hash FROM user_credential WHERE email = ?'
+  ).get(normalizeEmail(email)) as any;
+
+  if (!row || !verifyPassword(password, row.password_hash)) return null;
+  return issueSession({ user_id: row.user_id, email: row.email });
+}
+
+export function issueSession(user: AuthUser): AuthSession {
+  const db = getDb();
+  const sessionId = uuid();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  db.prepare(`
+    INSERT INTO auth_session (id, user_id, expires_at) VALUES (?, ?, ?)
+  `).run(sessionId, user.user_id, expiresAt);
+
+  return {
+    token: `${sessionId}.${sign(sessionId)}`,
+    user_id: user.user_id,
+    email: user.email,
+    expires_at: expiresAt,
+  };
+}
+
+/**
+ * Resolve a bearer token to its user id. Returns null for malformed, forged,
+ * expired, or revoked tokens.
+ */
+export function verifyToken(token: string): string | null {
+  const [sessionId, signature] = token.split('.');
+  if (!sessionId || !signature) return null;
+
+  const expected = Buffer.from(sign(sessionId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  const db = getDb();
+  const session = db.prepare(
+    'SELECT user_id, expires_at, revoked_at FROM auth_session WHERE id = ?'
+  ).get(sessionId) as any;
+
+  if (!session || session.revoked_at) return null;
+  if (new Date(session.expires_at).getTime() <= Date.now()) return null;
+  return session.user_id;
+}
+
+export function revokeToken(token: string): void {
+  const [sessionId] = token.split('.');
+  if (!sessionId) return;
+  getDb().prepare(
+    `UPDATE auth_session SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL`
+  ).run(sessionId);
+}
+
+export function getAuthUser(userId: string): AuthUser | null {
+  const row = getDb().prepare(
+    'SELECT user_id, email FROM user_credential WHERE user_id = ?'
+  ).get(userId) as any;
+  return row ? { user_id: row.user_id, email: row.email } : null;
+}
+
+// ─── Demo account ───
+
+export const DEMO_USER_ID = 'user_1';
+export const DEMO_EMAIL = process.env.DEMO_EMAIL || 'demo@scotty.app';
+
+/**
+ * Give the seeded demo user a login so the app's demo mode can authenticate.
+ * Opt-in and development only: nothing happens unless DEMO_PASSWORD is set,
+ * and never in production.
+ */
+export function ensureDemoCredential(): void {
+  const password = process.env.DEMO_PASSWORD;
+  if (!password || isProduction() || getAuthUser(DEMO_USER_ID)) return;
+  createCredential(DEMO_USER_ID, DEMO_EMAIL, password);
+}
+
+/**
+ * The seed routes wipe and rebuild the demo user's data and the shared
+ * Nessie sandbox. Opt-in with ENABLE_SEED_ROUTES=true, and never in
+ * production.
+ */
+export function seedRoutesEnabled(): boolean {
+  return process.env.ENABLE_SEED_ROUTES === 'true' && !isProduction();
+}
@@ -0,0 +1,310 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { NotificationProvider } from '../adapters/types';
+import { projectBudget } from './budget';
+import { BudgetRow } from './budget-periods';
+import { categoryFamily } from './categories';
+import { getTransactionById } from './retrieval';
+import { getSplits, categoryAmount } from './splits';
+import { publishEvent } from './events';
+import { inQuietHours } from './quiet-hours';
+import { addDays, userToday } from './user-clock';
+
+// Budget alerts. After new transactions are ingested each budget's rules are
+// checked against its current period; an alert fires once per rule per
+// period (once per transaction for large charges), is stored for the app's
+// inbox, and is pushed through the NotificationProvider unless the user is
+// in quiet hours (held until they end) or out of notifications for the day.
+
+export type AlertRuleType = 'PERCENT_USED' | 'PROJECTED_OVERSPEND' | 'LARGE_TRANSACTION';
+export type AlertStatus = 'SENT' | 'HELD' | 'SKIPPED' | 'SUPERSEDED' | 'FAILED';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['PERCENT_USED', 'PROJECTED_OVERSPEND', 'LARGE_TRANSACTION'];
+
+export interface AlertRule {
+  type: AlertRuleType;
+  /** Percent used, day of the period, or dollars, depending on the type */
+  threshold: number;
+}
+
+/** What a budget checks until the user sets its own rules */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { type: 'PERCENT_USED', threshold: 80 },
+  { type: 'PERCENT_USED', threshold: 100 },
+];
+
+const MAX_RULES_PER_BUDGET = 10;
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  /** True when the budget has no rules of its own */
+  defaults: boolean;
+  muted: boolean;
+}
+
+export interface BudgetAlert {
+  id: string;
+  budget_id: string;
+  category: string;
+  type: AlertRuleType;
+  threshold: number;
+  period_start: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  status: AlertStatus;
+  sent_at: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface AlertCandidate {
+  rule: AlertRule;
+  dedupeKey: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  superseded?: boolean;
+}
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+
+function rowToAlert(row: any): BudgetAlert {
+  return { ...row, data: JSON.parse(row.data || '{}') };
+}
+
+function getAlert(alertId: string): BudgetAlert | null {
+  const row = getDb().prepare(`
+    SELECT a.*, b.category FROM budget_alert a JOIN budget b ON b.id = a.budget_id WHERE a.id = ?
+  `).get(alertId);
+  return row ? rowToAlert(row) : null;
+}
+
+export function validateAlertSettings(body: any): { error?: string } {
+  if (body?.muted !== undefined && typeof body.muted !== 'boolean') return { error: 'muted must be true or false' };
+  if (body?.rules === undefined) return {};
+  if (!Array.isArray(body.rules)) return { error: 'rules must be a list of { type, threshold }' };
+  if (body.rules.length > MAX_RULES_PER_BUDGET) return { error: `A budget can have at most ${MAX_RULES_PER_BUDGET} alert rules` };
+  for (const rule of body.rules) {
+    if (!ALERT_RULE_TYPES.includes(rule?.type)) return { error: `type must be one of ${ALERT_RULE_TYPES.join(', ')}` };
+    if (typeof rule.threshold !== 'number' || !(rule.threshold > 0)) return { error: 'threshold must be a positive number' };
+    if (rule.type === 'PERCENT_USED' && rule.threshold > 500) return { error: 'PERCENT_USED threshold must be at most 500' };
+    if (rule.type === 'PROJECTED_OVERSPEND' && (!Number.isInteger(rule.threshold) || rule.threshold > 31)) {
+      return { error: 'PROJECTED_OVERSPEND threshold is a day of the period from 1 to 31' };
+    }
+  }
+  return {};
+}
+
+function rulesFor(budgetId: string): AlertRule[] | null {
+  const rows = getDb().prepare(
+    `SELECT type, threshold FROM budget_alert_rule WHERE budget_id = ? ORDER BY type, threshold`
+  ).all(budgetId) as AlertRule[];
+  return rows.length > 0 ? rows : null;
+}
+
+/** A budget's alert rules and mute. Null if it isn't the user's. */
+export function getAlertSettings(userId: string, budgetId: string): AlertSettings | null {
+  const budget = getDb().prepare(`SELECT alerts_muted FROM budget WHERE id = ? AND user_id = ?`).get(budgetId, userId) as
+    | { alerts_muted: number }
+    | undefined;
+  if (!budget) return null;
+  const rules = rulesFor(budgetId);
+  return { rules: rules ?? DEFAULT_ALERT_RULES, defaults: !rules, muted: !!budget.alerts_muted };
+}
+
+/**
+ * Replace a budget's rules (an empty list goes back to the defaults) and/or
+ * mute it. Null if it isn't the user's.
+ */
+export function setAlertSettings(
+  userId: string,
+  budgetId: string,
+  settings: { rules?: AlertRule[]; muted?: boolean }
+): AlertSettings | null {
+  if (!getAlertSettings(userId, budgetId)) return null;
+  const db = getDb();
+  db.transaction(() => {
+    if (settings.rules) {
+      db.prepare(`DELETE FROM budget_alert_rule WHERE budget_id = ?`).run(budgetId);
+      const insert = db.prepare(`INSERT INTO budget_alert_rule (id, user_id, budget_id, type, threshold) VALUES (?, ?, ?, ?, ?)`);
+      for (const rule of settings.rules) insert.run(uuid(), userId, budgetId, rule.type, rule.threshold);
+    }
+    if (settings.muted !== undefined) {
+      db.prepare(`UPDATE budget SET alerts_muted = ?, updated_at = datetime('now') WHERE id = ?`).run(settings.muted ? 1 : 0, budgetId);
+    }
+  })();
+  return getAlertSettings(userId, budgetId);
+}
+
+/** The alerts a budget's rules call for right now */
+function alertCandidates(budget: BudgetRow, rules: AlertRule[], today: string, changedTxnIds: string[]): AlertCandidate[] {
+  const { projection, period, weightedDailyRate, daysElapsed, totalPeriodDays } = projectBudget(budget, today);
+  const limit = projection.budgetLimit;
+  const spent = projection.currentSpent;
+  const periodKey = `${budget.id}:${period.period_start}`;
+  const candidates: AlertCandidate[] = [];
+
+  // Only the highest threshold crossed is sent; the lower ones are marked so they don't fire later
+  const used = limit > 0 ? (spent / limit) * 100 : spent > 0 ? Infinity : 0;
+  const percentRules = rules.filter(r => r.type === 'PERCENT_USED').sort((a, b) => b.threshold - a.threshold);
+  for (const rule of percentRules.filter(r => used >= r.threshold)) {
+    candidates.push({
+      rule,
+      dedupeKey: `${periodKey}:PERCENT_USED:${rule.threshold}`,
+      title: rule.threshold >= 100
+        ? `You've gone over your ${budget.category} budget`
+        : `${Math.round(rule.threshold)}% of your ${budget.category} budget is used`,
+      body: `${money(spent)} of ${money(limit)} spent this period${Number.isFinite(used) ? ` (${Math.round(used)}%)` : ''}.`,
+      data: { spent, limit, percent_used: Number.isFinite(used) ? Math.round(used) : null },
+      superseded: candidates.length > 0,
+    });
+  }
+
+  // On the current pace, the day of the period spending passes the limit
+  if (spent < limit && weightedDailyRate > 0) {
+    const overDay = daysElapsed + Math.floor((limit - spent) / weightedDailyRate) + 1;
+    for (const rule of rules.filter(r => r.type === 'PROJECTED_OVERSPEND')) {
+      if (overDay > Math.min(rule.threshold, totalPeriodDays)) continue;
+      const overOn = addDays(period.period_start, overDay - 1);
+      candidates.push({
+        rule,
+        dedupeKey: `${periodKey}:PROJECTED_OVERSPEND:${rule.threshold}`,
+        title: `On track to go over your ${budget.category} budget`,
+        body: `At this pace you'll pass ${money(limit)} around ${overOn}, day ${overDay} of ${totalPeriodDays}.`,
+        data: { spent, limit, projected_over_on: overOn, projected_spend: projection.projectedSpend },
+      });
+    }
+  }
+
+  const largeRules = rules.filter(r => r.type === 'LARGE_TRANSACTION');
+  if (largeRules.length > 0 && changedTxnIds.length > 0) {
+    const family = categoryFamily(budget.user_id, budget.category);
+    for (const txnId of changedTxnIds) {
+      const txn = getTransactionById(budget.user_id, txnId);
+      if (!txn || txn.amount >= 0 || txn.transfer_group_id) continue;
+      const amount = Math.abs(categoryAmount({ ...txn, splits: getSplits(budget.user_id, txn.id) }, family));
+      // A pending charge and its posted version share the key, so the alert fires once
+      const chargeKey = txn.pending_transaction_id || txn.provider_txn_id || txn.id;
+      for (const rule of largeRules.filter(r => amount >= r.threshold)) {
+        candidates.push({
+          rule,
+          dedupeKey: `${budget.id}:LARGE_TRANSACTION:${rule.threshold}:${chargeKey}`,
+          title: `Large ${budget.category} charge: ${money(amount)}`,
+          body: `${txn.merchant_name || txn.name} charged ${money(amount)} on ${txn.date}.`,
+          data: { transaction_id: txn.id, amount },
+        });
+      }
+    }
+  }
+  return candidates;
+}
+
+/** Push a stored alert, or hold or skip it, and record what happened */
+async function deliverAlert(alert: BudgetAlert, userId: string, notification: NotificationProvider, now: Date): Promise<AlertStatus> {
+  let status: AlertStatus;
+  if (inQuietHours(userId, now)) {
+    status = 'HELD';
+  } else if (!(await notification.enforceDailyLimit(userId))) {
+    status = 'SKIPPED';
+  } else {
+    try {
+      await notification.schedule(userId, {
+        title: alert.title,
+        body: alert.body,
+        data: { type: 'budget_alert', alert_id: alert.id, budget_id: alert.budget_id },
+      });
+      status = 'SENT';
+    } catch (err: any) {
+      console.warn(`[BudgetAlerts] Sending alert ${alert.id} failed:`, err.message);
+      status = 'FAILED';
+    }
+  }
+  getDb().prepare(`UPDATE budget_alert SET status = ?, sent_at = ? WHERE id = ?`)
+    .run(status, status === 'SENT' ? now.toISOString() : null, alert.id);
+  return status;
+}
+
+/**
+ * Check every unmuted budget's rules and fire the alerts that are due.
+ * `changedTxnIds` are the transactions just ingested, for large-charge
+ * rules. Returns the new alerts (superseded ones aren't included).
+ */
+export async function checkBudgetAlerts(
+  userId: string,
+  notification: NotificationProvider,
+  changedTxnIds: string[] = [],
+  now = new Date()
+): Promise<BudgetAlert[]> {
+  const db = getDb();
+  const today = userToday(userId, now);
+  const budgets = db.prepare(
+    `SELECT * FROM budget WHERE user_id = ? AND alerts_muted = 0 ORDER BY category`
+  ).all(userId) as BudgetRow[];
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO budget_alert (id, user_id, budget_id, type, threshold, period_start, dedupe_key, title, body, data, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const fired: BudgetAlert[] = [];
+  for (const budget of budgets) {
+    const periodStart = projectBudget(budget, today).period.period_start;
+    for (const candidate of alertCandidates(budget, rulesFor(budget.id) ?? DEFAULT_ALERT_RULES, today, changedTxnIds)) {
+      const id = uuid();
+      const { changes } = insert.run(
+        id, userId, budget.id, candidate.rule.type, candidate.rule.threshold, periodStart, candidate.dedupeKey,
+        candidate.title, candidate.body, JSON.stringify(candidate.data), candidate.superseded ? 'SUPERSEDED' : 'HELD'
+      );
+      if (changes === 0 || candidate.superseded) continue;
+
+      const alert = getAlert(id)!;
+      alert.status = await deliverAlert(alert, userId, notification, now);
+      publishEvent(userId, 'budget.alert', {
+        id, budget_id: budget.id, category: budget.category, type: alert.type, title: alert.title, body: alert.body,
+      });
+      fired.push(getAlert(id)!);
+    }
+  }
+  return fired;
+}
+
+/** Send alerts held for quiet hours whose users' quiet hours have ended. Returns how many were sent. */
+export async function deliverHeldAlerts(notification: NotificationProvider, now = new Date()): Promise<number> {
+  const held = getDb().prepare(`
+    SELECT a.*, b.category FROM budget_alert a JOIN budget b ON b.id = a.budget_id
+    WHERE a.status = 'HELD' ORDER BY a.created_at
+  `).all() as any[];
+  let sent = 0;
+  for (const row of held) {
+    if (inQuietHours(row.user_id, now)) continue;
+    if (await deliverAlert(rowToAlert(row), row.user_id, notification, now) === 'SENT') sent++;
+  }
+  return sent;
+}
+
+/** The user's alert inbox, newest first */
+export function listBudgetAlerts(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): { alerts: BudgetAlert[]; unread_count: number } {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT a.*, b.category FROM budget_alert a JOIN budget b ON b.id = a.budget_id
+    WHERE a.user_id = ? AND a.status != 'SUPERSEDED' ${options.unreadOnly ? 'AND a.read_at IS NULL' : ''}
+    ORDER BY a.created_at DESC, a.rowid DESC LIMIT ?
+  `).all(userId, Math.min(options.limit || 50, 200)) as any[];
+  const unread = db.prepare(`
+    SELECT COUNT(*) as count FROM budget_alert WHERE user_id = ? AND status != 'SUPERSEDED' AND read_at IS NULL
+  `).get(userId) as { count: number };
+  return { alerts: rows.map(rowToAlert), unread_count: unread.count };
+}
+
+/** Mark one alert (or, without an id, all of them) read. Null if the alert isn't the user's. */
+export function markAlertsRead(userId: string, alertId?: string): number | null {
+  const db = getDb();
+  if (alertId && !db.prepare(`SELECT id FROM budget_alert WHERE id = ? AND user_id = ?`).get(alertId, userId)) return null;
+  return db.prepare(`
+    UPDATE budget_alert SET read_at = datetime('now')
+    WHERE user_id = ? AND read_at IS NULL ${alertId ? 'AND id = ?' : ''}
+  `).run(...(alertId ? [userId, alertId] : [userId])).changes;
+}
@@ -0,0 +1,330 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { categoryFamily } from './categories';
+import { getTransactions } from './ingestion';
+import { BudgetFrequency } from './budget';
+import { addDays, addMonths, daysBetween, startOfMonth, startOfWeek, userToday } from './user-clock';
+
+// Budget periods. Each budget runs in periods of its frequency, starting on
+// its anchor day. When a period ends its actuals are written to
+// budget_period, and what was left (or overspent) carries into the next one
+// according to the budget's rollover setting. Envelope budgets have no fixed
+// limit: they spend what was funded into them from income, and their whole
+// balance always carries.
+
+export type RolloverMode = 'none' | 'surplus' | 'all';
+
+export const ROLLOVER_MODES: RolloverMode[] = ['none', 'surplus', 'all'];
+
+/** The budget columns the period math reads */
+export interface BudgetRow {
+  id: string;
+  user_id: string;
+  category: string;
+  amount: number;
+  frequency: BudgetFrequency | null;
+  rollover: RolloverMode;
+  rollover_cap: number | null;
+  envelope: number;
+  anchor_day: number | null;
+  schedule_start: string | null;
+  created_at: string;
+}
+
+export interface PeriodBounds {
+  /** First day of the period (YYYY-MM-DD) */
+  start: string;
+  /** First day after the period */
+  end: string;
+  /** Length of the uncut period, for prorating a period cut short by a schedule change */
+  full_days: number;
+}
+
+export interface BudgetPeriodRecord {
+  id: string;
+  budget_id: string;
+  period_start: string;
+  period_end: string;
+  base_amount: number;
+  carried_in: number;
+  spent: number;
+  ending_balance: number;
+  closed_at: string;
+}
+
+export interface BudgetPeriodStatus {
+  budget_id: string;
+  category: string;
+  frequency: BudgetFrequency;
+  envelope: boolean;
+  rollover: RolloverMode;
+  period_start: string;
+  period_end: string;
+  /** The limit, or for an envelope what was funded this period */
+  base_amount: number;
+  carried_in: number;
+  spent: number;
+  available: number;
+}
+
+// A long-idle daily budget catches up over several calls instead of one slow one
+const MAX_PERIODS_PER_CLOSE = 400;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** The period of a budget's schedule that contains `date` */
+export function periodContaining(budget: BudgetRow, date: string): PeriodBounds {
+  let start: string;
+  let end: string;
+  switch (budget.frequency || 'Month') {
+    case 'Day':
+      start = date;
+      end = addDays(date, 1);
+      break;
+    case 'Week':
+      start = startOfWeek(date, budget.anchor_day ?? 0);
+      end = addDays(start, 7);
+      break;
+    default: {
+      const anchored = `${startOfMonth(date).slice(0, 8)}${String(budget.anchor_day ?? 1).padStart(2, '0')}`;
+      start = anchored > date ? addMonths(anchored, -1) : anchored;
+      end = addMonths(start, 1);
+    }
+  }
+  const full_days = daysBetween(start, end);
+  // The first period after a frequency or anchor change starts on the day of the change
+  if (budget.schedule_start && start < budget.schedule_start && date >= budget.schedule_start) {
+    start = budget.schedule_start;
+  }
+  return { start, end, full_days };
+}
+
+/** Spending in the budget's category and its subcategories between two dates (both included) */
+export function categorySpend(userId: string, category: string, start: string, end: string): number {
+  const family = categoryFamily(userId, category);
+  // transaction_line expands split transactions into their category parts
+  const row = getDb().prepare(`
+    SELECT COALESCE(SUM(ABS(amount)), 0) as total
+    FROM transaction_line
+    WHERE user_id = ? AND category_primary IN (${family.map(() => '?').join(', ')}) AND amount < 0 AND pending = 0
+      AND transfer_group_id IS NULL AND date >= ? AND date <= ?
+  `).get(userId, ...family, start, end) as { total: number };
+  return round2(row.total);
+}
+
+/** Net funding of an envelope from `start` up to (not including) `end` */
+function fundedBetween(budgetId: string, start: string, end: string): number {
+  const row = getDb().prepare(`
+    SELECT COALESCE(SUM(amount), 0) as total FROM budget_funding WHERE budget_id = ? AND date >= ? AND date < ?
+  `).get(budgetId, start, end) as { total: number };
+  return round2(row.total);
+}
+
+/** What the period has to spend before any carry: the (prorated) limit or the envelope's funding */
+function baseAmount(budget: BudgetRow, period: PeriodBounds): number {
+  if (budget.envelope) return fundedBetween(budget.id, period.start, period.end);
+  return round2(budget.amount * daysBetween(period.start, period.end) / period.full_days);
+}
+
+/** How much of a closed period's ending balance goes into the next one */
+export function carryOver(budget: Pick<BudgetRow, 'rollover' | 'rollover_cap' | 'envelope'>, endingBalance: number): number {
+  if (budget.envelope) return round2(endingBalance);
+  let carry = 0;
+  if (budget.rollover === 'surplus') carry = Math.max(0, endingBalance);
+  if (budget.rollover === 'all') carry = endingBalance;
+  if (budget.rollover_cap != null) {
+    carry = Math.max(-budget.rollover_cap, Math.min(budget.rollover_cap, carry));
+  }
+  return round2(carry);
+}
+
+function lastClosedPeriod(budgetId: string): BudgetPeriodRecord | null {
+  return (getDb().prepare(
+    `SELECT * FROM budget_period WHERE budget_id = ? ORDER BY period_start DESC LIMIT 1`
+  ).get(budgetId) as BudgetPeriodRecord | undefined) ?? null;
+}
+
+function recordPeriod(budget: BudgetRow, period: PeriodBounds, carriedIn: number, lastDay: string): BudgetPeriodRecord {
+  const base = baseAmount(budget, period);
+  const spent = categorySpend(budget.user_id, budget.category, period.start, lastDay);
+  const id = uuid();
+  getDb().prepare(`
+    INSERT INTO budget_period (id, budget_id, user_id, period_start, period_end, base_amount, carried_in, spent, ending_balance)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, budget.id, budget.user_id, period.start, period.end, base, carriedIn, spent, round2(base + carriedIn - spent));
+  return getDb().prepare(`SELECT * FROM budget_period WHERE id = ?`).get(id) as BudgetPeriodRecord;
+}
+
+/**
+ * Write the actuals of every period that ended before `today` and isn't
+ * recorded yet, oldest first, carrying each into the next.
+ */
+export function closeBudgetPeriods(budget: BudgetRow, today: string): number {
+  const last = lastClosedPeriod(budget.id);
+  let date = last ? last.period_end : (budget.schedule_start ?? budget.created_at.slice(0, 10));
+  let carried = last ? carryOver(budget, last.ending_balance) : 0;
+  let closed = 0;
+
+  while (closed < MAX_PERIODS_PER_CLOSE) {
+    const period = periodContaining(budget, date);
+    if (period.end > today) break;
+    const record = recordPeriod(budget, period, carried, addDays(period.end, -1));
+    carried = carryOver(budget, record.ending_balance);
+    date = period.end;
+    closed++;
+  }
+  return closed;
+}
+
+/**
+ * End the current period early, before a frequency or anchor change takes
+ * effect today. Days before today become a period of their own (its limit
+ * prorated) so their spending and carry aren't lost.
+ */
+export function closePeriodEarly(budget: BudgetRow, today: string): void {
+  closeBudgetPeriods(budget, today);
+  const current = periodContaining(budget, today);
+  if (current.start >= today) return;
+  const last = lastClosedPeriod(budget.id);
+  const carried = last ? carryOver(budget, last.ending_balance) : 0;
+  recordPeriod(budget, { ...current, end: today }, carried, addDays(today, -1));
+}
+
+/** Where a budget stands in the period containing `today`, closing any periods that ended first */
+export function currentPeriodStatus(budget: BudgetRow, today: string): BudgetPeriodStatus {
+  closeBudgetPeriods(budget, today);
+  const last = lastClosedPeriod(budget.id);
+  const period = periodContaining(budget, today);
+  const carried = last && last.period_end === period.start ? carryOver(budget, last.ending_balance) : 0;
+  const base = baseAmount(budget, period);
+  const spent = categorySpend(budget.user_id, budget.category, period.start, today);
+  return {
+    budget_id: budget.id,
+    category: budget.category,
+    frequency: budget.frequency || 'Month',
+    envelope: !!budget.envelope,
+    rollover: budget.rollover,
+    period_start: period.start,
+    period_end: period.end,
+    base_amount: base,
+    carried_in: carried,
+    spent,
+    available: round2(base + carried - spent),
+  };
+}
+
+function budgetRows(userId: string): BudgetRow[] {
+  return getDb().prepare(`SELECT * FROM budget WHERE user_id = ? ORDER BY category`).all(userId) as BudgetRow[];
+}
+
+function getBudgetRow(userId: string, budgetId: string): BudgetRow | null {
+  return (getDb().prepare(`SELECT * FROM budget WHERE id = ? AND user_id = ?`).get(budgetId, userId) as BudgetRow | undefined) ?? null;
+}
+
+/** Every budget's current period for the user */
+export function listBudgetStatus(userId: string, today = userToday(userId)): BudgetPeriodStatus[] {
+  return budgetRows(userId).map(b => currentPeriodStatus(b, today));
+}
+
+/** A budget's closed periods, newest first, for trend charts. Null if not found. */
+export function getBudgetHistory(userId: string, budgetId: string, limit = 12, today = userToday(userId)): BudgetPeriodRecord[] | null {
+  const budget = getBudgetRow(userId, budgetId);
+  if (!budget) return null;
+  closeBudgetPeriods(budget, today);
+  return getDb().prepare(
+    `SELECT * FROM budget_period WHERE budget_id = ? ORDER BY period_start DESC LIMIT ?`
+  ).all(budgetId, Math.min(Math.max(1, limit), 120)) as BudgetPeriodRecord[];
+}
+
+/**
+ * Income the user hasn't put into an envelope yet. Income counts from the
+ * start of the month envelopes were first funded in (this month if never).
+ */
+export function unassignedIncome(userId: string, today = userToday(userId)): number {
+  const db = getDb();
+  const first = db.prepare(`SELECT MIN(date) as date FROM budget_funding WHERE user_id = ?`).get(userId) as { date: string | null };
+  const since = startOfMonth(first.date && first.date < today ? first.date : today);
+  const income = getTransactions(userId, since, today, { excludeTransfers: true })
+    .filter(t => t.amount > 0)
+    .reduce((sum, t) => sum + t.amount, 0);
+  const funded = db.prepare(
+    `SELECT COALESCE(SUM(amount), 0) as total FROM budget_funding WHERE user_id = ? AND source = 'income'`
+  ).get(userId) as { total: number };
+  return round2(income - funded.total);
+}
+
+export interface FundingResult {
+  to_be_budgeted?: number;
+  budgets?: BudgetPeriodStatus[];
+  error?: string;
+}
+
+export function validateFundingInput(body: any): { error?: string } {
+  if (!Array.isArray(body?.allocations) || body.allocations.length === 0) {
+    return { error: 'allocations must be a non-empty list of { budget_id, amount }' };
+  }
+  for (const a of body.allocations) {
+    if (typeof a?.budget_id !== 'string') return { error: 'Each allocation needs a budget_id' };
+    if (typeof a.amount !== 'number' || !(a.amount > 0)) return { error: 'Each allocation amount must be a positive number' };
+  }
+  return {};
+}
+
+/**
+ * Put income into envelope budgets. Null if a budget isn't the user's; an
+ * error if one isn't an envelope or there isn't enough unassigned income.
+ */
+export function fundEnvelopes(
+  userId: string,
+  allocations: { budget_id: string; amount: number }[],
+  today = userToday(userId)
+): FundingResult | null {
+  const budgets = allocations.map(a => getBudgetRow(userId, a.budget_id));
+  if (budgets.some(b => !b)) return null;
+  const notEnvelope = budgets.find(b => !b!.envelope);
+  if (notEnvelope) return { error: `${notEnvelope.category} isn't an envelope budget` };
+
+  const total = round2(allocations.reduce((sum, a) => sum + a.amount, 0));
+  const available = unassignedIncome(userId, today);
+  if (total > available) return { error: `Only $${available.toFixed(2)} of income is left to budget` };
+
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO budget_funding (id, user_id, budget_id, amount, source, date) VALUES (?, ?, ?, ?, 'income', ?)
+  `);
+  db.transaction(() => {
+    for (const a of allocations) insert.run(uuid(), userId, a.budget_id, round2(a.amount), today);
+  })();
+  return { to_be_budgeted: round2(available - total), budgets: listBudgetStatus(userId, today) };
+}
+
+/**
+ * Move money from one envelope to another, up to what the source has
+ * available. Null if either budget isn't the user's.
+ */
+export function moveBetweenEnvelopes(
+  userId: string,
+  fromId: string,
+  toId: string,
+  amount: number,
+  today = userToday(userId)
+): FundingResult | null {
+  const from = getBudgetRow(userId, fromId);
+  const to = getBudgetRow(userId, toId);
+  if (!from || !to) return null;
+  if (from.id === to.id) return { error: 'Pick a different envelope to move money to' };
+  if (!from.envelope || !to.envelope) return { error: 'Money can only move between envelope budgets' };
+  const available = currentPeriodStatus(from, today).available;
+  if (amount > available) return { error: `${from.category} only has $${Math.max(0, available).toFixed(2)} available` };
+
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO budget_funding (id, user_id, budget_id, amount, source, counterpart_budget_id, date)
+    VALUES (?, ?, ?, ?, 'move', ?, ?)
+  `);
+  db.transaction(() => {
+    insert.run(uuid(), userId, from.id, -round2(amount), to.id, today);
+    insert.run(uuid(), userId, to.id, round2(amount), from.id, today);
+  })();
+  return { to_be_budgeted: unassignedIncome(userId, today), budgets: listBudgetStatus(userId, today) };
+}
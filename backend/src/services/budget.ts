@@ -1,5 +1,16 @@
 import { v4 as uuid } from 'uuid';
 import { getDb } from '../db/database';
+import { validateCategoryName } from './categories';
+import { addDays, daysBetween, daysInMonth, userToday } from './user-clock';
+import {
+  BudgetRow,
+  BudgetPeriodStatus,
+  RolloverMode,
+  ROLLOVER_MODES,
+  categorySpend,
+  closePeriodEarly,
+  currentPeriodStatus,
+} from './budget-periods';
 
 export type BudgetFrequency = 'Day' | 'Week' | 'Month';
 
@@ -10,102 +21,147 @@ export interface Budget {
   frequency: BudgetFrequency;
   limit_amount: number;
   derived_daily_limit: number;
+  rollover: RolloverMode;
+  /** Most that carries into the next period either way; null for no cap */
+  rollover_cap: number | null;
+  /** Spends what was funded from income instead of limit_amount */
+  envelope: boolean;
+  /** Day of the month (1-28) or week (0-6, 0 = Sunday) the period starts on; null for the 1st / Sunday */
+  anchor_day: number | null;
   created_at: string;
   updated_at: string;
 }
 
-// Supported categories (7 as referenced in project)
-const VALID_CATEGORIES = [
-  'Food & Drink', 'Groceries', 'Transportation', 'Entertainment',
-  'Shopping', 'Health', 'Subscription',
-];
+/** Settings beyond the limit and frequency */
+export interface BudgetOptions {
+  rollover?: RolloverMode;
+  rollover_cap?: number | null;
+  envelope?: boolean;
+  anchor_day?: number | null;
+}
 
 /**
  * Compute derived daily limit from frequency and limit_amount.
- * Uses actual days in current month for monthly budgets.
+ * Uses actual days in the reference month for monthly budgets; pass the
+ * user's local date (YYYY-MM-DD) so the month is theirs, not the server's.
  */
 export function computeDerivedDailyLimit(
   limitAmount: number,
   frequency: BudgetFrequency,
-  referenceDate?: Date
+  referenceDate?: Date | string
 ): number {
-  const ref = referenceDate || new Date();
+  const ref = typeof referenceDate === 'string'
+    ? referenceDate
+    : localDateOf(referenceDate || new Date());
   switch (frequency) {
     case 'Day':
       return Math.round(limitAmount * 100) / 100;
     case 'Week':
       return Math.round((limitAmount / 7) * 100) / 100;
-    case 'Month': {
-      // Use actual days in the current month
-      const year = ref.getFullYear();
-      const month = ref.getMonth();
-      const daysInMonth = new Date(year, month + 1, 0).getDate();
-      return Math.round((limitAmount / daysInMonth) * 100) / 100;
-    }
+    case 'Month':
+      return Math.round((limitAmount / daysInMonth(ref)) * 100) / 100;
     default:
       return Math.round((limitAmount / 30) * 100) / 100;
   }
 }
 
+/** YYYY-MM-DD of a Date's local (server) fields */
+function localDateOf(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
 export function validateBudgetInput(body: any): { error?: string } {
   if (!body.user_id) return { error: 'user_id required' };
   if (!body.category) return { error: 'category required' };
-  if (!VALID_CATEGORIES.includes(body.category)) {
-    return { error: `Invalid category. Must be one of: ${VALID_CATEGORIES.join(', ')}` };
-  }
+  const categoryCheck = validateCategoryName(body.user_id, body.category);
+  if (categoryCheck.error) return categoryCheck;
   if (typeof body.limit_amount !== 'number' || body.limit_amount <= 0) {
     return { error: 'limit_amount must be a positive number' };
   }
   if (body.frequency && !['Day', 'Week', 'Month'].includes(body.frequency)) {
     return { error: 'frequency must be Day, Week, or Month' };
   }
-  return {};
+  return validateBudgetOptions(body, body.frequency || 'Month');
 }
 
-export function listBudgets(userId: string): Budget[] {
-  const db = getDb();
-  const rows = db.prepare(
-    'SELECT * FROM budget WHERE user_id = ? ORDER BY category'
-  ).all(userId) as any[];
+/** Check rollover, envelope and anchor settings against the frequency the budget will have */
+export function validateBudgetOptions(body: any, frequency: BudgetFrequency): { error?: string } {
+  if (body.rollover !== undefined && !ROLLOVER_MODES.includes(body.rollover)) {
+    return { error: `rollover must be one of ${ROLLOVER_MODES.join(', ')}` };
+  }
+  if (body.rollover_cap != null && (typeof body.rollover_cap !== 'number' || body.rollover_cap < 0)) {
+    return { error: 'rollover_cap must be a non-negative number or null' };
+  }
+  if (body.envelope !== undefined && typeof body.envelope !== 'boolean') {
+    return { error: 'envelope must be true or false' };
+  }
+  if (body.anchor_day != null) {
+    const [min, max] = frequency === 'Month' ? [1, 28] : frequency === 'Week' ? [0, 6] : [NaN, NaN];
+    if (frequency === 'Day') return { error: 'Daily budgets have no anchor_day' };
+    if (!Number.isInteger(body.anchor_day) || body.anchor_day < min || body.anchor_day > max) {
+      return {
+        error: frequency === 'Month'
+          ? 'anchor_day must be a day of the month from 1 to 28'
+          : 'anchor_day must be a day of the week from 0 (Sunday) to 6',
+      };
+    }
+  }
+  return {};
+}
 
-  return rows.map(r => ({
+function rowToBudget(r: any): Budget {
+  return {
     id: r.id,
     user_id: r.user_id,
     category: r.category,
     frequency: (r.frequency || 'Month') as BudgetFrequency,
     limit_amount: r.amount,
-    derived_daily_limit: r.derived_daily_limit ?? computeDerivedDailyLimit(r.amount, r.frequency || 'Month'),
+    derived_daily_limit: r.derived_daily_limit ?? computeDerivedDailyLimit(r.amount, r.frequency || 'Month', userToday(r.user_id)),
+    rollover: r.rollover,
+    rollover_cap: r.rollover_cap,
+    envelope: !!r.envelope,
+    anchor_day: r.anchor_day,
     created_at: r.created_at,
     updated_at: r.updated_at,
-  }));
+  };
+}
+
+export function getBudget(budgetId: string): Budget | null {
+  const row = getDb().prepare('SELECT * FROM budget WHERE id = ?').get(budgetId);
+  return row ? rowToBudget(row) : null;
+}
+
+export function listBudgets(userId: string): Budget[] {
+  const db = getDb();
+  const rows = db.prepare(
+    'SELECT * FROM budget WHERE user_id = ? ORDER BY category'
+  ).all(userId) as any[];
+
+  return rows.map(rowToBudget);
 }
 
 export function createBudget(
   userId: string,
   category: string,
   limitAmount: number,
-  frequency: BudgetFrequency = 'Month'
+  frequency: BudgetFrequency = 'Month',
+  options: BudgetOptions = {}
 ): Budget {
   const db = getDb();
   const id = uuid();
-  const derivedDaily = computeDerivedDailyLimit(limitAmount, frequency);
+  const derivedDaily = computeDerivedDailyLimit(limitAmount, frequency, userToday(userId));
 
   db.prepare(`
-    INSERT INTO budget (id, user_id, category, amount, period, frequency, derived_daily_limit)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(id, userId, category, limitAmount, frequency.toLowerCase(), frequency, derivedDaily);
+    INSERT INTO budget (id, user_id, category, amount, period, frequency, derived_daily_limit,
+      rollover, rollover_cap, envelope, anchor_day)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, userId, category, limitAmount, frequency.toLowerCase(), frequency, derivedDaily,
+    options.rollover ?? 'none', options.rollover_cap ?? null, options.envelope ? 1 : 0, options.anchor_day ?? null
+  );
 
-  const row = db.prepare('SELECT * FROM budget WHERE id = ?').get(id) as any;
-  return {
-    id: row.id,
-    user_id: row.user_id,
-    category: row.category,
-    frequency,
-    limit_amount: row.amount,
-    derived_daily_limit: derivedDaily,
-    created_at: row.created_at,
-    updated_at: row.updated_at,
-  };
+  return getBudget(id)!;
 }
 
 export interface BudgetProjection {
@@ -128,90 +184,48 @@ export interface ProjectionsResult {
   };
 }
 
+/** A budget's projection plus the period math behind it */
+export interface BudgetProjectionDetail {
+  projection: BudgetProjection;
+  period: BudgetPeriodStatus;
+  weightedDailyRate: number;
+  /** Day of the period today is, counting from 1 */
+  daysElapsed: number;
+  totalPeriodDays: number;
+}
+
 /**
- * Compute AI-informed spending projections for each budget category.
+ * Project one budget's spending to the end of its current period.
  * Uses a weighted daily spend rate: 60% recent 7-day rate, 40% full-period rate.
+ * Periods are the user's local day, week and month from the budget's anchor,
+ * and the limit includes what rolled over from the last period.
  */
-export function computeProjections(userId: string): ProjectionsResult {
-  const db = getDb();
-  const now = new Date();
-  const today = now.toISOString().split('T')[0];
+export function projectBudget(row: BudgetRow, today: string): BudgetProjectionDetail {
+  // Current period spend, including subcategories (Groceries counts toward Food & Drink)
+  const status = currentPeriodStatus(row, today);
+  const limitAmount = Math.round((status.base_amount + status.carried_in) * 100) / 100;
+  const currentSpent = status.spent;
 
-  const budgetRows = db.prepare(
-    'SELECT * FROM budget WHERE user_id = ? ORDER BY category'
-  ).all(userId) as any[];
+  // Days elapsed (today included) and remaining in period
+  const daysElapsed = daysBetween(status.period_start, today) + 1;
+  const totalPeriodDays = daysBetween(status.period_start, status.period_end);
+  const daysRemaining = Math.max(0, totalPeriodDays - daysElapsed);
 
-  const projections: BudgetProjection[] = [];
-
-  for (const row of budgetRows) {
-    const frequency: BudgetFrequency = (row.frequency || 'Month') as BudgetFrequency;
-    const limitAmount: number = row.amount;
-
-    // Determine period boundaries
-    let periodStart: Date;
-    let periodEnd: Date;
-    if (frequency === 'Day') {
-      periodStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      periodEnd = new Date(periodStart.getTime() + 86400000);
-    } else if (frequency === 'Week') {
-      const dayOfWeek = now.getDay();
-      periodStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - dayOfWeek);
-      periodEnd = new Date(periodStart.getTime() + 7 * 86400000);
-    } else {
-      periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
-      periodEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    }
+  // Full-period daily rate
+  const dailyRatePeriod = currentSpent / daysElapsed;
 
-    const periodStartStr = periodStart.toISOString().split('T')[0];
-    const periodEndStr = periodEnd.toISOString().split('T')[0];
-
-    // Current period spend (group Groceries into Food & Drink)
-    const categoryClause = row.category === 'Food & Drink'
-      ? `AND category_primary IN ('Food & Drink', 'Groceries')`
-      : `AND category_primary = ?`;
-    const categoryParams = row.category === 'Food & Drink'
-      ? [userId, periodStartStr, today]
-      : [userId, row.category, periodStartStr, today];
-    const spendRow = db.prepare(`
-      SELECT COALESCE(SUM(ABS(amount)), 0) as total
-      FROM transaction_
-      WHERE user_id = ? ${categoryClause} AND amount < 0 AND pending = 0
-        AND date >= ? AND date <= ?
-    `).get(...categoryParams) as any;
-    const currentSpent = Math.round((spendRow?.total || 0) * 100) / 100;
-
-    // Days elapsed and remaining in period
-    const msPerDay = 86400000;
-    const daysElapsed = Math.max(1, Math.ceil((now.getTime() - periodStart.getTime()) / msPerDay));
-    const totalPeriodDays = Math.max(1, Math.ceil((periodEnd.getTime() - periodStart.getTime()) / msPerDay));
-    const daysRemaining = Math.max(0, totalPeriodDays - daysElapsed);
-
-    // Full-period daily rate
-    const dailyRatePeriod = currentSpent / daysElapsed;
-
-    // Recent 7-day rate
-    const d7 = new Date(now);
-    d7.setDate(d7.getDate() - 7);
-    const d7Str = d7.toISOString().split('T')[0];
-    const params7d = row.category === 'Food & Drink'
-      ? [userId, d7Str, today]
-      : [userId, row.category, d7Str, today];
-    const spend7dRow = db.prepare(`
-      SELECT COALESCE(SUM(ABS(amount)), 0) as total
-      FROM transaction_
-      WHERE user_id = ? ${categoryClause} AND amount < 0 AND pending = 0
-        AND date >= ? AND date <= ?
-    `).get(...params7d) as any;
-    const spend7d = spend7dRow?.total || 0;
-    const dailyRate7d = spend7d / 7;
-
-    // Weighted daily rate: 60% recent, 40% full period
-    const weightedDailyRate = dailyRate7d * 0.6 + dailyRatePeriod * 0.4;
-
-    const projectedSpend = Math.round((currentSpent + weightedDailyRate * daysRemaining) * 100) / 100;
-    const projectedPercent = limitAmount > 0 ? Math.round((projectedSpend / limitAmount) * 100) : 0;
-
-    projections.push({
+  // Recent 7-day rate
+  const spend7d = categorySpend(row.user_id, row.category, addDays(today, -7), today);
+  const dailyRate7d = spend7d / 7;
+
+  // Weighted daily rate: 60% recent, 40% full period
+  const weightedDailyRate = dailyRate7d * 0.6 + dailyRatePeriod * 0.4;
+
+  const projectedSpend = Math.round((currentSpent + weightedDailyRate * daysRemaining) * 100) / 100;
+  const projectedPercent = limitAmount > 0 ? Math.round((projectedSpend / limitAmount) * 100) : 0;
+
+  return {
+    projection: {
       category: row.category,
       currentSpent,
       budgetLimit: limitAmount,
@@ -220,13 +234,31 @@ export function computeProjections(userId: string): ProjectionsResult {
       overBudget: projectedPercent > 100,
       dailyRate7d: Math.round(dailyRate7d * 100) / 100,
       dailyRatePeriod: Math.round(dailyRatePeriod * 100) / 100,
-    });
-  }
+    },
+    period: status,
+    weightedDailyRate,
+    daysElapsed,
+    totalPeriodDays,
+  };
+}
+
+/**
+ * Compute AI-informed spending projections for each budget category.
+ */
+export function computeProjections(userId: string, now = new Date()): ProjectionsResult {
+  const db = getDb();
+  const today = userToday(userId, now);
+
+  const budgetRows = db.prepare(
+    'SELECT * FROM budget WHERE user_id = ? ORDER BY category'
+  ).all(userId) as BudgetRow[];
+
+  const projections = budgetRows.map(row => projectBudget(row, today).projection);
 
   // Daily summary: sum of all category daily projections vs total daily limit
   const totalDailySpent = projections.reduce((sum, p) => sum + p.dailyRate7d, 0);
   const totalDailyLimit = budgetRows.reduce((sum, row) => {
-    return sum + computeDerivedDailyLimit(row.amount, (row.frequency || 'Month') as BudgetFrequency);
+    return sum + computeDerivedDailyLimit(row.amount, (row.frequency || 'Month') as BudgetFrequency, today);
   }, 0);
   const projectedDailyPercent = totalDailyLimit > 0
     ? Math.round((totalDailySpent / totalDailyLimit) * 100)
@@ -242,9 +274,14 @@ export function computeProjections(userId: string): ProjectionsResult {
   };
 }
 
+/**
+ * Edit a budget. A new limit or rollover setting applies to the current
+ * period; a new frequency or anchor ends the current period today and the
+ * new schedule starts from today.
+ */
 export function updateBudget(
   budgetId: string,
-  updates: { limit_amount?: number; frequency?: BudgetFrequency; category?: string }
+  updates: { limit_amount?: number; frequency?: BudgetFrequency; category?: string } & BudgetOptions
 ): Budget | null {
   const db = getDb();
   const existing = db.prepare('SELECT * FROM budget WHERE id = ?').get(budgetId) as any;
@@ -253,22 +290,31 @@ export function updateBudget(
   const limitAmount = updates.limit_amount ?? existing.amount;
   const frequency = updates.frequency ?? (existing.frequency || 'Month') as BudgetFrequency;
   const category = updates.category ?? existing.category;
-  const derivedDaily = computeDerivedDailyLimit(limitAmount, frequency);
+  // A different frequency drops the old anchor unless a new one is given
+  const anchorDay = updates.anchor_day !== undefined
+    ? updates.anchor_day
+    : frequency === (existing.frequency || 'Month') ? existing.anchor_day : null;
+  const today = userToday(existing.user_id);
+  const derivedDaily = computeDerivedDailyLimit(limitAmount, frequency, today);
 
-  db.prepare(`
-    UPDATE budget SET category = ?, amount = ?, frequency = ?, derived_daily_limit = ?,
-    period = ?, updated_at = datetime('now')
-    WHERE id = ?
-  `).run(category, limitAmount, frequency, derivedDaily, frequency.toLowerCase(), budgetId);
+  const reschedule = frequency !== (existing.frequency || 'Month') || anchorDay !== existing.anchor_day;
+  db.transaction(() => {
+    if (reschedule) {
+      closePeriodEarly(existing, today);
+      db.prepare(`UPDATE budget SET schedule_start = ? WHERE id = ?`).run(today, budgetId);
+    }
+    db.prepare(`
+      UPDATE budget SET category = ?, amount = ?, frequency = ?, derived_daily_limit = ?,
+      period = ?, rollover = ?, rollover_cap = ?, envelope = ?, anchor_day = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).run(
+      category, limitAmount, frequency, derivedDaily, frequency.toLowerCase(),
+      updates.rollover ?? existing.rollover,
+      updates.rollover_cap !== undefined ? updates.rollover_cap : existing.rollover_cap,
+      updates.envelope !== undefined ? (updates.envelope ? 1 : 0) : existing.envelope,
+      anchorDay, budgetId
+    );
+  })();
 
-  return {
-    id: existing.id,
-    user_id: existing.user_id,
-    category,
-    frequency,
-    limit_amount: limitAmount,
-    derived_daily_limit: derivedDaily,
-    created_at: existing.created_at,
-    updated_at: new Date().toISOString(),
-  };
+  return getBudget(budgetId);
 }
@@ -0,0 +1,122 @@
+import { getDb } from '../db/database';
+import { ChainReward, ChainStepInput, QuestChain, createQuestChain, getQuestChain, validateQuestChainInput } from './quest-chains';
+import springBreakSaver from '../data/campaigns/spring-break-saver.json';
+import finalsWeek from '../data/campaigns/finals-week.json';
+import fallFreshStart from '../data/campaigns/fall-fresh-start.json';
+import { userToday } from './user-clock';
+
+// Seasonal campaigns are quest chains defined as data files in
+// src/data/campaigns. Each runs every year between `starts` and `ends`
+// (MM-DD; an end before the start wraps into the next year) and any user can
+// join while it is running.
+
+export interface CampaignDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  /** MM-DD */
+  starts: string;
+  /** MM-DD */
+  ends: string;
+  reward: ChainReward;
+  steps: ChainStepInput[];
+}
+
+export interface Campaign {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  /** The current run if one is going, otherwise the next one */
+  starts_on: string;
+  ends_on: string;
+  running: boolean;
+  total_steps: number;
+  reward: ChainReward;
+  /** The user's chain for this run, once joined */
+  chain_id: string | null;
+}
+
+const MONTH_DAY = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export function validateCampaignDefinition(def: any): { error?: string } {
+  if (!def || typeof def.id !== 'string' || !/^[a-z0-9-]+$/.test(def.id)) return { error: 'Campaign id must be a lowercase slug' };
+  if (!MONTH_DAY.test(def.starts) || !MONTH_DAY.test(def.ends)) {
+    return { error: `Campaign ${def.id}: starts and ends must be MM-DD` };
+  }
+  if (typeof def.icon !== 'string' || !def.icon) return { error: `Campaign ${def.id}: icon required` };
+  const chain = validateQuestChainInput(def);
+  if (chain.error) return { error: `Campaign ${def.id}: ${chain.error}` };
+  return {};
+}
+
+const DEFINITIONS = [springBreakSaver, finalsWeek, fallFreshStart] as CampaignDefinition[];
+
+for (const def of DEFINITIONS) {
+  const check = validateCampaignDefinition(def);
+  if (check.error) throw new Error(check.error);
+}
+
+/** The run of a campaign that contains `today`, or the next one. */
+function campaignRun(def: CampaignDefinition, today: string): { starts_on: string; ends_on: string } {
+  const year = Number(today.slice(0, 4));
+  for (const y of [year - 1, year, year + 1]) {
+    const startsOn = `${y}-${def.starts}`;
+    const endsOn = `${def.ends < def.starts ? y + 1 : y}-${def.ends}`;
+    if (endsOn >= today) return { starts_on: startsOn, ends_on: endsOn };
+  }
+  throw new Error(`No run found for campaign ${def.id}`);
+}
+
+function chainIdFor(userId: string, campaignId: string, endsOn: string): string | null {
+  const row = getDb().prepare(
+    `SELECT id FROM quest_chain WHERE user_id = ? AND campaign_id = ? AND ends_at = ?`
+  ).get(userId, campaignId, endsOn) as { id: string } | undefined;
+  return row?.id ?? null;
+}
+
+/** Every campaign with its current or next run, running ones first. */
+export function listCampaigns(userId: string, today = userToday(userId)): Campaign[] {
+  return DEFINITIONS
+    .map(def => {
+      const run = campaignRun(def, today);
+      return {
+        id: def.id,
+        title: def.title,
+        description: def.description,
+        icon: def.icon,
+        ...run,
+        running: run.starts_on <= today,
+        total_steps: def.steps.length,
+        reward: def.reward,
+        chain_id: chainIdFor(userId, def.id, run.ends_on),
+      };
+    })
+    .sort((a, b) => Number(b.running) - Number(a.running) || a.starts_on.localeCompare(b.starts_on));
+}
+
+/**
+ * Opt into a running campaign: creates the user's chain for this run.
+ * Returns null for an unknown campaign.
+ */
+export function joinCampaign(
+  userId: string,
+  campaignId: string,
+  today = userToday(userId)
+): { chain?: QuestChain; error?: string } | null {
+  const def = DEFINITIONS.find(d => d.id === campaignId);
+  if (!def) return null;
+
+  const run = campaignRun(def, today);
+  if (run.starts_on > today) return { error: `${def.title} starts on ${run.starts_on}` };
+  const existing = chainIdFor(userId, def.id, run.ends_on);
+  if (existing) return { error: `Already joined ${def.title}`, chain: getQuestChain(userId, existing)! };
+
+  const chain = createQuestChain(
+    userId,
+    { title: def.title, description: def.description, steps: def.steps, reward: def.reward },
+    { id: def.id, ends_at: run.ends_on }
+  );
+  return { chain };
+}
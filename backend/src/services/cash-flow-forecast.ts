@@ -0,0 +1,158 @@
+import { getDb } from '../db/database';
+import { listAccounts } from './accounts';
+import { detectIncomeStreams, expectedDepositDates } from './income-detection';
+import { getUpcomingSubscriptions, nextChargeDate } from './subscription-analysis';
+import { BudgetRow, currentPeriodStatus, periodContaining } from './budget-periods';
+import { addDays, daysBetween, userToday } from './user-clock';
+
+// Cash-flow forecast. Starting from what is in the user's checking and cash
+// accounts, each day adds the paychecks and other income streams expected
+// that day, takes away subscription charges due, and takes away an even
+// share of what is left in each budget for its period (then each later
+// period's full limit). Safe to spend is what today can take on top of the
+// budgets without the balance dipping below zero before the next paycheck.
+
+export const DEFAULT_FORECAST_DAYS = 30;
+export const MIN_FORECAST_DAYS = 7;
+export const MAX_FORECAST_DAYS = 60;
+
+const MIN_INCOME_CONFIDENCE = 0.5;
+
+export interface ForecastEntry {
+  kind: 'income' | 'bill';
+  name: string;
+  /** Positive for income, negative for a bill */
+  amount: number;
+}
+
+export interface ForecastDay {
+  date: string;
+  income: number;
+  bills: number;
+  /** Budgeted spending spread over the day */
+  budgeted: number;
+  /** Projected balance at the end of the day */
+  balance: number;
+  entries: ForecastEntry[];
+}
+
+export interface CashFlowForecast {
+  as_of: string;
+  /** Checking and cash balances; savings and credit cards aren't spent from day to day */
+  starting_balance: number;
+  /** False without a checking or cash account, so the forecast starts from $0 */
+  has_balance: boolean;
+  days: ForecastDay[];
+  next_income_date: string | null;
+  safe_to_spend_today: number;
+  lowest_balance: { date: string; balance: number };
+  /** Days projected to end below zero */
+  overdraft_dates: string[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function validateForecastDays(days: number): { error?: string } {
+  if (!Number.isInteger(days) || days < MIN_FORECAST_DAYS || days > MAX_FORECAST_DAYS) {
+    return { error: `days must be a whole number from ${MIN_FORECAST_DAYS} to ${MAX_FORECAST_DAYS}` };
+  }
+  return {};
+}
+
+/** Budgeted spending per date from `today` through `end` */
+function budgetedSpend(userId: string, today: string, end: string): Map<string, number> {
+  const perDate = new Map<string, number>();
+  const spread = (from: string, to: string, amount: number) => {
+    const days = daysBetween(from, to);
+    for (let d = from; d < to && d <= end; d = addDays(d, 1)) {
+      perDate.set(d, (perDate.get(d) ?? 0) + amount / days);
+    }
+  };
+
+  const budgets = getDb().prepare(`SELECT * FROM budget WHERE user_id = ?`).all(userId) as BudgetRow[];
+  for (const budget of budgets) {
+    const current = currentPeriodStatus(budget, today);
+    spread(today, current.period_end, Math.max(0, current.available));
+    for (let start = current.period_end; start <= end;) {
+      const period = periodContaining(budget, start);
+      spread(period.start, period.end, budget.amount);
+      start = period.end;
+    }
+  }
+  return perDate;
+}
+
+/** Income and bills per date from `today` through `end` */
+function scheduledEntries(userId: string, today: string, end: string): Map<string, ForecastEntry[]> {
+  const perDate = new Map<string, ForecastEntry[]>();
+  const add = (date: string, entry: ForecastEntry) => {
+    if (!perDate.has(date)) perDate.set(date, []);
+    perDate.get(date)!.push(entry);
+  };
+
+  const streams = detectIncomeStreams(userId, 120, new Date(`${today}T12:00:00Z`))
+    .filter(s => s.confidence >= MIN_INCOME_CONFIDENCE);
+  for (const stream of streams) {
+    for (const date of expectedDepositDates(stream, today, end)) {
+      add(date, { kind: 'income', name: stream.source, amount: stream.typical_amount });
+    }
+  }
+
+  for (const sub of getUpcomingSubscriptions(userId, daysBetween(today, end))) {
+    // A trial's paid price isn't known yet
+    if (sub.typical_amount <= 0) continue;
+    const name = (sub.source.merchant_name as string | undefined) || sub.merchant_key;
+    for (let date = sub.next_expected_date!; date <= end; date = nextChargeDate(date, sub.cadence)) {
+      add(date, { kind: 'bill', name, amount: -sub.typical_amount });
+      if (sub.cadence === 'unknown') break;
+    }
+  }
+  return perDate;
+}
+
+/** Project the user's balance over the next `days` days, today included */
+export function forecastCashFlow(userId: string, days = DEFAULT_FORECAST_DAYS, now = new Date()): CashFlowForecast {
+  const today = userToday(userId, now);
+  const end = addDays(today, days - 1);
+
+  const spendable = listAccounts(userId).filter(a => a.type === 'checking' || a.type === 'cash');
+  const startingBalance = round2(spendable.reduce((sum, a) => sum + a.current_balance, 0));
+  const budgeted = budgetedSpend(userId, today, end);
+  const scheduled = scheduledEntries(userId, today, end);
+
+  const forecast: ForecastDay[] = [];
+  let balance = startingBalance;
+  for (let date = today; date <= end; date = addDays(date, 1)) {
+    const entries = scheduled.get(date) ?? [];
+    const income = entries.filter(e => e.kind === 'income').reduce((sum, e) => sum + e.amount, 0);
+    const bills = -entries.filter(e => e.kind === 'bill').reduce((sum, e) => sum + e.amount, 0);
+    const spend = budgeted.get(date) ?? 0;
+    balance += income - bills - spend;
+    forecast.push({
+      date,
+      income: round2(income),
+      bills: round2(bills),
+      budgeted: round2(spend),
+      balance: round2(balance),
+      entries,
+    });
+  }
+
+  const nextIncome = forecast.find(d => d.date > today && d.income > 0)?.date ?? null;
+  // Through the day before the next paycheck, or the whole forecast without one
+  const untilPayday = forecast.filter(d => !nextIncome || d.date < nextIncome);
+  const low = Math.min(...untilPayday.map(d => d.balance));
+  const surplus = low > 0 ? low / untilPayday.length : low;
+  const lowest = forecast.reduce((min, d) => (d.balance < min.balance ? d : min), forecast[0]);
+
+  return {
+    as_of: today,
+    starting_balance: startingBalance,
+    has_balance: spendable.length > 0,
+    days: forecast,
+    next_income_date: nextIncome,
+    safe_to_spend_today: round2(Math.max(0, forecast[0].budgeted + surplus)),
+    lowest_balance: { date: lowest.date, balance: lowest.balance },
+    overdraft_dates: forecast.filter(d => d.balance < 0).map(d => d.date),
+  };
+}
@@ -0,0 +1,251 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+
+export interface Category {
+  id: string;
+  user_id: string;
+  name: string;
+  /** Top-level categories have no parent; only one level of nesting */
+  parent_id: string | null;
+  icon: string | null;
+  color: string | null;
+  /** Charges in this category are left out of spending totals */
+  exclude_from_spending: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CategoryInput = Partial<Pick<Category, 'name' | 'parent_id' | 'icon' | 'color' | 'exclude_from_spending'>>;
+
+const MAX_NAME_LENGTH = 40;
+const MAX_ICON_LENGTH = 8;
+const FALLBACK_CATEGORY = 'Other';
+
+function mapCategoryRow(row: any): Category {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    parent_id: row.parent_id,
+    icon: row.icon,
+    color: row.color,
+    exclude_from_spending: !!row.exclude_from_spending,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Validate a category body. With `partial` (updates) a name is not required.
+ */
+export function validateCategoryInput(body: any, partial = false): { error?: string } {
+  if (!body || typeof body !== 'object') return { error: 'Category body required' };
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name required' };
+    if (body.name.trim().length > MAX_NAME_LENGTH) return { error: `name is limited to ${MAX_NAME_LENGTH} characters` };
+  }
+  if (body.parent_id != null && typeof body.parent_id !== 'string') return { error: 'parent_id must be a string' };
+  if (body.icon != null && (typeof body.icon !== 'string' || body.icon.length > MAX_ICON_LENGTH)) {
+    return { error: `icon must be a string of at most ${MAX_ICON_LENGTH} characters` };
+  }
+  if (body.color != null && (typeof body.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(body.color))) {
+    return { error: 'color must be a hex color like #ff6b6b' };
+  }
+  if (body.exclude_from_spending !== undefined && typeof body.exclude_from_spending !== 'boolean') {
+    return { error: 'exclude_from_spending must be a boolean' };
+  }
+  return {};
+}
+
+/** Parents come before their children; otherwise in creation order. */
+export function listCategories(userId: string): Category[] {
+  const rows = getDb().prepare(`
+    SELECT c.* FROM category c
+    LEFT JOIN category p ON p.id = c.parent_id
+    WHERE c.user_id = ?
+    ORDER BY COALESCE(p.rowid, c.rowid), c.parent_id IS NOT NULL, c.rowid
+  `).all(userId) as any[];
+  return rows.map(mapCategoryRow);
+}
+
+export function getCategory(userId: string, categoryId: string): Category | null {
+  const row = getDb().prepare(
+    `SELECT * FROM category WHERE id = ? AND user_id = ?`
+  ).get(categoryId, userId) as any;
+  return row ? mapCategoryRow(row) : null;
+}
+
+export function findCategoryByName(userId: string, name: string): Category | null {
+  const row = getDb().prepare(
+    `SELECT * FROM category WHERE user_id = ? AND name = ?`
+  ).get(userId, name) as any;
+  return row ? mapCategoryRow(row) : null;
+}
+
+/**
+ * Check that a category name (from a budget, split, rule or quest) is one of
+ * the user's categories.
+ */
+export function validateCategoryName(userId: string, name: unknown): { error?: string } {
+  if (typeof name !== 'string' || !name) return { error: 'category required' };
+  if (findCategoryByName(userId, name)) return {};
+  const names = listCategories(userId).map(c => c.name);
+  return { error: `Invalid category "${name}". Must be one of: ${names.join(', ')}` };
+}
+
+/**
+ * A category and its subcategories, for totals that roll up (a Food & Drink
+ * budget counts Groceries). Unknown names are returned on their own.
+ */
+export function categoryFamily(userId: string, name: string): string[] {
+  const rows = getDb().prepare(`
+    SELECT c.name FROM category c
+    JOIN category p ON p.id = c.parent_id
+    WHERE p.user_id = ? AND p.name = ?
+    ORDER BY c.rowid
+  `).all(userId, name) as { name: string }[];
+  return [name, ...rows.map(r => r.name)];
+}
+
+export function excludedCategoryNames(userId: string): string[] {
+  const rows = getDb().prepare(
+    `SELECT name FROM category WHERE user_id = ? AND exclude_from_spending = 1 ORDER BY rowid`
+  ).all(userId) as { name: string }[];
+  return rows.map(r => r.name);
+}
+
+/** A parent must be one of the user's top-level categories other than the category itself. */
+function checkParent(userId: string, parentId: string, categoryId?: string): { error?: string } {
+  const parent = getCategory(userId, parentId);
+  if (!parent) return { error: 'Parent category not found' };
+  if (parent.id === categoryId) return { error: 'A category cannot be its own parent' };
+  if (parent.parent_id) return { error: 'Subcategories cannot have subcategories of their own' };
+  if (categoryId) {
+    const children = getDb().prepare(
+      `SELECT COUNT(*) as n FROM category WHERE parent_id = ?`
+    ).get(categoryId) as { n: number };
+    if (children.n > 0) return { error: 'A category with subcategories cannot become a subcategory' };
+  }
+  return {};
+}
+
+function nameTaken(userId: string, name: string, exceptId?: string): boolean {
+  const row = getDb().prepare(
+    `SELECT id FROM category WHERE user_id = ? AND name = ? COLLATE NOCASE`
+  ).get(userId, name) as { id: string } | undefined;
+  return !!row && row.id !== exceptId;
+}
+
+/**
+ * Create a category. Returns an error when the name is taken or the parent
+ * isn't a valid top-level category.
+ */
+export function createCategory(userId: string, input: CategoryInput): { category?: Category; error?: string } {
+  const name = input.name!.trim();
+  if (nameTaken(userId, name)) return { error: `A category named "${name}" already exists` };
+  if (input.parent_id) {
+    const parentCheck = checkParent(userId, input.parent_id);
+    if (parentCheck.error) return parentCheck;
+  }
+
+  const id = uuid();
+  getDb().prepare(`
+    INSERT INTO category (id, user_id, name, parent_id, icon, color, exclude_from_spending)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, userId, name, input.parent_id ?? null, input.icon ?? null, input.color ?? null,
+    input.exclude_from_spending ? 1 : 0
+  );
+  return { category: getCategory(userId, id)! };
+}
+
+/** Point everything filed under one category name at another. */
+function moveCategoryReferences(userId: string, from: string, to: string): void {
+  const db = getDb();
+  db.prepare(`UPDATE transaction_ SET category_primary = ? WHERE user_id = ? AND category_primary = ?`).run(to, userId, from);
+  db.prepare(`UPDATE transaction_split SET category = ? WHERE user_id = ? AND category = ?`).run(to, userId, from);
+  db.prepare(`UPDATE categorization_rule SET set_category = ?, updated_at = datetime('now') WHERE user_id = ? AND set_category = ?`)
+    .run(to, userId, from);
+  db.prepare(`
+    UPDATE quest SET metric_params = json_set(metric_params, '$.category', ?)
+    WHERE user_id = ? AND json_extract(metric_params, '$.category') = ?
+  `).run(to, userId, from);
+
+  // Budgets are unique per category: keep the target's own budget if it has one
+  const targetBudget = db.prepare(`SELECT id FROM budget WHERE user_id = ? AND category = ?`).get(userId, to);
+  if (targetBudget) {
+    db.prepare(`DELETE FROM budget WHERE user_id = ? AND category = ?`).run(userId, from);
+  } else {
+    db.prepare(`UPDATE budget SET category = ?, updated_at = datetime('now') WHERE user_id = ? AND category = ?`).run(to, userId, from);
+  }
+}
+
+/**
+ * Update a category. A rename carries over to the transactions, splits,
+ * budgets, rules and quests that use the old name. Returns null when it isn't
+ * the user's.
+ */
+export function updateCategory(
+  userId: string,
+  categoryId: string,
+  updates: CategoryInput
+): { category?: Category; error?: string } | null {
+  const existing = getCategory(userId, categoryId);
+  if (!existing) return null;
+
+  const name = updates.name !== undefined ? updates.name.trim() : existing.name;
+  if (name !== existing.name && nameTaken(userId, name, categoryId)) {
+    return { error: `A category named "${name}" already exists` };
+  }
+  const parentId = updates.parent_id !== undefined ? updates.parent_id : existing.parent_id;
+  if (parentId && parentId !== existing.parent_id) {
+    const parentCheck = checkParent(userId, parentId, categoryId);
+    if (parentCheck.error) return parentCheck;
+  }
+
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE category SET name = ?, parent_id = ?, icon = ?, color = ?, exclude_from_spending = ?,
+        updated_at = datetime('now')
+      WHERE id = ?
+    `).run(
+      name, parentId ?? null,
+      updates.icon !== undefined ? updates.icon : existing.icon,
+      updates.color !== undefined ? updates.color : existing.color,
+      (updates.exclude_from_spending ?? existing.exclude_from_spending) ? 1 : 0,
+      categoryId
+    );
+    if (name !== existing.name) moveCategoryReferences(userId, existing.name, name);
+  })();
+
+  return { category: getCategory(userId, categoryId)! };
+}
+
+/**
+ * Delete a category, moving what was filed under it to `reassignTo` (by
+ * default its parent, or Other). Subcategories become top-level. Returns null
+ * when it isn't the user's.
+ */
+export function deleteCategory(
+  userId: string,
+  categoryId: string,
+  reassignTo?: string
+): { reassignedTo?: string; error?: string } | null {
+  const existing = getCategory(userId, categoryId);
+  if (!existing) return null;
+
+  const parent = existing.parent_id ? getCategory(userId, existing.parent_id) : null;
+  const targetName = reassignTo ?? parent?.name ?? FALLBACK_CATEGORY;
+  const target = findCategoryByName(userId, targetName);
+  if (!target) return { error: `Category "${targetName}" not found` };
+  if (target.id === existing.id) return { error: 'Choose another category to move its transactions to' };
+
+  const db = getDb();
+  db.transaction(() => {
+    moveCategoryReferences(userId, existing.name, target.name);
+    db.prepare(`DELETE FROM category WHERE id = ?`).run(categoryId);
+  })();
+  return { reassignedTo: target.name };
+}
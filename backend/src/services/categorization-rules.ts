@@ -0,0 +1,342 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { Transaction } from '../schemas';
+import { normalizeMerchantKey } from './merchant-key';
+import { normalizeTag, validateTag } from './tags';
+
+export interface CategorizationRule {
+  id: string;
+  user_id: string;
+  name: string | null;
+  /** Lower runs first; the first rule to set a field wins */
+  priority: number;
+  enabled: boolean;
+  match_merchant_key: string | null;
+  match_name_regex: string | null;
+  /** Bounds on the absolute amount */
+  match_amount_min: number | null;
+  match_amount_max: number | null;
+  match_account_id: string | null;
+  set_category: string | null;
+  set_merchant_name: string | null;
+  add_tag: string | null;
+  mark_transfer: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RuleInput = Partial<Omit<CategorizationRule, 'id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+export interface RuleOutcome {
+  transaction: Transaction;
+  markTransfer: boolean;
+  matchedRuleIds: string[];
+}
+
+export interface ReapplyResult {
+  matched: number;
+  updated: number;
+  /** Dates of updated transactions, for quest re-evaluation */
+  changedDates: string[];
+}
+
+const PREDICATE_FIELDS = ['match_merchant_key', 'match_name_regex', 'match_amount_min', 'match_amount_max', 'match_account_id'] as const;
+const ACTION_FIELDS = ['set_category', 'set_merchant_name', 'add_tag', 'mark_transfer'] as const;
+const MAX_REGEX_LENGTH = 200;
+
+function mapRuleRow(row: any): CategorizationRule {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    name: row.name,
+    priority: row.priority,
+    enabled: !!row.enabled,
+    match_merchant_key: row.match_merchant_key,
+    match_name_regex: row.match_name_regex,
+    match_amount_min: row.match_amount_min,
+    match_amount_max: row.match_amount_max,
+    match_account_id: row.match_account_id,
+    set_category: row.set_category,
+    set_merchant_name: row.set_merchant_name,
+    add_tag: row.add_tag,
+    mark_transfer: !!row.mark_transfer,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function isSet(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && value !== false;
+}
+
+/**
+ * Validate a rule body. With `partial` (updates) only the fields present are
+ * checked; the merged rule is re-checked for a predicate and an action.
+ */
+export function validateRuleInput(body: any, partial = false): { error?: string } {
+  if (!body || typeof body !== 'object') return { error: 'Rule body required' };
+
+  for (const field of ['name', 'match_merchant_key', 'match_name_regex', 'match_account_id', 'set_category', 'set_merchant_name', 'add_tag']) {
+    if (body[field] != null && typeof body[field] !== 'string') return { error: `${field} must be a string` };
+  }
+  for (const field of ['match_amount_min', 'match_amount_max']) {
+    if (body[field] != null && (typeof body[field] !== 'number' || !Number.isFinite(body[field]) || body[field] < 0)) {
+      return { error: `${field} must be a non-negative number` };
+    }
+  }
+  if (body.match_amount_min != null && body.match_amount_max != null && body.match_amount_min > body.match_amount_max) {
+    return { error: 'match_amount_min must not exceed match_amount_max' };
+  }
+  if (body.match_name_regex != null) {
+    if (body.match_name_regex.length > MAX_REGEX_LENGTH) return { error: `match_name_regex is limited to ${MAX_REGEX_LENGTH} characters` };
+    try {
+      new RegExp(body.match_name_regex, 'i');
+    } catch {
+      return { error: 'match_name_regex is not a valid regular expression' };
+    }
+  }
+  if (body.add_tag != null) {
+    const tagCheck = validateTag(body.add_tag);
+    if (tagCheck.error) return { error: `add_tag: ${tagCheck.error}` };
+  }
+  if (body.priority !== undefined && !Number.isInteger(body.priority)) return { error: 'priority must be an integer' };
+  for (const field of ['enabled', 'mark_transfer']) {
+    if (body[field] !== undefined && typeof body[field] !== 'boolean') return { error: `${field} must be a boolean` };
+  }
+
+  if (!partial) {
+    if (!PREDICATE_FIELDS.some(f => isSet(body[f]))) {
+      return { error: 'A rule needs at least one condition (merchant, name pattern, amount range or account)' };
+    }
+    if (!ACTION_FIELDS.some(f => isSet(body[f]))) {
+      return { error: 'A rule needs at least one action (category, merchant name, tag or transfer)' };
+    }
+  }
+  return {};
+}
+
+export function listRules(userId: string): CategorizationRule[] {
+  const rows = getDb().prepare(
+    `SELECT * FROM categorization_rule WHERE user_id = ? ORDER BY priority, created_at, rowid`
+  ).all(userId) as any[];
+  return rows.map(mapRuleRow);
+}
+
+export function loadActiveRules(userId: string): CategorizationRule[] {
+  return listRules(userId).filter(r => r.enabled);
+}
+
+export function getRule(userId: string, ruleId: string): CategorizationRule | null {
+  const row = getDb().prepare(
+    `SELECT * FROM categorization_rule WHERE id = ? AND user_id = ?`
+  ).get(ruleId, userId) as any;
+  return row ? mapRuleRow(row) : null;
+}
+
+export function createRule(userId: string, input: RuleInput): CategorizationRule {
+  const id = uuid();
+  getDb().prepare(`
+    INSERT INTO categorization_rule
+      (id, user_id, name, priority, enabled, match_merchant_key, match_name_regex, match_amount_min, match_amount_max,
+       match_account_id, set_category, set_merchant_name, add_tag, mark_transfer)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, userId, input.name ?? null, input.priority ?? 100, input.enabled === false ? 0 : 1,
+    input.match_merchant_key ? normalizeMerchantKey(input.match_merchant_key, '') : null,
+    input.match_name_regex ?? null, input.match_amount_min ?? null, input.match_amount_max ?? null,
+    input.match_account_id ?? null, input.set_category ?? null, input.set_merchant_name ?? null,
+    input.add_tag ? normalizeTag(input.add_tag) : null, input.mark_transfer ? 1 : 0
+  );
+  return getRule(userId, id)!;
+}
+
+/**
+ * Update a rule. Returns null when it isn't the user's, or an error when the
+ * result would have no condition or no action left.
+ */
+export function updateRule(
+  userId: string,
+  ruleId: string,
+  updates: RuleInput
+): { rule?: CategorizationRule; error?: string } | null {
+  const existing = getRule(userId, ruleId);
+  if (!existing) return null;
+
+  const merged = { ...existing, ...updates };
+  const validation = validateRuleInput(merged);
+  if (validation.error) return { error: validation.error };
+
+  getDb().prepare(`
+    UPDATE categorization_rule SET
+      name = ?, priority = ?, enabled = ?, match_merchant_key = ?, match_name_regex = ?, match_amount_min = ?,
+      match_amount_max = ?, match_account_id = ?, set_category = ?, set_merchant_name = ?, add_tag = ?,
+      mark_transfer = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(
+    merged.name, merged.priority, merged.enabled ? 1 : 0,
+    merged.match_merchant_key ? normalizeMerchantKey(merged.match_merchant_key, '') : null,
+    merged.match_name_regex, merged.match_amount_min, merged.match_amount_max, merged.match_account_id,
+    merged.set_category, merged.set_merchant_name,
+    merged.add_tag ? normalizeTag(merged.add_tag) : null, merged.mark_transfer ? 1 : 0, ruleId
+  );
+  return { rule: getRule(userId, ruleId)! };
+}
+
+export function deleteRule(userId: string, ruleId: string): boolean {
+  const result = getDb().prepare(
+    `DELETE FROM categorization_rule WHERE id = ? AND user_id = ?`
+  ).run(ruleId, userId);
+  return result.changes > 0;
+}
+
+function ruleMatches(rule: CategorizationRule, txn: Transaction, merchantKey: string): boolean {
+  const amount = Math.abs(txn.amount);
+  if (rule.match_merchant_key && rule.match_merchant_key !== merchantKey) return false;
+  if (rule.match_name_regex) {
+    const pattern = new RegExp(rule.match_name_regex, 'i');
+    if (!pattern.test(txn.name) && !pattern.test(txn.merchant_name || '')) return false;
+  }
+  if (rule.match_amount_min != null && amount < rule.match_amount_min) return false;
+  if (rule.match_amount_max != null && amount > rule.match_amount_max) return false;
+  if (rule.match_account_id && rule.match_account_id !== txn.account_id) return false;
+  return true;
+}
+
+/**
+ * Run rules (already sorted by priority) over one transaction. Conditions see
+ * the transaction as the provider sent it. The first matching rule to set a
+ * category or merchant name wins; tags accumulate. A category the user picked
+ * by hand (metadata.category_source = 'user') is never overridden.
+ */
+export function applyRules(txn: Transaction, rules: CategorizationRule[]): RuleOutcome {
+  const merchantKey = normalizeMerchantKey(txn.merchant_name, txn.name);
+  const metadata: Record<string, unknown> = { ...(txn.metadata || {}) };
+  const result: Transaction = { ...txn, metadata };
+  const matchedRuleIds: string[] = [];
+  let categorySet = metadata.category_source === 'user';
+  let merchantSet = false;
+  let markTransfer = false;
+
+  for (const rule of rules) {
+    if (!ruleMatches(rule, txn, merchantKey)) continue;
+    matchedRuleIds.push(rule.id);
+
+    if (rule.set_category && !categorySet) {
+      result.category_primary = rule.set_category;
+      categorySet = true;
+    }
+    if (rule.set_merchant_name && !merchantSet) {
+      result.merchant_name = rule.set_merchant_name;
+      merchantSet = true;
+    }
+    if (rule.add_tag) {
+      const tags = Array.isArray(metadata.tags) ? (metadata.tags as string[]) : [];
+      if (!tags.includes(rule.add_tag)) metadata.tags = [...tags, rule.add_tag];
+    }
+    if (rule.mark_transfer) markTransfer = true;
+  }
+
+  return { transaction: result, markTransfer, matchedRuleIds };
+}
+
+function rowToTransaction(row: any): Transaction {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    provider: row.provider,
+    provider_txn_id: row.provider_txn_id,
+    date: row.date,
+    amount: row.amount,
+    currency: row.currency,
+    name: row.name,
+    merchant_name: row.merchant_name,
+    category_primary: row.category_primary,
+    category_detailed: row.category_detailed,
+    pending: !!row.pending,
+    pending_transaction_id: row.pending_transaction_id,
+    metadata: JSON.parse(row.metadata || '{}'),
+    account_id: row.account_id ?? null,
+  };
+}
+
+/**
+ * Re-run the user's enabled rules (or just one rule) over every stored
+ * transaction. Only fields a matching rule sets are touched; deleting a rule
+ * doesn't undo what it already changed.
+ */
+export function reapplyRules(userId: string, ruleId?: string): ReapplyResult {
+  const db = getDb();
+  const rules = ruleId
+    ? [getRule(userId, ruleId)].filter((r): r is CategorizationRule => !!r)
+    : loadActiveRules(userId);
+  const result: ReapplyResult = { matched: 0, updated: 0, changedDates: [] };
+  if (rules.length === 0) return result;
+
+  const rows = db.prepare(`SELECT * FROM transaction_ WHERE user_id = ?`).all(userId) as any[];
+  const update = db.prepare(`
+    UPDATE transaction_ SET category_primary = ?, merchant_name = ?, merchant_key = ?, metadata = ?,
+      transfer_group_id = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  const dates = new Set<string>();
+
+  db.transaction(() => {
+    for (const row of rows) {
+      const outcome = applyRules(rowToTransaction(row), rules);
+      if (outcome.matchedRuleIds.length === 0) continue;
+      result.matched++;
+
+      const txn = outcome.transaction;
+      const metadata = JSON.stringify(txn.metadata);
+      const transferGroupId = outcome.markTransfer && !row.transfer_group_id ? uuid() : row.transfer_group_id;
+      if (
+        txn.category_primary === row.category_primary &&
+        txn.merchant_name === row.merchant_name &&
+        metadata === (row.metadata || '{}') &&
+        transferGroupId === row.transfer_group_id
+      ) {
+        continue;
+      }
+
+      update.run(
+        txn.category_primary, txn.merchant_name, normalizeMerchantKey(txn.merchant_name, txn.name),
+        metadata, transferGroupId, row.id
+      );
+      result.updated++;
+      dates.add(row.date);
+    }
+  })();
+
+  result.changedDates = [...dates].sort();
+  return result;
+}
+
+/**
+ * Manually set a transaction's category. The choice is marked as the user's
+ * so later rules and provider updates leave it alone. Returns the suggested
+ * rule for the merchant so the app can offer to apply it to future charges.
+ */
+export function recategorizeTransaction(
+  userId: string,
+  transactionId: string,
+  category: string
+): { transaction: Transaction; suggestedRule: RuleInput } | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM transaction_ WHERE id = ? AND user_id = ?`).get(transactionId, userId) as any;
+  if (!row) return null;
+
+  const metadata = { ...JSON.parse(row.metadata || '{}'), category_source: 'user' };
+  db.prepare(`
+    UPDATE transaction_ SET category_primary = ?, metadata = ?, updated_at = datetime('now') WHERE id = ?
+  `).run(category, JSON.stringify(metadata), transactionId);
+
+  const merchant = row.merchant_name || row.name;
+  return {
+    transaction: { ...rowToTransaction(row), category_primary: category, metadata },
+    suggestedRule: {
+      name: `${merchant} → ${category}`,
+      match_merchant_key: row.merchant_key || normalizeMerchantKey(row.merchant_name, row.name),
+      set_category: category,
+    },
+  };
+}
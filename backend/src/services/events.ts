@@ -0,0 +1,172 @@
+import { EventEmitter } from 'events';
+import { getDb } from '../db/database';
+
+// Live updates for the app. Services publish typed events per user; the
+// GET /v1/events stream (server-sent events) forwards them to every
+// connection the user has open. The last few events per user are kept so a
+// client that reconnects with Last-Event-ID catches up on what it missed.
+// Events are only a nudge to the client's state: the REST endpoints stay the
+// source of truth, and nothing is persisted across restarts.
+
+export interface EventPayloads {
+  'transaction.ingested': {
+    inserted: number;
+    modified: number;
+    removed: number;
+    /** The new and corrected transactions as they are now stored */
+    transactions: unknown[];
+    /** Ids of transactions the provider removed */
+    removed_ids: string[];
+  };
+  'quest.progress': {
+    quest_id: string;
+    status: string;
+    previous_status: string;
+    confirmed_value: number;
+    pending_value: number;
+    explanation: string;
+  };
+  'quest.completed': {
+    quest_id: string;
+    title: string;
+    reward_food_type: string;
+    happiness_delta: number;
+  };
+  'scotty.state_changed': {
+    happiness: number;
+    mood: string;
+    food_credits: number;
+    last_fed: string | null;
+    last_reward_food: string | null;
+    last_reward_at: string | null;
+    growth_level: number;
+    stamina: number;
+  };
+  'insight.created': {
+    id: string;
+    date: string;
+    title: string;
+    blurb: string;
+    confidence: string;
+    metrics: Record<string, unknown>;
+  };
+  'action.created': {
+    id: string;
+    type: string;
+    payload: Record<string, unknown>;
+    requires_approval: boolean;
+    status: string;
+  };
+  'action.updated': {
+    id: string;
+    type: string;
+    status: string;
+    result: Record<string, unknown> | null;
+    error: string | null;
+  };
+  'subscription.cancellation': {
+    id: string;
+    merchant_key: string;
+    status: string;
+    monthly_amount: number;
+    message: string | null;
+  };
+  'subscription.price_changed': {
+    /** The recurring_candidate */
+    id: string;
+    merchant_key: string;
+    previous_amount: number;
+    amount: number;
+    effective_date: string;
+    transaction_id: string;
+    /** The previous amount was a free trial */
+    trial_converted: boolean;
+    message: string;
+  };
+  'goal.completed': {
+    goal_id: string;
+    name: string;
+    target_amount: number;
+    saved_so_far: number;
+    /** Scotty is only rewarded the first time a goal is reached */
+    rewarded: boolean;
+    reward_food_type: string | null;
+    happiness_delta: number;
+  };
+  'budget.alert': {
+    id: string;
+    budget_id: string;
+    category: string;
+    type: string;
+    title: string;
+    body: string;
+  };
+}
+
+export type EventType = keyof EventPayloads;
+
+export interface AppEvent<T extends EventType = EventType> {
+  /** Increases across all users; clients echo the last one back as Last-Event-ID */
+  id: number;
+  type: T;
+  data: EventPayloads[T];
+  created_at: string;
+}
+
+export type EventListener = (event: AppEvent) => void;
+
+/** Recent events kept per user for reconnecting clients */
+const REPLAY_LIMIT = 50;
+
+const bus = new EventEmitter();
+// One listener per open stream; a user may have several devices connected
+bus.setMaxListeners(0);
+
+const recent = new Map<string, AppEvent[]>();
+let lastEventId = 0;
+
+export function publishEvent<T extends EventType>(userId: string, type: T, data: EventPayloads[T]): AppEvent<T> {
+  const event: AppEvent<T> = { id: ++lastEventId, type, data, created_at: new Date().toISOString() };
+
+  const buffer = recent.get(userId) ?? [];
+  buffer.push(event);
+  if (buffer.length > REPLAY_LIMIT) buffer.shift();
+  recent.set(userId, buffer);
+
+  bus.emit(userId, event);
+  return event;
+}
+
+/** Listen for a user's events. Returns the unsubscribe function. */
+export function subscribeEvents(userId: string, listener: EventListener): () => void {
+  bus.on(userId, listener);
+  return () => {
+    bus.off(userId, listener);
+  };
+}
+
+/** A user's buffered events after `lastId`, oldest first */
+export function eventsSince(userId: string, lastId: number): AppEvent[] {
+  return (recent.get(userId) ?? []).filter(e => e.id > lastId);
+}
+
+/** One event in text/event-stream format */
+export function formatServerSentEvent(event: AppEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/** Publish Scotty's current state after something changed it */
+export function publishScottyState(userId: string): void {
+  const state = getDb().prepare('SELECT * FROM scotty_state WHERE user_id = ?').get(userId) as any;
+  if (!state) return;
+  publishEvent(userId, 'scotty.state_changed', {
+    happiness: state.happiness,
+    mood: state.mood,
+    food_credits: state.food_credits,
+    last_fed: state.last_fed ?? null,
+    last_reward_food: state.last_reward_food ?? null,
+    last_reward_at: state.last_reward_at ?? null,
+    growth_level: state.growth_level || 1,
+    stamina: state.stamina ?? 100,
+  });
+}
@@ -1,4 +1,6 @@
 import { getTransactions } from './ingestion';
+import { allocations } from './splits';
+import { addDays, userToday } from './user-clock';
 import { FinancialSummary } from '../schemas';
 
 /**
@@ -10,8 +12,9 @@ export function buildFinancialSummary(
   periodStart: string,
   periodEnd: string
 ): FinancialSummary {
-  const posted = getTransactions(userId, periodStart, periodEnd, { includePending: false });
-  const pending = getTransactions(userId, periodStart, periodEnd, { includePending: true });
+  // Transfers between the user's own accounts are neither spending nor income
+  const posted = getTransactions(userId, periodStart, periodEnd, { includePending: false, excludeTransfers: true });
+  const pending = getTransactions(userId, periodStart, periodEnd, { includePending: true, excludeTransfers: true });
   const pendingOnly = pending.filter(t => t.pending);
 
   const byCategory: Record<string, number> = {};
@@ -27,8 +30,10 @@ export function buildFinancialSummary(
       totalIncome += txn.amount;
     }
 
-    const cat = txn.category_primary || 'Other';
-    byCategory[cat] = (byCategory[cat] || 0) + Math.abs(txn.amount);
+    // Split transactions count toward each of their categories
+    for (const { category, amount } of allocations(txn)) {
+      byCategory[category] = (byCategory[category] || 0) + Math.abs(amount);
+    }
 
     const merchant = txn.merchant_name || txn.name;
     byMerchant[merchant] = (byMerchant[merchant] || 0) + Math.abs(txn.amount);
@@ -67,19 +72,24 @@ export function buildDualSummary(userId: string): {
   summary7d: FinancialSummary;
   summary30d: FinancialSummary;
 } {
-  const now = new Date();
-  const end = now.toISOString().split('T')[0];
-
-  const d7 = new Date(now);
-  d7.setDate(d7.getDate() - 7);
-  const start7 = d7.toISOString().split('T')[0];
-
-  const d30 = new Date(now);
-  d30.setDate(d30.getDate() - 30);
-  const start30 = d30.toISOString().split('T')[0];
+  const end = userToday(userId);
+  const start7 = addDays(end, -7);
+  const start30 = addDays(end, -30);
 
   return {
     summary7d: buildFinancialSummary(userId, start7, end),
     summary30d: buildFinancialSummary(userId, start30, end),
   };
 }
+
+/**
+ * What the user has spent on their local calendar day, pending charges
+ * included. Transfers between their own accounts don't count.
+ */
+export function todaySpend(userId: string, now = new Date()): { date: string; spent: number; pending: number } {
+  const date = userToday(userId, now);
+  const charges = getTransactions(userId, date, date, { includePending: true, excludeTransfers: true })
+    .filter(t => t.amount < 0);
+  const total = (txns: typeof charges) => Math.round(txns.reduce((sum, t) => sum + Math.abs(t.amount), 0) * 100) / 100;
+  return { date, spent: total(charges), pending: total(charges.filter(t => t.pending)) };
+}
@@ -0,0 +1,520 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { getAccount } from './accounts';
+import { getQuestMetric } from './quest-metrics';
+import { EventPayloads, publishEvent, publishScottyState } from './events';
+import { addDays, daysBetween, userToday } from './user-clock';
+
+// Savings goals and their contribution ledger. Every change to what a goal
+// has saved is a goal_contribution row and saved_so_far is their sum:
+// money the user puts in or takes out by hand, transfers into (or out of)
+// the goal's linked savings account, what a spend-cap quest left unspent,
+// and a confirmed subscription cancellation's monthly savings. Reaching the
+// target completes the goal and, the first time, rewards Scotty. Progress
+// is judged by how fast contributions have actually been coming in.
+
+export const CONTRIBUTION_KINDS = ['initial', 'manual', 'transfer', 'quest', 'subscription', 'withdrawal'] as const;
+export type ContributionKind = typeof CONTRIBUTION_KINDS[number];
+export type GoalStatus = 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+export type GoalPace = 'completed' | 'on_track' | 'behind' | 'stalled';
+
+/** How far back contributions count toward a goal's pace */
+export const VELOCITY_WINDOW_DAYS = 90;
+/** A new goal's pace is still judged over at least this many days, so one early deposit doesn't project too far */
+const MIN_VELOCITY_DAYS = 30;
+const DAYS_PER_MONTH = 30;
+
+const GOAL_REWARD = { food: 'truffle', happiness: 15, food_credits: 5 };
+
+export interface Goal {
+  id: string;
+  user_id: string;
+  name: string;
+  target_amount: number;
+  saved_so_far: number;
+  deadline: string | null;
+  budget_percent: number;
+  status: GoalStatus;
+  linked_account_id: string | null;
+  /** Local date the account was linked; its transfers from then on count */
+  linked_at: string | null;
+  completed_at: string | null;
+  rewarded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GoalContribution {
+  id: string;
+  goal_id: string;
+  kind: ContributionKind;
+  /** Negative for withdrawals and transfers out of the linked account */
+  amount: number;
+  date: string;
+  note: string | null;
+  transaction_id: string | null;
+  quest_id: string | null;
+  subscription_cancellation_id: string | null;
+  created_at: string;
+}
+
+export interface GoalInput {
+  name: string;
+  target_amount: number;
+  deadline?: string | null;
+  saved_so_far?: number;
+  budget_percent?: number;
+}
+
+export interface ContributionInput {
+  amount?: number;
+  note?: string;
+  /** Allocate what this verified spend-cap quest left unspent instead of an amount */
+  quest_id?: string;
+}
+
+export interface ContributionAttempt {
+  contribution?: GoalContribution;
+  goal?: Goal;
+  error?: string;
+}
+
+export interface GoalProgress {
+  target_amount: number;
+  current_amount: number;
+  remaining: number;
+  percent_complete: number;
+  /** What each month needs to save to meet the deadline; null without one */
+  monthly_pace_needed: number | null;
+  /** Net contributions per month over the last VELOCITY_WINDOW_DAYS, what was saved up front left out */
+  monthly_velocity: number;
+  /** When the goal is reached at monthly_velocity; null if nothing is coming in */
+  projected_completion_date: string | null;
+  status: GoalPace;
+}
+
+/**
+ * Goals a write completed. They're announced (goal.completed) by
+ * publishGoalCompletions once the transaction that completed them has
+ * committed, so the app never hears of a completion that was rolled back.
+ */
+export type GoalCompletion = EventPayloads['goal.completed'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function rowToContribution(row: any): GoalContribution {
+  const { user_id, ...rest } = row;
+  return rest;
+}
+
+export function validateGoalInput(body: any): { error?: string } {
+  if (!body?.name || !body.target_amount) return { error: 'name and target_amount required' };
+  if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name must be a non-empty string' };
+  if (typeof body.target_amount !== 'number' || body.target_amount <= 0) {
+    return { error: 'target_amount must be a positive number' };
+  }
+  if (body.deadline != null && (typeof body.deadline !== 'string' || !DATE_RE.test(body.deadline))) {
+    return { error: 'deadline must be a YYYY-MM-DD date' };
+  }
+  if (body.saved_so_far !== undefined && (typeof body.saved_so_far !== 'number' || body.saved_so_far < 0)) {
+    return { error: 'saved_so_far must be a non-negative number' };
+  }
+  if (body.saved_so_far >= body.target_amount) return { error: 'saved_so_far must be less than target_amount' };
+  return {};
+}
+
+export function validateContributionInput(body: any, kind: 'contribution' | 'withdrawal'): { error?: string } {
+  if (body?.note !== undefined && typeof body.note !== 'string') return { error: 'note must be a string' };
+  if (kind === 'contribution' && body?.quest_id !== undefined) {
+    if (typeof body.quest_id !== 'string' || !body.quest_id) return { error: 'quest_id must be a string' };
+    if (body.amount !== undefined) return { error: 'Give either amount or quest_id, not both' };
+    return {};
+  }
+  if (typeof body?.amount !== 'number' || !Number.isFinite(body.amount) || body.amount <= 0) {
+    return { error: 'amount must be a positive number' };
+  }
+  return {};
+}
+
+export function getGoal(userId: string, goalId: string): Goal | null {
+  const row = getDb().prepare(`SELECT * FROM goal WHERE id = ? AND user_id = ?`).get(goalId, userId) as Goal | undefined;
+  return row ?? null;
+}
+
+export function listGoals(userId: string): Goal[] {
+  return getDb().prepare(`SELECT * FROM goal WHERE user_id = ? ORDER BY created_at DESC`).all(userId) as Goal[];
+}
+
+export function createGoal(userId: string, input: GoalInput, now = new Date()): Goal {
+  const db = getDb();
+  const id = uuid();
+  const completions: GoalCompletion[] = [];
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO goal (id, user_id, name, target_amount, deadline, budget_percent)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, userId, input.name.trim(), input.target_amount, input.deadline || null, input.budget_percent || 10);
+    if (input.saved_so_far) {
+      record(userId, id, { kind: 'initial', amount: input.saved_so_far }, now, completions);
+    }
+  })();
+  publishGoalCompletions(userId, completions);
+  return getGoal(userId, id)!;
+}
+
+/** The goal's contributions, newest first. Null if the goal isn't the user's. */
+export function listContributions(userId: string, goalId: string): GoalContribution[] | null {
+  if (!getGoal(userId, goalId)) return null;
+  const rows = getDb().prepare(`
+    SELECT * FROM goal_contribution WHERE goal_id = ? ORDER BY date DESC, created_at DESC, rowid DESC
+  `).all(goalId) as any[];
+  return rows.map(rowToContribution);
+}
+
+/**
+ * Add a ledger row and bring the goal's total and status up to date.
+ * Reaching the target completes the goal (added to `completions`);
+ * dropping back under it reopens it.
+ */
+function record(
+  userId: string,
+  goalId: string,
+  fields: Pick<GoalContribution, 'kind' | 'amount'> & Partial<Pick<GoalContribution, 'date' | 'note' | 'transaction_id' | 'quest_id' | 'subscription_cancellation_id'>>,
+  now: Date,
+  completions: GoalCompletion[]
+): GoalContribution {
+  const id = uuid();
+  getDb().prepare(`
+    INSERT INTO goal_contribution (id, goal_id, user_id, kind, amount, date, note, transaction_id, quest_id, subscription_cancellation_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, goalId, userId, fields.kind, round2(fields.amount), fields.date ?? userToday(userId, now), fields.note ?? null,
+    fields.transaction_id ?? null, fields.quest_id ?? null, fields.subscription_cancellation_id ?? null
+  );
+  syncGoal(userId, goalId, now, completions);
+  return rowToContribution(getDb().prepare(`SELECT * FROM goal_contribution WHERE id = ?`).get(id));
+}
+
+function syncGoal(userId: string, goalId: string, now: Date, completions: GoalCompletion[]): void {
+  const db = getDb();
+  const { total } = db.prepare(`SELECT COALESCE(SUM(amount), 0) AS total FROM goal_contribution WHERE goal_id = ?`)
+    .get(goalId) as { total: number };
+  const saved = round2(total);
+  db.prepare(`UPDATE goal SET saved_so_far = ?, updated_at = datetime('now') WHERE id = ?`).run(saved, goalId);
+
+  const goal = getGoal(userId, goalId)!;
+  const reached = saved >= goal.target_amount;
+  if (goal.status === 'ACTIVE' && reached) {
+    completions.push(completeGoal(goal, now));
+  } else if (goal.status === 'COMPLETED' && !reached) {
+    db.prepare(`UPDATE goal SET status = 'ACTIVE', completed_at = NULL, updated_at = datetime('now') WHERE id = ?`).run(goalId);
+  }
+}
+
+function completeGoal(goal: Goal, now: Date): GoalCompletion {
+  const db = getDb();
+  const rewarded = !goal.rewarded_at;
+  db.prepare(`
+    UPDATE goal SET status = 'COMPLETED', completed_at = ?, rewarded_at = COALESCE(rewarded_at, ?), updated_at = datetime('now')
+    WHERE id = ?
+  `).run(now.toISOString(), now.toISOString(), goal.id);
+  if (rewarded) grantGoalReward(goal.user_id, now);
+
+  return {
+    goal_id: goal.id,
+    name: goal.name,
+    target_amount: goal.target_amount,
+    saved_so_far: goal.saved_so_far,
+    rewarded,
+    reward_food_type: rewarded ? GOAL_REWARD.food : null,
+    happiness_delta: rewarded ? GOAL_REWARD.happiness : 0,
+  };
+}
+
+/** Announce goals a committed write completed, and Scotty's new state if any rewarded him */
+export function publishGoalCompletions(userId: string, completions: GoalCompletion[]): void {
+  for (const completion of completions) publishEvent(userId, 'goal.completed', completion);
+  if (completions.some(c => c.rewarded)) publishScottyState(userId);
+}
+
+function grantGoalReward(userId: string, now: Date): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR IGNORE INTO scotty_state (user_id, happiness, mood, food_credits)
+    VALUES (?, 70, 'content', 10)
+  `).run(userId);
+  db.prepare(`
+    UPDATE scotty_state SET
+      happiness = MIN(100, happiness + @happiness),
+      mood = CASE
+        WHEN MIN(100, happiness + @happiness) >= 80 THEN 'happy'
+        WHEN MIN(100, happiness + @happiness) >= 50 THEN 'content'
+        WHEN MIN(100, happiness + @happiness) >= 25 THEN 'worried'
+        ELSE 'sad'
+      END,
+      food_credits = food_credits + @credits,
+      last_reward_food = @food,
+      last_reward_at = @now,
+      updated_at = datetime('now')
+    WHERE user_id = @userId
+  `).run({ happiness: GOAL_REWARD.happiness, credits: GOAL_REWARD.food_credits, food: GOAL_REWARD.food, now: now.toISOString(), userId });
+}
+
+/**
+ * What a verified spend-cap quest left unspent: its cap less what was
+ * spent. An error for any other quest.
+ */
+function questSavings(userId: string, questId: string): { amount?: number; error?: string } {
+  const db = getDb();
+  const quest = db.prepare(`SELECT * FROM quest WHERE id = ? AND user_id = ?`).get(questId, userId) as any;
+  if (!quest) return { error: 'Quest not found' };
+  if (quest.status !== 'COMPLETED_VERIFIED') return { error: 'Only a verified quest\'s savings can be allocated' };
+
+  const capParam = getQuestMetric(quest.metric_type)?.calibration?.capParam;
+  const cap = capParam ? JSON.parse(quest.metric_params)[capParam] : undefined;
+  if (typeof cap !== 'number') return { error: 'Only a spending-cap quest has savings to allocate' };
+
+  const snapshot = db.prepare(`
+    SELECT confirmed_value FROM quest_progress_snapshot WHERE quest_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1
+  `).get(questId) as { confirmed_value: number } | undefined;
+  const amount = round2(cap - (snapshot?.confirmed_value ?? 0));
+  if (amount <= 0) return { error: 'The quest didn\'t leave anything unspent' };
+  return { amount };
+}
+
+/** The active goal due soonest, the one automatic savings go to */
+function soonestGoalId(userId: string): string | null {
+  const goal = getDb().prepare(`
+    SELECT id FROM goal WHERE user_id = ? AND status = 'ACTIVE'
+    ORDER BY deadline IS NULL, deadline, created_at LIMIT 1
+  `).get(userId) as { id: string } | undefined;
+  return goal?.id ?? null;
+}
+
+/**
+ * Put money in (an amount, or a verified quest's savings) by hand. A quest
+ * already allocated to another goal moves to this one. Null if the goal
+ * isn't the user's.
+ */
+export function contribute(userId: string, goalId: string, input: ContributionInput, now = new Date()): ContributionAttempt | null {
+  const goal = getGoal(userId, goalId);
+  if (!goal) return null;
+  if (goal.status === 'CANCELLED') return { error: 'Goal is cancelled' };
+
+  const completions: GoalCompletion[] = [];
+  if (!input.quest_id) {
+    const contribution = record(userId, goalId, { kind: 'manual', amount: input.amount!, note: input.note }, now, completions);
+    publishGoalCompletions(userId, completions);
+    return { contribution, goal: getGoal(userId, goalId)! };
+  }
+
+  const savings = questSavings(userId, input.quest_id);
+  if (savings.error) return { error: savings.error };
+  const db = getDb();
+  const existing = db.prepare(`SELECT goal_id FROM goal_contribution WHERE quest_id = ?`).get(input.quest_id) as { goal_id: string } | undefined;
+  if (existing?.goal_id === goalId) return { error: 'The quest\'s savings are already on this goal' };
+
+  const contribution = db.transaction(() => {
+    if (existing) {
+      db.prepare(`DELETE FROM goal_contribution WHERE quest_id = ?`).run(input.quest_id);
+      syncGoal(userId, existing.goal_id, now, completions);
+    }
+    return record(userId, goalId, { kind: 'quest', amount: savings.amount!, note: input.note, quest_id: input.quest_id }, now, completions);
+  })();
+  publishGoalCompletions(userId, completions);
+  return { contribution, goal: getGoal(userId, goalId)! };
+}
+
+/** Take money out of a goal. Null if the goal isn't the user's. */
+export function withdraw(userId: string, goalId: string, input: ContributionInput, now = new Date()): ContributionAttempt | null {
+  const goal = getGoal(userId, goalId);
+  if (!goal) return null;
+  if (goal.status === 'CANCELLED') return { error: 'Goal is cancelled' };
+  if (input.amount! > goal.saved_so_far) {
+    return { error: `Can't withdraw more than the $${goal.saved_so_far.toFixed(2)} saved` };
+  }
+  const completions: GoalCompletion[] = [];
+  const contribution = record(userId, goalId, { kind: 'withdrawal', amount: -input.amount!, note: input.note }, now, completions);
+  publishGoalCompletions(userId, completions);
+  return { contribution, goal: getGoal(userId, goalId)! };
+}
+
+/**
+ * Credit automatic savings (a confirmed cancellation's) to the active goal
+ * due soonest. Returns the goal's id, or null without one. Callers run this
+ * inside their own transaction, so a goal it completes is added to
+ * `completions` for them to publish after commit.
+ */
+export function creditSoonestGoal(
+  userId: string,
+  amount: number,
+  fields: Pick<ContributionInput, 'note'> & { subscription_cancellation_id?: string },
+  completions: GoalCompletion[],
+  now = new Date()
+): string | null {
+  const goalId = soonestGoalId(userId);
+  if (!goalId) return null;
+  record(userId, goalId, { kind: 'subscription', amount, ...fields }, now, completions);
+  return goalId;
+}
+
+/**
+ * Allocate a quest's savings when it's verified, to the active goal due
+ * soonest. Returns the goal's id, or null when there's nothing to allocate,
+ * no goal, or it's already allocated.
+ */
+export function allocateQuestSavings(userId: string, questId: string, now = new Date()): string | null {
+  const savings = questSavings(userId, questId);
+  const goalId = soonestGoalId(userId);
+  if (savings.error || !goalId) return null;
+  if (getDb().prepare(`SELECT 1 FROM goal_contribution WHERE quest_id = ?`).get(questId)) return null;
+  const completions: GoalCompletion[] = [];
+  record(userId, goalId, { kind: 'quest', amount: savings.amount!, quest_id: questId }, now, completions);
+  publishGoalCompletions(userId, completions);
+  return goalId;
+}
+
+/** Take back a quest's savings when its completion is revoked */
+export function releaseQuestSavings(userId: string, questId: string, now = new Date()): void {
+  const db = getDb();
+  const row = db.prepare(`SELECT goal_id FROM goal_contribution WHERE quest_id = ? AND user_id = ?`).get(questId, userId) as { goal_id: string } | undefined;
+  if (!row) return;
+  db.prepare(`DELETE FROM goal_contribution WHERE quest_id = ?`).run(questId);
+  // Taking savings out can only reopen a goal, never complete one
+  syncGoal(userId, row.goal_id, now, []);
+}
+
+/**
+ * Link a savings account to the goal (or unlink it with null). Transfers
+ * into the account from today on count as contributions, transfers out as
+ * withdrawals. Null if the goal isn't the user's.
+ */
+export function linkGoalAccount(userId: string, goalId: string, accountId: string | null, now = new Date()): { goal?: Goal; error?: string } | null {
+  const goal = getGoal(userId, goalId);
+  if (!goal) return null;
+  const db = getDb();
+
+  if (accountId !== null) {
+    const account = getAccount(userId, accountId);
+    if (!account) return { error: 'Account not found' };
+    if (account.type !== 'savings') return { error: 'Only a savings account can be linked to a goal' };
+    const taken = db.prepare(`
+      SELECT 1 FROM goal WHERE user_id = ? AND linked_account_id = ? AND id != ? AND status != 'CANCELLED'
+    `).get(userId, accountId, goalId);
+    if (taken) return { error: 'That account is already linked to another goal' };
+  }
+  if (accountId === goal.linked_account_id) return { goal };
+
+  db.prepare(`UPDATE goal SET linked_account_id = ?, linked_at = ?, updated_at = datetime('now') WHERE id = ?`)
+    .run(accountId, accountId ? userToday(userId, now) : null, goalId);
+  matchTransferContributions(userId, now);
+  return { goal: getGoal(userId, goalId)! };
+}
+
+/**
+ * Bring each goal's 'transfer' contributions in line with the posted
+ * transfers into and out of its linked account since it was linked: new
+ * ones are added, corrected ones updated, and removed ones (or all of them,
+ * once the account is unlinked) dropped. Returns how many were added.
+ */
+export function matchTransferContributions(userId: string, now = new Date()): number {
+  const db = getDb();
+  const goals = db.prepare(`
+    SELECT * FROM goal WHERE user_id = ? AND status != 'CANCELLED'
+      AND (linked_account_id IS NOT NULL OR id IN (SELECT goal_id FROM goal_contribution WHERE kind = 'transfer'))
+  `).all(userId) as Goal[];
+  let added = 0;
+  const completions: GoalCompletion[] = [];
+
+  db.transaction(() => {
+    for (const goal of goals) {
+      const transfers = goal.linked_account_id
+        ? db.prepare(`
+            SELECT id, date, amount FROM transaction_
+            WHERE user_id = ? AND account_id = ? AND pending = 0 AND transfer_group_id IS NOT NULL AND date >= ?
+          `).all(userId, goal.linked_account_id, goal.linked_at) as { id: string; date: string; amount: number }[]
+        : [];
+      const recorded = new Map(
+        (db.prepare(`SELECT id, transaction_id, amount, date FROM goal_contribution WHERE goal_id = ? AND kind = 'transfer'`)
+          .all(goal.id) as { id: string; transaction_id: string; amount: number; date: string }[])
+          .map(c => [c.transaction_id, c])
+      );
+
+      let changed = false;
+      for (const txn of transfers) {
+        const existing = recorded.get(txn.id);
+        recorded.delete(txn.id);
+        if (!existing) {
+          record(userId, goal.id, { kind: 'transfer', amount: txn.amount, date: txn.date, transaction_id: txn.id }, now, completions);
+          added++;
+        } else if (existing.amount !== round2(txn.amount) || existing.date !== txn.date) {
+          db.prepare(`UPDATE goal_contribution SET amount = ?, date = ? WHERE id = ?`).run(round2(txn.amount), txn.date, existing.id);
+          changed = true;
+        }
+      }
+      for (const stale of recorded.values()) {
+        db.prepare(`DELETE FROM goal_contribution WHERE id = ?`).run(stale.id);
+        changed = true;
+      }
+      if (changed) syncGoal(userId, goal.id, now, completions);
+    }
+  })();
+  publishGoalCompletions(userId, completions);
+  return added;
+}
+
+/**
+ * Where the goal stands, paced by what has actually been going in: net
+ * contributions over the last VELOCITY_WINDOW_DAYS (or the goal's life, if
+ * shorter) projected forward. Behind when that projection misses the
+ * deadline; stalled when nothing is coming in. Null if the goal isn't the
+ * user's.
+ */
+export function goalProgress(userId: string, goalId: string, now = new Date()): { goal: Goal; progress: GoalProgress } | null {
+  const goal = getGoal(userId, goalId);
+  if (!goal) return null;
+
+  const today = userToday(userId, now);
+  const created = userToday(userId, new Date(`${goal.created_at.replace(' ', 'T')}Z`));
+  const windowDays = Math.max(MIN_VELOCITY_DAYS, Math.min(VELOCITY_WINDOW_DAYS, daysBetween(created, today) + 1));
+  const { net } = getDb().prepare(`
+    SELECT COALESCE(SUM(amount), 0) AS net FROM goal_contribution
+    WHERE goal_id = ? AND kind != 'initial' AND date > ? AND date <= ?
+  `).get(goalId, addDays(today, -windowDays), today) as { net: number };
+  const monthlyVelocity = round2((net / windowDays) * DAYS_PER_MONTH);
+
+  const remaining = round2(Math.max(0, goal.target_amount - goal.saved_so_far));
+  const deadline = goal.deadline ? goal.deadline.slice(0, 10) : null;
+  let monthlyPaceNeeded: number | null = null;
+  if (deadline) {
+    const monthsLeft = Math.max(1, daysBetween(today, deadline) / DAYS_PER_MONTH);
+    monthlyPaceNeeded = round2(remaining / monthsLeft);
+  }
+
+  let projected: string | null = null;
+  let status: GoalPace;
+  if (goal.status === 'COMPLETED' || remaining === 0) {
+    status = 'completed';
+    projected = goal.completed_at ? userToday(userId, new Date(goal.completed_at)) : today;
+  } else if (monthlyVelocity <= 0) {
+    status = 'stalled';
+  } else {
+    projected = addDays(today, Math.ceil((remaining / monthlyVelocity) * DAYS_PER_MONTH));
+    status = deadline && projected > deadline ? 'behind' : 'on_track';
+  }
+
+  return {
+    goal,
+    progress: {
+      target_amount: goal.target_amount,
+      current_amount: goal.saved_so_far,
+      remaining,
+      percent_complete: Math.round((goal.saved_so_far / goal.target_amount) * 100),
+      monthly_pace_needed: monthlyPaceNeeded,
+      monthly_velocity: monthlyVelocity,
+      projected_completion_date: projected,
+      status,
+    },
+  };
+}
@@ -1,50 +1,62 @@
 import { getTransactions } from './ingestion';
+import { estimateMonthlyIncome, MonthlyIncomeEstimate } from './income-detection';
 import { getDb } from '../db/database';
+import { addDays, userToday } from './user-clock';
+import { confirmedMonthlySavings } from './subscription-cancellation';
 
 const IMPULSE_MERCHANTS = ['DoorDash', 'Uber Eats', 'Amazon', 'Shein', 'Steam'];
 const IMPULSE_THRESHOLD = 5;
+// Saving this share of income earns a full savings score
+const TARGET_SAVINGS_RATE = 20;
 
 export interface HealthMetrics {
   budgetAdherence: number;
   savingsRate: number;
   impulseScore: number;
   overallScore: number;
+  /** Detected monthly income the rates are measured against */
+  monthlyIncome: number;
+  monthlySpending: number;
+  incomeSource: MonthlyIncomeEstimate['source'];
+  /** Monthly cost of subscriptions confirmed cancelled in the last 30 days, counted as saved */
+  subscriptionSavings: number;
 }
 
 /**
- * Compute health metrics for a user based on their transactions and budgets.
+ * Compute health metrics for a user from the last 30 days of spending,
+ * measured against their budgets and detected income.
  */
 export function computeHealthMetrics(userId: string): HealthMetrics {
   const db = getDb();
-  const now = new Date();
-  const end = now.toISOString().split('T')[0];
-  const d30 = new Date(now);
-  d30.setDate(d30.getDate() - 30);
-  const start = d30.toISOString().split('T')[0];
+  const end = userToday(userId);
+  const start = addDays(end, -30);
 
-  const transactions = getTransactions(userId, start, end, { includePending: false });
+  const transactions = getTransactions(userId, start, end, { includePending: false, excludeTransfers: true });
 
   // Total spent (negative amounts = spending)
   const totalSpent = transactions
     .filter(t => t.amount < 0)
     .reduce((sum, t) => sum + Math.abs(t.amount), 0);
 
-  // Get budget total from budget table
-  const budgets = db.prepare('SELECT * FROM budget WHERE user_id = ?').all(userId) as any[];
-  const monthlyBudget = budgets.reduce((sum: number, b: any) => sum + b.amount, 0) || 1500;
+  const income = estimateMonthlyIncome(userId);
+  const monthlyIncome = income.monthly_income;
 
-  // Budget adherence (0-100)
-  const budgetAdherence = Math.max(0, Math.min(100,
-    ((monthlyBudget - totalSpent) / monthlyBudget) * 100 + 50
-  ));
+  // Budget adherence (0-100). Without budgets, spending 80% of income is par;
+  // with neither budgets nor income there is nothing to measure against.
+  const budgets = db.prepare('SELECT * FROM budget WHERE user_id = ?').all(userId) as any[];
+  const monthlyBudget = budgets.reduce((sum: number, b: any) => sum + b.amount, 0) || monthlyIncome * 0.8;
+  const budgetAdherence = monthlyBudget > 0
+    ? Math.max(0, Math.min(100, ((monthlyBudget - totalSpent) / monthlyBudget) * 100 + 50))
+    : 50;
 
-  // Savings rate (0-100) - estimate income as budget * 1.3
-  const estimatedIncome = monthlyBudget * 1.3;
-  const actualSavings = estimatedIncome - totalSpent;
-  const monthlySavingsGoal = monthlyBudget * 0.2;
-  const savingsRate = Math.max(0, Math.min(100,
-    (actualSavings / (monthlySavingsGoal || 1)) * 50
-  ));
+  // Savings rate (0-100): share of income not spent. A subscription
+  // cancelled this month may still have charged in the window, so what it
+  // frees up each month counts as saved.
+  const subscriptionSavings = confirmedMonthlySavings(userId, start);
+  const savingsRate = monthlyIncome > 0
+    ? Math.max(0, Math.min(100, ((monthlyIncome - totalSpent + subscriptionSavings) / monthlyIncome) * 100))
+    : 0;
+  const savingsScore = Math.min(100, (savingsRate / TARGET_SAVINGS_RATE) * 100);
 
   // Impulse score (0-100, higher = fewer impulse purchases)
   const impulseCount = transactions.filter(t => {
@@ -58,7 +70,7 @@ export function computeHealthMetrics(userId: string): HealthMetrics {
   // Overall score (weighted average)
   const overallScore = Math.round(
     budgetAdherence * 0.4 +
-    savingsRate * 0.3 +
+    savingsScore * 0.3 +
     impulseScore * 0.3
   );
 
@@ -67,5 +79,9 @@ export function computeHealthMetrics(userId: string): HealthMetrics {
     savingsRate: Math.round(savingsRate),
     impulseScore: Math.round(impulseScore),
     overallScore,
+    monthlyIncome,
+    monthlySpending: Math.round(totalSpent * 100) / 100,
+    incomeSource: income.source,
+    subscriptionSavings,
   };
 }
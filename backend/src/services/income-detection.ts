@@ -0,0 +1,237 @@
+import { getTransactions, normalizeMerchantKey } from './ingestion';
+import { userToday, addDays, daysBetween } from './user-clock';
+
+export type IncomeCadence = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
+export type IncomeKind = 'paycheck' | 'stipend' | 'recurring_deposit';
+
+export interface IncomeStream {
+  source: string;
+  merchant_key: string;
+  kind: IncomeKind;
+  cadence: IncomeCadence;
+  /** Median deposit amount */
+  typical_amount: number;
+  /** Standard deviation of deposit amounts */
+  amount_stddev: number;
+  amount_cv: number;
+  /** Typical deposit normalized to a calendar month */
+  monthly_amount: number;
+  occurrences: number;
+  last_date: string;
+  next_expected_date: string;
+  /** Days the next deposit may land either side of next_expected_date */
+  next_date_window_days: number;
+  /** The two days of the month a semimonthly stream pays on */
+  pay_days: [number, number] | null;
+  confidence: number;
+}
+
+export interface MonthlyIncomeEstimate {
+  monthly_income: number;
+  /** streams = detected recurring income; observed = raw deposits in the last 30 days */
+  source: 'streams' | 'observed' | 'none';
+  streams: IncomeStream[];
+}
+
+// Deposits smaller than this are refunds, cashback, interest and the like
+const MIN_DEPOSIT = 50;
+const MIN_STREAM_CONFIDENCE = 0.5;
+const PAYCHECK_KEYWORDS = ['payroll', 'salary', 'direct dep', 'paycheck', 'wages', 'adp', 'gusto'];
+const STIPEND_KEYWORDS = ['stipend', 'fellowship', 'scholarship', 'grant', 'allowance'];
+
+const MONTHLY_FACTOR: Record<IncomeCadence, number> = {
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  semimonthly: 2,
+  monthly: 1,
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Semimonthly pay lands on two fixed days of the month (e.g. 1st and 15th),
+ * so every deposit day sits close to one of two anchors.
+ */
+function isSemimonthly(dates: string[]): { anchors: [number, number] } | null {
+  const days = dates.map(d => Number(d.slice(8, 10)));
+  const early = days.filter(d => d <= 15);
+  const late = days.filter(d => d > 15);
+  if (early.length === 0 || late.length === 0) return null;
+  const anchors: [number, number] = [Math.round(median(early)), Math.round(median(late))];
+  const fits = days.every(d => Math.min(Math.abs(d - anchors[0]), Math.abs(d - anchors[1])) <= 3);
+  return fits ? { anchors } : null;
+}
+
+function classifyCadence(dates: string[], intervals: number[]): IncomeCadence | null {
+  const medianInterval = median(intervals);
+  if (medianInterval >= 6 && medianInterval <= 8) return 'weekly';
+  if (medianInterval >= 12 && medianInterval <= 18) {
+    // Biweekly gaps are always 14 days; 1st/15th pay alternates 13–17 day gaps
+    if (intervals.every(i => i === 14)) return 'biweekly';
+    if (dates.length >= 3 && isSemimonthly(dates)) return 'semimonthly';
+    return medianInterval >= 13 && medianInterval <= 15 ? 'biweekly' : null;
+  }
+  if (medianInterval >= 27 && medianInterval <= 33) return 'monthly';
+  return null;
+}
+
+/** The deposit after one on `date` */
+function followingDate(cadence: IncomeCadence, date: string, payDays: [number, number] | null): string {
+  switch (cadence) {
+    case 'weekly':
+      return addDays(date, 7);
+    case 'biweekly':
+      return addDays(date, 14);
+    case 'semimonthly': {
+      const [a, b] = payDays!;
+      const day = Number(date.slice(8, 10));
+      return Math.abs(day - a) <= 3 ? dayOfMonth(date, 0, b) : dayOfMonth(date, 1, a);
+    }
+    case 'monthly':
+      return dayOfMonth(date, 1, Number(date.slice(8, 10)));
+  }
+}
+
+/** The given day in the month `monthOffset` months after `date`, clamped to the month's length. */
+function dayOfMonth(date: string, monthOffset: number, day: number): string {
+  const d = new Date(`${date.slice(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + monthOffset);
+  const daysInMonth = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, daysInMonth));
+  return d.toISOString().split('T')[0];
+}
+
+function classifyKind(text: string, category: string | null): IncomeKind {
+  const lower = text.toLowerCase();
+  if (STIPEND_KEYWORDS.some(k => lower.includes(k))) return 'stipend';
+  if (PAYCHECK_KEYWORDS.some(k => lower.includes(k)) || category === 'Income') return 'paycheck';
+  return 'recurring_deposit';
+}
+
+/**
+ * Find recurring income (paychecks, stipends, other regular deposits) in the
+ * user's posted transactions. Transfers between the user's own accounts are
+ * ignored so moving money into savings isn't mistaken for a paycheck.
+ */
+export function detectIncomeStreams(userId: string, lookbackDays = 120, asOf: Date = new Date()): IncomeStream[] {
+  const today = userToday(userId, asOf);
+  const deposits = getTransactions(
+    userId,
+    addDays(today, -lookbackDays),
+    today,
+    { includePending: false, excludeTransfers: true }
+  ).filter(t => t.amount >= MIN_DEPOSIT && t.category_primary !== 'Transfer');
+
+  const bySource = new Map<string, typeof deposits>();
+  for (const txn of deposits) {
+    const key = normalizeMerchantKey(txn.merchant_name, txn.name);
+    if (!bySource.has(key)) bySource.set(key, []);
+    bySource.get(key)!.push(txn);
+  }
+
+  const streams: IncomeStream[] = [];
+  for (const [key, txns] of bySource) {
+    if (txns.length < 2) continue;
+
+    const sorted = [...txns].sort((a, b) => a.date.localeCompare(b.date));
+    const dates = sorted.map(t => t.date);
+    const intervals = dates.slice(1).map((d, i) => daysBetween(dates[i], d));
+    const cadence = classifyCadence(dates, intervals);
+    if (!cadence) continue;
+
+    const amounts = sorted.map(t => t.amount);
+    const mean = amounts.reduce((a, b) => a + b, 0) / amounts.length;
+    const stddev = Math.sqrt(amounts.reduce((s, a) => s + (a - mean) ** 2, 0) / amounts.length);
+    const cv = stddev / mean;
+    // Hourly pay varies, but not by this much
+    if (cv > 0.5) continue;
+
+    const intervalSpread = Math.max(...intervals) - Math.min(...intervals);
+    const text = `${sorted[0].merchant_name || ''} ${sorted[0].name}`;
+    const kind = classifyKind(text, sorted[sorted.length - 1].category_primary);
+
+    let confidence = 0.4;
+    if (sorted.length >= 3) confidence += 0.15;
+    if (intervalSpread <= 3) confidence += 0.15;
+    if (cv < 0.1) confidence += 0.15;
+    if (kind !== 'recurring_deposit') confidence += 0.15;
+
+    const typical = median(amounts);
+    const payDays = cadence === 'semimonthly' ? isSemimonthly(dates)!.anchors : null;
+    streams.push({
+      source: sorted[sorted.length - 1].merchant_name || sorted[sorted.length - 1].name,
+      merchant_key: key,
+      kind,
+      cadence,
+      typical_amount: round2(typical),
+      amount_stddev: round2(stddev),
+      amount_cv: Math.round(cv * 1000) / 1000,
+      monthly_amount: round2(typical * MONTHLY_FACTOR[cadence]),
+      occurrences: sorted.length,
+      last_date: dates[dates.length - 1],
+      next_expected_date: followingDate(cadence, dates[dates.length - 1], payDays),
+      next_date_window_days: Math.max(1, Math.ceil(intervalSpread / 2)),
+      pay_days: payDays,
+      confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+    });
+  }
+
+  return streams.sort((a, b) => b.monthly_amount - a.monthly_amount);
+}
+
+/**
+ * Dates from `start` through `end` a stream's deposits are expected on. A
+ * deposit running late by no more than the stream's usual spread is still
+ * expected, on `start`; one later than that is taken as skipped.
+ */
+export function expectedDepositDates(stream: IncomeStream, start: string, end: string): string[] {
+  const dates: string[] = [];
+  let scheduled = stream.next_expected_date;
+  if (scheduled < start && daysBetween(scheduled, start) <= stream.next_date_window_days) {
+    dates.push(start);
+    scheduled = followingDate(stream.cadence, scheduled, stream.pay_days);
+  }
+  while (scheduled <= end) {
+    if (scheduled >= start) dates.push(scheduled);
+    scheduled = followingDate(stream.cadence, scheduled, stream.pay_days);
+  }
+  return dates;
+}
+
+/**
+ * Monthly income from confident streams, falling back to what actually
+ * landed in the last 30 days when no pattern has emerged yet.
+ */
+export function estimateMonthlyIncome(userId: string, asOf: Date = new Date()): MonthlyIncomeEstimate {
+  const streams = detectIncomeStreams(userId, 120, asOf).filter(s => s.confidence >= MIN_STREAM_CONFIDENCE);
+  if (streams.length > 0) {
+    return {
+      monthly_income: round2(streams.reduce((sum, s) => sum + s.monthly_amount, 0)),
+      source: 'streams',
+      streams,
+    };
+  }
+
+  const today = userToday(userId, asOf);
+  const observed = getTransactions(
+    userId,
+    addDays(today, -30),
+    today,
+    { includePending: false, excludeTransfers: true }
+  ).filter(t => t.amount >= MIN_DEPOSIT && t.category_primary !== 'Transfer')
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  return {
+    monthly_income: round2(observed),
+    source: observed > 0 ? 'observed' : 'none',
+    streams: [],
+  };
+}
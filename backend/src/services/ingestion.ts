@@ -1,6 +1,13 @@
 import { v4 as uuid } from 'uuid';
 import { getDb } from '../db/database';
 import { Transaction } from '../schemas';
+import { detectTransfers, clearTransferGroups } from './accounts';
+import { getSplitsInRange, rescaleSplits } from './splits';
+import { normalizeMerchantKey } from './merchant-key';
+import { loadActiveRules, applyRules, CategorizationRule } from './categorization-rules';
+import { categoryFamily } from './categories';
+
+export { normalizeMerchantKey };
 
 export interface IngestionResult {
   inserted: number;
@@ -8,27 +15,27 @@ export interface IngestionResult {
   pendingLinked: number;
 }
 
-/** Normalize merchant name to a stable key for grouping/dedup. */
-export function normalizeMerchantKey(merchantName: string | null, name: string): string {
-  const raw = (merchantName || name || '').toLowerCase().trim();
-  // Remove trailing IDs, hashes, location suffixes (e.g., "STARBUCKS #1234 NYC" → "starbucks")
-  return raw
-    .replace(/\s*#\d+/g, '')
-    .replace(/\s*\d{4,}/g, '')
-    .replace(/\s+(llc|inc|corp|ltd)\.?$/i, '')
-    .replace(/[^a-z0-9\s]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
 
 /**
  * Ingest a batch of transactions. Handles:
  * - Insert new transactions (by provider_txn_id uniqueness)
  * - Update pending->posted linking via pending_transaction_id
  * - Skip duplicates via provider_txn_id
+ * - Apply the user's categorization rules before storing
  */
 export function ingestTransactions(transactions: Transaction[]): IngestionResult {
+  const { result, insertedDates } = insertTransactions(transactions);
+  for (const [userId, dates] of insertedDates) {
+    detectTransfers(userId, { dates: [...dates] });
+  }
+  return result;
+}
+
+function insertTransactions(
+  transactions: Transaction[]
+): { result: IngestionResult; insertedDates: Map<string, Set<string>> } {
   const db = getDb();
+  const insertedDates = new Map<string, Set<string>>();
   let inserted = 0;
   let updated = 0;
   let pendingLinked = 0;
@@ -36,8 +43,8 @@ export function ingestTransactions(transactions: Transaction[]): IngestionResult
   const insertStmt = db.prepare(`
     INSERT OR IGNORE INTO transaction_
     (id, user_id, provider, provider_txn_id, date, amount, currency, name, merchant_name,
-     category_primary, category_detailed, pending, pending_transaction_id, metadata, merchant_key)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     category_primary, category_detailed, pending, pending_transaction_id, metadata, merchant_key, account_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const updatePendingStmt = db.prepare(`
@@ -48,12 +55,14 @@ export function ingestTransactions(transactions: Transaction[]): IngestionResult
   const checkExistsStmt = db.prepare(
     `SELECT id FROM transaction_ WHERE provider_txn_id = ?`
   );
+  const markTransferStmt = db.prepare(`UPDATE transaction_ SET transfer_group_id = ? WHERE id = ?`);
+  const rulesByUser = new Map<string, CategorizationRule[]>();
 
   const ingestAll = db.transaction(() => {
-    for (const txn of transactions) {
+    for (const raw of transactions) {
       // If this is a posted transaction that replaces a pending one
-      if (!txn.pending && txn.pending_transaction_id) {
-        const result = updatePendingStmt.run(txn.pending_transaction_id, txn.user_id);
+      if (!raw.pending && raw.pending_transaction_id) {
+        const result = updatePendingStmt.run(raw.pending_transaction_id, raw.user_id);
         if (result.changes > 0) {
           pendingLinked++;
           updated += result.changes;
@@ -61,9 +70,12 @@ export function ingestTransactions(transactions: Transaction[]): IngestionResult
       }
 
       // Check for duplicate
-      const existing = checkExistsStmt.get(txn.provider_txn_id);
+      const existing = checkExistsStmt.get(raw.provider_txn_id);
       if (existing) continue;
 
+      if (!rulesByUser.has(raw.user_id)) rulesByUser.set(raw.user_id, loadActiveRules(raw.user_id));
+      const { transaction: txn, markTransfer } = applyRules(raw, rulesByUser.get(raw.user_id)!);
+
       const id = txn.id || uuid();
       const merchantKey = normalizeMerchantKey(txn.merchant_name, txn.name);
       const result = insertStmt.run(
@@ -71,15 +83,187 @@ export function ingestTransactions(transactions: Transaction[]): IngestionResult
         txn.date, txn.amount, txn.currency, txn.name,
         txn.merchant_name, txn.category_primary, txn.category_detailed,
         txn.pending ? 1 : 0, txn.pending_transaction_id,
-        JSON.stringify(txn.metadata || {}), merchantKey
+        JSON.stringify(txn.metadata || {}), merchantKey, txn.account_id ?? null
       );
 
-      if (result.changes > 0) inserted++;
+      if (result.changes > 0) {
+        if (markTransfer) markTransferStmt.run(uuid(), id);
+        inserted++;
+        if (!insertedDates.has(txn.user_id)) insertedDates.set(txn.user_id, new Set());
+        insertedDates.get(txn.user_id)!.add(txn.date);
+      }
     }
   });
 
   ingestAll();
-  return { inserted, updated, pendingLinked };
+  return { result: { inserted, updated, pendingLinked }, insertedDates };
+}
+
+export interface TransactionDelta {
+  /** New or corrected transactions, matched to existing rows by provider_txn_id */
+  upsert: Transaction[];
+  /** provider_txn_ids the provider reports as removed (reversed or dropped pending charges) */
+  remove?: string[];
+}
+
+export interface TransactionDeltaResult {
+  inserted: number;
+  modified: number;
+  removed: number;
+  pendingLinked: number;
+  /** Dates (YYYY-MM-DD) touched by the delta, including the old date of moved rows */
+  changedDates: string[];
+  /** Ids of the inserted and modified rows */
+  changedIds: string[];
+  /** Ids of the deleted rows */
+  removedIds: string[];
+}
+
+export interface TransactionAuditEntry {
+  id: string;
+  transaction_id: string;
+  provider_txn_id: string | null;
+  action: 'MODIFIED' | 'REMOVED';
+  old_values: Record<string, unknown>;
+  new_values: Record<string, unknown> | null;
+  source: string | null;
+  created_at: string;
+}
+
+// Provider-owned fields compared to decide whether an upsert is a real correction
+const AUDITED_FIELDS = [
+  'date', 'amount', 'currency', 'name', 'merchant_name',
+  'category_primary', 'category_detailed', 'pending', 'pending_transaction_id',
+] as const;
+
+function auditedValues(row: Record<string, any>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of AUDITED_FIELDS) {
+    values[field] = field === 'pending' ? !!row[field] : row[field] ?? null;
+  }
+  return values;
+}
+
+/**
+ * Apply a provider delta: insert unseen transactions, update rows whose
+ * provider fields changed, and delete removed rows. The previous values of
+ * every modified or removed row are kept in transaction_audit.
+ */
+export function applyTransactionDelta(
+  userId: string,
+  delta: TransactionDelta,
+  source: string | null = null
+): TransactionDeltaResult {
+  const db = getDb();
+  const result: TransactionDeltaResult = {
+    inserted: 0, modified: 0, removed: 0, pendingLinked: 0, changedDates: [], changedIds: [], removedIds: [],
+  };
+  const dates = new Set<string>();
+
+  const findStmt = db.prepare(`SELECT * FROM transaction_ WHERE provider_txn_id = ? AND user_id = ?`);
+  const updateStmt = db.prepare(`
+    UPDATE transaction_
+    SET date = ?, amount = ?, currency = ?, name = ?, merchant_name = ?,
+        category_primary = ?, category_detailed = ?, pending = ?, pending_transaction_id = ?,
+        metadata = ?, merchant_key = ?, account_id = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `);
+  const deleteStmt = db.prepare(`DELETE FROM transaction_ WHERE id = ?`);
+  const auditStmt = db.prepare(`
+    INSERT INTO transaction_audit (id, user_id, transaction_id, provider_txn_id, action, old_values, new_values, source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const rules = loadActiveRules(userId);
+
+  db.transaction(() => {
+    for (const raw of delta.upsert) {
+      const existing = findStmt.get(raw.provider_txn_id, userId) as Record<string, any> | undefined;
+      if (!existing) {
+        const { result: ingested } = insertTransactions([raw]);
+        result.inserted += ingested.inserted;
+        result.pendingLinked += ingested.pendingLinked;
+        if (ingested.inserted > 0) {
+          dates.add(raw.date);
+          result.changedIds.push((findStmt.get(raw.provider_txn_id, userId) as { id: string }).id);
+        }
+        continue;
+      }
+
+      // Keep user-added metadata (provider keys win on conflict) so rules and
+      // hand-picked categories see the same state as at ingest
+      const merged = { ...raw, metadata: { ...JSON.parse(existing.metadata || '{}'), ...(raw.metadata || {}) } };
+      const { transaction: txn, markTransfer } = applyRules(merged, rules);
+      if (txn.metadata.category_source === 'user') txn.category_primary = existing.category_primary;
+
+      const oldValues = auditedValues(existing);
+      const newValues = auditedValues(txn);
+      if (JSON.stringify(oldValues) === JSON.stringify(newValues)) continue;
+
+      updateStmt.run(
+        txn.date, txn.amount, txn.currency, txn.name, txn.merchant_name,
+        txn.category_primary, txn.category_detailed, txn.pending ? 1 : 0, txn.pending_transaction_id,
+        JSON.stringify(txn.metadata), normalizeMerchantKey(txn.merchant_name, txn.name),
+        txn.account_id ?? existing.account_id, existing.id
+      );
+      // The corrected row may no longer match its transfer counterpart
+      if (existing.transfer_group_id) clearTransferGroups([existing.transfer_group_id]);
+      if (markTransfer) db.prepare(`UPDATE transaction_ SET transfer_group_id = ? WHERE id = ?`).run(uuid(), existing.id);
+      rescaleSplits(existing.id, existing.amount, txn.amount);
+      auditStmt.run(
+        uuid(), userId, existing.id, txn.provider_txn_id, 'MODIFIED',
+        JSON.stringify(oldValues), JSON.stringify(newValues), source
+      );
+      result.modified++;
+      result.changedIds.push(existing.id);
+      dates.add(existing.date);
+      dates.add(txn.date);
+    }
+
+    for (const providerTxnId of delta.remove || []) {
+      const existing = findStmt.get(providerTxnId, userId) as Record<string, any> | undefined;
+      if (!existing) continue;
+      deleteStmt.run(existing.id);
+      if (existing.transfer_group_id) clearTransferGroups([existing.transfer_group_id]);
+      auditStmt.run(
+        uuid(), userId, existing.id, providerTxnId, 'REMOVED',
+        JSON.stringify(auditedValues(existing)), null, source
+      );
+      result.removed++;
+      result.removedIds.push(existing.id);
+      dates.add(existing.date);
+    }
+    detectTransfers(userId, { dates: [...dates] });
+  })();
+
+  result.changedDates = [...dates].sort();
+  return result;
+}
+
+/**
+ * Audit trail for a user's transactions, newest first.
+ */
+export function getTransactionAudit(userId: string, transactionId?: string): TransactionAuditEntry[] {
+  const db = getDb();
+  let sql = `SELECT * FROM transaction_audit WHERE user_id = ?`;
+  const params: unknown[] = [userId];
+  if (transactionId) {
+    sql += ` AND transaction_id = ?`;
+    params.push(transactionId);
+  }
+  sql += ` ORDER BY created_at DESC, rowid DESC`;
+
+  const rows = db.prepare(sql).all(...params) as any[];
+  return rows.map(row => ({
+    id: row.id,
+    transaction_id: row.transaction_id,
+    provider_txn_id: row.provider_txn_id,
+    action: row.action,
+    old_values: JSON.parse(row.old_values),
+    new_values: row.new_values ? JSON.parse(row.new_values) : null,
+    source: row.source,
+    created_at: row.created_at,
+  }));
 }
 
 /**
@@ -89,7 +273,18 @@ export function getTransactions(
   userId: string,
   start: string,
   end: string,
-  options: { includePending?: boolean; category?: string; merchant?: string; merchant_key?: string } = {}
+  options: {
+    includePending?: boolean;
+    category?: string;
+    merchant?: string;
+    merchant_key?: string;
+    /**
+     * Skip transfers between the user's own accounts (not real spending or
+     * income) and charges in categories excluded from spending
+     */
+    excludeTransfers?: boolean;
+    accountId?: string;
+  } = {}
 ): Transaction[] {
   const db = getDb();
   let sql = `SELECT * FROM transaction_ WHERE user_id = ? AND date >= ? AND date <= ?`;
@@ -98,9 +293,20 @@ export function getTransactions(
   if (!options.includePending) {
     sql += ` AND pending = 0`;
   }
+  if (options.excludeTransfers) {
+    sql += ` AND transfer_group_id IS NULL`;
+    sql += ` AND NOT (amount < 0 AND category_primary IN (SELECT name FROM category WHERE user_id = ? AND exclude_from_spending = 1))`;
+    params.push(userId);
+  }
+  if (options.accountId) {
+    sql += ` AND account_id = ?`;
+    params.push(options.accountId);
+  }
   if (options.category) {
-    sql += ` AND category_primary = ?`;
-    params.push(options.category);
+    // Split transactions match if any part is in the category or one of its subcategories
+    const family = categoryFamily(userId, options.category);
+    sql += ` AND id IN (SELECT transaction_id FROM transaction_line WHERE user_id = ? AND category_primary IN (${family.map(() => '?').join(', ')}))`;
+    params.push(userId, ...family);
   }
   if (options.merchant_key) {
     sql += ` AND LOWER(merchant_key) = LOWER(?)`;
@@ -112,6 +318,7 @@ export function getTransactions(
 
   sql += ` ORDER BY date DESC`;
   const rows = db.prepare(sql).all(...params) as any[];
+  const splits = getSplitsInRange(userId, start, end);
 
   return rows.map(row => ({
     id: row.id,
@@ -129,5 +336,8 @@ export function getTransactions(
     pending: !!row.pending,
     pending_transaction_id: row.pending_transaction_id,
     metadata: JSON.parse(row.metadata || '{}'),
+    account_id: row.account_id ?? null,
+    transfer_group_id: row.transfer_group_id ?? null,
+    ...(splits.has(row.id) ? { splits: splits.get(row.id) } : {}),
   }));
 }
@@ -0,0 +1,12 @@
+/** Normalize merchant name to a stable key for grouping/dedup. */
+export function normalizeMerchantKey(merchantName: string | null, name: string): string {
+  const raw = (merchantName || name || '').toLowerCase().trim();
+  // Remove trailing IDs, hashes, location suffixes (e.g., "STARBUCKS #1234 NYC" → "starbucks")
+  return raw
+    .replace(/\s*#\d+/g, '')
+    .replace(/\s*\d{4,}/g, '')
+    .replace(/\s+(llc|inc|corp|ltd)\.?$/i, '')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -1,4 +1,5 @@
 import { Transaction } from '../schemas';
+import { AccountType } from './accounts';
 import seedSuite from '../data/seed-transactions.json';
 
 export interface NessieTransaction {
@@ -7,10 +8,17 @@ export interface NessieTransaction {
   amount: number;
   description: string;
   date: string;
+  /** Nessie account the transaction was listed under */
+  account_id?: string;
+  /** Other side of a transfer, when it is one */
+  counterparty_account_id?: string | null;
 }
 
-interface NessieAccount {
+export interface NessieAccount {
   _id: string;
+  type?: string;
+  nickname?: string;
+  balance?: number;
 }
 
 interface NessieCustomer {
@@ -50,6 +58,7 @@ interface NessieRawTransaction {
   purchase_date?: string;
   transaction_date?: string;
   payer_id?: string;
+  payee_id?: string;
 }
 
 export interface NessieOptions {
@@ -355,11 +364,26 @@ export function mapNessieTransactionsToBackendTransactions(
         source: 'nessie_api',
         nessie_id: tx._id,
         nessie_type: tx.type,
+        ...(tx.account_id ? { nessie_account_id: tx.account_id } : {}),
+        ...(tx.counterparty_account_id ? { counterparty_account_id: tx.counterparty_account_id } : {}),
       },
     } satisfies Transaction;
   });
 }
 
+export async function getNessieAccounts(options: NessieOptions = {}): Promise<NessieAccount[]> {
+  const { baseUrl, apiKey } = resolveNessieConfig(options);
+  return nessieGet<NessieAccount[]>(baseUrl, '/accounts', apiKey);
+}
+
+/** Nessie account types are 'Checking', 'Savings' and 'Credit Card'. */
+export function mapNessieAccountType(type: string | undefined): AccountType {
+  const normalized = (type || '').toLowerCase();
+  if (normalized.includes('credit')) return 'credit_card';
+  if (normalized.includes('saving')) return 'savings';
+  return 'checking';
+}
+
 export async function clearAllAccounts(options: NessieOptions = {}): Promise<number> {
   const { baseUrl, apiKey } = resolveNessieConfig(options);
   const accounts = await nessieGet<NessieAccount[]>(baseUrl, '/accounts', apiKey);
@@ -549,6 +573,10 @@ export async function getTransactionHistory(
           amount: signedAmountForNessieType(typeLabel, tx, accountId),
           description: tx.description || '',
           date: formatDate(dateStr),
+          account_id: accountId,
+          counterparty_account_id: typeLabel === 'transfers'
+            ? (tx.payer_id === accountId ? tx.payee_id : tx.payer_id) ?? null
+            : null,
         };
 
         const existing = byId.get(mapped._id);
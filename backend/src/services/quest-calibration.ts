@@ -0,0 +1,244 @@
+import { getDb } from '../db/database';
+import { listTransactionStats, StatsRow } from './retrieval';
+import { categoryFamily } from './categories';
+import { normalizeMerchantKey } from './merchant-key';
+import { getQuestMetric, MetricCalibration } from './quest-metrics';
+import { addDays, userToday } from './user-clock';
+import { FoodType } from '../schemas';
+
+// Quest difficulty calibration. A cap quest succeeds when spending in its
+// scope stays at or under the cap for the window. Spending is modelled as a
+// compound Poisson process from the user's own history (charge rate, mean and
+// stddev per charge), then blended with how the user actually did on past
+// quests of the same type.
+
+export type DifficultyTier = 'easy' | 'medium' | 'hard';
+
+/** The chance of success each tier aims for */
+const TIER_TARGETS: Record<DifficultyTier, number> = { easy: 0.8, medium: 0.6, hard: 0.35 };
+
+export const TIER_REWARDS: Record<DifficultyTier, { reward_food_type: FoodType; happiness_delta: number }> = {
+  easy: { reward_food_type: 'kibble', happiness_delta: 3 },
+  medium: { reward_food_type: 'bone', happiness_delta: 5 },
+  hard: { reward_food_type: 'steak', happiness_delta: 10 },
+};
+
+/** Days of history the spending baseline looks back over */
+const HISTORY_DAYS = 90;
+/** How many past quests the spending model counts as when blended with real outcomes */
+const MODEL_WEIGHT = 5;
+/** Past quests of the same type that count towards the pass rate */
+const HISTORY_QUESTS = 20;
+
+export interface SuccessEstimate {
+  /** 0-1 */
+  probability: number;
+  tier: DifficultyTier;
+  baseline: {
+    /** Expected spending in the scope over the window */
+    expected_spend: number;
+    stddev: number;
+    expected_charges: number;
+    history_days: number;
+  };
+  history: { attempts: number; passes: number };
+}
+
+interface SpendingBaseline {
+  expectedSpend: number;
+  stddev: number;
+  expectedCharges: number;
+  historyDays: number;
+}
+
+export function tierFor(probability: number): DifficultyTier {
+  if (probability >= 0.7) return 'easy';
+  if (probability >= 0.45) return 'medium';
+  return 'hard';
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Spending in the scope over a window of `windowDays`, from the posted
+ * history before today. Null when the user has no history at all.
+ */
+function spendingBaseline(
+  userId: string,
+  scope: { category?: string; merchant_key?: string },
+  windowDays: number,
+  today: string
+): SpendingBaseline | null {
+  const first = getDb().prepare(
+    `SELECT MIN(date) AS first FROM transaction_ WHERE user_id = ? AND pending = 0 AND date < ?`
+  ).get(userId, today) as { first: string | null };
+  if (!first.first) return null;
+
+  const dateEnd = addDays(today, -1);
+  const dateStart = first.first > addDays(today, -HISTORY_DAYS) ? first.first : addDays(today, -HISTORY_DAYS);
+  const historyDays = Math.round((Date.parse(dateEnd) - Date.parse(dateStart)) / 86400000) + 1;
+
+  let rows: StatsRow[];
+  if (scope.category) {
+    const family = categoryFamily(userId, scope.category);
+    rows = listTransactionStats({ user_id: userId, date_start: dateStart, date_end: dateEnd, group_by: 'category', limit: 200 })
+      .rows.filter(r => family.includes(r.group_key));
+  } else {
+    rows = listTransactionStats({
+      user_id: userId, date_start: dateStart, date_end: dateEnd, group_by: 'merchant',
+      merchant_key: normalizeMerchantKey(scope.merchant_key ?? '', ''),
+    }).rows;
+  }
+
+  // Charges arrive at a steady daily rate; each charge's size has the group's mean and stddev
+  const count = rows.reduce((sum, r) => sum + r.count, 0);
+  if (count === 0) return { expectedSpend: 0, stddev: 0, expectedCharges: 0, historyDays };
+  const meanCharge = rows.reduce((sum, r) => sum + r.total_spend, 0) / count;
+  const secondMoment = rows.reduce((sum, r) => sum + r.count * (r.stddev ** 2 + r.avg ** 2), 0) / count;
+  const expectedCharges = (count / historyDays) * windowDays;
+
+  return {
+    expectedSpend: expectedCharges * meanCharge,
+    stddev: Math.sqrt(expectedCharges * secondMoment),
+    expectedCharges,
+    historyDays,
+  };
+}
+
+/** Chance that spending stays at or under the cap, from the baseline alone */
+function modelProbability(baseline: SpendingBaseline, cap: number): number {
+  const noCharges = Math.exp(-baseline.expectedCharges);
+  if (cap <= 0 || baseline.stddev === 0) return noCharges;
+  return Math.max(noCharges, normalCdf((cap - baseline.expectedSpend) / baseline.stddev));
+}
+
+/** How the user's settled quests of this type ended, by their last snapshot */
+function pastOutcomes(userId: string, metricType: string): { attempts: number; passes: number } {
+  const rows = getDb().prepare(`
+    SELECT (
+      SELECT s.status FROM quest_progress_snapshot s
+      WHERE s.quest_id = q.id ORDER BY s.created_at DESC, s.rowid DESC LIMIT 1
+    ) AS outcome
+    FROM quest q
+    WHERE q.user_id = ? AND q.metric_type = ? AND q.status IN ('COMPLETED_VERIFIED', 'FAILED', 'EXPIRED')
+    ORDER BY q.window_end DESC
+    LIMIT ?
+  `).all(userId, metricType, HISTORY_QUESTS) as { outcome: string | null }[];
+
+  const settled = rows.filter(r => r.outcome === 'COMPLETED_VERIFIED' || r.outcome === 'FAILED' || r.outcome === 'EXPIRED');
+  return { attempts: settled.length, passes: settled.filter(r => r.outcome === 'COMPLETED_VERIFIED').length };
+}
+
+function blend(modelP: number, history: { attempts: number; passes: number }): number {
+  return (MODEL_WEIGHT * modelP + history.passes) / (MODEL_WEIGHT + history.attempts);
+}
+
+function calibrationFor(metricType: string, params: unknown): { calibration: MetricCalibration<any>; params: any } | null {
+  const metric = getQuestMetric(metricType);
+  const parsed = metric?.params.safeParse(params);
+  if (!metric?.calibration || !parsed?.success) return null;
+  return { calibration: metric.calibration, params: parsed.data };
+}
+
+function buildEstimate(baseline: SpendingBaseline, history: { attempts: number; passes: number }, cap: number): SuccessEstimate {
+  const probability = round2(blend(modelProbability(baseline, cap), history));
+  return {
+    probability,
+    tier: tierFor(probability),
+    baseline: {
+      expected_spend: round2(baseline.expectedSpend),
+      stddev: round2(baseline.stddev),
+      expected_charges: round2(baseline.expectedCharges),
+      history_days: baseline.historyDays,
+    },
+    history,
+  };
+}
+
+/**
+ * Estimate the chance a quest with these params succeeds over a window of
+ * `windowDays`. Null for metrics without calibration or a user without
+ * history.
+ */
+export function estimateQuestSuccess(
+  userId: string,
+  metricType: string,
+  params: unknown,
+  windowDays: number,
+  today = userToday(userId)
+): SuccessEstimate | null {
+  const found = calibrationFor(metricType, params);
+  if (!found) return null;
+  const baseline = spendingBaseline(userId, found.calibration.scope(found.params), windowDays, today);
+  if (!baseline) return null;
+  const cap = found.calibration.capParam ? Number(found.params[found.calibration.capParam]) : 0;
+  return buildEstimate(baseline, pastOutcomes(userId, metricType), cap);
+}
+
+export interface CalibratableQuest {
+  title: string;
+  description?: string;
+  metric_type: string;
+  metric_params: Record<string, any>;
+  reward_food_type: FoodType;
+  happiness_delta: number;
+}
+
+/**
+ * Move a proposed quest's cap so its chance of success hits the tier's
+ * target, and set its reward to match the tier it ends up in. Without a
+ * tier the quest keeps the tier its proposed cap already falls in, which
+ * pulls trivial caps down and impossible ones up. The cap's dollar amount
+ * is swapped in the title and description too.
+ */
+export function calibrateQuest<Q extends CalibratableQuest>(
+  userId: string,
+  quest: Q,
+  windowDays: number,
+  tier?: DifficultyTier,
+  today = userToday(userId)
+): { quest: Q; estimate: SuccessEstimate | null } {
+  const found = calibrationFor(quest.metric_type, quest.metric_params);
+  if (!found) return { quest, estimate: null };
+  const baseline = spendingBaseline(userId, found.calibration.scope(found.params), windowDays, today);
+  if (!baseline) return { quest, estimate: null };
+
+  const history = pastOutcomes(userId, quest.metric_type);
+  const capParam = found.calibration.capParam;
+  const proposedCap = capParam ? Number(found.params[capParam]) : 0;
+  const target = TIER_TARGETS[tier ?? buildEstimate(baseline, history, proposedCap).tier];
+
+  let calibrated = quest;
+  let cap = proposedCap;
+  // Nothing in the history to measure against: leave the cap as proposed
+  if (capParam && baseline.expectedCharges > 0) {
+    // Smallest cap that reaches the target (probability only grows with the cap)
+    let lo = 0;
+    let hi = baseline.expectedSpend + 6 * baseline.stddev;
+    for (let i = 0; i < 40; i++) {
+      const mid = (lo + hi) / 2;
+      if (blend(modelProbability(baseline, mid), history) >= target) hi = mid;
+      else lo = mid;
+    }
+    cap = Math.ceil(hi);
+
+    const swap = (text: string) => text.split(`$${proposedCap.toFixed(2)}`).join(`$${cap.toFixed(2)}`);
+    calibrated = {
+      ...quest,
+      title: swap(quest.title),
+      ...(quest.description !== undefined ? { description: swap(quest.description) } : {}),
+      metric_params: { ...quest.metric_params, [capParam]: cap },
+    };
+  }
+
+  const estimate = buildEstimate(baseline, history, cap);
+  return { quest: { ...calibrated, ...TIER_REWARDS[estimate.tier] }, estimate };
+}
@@ -0,0 +1,352 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { validateMetricParams } from './quest-metrics';
+import { estimateQuestSuccess } from './quest-calibration';
+import { FoodType, QuestStatus } from '../schemas';
+import { addDays, userToday } from './user-clock';
+
+// A quest chain is an ordered list of steps. Only the current step has a
+// quest row; when that quest is verified the next step gets its quest, and
+// verifying the last one completes the chain and pays the chain reward.
+
+export type ChainStatus = 'ACTIVE' | 'COMPLETED' | 'FAILED' | 'EXPIRED' | 'ABANDONED';
+
+export interface ChainStepInput {
+  title: string;
+  description?: string;
+  metric_type: string;
+  metric_params: Record<string, unknown>;
+  /** How long the step's quest runs once unlocked */
+  window_days: number;
+  reward_food_type?: FoodType;
+  happiness_delta?: number;
+}
+
+export interface ChainReward {
+  food_type: FoodType;
+  happiness: number;
+  /** Growth levels Scotty gains when the chain completes */
+  growth_levels: number;
+}
+
+export interface QuestChainInput {
+  title: string;
+  description?: string;
+  steps: ChainStepInput[];
+  reward?: Partial<ChainReward>;
+}
+
+export interface QuestChainStep {
+  position: number;
+  title: string;
+  description: string;
+  metric_type: string;
+  metric_params: Record<string, unknown>;
+  window_days: number;
+  quest_id: string | null;
+  /** LOCKED until the step's quest exists */
+  status: QuestStatus | 'LOCKED';
+}
+
+export interface QuestChain {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string;
+  campaign_id: string | null;
+  status: ChainStatus;
+  current_step: number;
+  total_steps: number;
+  completed_steps: number;
+  reward: ChainReward;
+  ends_at: string | null;
+  created_at: string;
+  steps: QuestChainStep[];
+}
+
+const MAX_STEPS = 10;
+const MAX_WINDOW_DAYS = 30;
+const FOOD_TYPES = ['kibble', 'bone', 'steak', 'salmon', 'truffle'];
+const DEFAULT_REWARD: ChainReward = { food_type: 'truffle', happiness: 15, growth_levels: 1 };
+
+function validateStep(step: any, index: number): { error?: string } {
+  const label = `steps[${index}]`;
+  if (!step || typeof step !== 'object') return { error: `${label} must be an object` };
+  if (typeof step.title !== 'string' || !step.title.trim()) return { error: `${label}.title required` };
+  if (step.description != null && typeof step.description !== 'string') return { error: `${label}.description must be a string` };
+  if (typeof step.metric_type !== 'string') return { error: `${label}.metric_type required` };
+  const params = validateMetricParams(step.metric_type, step.metric_params ?? {});
+  if (params.error) return { error: `${label}: ${params.error}` };
+  if (!Number.isInteger(step.window_days) || step.window_days < 1 || step.window_days > MAX_WINDOW_DAYS) {
+    return { error: `${label}.window_days must be a whole number from 1 to ${MAX_WINDOW_DAYS}` };
+  }
+  if (step.reward_food_type !== undefined && !FOOD_TYPES.includes(step.reward_food_type)) {
+    return { error: `${label}.reward_food_type must be one of ${FOOD_TYPES.join(', ')}` };
+  }
+  if (step.happiness_delta !== undefined && (!Number.isInteger(step.happiness_delta) || step.happiness_delta < 1 || step.happiness_delta > 20)) {
+    return { error: `${label}.happiness_delta must be a whole number from 1 to 20` };
+  }
+  return {};
+}
+
+export function validateQuestChainInput(body: any): { error?: string } {
+  if (!body || typeof body !== 'object') return { error: 'Chain body required' };
+  if (typeof body.title !== 'string' || !body.title.trim()) return { error: 'title required' };
+  if (body.description != null && typeof body.description !== 'string') return { error: 'description must be a string' };
+  if (!Array.isArray(body.steps) || body.steps.length === 0) return { error: 'steps array required' };
+  if (body.steps.length > MAX_STEPS) return { error: `A chain can have at most ${MAX_STEPS} steps` };
+  for (let i = 0; i < body.steps.length; i++) {
+    const check = validateStep(body.steps[i], i);
+    if (check.error) return check;
+  }
+  const reward = body.reward;
+  if (reward != null) {
+    if (typeof reward !== 'object') return { error: 'reward must be an object' };
+    if (reward.food_type !== undefined && !FOOD_TYPES.includes(reward.food_type)) {
+      return { error: `reward.food_type must be one of ${FOOD_TYPES.join(', ')}` };
+    }
+    if (reward.happiness !== undefined && (!Number.isInteger(reward.happiness) || reward.happiness < 0 || reward.happiness > 50)) {
+      return { error: 'reward.happiness must be a whole number from 0 to 50' };
+    }
+    if (reward.growth_levels !== undefined && (!Number.isInteger(reward.growth_levels) || reward.growth_levels < 0 || reward.growth_levels > 3)) {
+      return { error: 'reward.growth_levels must be a whole number from 0 to 3' };
+    }
+  }
+  return {};
+}
+
+function loadChain(row: any): QuestChain {
+  const steps = getDb().prepare(`
+    SELECT s.*, q.status AS quest_status FROM quest_chain_step s
+    LEFT JOIN quest q ON q.id = s.quest_id
+    WHERE s.chain_id = ? ORDER BY s.position
+  `).all(row.id) as any[];
+
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    title: row.title,
+    description: row.description,
+    campaign_id: row.campaign_id,
+    status: row.status,
+    current_step: row.current_step,
+    total_steps: steps.length,
+    completed_steps: steps.filter(s => s.quest_status === 'COMPLETED_VERIFIED').length,
+    reward: { food_type: row.reward_food_type, happiness: row.reward_happiness, growth_levels: row.reward_growth_levels },
+    ends_at: row.ends_at,
+    created_at: row.created_at,
+    steps: steps.map(s => ({
+      position: s.position,
+      title: s.title,
+      description: s.description,
+      metric_type: s.metric_type,
+      metric_params: JSON.parse(s.metric_params || '{}'),
+      window_days: s.window_days,
+      quest_id: s.quest_id,
+      status: s.quest_status ?? 'LOCKED',
+    })),
+  };
+}
+
+export function listQuestChains(userId: string): QuestChain[] {
+  const rows = getDb().prepare(
+    `SELECT * FROM quest_chain WHERE user_id = ? ORDER BY created_at DESC, rowid DESC`
+  ).all(userId) as any[];
+  return rows.map(loadChain);
+}
+
+export function getQuestChain(userId: string, chainId: string): QuestChain | null {
+  const row = getDb().prepare(`SELECT * FROM quest_chain WHERE id = ? AND user_id = ?`).get(chainId, userId);
+  return row ? loadChain(row) : null;
+}
+
+/** The chain a quest belongs to and its place in it, for the quest routes */
+export function chainForQuest(questId: string): { chain_id: string; title: string; position: number; total_steps: number } | null {
+  const row = getDb().prepare(`
+    SELECT c.id AS chain_id, c.title, s.position,
+           (SELECT COUNT(*) FROM quest_chain_step WHERE chain_id = c.id) AS total_steps
+    FROM quest_chain_step s JOIN quest_chain c ON c.id = s.chain_id
+    WHERE s.quest_id = ?
+  `).get(questId) as { chain_id: string; title: string; position: number; total_steps: number } | undefined;
+  return row ?? null;
+}
+
+/**
+ * Give a step its quest, starting today. A campaign step never runs past
+ * the campaign's end; once the campaign is over the chain expires instead.
+ */
+function unlockStep(chainId: string, position: number): void {
+  const db = getDb();
+  const chain = db.prepare(`SELECT * FROM quest_chain WHERE id = ?`).get(chainId) as any;
+  const step = db.prepare(
+    `SELECT * FROM quest_chain_step WHERE chain_id = ? AND position = ?`
+  ).get(chainId, position) as any;
+
+  const today = userToday(chain.user_id);
+  if (chain.ends_at && today > chain.ends_at) {
+    db.prepare(`UPDATE quest_chain SET status = 'EXPIRED', updated_at = datetime('now') WHERE id = ?`).run(chainId);
+    return;
+  }
+  let windowEnd = addDays(today, step.window_days);
+  if (chain.ends_at && windowEnd > chain.ends_at) windowEnd = chain.ends_at;
+
+  // Chain steps keep their designed caps and rewards; only the chance is recorded
+  const estimate = estimateQuestSuccess(chain.user_id, step.metric_type, JSON.parse(step.metric_params), step.window_days, today);
+  const questId = uuid();
+  db.prepare(`
+    INSERT INTO quest (id, user_id, status, title, description, window_start, window_end, metric_type, metric_params,
+      reward_food_type, happiness_delta, created_by, success_probability, difficulty)
+    VALUES (?, ?, 'ACTIVE', ?, ?, ?, ?, ?, ?, ?, ?, 'chain', ?, ?)
+  `).run(
+    questId, chain.user_id, step.title, step.description, today, windowEnd,
+    step.metric_type, step.metric_params, step.reward_food_type, step.happiness_delta,
+    estimate?.probability ?? null, estimate?.tier ?? null
+  );
+  db.prepare(`UPDATE quest_chain_step SET quest_id = ? WHERE chain_id = ? AND position = ?`).run(questId, chainId, position);
+  db.prepare(`
+    UPDATE quest_chain SET current_step = ?, status = 'ACTIVE', updated_at = datetime('now') WHERE id = ?
+  `).run(position, chainId);
+}
+
+/**
+ * Create a chain and unlock its first step. Campaign chains pass the
+ * campaign id and end date.
+ */
+export function createQuestChain(
+  userId: string,
+  input: QuestChainInput,
+  campaign?: { id: string; ends_at: string }
+): QuestChain {
+  const db = getDb();
+  const id = uuid();
+  const reward = { ...DEFAULT_REWARD, ...input.reward };
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO quest_chain (id, user_id, title, description, campaign_id, reward_food_type, reward_happiness, reward_growth_levels, ends_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, userId, input.title.trim(), input.description ?? '', campaign?.id ?? null,
+      reward.food_type, reward.happiness, reward.growth_levels, campaign?.ends_at ?? null
+    );
+    const insertStep = db.prepare(`
+      INSERT INTO quest_chain_step (chain_id, position, title, description, metric_type, metric_params, window_days, reward_food_type, happiness_delta)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    input.steps.forEach((step, position) => {
+      insertStep.run(
+        id, position, step.title.trim(), step.description ?? '', step.metric_type, JSON.stringify(step.metric_params),
+        step.window_days, step.reward_food_type ?? 'bone', step.happiness_delta ?? 5
+      );
+    });
+    unlockStep(id, 0);
+  })();
+
+  return getQuestChain(userId, id)!;
+}
+
+/**
+ * Leave a chain. Its unfinished quest is marked ABANDONED so it stops showing
+ * as active and is skipped by later evaluations. Returns false when the chain
+ * isn't the user's or is already over.
+ */
+export function abandonQuestChain(userId: string, chainId: string): boolean {
+  const db = getDb();
+  const chain = db.prepare(
+    `SELECT * FROM quest_chain WHERE id = ? AND user_id = ? AND status = 'ACTIVE'`
+  ).get(chainId, userId) as any;
+  if (!chain) return false;
+
+  const step = db.prepare(`
+    SELECT s.quest_id FROM quest_chain_step s JOIN quest q ON q.id = s.quest_id
+    WHERE s.chain_id = ? AND s.position = ? AND q.status IN ('ACTIVE', 'COMPLETED_PROVISIONAL')
+  `).get(chainId, chain.current_step) as { quest_id: string } | undefined;
+
+  db.transaction(() => {
+    db.prepare(`UPDATE quest_chain SET status = 'ABANDONED', updated_at = datetime('now') WHERE id = ?`).run(chainId);
+    if (step) {
+      db.prepare(
+        `UPDATE quest SET status = 'ABANDONED', paused_at = NULL, updated_at = datetime('now') WHERE id = ?`
+      ).run(step.quest_id);
+    }
+  })();
+  return true;
+}
+
+/**
+ * Move a chain along after one of its quests was evaluated. Only the current
+ * step counts: verifying it unlocks the next step (or completes the chain),
+ * failing or expiring it ends the chain, and a revoked final step reopens a
+ * completed chain and takes its reward back. Runs inside the evaluation's
+ * database transaction.
+ */
+export function advanceQuestChain(questId: string, newStatus: QuestStatus): void {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT c.*, s.position,
+           (SELECT COUNT(*) FROM quest_chain_step WHERE chain_id = c.id) AS total_steps
+    FROM quest_chain_step s JOIN quest_chain c ON c.id = s.chain_id
+    WHERE s.quest_id = ?
+  `).get(questId) as any;
+  if (!row || row.status === 'ABANDONED' || row.position !== row.current_step) return;
+
+  const setStatus = (status: ChainStatus) =>
+    db.prepare(`UPDATE quest_chain SET status = ?, updated_at = datetime('now') WHERE id = ?`).run(status, row.id);
+  const reward: ChainReward = {
+    food_type: row.reward_food_type,
+    happiness: row.reward_happiness,
+    growth_levels: row.reward_growth_levels,
+  };
+
+  if (newStatus === 'COMPLETED_VERIFIED') {
+    if (row.position + 1 < row.total_steps) {
+      unlockStep(row.id, row.position + 1);
+    } else if (row.status !== 'COMPLETED') {
+      setStatus('COMPLETED');
+      grantChainReward(row.user_id, reward);
+    }
+    return;
+  }
+
+  if (row.status === 'COMPLETED') revokeChainReward(row.user_id, reward);
+  setStatus(newStatus === 'FAILED' || newStatus === 'EXPIRED' ? newStatus : 'ACTIVE');
+}
+
+const MOOD_SQL = (happiness: string) => `CASE
+        WHEN ${happiness} >= 80 THEN 'happy'
+        WHEN ${happiness} >= 50 THEN 'content'
+        WHEN ${happiness} >= 25 THEN 'worried'
+        ELSE 'sad'
+      END`;
+
+/** Chain reward: happiness, a food drop and growth levels on top of the step rewards */
+function grantChainReward(userId: string, reward: ChainReward): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR IGNORE INTO scotty_state (user_id, happiness, mood, food_credits)
+    VALUES (?, 70, 'content', 10)
+  `).run(userId);
+  db.prepare(`
+    UPDATE scotty_state SET
+      happiness = MIN(100, happiness + @happiness),
+      mood = ${MOOD_SQL('MIN(100, happiness + @happiness)')},
+      food_credits = food_credits + 5,
+      growth_level = growth_level + @growth,
+      last_reward_food = @food,
+      last_reward_at = @now,
+      updated_at = datetime('now')
+    WHERE user_id = @userId
+  `).run({ happiness: reward.happiness, growth: reward.growth_levels, food: reward.food_type, now: new Date().toISOString(), userId });
+}
+
+function revokeChainReward(userId: string, reward: ChainReward): void {
+  getDb().prepare(`
+    UPDATE scotty_state SET
+      happiness = MAX(0, happiness - @happiness),
+      mood = ${MOOD_SQL('MAX(0, happiness - @happiness)')},
+      food_credits = MAX(0, food_credits - 5),
+      growth_level = MAX(1, growth_level - @growth),
+      updated_at = datetime('now')
+    WHERE user_id = @userId
+  `).run({ happiness: reward.happiness, growth: reward.growth_levels, userId });
+}
@@ -1,6 +1,10 @@
 import { v4 as uuid } from 'uuid';
 import { getDb } from '../db/database';
-import { getTransactions } from './ingestion';
+import { getQuestMetric, MetricResult } from './quest-metrics';
+import { advanceQuestChain } from './quest-chains';
+import { allocateQuestSavings, releaseQuestSavings } from './goals';
+import { publishEvent, publishScottyState } from './events';
+import { userToday } from './user-clock';
 import { QuestStatus } from '../schemas';
 
 interface QuestRow {
@@ -16,6 +20,9 @@ interface QuestRow {
   happiness_delta: number;
 }
 
+/** Quests that aren't running: offered, paused, declined or abandoned ones have no progress to check */
+const NOT_RUNNING = ['OFFERED', 'PAUSED', 'DECLINED', 'ABANDONED'];
+
 interface EvaluationResult {
   questId: string;
   previousStatus: string;
@@ -24,179 +31,83 @@ interface EvaluationResult {
   pendingValue: number;
   explanation: string;
   rewardGranted: boolean;
+  rewardRevoked: boolean;
 }
 
 /**
  * Evaluate a quest's progress based on actual transactions.
  * This is the core verification engine — only posted transactions confirm completion.
+ * The metric's own module (see quest-metrics) does the counting.
  */
 export function evaluateQuest(questId: string): EvaluationResult {
   const db = getDb();
   const quest = db.prepare('SELECT * FROM quest WHERE id = ?').get(questId) as QuestRow | undefined;
   if (!quest) throw new Error(`Quest not found: ${questId}`);
+  if (NOT_RUNNING.includes(quest.status)) {
+    return {
+      questId,
+      previousStatus: quest.status,
+      newStatus: quest.status,
+      confirmedValue: 0,
+      pendingValue: 0,
+      explanation: `Quest is ${quest.status.toLowerCase()}; progress isn't tracked.`,
+      rewardGranted: false,
+      rewardRevoked: false,
+    };
+  }
 
-  const params = JSON.parse(quest.metric_params);
   const now = new Date();
-  const windowEnd = new Date(quest.window_end);
-  const windowExpired = now > windowEnd;
-
-  // Get posted transactions in window
-  const posted = getTransactions(quest.user_id, quest.window_start, quest.window_end, {
-    includePending: false,
-    category: params.category,
-    merchant_key: params.merchant_key,
-  });
+  // Windows run on the user's calendar: a quest ends when their local date reaches window_end
+  const today = userToday(quest.user_id, now);
+  const metric = getQuestMetric(quest.metric_type);
+  const params = metric?.params.safeParse(JSON.parse(quest.metric_params));
 
-  // Get pending transactions in window
-  const allTxns = getTransactions(quest.user_id, quest.window_start, quest.window_end, {
-    includePending: true,
-    category: params.category,
-    merchant_key: params.merchant_key,
-  });
-  const pendingTxns = allTxns.filter(t => t.pending);
+  let result: MetricResult;
+  if (!metric || !params?.success) {
+    // Nothing to measure against: leave the status alone rather than guess
+    result = {
+      confirmedValue: 0,
+      pendingValue: 0,
+      status: quest.status as QuestStatus,
+      explanation: metric
+        ? `Quest settings don't fit ${quest.metric_type}; progress can't be checked.`
+        : `Unknown quest type ${quest.metric_type}; progress can't be checked.`,
+    };
+  } else {
+    result = metric.evaluate({
+      quest,
+      params: params.data,
+      now,
+      today,
+      windowExpired: today >= quest.window_end.slice(0, 10),
+    });
+  }
 
-  let confirmedValue = 0;
-  let pendingValue = 0;
-  let newStatus: QuestStatus = quest.status as QuestStatus;
-  let explanation = '';
+  const { confirmedValue, pendingValue, pinnedParams } = result;
+  const newStatus = result.status;
+  let explanation = result.explanation;
   let rewardGranted = false;
+  let rewardRevoked = false;
 
-  switch (quest.metric_type) {
-    case 'CATEGORY_SPEND_CAP': {
-      const cap = params.cap as number;
-      confirmedValue = posted
-        .filter(t => t.amount < 0)
-        .reduce((sum, t) => sum + Math.abs(t.amount), 0);
-      pendingValue = pendingTxns
-        .filter(t => t.amount < 0)
-        .reduce((sum, t) => sum + Math.abs(t.amount), 0);
-
-      confirmedValue = Math.round(confirmedValue * 100) / 100;
-      pendingValue = Math.round(pendingValue * 100) / 100;
-
-      if (windowExpired) {
-        newStatus = confirmedValue <= cap ? 'COMPLETED_VERIFIED' : 'FAILED';
-        explanation = confirmedValue <= cap
-          ? `Spent $${confirmedValue.toFixed(2)} (cap: $${cap.toFixed(2)}). Quest completed!`
-          : `Spent $${confirmedValue.toFixed(2)} (cap: $${cap.toFixed(2)}). Over budget.`;
-      } else if (confirmedValue > cap) {
-        newStatus = 'FAILED';
-        explanation = `Already spent $${confirmedValue.toFixed(2)}, exceeding cap of $${cap.toFixed(2)}.`;
-      } else if (confirmedValue + pendingValue > cap) {
-        newStatus = 'ACTIVE';
-        explanation = `$${confirmedValue.toFixed(2)} confirmed + $${pendingValue.toFixed(2)} pending. Close to cap of $${cap.toFixed(2)}.`;
-      } else {
-        newStatus = 'ACTIVE';
-        explanation = `$${confirmedValue.toFixed(2)} of $${cap.toFixed(2)} cap used so far. On track!`;
-      }
-      break;
-    }
-
-    case 'MERCHANT_SPEND_CAP': {
-      const cap = params.cap as number;
-      const merchantKey = params.merchant_key as string;
-      const merchantPosted = posted.filter(t =>
-        (t.merchant_name || t.name).toLowerCase() === merchantKey.toLowerCase() && t.amount < 0
-      );
-      const merchantPending = pendingTxns.filter(t =>
-        (t.merchant_name || t.name).toLowerCase() === merchantKey.toLowerCase() && t.amount < 0
-      );
-
-      confirmedValue = Math.round(
-        merchantPosted.reduce((sum, t) => sum + Math.abs(t.amount), 0) * 100
-      ) / 100;
-      pendingValue = Math.round(
-        merchantPending.reduce((sum, t) => sum + Math.abs(t.amount), 0) * 100
-      ) / 100;
-
-      if (windowExpired) {
-        newStatus = confirmedValue <= cap ? 'COMPLETED_VERIFIED' : 'FAILED';
-        explanation = confirmedValue <= cap
-          ? `Spent $${confirmedValue.toFixed(2)} at ${merchantKey} (cap: $${cap.toFixed(2)}). Quest completed!`
-          : `Spent $${confirmedValue.toFixed(2)} at ${merchantKey} (cap: $${cap.toFixed(2)}). Over limit.`;
-      } else if (confirmedValue > cap) {
-        newStatus = 'FAILED';
-        explanation = `Already spent $${confirmedValue.toFixed(2)} at ${merchantKey}, exceeding cap.`;
-      } else {
-        newStatus = 'ACTIVE';
-        explanation = `$${confirmedValue.toFixed(2)} of $${cap.toFixed(2)} cap at ${merchantKey}.`;
-      }
-      break;
-    }
-
-    case 'NO_MERCHANT_CHARGE': {
-      const merchantKey = params.merchant_key as string;
-      const merchantPosted = posted.filter(t =>
-        (t.merchant_name || t.name).toLowerCase() === merchantKey.toLowerCase() && t.amount < 0
-      );
-      const merchantPending = pendingTxns.filter(t =>
-        (t.merchant_name || t.name).toLowerCase() === merchantKey.toLowerCase() && t.amount < 0
-      );
-
-      confirmedValue = merchantPosted.length;
-      pendingValue = merchantPending.length;
-
-      if (windowExpired) {
-        newStatus = confirmedValue === 0 ? 'COMPLETED_VERIFIED' : 'FAILED';
-        explanation = confirmedValue === 0
-          ? `No charges from ${merchantKey} detected. Verification passed!`
-          : `${confirmedValue} charge(s) from ${merchantKey} detected.`;
-      } else if (confirmedValue > 0) {
-        newStatus = 'FAILED';
-        explanation = `${confirmedValue} posted charge(s) from ${merchantKey} detected.`;
-      } else if (pendingValue > 0) {
-        newStatus = 'COMPLETED_PROVISIONAL';
-        explanation = `No posted charges from ${merchantKey}, but ${pendingValue} pending. Provisional until posting.`;
-      } else {
-        newStatus = 'ACTIVE';
-        explanation = `No charges from ${merchantKey} so far. Monitoring continues.`;
-      }
-      break;
-    }
-
-    case 'TRANSFER_AMOUNT': {
-      const targetAmount = params.target_amount as number;
-      const transferTxns = posted.filter(t => t.amount > 0 && (
-        t.category_primary === 'Transfer' ||
-        t.name.toLowerCase().includes('transfer') ||
-        t.name.toLowerCase().includes('savings')
-      ));
-      const pendingTransfers = pendingTxns.filter(t => t.amount > 0 && (
-        t.category_primary === 'Transfer' ||
-        t.name.toLowerCase().includes('transfer')
-      ));
-
-      confirmedValue = Math.round(
-        transferTxns.reduce((sum, t) => sum + t.amount, 0) * 100
-      ) / 100;
-      pendingValue = Math.round(
-        pendingTransfers.reduce((sum, t) => sum + t.amount, 0) * 100
-      ) / 100;
+  const previousStatus = quest.status;
+  const lastSnapshot = db.prepare(`
+    SELECT confirmed_value, pending_value FROM quest_progress_snapshot
+    WHERE quest_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1
+  `).get(questId) as { confirmed_value: number; pending_value: number } | undefined;
 
-      if (confirmedValue >= targetAmount) {
-        newStatus = 'COMPLETED_VERIFIED';
-        explanation = `Transferred $${confirmedValue.toFixed(2)} (target: $${targetAmount.toFixed(2)}). Quest completed!`;
-      } else if (confirmedValue + pendingValue >= targetAmount) {
-        newStatus = 'COMPLETED_PROVISIONAL';
-        explanation = `$${confirmedValue.toFixed(2)} confirmed + $${pendingValue.toFixed(2)} pending toward $${targetAmount.toFixed(2)} target.`;
-      } else if (windowExpired) {
-        newStatus = 'EXPIRED';
-        explanation = `Only $${confirmedValue.toFixed(2)} of $${targetAmount.toFixed(2)} transferred before deadline.`;
-      } else {
-        newStatus = 'ACTIVE';
-        explanation = `$${confirmedValue.toFixed(2)} of $${targetAmount.toFixed(2)} transferred so far.`;
-      }
-      break;
-    }
+  // A correction (late charge, reversed transfer) can undo a verified completion
+  if (previousStatus === 'COMPLETED_VERIFIED' && newStatus !== 'COMPLETED_VERIFIED') {
+    explanation = `Completion revoked after transactions changed. ${explanation}`;
   }
 
-  const previousStatus = quest.status;
-
   // Atomic: update quest status + snapshot + reward in a single transaction
   const commitEvaluation = db.transaction(() => {
     // Update quest status
     db.prepare(`UPDATE quest SET status = ?, updated_at = datetime('now') WHERE id = ?`)
       .run(newStatus, questId);
+    if (pinnedParams) {
+      db.prepare(`UPDATE quest SET metric_params = ? WHERE id = ?`).run(JSON.stringify(pinnedParams), questId);
+    }
 
     // Create progress snapshot
     db.prepare(`
@@ -208,10 +119,20 @@ export function evaluateQuest(questId: string): EvaluationResult {
     if (newStatus === 'COMPLETED_VERIFIED' && previousStatus !== 'COMPLETED_VERIFIED') {
       grantReward(quest.user_id, quest.reward_food_type, quest.happiness_delta);
       rewardGranted = true;
+    } else if (previousStatus === 'COMPLETED_VERIFIED' && newStatus !== 'COMPLETED_VERIFIED') {
+      revokeReward(quest.user_id, quest.happiness_delta);
+      rewardRevoked = true;
     }
+
+    // A verified chain step unlocks the next one; a failed one ends the chain
+    advanceQuestChain(questId, newStatus);
   });
 
   commitEvaluation();
+  // What a spend-cap quest left unspent counts toward a goal while it stays verified
+  if (rewardGranted) allocateQuestSavings(quest.user_id, questId, now);
+  else if (rewardRevoked) releaseQuestSavings(quest.user_id, questId, now);
+  publishEvaluation(quest, { previousStatus, newStatus, confirmedValue, pendingValue, explanation }, lastSnapshot);
 
   return {
     questId,
@@ -221,9 +142,48 @@ export function evaluateQuest(questId: string): EvaluationResult {
     pendingValue,
     explanation,
     rewardGranted,
+    rewardRevoked,
   };
 }
 
+/**
+ * Tell the user's live stream what changed: progress when the status or
+ * values moved, the completion itself, and Scotty's state when a reward
+ * (quest or chain) was granted or taken back.
+ */
+function publishEvaluation(
+  quest: QuestRow,
+  result: Pick<EvaluationResult, 'previousStatus' | 'newStatus' | 'confirmedValue' | 'pendingValue' | 'explanation'>,
+  lastSnapshot: { confirmed_value: number; pending_value: number } | undefined
+): void {
+  const { previousStatus, newStatus, confirmedValue, pendingValue, explanation } = result;
+  const moved = newStatus !== previousStatus
+    || lastSnapshot?.confirmed_value !== confirmedValue
+    || lastSnapshot?.pending_value !== pendingValue;
+  if (!moved) return;
+
+  publishEvent(quest.user_id, 'quest.progress', {
+    quest_id: quest.id,
+    status: newStatus,
+    previous_status: previousStatus,
+    confirmed_value: confirmedValue,
+    pending_value: pendingValue,
+    explanation,
+  });
+  const verified = newStatus === 'COMPLETED_VERIFIED';
+  if (verified !== (previousStatus === 'COMPLETED_VERIFIED')) {
+    if (verified) {
+      publishEvent(quest.user_id, 'quest.completed', {
+        quest_id: quest.id,
+        title: quest.title,
+        reward_food_type: quest.reward_food_type,
+        happiness_delta: quest.happiness_delta,
+      });
+    }
+    publishScottyState(quest.user_id);
+  }
+}
+
 /**
  * Evaluate all active quests for a user.
  */
@@ -236,6 +196,23 @@ export function evaluateUserQuests(userId: string): EvaluationResult[] {
   return quests.map(q => evaluateQuest(q.id));
 }
 
+/**
+ * Re-evaluate every running or settled quest whose window contains one of the
+ * given transaction dates. Used after provider corrections so verified
+ * results reflect late charges, reversals and amount changes.
+ */
+export function reevaluateQuestsForDates(userId: string, dates: string[]): EvaluationResult[] {
+  if (dates.length === 0) return [];
+  const db = getDb();
+  const quests = db.prepare(
+    `SELECT id, window_start, window_end FROM quest WHERE user_id = ? AND status NOT IN (${NOT_RUNNING.map(() => '?').join(', ')})`
+  ).all(userId, ...NOT_RUNNING) as Pick<QuestRow, 'id' | 'window_start' | 'window_end'>[];
+
+  return quests
+    .filter(q => dates.some(d => d >= q.window_start.slice(0, 10) && d <= q.window_end.slice(0, 10)))
+    .map(q => evaluateQuest(q.id));
+}
+
 /**
  * Grant reward: update scotty_state with happiness and food credit.
  */
@@ -265,3 +242,23 @@ function grantReward(userId: string, foodType: string, happinessDelta: number):
     WHERE user_id = ?
   `).run(happinessDelta, happinessDelta, happinessDelta, happinessDelta, foodType, now, userId);
 }
+
+/**
+ * Take back a previously granted reward when a verified quest is revoked.
+ */
+function revokeReward(userId: string, happinessDelta: number): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE scotty_state SET
+      happiness = MAX(0, happiness - ?),
+      mood = CASE
+        WHEN MAX(0, happiness - ?) >= 80 THEN 'happy'
+        WHEN MAX(0, happiness - ?) >= 50 THEN 'content'
+        WHEN MAX(0, happiness - ?) >= 25 THEN 'worried'
+        ELSE 'sad'
+      END,
+      food_credits = MAX(0, food_credits - 3),
+      updated_at = datetime('now')
+    WHERE user_id = ?
+  `).run(happinessDelta, happinessDelta, happinessDelta, happinessDelta, userId);
+}
@@ -0,0 +1,209 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { calibrateQuest } from './quest-calibration';
+import { chainForQuest } from './quest-chains';
+import { DailyDigestOutput } from '../schemas';
+import { userToday, addDays, daysBetween, startOfWeek } from './user-clock';
+
+// Digest quests are offered, not imposed. An OFFERED quest becomes ACTIVE
+// when accepted, DECLINED when turned down (the reason is kept in
+// chat_memory for the agent) or is swapped for an alternative, which uses up
+// one of the week's rerolls. An ACTIVE quest can be PAUSED and resumed, or
+// ABANDONED. Chain quests belong to their chain: leave the chain instead.
+
+export const REROLLS_PER_WEEK = 3;
+
+type OfferedQuest = NonNullable<DailyDigestOutput['quest']>;
+
+export interface LifecycleResult {
+  quest?: any;
+  error?: string;
+}
+
+function getQuestRow(userId: string, questId: string): any | null {
+  return getDb().prepare(`SELECT * FROM quest WHERE id = ? AND user_id = ?`).get(questId, userId) ?? null;
+}
+
+/** Restart a quest's window from today, keeping its length */
+function restartWindow(questId: string, quest: { window_start: string; window_end: string }, today: string): void {
+  const length = daysBetween(quest.window_start, quest.window_end);
+  getDb().prepare(`UPDATE quest SET window_start = ?, window_end = ? WHERE id = ?`)
+    .run(today, addDays(today, length), questId);
+}
+
+/** "Food & Drink" or "starbucks": what a quest is about, for feedback lines */
+function questScope(quest: { metric_type: string; metric_params: string }): string {
+  const params = JSON.parse(quest.metric_params || '{}');
+  const scope = params.category ?? params.merchant_key;
+  return scope ? `${quest.metric_type}, ${scope}` : quest.metric_type;
+}
+
+function recordFeedback(userId: string, content: string): void {
+  getDb().prepare(`INSERT INTO chat_memory (id, user_id, type, content) VALUES (?, ?, 'quest_feedback', ?)`)
+    .run(uuid(), userId, content);
+}
+
+/**
+ * Insert a digest quest as an offer, with its cap and reward calibrated to
+ * the user's history. Returns the quest id.
+ */
+export function offerQuest(userId: string, offered: OfferedQuest, today = userToday(userId)): string {
+  const days = Math.max(1, Math.ceil(offered.window_hours / 24));
+  const { quest, estimate } = calibrateQuest(userId, offered, days, undefined, today);
+  const questId = uuid();
+  getDb().prepare(`
+    INSERT INTO quest (id, user_id, status, title, description, window_start, window_end, metric_type, metric_params,
+      reward_food_type, happiness_delta, created_by, success_probability, difficulty)
+    VALUES (?, ?, 'OFFERED', ?, ?, ?, ?, ?, ?, ?, ?, 'agent', ?, ?)
+  `).run(
+    questId, userId, quest.title, quest.description || '', today, addDays(today, days),
+    quest.metric_type, JSON.stringify(quest.metric_params), quest.reward_food_type, quest.happiness_delta,
+    estimate?.probability ?? null, estimate?.tier ?? null
+  );
+  return questId;
+}
+
+/** The user's open offer, if any. Offers left unanswered past their window expire first. */
+export function openOffer(userId: string, today = userToday(userId)): any | null {
+  const db = getDb();
+  db.prepare(`
+    UPDATE quest SET status = 'EXPIRED', updated_at = datetime('now')
+    WHERE user_id = ? AND status = 'OFFERED' AND window_end < ?
+  `).run(userId, today);
+  return db.prepare(
+    `SELECT * FROM quest WHERE user_id = ? AND status = 'OFFERED' ORDER BY created_at DESC LIMIT 1`
+  ).get(userId) ?? null;
+}
+
+/** Accept an offer: it becomes ACTIVE with its window starting today. Null if not found. */
+export function acceptQuest(userId: string, questId: string, today = userToday(userId)): LifecycleResult | null {
+  const quest = getQuestRow(userId, questId);
+  if (!quest) return null;
+  if (quest.status !== 'OFFERED') return { error: `Only offered quests can be accepted (quest is ${quest.status})` };
+
+  getDb().transaction(() => {
+    restartWindow(questId, quest, today);
+    getDb().prepare(`UPDATE quest SET status = 'ACTIVE', updated_at = datetime('now') WHERE id = ?`).run(questId);
+  })();
+  return { quest: getQuestRow(userId, questId) };
+}
+
+/** Turn down an offer. The reason is remembered so later digests can avoid similar quests. */
+export function declineQuest(userId: string, questId: string, reason?: string): LifecycleResult | null {
+  const quest = getQuestRow(userId, questId);
+  if (!quest) return null;
+  if (quest.status !== 'OFFERED') return { error: `Only offered quests can be declined (quest is ${quest.status})` };
+
+  getDb().transaction(() => {
+    getDb().prepare(`UPDATE quest SET status = 'DECLINED', updated_at = datetime('now') WHERE id = ?`).run(questId);
+    recordFeedback(userId, `Declined "${quest.title}" (${questScope(quest)}): ${reason?.trim() || 'no reason given'}`);
+  })();
+  return { quest: getQuestRow(userId, questId) };
+}
+
+/** Rerolls left in the user's week, which starts on Monday */
+export function rerollsLeft(userId: string, today = userToday(userId)): number {
+  const row = getDb().prepare(
+    `SELECT COUNT(*) AS used FROM quest WHERE user_id = ? AND rerolled_at >= ?`
+  ).get(userId, startOfWeek(today, 1)) as { used: number };
+  return Math.max(0, REROLLS_PER_WEEK - row.used);
+}
+
+/**
+ * Check a swap can go ahead before an alternative is generated: the quest
+ * must be an open offer and a reroll must be left this week.
+ */
+export function checkSwap(userId: string, questId: string, today = userToday(userId)): LifecycleResult | null {
+  const quest = getQuestRow(userId, questId);
+  if (!quest) return null;
+  if (quest.status !== 'OFFERED') return { error: `Only offered quests can be swapped (quest is ${quest.status})` };
+  if (rerollsLeft(userId, today) === 0) return { error: `No rerolls left this week (${REROLLS_PER_WEEK} per week)` };
+  return { quest };
+}
+
+/** Swap an offer for an alternative, using up a reroll. Call checkSwap first. Returns the new offer. */
+export function swapQuest(
+  userId: string,
+  questId: string,
+  alternative: OfferedQuest,
+  reason?: string,
+  today = userToday(userId)
+): LifecycleResult {
+  const quest = getQuestRow(userId, questId);
+  let newId = '';
+  getDb().transaction(() => {
+    getDb().prepare(`
+      UPDATE quest SET status = 'DECLINED', rerolled_at = ?, updated_at = datetime('now') WHERE id = ?
+    `).run(today, questId);
+    recordFeedback(userId, `Swapped out "${quest.title}" (${questScope(quest)}): ${reason?.trim() || 'no reason given'}`);
+    newId = offerQuest(userId, alternative, today);
+  })();
+  return { quest: getQuestRow(userId, newId) };
+}
+
+function checkOwnQuest(quest: any, allowed: string[], action: string): string | null {
+  if (chainForQuest(quest.id)) return `Quest is part of a chain; leave the chain instead of trying to ${action} it`;
+  if (!allowed.includes(quest.status)) return `Can't ${action} a quest that is ${quest.status}`;
+  return null;
+}
+
+/** Pause an active quest. Progress isn't tracked while paused. */
+export function pauseQuest(userId: string, questId: string): LifecycleResult | null {
+  const quest = getQuestRow(userId, questId);
+  if (!quest) return null;
+  const error = checkOwnQuest(quest, ['ACTIVE'], 'pause');
+  if (error) return { error };
+
+  getDb().prepare(`
+    UPDATE quest SET status = 'PAUSED', paused_at = datetime('now'), updated_at = datetime('now') WHERE id = ?
+  `).run(questId);
+  return { quest: getQuestRow(userId, questId) };
+}
+
+/** Resume a paused quest. Its window starts over from today with the same length. */
+export function resumeQuest(userId: string, questId: string, today = userToday(userId)): LifecycleResult | null {
+  const quest = getQuestRow(userId, questId);
+  if (!quest) return null;
+  const error = checkOwnQuest(quest, ['PAUSED'], 'resume');
+  if (error) return { error };
+
+  getDb().transaction(() => {
+    restartWindow(questId, quest, today);
+    getDb().prepare(`
+      UPDATE quest SET status = 'ACTIVE', paused_at = NULL, updated_at = datetime('now') WHERE id = ?
+    `).run(questId);
+  })();
+  return { quest: getQuestRow(userId, questId) };
+}
+
+/** Give up an active or paused quest. No reward, and it stops being evaluated. */
+export function abandonQuest(userId: string, questId: string): LifecycleResult | null {
+  const quest = getQuestRow(userId, questId);
+  if (!quest) return null;
+  const error = checkOwnQuest(quest, ['ACTIVE', 'PAUSED'], 'abandon');
+  if (error) return { error };
+
+  getDb().prepare(`
+    UPDATE quest SET status = 'ABANDONED', paused_at = NULL, updated_at = datetime('now') WHERE id = ?
+  `).run(questId);
+  return { quest: getQuestRow(userId, questId) };
+}
+
+/** The user's latest quest feedback lines, newest first */
+export function recentQuestFeedback(userId: string, limit = 5): string[] {
+  const rows = getDb().prepare(`
+    SELECT content FROM chat_memory WHERE user_id = ? AND type = 'quest_feedback'
+    ORDER BY created_at DESC, rowid DESC LIMIT ?
+  `).all(userId, limit) as { content: string }[];
+  return rows.map(r => r.content);
+}
+
+/** Categories of quests the user declined in the last `days` days */
+export function recentlyDeclinedCategories(userId: string, days = 7): string[] {
+  const rows = getDb().prepare(`
+    SELECT DISTINCT json_extract(metric_params, '$.category') AS category FROM quest
+    WHERE user_id = ? AND status = 'DECLINED' AND updated_at >= datetime('now', ?)
+      AND json_extract(metric_params, '$.category') IS NOT NULL
+  `).all(userId, `-${days} days`) as { category: string }[];
+  return rows.map(r => r.category);
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { getTransactions } from '../ingestion';
+import { categoryAmount } from '../splits';
+import { categoryFamily } from '../categories';
+import { defineMetric, windowTransactions, windowDays, round2, money } from './shared';
+import { QuestStatus, Transaction } from '../../schemas';
+
+/** Spend in the category over the 7 days before the window, scaled to the window's length. */
+function weeklyCategoryBaseline(userId: string, family: string[], windowStart: string, windowLength: number): number {
+  const end = new Date(`${windowStart.slice(0, 10)}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() - 1);
+  const start = new Date(end);
+  start.setUTCDate(start.getUTCDate() - 6);
+  const lastWeek = getTransactions(userId, start.toISOString().slice(0, 10), end.toISOString().slice(0, 10), {
+    category: family[0],
+  });
+  const spent = lastWeek
+    .filter(t => t.amount < 0)
+    .reduce((sum, t) => sum + Math.abs(categoryAmount(t, family)), 0);
+  return round2((spent * windowLength) / 7);
+}
+
+/** The spending cap the cut works out to, once the baseline is known */
+const reducedCap = (baseline: number, pct: number) => round2(baseline * (1 - pct / 100));
+
+export const categoryReductionPct = defineMetric({
+  type: 'CATEGORY_REDUCTION_PCT',
+  summary: 'spend that percent less in a category than last week',
+  icon: '📉',
+  params: z.object({
+    category: z.string(),
+    reduction_pct: z.number().gt(0).max(100),
+    baseline: z.number().nonnegative().optional(),
+  }).passthrough(),
+  internalParams: ['baseline'],
+  progressUnit: 'spent',
+  goal: params => (params.baseline !== undefined ? reducedCap(params.baseline, params.reduction_pct) : 0),
+  formatProgress: (value, params) => params.baseline !== undefined
+    ? `${money(value)} of ${money(reducedCap(params.baseline, params.reduction_pct))} spent`
+    : `${money(value)} spent`,
+  describe: params =>
+    `Spend ${params.reduction_pct}% less on ${params.category} than last week. Swap one purchase for a cheaper option.`,
+
+  evaluate({ quest, params, windowExpired }) {
+    const pct = params.reduction_pct;
+    const family = categoryFamily(quest.user_id, params.category);
+    // Pin the baseline on first evaluation so later history edits don't move the goal
+    let baseline = params.baseline;
+    let pinnedParams: Record<string, unknown> | undefined;
+    if (baseline === undefined) {
+      baseline = weeklyCategoryBaseline(
+        quest.user_id, family, quest.window_start, windowDays(quest.window_start, quest.window_end).length
+      );
+      pinnedParams = { ...params, baseline };
+    }
+    const cap = reducedCap(baseline, pct);
+    const spentInCategory = (t: Transaction) => Math.abs(categoryAmount(t, family));
+
+    const { posted, pending } = windowTransactions(quest, { category: params.category });
+    const confirmedValue = round2(posted.filter(t => t.amount < 0).reduce((sum, t) => sum + spentInCategory(t), 0));
+    const pendingValue = round2(pending.filter(t => t.amount < 0).reduce((sum, t) => sum + spentInCategory(t), 0));
+    const goal = `${pct}% under last week's ${money(baseline)}`;
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (windowExpired) {
+      status = confirmedValue <= cap ? 'COMPLETED_VERIFIED' : 'FAILED';
+      explanation = confirmedValue <= cap
+        ? `Spent ${money(confirmedValue)} on ${params.category} (target: ${money(cap)}, ${goal}). Quest completed!`
+        : `Spent ${money(confirmedValue)} on ${params.category} (target: ${money(cap)}, ${goal}). Not enough of a cut.`;
+    } else if (confirmedValue > cap) {
+      status = 'FAILED';
+      explanation = `Already spent ${money(confirmedValue)} on ${params.category}, over the ${money(cap)} target (${goal}).`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${money(confirmedValue)} of ${money(cap)} on ${params.category} so far (${goal}).`;
+    }
+    return { confirmedValue, pendingValue, status, explanation, pinnedParams };
+  },
+});
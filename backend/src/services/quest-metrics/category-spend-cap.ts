@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { categoryAmount } from '../splits';
+import { categoryFamily } from '../categories';
+import { defineMetric, windowTransactions, round2, money } from './shared';
+import { QuestStatus, Transaction } from '../../schemas';
+
+export const categorySpendCap = defineMetric({
+  type: 'CATEGORY_SPEND_CAP',
+  summary: "keep a category's spending under the cap",
+  icon: '🍖',
+  params: z.object({ category: z.string(), cap: z.number().nonnegative() }).passthrough(),
+  progressUnit: 'spent',
+  goal: params => params.cap,
+  formatProgress: (value, params) => `${money(value)} of ${money(params.cap)} spent`,
+  describe: params => params.cap > 0
+    ? `Keep your ${params.category} spending under ${money(params.cap)} today. Try cooking at home, skipping impulse buys, or finding a free alternative.`
+    : `Watch your ${params.category} spending today. Aim to cut back by skipping one unnecessary purchase.`,
+
+  calibration: {
+    scope: params => ({ category: params.category }),
+    capParam: 'cap',
+  },
+
+  evaluate({ quest, params, windowExpired }) {
+    const { cap } = params;
+    const { posted, pending } = windowTransactions(quest, { category: params.category });
+    // Only the part of a split transaction allocated to the category (or its subcategories) counts
+    const family = categoryFamily(quest.user_id, params.category);
+    const spentInCategory = (t: Transaction) => Math.abs(categoryAmount(t, family));
+    const confirmedValue = round2(posted.filter(t => t.amount < 0).reduce((sum, t) => sum + spentInCategory(t), 0));
+    const pendingValue = round2(pending.filter(t => t.amount < 0).reduce((sum, t) => sum + spentInCategory(t), 0));
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (windowExpired) {
+      status = confirmedValue <= cap ? 'COMPLETED_VERIFIED' : 'FAILED';
+      explanation = confirmedValue <= cap
+        ? `Spent ${money(confirmedValue)} (cap: ${money(cap)}). Quest completed!`
+        : `Spent ${money(confirmedValue)} (cap: ${money(cap)}). Over budget.`;
+    } else if (confirmedValue > cap) {
+      status = 'FAILED';
+      explanation = `Already spent ${money(confirmedValue)}, exceeding cap of ${money(cap)}.`;
+    } else if (confirmedValue + pendingValue > cap) {
+      status = 'ACTIVE';
+      explanation = `${money(confirmedValue)} confirmed + ${money(pendingValue)} pending. Close to cap of ${money(cap)}.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${money(confirmedValue)} of ${money(cap)} cap used so far. On track!`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { listBudgets } from '../budget';
+import { defineMetric, spendingByDay, windowDays, round2, money } from './shared';
+import { QuestStatus } from '../../schemas';
+
+/** Longest run of days at or under the limit, and the run still going at the last day. */
+function streakUnder(days: string[], spentOn: (day: string) => number, limit: number): { best: number; current: number } {
+  let best = 0;
+  let current = 0;
+  for (const day of days) {
+    current = spentOn(day) <= limit ? current + 1 : 0;
+    best = Math.max(best, current);
+  }
+  return { best, current };
+}
+
+/** The sum of the user's budgets as a daily amount (0 with no budgets). */
+function derivedDailyBudget(userId: string): number {
+  return round2(listBudgets(userId).reduce((sum, b) => sum + b.derived_daily_limit, 0));
+}
+
+export const dailyStreakUnderLimit = defineMetric({
+  type: 'DAILY_STREAK_UNDER_LIMIT',
+  summary: "stay under the daily budget that many days in a row (defaults to the user's budgets)",
+  icon: '🔥',
+  params: z.object({
+    days: z.number().int().min(1),
+    daily_limit: z.number().positive().optional(),
+  }).passthrough(),
+  progressUnit: 'days',
+  goal: params => params.days,
+  formatProgress: (value, params) => `${value} of ${params.days} day(s) in a row`,
+  describe: params => params.daily_limit !== undefined
+    ? `Stay under ${money(params.daily_limit)} a day ${params.days} day(s) in a row. Check your balance before each purchase.`
+    : `Stay under your daily budget ${params.days} day(s) in a row. Check your balance before each purchase.`,
+
+  evaluate({ quest, params, today, windowExpired }) {
+    const target = params.days;
+    const limit = params.daily_limit ?? derivedDailyBudget(quest.user_id);
+    if (!(limit > 0)) {
+      return {
+        confirmedValue: 0,
+        pendingValue: 0,
+        status: windowExpired ? 'EXPIRED' : 'ACTIVE',
+        explanation: 'No daily budget to stay under yet. Set up a budget to start the streak.',
+      };
+    }
+
+    const days = windowDays(quest.window_start, quest.window_end);
+    const spend = spendingByDay(quest, t => Math.abs(t.amount));
+    const finished = days.filter(d => windowExpired || d < today);
+    const daysLeft = days.length - finished.length;
+    const postedStreak = streakUnder(finished, d => spend.posted.get(d) ?? 0, limit);
+    const withPending = streakUnder(finished, d => (spend.posted.get(d) ?? 0) + (spend.pending.get(d) ?? 0), limit);
+
+    const confirmedValue = postedStreak.best;
+    const pendingValue = postedStreak.best - withPending.best;
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (withPending.best >= target) {
+      status = 'COMPLETED_VERIFIED';
+      explanation = `${withPending.best} day(s) in a row under ${money(limit)}/day (goal: ${target}). Quest completed!`;
+    } else if (postedStreak.best >= target) {
+      status = 'COMPLETED_PROVISIONAL';
+      explanation = `${postedStreak.best}-day streak under ${money(limit)}/day, but pending charges could break it. Provisional until they post.`;
+    } else if (postedStreak.current + daysLeft < target) {
+      status = 'FAILED';
+      explanation = `Best streak was ${postedStreak.best} day(s) under ${money(limit)}/day; not enough days left to reach ${target}.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${postedStreak.current}-day streak under ${money(limit)}/day so far (goal: ${target}).`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { QuestMetric } from './shared';
+import { categorySpendCap } from './category-spend-cap';
+import { merchantSpendCap } from './merchant-spend-cap';
+import { noMerchantCharge } from './no-merchant-charge';
+import { transferAmount } from './transfer-amount';
+import { noSpendDays } from './no-spend-days';
+import { maxTransactionCount } from './max-transaction-count';
+import { dailyStreakUnderLimit } from './daily-streak-under-limit';
+import { savingsDeposit } from './savings-deposit';
+import { categoryReductionPct } from './category-reduction-pct';
+
+export type { QuestMetric, QuestWindow, MetricContext, MetricResult, MetricCalibration } from './shared';
+export { defineMetric } from './shared';
+
+// Every quest metric the app can verify. Adding a metric means writing its
+// module and listing it here: the MetricType enum, AgentQuestOutput
+// validation, the LLM prompt and the quest routes all read from this list.
+const METRICS: QuestMetric[] = [
+  categorySpendCap,
+  merchantSpendCap,
+  noMerchantCharge,
+  transferAmount,
+  noSpendDays,
+  maxTransactionCount,
+  dailyStreakUnderLimit,
+  savingsDeposit,
+  categoryReductionPct,
+];
+
+const BY_TYPE = new Map(METRICS.map(m => [m.type, m]));
+
+export const METRIC_TYPES = METRICS.map(m => m.type) as [string, ...string[]];
+
+export function listQuestMetrics(): QuestMetric[] {
+  return METRICS;
+}
+
+export function getQuestMetric(type: string): QuestMetric | null {
+  return BY_TYPE.get(type) ?? null;
+}
+
+/** Check metric_params against the metric's schema. Unknown types are an error too. */
+export function validateMetricParams(type: string, params: unknown): { error?: string; issues?: z.ZodIssue[] } {
+  const metric = getQuestMetric(type);
+  if (!metric) return { error: `Unknown metric type: ${type}` };
+  const result = metric.params.safeParse(params);
+  if (!result.success) {
+    return {
+      error: `Invalid metric_params for ${type}: ${result.error.issues.map(i => `${i.path.join('.')} ${i.message}`).join('; ')}`,
+      issues: result.error.issues,
+    };
+  }
+  return {};
+}
+
+/** The params a metric takes, as the prompt shows them: { "category", "cap"? } */
+export function promptParams(metric: QuestMetric): string {
+  const shape = metric.params instanceof z.ZodObject ? (metric.params.shape as z.ZodRawShape) : {};
+  const keys = Object.entries(shape)
+    .filter(([key]) => !metric.internalParams?.includes(key))
+    .map(([key, schema]) => `"${key}"${schema.isOptional() ? '?' : ''}`);
+  return `{ ${keys.join(', ')} }`;
+}
+
+/** One line per metric for the daily digest prompt */
+export function metricPromptLines(): string {
+  return METRICS.map(m => `  - ${m.type} ${promptParams(m)}: ${m.summary}.`).join('\n');
+}
+
+export interface QuestPresentation {
+  icon: string;
+  goal: number;
+  progress_unit: string;
+  progress_label: string;
+  goal_description: string;
+}
+
+/**
+ * How a quest's progress reads in the app. Null for a metric type that is no
+ * longer registered or params that don't fit it.
+ */
+export function presentQuest(type: string, params: unknown, confirmedValue: number): QuestPresentation | null {
+  const metric = getQuestMetric(type);
+  const parsed = metric?.params.safeParse(params);
+  if (!metric || !parsed?.success) return null;
+  return {
+    icon: metric.icon,
+    goal: metric.goal(parsed.data),
+    progress_unit: metric.progressUnit,
+    progress_label: metric.formatProgress(confirmedValue, parsed.data),
+    goal_description: metric.describe(parsed.data),
+  };
+}
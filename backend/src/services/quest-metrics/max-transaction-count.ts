@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { defineMetric, windowTransactions } from './shared';
+import { QuestStatus } from '../../schemas';
+
+export const maxTransactionCount = defineMetric({
+  type: 'MAX_TRANSACTION_COUNT',
+  summary: 'at most that many purchases (e.g. 2 coffee runs)',
+  icon: '🔢',
+  params: z.object({
+    max_count: z.number().int().nonnegative(),
+    category: z.string().optional(),
+    merchant_key: z.string().optional(),
+  }).passthrough(),
+  progressUnit: 'purchases',
+  goal: params => params.max_count,
+  formatProgress: (value, params) => `${value} of ${params.max_count} purchase(s)`,
+  describe: params => {
+    const where = params.merchant_key ? ` at ${params.merchant_key}` : params.category ? ` in ${params.category}` : '';
+    return `Make at most ${params.max_count} purchase(s)${where}. Bring your own or batch your trips.`;
+  },
+
+  evaluate({ quest, params, windowExpired }) {
+    const maxCount = params.max_count;
+    const target = params.merchant_key ?? params.category ?? 'all spending';
+    const { posted, pending } = windowTransactions(quest, { category: params.category, merchant_key: params.merchant_key });
+    const confirmedValue = posted.filter(t => t.amount < 0).length;
+    const pendingValue = pending.filter(t => t.amount < 0).length;
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (windowExpired) {
+      status = confirmedValue <= maxCount ? 'COMPLETED_VERIFIED' : 'FAILED';
+      explanation = confirmedValue <= maxCount
+        ? `${confirmedValue} purchase(s) at ${target} (limit: ${maxCount}). Quest completed!`
+        : `${confirmedValue} purchase(s) at ${target} (limit: ${maxCount}). Over the limit.`;
+    } else if (confirmedValue > maxCount) {
+      status = 'FAILED';
+      explanation = `Already ${confirmedValue} purchase(s) at ${target}, over the limit of ${maxCount}.`;
+    } else if (confirmedValue + pendingValue > maxCount) {
+      status = 'ACTIVE';
+      explanation = `${confirmedValue} confirmed + ${pendingValue} pending purchase(s) at ${target}. Over the limit of ${maxCount} once they post.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${confirmedValue} of ${maxCount} purchase(s) at ${target} used so far.`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { defineMetric, windowTransactions, isAtMerchant, round2, money } from './shared';
+import { QuestStatus } from '../../schemas';
+
+export const merchantSpendCap = defineMetric({
+  type: 'MERCHANT_SPEND_CAP',
+  summary: 'keep spending at one merchant under the cap',
+  icon: '☕',
+  params: z.object({ merchant_key: z.string(), cap: z.number().nonnegative() }).passthrough(),
+  progressUnit: 'spent',
+  goal: params => params.cap,
+  formatProgress: (value, params) => `${money(value)} of ${money(params.cap)} spent at ${params.merchant_key}`,
+  describe: params => params.cap > 0
+    ? `Limit your spending at ${params.merchant_key} to ${money(params.cap)}. Consider smaller orders or bringing your own instead.`
+    : `Cut back on spending at ${params.merchant_key} today. Every dollar saved counts!`,
+
+  calibration: {
+    scope: params => ({ merchant_key: params.merchant_key }),
+    capParam: 'cap',
+  },
+
+  evaluate({ quest, params, windowExpired }) {
+    const { cap, merchant_key: merchantKey } = params;
+    const { posted, pending } = windowTransactions(quest, { merchant_key: merchantKey });
+    const charges = (txns: typeof posted) => txns.filter(t => isAtMerchant(t, merchantKey) && t.amount < 0);
+    const confirmedValue = round2(charges(posted).reduce((sum, t) => sum + Math.abs(t.amount), 0));
+    const pendingValue = round2(charges(pending).reduce((sum, t) => sum + Math.abs(t.amount), 0));
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (windowExpired) {
+      status = confirmedValue <= cap ? 'COMPLETED_VERIFIED' : 'FAILED';
+      explanation = confirmedValue <= cap
+        ? `Spent ${money(confirmedValue)} at ${merchantKey} (cap: ${money(cap)}). Quest completed!`
+        : `Spent ${money(confirmedValue)} at ${merchantKey} (cap: ${money(cap)}). Over limit.`;
+    } else if (confirmedValue > cap) {
+      status = 'FAILED';
+      explanation = `Already spent ${money(confirmedValue)} at ${merchantKey}, exceeding cap.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${money(confirmedValue)} of ${money(cap)} cap at ${merchantKey}.`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
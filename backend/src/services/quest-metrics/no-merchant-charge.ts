@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { defineMetric, windowTransactions, isAtMerchant } from './shared';
+import { QuestStatus } from '../../schemas';
+
+export const noMerchantCharge = defineMetric({
+  type: 'NO_MERCHANT_CHARGE',
+  summary: 'no charge from the merchant (e.g. a cancelled subscription)',
+  icon: '🚫',
+  params: z.object({ merchant_key: z.string() }).passthrough(),
+  progressUnit: 'charges',
+  goal: () => 0,
+  formatProgress: (value, params) => `${value} charge(s) from ${params.merchant_key}`,
+  describe: params =>
+    `Avoid making any purchases at ${params.merchant_key} today. Find a free or cheaper alternative to break the habit.`,
+
+  calibration: {
+    scope: params => ({ merchant_key: params.merchant_key }),
+  },
+
+  evaluate({ quest, params, windowExpired }) {
+    const merchantKey = params.merchant_key;
+    const { posted, pending } = windowTransactions(quest, { merchant_key: merchantKey });
+    const confirmedValue = posted.filter(t => isAtMerchant(t, merchantKey) && t.amount < 0).length;
+    const pendingValue = pending.filter(t => isAtMerchant(t, merchantKey) && t.amount < 0).length;
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (windowExpired) {
+      status = confirmedValue === 0 ? 'COMPLETED_VERIFIED' : 'FAILED';
+      explanation = confirmedValue === 0
+        ? `No charges from ${merchantKey} detected. Verification passed!`
+        : `${confirmedValue} charge(s) from ${merchantKey} detected.`;
+    } else if (confirmedValue > 0) {
+      status = 'FAILED';
+      explanation = `${confirmedValue} posted charge(s) from ${merchantKey} detected.`;
+    } else if (pendingValue > 0) {
+      status = 'COMPLETED_PROVISIONAL';
+      explanation = `No posted charges from ${merchantKey}, but ${pendingValue} pending. Provisional until posting.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `No charges from ${merchantKey} so far. Monitoring continues.`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { categoryAmount } from '../splits';
+import { categoryFamily } from '../categories';
+import { defineMetric, spendingByDay, windowDays, round2 } from './shared';
+import { QuestStatus } from '../../schemas';
+
+/** Recurring bills don't break a no-spend day */
+const NON_DISCRETIONARY_CATEGORIES = ['Subscription', 'Utilities'];
+
+export const noSpendDays = defineMetric({
+  type: 'NO_SPEND_DAYS',
+  summary: "that many days with no discretionary spending (bills don't count)",
+  icon: '🗓️',
+  params: z.object({ days: z.number().int().min(1) }).passthrough(),
+  progressUnit: 'days',
+  goal: params => params.days,
+  formatProgress: (value, params) => `${value} of ${params.days} no-spend day(s)`,
+  describe: params =>
+    `Have ${params.days} day(s) with no spending beyond your bills. Plan meals at home and skip the extras.`,
+
+  evaluate({ quest, params, today, windowExpired }) {
+    const target = params.days;
+    const days = windowDays(quest.window_start, quest.window_end);
+    const billCategories = NON_DISCRETIONARY_CATEGORIES.flatMap(c => categoryFamily(quest.user_id, c));
+    const spend = spendingByDay(quest, t => round2(Math.abs(t.amount) - Math.abs(categoryAmount(t, billCategories))));
+
+    // A day only counts once it's over
+    const finished = days.filter(d => windowExpired || d < today);
+    const noSpend = finished.filter(d => !spend.posted.has(d));
+    const atRisk = noSpend.filter(d => spend.pending.has(d));
+    const daysLeft = days.length - finished.length;
+
+    const confirmedValue = noSpend.length - atRisk.length;
+    const pendingValue = atRisk.length;
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (confirmedValue >= target) {
+      status = 'COMPLETED_VERIFIED';
+      explanation = `${confirmedValue} no-spend day(s) (goal: ${target}). Quest completed!`;
+    } else if (noSpend.length >= target) {
+      status = 'COMPLETED_PROVISIONAL';
+      explanation = `${noSpend.length} no-spend day(s), but ${atRisk.length} have pending charges. Provisional until they post.`;
+    } else if (noSpend.length + daysLeft < target) {
+      status = 'FAILED';
+      explanation = windowExpired
+        ? `Only ${noSpend.length} no-spend day(s) in the window (goal: ${target}).`
+        : `${noSpend.length} no-spend day(s) and ${daysLeft} day(s) left; can't reach ${target} anymore.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${noSpend.length} of ${target} no-spend day(s) so far, ${daysLeft} day(s) to go.`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
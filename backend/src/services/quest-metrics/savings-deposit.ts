@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { getTransactions } from '../ingestion';
+import { listAccounts } from '../accounts';
+import { defineMetric, round2, money } from './shared';
+import { QuestStatus } from '../../schemas';
+
+export const savingsDeposit = defineMetric({
+  type: 'SAVINGS_DEPOSIT',
+  summary: 'move at least the amount into a savings account',
+  icon: '🏦',
+  params: z.object({ target_amount: z.number().positive(), account_id: z.string().optional() }).passthrough(),
+  progressUnit: 'saved',
+  goal: params => params.target_amount,
+  formatProgress: (value, params) => `${money(value)} of ${money(params.target_amount)} saved`,
+  describe: params => `Move ${money(params.target_amount)} into your savings account. Schedule the transfer now!`,
+
+  evaluate({ quest, params, windowExpired }) {
+    const targetAmount = params.target_amount;
+    const accountIds = params.account_id
+      ? [params.account_id]
+      : listAccounts(quest.user_id).filter(a => a.type === 'savings').map(a => a.id);
+    if (accountIds.length === 0) {
+      return {
+        confirmedValue: 0,
+        pendingValue: 0,
+        status: windowExpired ? 'EXPIRED' : 'ACTIVE',
+        explanation: 'No savings account linked yet. Add one to track deposits.',
+      };
+    }
+
+    // Transfers count here: moving money into savings is the point
+    const deposits = accountIds
+      .flatMap(accountId => getTransactions(quest.user_id, quest.window_start.slice(0, 10), quest.window_end.slice(0, 10), {
+        includePending: true,
+        accountId,
+      }))
+      .filter(t => t.amount > 0);
+    const confirmedValue = round2(deposits.filter(t => !t.pending).reduce((sum, t) => sum + t.amount, 0));
+    const pendingValue = round2(deposits.filter(t => t.pending).reduce((sum, t) => sum + t.amount, 0));
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (confirmedValue >= targetAmount) {
+      status = 'COMPLETED_VERIFIED';
+      explanation = `Deposited ${money(confirmedValue)} into savings (target: ${money(targetAmount)}). Quest completed!`;
+    } else if (confirmedValue + pendingValue >= targetAmount) {
+      status = 'COMPLETED_PROVISIONAL';
+      explanation = `${money(confirmedValue)} deposited + ${money(pendingValue)} pending toward ${money(targetAmount)}.`;
+    } else if (windowExpired) {
+      status = 'EXPIRED';
+      explanation = `Only ${money(confirmedValue)} of ${money(targetAmount)} deposited into savings before the deadline.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${money(confirmedValue)} of ${money(targetAmount)} deposited into savings so far.`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { getTransactions } from '../ingestion';
+import { QuestStatus, Transaction } from '../../schemas';
+
+/** The slice of a quest row an evaluator gets to see */
+export interface QuestWindow {
+  id: string;
+  user_id: string;
+  window_start: string;
+  window_end: string;
+}
+
+export interface MetricContext<P> {
+  quest: QuestWindow;
+  /** metric_params, already checked against the metric's schema */
+  params: P;
+  now: Date;
+  /** YYYY-MM-DD of `now` on the user's local clock */
+  today: string;
+  windowExpired: boolean;
+}
+
+export interface MetricResult {
+  /** Progress from posted transactions only */
+  confirmedValue: number;
+  /** Extra progress (or risk) from pending transactions */
+  pendingValue: number;
+  status: QuestStatus;
+  explanation: string;
+  /** Values worked out on first evaluation to keep on the quest (e.g. a reduction baseline) */
+  pinnedParams?: Record<string, unknown>;
+}
+
+/**
+ * One quest metric type. Everything the rest of the app needs to know about
+ * a metric lives here: how its params look, how it is evaluated and how its
+ * progress reads in the UI.
+ */
+export interface QuestMetric<P = any> {
+  type: string;
+  /** One line for the LLM prompt and the metric listing */
+  summary: string;
+  icon: string;
+  params: z.ZodType<P, z.ZodTypeDef, any>;
+  /** Params the evaluator fills in itself; left out of the prompt */
+  internalParams?: string[];
+  /** What the progress number counts, e.g. "spent" or "days" */
+  progressUnit: string;
+  /** The number progress is measured against */
+  goal(params: P): number;
+  formatProgress(value: number, params: P): string;
+  /** Human description of the goal, e.g. "Keep Food & Drink under $40.00" */
+  describe(params: P): string;
+  evaluate(ctx: MetricContext<P>): MetricResult;
+  /** How the calibration service estimates and tunes this metric; absent means no estimate */
+  calibration?: MetricCalibration<P>;
+}
+
+/**
+ * A metric whose success comes down to keeping spending in some scope at or
+ * under a cap over the window.
+ */
+export interface MetricCalibration<P> {
+  /** The spending the baseline is drawn from */
+  scope(params: P): { category?: string; merchant_key?: string };
+  /** The param holding the cap the calibrator may move; without one the cap is zero */
+  capParam?: string;
+}
+
+/** Identity helper so each module gets its params type inferred from the schema */
+export function defineMetric<P>(metric: QuestMetric<P>): QuestMetric<P> {
+  return metric;
+}
+
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const money = (n: number) => `$${n.toFixed(2)}`;
+
+/** Every calendar day the quest window touches, oldest first. */
+export function windowDays(windowStart: string, windowEnd: string): string[] {
+  const days: string[] = [];
+  const cursor = new Date(`${windowStart.slice(0, 10)}T00:00:00Z`);
+  const last = windowEnd.slice(0, 10);
+  while (cursor.toISOString().slice(0, 10) <= last) {
+    days.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/** Posted and pending transactions in the quest window, optionally narrowed to a category or merchant. */
+export function windowTransactions(
+  quest: QuestWindow,
+  filter: { category?: string; merchant_key?: string } = {}
+): { posted: Transaction[]; pending: Transaction[] } {
+  const posted = getTransactions(quest.user_id, quest.window_start, quest.window_end, {
+    includePending: false,
+    category: filter.category,
+    merchant_key: filter.merchant_key,
+  });
+  const all = getTransactions(quest.user_id, quest.window_start, quest.window_end, {
+    includePending: true,
+    category: filter.category,
+    merchant_key: filter.merchant_key,
+  });
+  return { posted, pending: all.filter(t => t.pending) };
+}
+
+/**
+ * Real spending (no own-account transfers or excluded categories) per day in
+ * the window, posted and pending kept apart. `amountOf` picks how much of a
+ * charge counts.
+ */
+export function spendingByDay(
+  quest: QuestWindow,
+  amountOf: (t: Transaction) => number
+): { posted: Map<string, number>; pending: Map<string, number> } {
+  const posted = new Map<string, number>();
+  const pending = new Map<string, number>();
+  const txns = getTransactions(quest.user_id, quest.window_start.slice(0, 10), quest.window_end.slice(0, 10), {
+    includePending: true,
+    excludeTransfers: true,
+  });
+  for (const t of txns) {
+    if (t.amount >= 0) continue;
+    const amount = amountOf(t);
+    if (amount <= 0) continue;
+    const byDay = t.pending ? pending : posted;
+    byDay.set(t.date, round2((byDay.get(t.date) ?? 0) + amount));
+  }
+  return { posted, pending };
+}
+
+/** Whether a charge is at the given merchant (case-insensitive on merchant name, falling back to the description) */
+export function isAtMerchant(t: Transaction, merchantKey: string): boolean {
+  return (t.merchant_name || t.name).toLowerCase() === merchantKey.toLowerCase();
+}
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { defineMetric, windowTransactions, round2, money } from './shared';
+import { QuestStatus } from '../../schemas';
+
+export const transferAmount = defineMetric({
+  type: 'TRANSFER_AMOUNT',
+  summary: 'detect a savings transfer of at least the amount',
+  icon: '💰',
+  params: z.object({ target_amount: z.number().positive() }).passthrough(),
+  progressUnit: 'saved',
+  goal: params => params.target_amount,
+  formatProgress: (value, params) => `${money(value)} of ${money(params.target_amount)} transferred`,
+  describe: params => `Transfer ${money(params.target_amount)} to your savings. Set it up now so you don't forget!`,
+
+  evaluate({ quest, params, windowExpired }) {
+    const targetAmount = params.target_amount;
+    const { posted, pending } = windowTransactions(quest);
+    const transfers = posted.filter(t => t.amount > 0 && (
+      t.category_primary === 'Transfer' ||
+      t.name.toLowerCase().includes('transfer') ||
+      t.name.toLowerCase().includes('savings')
+    ));
+    const pendingTransfers = pending.filter(t => t.amount > 0 && (
+      t.category_primary === 'Transfer' ||
+      t.name.toLowerCase().includes('transfer')
+    ));
+    const confirmedValue = round2(transfers.reduce((sum, t) => sum + t.amount, 0));
+    const pendingValue = round2(pendingTransfers.reduce((sum, t) => sum + t.amount, 0));
+
+    let status: QuestStatus;
+    let explanation: string;
+    if (confirmedValue >= targetAmount) {
+      status = 'COMPLETED_VERIFIED';
+      explanation = `Transferred ${money(confirmedValue)} (target: ${money(targetAmount)}). Quest completed!`;
+    } else if (confirmedValue + pendingValue >= targetAmount) {
+      status = 'COMPLETED_PROVISIONAL';
+      explanation = `${money(confirmedValue)} confirmed + ${money(pendingValue)} pending toward ${money(targetAmount)} target.`;
+    } else if (windowExpired) {
+      status = 'EXPIRED';
+      explanation = `Only ${money(confirmedValue)} of ${money(targetAmount)} transferred before deadline.`;
+    } else {
+      status = 'ACTIVE';
+      explanation = `${money(confirmedValue)} of ${money(targetAmount)} transferred so far.`;
+    }
+    return { confirmedValue, pendingValue, status, explanation };
+  },
+});
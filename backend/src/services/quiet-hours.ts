@@ -0,0 +1,62 @@
+import { getDb } from '../db/database';
+import { getUserTimezone, localClock } from './user-clock';
+
+// Quiet hours: a daily window in the user's local time when nothing is
+// pushed to their phone. Stored in user_profile.preferences as
+// quiet_hours: { start: 'HH:MM', end: 'HH:MM' }; a window that ends before
+// it starts runs past midnight (22:00-07:00).
+
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function readPreferences(userId: string): Record<string, any> | null {
+  const row = getDb().prepare(`SELECT preferences FROM user_profile WHERE id = ?`).get(userId) as
+    | { preferences: string }
+    | undefined;
+  return row ? JSON.parse(row.preferences || '{}') : null;
+}
+
+export function validateQuietHours(body: any): { error?: string } {
+  if (body?.quiet_hours === null) return {};
+  const hours = body?.quiet_hours;
+  if (!hours || !TIME_OF_DAY.test(hours.start) || !TIME_OF_DAY.test(hours.end)) {
+    return { error: 'quiet_hours must be { start, end } in HH:MM (24-hour), or null to turn them off' };
+  }
+  if (hours.start === hours.end) return { error: 'quiet_hours start and end must differ' };
+  return {};
+}
+
+export function getQuietHours(userId: string): QuietHours | null {
+  return readPreferences(userId)?.quiet_hours ?? null;
+}
+
+/** Set or clear (null) the user's quiet hours. Returns false if the user doesn't exist. */
+export function setQuietHours(userId: string, hours: QuietHours | null): boolean {
+  const preferences = readPreferences(userId);
+  if (!preferences) return false;
+  if (hours) preferences.quiet_hours = { start: hours.start, end: hours.end };
+  else delete preferences.quiet_hours;
+  getDb().prepare(`UPDATE user_profile SET preferences = ?, updated_at = datetime('now') WHERE id = ?`)
+    .run(JSON.stringify(preferences), userId);
+  return true;
+}
+
+/** Whether `now` falls in the user's quiet hours, on their local clock */
+export function inQuietHours(userId: string, now = new Date()): boolean {
+  const hours = getQuietHours(userId);
+  if (!hours) return false;
+  const clock = localClock(getUserTimezone(userId), now);
+  const minute = clock.hour * 60 + clock.minute;
+  const start = minutesOf(hours.start);
+  const end = minutesOf(hours.end);
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
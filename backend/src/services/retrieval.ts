@@ -1,5 +1,8 @@
 import { getDb } from '../db/database';
 import { normalizeMerchantKey } from './ingestion';
+import { normalizeTag, tagsOf } from './tags';
+import { PricePoint } from '../schemas';
+import { userToday, addDays } from './user-clock';
 
 // ─── Types ───
 
@@ -12,6 +15,8 @@ export interface SearchTransactionsInput {
   amount_max?: number;
   categories?: string[];
   merchant_keys?: string[];
+  /** Transactions must carry every one of these tags ('#' optional) */
+  tags?: string[];
   pending?: boolean;
   sort_by?: 'date' | 'amount' | 'relevance';
   limit?: number;
@@ -28,6 +33,8 @@ export interface TransactionResult {
   category_primary: string | null;
   pending: boolean;
   currency: string;
+  tags: string[];
+  note: string | null;
 }
 
 export interface SearchTransactionsOutput {
@@ -48,6 +55,9 @@ export interface TransactionDetail extends TransactionResult {
   category_detailed: string | null;
   pending_transaction_id: string | null;
   metadata: Record<string, unknown>;
+  account_id: string | null;
+  /** Shared by both legs of a transfer between the user's own accounts */
+  transfer_group_id: string | null;
   created_at: string;
 }
 
@@ -55,9 +65,10 @@ export interface StatsInput {
   user_id: string;
   date_start: string;
   date_end: string;
-  group_by: 'category' | 'merchant' | 'day' | 'week' | 'month';
+  group_by: 'category' | 'merchant' | 'tag' | 'day' | 'week' | 'month';
   category?: string;
   merchant_key?: string;
+  tag?: string;
   amount_min?: number;
   amount_max?: number;
   limit?: number;
@@ -119,6 +130,11 @@ const SENSITIVITY: Record<string, { zThreshold: number; spikeMultiplier: number;
   high: { zThreshold: 1.5, spikeMultiplier: 1.2, dupWindowHours: 24 },
 };
 
+// Tags are stored normalized; anything that doesn't normalize can't match
+function tagFilterValues(raw: string[]): string[] {
+  return raw.map(t => normalizeTag(t) ?? t);
+}
+
 // ─── Tool 1: search_transactions ───
 
 export function searchTransactions(input: SearchTransactionsInput): SearchTransactionsOutput {
@@ -127,11 +143,9 @@ export function searchTransactions(input: SearchTransactionsInput): SearchTransa
   const offset = input.offset || 0;
 
   // Default date range: last 30 days
-  const now = new Date();
-  const d30 = new Date(now);
-  d30.setDate(d30.getDate() - 30);
-  const dateStart = input.date_start || d30.toISOString().split('T')[0];
-  const dateEnd = input.date_end || now.toISOString().split('T')[0];
+  const today = userToday(input.user_id);
+  const dateStart = input.date_start || addDays(today, -30);
+  const dateEnd = input.date_end || today;
 
   let where = 'user_id = ? AND date >= ? AND date <= ?';
   const params: any[] = [input.user_id, dateStart, dateEnd];
@@ -160,19 +174,29 @@ export function searchTransactions(input: SearchTransactionsInput): SearchTransa
     params.push(...input.merchant_keys);
   }
 
-  if (input.query_text) {
-    const q = `%${input.query_text.toLowerCase()}%`;
-    where += ' AND (LOWER(name) LIKE ? OR LOWER(merchant_name) LIKE ? OR LOWER(merchant_key) LIKE ?)';
-    params.push(q, q, q);
+  // "#trip-nyc" in the query text is a tag filter; the rest is matched as text
+  const hashTags = input.query_text?.match(/#[\w-]+/g) ?? [];
+  const queryText = input.query_text?.replace(/#[\w-]+/g, ' ').trim() || undefined;
+
+  for (const tag of tagFilterValues([...(input.tags ?? []), ...hashTags])) {
+    where += ` AND EXISTS (SELECT 1 FROM json_each(transaction_.metadata, '$.tags') WHERE value = ?)`;
+    params.push(tag);
+  }
+
+  if (queryText) {
+    const q = `%${queryText.toLowerCase()}%`;
+    where += ` AND (LOWER(name) LIKE ? OR LOWER(merchant_name) LIKE ? OR LOWER(merchant_key) LIKE ?
+      OR LOWER(json_extract(metadata, '$.note')) LIKE ?)`;
+    params.push(q, q, q, q);
   }
 
   // Sort
   let orderBy = 'date DESC';
   if (input.sort_by === 'amount') orderBy = 'ABS(amount) DESC';
-  else if (input.sort_by === 'relevance' && input.query_text) {
+  else if (input.sort_by === 'relevance' && queryText) {
     // Relevance: exact merchant_key match first, then by date
     orderBy = `CASE WHEN LOWER(merchant_key) = ? THEN 0 ELSE 1 END, date DESC`;
-    params.push(input.query_text.toLowerCase());
+    params.push(queryText.toLowerCase());
   }
 
   // Summary query (without pagination)
@@ -185,21 +209,26 @@ export function searchTransactions(input: SearchTransactionsInput): SearchTransa
   // Paginated data query
   const dataParams = [...params, limit, offset];
   const rows = db.prepare(
-    `SELECT id, date, amount, merchant_name, merchant_key, name, category_primary, pending, currency
+    `SELECT id, date, amount, merchant_name, merchant_key, name, category_primary, pending, currency, metadata
      FROM transaction_ WHERE ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`
   ).all(...dataParams) as any[];
 
-  const transactions: TransactionResult[] = rows.map(r => ({
-    id: r.id,
-    date: r.date,
-    amount: r.amount,
-    merchant_name: r.merchant_name,
-    merchant_key: r.merchant_key,
-    name: r.name,
-    category_primary: r.category_primary,
-    pending: !!r.pending,
-    currency: r.currency,
-  }));
+  const transactions: TransactionResult[] = rows.map(r => {
+    const metadata = JSON.parse(r.metadata || '{}');
+    return {
+      id: r.id,
+      date: r.date,
+      amount: r.amount,
+      merchant_name: r.merchant_name,
+      merchant_key: r.merchant_key,
+      name: r.name,
+      category_primary: r.category_primary,
+      pending: !!r.pending,
+      currency: r.currency,
+      tags: tagsOf(metadata),
+      note: typeof metadata.note === 'string' ? metadata.note : null,
+    };
+  });
 
   const totalCount = summaryRow.count as number;
   const hasMore = offset + limit < totalCount;
@@ -225,6 +254,7 @@ export function getTransactionById(userId: string, transactionId: string): Trans
   ).get(transactionId, userId) as any;
 
   if (!row) return null;
+  const metadata = JSON.parse(row.metadata || '{}');
 
   return {
     id: row.id,
@@ -241,7 +271,11 @@ export function getTransactionById(userId: string, transactionId: string): Trans
     pending: !!row.pending,
     pending_transaction_id: row.pending_transaction_id,
     currency: row.currency,
-    metadata: JSON.parse(row.metadata || '{}'),
+    metadata,
+    tags: tagsOf(metadata),
+    note: typeof metadata.note === 'string' ? metadata.note : null,
+    account_id: row.account_id ?? null,
+    transfer_group_id: row.transfer_group_id ?? null,
     created_at: row.created_at,
   };
 }
@@ -263,6 +297,11 @@ export function listTransactionStats(input: StatsInput): StatsOutput {
     where += ' AND merchant_key = ?';
     params.push(input.merchant_key);
   }
+  if (input.tag) {
+    where += ` AND EXISTS (SELECT 1 FROM transaction_ t, json_each(t.metadata, '$.tags') tg
+      WHERE t.id = transaction_id AND tg.value = ?)`;
+    params.push(tagFilterValues([input.tag])[0]);
+  }
   if (input.amount_min !== undefined) {
     where += ' AND amount >= ?';
     params.push(input.amount_min);
@@ -275,6 +314,9 @@ export function listTransactionStats(input: StatsInput): StatsOutput {
   // Only count spending (negative amounts)
   const spendFilter = 'AND amount < 0';
 
+  // Grouping by tag fans each line out to one row per tag (untagged lines drop out)
+  let source = 'transaction_line';
+
   let groupExpr: string;
   switch (input.group_by) {
     case 'category':
@@ -283,6 +325,11 @@ export function listTransactionStats(input: StatsInput): StatsOutput {
     case 'merchant':
       groupExpr = "COALESCE(merchant_key, LOWER(name))";
       break;
+    case 'tag':
+      source = `transaction_line, json_each(
+        (SELECT metadata FROM transaction_ WHERE id = transaction_line.transaction_id), '$.tags') AS tag`;
+      groupExpr = 'tag.value';
+      break;
     case 'day':
       groupExpr = "date";
       break;
@@ -297,15 +344,17 @@ export function listTransactionStats(input: StatsInput): StatsOutput {
       groupExpr = "COALESCE(category_primary, 'Other')";
   }
 
+  // transaction_line has one row per category part of a split transaction, so
+  // counts and averages are per transaction, not per part
   const sql = `
     SELECT
       ${groupExpr} as group_key,
-      COUNT(*) as count,
+      COUNT(DISTINCT transaction_id) as count,
       ROUND(SUM(ABS(amount)), 2) as total_spend,
-      ROUND(AVG(ABS(amount)), 2) as avg,
+      ROUND(SUM(ABS(amount)) / COUNT(DISTINCT transaction_id), 2) as avg,
       MIN(date) as first_seen,
       MAX(date) as last_seen
-    FROM transaction_
+    FROM ${source}
     WHERE ${where} ${spendFilter}
     GROUP BY group_key
     ORDER BY total_spend DESC
@@ -318,8 +367,9 @@ export function listTransactionStats(input: StatsInput): StatsOutput {
   const statsRows: StatsRow[] = rows.map(r => {
     // Get individual amounts for stddev
     const amounts = db.prepare(
-      `SELECT ABS(amount) as amt FROM transaction_
-       WHERE ${where} ${spendFilter} AND ${groupExpr} = ?`
+      `SELECT SUM(ABS(amount)) as amt FROM ${source}
+       WHERE ${where} ${spendFilter} AND ${groupExpr} = ?
+       GROUP BY transaction_id`
     ).all(...params, r.group_key) as any[];
 
     const avg = r.avg;
@@ -340,8 +390,8 @@ export function listTransactionStats(input: StatsInput): StatsOutput {
 
   // Overall
   const overallRow = db.prepare(
-    `SELECT COUNT(*) as count, COALESCE(SUM(ABS(amount)),0) as total, COALESCE(AVG(ABS(amount)),0) as avg
-     FROM transaction_ WHERE ${where} ${spendFilter}`
+    `SELECT COUNT(DISTINCT transaction_id) as count, COALESCE(SUM(ABS(amount)),0) as total
+     FROM transaction_line WHERE ${where} ${spendFilter}`
   ).get(...params) as any;
 
   return {
@@ -349,7 +399,7 @@ export function listTransactionStats(input: StatsInput): StatsOutput {
     overall: {
       total_count: overallRow.count,
       total_spend: Math.round(overallRow.total * 100) / 100,
-      avg: Math.round(overallRow.avg * 100) / 100,
+      avg: overallRow.count > 0 ? Math.round((overallRow.total / overallRow.count) * 100) / 100 : 0,
     },
   };
 }
@@ -361,18 +411,14 @@ export function detectAnomalies(input: DetectAnomaliesInput): AnomalyOutput {
   const sensitivity = SENSITIVITY[input.sensitivity || 'med'];
   const limit = Math.min(input.limit || 20, 50);
 
-  const now = new Date();
-  const dateEnd = input.date_end || now.toISOString().split('T')[0];
+  const today = userToday(input.user_id);
+  const dateEnd = input.date_end || today;
   // Default window: last 30 days for detection
-  const d30 = new Date(now);
-  d30.setDate(d30.getDate() - 30);
-  const dateStart = input.date_start || d30.toISOString().split('T')[0];
+  const dateStart = input.date_start || addDays(today, -30);
 
   // Baseline: 90 days before the detection window start
   const baselineEnd = dateStart;
-  const d90 = new Date(dateStart);
-  d90.setDate(d90.getDate() - 90);
-  const baselineStart = d90.toISOString().split('T')[0];
+  const baselineStart = addDays(dateStart, -90);
 
   const types = input.anomaly_types || [
     'large_vs_baseline', 'new_merchant', 'spike_category',
@@ -601,35 +647,35 @@ function detectSubscriptionJump(
   db: any, userId: string,
   dateStart: string, dateEnd: string
 ): Anomaly[] {
-  // Compare recurring_candidate typical_amount vs latest charge
+  // Price increases in each subscription's price history that took effect in the window
   const recurring = db.prepare(`
-    SELECT * FROM recurring_candidate WHERE user_id = ? AND confidence >= 0.5
+    SELECT merchant_key, price_history, source FROM recurring_candidate WHERE user_id = ? AND confidence >= 0.5
   `).all(userId) as any[];
 
   const anomalies: Anomaly[] = [];
   for (const rc of recurring) {
-    const latestCharge = db.prepare(`
-      SELECT id, date, amount FROM transaction_
-      WHERE user_id = ? AND merchant_key = ? AND date >= ? AND date <= ?
-        AND pending = 0 AND amount < 0
-      ORDER BY date DESC LIMIT 1
-    `).get(userId, rc.merchant_key, dateStart, dateEnd) as any;
-
-    if (!latestCharge) continue;
+    const history: PricePoint[] = JSON.parse(rc.price_history || '[]');
+    const name = JSON.parse(rc.source || '{}').merchant_name || rc.merchant_key;
 
-    const latestAmt = Math.abs(latestCharge.amount);
-    const typical = rc.typical_amount;
-    if (typical < 1) continue;
+    for (let i = 1; i < history.length; i++) {
+      const previous = history[i - 1];
+      const point = history[i];
+      if (point.since < dateStart || point.since > dateEnd) continue;
+      const deviation = (point.amount - previous.amount) / previous.amount;
+      if (deviation <= 0) continue;
 
-    const deviation = (latestAmt - typical) / typical;
-    if (deviation > 0.1) { // >10% increase
       anomalies.push({
         type: 'subscription_jump',
         severity_score: Math.min(1, Math.round(deviation * 100) / 100),
-        transaction_ids: [latestCharge.id],
-        explanation_short: `${rc.merchant_key} charged $${latestAmt.toFixed(2)}, up from typical $${typical.toFixed(2)} (+${Math.round(deviation * 100)}%)`,
-        baseline_window: `recurring history`,
-        computed_metrics: { latest_amount: latestAmt, typical_amount: typical, deviation_pct: Math.round(deviation * 100) },
+        transaction_ids: [point.transaction_id],
+        explanation_short: `${name} went from $${previous.amount.toFixed(2)} to $${point.amount.toFixed(2)} (+${Math.round(deviation * 100)}%)`,
+        baseline_window: `price since ${previous.since}`,
+        computed_metrics: {
+          latest_amount: point.amount,
+          previous_amount: previous.amount,
+          deviation_pct: Math.round(deviation * 100),
+          effective_date: point.since,
+        },
       });
     }
   }
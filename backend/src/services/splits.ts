@@ -0,0 +1,168 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { TransactionSplit } from '../schemas';
+
+export interface SplitInput {
+  category: string;
+  /** Either sign is accepted; stored with the parent transaction's sign */
+  amount: number;
+  note?: string | null;
+}
+
+export interface CategoryAllocation {
+  category: string;
+  amount: number;
+}
+
+const MAX_SPLITS = 10;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function mapSplitRow(row: any): TransactionSplit {
+  return {
+    id: row.id,
+    transaction_id: row.transaction_id,
+    category: row.category,
+    amount: row.amount,
+    note: row.note ?? null,
+  };
+}
+
+/**
+ * Validate a PUT body of splits against the parent amount. An empty list
+ * removes the splits; otherwise there must be at least two and their
+ * absolute amounts must add up to the parent's.
+ */
+export function validateSplitsInput(body: any, parentAmount: number): { error?: string } {
+  if (!body || !Array.isArray(body.splits)) return { error: 'splits must be an array' };
+  const splits = body.splits as any[];
+  if (splits.length === 0) return {};
+  if (splits.length < 2) return { error: 'A split needs at least two parts' };
+  if (splits.length > MAX_SPLITS) return { error: `At most ${MAX_SPLITS} splits per transaction` };
+
+  for (const split of splits) {
+    if (!split || typeof split.category !== 'string' || !split.category.trim()) {
+      return { error: 'Each split needs a category' };
+    }
+    if (typeof split.amount !== 'number' || !Number.isFinite(split.amount) || split.amount === 0) {
+      return { error: 'Each split needs a non-zero amount' };
+    }
+    if (split.note != null && typeof split.note !== 'string') return { error: 'note must be a string' };
+  }
+
+  const total = round2(splits.reduce((sum, s) => sum + Math.abs(s.amount), 0));
+  if (Math.abs(total - Math.abs(parentAmount)) >= 0.005) {
+    return { error: `Splits add up to ${total.toFixed(2)} but the transaction is ${Math.abs(parentAmount).toFixed(2)}` };
+  }
+  return {};
+}
+
+export function getSplits(userId: string, transactionId: string): TransactionSplit[] {
+  const rows = getDb().prepare(
+    `SELECT * FROM transaction_split WHERE transaction_id = ? AND user_id = ? ORDER BY rowid`
+  ).all(transactionId, userId) as any[];
+  return rows.map(mapSplitRow);
+}
+
+/**
+ * Splits of every transaction dated within [start, end], keyed by transaction id.
+ */
+export function getSplitsInRange(userId: string, start: string, end: string): Map<string, TransactionSplit[]> {
+  const rows = getDb().prepare(`
+    SELECT s.* FROM transaction_split s
+    JOIN transaction_ t ON t.id = s.transaction_id
+    WHERE s.user_id = ? AND t.date >= ? AND t.date <= ?
+    ORDER BY s.rowid
+  `).all(userId, start, end) as any[];
+
+  const byTxn = new Map<string, TransactionSplit[]>();
+  for (const row of rows) {
+    if (!byTxn.has(row.transaction_id)) byTxn.set(row.transaction_id, []);
+    byTxn.get(row.transaction_id)!.push(mapSplitRow(row));
+  }
+  return byTxn;
+}
+
+/**
+ * Replace a transaction's splits. Inputs are assumed validated against the
+ * parent amount (see validateSplitsInput); an empty list unsplits it.
+ * Returns null when the transaction isn't the user's.
+ */
+export function setTransactionSplits(userId: string, transactionId: string, splits: SplitInput[]): TransactionSplit[] | null {
+  const db = getDb();
+  const parent = db.prepare(
+    `SELECT amount FROM transaction_ WHERE id = ? AND user_id = ?`
+  ).get(transactionId, userId) as { amount: number } | undefined;
+  if (!parent) return null;
+
+  const sign = parent.amount < 0 ? -1 : 1;
+  const insert = db.prepare(`
+    INSERT INTO transaction_split (id, transaction_id, user_id, category, amount, note)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM transaction_split WHERE transaction_id = ?`).run(transactionId);
+    for (const split of splits) {
+      insert.run(uuid(), transactionId, userId, split.category.trim(), sign * round2(Math.abs(split.amount)), split.note ?? null);
+    }
+  })();
+
+  return getSplits(userId, transactionId);
+}
+
+/**
+ * Keep splits summing to the parent after the provider corrects its amount
+ * (e.g. a tip added when a pending charge posts) by scaling each part. The
+ * last part absorbs rounding. A sign flip or zero amount drops the splits.
+ */
+export function rescaleSplits(transactionId: string, oldAmount: number, newAmount: number): void {
+  const db = getDb();
+  const rows = db.prepare(
+    `SELECT id, amount FROM transaction_split WHERE transaction_id = ? ORDER BY rowid`
+  ).all(transactionId) as { id: string; amount: number }[];
+  if (rows.length === 0 || oldAmount === newAmount) return;
+
+  if (oldAmount === 0 || newAmount === 0 || Math.sign(oldAmount) !== Math.sign(newAmount)) {
+    db.prepare(`DELETE FROM transaction_split WHERE transaction_id = ?`).run(transactionId);
+    return;
+  }
+
+  const factor = newAmount / oldAmount;
+  const update = db.prepare(`UPDATE transaction_split SET amount = ? WHERE id = ?`);
+  let allocated = 0;
+  rows.forEach((row, i) => {
+    const amount = i === rows.length - 1 ? round2(newAmount - allocated) : round2(row.amount * factor);
+    allocated += amount;
+    update.run(amount, row.id);
+  });
+}
+
+/**
+ * Category allocations of a transaction: its splits, or the whole amount
+ * under its own category when it isn't split.
+ */
+export function allocations(
+  txn: { amount: number; category_primary: string | null; splits?: TransactionSplit[] }
+): CategoryAllocation[] {
+  if (txn.splits && txn.splits.length > 0) {
+    return txn.splits.map(s => ({ category: s.category, amount: s.amount }));
+  }
+  return [{ category: txn.category_primary || 'Other', amount: txn.amount }];
+}
+
+/**
+ * The part of a transaction's amount allocated to a category, or to any of
+ * several (a category and its subcategories).
+ */
+export function categoryAmount(
+  txn: { amount: number; category_primary: string | null; splits?: TransactionSplit[] },
+  category: string | string[]
+): number {
+  const categories = Array.isArray(category) ? category : [category];
+  return round2(allocations(txn)
+    .filter(a => categories.includes(a.category))
+    .reduce((sum, a) => sum + a.amount, 0));
+}
@@ -0,0 +1,509 @@
+import crypto from 'crypto';
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { ingestTransactions, applyTransactionDelta } from './ingestion';
+import { matchTransferContributions } from './goals';
+import { getTransactionById } from './retrieval';
+import { publishEvent } from './events';
+import { Transaction } from '../schemas';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qfx';
+export type StatementImportStatus = 'PREVIEW' | 'COMMITTED' | 'ROLLED_BACK';
+
+/**
+ * Column mapping for a bank's CSV export. Columns are header names
+ * (matched case-insensitively) or zero-based indexes for header-less files.
+ */
+export interface CsvProfile {
+  id: string;
+  label: string;
+  hasHeader: boolean;
+  dateFormat: 'MDY' | 'YMD';
+  date: string | number;
+  description: string | number;
+  /** Single signed amount column... */
+  amount?: string | number;
+  /** ...or separate debit/credit columns (both positive numbers) */
+  debit?: string | number;
+  credit?: string | number;
+  category?: string | number;
+  /** Set when the bank exports charges as positive numbers */
+  chargesArePositive?: boolean;
+}
+
+export const CSV_PROFILES: Record<string, CsvProfile> = {
+  generic: {
+    id: 'generic', label: 'Generic (Date, Description, Amount)', hasHeader: true, dateFormat: 'MDY',
+    date: 'date', description: 'description', amount: 'amount',
+  },
+  chase: {
+    id: 'chase', label: 'Chase', hasHeader: true, dateFormat: 'MDY',
+    date: 'transaction date', description: 'description', amount: 'amount', category: 'category',
+  },
+  bank_of_america: {
+    id: 'bank_of_america', label: 'Bank of America', hasHeader: true, dateFormat: 'MDY',
+    date: 'date', description: 'description', amount: 'amount',
+  },
+  wells_fargo: {
+    // Wells Fargo exports have no header: date, amount, *, *, description
+    id: 'wells_fargo', label: 'Wells Fargo', hasHeader: false, dateFormat: 'MDY',
+    date: 0, amount: 1, description: 4,
+  },
+  capital_one: {
+    id: 'capital_one', label: 'Capital One', hasHeader: true, dateFormat: 'YMD',
+    date: 'transaction date', description: 'description', debit: 'debit', credit: 'credit', category: 'category',
+  },
+  amex: {
+    id: 'amex', label: 'American Express', hasHeader: true, dateFormat: 'MDY',
+    date: 'date', description: 'description', amount: 'amount', chargesArePositive: true,
+  },
+};
+
+export interface StatementImportInput {
+  filename?: string;
+  content: string;
+  format?: StatementFormat;
+  profile?: string;
+}
+
+export interface StatementRowError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  profile: string | null;
+  transactions: Transaction[];
+  errors: StatementRowError[];
+}
+
+export interface StatementImportRecord {
+  id: string;
+  user_id: string;
+  filename: string | null;
+  format: StatementFormat;
+  profile: string | null;
+  status: StatementImportStatus;
+  row_count: number;
+  new_count: number;
+  duplicate_count: number;
+  error_count: number;
+  inserted_count: number;
+  created_at: string;
+  committed_at: string | null;
+  rolled_back_at: string | null;
+}
+
+export interface StatementImportPreview {
+  import: StatementImportRecord;
+  new_transactions: Transaction[];
+  duplicates: Transaction[];
+  /** New rows whose date + amount already exist from another source (e.g. bank sync) */
+  possible_duplicates: Array<{ transaction: Transaction; existing_id: string }>;
+  errors: StatementRowError[];
+}
+
+// ─── Parsing ───
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+function parseStatementDate(raw: string, dateFormat: 'MDY' | 'YMD'): string | null {
+  const value = raw.trim();
+  let m = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+  m = value.match(/^(\d{8})/); // OFX: YYYYMMDD[HHMMSS[.XXX][TZ]]
+  if (m) return toIsoDate(+value.slice(0, 4), +value.slice(4, 6), +value.slice(6, 8));
+  m = value.match(/^(\d{1,4})\/(\d{1,2})\/(\d{1,4})$/);
+  if (!m) return null;
+  if (dateFormat === 'YMD' || m[1].length === 4) return toIsoDate(+m[1], +m[2], +m[3]);
+  const year = m[3].length === 2 ? 2000 + +m[3] : +m[3];
+  return toIsoDate(year, +m[1], +m[2]);
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseAmount(raw: string | undefined): number | null {
+  if (raw == null || raw.trim() === '') return null;
+  let value = raw.trim().replace(/[$,\s]/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) { negative = true; value = value.slice(1, -1); }
+  const n = parseFloat(value);
+  if (isNaN(n)) return null;
+  return Math.round((negative ? -n : n) * 100) / 100;
+}
+
+/**
+ * Stable id so re-importing the same statement is a no-op. `occurrence`
+ * separates genuinely repeated rows (same day, amount, description) in one file.
+ */
+export function statementTxnHash(userId: string, parts: string[], occurrence: number): string {
+  const digest = crypto.createHash('sha256')
+    .update([userId, ...parts, String(occurrence)].join('|'))
+    .digest('hex');
+  return `stmt_${digest.slice(0, 32)}`;
+}
+
+function buildTransaction(
+  userId: string,
+  format: StatementFormat,
+  fields: { date: string; amount: number; name: string; category: string | null; providerTxnId: string; memo?: string },
+): Transaction {
+  return {
+    id: uuid(),
+    user_id: userId,
+    provider: `statement_${format}`,
+    provider_txn_id: fields.providerTxnId,
+    date: fields.date,
+    amount: fields.amount,
+    currency: 'USD',
+    name: fields.name,
+    merchant_name: fields.name,
+    category_primary: fields.category,
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: fields.memo ? { source: 'statement_import', memo: fields.memo } : { source: 'statement_import' },
+  };
+}
+
+function resolveColumn(column: string | number | undefined, header: string[] | null): number {
+  if (column === undefined) return -1;
+  if (typeof column === 'number') return column;
+  if (!header) return -1;
+  return header.findIndex(h => h.trim().toLowerCase() === column.toLowerCase());
+}
+
+export function parseCsvStatement(userId: string, content: string, profileId = 'generic'): ParsedStatement {
+  const profile = CSV_PROFILES[profileId];
+  if (!profile) throw new Error(`Unreadable statement: unknown CSV profile ${profileId}`);
+
+  const rows = parseCsv(content);
+  const header = profile.hasHeader ? rows.shift() ?? [] : null;
+  const firstDataRow = profile.hasHeader ? 2 : 1;
+  const cols = {
+    date: resolveColumn(profile.date, header),
+    description: resolveColumn(profile.description, header),
+    amount: resolveColumn(profile.amount, header),
+    debit: resolveColumn(profile.debit, header),
+    credit: resolveColumn(profile.credit, header),
+    category: resolveColumn(profile.category, header),
+  };
+  if (cols.date < 0 || cols.description < 0 || (cols.amount < 0 && cols.debit < 0 && cols.credit < 0)) {
+    throw new Error(`Unreadable statement: CSV columns do not match the ${profile.label} profile`);
+  }
+
+  const transactions: Transaction[] = [];
+  const errors: StatementRowError[] = [];
+  const occurrences = new Map<string, number>();
+
+  rows.forEach((cells, i) => {
+    const rowNumber = i + firstDataRow;
+    const date = parseStatementDate(cells[cols.date] ?? '', profile.dateFormat);
+    const name = (cells[cols.description] ?? '').trim();
+
+    let amount: number | null;
+    if (cols.amount >= 0) {
+      amount = parseAmount(cells[cols.amount]);
+      if (amount !== null && profile.chargesArePositive) amount = -amount;
+    } else {
+      const debit = parseAmount(cells[cols.debit]);
+      const credit = parseAmount(cells[cols.credit]);
+      amount = debit !== null ? -Math.abs(debit) : credit !== null ? Math.abs(credit) : null;
+    }
+
+    if (!date) { errors.push({ row: rowNumber, message: `Unreadable date "${cells[cols.date] ?? ''}"` }); return; }
+    if (amount === null) { errors.push({ row: rowNumber, message: 'Missing or invalid amount' }); return; }
+    if (!name) { errors.push({ row: rowNumber, message: 'Missing description' }); return; }
+
+    const key = `${date}|${amount.toFixed(2)}|${name.toLowerCase()}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    const category = cols.category >= 0 ? (cells[cols.category] ?? '').trim() || null : null;
+    transactions.push(buildTransaction(userId, 'csv', {
+      date, amount, name, category,
+      providerTxnId: statementTxnHash(userId, [date, amount.toFixed(2), name.toLowerCase()], occurrence),
+    }));
+  });
+
+  return { format: 'csv', profile: profile.id, transactions, errors };
+}
+
+function ofxTag(block: string, tag: string): string | null {
+  // Handles both SGML (unclosed) and XML (closed) OFX tags
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return m ? m[1].trim() : null;
+}
+
+/**
+ * Parse OFX 1.x (SGML) or 2.x (XML) statements. QFX is OFX with Intuit headers.
+ * FITID is the bank's own transaction id, so it anchors the stable hash.
+ */
+export function parseOfxStatement(userId: string, content: string, format: 'ofx' | 'qfx' = 'ofx'): ParsedStatement {
+  const accountId = ofxTag(content, 'ACCTID') ?? '';
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(b => b.split(/<\/STMTTRN>/i)[0]);
+  if (blocks.length === 0 && !/<OFX>/i.test(content)) {
+    throw new Error('Unreadable statement: file does not look like OFX/QFX');
+  }
+
+  const transactions: Transaction[] = [];
+  const errors: StatementRowError[] = [];
+  const occurrences = new Map<string, number>();
+
+  blocks.forEach((block, i) => {
+    const rowNumber = i + 1;
+    const date = parseStatementDate(ofxTag(block, 'DTPOSTED') ?? '', 'YMD');
+    const amount = parseAmount(ofxTag(block, 'TRNAMT') ?? undefined);
+    const name = ofxTag(block, 'NAME') || ofxTag(block, 'MEMO') || '';
+    const memo = ofxTag(block, 'MEMO') ?? undefined;
+    const fitId = ofxTag(block, 'FITID');
+
+    if (!date) { errors.push({ row: rowNumber, message: 'Missing or invalid DTPOSTED' }); return; }
+    if (amount === null) { errors.push({ row: rowNumber, message: 'Missing or invalid TRNAMT' }); return; }
+    if (!name) { errors.push({ row: rowNumber, message: 'Missing NAME/MEMO' }); return; }
+
+    const parts = fitId
+      ? [accountId, fitId]
+      : [date, amount.toFixed(2), name.toLowerCase()];
+    const key = parts.join('|');
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    transactions.push(buildTransaction(userId, format, {
+      date, amount, name, category: null, memo: memo && memo !== name ? memo : undefined,
+      providerTxnId: statementTxnHash(userId, parts, occurrence),
+    }));
+  });
+
+  return { format, profile: null, transactions, errors };
+}
+
+export function detectStatementFormat(filename: string | undefined, content: string): StatementFormat {
+  const ext = filename?.split('.').pop()?.toLowerCase();
+  if (ext === 'qfx') return 'qfx';
+  if (ext === 'ofx') return 'ofx';
+  if (ext === 'csv') return 'csv';
+  if (/<OFX>|OFXHEADER/i.test(content)) return /INTU\.BID/i.test(content) ? 'qfx' : 'ofx';
+  return 'csv';
+}
+
+export function parseStatement(userId: string, input: StatementImportInput): ParsedStatement {
+  const format = input.format ?? detectStatementFormat(input.filename, input.content);
+  if (format === 'csv') return parseCsvStatement(userId, input.content, input.profile || 'generic');
+  return parseOfxStatement(userId, input.content, format);
+}
+
+export function validateStatementImportInput(body: any): { error?: string } {
+  if (!body.content || typeof body.content !== 'string') return { error: 'content required' };
+  if (body.format && !['csv', 'ofx', 'qfx'].includes(body.format)) {
+    return { error: 'format must be csv, ofx, or qfx' };
+  }
+  if (body.profile && !CSV_PROFILES[body.profile]) {
+    return { error: `Invalid profile. Must be one of: ${Object.keys(CSV_PROFILES).join(', ')}` };
+  }
+  return {};
+}
+
+// ─── Import lifecycle: preview → commit → (rollback) ───
+
+function mapImportRow(row: any): StatementImportRecord {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    filename: row.filename,
+    format: row.format,
+    profile: row.profile,
+    status: row.status,
+    row_count: row.row_count,
+    new_count: row.new_count,
+    duplicate_count: row.duplicate_count,
+    error_count: row.error_count,
+    inserted_count: row.inserted_count,
+    created_at: row.created_at,
+    committed_at: row.committed_at,
+    rolled_back_at: row.rolled_back_at,
+  };
+}
+
+/**
+ * Parse an uploaded statement and stage it. Nothing touches transaction_
+ * until commitStatementImport is called with the returned import id.
+ */
+export function previewStatementImport(userId: string, input: StatementImportInput): StatementImportPreview {
+  const db = getDb();
+  const parsed = parseStatement(userId, input);
+
+  const existsStmt = db.prepare('SELECT id FROM transaction_ WHERE provider_txn_id = ?');
+  const similarStmt = db.prepare(`
+    SELECT id FROM transaction_
+    WHERE user_id = ? AND date = ? AND amount = ? AND provider NOT LIKE 'statement_%'
+    LIMIT 1
+  `);
+
+  const newTransactions: Transaction[] = [];
+  const duplicates: Transaction[] = [];
+  const possibleDuplicates: StatementImportPreview['possible_duplicates'] = [];
+
+  for (const txn of parsed.transactions) {
+    if (existsStmt.get(txn.provider_txn_id)) {
+      duplicates.push(txn);
+      continue;
+    }
+    newTransactions.push(txn);
+    const similar = similarStmt.get(userId, txn.date, txn.amount) as { id: string } | undefined;
+    if (similar) possibleDuplicates.push({ transaction: txn, existing_id: similar.id });
+  }
+
+  const id = uuid();
+  db.prepare(`
+    INSERT INTO statement_import
+    (id, user_id, filename, format, profile, row_count, new_count, duplicate_count, error_count, payload, errors)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, userId, input.filename || null, parsed.format, parsed.profile,
+    parsed.transactions.length + parsed.errors.length,
+    newTransactions.length, duplicates.length, parsed.errors.length,
+    JSON.stringify(newTransactions), JSON.stringify(parsed.errors)
+  );
+
+  return {
+    import: getStatementImport(userId, id)!,
+    new_transactions: newTransactions,
+    duplicates,
+    possible_duplicates: possibleDuplicates,
+    errors: parsed.errors,
+  };
+}
+
+export function getStatementImport(userId: string, importId: string): StatementImportRecord | null {
+  const row = getDb().prepare(
+    'SELECT * FROM statement_import WHERE id = ? AND user_id = ?'
+  ).get(importId, userId) as any;
+  return row ? mapImportRow(row) : null;
+}
+
+export function listStatementImports(userId: string, limit = 50): StatementImportRecord[] {
+  const rows = getDb().prepare(
+    'SELECT * FROM statement_import WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?'
+  ).all(userId, limit) as any[];
+  return rows.map(mapImportRow);
+}
+
+/**
+ * Ingest a staged import. Returns null if the import doesn't exist for this user.
+ * Throws if the import is not in PREVIEW state.
+ */
+export function commitStatementImport(userId: string, importId: string): StatementImportRecord | null {
+  const db = getDb();
+  const row = db.prepare(
+    'SELECT * FROM statement_import WHERE id = ? AND user_id = ?'
+  ).get(importId, userId) as any;
+  if (!row) return null;
+  if (row.status !== 'PREVIEW') throw new Error(`Import is ${row.status}, not PREVIEW`);
+
+  const staged = JSON.parse(row.payload || '[]') as Transaction[];
+  const insertedStmt = db.prepare('SELECT id FROM transaction_ WHERE id = ? AND provider_txn_id = ?');
+  const linkStmt = db.prepare('INSERT INTO statement_import_txn (import_id, transaction_id) VALUES (?, ?)');
+
+  const insertedIds: string[] = [];
+  db.transaction(() => {
+    ingestTransactions(staged);
+    for (const txn of staged) {
+      // Rows already present (e.g. imported in between preview and commit) are skipped by ingestion
+      if (insertedStmt.get(txn.id, txn.provider_txn_id)) {
+        linkStmt.run(importId, txn.id);
+        insertedIds.push(txn.id);
+      }
+    }
+    db.prepare(`
+      UPDATE statement_import
+      SET status = 'COMMITTED', inserted_count = ?, payload = '[]', committed_at = datetime('now')
+      WHERE id = ?
+    `).run(insertedIds.length, importId);
+  })();
+
+  // After commit, like a bank sync: credit goal transfers and push the new rows to clients
+  if (insertedIds.length > 0) {
+    matchTransferContributions(userId);
+    publishEvent(userId, 'transaction.ingested', {
+      inserted: insertedIds.length,
+      modified: 0,
+      removed: 0,
+      transactions: insertedIds.map(id => getTransactionById(userId, id)).filter(Boolean),
+      removed_ids: [],
+    });
+  }
+
+  return getStatementImport(userId, importId);
+}
+
+/** Ids of the transactions a committed import inserted */
+export function listImportedTransactionIds(userId: string, importId: string): string[] {
+  const rows = getDb().prepare(`
+    SELECT t.transaction_id FROM statement_import_txn t
+    JOIN statement_import i ON i.id = t.import_id
+    WHERE t.import_id = ? AND i.user_id = ?
+  `).all(importId, userId) as { transaction_id: string }[];
+  return rows.map(r => r.transaction_id);
+}
+
+/**
+ * Remove every transaction a committed import inserted.
+ * Returns null if the import doesn't exist for this user; throws unless COMMITTED.
+ */
+export function rollbackStatementImport(userId: string, importId: string): StatementImportRecord | null {
+  const db = getDb();
+  const record = getStatementImport(userId, importId);
+  if (!record) return null;
+  if (record.status !== 'COMMITTED') throw new Error(`Import is ${record.status}, not COMMITTED`);
+
+  const imported = db.prepare(`
+    SELECT provider_txn_id FROM transaction_
+    WHERE user_id = ? AND id IN (SELECT transaction_id FROM statement_import_txn WHERE import_id = ?)
+  `).all(userId, importId) as { provider_txn_id: string }[];
+
+  db.transaction(() => {
+    // Through the delta so removals are audited and transfer partners are released
+    applyTransactionDelta(userId, { upsert: [], remove: imported.map(r => r.provider_txn_id) }, 'statement_import');
+    db.prepare(`
+      UPDATE statement_import SET status = 'ROLLED_BACK', rolled_back_at = datetime('now') WHERE id = ?
+    `).run(importId);
+  })();
+  // After commit, like a bank sync: goal transfer credits follow the removed rows
+  matchTransferContributions(userId);
+
+  return getStatementImport(userId, importId);
+}
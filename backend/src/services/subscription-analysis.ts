@@ -1,136 +1,290 @@
 import { v4 as uuid } from 'uuid';
 import { getDb } from '../db/database';
 import { getTransactions } from './ingestion';
-import { RecurringCandidate } from '../schemas';
+import { RecurringCandidate, PricePoint, SubscriptionTrial } from '../schemas';
+import { normalizeMerchantKey } from './merchant-key';
+import { publishEvent } from './events';
+import { addDays, daysBetween, userToday } from './user-clock';
+
+/** Two charges of an annual subscription, with a month to spare before the third */
+export const DEFAULT_LOOKBACK_DAYS = 800;
+
+/** How far ahead an annual or quarterly renewal, or a trial ending, is flagged */
+export const RENEWAL_NOTICE_DAYS = 30;
+
+/** Assumed length of a free trial that hasn't converted yet */
+const TRIAL_DAYS = 30;
+
+/** A charge within 2% of the current price is at that price */
+const PRICE_TOLERANCE = 0.02;
+
+/** A change detected on first sight is only announced if it's this recent */
+const PRICE_CHANGE_NOTICE_DAYS = 35;
+
+const CADENCES: { cadence: RecurringCandidate['cadence']; min: number; max: number; confidence: number }[] = [
+  { cadence: 'weekly', min: 5, max: 10, confidence: 0.7 },
+  { cadence: 'monthly', min: 25, max: 35, confidence: 0.8 },
+  { cadence: 'quarterly', min: 85, max: 100, confidence: 0.7 },
+  { cadence: 'annual', min: 350, max: 380, confidence: 0.6 },
+];
+
+const MONTHS_PER_CHARGE: Record<string, number> = { monthly: 1, quarterly: 3, annual: 12 };
+
+interface Charge {
+  id: string;
+  date: string;
+  amount: number;
+}
 
 interface MerchantHistory {
   merchant: string;
-  amounts: number[];
-  dates: string[];
+  charges: Charge[];
+}
+
+/** The date one billing period after `date` */
+export function nextChargeDate(date: string, cadence: string): string {
+  if (cadence === 'weekly') return addDays(date, 7);
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + (MONTHS_PER_CHARGE[cadence] ?? 1));
+  return d.toISOString().split('T')[0];
+}
+
+function isTrialAmount(amount: number): boolean {
+  return amount === 0 || amount === 1;
+}
+
+/** Split charges into runs at the same price, each starting at its first charge */
+function priceLevels(charges: Charge[]): (PricePoint & { count: number })[] {
+  const levels: (PricePoint & { count: number })[] = [];
+  for (const charge of charges) {
+    const current = levels[levels.length - 1];
+    if (current && Math.abs(charge.amount - current.amount) <= current.amount * PRICE_TOLERANCE) {
+      current.amount = charge.amount;
+      current.count++;
+    } else {
+      levels.push({ amount: charge.amount, since: charge.date, transaction_id: charge.id, count: 1 });
+    }
+  }
+  return levels;
 }
 
 /**
- * Detect recurring/subscription charges from transaction history.
- * Looks for merchants with repeated similar-amount charges at regular intervals.
+ * Detect recurring/subscription charges from transaction history, grouped
+ * by normalized merchant_key. A fixed-price subscription keeps its price
+ * history, so a price change doesn't break detection: the typical amount
+ * is the current price. Charges whose amount varies a little (utilities)
+ * use the average instead. A leading $0/$1 charge is a free trial; a trial
+ * with no paid charge yet is expected to convert a month later.
  */
-export function detectRecurringCandidates(userId: string, lookbackDays = 90): RecurringCandidate[] {
-  const now = new Date();
-  const start = new Date(now);
-  start.setDate(start.getDate() - lookbackDays);
-
-  const txns = getTransactions(
-    userId,
-    start.toISOString().split('T')[0],
-    now.toISOString().split('T')[0],
-    { includePending: false }
-  );
+export function detectRecurringCandidates(userId: string, lookbackDays = DEFAULT_LOOKBACK_DAYS): RecurringCandidate[] {
+  const today = userToday(userId);
+  const txns = getTransactions(userId, addDays(today, -lookbackDays), today, { includePending: false });
 
   // Group by merchant
   const byMerchant = new Map<string, MerchantHistory>();
   for (const txn of txns) {
-    if (txn.amount >= 0) continue; // skip income/refunds
-    const key = (txn.merchant_name || txn.name).toLowerCase().trim();
-    if (!byMerchant.has(key)) {
-      byMerchant.set(key, { merchant: txn.merchant_name || txn.name, amounts: [], dates: [] });
-    }
-    const entry = byMerchant.get(key)!;
-    entry.amounts.push(Math.abs(txn.amount));
-    entry.dates.push(txn.date);
+    if (txn.amount > 0) continue; // skip income/refunds
+    const key = normalizeMerchantKey(txn.merchant_name, txn.name);
+    if (!key) continue;
+    if (!byMerchant.has(key)) byMerchant.set(key, { merchant: txn.merchant_name || txn.name, charges: [] });
+    byMerchant.get(key)!.charges.push({ id: txn.id, date: txn.date, amount: Math.round(Math.abs(txn.amount) * 100) / 100 });
   }
 
   const candidates: RecurringCandidate[] = [];
 
   for (const [key, history] of byMerchant) {
-    if (history.dates.length < 2) continue;
+    const charges = history.charges.sort((a, b) => a.date.localeCompare(b.date));
+    const trialCharge = isTrialAmount(charges[0].amount) && !(charges[1] && isTrialAmount(charges[1].amount))
+      ? charges[0]
+      : null;
+    const paid = trialCharge ? charges.slice(1) : charges;
+    const source = { merchant_name: history.merchant, transaction_count: charges.length };
 
-    // Check amount consistency (coefficient of variation < 0.15)
-    const avg = history.amounts.reduce((a, b) => a + b, 0) / history.amounts.length;
-    const variance = history.amounts.reduce((s, a) => s + (a - avg) ** 2, 0) / history.amounts.length;
-    const cv = Math.sqrt(variance) / avg;
-    if (cv > 0.15 && avg > 5) continue; // amounts too variable unless very small
-
-    // Check date regularity
-    const sortedDates = [...history.dates].sort();
-    const intervals: number[] = [];
-    for (let i = 1; i < sortedDates.length; i++) {
-      const d1 = new Date(sortedDates[i - 1]);
-      const d2 = new Date(sortedDates[i]);
-      intervals.push(Math.round((d2.getTime() - d1.getTime()) / (1000 * 60 * 60 * 24)));
+    if (paid.length === 0) {
+      const convertsOn = addDays(trialCharge!.date, TRIAL_DAYS);
+      if (convertsOn < today) continue; // lapsed without a paid charge
+      candidates.push({
+        id: uuid(),
+        user_id: userId,
+        merchant_key: key,
+        typical_amount: 0,
+        cadence: 'monthly',
+        next_expected_date: convertsOn,
+        confidence: 0.4,
+        source,
+        price_history: [],
+        trial: { amount: trialCharge!.amount, charged_on: trialCharge!.date, converts_on: convertsOn, converted_on: null },
+      });
+      continue;
     }
+    if (paid.length < 2 && !trialCharge) continue;
 
-    if (intervals.length === 0) continue;
-    const avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
-
-    let cadence: 'weekly' | 'monthly' | 'annual' | 'unknown' = 'unknown';
-    let confidence = 0.3;
-
-    if (avgInterval >= 5 && avgInterval <= 10) {
-      cadence = 'weekly';
-      confidence = 0.7;
-    } else if (avgInterval >= 25 && avgInterval <= 35) {
-      cadence = 'monthly';
-      confidence = 0.8;
-    } else if (avgInterval >= 350 && avgInterval <= 380) {
-      cadence = 'annual';
-      confidence = 0.6;
-    }
+    // Fixed price: a single price, or a few prices each held for at least two
+    // charges (the first and the newest may be seen only once)
+    const levels = priceLevels(paid);
+    const fixedPrice = levels.length === 1
+      || (paid.length >= 3 && levels.length <= 3 && levels.slice(1, -1).every(l => l.count >= 2));
 
-    if (cadence === 'unknown') continue;
+    const amounts = paid.map(c => c.amount);
+    const avg = amounts.reduce((a, b) => a + b, 0) / amounts.length;
+    const variance = amounts.reduce((s, a) => s + (a - avg) ** 2, 0) / amounts.length;
+    const cv = Math.sqrt(variance) / avg;
+    if (!fixedPrice && cv > 0.15 && avg > 5) continue; // amounts too variable unless very small
 
-    // Boost confidence if amounts are very consistent
-    if (cv < 0.02) confidence = Math.min(confidence + 0.15, 1.0);
+    // Check date regularity; a trial with one paid charge so far is taken as monthly
+    let cadence: RecurringCandidate['cadence'] = 'monthly';
+    let confidence = 0.5;
+    let avgInterval = 0;
+    if (paid.length >= 2) {
+      const intervals = paid.slice(1).map((c, i) => daysBetween(paid[i].date, c.date));
+      avgInterval = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+      const match = CADENCES.find(c => avgInterval >= c.min && avgInterval <= c.max);
+      if (!match) continue;
+      ({ cadence, confidence } = match);
+    }
 
-    // Estimate next charge
-    const lastDate = new Date(sortedDates[sortedDates.length - 1]);
-    const nextDate = new Date(lastDate);
-    if (cadence === 'weekly') nextDate.setDate(nextDate.getDate() + 7);
-    else if (cadence === 'monthly') nextDate.setMonth(nextDate.getMonth() + 1);
-    else if (cadence === 'annual') nextDate.setFullYear(nextDate.getFullYear() + 1);
+    // Boost confidence for a fixed price
+    if (fixedPrice) confidence = Math.min(confidence + 0.15, 1.0);
 
+    const lastPaid = paid[paid.length - 1];
     candidates.push({
       id: uuid(),
       user_id: userId,
       merchant_key: key,
-      typical_amount: Math.round(avg * 100) / 100,
+      typical_amount: fixedPrice ? levels[levels.length - 1].amount : Math.round(avg * 100) / 100,
       cadence,
-      next_expected_date: nextDate.toISOString().split('T')[0],
+      next_expected_date: nextChargeDate(lastPaid.date, cadence),
       confidence: Math.round(confidence * 100) / 100,
       source: {
-        transaction_count: history.dates.length,
+        ...source,
         avg_interval_days: Math.round(avgInterval),
         amount_cv: Math.round(cv * 1000) / 1000,
       },
+      price_history: fixedPrice ? levels.map(({ amount, since, transaction_id }) => ({ amount, since, transaction_id })) : [],
+      trial: trialCharge
+        ? {
+            amount: trialCharge.amount,
+            charged_on: trialCharge.date,
+            converts_on: paid[0].date,
+            converted_on: paid[0].date,
+          }
+        : null,
     });
   }
 
   return candidates;
 }
 
+export function rowToRecurringCandidate(r: any): RecurringCandidate {
+  return {
+    id: r.id,
+    user_id: r.user_id,
+    merchant_key: r.merchant_key,
+    typical_amount: r.typical_amount,
+    cadence: r.cadence,
+    next_expected_date: r.next_expected_date,
+    confidence: r.confidence,
+    source: JSON.parse(r.source || '{}'),
+    price_history: JSON.parse(r.price_history || '[]'),
+    trial: r.trial ? JSON.parse(r.trial) : null,
+  };
+}
+
+function money(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Price changes in `candidate` not seen in what was stored for it: after the
+ * stored history's latest price, or, for a subscription seen for the first
+ * time, within the last few weeks. A trial turning into a paid charge counts.
+ */
+function newPriceChanges(
+  candidate: RecurringCandidate,
+  stored: RecurringCandidate | null,
+  today: string
+): { previous: number; point: PricePoint; trialConverted: boolean }[] {
+  const storedHistory = stored?.price_history ?? [];
+  const cutoff = storedHistory.length > 0
+    ? storedHistory[storedHistory.length - 1].since
+    : addDays(today, -PRICE_CHANGE_NOTICE_DAYS);
+
+  const changes = candidate.price_history.slice(1)
+    .map((point, i) => ({ previous: candidate.price_history[i].amount, point, trialConverted: false }))
+    .filter(c => c.point.since > cutoff);
+
+  const trial: SubscriptionTrial | null = candidate.trial;
+  const first = candidate.price_history[0];
+  if (trial?.converted_on && first && !stored?.trial?.converted_on && trial.converted_on > addDays(today, -PRICE_CHANGE_NOTICE_DAYS)) {
+    changes.unshift({ previous: trial.amount, point: first, trialConverted: true });
+  }
+  return changes;
+}
+
 /**
- * Upsert recurring candidates into the database.
+ * Upsert recurring candidates into the database, one row per user and
+ * merchant_key: a merchant seen before keeps its id. Publishes
+ * `subscription.price_changed` for each new price or converted trial.
  */
 export function upsertRecurringCandidates(candidates: RecurringCandidate[]): number {
   const db = getDb();
   const upsert = db.prepare(`
-    INSERT INTO recurring_candidate (id, user_id, merchant_key, typical_amount, cadence, next_expected_date, confidence, source)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO recurring_candidate (id, user_id, merchant_key, typical_amount, cadence, next_expected_date, confidence, source, price_history, trial)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(id) DO UPDATE SET
+      merchant_key = excluded.merchant_key,
       typical_amount = excluded.typical_amount,
       cadence = excluded.cadence,
       next_expected_date = excluded.next_expected_date,
       confidence = excluded.confidence,
       source = excluded.source,
+      price_history = excluded.price_history,
+      trial = excluded.trial,
       updated_at = datetime('now')
   `);
+  const existingRows = new Map<string, RecurringCandidate[]>();
+  const existingFor = (userId: string) => {
+    if (!existingRows.has(userId)) {
+      const rows = db.prepare(`SELECT * FROM recurring_candidate WHERE user_id = ?`).all(userId) as any[];
+      existingRows.set(userId, rows.map(rowToRecurringCandidate));
+    }
+    return existingRows.get(userId)!;
+  };
 
+  const changes: { candidate: RecurringCandidate; previous: number; point: PricePoint; trialConverted: boolean }[] = [];
   let count = 0;
   const txn = db.transaction(() => {
     for (const c of candidates) {
-      upsert.run(c.id, c.user_id, c.merchant_key, c.typical_amount, c.cadence, c.next_expected_date, c.confidence, JSON.stringify(c.source));
+      // Rows from before merchant keys were normalized match on the normalized key
+      const stored = existingFor(c.user_id).find(r => normalizeMerchantKey(r.merchant_key, '') === c.merchant_key) ?? null;
+      const id = stored?.id ?? c.id;
+      upsert.run(
+        id, c.user_id, c.merchant_key, c.typical_amount, c.cadence, c.next_expected_date, c.confidence,
+        JSON.stringify(c.source), JSON.stringify(c.price_history), c.trial ? JSON.stringify(c.trial) : null
+      );
+      for (const change of newPriceChanges(c, stored, userToday(c.user_id))) {
+        changes.push({ candidate: { ...c, id }, ...change });
+      }
       count++;
     }
   });
   txn();
+
+  for (const { candidate, previous, point, trialConverted } of changes) {
+    const name = (candidate.source.merchant_name as string | undefined) || candidate.merchant_key;
+    publishEvent(candidate.user_id, 'subscription.price_changed', {
+      id: candidate.id,
+      merchant_key: candidate.merchant_key,
+      previous_amount: previous,
+      amount: point.amount,
+      effective_date: point.since,
+      transaction_id: point.transaction_id,
+      trial_converted: trialConverted,
+      message: trialConverted
+        ? `${name} trial ended: went from ${money(previous)} to ${money(point.amount)}`
+        : `${name} went from ${money(previous)} to ${money(point.amount)}`,
+    });
+  }
   return count;
 }
 
@@ -138,49 +292,51 @@ export function upsertRecurringCandidates(candidates: RecurringCandidate[]): num
  * Advance a stale next_expected_date forward to the current or next occurrence.
  * If the date is in the past, roll it forward by the cadence interval until it's today or in the future.
  */
-function advanceToUpcoming(dateStr: string, cadence: string): string {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const d = new Date(dateStr + 'T00:00:00');
-
-  while (d < today) {
-    if (cadence === 'weekly') d.setDate(d.getDate() + 7);
-    else if (cadence === 'monthly') d.setMonth(d.getMonth() + 1);
-    else if (cadence === 'annual') d.setFullYear(d.getFullYear() + 1);
-    else break;
-  }
-
-  return d.toISOString().split('T')[0];
+function advanceToUpcoming(dateStr: string, cadence: string, today: string): string {
+  if (cadence === 'unknown') return dateStr;
+  let d = dateStr;
+  while (d < today) d = nextChargeDate(d, cadence);
+  return d;
 }
 
 /**
- * Get upcoming subscription charges for a user.
+ * Get upcoming subscription charges for a user. A trial that hasn't
+ * converted is listed on the day it's expected to, and dropped once that
+ * day has passed.
  */
 export function getUpcomingSubscriptions(userId: string, daysAhead = 30): RecurringCandidate[] {
   const db = getDb();
-  const futureDate = new Date();
-  futureDate.setDate(futureDate.getDate() + daysAhead);
-  const futureDateStr = futureDate.toISOString().split('T')[0];
+  const today = userToday(userId);
+  const until = addDays(today, daysAhead);
 
   const rows = db.prepare(`
     SELECT * FROM recurring_candidate
     WHERE user_id = ? AND next_expected_date IS NOT NULL
     ORDER BY next_expected_date ASC
   `).all(userId) as any[];
+  // A confirmed cancellation won't charge again
+  const cancelled = new Set((db.prepare(
+    `SELECT merchant_key FROM subscription_cancellation WHERE user_id = ? AND status = 'CONFIRMED'`
+  ).all(userId) as { merchant_key: string }[]).map(r => r.merchant_key));
 
   return rows
-    .map(r => {
-      const advanced = advanceToUpcoming(r.next_expected_date, r.cadence);
-      return {
-        id: r.id,
-        user_id: r.user_id,
-        merchant_key: r.merchant_key,
-        typical_amount: r.typical_amount,
-        cadence: r.cadence,
-        next_expected_date: advanced,
-        confidence: r.confidence,
-        source: JSON.parse(r.source || '{}'),
-      };
-    })
-    .filter(r => r.next_expected_date <= futureDateStr);
+    .filter(r => !cancelled.has(normalizeMerchantKey(r.merchant_key, '')))
+    .map(rowToRecurringCandidate)
+    .filter(c => !(c.trial && !c.trial.converted_on && c.next_expected_date! < today))
+    .map(c => ({ ...c, next_expected_date: advanceToUpcoming(c.next_expected_date!, c.cadence, today) }))
+    .filter(c => c.next_expected_date <= until)
+    .sort((a, b) => a.next_expected_date.localeCompare(b.next_expected_date));
+}
+
+/**
+ * Heads-ups for the next RENEWAL_NOTICE_DAYS: annual and quarterly
+ * renewals, which are easy to forget, and free trials about to turn into
+ * paid charges.
+ */
+export function getSubscriptionHeadsUps(userId: string): { renewals: RecurringCandidate[]; trials: RecurringCandidate[] } {
+  const upcoming = getUpcomingSubscriptions(userId, RENEWAL_NOTICE_DAYS);
+  return {
+    renewals: upcoming.filter(s => s.cadence === 'annual' || s.cadence === 'quarterly'),
+    trials: upcoming.filter(s => s.trial && !s.trial.converted_on),
+  };
 }
@@ -0,0 +1,213 @@
+import { v4 as uuid } from 'uuid';
+import { getDb } from '../db/database';
+import { CancellationProvider, CancellationResult } from '../adapters/types';
+import { getUpcomingSubscriptions } from './subscription-analysis';
+import { getTransactions } from './ingestion';
+import { normalizeMerchantKey } from './merchant-key';
+import { publishEvent } from './events';
+import { creditSoonestGoal, publishGoalCompletions, GoalCompletion } from './goals';
+import { addDays, userToday } from './user-clock';
+
+// Cancelling a subscription, verified by absence. Marking a recurring charge
+// as cancelling (through the CancellationProvider, or by the user
+// themselves) starts a watch on the merchant's charges. No charge by a few
+// days past the next expected date confirms the cancellation and credits a
+// month of the savings to a goal; any charge in the meantime flags it as
+// still charging.
+
+export const CANCELLATION_STATUSES = ['CANCELLING', 'CONFIRMED', 'STILL_CHARGING', 'FAILED', 'KEPT'] as const;
+export type CancellationStatus = typeof CANCELLATION_STATUSES[number];
+export type CancellationMethod = 'provider' | 'self';
+
+/** Days past the expected charge date before a missing charge confirms the cancellation */
+export const CANCELLATION_GRACE_DAYS = 3;
+
+export interface SubscriptionCancellation {
+  id: string;
+  recurring_candidate_id: string | null;
+  merchant_key: string;
+  status: CancellationStatus;
+  method: CancellationMethod;
+  message: string | null;
+  confirmation_id: string | null;
+  /** Steps for the user when the provider couldn't cancel for them */
+  instructions: string[];
+  typical_amount: number;
+  cadence: string;
+  monthly_amount: number;
+  watch_from: string;
+  expected_date: string;
+  verify_by: string;
+  charge_transaction_id: string | null;
+  credited_goal_id: string | null;
+  settled_at: string | null;
+  created_at: string;
+}
+
+export interface CancellationAttempt {
+  cancellation?: SubscriptionCancellation;
+  error?: string;
+}
+
+const MONTHS_PER_CHARGE: Record<string, number> = { weekly: 12 / 52, monthly: 1, quarterly: 3, annual: 12 };
+
+function rowToCancellation(row: any): SubscriptionCancellation {
+  const { user_id, updated_at, ...rest } = row;
+  return { ...rest, instructions: JSON.parse(row.instructions || '[]') };
+}
+
+export function getCancellation(userId: string, cancellationId: string): SubscriptionCancellation | null {
+  const row = getDb().prepare(`SELECT * FROM subscription_cancellation WHERE id = ? AND user_id = ?`).get(cancellationId, userId);
+  return row ? rowToCancellation(row) : null;
+}
+
+/** The user's cancellations, newest first, optionally only those in `statuses` */
+export function listCancellations(userId: string, statuses: CancellationStatus[] = []): SubscriptionCancellation[] {
+  const filter = statuses.length > 0 ? `AND status IN (${statuses.map(() => '?').join(', ')})` : '';
+  const rows = getDb().prepare(`
+    SELECT * FROM subscription_cancellation WHERE user_id = ? ${filter} ORDER BY created_at DESC, rowid DESC
+  `).all(userId, ...statuses) as any[];
+  return rows.map(rowToCancellation);
+}
+
+export function validateCancelInput(body: any): { error?: string } {
+  if (body?.method !== undefined && body.method !== 'provider' && body.method !== 'self') {
+    return { error: "method must be 'provider' or 'self'" };
+  }
+  return {};
+}
+
+function publishCancellation(userId: string, cancellation: SubscriptionCancellation): void {
+  publishEvent(userId, 'subscription.cancellation', {
+    id: cancellation.id,
+    merchant_key: cancellation.merchant_key,
+    status: cancellation.status,
+    monthly_amount: cancellation.monthly_amount,
+    message: cancellation.message,
+  });
+}
+
+/**
+ * Mark a recurring charge as cancelling. With method 'provider' (the
+ * default when there is one) the CancellationProvider is asked first; if it
+ * can't cancel, the attempt is kept as FAILED and returned with the error.
+ * Null if the recurring charge isn't the user's.
+ */
+export async function cancelSubscription(
+  userId: string,
+  candidateId: string,
+  provider: CancellationProvider | null,
+  options: { method?: CancellationMethod } = {},
+  now = new Date()
+): Promise<CancellationAttempt | null> {
+  // An annual charge can be most of a year out
+  const subscription = getUpcomingSubscriptions(userId, 400).find(s => s.id === candidateId);
+  if (!subscription) {
+    const exists = getDb().prepare(`SELECT id FROM recurring_candidate WHERE id = ? AND user_id = ?`).get(candidateId, userId);
+    return exists ? { error: 'This charge has no expected next date to watch for' } : null;
+  }
+
+  const merchantKey = normalizeMerchantKey(subscription.merchant_key, '');
+  const current = listCancellations(userId).find(c => c.merchant_key === merchantKey);
+  if (current?.status === 'CANCELLING') return { error: `${subscription.merchant_key} is already being cancelled` };
+  if (current?.status === 'CONFIRMED') return { error: `${subscription.merchant_key} is already cancelled` };
+
+  const method = options.method ?? (provider ? 'provider' : 'self');
+  if (method === 'provider' && !provider) return { error: 'No cancellation provider is set up; cancel it yourself instead' };
+
+  let outcome: CancellationResult | null = null;
+  if (method === 'provider') outcome = await provider!.initiateCancel(userId, subscription.merchant_key);
+  const failed = outcome !== null && !outcome.success;
+
+  const today = userToday(userId, now);
+  const expected = subscription.next_expected_date!;
+  const monthlyAmount = Math.round(subscription.typical_amount * (MONTHS_PER_CHARGE[subscription.cadence] ?? 1) * 100) / 100;
+  const id = uuid();
+  getDb().prepare(`
+    INSERT INTO subscription_cancellation (id, user_id, recurring_candidate_id, merchant_key, status, method, message,
+      confirmation_id, instructions, typical_amount, cadence, monthly_amount, watch_from, expected_date, verify_by, settled_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id, userId, subscription.id, merchantKey, failed ? 'FAILED' : 'CANCELLING', method,
+    outcome?.message ?? `Cancel ${subscription.merchant_key} with the merchant; Scotty will check that the next charge doesn't come.`,
+    outcome?.confirmationId ?? null, JSON.stringify(outcome?.instructions ?? []),
+    subscription.typical_amount, subscription.cadence, monthlyAmount,
+    today, expected, addDays(expected, CANCELLATION_GRACE_DAYS), failed ? now.toISOString() : null
+  );
+
+  const cancellation = getCancellation(userId, id)!;
+  publishCancellation(userId, cancellation);
+  return failed ? { cancellation, error: outcome!.message } : { cancellation };
+}
+
+/** Stop cancelling: the user is keeping the subscription. Null if it isn't the user's. */
+export function keepSubscription(userId: string, cancellationId: string): CancellationAttempt | null {
+  const cancellation = getCancellation(userId, cancellationId);
+  if (!cancellation) return null;
+  if (cancellation.status !== 'CANCELLING' && cancellation.status !== 'STILL_CHARGING') {
+    return { error: `Can't keep a subscription whose cancellation is ${cancellation.status}` };
+  }
+  return { cancellation: settle(userId, cancellationId, 'KEPT') };
+}
+
+function settle(
+  userId: string,
+  cancellationId: string,
+  status: CancellationStatus,
+  fields: { charge_transaction_id?: string; credited_goal_id?: string | null } = {},
+  now = new Date()
+): SubscriptionCancellation {
+  getDb().prepare(`
+    UPDATE subscription_cancellation
+    SET status = ?, charge_transaction_id = COALESCE(?, charge_transaction_id), credited_goal_id = COALESCE(?, credited_goal_id),
+      settled_at = ?, updated_at = datetime('now')
+    WHERE id = ?
+  `).run(status, fields.charge_transaction_id ?? null, fields.credited_goal_id ?? null, now.toISOString(), cancellationId);
+  const cancellation = getCancellation(userId, cancellationId)!;
+  publishCancellation(userId, cancellation);
+  return cancellation;
+}
+
+/**
+ * Check every cancellation being watched. Returns the ones that settled:
+ * STILL_CHARGING at the first charge from the merchant, CONFIRMED once
+ * verify_by has passed without one.
+ */
+export function verifyCancellations(now = new Date()): SubscriptionCancellation[] {
+  const watching = getDb().prepare(`SELECT * FROM subscription_cancellation WHERE status = 'CANCELLING'`).all() as any[];
+  const settled: SubscriptionCancellation[] = [];
+
+  for (const row of watching) {
+    const today = userToday(row.user_id, now);
+    const charge = getTransactions(row.user_id, row.watch_from, today, {
+      includePending: true,
+      merchant_key: row.merchant_key,
+    }).find(t => t.amount < 0);
+
+    if (charge) {
+      settled.push(settle(row.user_id, row.id, 'STILL_CHARGING', { charge_transaction_id: charge.id }, now));
+    } else if (today > row.verify_by) {
+      const completions: GoalCompletion[] = [];
+      settled.push(getDb().transaction(() =>
+        settle(row.user_id, row.id, 'CONFIRMED', {
+          credited_goal_id: creditSoonestGoal(row.user_id, row.monthly_amount, {
+            note: `A month without ${row.merchant_key}`, subscription_cancellation_id: row.id,
+          }, completions, now),
+        }, now)
+      )());
+      publishGoalCompletions(row.user_id, completions);
+    }
+  }
+  return settled;
+}
+
+/** Monthly savings from cancellations confirmed on or after `since` (a local date) */
+export function confirmedMonthlySavings(userId: string, since?: string): number {
+  const rows = getDb().prepare(`
+    SELECT monthly_amount, settled_at FROM subscription_cancellation WHERE user_id = ? AND status = 'CONFIRMED'
+  `).all(userId) as { monthly_amount: number; settled_at: string }[];
+  const total = rows
+    .filter(r => !since || userToday(userId, new Date(r.settled_at)) >= since)
+    .reduce((sum, r) => sum + r.monthly_amount, 0);
+  return Math.round(total * 100) / 100;
+}
@@ -0,0 +1,159 @@
+import { getDb } from '../db/database';
+
+// Tags and the free-text note live in transaction_.metadata (`tags` and
+// `note`), which ingestion keeps across provider updates. Rules with add_tag
+// write to the same list.
+
+export interface TagSummary {
+  tag: string;
+  count: number;
+  /** Spending (negative amounts) carrying the tag, as a positive number */
+  total_spend: number;
+  last_used: string;
+}
+
+const MAX_TAG_LENGTH = 32;
+const MAX_TAGS_PER_TRANSACTION = 10;
+const MAX_NOTE_LENGTH = 500;
+
+/**
+ * Canonical form of a tag: no leading '#', lowercase, spaces as dashes.
+ * Returns null when nothing usable is left.
+ */
+export function normalizeTag(raw: string): string | null {
+  const tag = raw.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+  if (!tag || tag.length > MAX_TAG_LENGTH) return null;
+  return /^[a-z0-9][a-z0-9_-]*$/.test(tag) ? tag : null;
+}
+
+export function validateTag(raw: unknown): { error?: string } {
+  if (typeof raw !== 'string' || normalizeTag(raw) === null) {
+    return { error: `Invalid tag "${raw}". Tags are up to ${MAX_TAG_LENGTH} letters, digits, dashes or underscores` };
+  }
+  return {};
+}
+
+export function validateTagsInput(body: any): { error?: string } {
+  if (!body || !Array.isArray(body.tags)) return { error: 'tags array required' };
+  if (body.tags.length > MAX_TAGS_PER_TRANSACTION) {
+    return { error: `A transaction can have at most ${MAX_TAGS_PER_TRANSACTION} tags` };
+  }
+  for (const tag of body.tags) {
+    const check = validateTag(tag);
+    if (check.error) return check;
+  }
+  return {};
+}
+
+export function validateNoteInput(body: any): { error?: string } {
+  if (!body || !('note' in body)) return { error: 'note required (null clears it)' };
+  if (body.note !== null && typeof body.note !== 'string') return { error: 'note must be a string or null' };
+  if (typeof body.note === 'string' && body.note.length > MAX_NOTE_LENGTH) {
+    return { error: `note is limited to ${MAX_NOTE_LENGTH} characters` };
+  }
+  return {};
+}
+
+export function tagsOf(metadata: Record<string, unknown>): string[] {
+  return Array.isArray(metadata.tags) ? (metadata.tags as string[]) : [];
+}
+
+function loadMetadata(userId: string, transactionId: string): Record<string, unknown> | null {
+  const row = getDb().prepare(
+    `SELECT metadata FROM transaction_ WHERE id = ? AND user_id = ?`
+  ).get(transactionId, userId) as { metadata: string | null } | undefined;
+  return row ? JSON.parse(row.metadata || '{}') : null;
+}
+
+function saveMetadata(transactionId: string, metadata: Record<string, unknown>): void {
+  getDb().prepare(
+    `UPDATE transaction_ SET metadata = ?, updated_at = datetime('now') WHERE id = ?`
+  ).run(JSON.stringify(metadata), transactionId);
+}
+
+function withTags(metadata: Record<string, unknown>, tags: string[]): Record<string, unknown> {
+  const next = { ...metadata };
+  if (tags.length > 0) next.tags = tags;
+  else delete next.tags;
+  return next;
+}
+
+/** Replace a transaction's tags. Returns null when it isn't the user's. */
+export function setTransactionTags(userId: string, transactionId: string, rawTags: string[]): string[] | null {
+  const metadata = loadMetadata(userId, transactionId);
+  if (!metadata) return null;
+  const tags = [...new Set(rawTags.map(t => normalizeTag(t)).filter((t): t is string => !!t))];
+  saveMetadata(transactionId, withTags(metadata, tags));
+  return tags;
+}
+
+/** Remove one tag from a transaction. Returns null when it isn't the user's. */
+export function removeTransactionTag(userId: string, transactionId: string, rawTag: string): string[] | null {
+  const metadata = loadMetadata(userId, transactionId);
+  if (!metadata) return null;
+  const tag = normalizeTag(rawTag);
+  const tags = tagsOf(metadata).filter(t => t !== tag);
+  saveMetadata(transactionId, withTags(metadata, tags));
+  return tags;
+}
+
+/** Set or clear (null / blank) a transaction's note. Returns null when it isn't the user's. */
+export function setTransactionNote(
+  userId: string,
+  transactionId: string,
+  note: string | null
+): { note: string | null } | null {
+  const metadata = loadMetadata(userId, transactionId);
+  if (!metadata) return null;
+  const trimmed = note?.trim() || null;
+  const next = { ...metadata };
+  if (trimmed) next.note = trimmed;
+  else delete next.note;
+  saveMetadata(transactionId, next);
+  return { note: trimmed };
+}
+
+/** Every tag the user has used, most spending first. */
+export function listTags(userId: string): TagSummary[] {
+  const rows = getDb().prepare(`
+    SELECT tag.value AS tag, COUNT(*) AS count,
+           ROUND(COALESCE(SUM(CASE WHEN t.amount < 0 THEN -t.amount ELSE 0 END), 0), 2) AS total_spend,
+           MAX(t.date) AS last_used
+    FROM transaction_ t, json_each(t.metadata, '$.tags') AS tag
+    WHERE t.user_id = ? AND json_valid(t.metadata)
+    GROUP BY tag.value
+    ORDER BY total_spend DESC, tag.value
+  `).all(userId) as TagSummary[];
+  return rows;
+}
+
+/**
+ * Rewrite one tag across all of the user's transactions. With `to` null the
+ * tag is removed; otherwise it is renamed (merging into `to` where both are
+ * present). Returns how many transactions changed.
+ */
+function rewriteTag(userId: string, from: string, to: string | null): number {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT t.id, t.metadata FROM transaction_ t
+    WHERE t.user_id = ? AND json_valid(t.metadata)
+      AND EXISTS (SELECT 1 FROM json_each(t.metadata, '$.tags') WHERE value = ?)
+  `).all(userId, from) as { id: string; metadata: string }[];
+
+  db.transaction(() => {
+    for (const row of rows) {
+      const metadata = JSON.parse(row.metadata);
+      const tags = tagsOf(metadata).map(t => (t === from ? to : t)).filter((t): t is string => !!t);
+      saveMetadata(row.id, withTags(metadata, [...new Set(tags)]));
+    }
+  })();
+  return rows.length;
+}
+
+export function renameTag(userId: string, from: string, to: string): number {
+  return rewriteTag(userId, normalizeTag(from) ?? from, normalizeTag(to)!);
+}
+
+export function deleteTag(userId: string, tag: string): number {
+  return rewriteTag(userId, normalizeTag(tag) ?? tag, null);
+}
@@ -0,0 +1,118 @@
+import { getDb } from '../db/database';
+
+// The user's calendar. Banks date transactions by the user's local day, so
+// "today", budget periods, quest windows and digest keys have to be local
+// dates in user_profile.timezone too; the UTC date of new Date() puts a
+// Californian's evening purchases into tomorrow. Dates are YYYY-MM-DD
+// strings, and arithmetic on them is done in UTC so a DST change never
+// shifts a day.
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export interface LocalClock {
+  /** YYYY-MM-DD */
+  date: string;
+  hour: number;
+  minute: number;
+}
+
+// Building a formatter is slow; one per zone is enough
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Local date and time of `now` in `timezone`; an unknown zone falls back to UTC */
+export function localClock(timezone: string, now = new Date()): LocalClock {
+  if (!isValidTimezone(timezone)) {
+    return { date: now.toISOString().split('T')[0], hour: now.getUTCHours(), minute: now.getUTCMinutes() };
+  }
+  const parts = formatterFor(timezone).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: parseInt(part('hour'), 10),
+    minute: parseInt(part('minute'), 10),
+  };
+}
+
+export function localDate(timezone: string, now = new Date()): string {
+  return localClock(timezone, now).date;
+}
+
+export function getUserTimezone(userId: string): string {
+  const row = getDb().prepare(`SELECT timezone FROM user_profile WHERE id = ?`).get(userId) as
+    | { timezone: string | null }
+    | undefined;
+  return row?.timezone || DEFAULT_TIMEZONE;
+}
+
+/** The user's local date right now */
+export function userToday(userId: string, now = new Date()): string {
+  return localDate(getUserTimezone(userId), now);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/** Whole days from `from` to `to` (negative if `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to.slice(0, 10)) - Date.parse(from.slice(0, 10))) / 86_400_000);
+}
+
+/** First day of the week `date` falls in. `weekStartsOn`: 0 = Sunday, 1 = Monday. */
+export function startOfWeek(date: string, weekStartsOn = 0): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day - weekStartsOn + 7) % 7));
+}
+
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/** First day of the month after the one `date` falls in */
+export function startOfNextMonth(date: string): string {
+  const d = new Date(`${date.slice(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + 1);
+  return d.toISOString().split('T')[0];
+}
+
+/** The same day `months` later; a day past the end of that month becomes its last day */
+export function addMonths(date: string, months: number): string {
+  const first = new Date(`${date.slice(0, 7)}-01T00:00:00Z`);
+  first.setUTCMonth(first.getUTCMonth() + months);
+  const month = first.toISOString().slice(0, 7);
+  const day = Math.min(Number(date.slice(8, 10)), daysInMonth(`${month}-01`));
+  return `${month}-${String(day).padStart(2, '0')}`;
+}
+
+export function daysInMonth(date: string): number {
+  return daysBetween(startOfMonth(date), startOfNextMonth(date));
+}
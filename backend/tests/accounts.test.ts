@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  createAccount,
+  listAccounts,
+  recordBalanceSnapshot,
+  getBalanceHistory,
+  upsertProviderAccount,
+  assignTransactionAccount,
+  detectTransfers,
+  validateAccountInput,
+  signedBalance,
+} from '../src/services/accounts';
+import { ingestTransactions, applyTransactionDelta } from '../src/services/ingestion';
+import { buildFinancialSummary } from '../src/services/financial-summary';
+import { computeProjections, createBudget } from '../src/services/budget';
+import { computeHealthMetrics } from '../src/services/health-metrics';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const today = localDate(DEFAULT_TIMEZONE);
+
+function transferGroup(providerTxnId: string): string | null {
+  const row = getDb().prepare(
+    'SELECT transfer_group_id FROM transaction_ WHERE provider_txn_id = ?'
+  ).get(providerTxnId) as { transfer_group_id: string | null };
+  return row.transfer_group_id;
+}
+
+let checking: string;
+let card: string;
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  checking = createAccount(TEST_USER_ID, { name: 'Everyday Checking', type: 'checking', balance: 2000 }).id;
+  card = createAccount(TEST_USER_ID, { name: 'Travel Card', type: 'credit_card', balance: 450 }).id;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Accounts', () => {
+  it('validates input', () => {
+    expect(validateAccountInput({ type: 'checking' }).error).toContain('name');
+    expect(validateAccountInput({ name: 'X', type: 'brokerage' }).error).toContain('type');
+    expect(validateAccountInput({ name: 'Wallet', type: 'cash', balance: 40 }).error).toBeUndefined();
+  });
+
+  it('keeps balance snapshots and the latest current balance', () => {
+    recordBalanceSnapshot(TEST_USER_ID, checking, 1800, '2026-01-01');
+    recordBalanceSnapshot(TEST_USER_ID, checking, 1750.5, '2026-01-01');
+    // An older snapshot doesn't overwrite the current balance
+    recordBalanceSnapshot(TEST_USER_ID, checking, 900, '2025-12-01');
+
+    const history = getBalanceHistory(TEST_USER_ID, checking, '2025-01-01', '2026-01-31');
+    expect(history.map(h => [h.as_of, h.balance])).toEqual([['2025-12-01', 900], ['2026-01-01', 1750.5]]);
+
+    const account = listAccounts(TEST_USER_ID).find(a => a.id === checking)!;
+    expect(account.current_balance).toBe(2000);
+    expect(recordBalanceSnapshot('someone-else', checking, 1)).toBeNull();
+  });
+
+  it('dates a snapshot by the user\'s day, not UTC', () => {
+    vi.useFakeTimers();
+    // 10pm in New York is already tomorrow in UTC
+    vi.setSystemTime(new Date('2026-03-11T02:00:00Z'));
+    expect(recordBalanceSnapshot(TEST_USER_ID, checking, 1900)!.as_of).toBe('2026-03-10');
+  });
+
+  it('treats credit card balances as debt', () => {
+    const total = listAccounts(TEST_USER_ID).reduce((sum, a) => sum + signedBalance(a), 0);
+    expect(total).toBe(1550);
+  });
+
+  it('upserts provider accounts by provider id', () => {
+    const first = upsertProviderAccount(TEST_USER_ID, 'plaid', 'acc_1', { name: 'Savings', type: 'savings', balance: 10 });
+    const second = upsertProviderAccount(TEST_USER_ID, 'plaid', 'acc_1', { name: 'High Yield Savings', type: 'savings', balance: 12 });
+    expect(second).toBe(first);
+    const account = listAccounts(TEST_USER_ID).find(a => a.id === first)!;
+    expect(account).toMatchObject({ name: 'High Yield Savings', current_balance: 12 });
+  });
+});
+
+describe('Transfer detection', () => {
+  it('pairs a credit card payment from checking', () => {
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'pay_out', account_id: checking, amount: -450, name: 'CHASE CARD AUTOPAY', category_primary: 'Payment' }),
+      makeTransaction({ provider_txn_id: 'pay_in', account_id: card, amount: 450, name: 'PAYMENT THANK YOU', category_primary: 'Payment' }),
+      makeTransaction({ provider_txn_id: 'coffee', account_id: card, amount: -5 }),
+    ]);
+
+    expect(transferGroup('pay_out')).not.toBeNull();
+    expect(transferGroup('pay_out')).toBe(transferGroup('pay_in'));
+    expect(transferGroup('coffee')).toBeNull();
+  });
+
+  it('does not pair legs in the same account, too far apart, or of different amounts', () => {
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'same_out', account_id: checking, amount: -100 }),
+      makeTransaction({ provider_txn_id: 'same_in', account_id: checking, amount: 100 }),
+      makeTransaction({ provider_txn_id: 'far_out', account_id: checking, amount: -75, date: '2026-01-01' }),
+      makeTransaction({ provider_txn_id: 'far_in', account_id: card, amount: 75, date: '2026-01-10' }),
+      makeTransaction({ provider_txn_id: 'diff_out', account_id: checking, amount: -60 }),
+      makeTransaction({ provider_txn_id: 'diff_in', account_id: card, amount: 61 }),
+    ]);
+
+    for (const id of ['same_out', 'same_in', 'far_out', 'far_in', 'diff_out', 'diff_in']) {
+      expect(transferGroup(id)).toBeNull();
+    }
+  });
+
+  it('tags single-leg transfers whose counterparty is an own account', () => {
+    upsertProviderAccount(TEST_USER_ID, 'nessie', 'nessie_savings', { name: 'Savings', type: 'savings' });
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'single', account_id: checking, amount: -200, metadata: { counterparty_account_id: 'nessie_savings' } }),
+      makeTransaction({ provider_txn_id: 'external', account_id: checking, amount: -200, metadata: { counterparty_account_id: 'someone_elses' } }),
+    ]);
+    expect(transferGroup('single')).not.toBeNull();
+    expect(transferGroup('external')).toBeNull();
+  });
+
+  it('does not pair a purchase with an unrelated refund of the same amount', () => {
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'purchase', account_id: card, amount: -25, name: 'Bookshop', category_primary: 'Shopping' }),
+      makeTransaction({ provider_txn_id: 'venmo', account_id: checking, amount: 25, name: 'VENMO CASHOUT', category_primary: 'Income' }),
+    ]);
+
+    expect(transferGroup('purchase')).toBeNull();
+    expect(transferGroup('venmo')).toBeNull();
+  });
+
+  it('re-pairs after an account is assigned and unpairs when a leg is removed', () => {
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'leg_out', account_id: checking, amount: -300 }),
+      makeTransaction({ provider_txn_id: 'leg_in', amount: 300 }),
+    ]);
+    expect(transferGroup('leg_out')).toBeNull();
+
+    const legIn = getDb().prepare(`SELECT id FROM transaction_ WHERE provider_txn_id = 'leg_in'`).get() as { id: string };
+    expect(assignTransactionAccount(TEST_USER_ID, legIn.id, card)).toBe(true);
+    expect(transferGroup('leg_out')).not.toBeNull();
+
+    applyTransactionDelta(TEST_USER_ID, { upsert: [], remove: ['leg_in'] });
+    expect(transferGroup('leg_out')).toBeNull();
+    expect(detectTransfers(TEST_USER_ID)).toBe(0);
+  });
+});
+
+describe('Transfers are not spending', () => {
+  beforeEach(() => {
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'move_out', account_id: checking, amount: -500, name: 'Transfer to card', category_primary: 'Shopping' }),
+      makeTransaction({ provider_txn_id: 'move_in', account_id: card, amount: 500, name: 'Payment received', category_primary: 'Shopping' }),
+      makeTransaction({ provider_txn_id: 'shoes', account_id: card, amount: -80, name: 'Shoe Store', category_primary: 'Shopping' }),
+    ]);
+  });
+
+  it('excludes transfers from the financial summary', () => {
+    const summary = buildFinancialSummary(TEST_USER_ID, today, today);
+    expect(summary.total_spent).toBe(80);
+    expect(summary.total_income).toBe(0);
+    expect(summary.transaction_count).toBe(1);
+  });
+
+  it('excludes transfers from budget projections', () => {
+    createBudget(TEST_USER_ID, 'Shopping', 1000, 'Month');
+    const { projections } = computeProjections(TEST_USER_ID);
+    expect(projections[0].currentSpent).toBe(80);
+  });
+
+  it('excludes transfers from health metrics', () => {
+    const withTransfer = computeHealthMetrics(TEST_USER_ID);
+    getDb().prepare(`DELETE FROM transaction_ WHERE provider_txn_id IN ('move_out', 'move_in')`).run();
+    expect(computeHealthMetrics(TEST_USER_ID)).toEqual(withTransfer);
+  });
+});
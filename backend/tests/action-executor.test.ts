@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  approveAction,
+  dismissAction,
+  undoAction,
+  listActions,
+  verifySubscriptionCancellations,
+  failStaleExecutions,
+} from '../src/services/action-executor';
+import { createBudget, listBudgets } from '../src/services/budget';
+import { ingestTransactions } from '../src/services/ingestion';
+import { CancellationProvider } from '../src/adapters/types';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+function queueAction(type: string, payload: Record<string, unknown>): string {
+  const id = uuid();
+  getDb().prepare(`INSERT INTO action_queue_item (id, user_id, type, payload) VALUES (?, ?, ?, ?)`)
+    .run(id, TEST_USER_ID, type, JSON.stringify(payload));
+  return id;
+}
+
+function netflixCharge(date: string): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount: -15.49,
+    currency: 'USD',
+    name: 'NETFLIX.COM',
+    merchant_name: 'Netflix',
+    category_primary: 'Entertainment',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+  };
+}
+
+const cancelled: CancellationProvider = {
+  initiateCancel: async () => ({ success: true, message: 'Cancelled', confirmationId: 'conf_1' }),
+};
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  vi.useFakeTimers();
+  // Midday in New York
+  vi.setSystemTime(new Date('2026-03-10T17:00:00Z'));
+  getDb().prepare(`
+    INSERT INTO recurring_candidate (id, user_id, merchant_key, typical_amount, cadence, next_expected_date, confidence)
+    VALUES (?, ?, 'netflix', 15.49, 'monthly', '2026-03-20', 0.9)
+  `).run(uuid(), TEST_USER_ID);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Budget suggestions', () => {
+  it('creates the budget, and undo removes it', async () => {
+    const id = queueAction('BUDGET_SUGGESTION', { category: 'Food & Drink', limit_amount: 400 });
+    const { action } = (await approveAction(TEST_USER_ID, id, null))!;
+    expect(action).toMatchObject({ status: 'COMPLETED', result: { created: true, limit_amount: 400 } });
+    expect(listBudgets(TEST_USER_ID)).toHaveLength(1);
+    expect((await approveAction(TEST_USER_ID, id, null))!.error).toContain('COMPLETED');
+
+    expect(undoAction(TEST_USER_ID, id)!.action!.status).toBe('UNDONE');
+    expect(listBudgets(TEST_USER_ID)).toEqual([]);
+  });
+
+  it('changes an existing budget, and undo restores its limit', async () => {
+    const budget = createBudget(TEST_USER_ID, 'Food & Drink', 500, 'Month');
+    const id = queueAction('BUDGET_SUGGESTION', { category: 'Food & Drink', limit_amount: 350 });
+    const { action } = (await approveAction(TEST_USER_ID, id, null))!;
+    expect(action!.result).toMatchObject({ budget_id: budget.id, created: false, previous_limit: 500 });
+
+    undoAction(TEST_USER_ID, id);
+    expect(listBudgets(TEST_USER_ID)[0].limit_amount).toBe(500);
+  });
+
+  it('fails an action whose payload can\'t be run', async () => {
+    const id = queueAction('BUDGET_SUGGESTION', { category: 'Food & Drink' });
+    const { action } = (await approveAction(TEST_USER_ID, id, null))!;
+    expect(action).toMatchObject({ status: 'FAILED', error: expect.stringContaining('limit_amount') });
+    expect(undoAction(TEST_USER_ID, id)!.error).toContain('FAILED');
+  });
+});
+
+describe('Interrupted runs', () => {
+  it('fails actions stuck EXECUTING past the timeout', () => {
+    const stuck = queueAction('BUDGET_SUGGESTION', {});
+    const running = queueAction('BUDGET_SUGGESTION', {});
+    const setExecuting = getDb().prepare(`UPDATE action_queue_item SET status = 'EXECUTING', updated_at = ? WHERE id = ?`);
+    setExecuting.run('2026-03-10 16:30:00', stuck);
+    setExecuting.run('2026-03-10 16:55:00', running);
+
+    expect(failStaleExecutions()).toBe(1);
+    expect(listActions(TEST_USER_ID).map(a => [a.id, a.status, a.error])).toEqual(expect.arrayContaining([
+      [stuck, 'FAILED', 'Interrupted before it finished'],
+      [running, 'EXECUTING', null],
+    ]));
+  });
+});
+
+describe('Subscription reviews', () => {
+  it('confirms the cancellation once the next charge fails to appear', async () => {
+    const id = queueAction('SUBSCRIPTION_REVIEW', { merchant_key: 'Netflix' });
+    const { action } = (await approveAction(TEST_USER_ID, id, cancelled))!;
+    expect(action).toMatchObject({
+      status: 'APPROVED',
+      result: { verify_by: '2026-03-23', monthly_amount: 15.49, confirmation_id: 'conf_1' },
+    });
+
+    expect(verifySubscriptionCancellations(new Date('2026-03-23T17:00:00Z'))).toBe(0);
+    expect(verifySubscriptionCancellations(new Date('2026-03-24T17:00:00Z'))).toBe(1);
+    expect(listActions(TEST_USER_ID, ['COMPLETED'])[0].result).toMatchObject({
+      verification: 'CONFIRMED', monthly_savings: 15.49,
+    });
+  });
+
+  it('flags a subscription that is still charging', async () => {
+    const id = queueAction('SUBSCRIPTION_REVIEW', { merchant_key: 'netflix' });
+    await approveAction(TEST_USER_ID, id, null);
+    ingestTransactions([netflixCharge('2026-03-20')]);
+
+    expect(verifySubscriptionCancellations(new Date('2026-03-20T17:00:00Z'))).toBe(1);
+    expect(listActions(TEST_USER_ID)[0]).toMatchObject({
+      status: 'FAILED', error: 'Still charging: $15.49 on 2026-03-20', result: { verification: 'STILL_CHARGING' },
+    });
+  });
+
+  it('fails when the provider can\'t cancel', async () => {
+    const id = queueAction('SUBSCRIPTION_REVIEW', { merchant_key: 'netflix' });
+    const refused: CancellationProvider = { initiateCancel: async () => ({ success: false, message: 'Call to cancel' }) };
+    const { action } = (await approveAction(TEST_USER_ID, id, refused))!;
+    expect(action).toMatchObject({ status: 'FAILED', error: 'Cancellation failed: Call to cancel' });
+  });
+
+  it('runs an action once when it is approved twice at the same time', async () => {
+    const id = queueAction('SUBSCRIPTION_REVIEW', { merchant_key: 'netflix' });
+    const initiateCancel = vi.fn(cancelled.initiateCancel);
+
+    const [first, second] = await Promise.all([
+      approveAction(TEST_USER_ID, id, { initiateCancel }),
+      approveAction(TEST_USER_ID, id, { initiateCancel }),
+    ]);
+    expect(initiateCancel).toHaveBeenCalledTimes(1);
+    expect(first!.action!.status).toBe('APPROVED');
+    expect(second!.error).toBe('Action is EXECUTING, not OPEN');
+  });
+});
+
+describe('Savings tips', () => {
+  it('starts the goal and quest, and undo cancels both', async () => {
+    const id = queueAction('SAVINGS_TIP', {
+      goal: { name: 'Emergency fund', target_amount: 1000 },
+      quest: {
+        title: 'Lunch from home',
+        description: 'Pack lunch instead of buying it',
+        metric_type: 'CATEGORY_SPEND_CAP',
+        metric_params: { category: 'Food & Drink', cap: 40 },
+        reward_food_type: 'bone',
+        happiness_delta: 5,
+        window_hours: 72,
+      },
+    });
+    const { action } = (await approveAction(TEST_USER_ID, id, null))!;
+    const { goal_id, quest_id } = action!.result!;
+    expect(getDb().prepare(`SELECT status FROM quest WHERE id = ?`).get(quest_id)).toEqual({ status: 'ACTIVE' });
+
+    undoAction(TEST_USER_ID, id);
+    expect(getDb().prepare(`SELECT status FROM quest WHERE id = ?`).get(quest_id)).toEqual({ status: 'ABANDONED' });
+    expect(getDb().prepare(`SELECT status FROM goal WHERE id = ?`).get(goal_id)).toEqual({ status: 'CANCELLED' });
+  });
+});
+
+describe('Dismissing', () => {
+  it('only dismisses open actions', () => {
+    const id = queueAction('SPENDING_ALERT', { message: 'Big week for takeout' });
+    expect(dismissAction(TEST_USER_ID, id)!.action!.status).toBe('DISMISSED');
+    expect(dismissAction(TEST_USER_ID, id)!.error).toContain('DISMISSED');
+    expect(dismissAction(TEST_USER_ID, 'missing')).toBeNull();
+    expect(listActions(TEST_USER_ID, ['OPEN', 'APPROVED'])).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  hashPassword,
+  verifyPassword,
+  validateCredentialsInput,
+  signUp,
+  logIn,
+  verifyToken,
+  revokeToken,
+  createCredential,
+  ensureDemoCredential,
+  assertAuthConfigured,
+  seedRoutesEnabled,
+  getAuthUser,
+  DEMO_USER_ID,
+  DEMO_EMAIL,
+} from '../src/services/auth';
+import { requireAuth } from '../src/api/middleware';
+
+beforeEach(() => {
+  createTestDb();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function runMiddleware(authorization?: string) {
+  const req: any = { headers: authorization ? { authorization } : {} };
+  const res: any = {
+    statusCode: 200,
+    body: undefined,
+    status(code: number) { this.statusCode = code; return this; },
+    json(body: any) { this.body = body; return this; },
+  };
+  let nextCalled = false;
+  requireAuth(req, res, () => { nextCalled = true; });
+  return { req, res, nextCalled };
+}
+
+// ─── Password hashing ───
+
+describe('Password hashing', () => {
+  it('verifies the original password and rejects others', () => {
+    const stored = hashPassword('correct horse');
+    expect(stored.startsWith('scrypt$')).toBe(true);
+    expect(verifyPassword('correct horse', stored)).toBe(true);
+    expect(verifyPassword('wrong horse', stored)).toBe(false);
+  });
+
+  it('salts each hash', () => {
+    expect(hashPassword('same-password')).not.toBe(hashPassword('same-password'));
+  });
+});
+
+// ─── Validation ───
+
+describe('validateCredentialsInput', () => {
+  it('requires a valid email', () => {
+    expect(validateCredentialsInput({ password: 'longenough' }).error).toContain('email');
+    expect(validateCredentialsInput({ email: 'nope', password: 'longenough' }).error).toContain('email');
+  });
+
+  it('requires a password of minimum length', () => {
+    expect(validateCredentialsInput({ email: 'a@b.co', password: 'short' }).error).toContain('password');
+  });
+
+  it('accepts valid input', () => {
+    expect(validateCredentialsInput({ email: 'a@b.co', password: 'longenough' }).error).toBeUndefined();
+  });
+});
+
+// ─── Sessions ───
+
+describe('Sign up and login', () => {
+  it('signs up a new user with a profile and a usable token', () => {
+    const session = signUp('New@Example.com', 'password123');
+    expect(session.email).toBe('new@example.com');
+
+    const profile = getDb().prepare('SELECT id FROM user_profile WHERE id = ?').get(session.user_id);
+    expect(profile).toBeDefined();
+    expect(verifyToken(session.token)).toBe(session.user_id);
+  });
+
+  it('rejects duplicate emails', () => {
+    signUp('dup@example.com', 'password123');
+    expect(() => signUp('DUP@example.com', 'password456')).toThrow(/UNIQUE constraint/);
+  });
+
+  it('logs in with correct credentials and returns null otherwise', () => {
+    const created = signUp('login@example.com', 'password123');
+    const session = logIn('login@example.com', 'password123');
+    expect(session).not.toBeNull();
+    expect(session!.user_id).toBe(created.user_id);
+
+    expect(logIn('login@example.com', 'wrong-password')).toBeNull();
+    expect(logIn('missing@example.com', 'password123')).toBeNull();
+  });
+
+  it('rejects forged, revoked, and expired tokens', () => {
+    const session = signUp('tokens@example.com', 'password123');
+    const [sessionId] = session.token.split('.');
+
+    expect(verifyToken(`${sessionId}.forged`)).toBeNull();
+    expect(verifyToken('garbage')).toBeNull();
+
+    revokeToken(session.token);
+    expect(verifyToken(session.token)).toBeNull();
+
+    const other = logIn('tokens@example.com', 'password123')!;
+    getDb().prepare(`UPDATE auth_session SET expires_at = '2000-01-01T00:00:00.000Z' WHERE id = ?`)
+      .run(other.token.split('.')[0]);
+    expect(verifyToken(other.token)).toBeNull();
+  });
+
+  it('attaches credentials to an existing profile', () => {
+    getDb().prepare(`INSERT INTO user_profile (id) VALUES ('existing-user')`).run();
+    createCredential('existing-user', 'existing@example.com', 'password123');
+    expect(logIn('existing@example.com', 'password123')!.user_id).toBe('existing-user');
+  });
+
+  it('creates the demo login once, only when DEMO_PASSWORD is set', () => {
+    ensureDemoCredential();
+    expect(getAuthUser(DEMO_USER_ID)).toBeNull();
+
+    vi.stubEnv('DEMO_PASSWORD', 'local-demo-pass');
+    ensureDemoCredential();
+    ensureDemoCredential();
+    expect(logIn(DEMO_EMAIL, 'local-demo-pass')!.user_id).toBe(DEMO_USER_ID);
+  });
+
+  it('never creates the demo login in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('DEMO_PASSWORD', 'local-demo-pass');
+    ensureDemoCredential();
+    expect(getAuthUser(DEMO_USER_ID)).toBeNull();
+  });
+
+  it('opens the seed routes only when opted in outside production', () => {
+    expect(seedRoutesEnabled()).toBe(false);
+    vi.stubEnv('ENABLE_SEED_ROUTES', 'true');
+    expect(seedRoutesEnabled()).toBe(true);
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(seedRoutesEnabled()).toBe(false);
+  });
+
+  it('refuses to sign sessions in production without AUTH_SECRET', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('AUTH_SECRET', '');
+    expect(() => assertAuthConfigured()).toThrow('AUTH_SECRET');
+    expect(() => signUp('prod@example.com', 'password123')).toThrow('AUTH_SECRET');
+
+    vi.stubEnv('AUTH_SECRET', 'a-real-secret');
+    expect(() => assertAuthConfigured()).not.toThrow();
+  });
+});
+
+// ─── requireAuth middleware ───
+
+describe('requireAuth', () => {
+  it('sets req.userId for a valid bearer token', () => {
+    const session = signUp('mw@example.com', 'password123');
+    const { req, nextCalled } = runMiddleware(`Bearer ${session.token}`);
+    expect(nextCalled).toBe(true);
+    expect(req.userId).toBe(session.user_id);
+  });
+
+  it('returns 401 without a token or with an invalid one', () => {
+    const missing = runMiddleware();
+    expect(missing.nextCalled).toBe(false);
+    expect(missing.res.statusCode).toBe(401);
+
+    const invalid = runMiddleware('Bearer not-a-token');
+    expect(invalid.nextCalled).toBe(false);
+    expect(invalid.res.statusCode).toBe(401);
+  });
+});
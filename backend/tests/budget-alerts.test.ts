@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import { createBudget } from '../src/services/budget';
+import {
+  checkBudgetAlerts,
+  deliverHeldAlerts,
+  listBudgetAlerts,
+  markAlertsRead,
+  setAlertSettings,
+  validateAlertSettings,
+} from '../src/services/budget-alerts';
+import { setQuietHours, validateQuietHours } from '../src/services/quiet-hours';
+import { ingestTransactions } from '../src/services/ingestion';
+import { NotificationPayload, NotificationProvider } from '../src/adapters/types';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+class RecordingNotifications implements NotificationProvider {
+  sent: NotificationPayload[] = [];
+  constructor(private maxDaily = 5) {}
+  async schedule(_userId: string, payload: NotificationPayload) {
+    this.sent.push(payload);
+  }
+  async getDailyCount() {
+    return this.sent.length;
+  }
+  async enforceDailyLimit(_userId: string, limit = this.maxDaily) {
+    return this.sent.length < limit;
+  }
+}
+
+function txn(date: string, amount: number, name = 'Diner'): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount,
+    currency: 'USD',
+    name,
+    merchant_name: null,
+    category_primary: 'Food & Drink',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+  };
+}
+
+function spend(...txns: Transaction[]): string[] {
+  ingestTransactions(txns);
+  return txns.map(t => t.id);
+}
+
+let notifications: RecordingNotifications;
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  vi.useFakeTimers();
+  // 1 PM in New York
+  vi.setSystemTime(new Date('2026-03-10T17:00:00Z'));
+  notifications = new RecordingNotifications();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Alert settings', () => {
+  it('validates rules and quiet hours', () => {
+    expect(validateAlertSettings({ rules: [{ type: 'PERCENT_USED', threshold: 90 }], muted: false }).error).toBeUndefined();
+    expect(validateAlertSettings({ rules: [{ type: 'SOMETIMES', threshold: 90 }] }).error).toContain('type must be');
+    expect(validateAlertSettings({ rules: [{ type: 'PROJECTED_OVERSPEND', threshold: 40 }] }).error).toContain('1 to 31');
+    expect(validateAlertSettings({ muted: 'yes' }).error).toContain('muted');
+    expect(validateQuietHours({ quiet_hours: { start: '22:00', end: '07:00' } }).error).toBeUndefined();
+    expect(validateQuietHours({ quiet_hours: { start: '25:00', end: '07:00' } }).error).toContain('HH:MM');
+    expect(validateQuietHours({ quiet_hours: null }).error).toBeUndefined();
+  });
+});
+
+describe('Percent used', () => {
+  it('alerts once per threshold per period', async () => {
+    createBudget(TEST_USER_ID, 'Food & Drink', 300, 'Month');
+
+    spend(txn('2026-03-02', -250));
+    const [first] = await checkBudgetAlerts(TEST_USER_ID, notifications);
+    expect(first).toMatchObject({ type: 'PERCENT_USED', threshold: 80, status: 'SENT', period_start: '2026-03-01' });
+    expect(notifications.sent[0].title).toBe('80% of your Food & Drink budget is used');
+    expect(await checkBudgetAlerts(TEST_USER_ID, notifications)).toEqual([]);
+
+    spend(txn('2026-03-09', -60));
+    const [over] = await checkBudgetAlerts(TEST_USER_ID, notifications);
+    expect(over).toMatchObject({ threshold: 100, title: "You've gone over your Food & Drink budget" });
+    expect(notifications.sent).toHaveLength(2);
+  });
+
+  it('sends only the highest threshold crossed at once', async () => {
+    createBudget(TEST_USER_ID, 'Food & Drink', 300, 'Month');
+    spend(txn('2026-03-02', -320));
+
+    const fired = await checkBudgetAlerts(TEST_USER_ID, notifications);
+    expect(fired.map(a => a.threshold)).toEqual([100]);
+    expect(notifications.sent).toHaveLength(1);
+    // The 80% alert can't fire later in the period either
+    expect(await checkBudgetAlerts(TEST_USER_ID, notifications)).toEqual([]);
+    expect(listBudgetAlerts(TEST_USER_ID)).toMatchObject({ unread_count: 1, alerts: [{ threshold: 100 }] });
+  });
+});
+
+describe('Custom rules', () => {
+  it('warns about a projected overspend and large charges', async () => {
+    const budget = createBudget(TEST_USER_ID, 'Food & Drink', 600, 'Month');
+    setAlertSettings(TEST_USER_ID, budget.id, {
+      rules: [
+        { type: 'PROJECTED_OVERSPEND', threshold: 20 },
+        { type: 'PROJECTED_OVERSPEND', threshold: 31 },
+        { type: 'LARGE_TRANSACTION', threshold: 150 },
+      ],
+    });
+
+    const ids = spend(txn('2026-03-03', -200, 'Steakhouse'), txn('2026-03-04', -20));
+    const fired = await checkBudgetAlerts(TEST_USER_ID, notifications, ids);
+    // $220 in 10 days puts March on course to pass $600 on the 24th: too late for the day-20 rule
+    expect(fired.map(a => [a.type, a.threshold])).toEqual([
+      ['PROJECTED_OVERSPEND', 31],
+      ['LARGE_TRANSACTION', 150],
+    ]);
+    expect(fired[0].data).toMatchObject({ projected_over_on: '2026-03-24' });
+    expect(fired[1].body).toBe('Steakhouse charged $200.00 on 2026-03-03.');
+
+    // Seeing the same charges again doesn't repeat anything
+    expect(await checkBudgetAlerts(TEST_USER_ID, notifications, ids)).toEqual([]);
+  });
+
+  it('stays quiet for a muted budget', async () => {
+    const budget = createBudget(TEST_USER_ID, 'Food & Drink', 100, 'Month');
+    expect(setAlertSettings(TEST_USER_ID, budget.id, { muted: true })).toMatchObject({ muted: true, defaults: true });
+    expect(setAlertSettings(TEST_USER_ID, 'missing', { muted: true })).toBeNull();
+    spend(txn('2026-03-02', -150));
+
+    expect(await checkBudgetAlerts(TEST_USER_ID, notifications)).toEqual([]);
+  });
+});
+
+describe('Delivery', () => {
+  it('holds alerts during quiet hours and sends them when they end', async () => {
+    createBudget(TEST_USER_ID, 'Food & Drink', 100, 'Month');
+    setQuietHours(TEST_USER_ID, { start: '22:00', end: '07:00' });
+    spend(txn('2026-03-02', -90));
+
+    // 11 PM in New York
+    const late = new Date('2026-03-11T03:00:00Z');
+    const [alert] = await checkBudgetAlerts(TEST_USER_ID, notifications, [], late);
+    expect(alert.status).toBe('HELD');
+    expect(await deliverHeldAlerts(notifications, late)).toBe(0);
+    expect(notifications.sent).toEqual([]);
+
+    expect(await deliverHeldAlerts(notifications, new Date('2026-03-11T12:00:00Z'))).toBe(1);
+    expect(notifications.sent[0].data).toMatchObject({ type: 'budget_alert', alert_id: alert.id });
+    expect(listBudgetAlerts(TEST_USER_ID).alerts[0].status).toBe('SENT');
+  });
+
+  it('keeps alerts in the inbox when the daily notification limit is reached', async () => {
+    notifications = new RecordingNotifications(0);
+    createBudget(TEST_USER_ID, 'Food & Drink', 100, 'Month');
+    spend(txn('2026-03-02', -90));
+
+    const [alert] = await checkBudgetAlerts(TEST_USER_ID, notifications);
+    expect(alert.status).toBe('SKIPPED');
+    expect(notifications.sent).toEqual([]);
+
+    expect(markAlertsRead(TEST_USER_ID, 'missing')).toBeNull();
+    expect(markAlertsRead(TEST_USER_ID, alert.id)).toBe(1);
+    expect(listBudgetAlerts(TEST_USER_ID, { unreadOnly: true })).toEqual({ alerts: [], unread_count: 0 });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import { createBudget, updateBudget, computeProjections, validateBudgetInput } from '../src/services/budget';
+import {
+  listBudgetStatus,
+  getBudgetHistory,
+  unassignedIncome,
+  fundEnvelopes,
+  moveBetweenEnvelopes,
+} from '../src/services/budget-periods';
+import { ingestTransactions } from '../src/services/ingestion';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+function txn(date: string, amount: number, category = 'Food & Drink'): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount,
+    currency: 'USD',
+    name: amount > 0 ? 'Payroll' : 'Diner',
+    merchant_name: null,
+    category_primary: category,
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+  };
+}
+
+/** Midday in New York, so the local date is the one given */
+function setToday(date: string) {
+  vi.setSystemTime(new Date(`${date}T17:00:00Z`));
+}
+
+function backdate(budgetId: string, date: string) {
+  getDb().prepare(`UPDATE budget SET created_at = ? WHERE id = ?`).run(`${date} 12:00:00`, budgetId);
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Budget options', () => {
+  it('checks anchor days against the frequency', () => {
+    const base = { user_id: TEST_USER_ID, category: 'Food & Drink', limit_amount: 100 };
+    expect(validateBudgetInput({ ...base, anchor_day: 15 }).error).toBeUndefined();
+    expect(validateBudgetInput({ ...base, anchor_day: 31 }).error).toContain('1 to 28');
+    expect(validateBudgetInput({ ...base, frequency: 'Week', anchor_day: 7 }).error).toContain('0 (Sunday)');
+    expect(validateBudgetInput({ ...base, frequency: 'Day', anchor_day: 1 }).error).toContain('no anchor_day');
+    expect(validateBudgetInput({ ...base, rollover: 'sometimes' }).error).toContain('rollover');
+  });
+});
+
+describe('Rollover', () => {
+  it('carries a capped surplus into the next month, which starts on payday', () => {
+    setToday('2026-03-20');
+    const budget = createBudget(TEST_USER_ID, 'Food & Drink', 300, 'Month', { anchor_day: 15, rollover: 'surplus', rollover_cap: 50 });
+    backdate(budget.id, '2026-02-20');
+    ingestTransactions([txn('2026-02-20', -200), txn('2026-03-14', -30), txn('2026-03-16', -40)]);
+
+    const [status] = listBudgetStatus(TEST_USER_ID);
+    expect(status).toMatchObject({
+      period_start: '2026-03-15', period_end: '2026-04-15', base_amount: 300, carried_in: 50, spent: 40, available: 310,
+    });
+    expect(getBudgetHistory(TEST_USER_ID, budget.id)).toEqual([
+      expect.objectContaining({ period_start: '2026-02-15', period_end: '2026-03-15', spent: 230, ending_balance: 70 }),
+    ]);
+    expect(computeProjections(TEST_USER_ID).projections[0].budgetLimit).toBe(350);
+  });
+
+  it('carries an overspend into the next week when rollover is all', () => {
+    setToday('2026-03-10');
+    const budget = createBudget(TEST_USER_ID, 'Food & Drink', 100, 'Week', { anchor_day: 1, rollover: 'all', rollover_cap: 30 });
+    backdate(budget.id, '2026-03-02');
+    ingestTransactions([txn('2026-03-03', -150)]);
+
+    expect(listBudgetStatus(TEST_USER_ID)[0]).toMatchObject({
+      period_start: '2026-03-09', carried_in: -30, available: 70,
+    });
+
+    // Without rollover the slate is clean
+    updateBudget(budget.id, { rollover: 'none' });
+    expect(listBudgetStatus(TEST_USER_ID)[0].carried_in).toBe(0);
+  });
+
+  it('ends the current period early when the frequency changes mid-month', () => {
+    setToday('2026-03-11');
+    const budget = createBudget(TEST_USER_ID, 'Food & Drink', 310, 'Month');
+    backdate(budget.id, '2026-03-01');
+    ingestTransactions([txn('2026-03-05', -50), txn('2026-03-11', -20)]);
+
+    updateBudget(budget.id, { frequency: 'Week', limit_amount: 70 });
+    // March 1-10 keeps its share of the monthly limit
+    expect(getBudgetHistory(TEST_USER_ID, budget.id)).toEqual([
+      expect.objectContaining({ period_start: '2026-03-01', period_end: '2026-03-11', base_amount: 100, spent: 50 }),
+    ]);
+    // The first week runs from today to Sunday with 4 of its 7 days
+    expect(listBudgetStatus(TEST_USER_ID)[0]).toMatchObject({
+      period_start: '2026-03-11', period_end: '2026-03-15', base_amount: 40, spent: 20, available: 20,
+    });
+
+    setToday('2026-03-16');
+    expect(listBudgetStatus(TEST_USER_ID)[0]).toMatchObject({ period_start: '2026-03-15', base_amount: 70 });
+    expect(getBudgetHistory(TEST_USER_ID, budget.id)!.map(p => p.period_start)).toEqual(['2026-03-11', '2026-03-01']);
+  });
+});
+
+describe('Envelopes', () => {
+  it('funds envelopes from income and moves money between them', () => {
+    setToday('2026-03-10');
+    const food = createBudget(TEST_USER_ID, 'Food & Drink', 400, 'Month', { envelope: true });
+    const fun = createBudget(TEST_USER_ID, 'Entertainment', 100, 'Month', { envelope: true });
+    const bills = createBudget(TEST_USER_ID, 'Utilities', 100, 'Month');
+    backdate(food.id, '2026-03-01');
+    ingestTransactions([txn('2026-03-01', 1000, 'Income'), txn('2026-03-05', -50)]);
+
+    expect(unassignedIncome(TEST_USER_ID)).toBe(1000);
+    expect(fundEnvelopes(TEST_USER_ID, [{ budget_id: food.id, amount: 300 }, { budget_id: fun.id, amount: 100 }])!.to_be_budgeted).toBe(600);
+    expect(fundEnvelopes(TEST_USER_ID, [{ budget_id: food.id, amount: 700 }])!.error).toContain('$600.00');
+    expect(fundEnvelopes(TEST_USER_ID, [{ budget_id: bills.id, amount: 10 }])!.error).toContain("isn't an envelope");
+    expect(fundEnvelopes(TEST_USER_ID, [{ budget_id: 'missing', amount: 10 }])).toBeNull();
+
+    expect(moveBetweenEnvelopes(TEST_USER_ID, food.id, fun.id, 300)!.error).toContain('$250.00');
+    const { budgets } = moveBetweenEnvelopes(TEST_USER_ID, food.id, fun.id, 100)!;
+    expect(budgets!.find(b => b.budget_id === food.id)).toMatchObject({ base_amount: 200, spent: 50, available: 150 });
+    expect(budgets!.find(b => b.budget_id === fun.id)).toMatchObject({ base_amount: 200, available: 200 });
+
+    // Unspent envelope money carries into April in full
+    setToday('2026-04-02');
+    expect(listBudgetStatus(TEST_USER_ID).find(b => b.budget_id === food.id)).toMatchObject({
+      base_amount: 0, carried_in: 150, available: 150,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import { forecastCashFlow, validateForecastDays } from '../src/services/cash-flow-forecast';
+import { createAccount } from '../src/services/accounts';
+import { createBudget } from '../src/services/budget';
+import { ingestTransactions } from '../src/services/ingestion';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+function paycheck(date: string): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount: 2000,
+    currency: 'USD',
+    name: 'ACME PAYROLL',
+    merchant_name: null,
+    category_primary: 'Income',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+  };
+}
+
+function addRecurring(merchantKey: string, amount: number, nextDate: string): void {
+  getDb().prepare(`
+    INSERT INTO recurring_candidate (id, user_id, merchant_key, typical_amount, cadence, next_expected_date, confidence)
+    VALUES (?, ?, ?, ?, 'monthly', ?, 0.9)
+  `).run(uuid(), TEST_USER_ID, merchantKey, amount, nextDate);
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  vi.useFakeTimers();
+  // Midday in New York
+  vi.setSystemTime(new Date('2026-03-10T17:00:00Z'));
+  // Paid every other Friday; the next one is 2026-03-13
+  ingestTransactions(['2026-01-16', '2026-01-30', '2026-02-13', '2026-02-27'].map(paycheck));
+  addRecurring('netflix', 15.49, '2026-03-20');
+  createBudget(TEST_USER_ID, 'Food & Drink', 310, 'Month');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Cash-flow forecast', () => {
+  it('projects income, bills and budgets, and splits what\'s spare until payday', () => {
+    createAccount(TEST_USER_ID, { name: 'Checking', type: 'checking', balance: 1000 });
+    createAccount(TEST_USER_ID, { name: 'Savings', type: 'savings', balance: 5000 });
+
+    const forecast = forecastCashFlow(TEST_USER_ID);
+    expect(forecast).toMatchObject({ as_of: '2026-03-10', starting_balance: 1000, has_balance: true, next_income_date: '2026-03-13' });
+    expect(forecast.days).toHaveLength(30);
+
+    const byDate = new Map(forecast.days.map(d => [d.date, d]));
+    expect(byDate.get('2026-03-13')!.entries).toEqual([{ kind: 'income', name: 'ACME PAYROLL', amount: 2000 }]);
+    expect(byDate.get('2026-03-27')!.income).toBe(2000);
+    expect(byDate.get('2026-03-20')!.bills).toBe(15.49);
+    expect(forecast.days[0].budgeted).toBeGreaterThan(0);
+
+    // Today's budgeted spending plus a third of what's left after three days of it
+    expect(forecast.safe_to_spend_today).toBeCloseTo(1000 / 3, 1);
+    expect(forecast.overdraft_dates).toEqual([]);
+  });
+
+  it('flags the days a bill would overdraw the account', () => {
+    createAccount(TEST_USER_ID, { name: 'Checking', type: 'checking', balance: 50 });
+    addRecurring('landlord', 1200, '2026-03-12');
+
+    const forecast = forecastCashFlow(TEST_USER_ID);
+    expect(forecast.overdraft_dates).toEqual(['2026-03-12']);
+    expect(forecast.lowest_balance.date).toBe('2026-03-12');
+    expect(forecast.safe_to_spend_today).toBe(0);
+  });
+
+  it('starts from zero without a checking or cash account', () => {
+    const forecast = forecastCashFlow(TEST_USER_ID, 45);
+    expect(forecast).toMatchObject({ starting_balance: 0, has_balance: false });
+    expect(forecast.days).toHaveLength(45);
+  });
+
+  it('validates the forecast length', () => {
+    expect(validateForecastDays(45)).toEqual({});
+    expect(validateForecastDays(90).error).toContain('7 to 60');
+    expect(validateForecastDays(2.5).error).toBeDefined();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  listCategories,
+  findCategoryByName,
+  validateCategoryInput,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+  categoryFamily,
+} from '../src/services/categories';
+import { validateBudgetInput, createBudget, listBudgets, computeProjections } from '../src/services/budget';
+import { createRule, listRules } from '../src/services/categorization-rules';
+import { ingestTransactions, getTransactions } from '../src/services/ingestion';
+import { buildFinancialSummary } from '../src/services/financial-summary';
+import { evaluateQuest } from '../src/services/quest-evaluation';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const today = localDate(DEFAULT_TIMEZONE);
+
+function categoryId(name: string): string {
+  return findCategoryByName(TEST_USER_ID, name)!.id;
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+});
+
+describe('Default categories', () => {
+  it('gives every new user the starting set with Groceries under Food & Drink', () => {
+    const categories = listCategories(TEST_USER_ID);
+    expect(categories.map(c => c.name)).toEqual([
+      'Food & Drink', 'Groceries', 'Transportation', 'Entertainment', 'Shopping', 'Subscription',
+      'Utilities', 'Education', 'Health', 'Travel', 'Service', 'Income', 'Payment', 'Transfer', 'Other',
+    ]);
+    expect(categories[1].parent_id).toBe(categories[0].id);
+    expect(categories.filter(c => c.exclude_from_spending).map(c => c.name)).toEqual(['Income', 'Payment', 'Transfer']);
+    expect(categoryFamily(TEST_USER_ID, 'Food & Drink')).toEqual(['Food & Drink', 'Groceries']);
+  });
+});
+
+describe('Custom categories', () => {
+  it('validates names, colors and nesting', () => {
+    expect(validateCategoryInput({}).error).toContain('name');
+    expect(validateCategoryInput({ name: 'Pets', color: 'red' }).error).toContain('hex');
+    expect(validateCategoryInput({ color: '#aabbcc' }, true).error).toBeUndefined();
+
+    expect(createCategory(TEST_USER_ID, { name: 'shopping' }).error).toContain('already exists');
+    expect(createCategory(TEST_USER_ID, { name: 'Produce', parent_id: categoryId('Groceries') }).error)
+      .toContain('cannot have subcategories');
+    expect(updateCategory(TEST_USER_ID, categoryId('Food & Drink'), { parent_id: categoryId('Shopping') })!.error)
+      .toContain('cannot become a subcategory');
+    expect(updateCategory('someone-else', categoryId('Shopping'), { name: 'Stuff' })).toBeNull();
+  });
+
+  it('accepts custom categories for budgets and rolls subcategories into the parent', () => {
+    const pets = createCategory(TEST_USER_ID, { name: 'Pets', icon: '🐶', color: '#ffcc80' }).category!;
+    createCategory(TEST_USER_ID, { name: 'Vet', parent_id: pets.id });
+
+    expect(validateBudgetInput({ user_id: TEST_USER_ID, category: 'Pets', limit_amount: 100 }).error).toBeUndefined();
+    expect(validateBudgetInput({ user_id: TEST_USER_ID, category: 'Boats', limit_amount: 100 }).error).toContain('Pets');
+
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'food', amount: -20, name: 'Chewy', category_primary: 'Pets' }),
+      makeTransaction({ provider_txn_id: 'vet', amount: -80, name: 'Banfield', category_primary: 'Vet' }),
+    ]);
+    createBudget(TEST_USER_ID, 'Pets', 200, 'Month');
+    expect(computeProjections(TEST_USER_ID).projections[0]).toMatchObject({ category: 'Pets', currentSpent: 100 });
+    expect(getTransactions(TEST_USER_ID, today, today, { category: 'Pets' })).toHaveLength(2);
+
+    const questId = uuid();
+    getDb().prepare(`
+      INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+      VALUES (?, ?, 'ACTIVE', 'Pets under $90', ?, '2099-12-31', 'CATEGORY_SPEND_CAP', ?, 'bone', 5)
+    `).run(questId, TEST_USER_ID, today, JSON.stringify({ category: 'Pets', cap: 90 }));
+    expect(evaluateQuest(questId)).toMatchObject({ confirmedValue: 100, newStatus: 'FAILED' });
+  });
+
+  it('leaves charges in excluded categories out of spending totals', () => {
+    createCategory(TEST_USER_ID, { name: 'Reimbursable', exclude_from_spending: true });
+    ingestTransactions([
+      makeTransaction({ provider_txn_id: 'lunch', amount: -15 }),
+      makeTransaction({ provider_txn_id: 'flight', amount: -400, name: 'United', category_primary: 'Reimbursable' }),
+    ]);
+    const summary = buildFinancialSummary(TEST_USER_ID, today, today);
+    expect(summary.total_spent).toBe(15);
+    expect(summary.by_category).toEqual({ 'Food & Drink': 15 });
+  });
+});
+
+describe('Renaming and deleting', () => {
+  it('carries a rename over to transactions, budgets and rules', () => {
+    ingestTransactions([makeTransaction({ provider_txn_id: 'bus', name: 'MTA', category_primary: 'Transportation' })]);
+    createBudget(TEST_USER_ID, 'Transportation', 120, 'Month');
+    createRule(TEST_USER_ID, { match_merchant_key: 'mta', set_category: 'Transportation' });
+
+    const result = updateCategory(TEST_USER_ID, categoryId('Transportation'), { name: 'Transit' })!;
+    expect(result.category!.name).toBe('Transit');
+    expect(getTransactions(TEST_USER_ID, today, today)[0].category_primary).toBe('Transit');
+    expect(listBudgets(TEST_USER_ID)[0].category).toBe('Transit');
+    expect(listRules(TEST_USER_ID)[0].set_category).toBe('Transit');
+  });
+
+  it('moves transactions to the parent and promotes subcategories on delete', () => {
+    const pets = createCategory(TEST_USER_ID, { name: 'Pets' }).category!;
+    const vet = createCategory(TEST_USER_ID, { name: 'Vet', parent_id: pets.id }).category!;
+    ingestTransactions([makeTransaction({ provider_txn_id: 'vet', category_primary: 'Vet' })]);
+
+    expect(deleteCategory(TEST_USER_ID, vet.id)).toEqual({ reassignedTo: 'Pets' });
+    expect(getTransactions(TEST_USER_ID, today, today)[0].category_primary).toBe('Pets');
+
+    const toys = createCategory(TEST_USER_ID, { name: 'Toys', parent_id: pets.id }).category!;
+    expect(deleteCategory(TEST_USER_ID, pets.id, 'Shopping')).toEqual({ reassignedTo: 'Shopping' });
+    expect(findCategoryByName(TEST_USER_ID, 'Toys')!.parent_id).toBeNull();
+    expect(toys.parent_id).toBe(pets.id);
+    expect(getTransactions(TEST_USER_ID, today, today)[0].category_primary).toBe('Shopping');
+
+    expect(deleteCategory(TEST_USER_ID, categoryId('Other')).error).toContain('another category');
+  });
+});
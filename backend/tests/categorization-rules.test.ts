@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  validateRuleInput,
+  createRule,
+  updateRule,
+  deleteRule,
+  listRules,
+  applyRules,
+  reapplyRules,
+  recategorizeTransaction,
+} from '../src/services/categorization-rules';
+import { ingestTransactions, applyTransactionDelta } from '../src/services/ingestion';
+import { createAccount } from '../src/services/accounts';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+function txn(overrides: Partial<Transaction>): Transaction {
+  return makeTransaction({ date: '2026-02-10', amount: -25, name: 'SQ *BLUE BOTTLE 1234', category_primary: 'Shopping', ...overrides });
+}
+
+function stored(providerTxnId: string) {
+  const row = getDb().prepare(
+    `SELECT category_primary, merchant_name, merchant_key, metadata, transfer_group_id FROM transaction_ WHERE provider_txn_id = ?`
+  ).get(providerTxnId) as any;
+  return { ...row, metadata: JSON.parse(row.metadata) };
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+});
+
+describe('Rule validation and CRUD', () => {
+  it('requires a condition and an action', () => {
+    expect(validateRuleInput({ set_category: 'Food & Drink' }).error).toContain('condition');
+    expect(validateRuleInput({ match_merchant_key: 'costco' }).error).toContain('action');
+    expect(validateRuleInput({ match_name_regex: '(unclosed', set_category: 'X' }).error).toContain('regular expression');
+    expect(validateRuleInput({ match_amount_min: 50, match_amount_max: 10, add_tag: 'big' }).error).toContain('exceed');
+    expect(validateRuleInput({ match_amount_min: 100, mark_transfer: true }).error).toBeUndefined();
+    expect(validateRuleInput({ priority: 5 }, true).error).toBeUndefined();
+  });
+
+  it('normalizes merchant keys and refuses updates that strip every action', () => {
+    const rule = createRule(TEST_USER_ID, { match_merchant_key: 'COSTCO WHSE #1042', set_category: 'Groceries' });
+    expect(rule.match_merchant_key).toBe('costco whse');
+
+    expect(updateRule(TEST_USER_ID, rule.id, { set_category: null })!.error).toContain('action');
+    expect(updateRule(TEST_USER_ID, rule.id, { priority: 1 })!.rule!.priority).toBe(1);
+    expect(updateRule('someone-else', rule.id, { priority: 2 })).toBeNull();
+
+    expect(deleteRule(TEST_USER_ID, rule.id)).toBe(true);
+    expect(listRules(TEST_USER_ID)).toEqual([]);
+  });
+});
+
+describe('Applying rules', () => {
+  it('lets the first matching rule set a field and accumulates tags', () => {
+    const rules = [
+      createRule(TEST_USER_ID, { priority: 1, match_name_regex: 'blue bottle', set_category: 'Food & Drink', set_merchant_name: 'Blue Bottle', add_tag: 'coffee' }),
+      createRule(TEST_USER_ID, { priority: 2, match_amount_max: 30, set_category: 'Other', add_tag: 'small' }),
+    ];
+    const outcome = applyRules(txn({}), rules);
+    expect(outcome.matchedRuleIds).toEqual(rules.map(r => r.id));
+    expect(outcome.transaction).toMatchObject({ category_primary: 'Food & Drink', merchant_name: 'Blue Bottle' });
+    expect(outcome.transaction.metadata.tags).toEqual(['coffee', 'small']);
+  });
+
+  it('applies at ingest, including renames and transfer marking', () => {
+    const savings = createAccount(TEST_USER_ID, { name: 'Savings', type: 'savings' }).id;
+    createRule(TEST_USER_ID, { match_name_regex: '^SQ \\*BLUE BOTTLE', set_category: 'Food & Drink', set_merchant_name: 'Blue Bottle' });
+    createRule(TEST_USER_ID, { match_account_id: savings, match_amount_min: 100, mark_transfer: true });
+    createRule(TEST_USER_ID, { match_merchant_key: 'netflix', set_category: 'Subscription', enabled: false });
+
+    ingestTransactions([
+      txn({ provider_txn_id: 'coffee' }),
+      txn({ provider_txn_id: 'sweep', name: 'ONLINE TRANSFER', amount: 500, account_id: savings, category_primary: 'Income' }),
+      txn({ provider_txn_id: 'netflix', name: 'NETFLIX', amount: -15.49 }),
+    ]);
+
+    expect(stored('coffee')).toMatchObject({ category_primary: 'Food & Drink', merchant_name: 'Blue Bottle', merchant_key: 'blue bottle' });
+    expect(stored('sweep').transfer_group_id).not.toBeNull();
+    // Disabled rules don't run
+    expect(stored('netflix').category_primary).toBe('Shopping');
+  });
+
+  it('keeps rule results when the provider corrects a transaction', () => {
+    createRule(TEST_USER_ID, { match_name_regex: 'blue bottle', set_category: 'Food & Drink' });
+    const original = txn({ provider_txn_id: 'coffee' });
+    ingestTransactions([original]);
+
+    applyTransactionDelta(TEST_USER_ID, { upsert: [{ ...original, amount: -27 }] });
+    expect(stored('coffee').category_primary).toBe('Food & Drink');
+  });
+
+  it('re-applies to history without touching hand-picked categories', () => {
+    ingestTransactions([
+      txn({ provider_txn_id: 'old_1', date: '2025-11-02' }),
+      txn({ provider_txn_id: 'old_2', date: '2025-12-02' }),
+      txn({ provider_txn_id: 'other', name: 'TARGET', date: '2025-12-05' }),
+    ]);
+    const manual = getDb().prepare(`SELECT id FROM transaction_ WHERE provider_txn_id = 'old_2'`).get() as { id: string };
+    recategorizeTransaction(TEST_USER_ID, manual.id, 'Entertainment');
+
+    const rule = createRule(TEST_USER_ID, { match_merchant_key: 'sq blue bottle', set_category: 'Food & Drink' });
+    const result = reapplyRules(TEST_USER_ID, rule.id);
+    expect(result).toEqual({ matched: 2, updated: 1, changedDates: ['2025-11-02'] });
+    expect(stored('old_1').category_primary).toBe('Food & Drink');
+    expect(stored('old_2').category_primary).toBe('Entertainment');
+    expect(stored('other').category_primary).toBe('Shopping');
+
+    // Nothing left to change
+    expect(reapplyRules(TEST_USER_ID).updated).toBe(0);
+  });
+});
+
+describe('Manual recategorization', () => {
+  it('marks the category as the user\'s and suggests a merchant rule', () => {
+    const original = txn({ provider_txn_id: 'fix_me' });
+    ingestTransactions([original]);
+    const id = (getDb().prepare(`SELECT id FROM transaction_ WHERE provider_txn_id = 'fix_me'`).get() as { id: string }).id;
+
+    const result = recategorizeTransaction(TEST_USER_ID, id, 'Food & Drink')!;
+    expect(result.suggestedRule).toEqual({
+      name: 'SQ *BLUE BOTTLE 1234 → Food & Drink',
+      match_merchant_key: 'sq blue bottle',
+      set_category: 'Food & Drink',
+    });
+    expect(stored('fix_me').metadata.category_source).toBe('user');
+
+    // A later provider correction keeps the user's category
+    applyTransactionDelta(TEST_USER_ID, { upsert: [{ ...original, amount: -30 }] });
+    expect(stored('fix_me').category_primary).toBe('Food & Drink');
+    expect(recategorizeTransaction('someone-else', id, 'Other')).toBeNull();
+  });
+});
@@ -6,6 +6,7 @@ import { AgentRunner, MockLLMProvider } from '../src/agents/runner';
 import { Orchestrator } from '../src/orchestrator';
 import { diningSpikesFixture, TEST_USER_ID } from './fixtures/transactions';
 import { seedDefaultBudgets } from '../src/adapters/mock-budget';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
 
 beforeEach(() => {
   createTestDb();
@@ -106,7 +107,7 @@ describe('Orchestrator Idempotency', () => {
 
     // Should only have one set of insights
     const db = getDb();
-    const today = new Date().toISOString().split('T')[0];
+    const today = localDate(DEFAULT_TIMEZONE);
     const insights = db.prepare(
       'SELECT * FROM insight WHERE user_id = ? AND date = ?'
     ).all(TEST_USER_ID, today);
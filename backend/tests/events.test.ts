@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  AppEvent,
+  publishEvent,
+  subscribeEvents,
+  eventsSince,
+  formatServerSentEvent,
+} from '../src/services/events';
+import { evaluateQuest } from '../src/services/quest-evaluation';
+import { Orchestrator } from '../src/orchestrator';
+import { createAdapters } from '../src/adapters';
+import { AgentRunner } from '../src/agents/runner';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const today = localDate(DEFAULT_TIMEZONE);
+
+function txn(overrides: Partial<Transaction>): Transaction {
+  return makeTransaction({ amount: -30, name: 'Diner', ...overrides });
+}
+
+function insertQuest(windowStart: string, windowEnd: string): string {
+  const id = uuid();
+  getDb().prepare(`
+    INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+    VALUES (?, ?, 'ACTIVE', 'Keep dining low', ?, ?, 'CATEGORY_SPEND_CAP', ?, 'bone', 5)
+  `).run(id, TEST_USER_ID, windowStart, windowEnd, JSON.stringify({ category: 'Food & Drink', cap: 20 }));
+  return id;
+}
+
+let received: AppEvent[];
+let unsubscribe: () => void;
+
+beforeEach(() => {
+  createTestDb();
+  const db = getDb();
+  db.prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  db.prepare(`INSERT INTO scotty_state (user_id, happiness, mood, food_credits) VALUES (?, 70, 'content', 10)`).run(TEST_USER_ID);
+  received = [];
+  unsubscribe = subscribeEvents(TEST_USER_ID, e => received.push(e));
+});
+
+afterEach(() => unsubscribe());
+
+describe('Event bus', () => {
+  it('delivers a user\'s events to their subscribers only', () => {
+    const event = publishEvent(TEST_USER_ID, 'insight.created', {
+      id: 'i1', date: today, title: 'Nice', blurb: 'Spending is down', confidence: 'HIGH', metrics: {},
+    });
+    publishEvent('someone-else', 'action.created', {
+      id: 'a1', type: 'SAVINGS_TIP', payload: {}, requires_approval: false, status: 'OPEN',
+    });
+
+    expect(received).toEqual([event]);
+    expect(formatServerSentEvent(event)).toBe(
+      `id: ${event.id}\nevent: insight.created\ndata: ${JSON.stringify(event.data)}\n\n`
+    );
+
+    unsubscribe();
+    publishEvent(TEST_USER_ID, 'insight.created', { ...event.data, id: 'i2' });
+    expect(received).toHaveLength(1);
+  });
+
+  it('replays what a reconnecting client missed', () => {
+    const first = publishEvent(TEST_USER_ID, 'insight.created', {
+      id: 'i1', date: today, title: 'One', blurb: 'First', confidence: 'LOW', metrics: {},
+    });
+    const second = publishEvent(TEST_USER_ID, 'insight.created', { ...first.data, id: 'i2' });
+
+    expect(eventsSince(TEST_USER_ID, first.id)).toEqual([second]);
+    expect(eventsSince(TEST_USER_ID, second.id)).toEqual([]);
+  });
+});
+
+describe('Published events', () => {
+  it('pushes ingested transactions and the quest progress they cause', async () => {
+    const questId = insertQuest(today, today);
+    const orchestrator = new Orchestrator(createAdapters(), new AgentRunner({ adapters: createAdapters() }));
+    const charge = txn({});
+
+    await orchestrator.handleTransactionUpdate(TEST_USER_ID, [charge]);
+    const ingested = received.find(e => e.type === 'transaction.ingested') as AppEvent<'transaction.ingested'>;
+    expect(ingested.data).toMatchObject({ inserted: 1, removed_ids: [] });
+    expect(ingested.data.transactions).toEqual([expect.objectContaining({ id: charge.id, amount: -30 })]);
+    expect(received.find(e => e.type === 'quest.progress')!.data).toMatchObject({
+      quest_id: questId, status: 'FAILED', previous_status: 'ACTIVE', confirmed_value: 30,
+    });
+
+    received = [];
+    await orchestrator.handleTransactionUpdate(TEST_USER_ID, [], undefined, [charge.provider_txn_id!]);
+    expect(received.find(e => e.type === 'transaction.ingested')!.data).toMatchObject({
+      removed: 1, transactions: [], removed_ids: [charge.id],
+    });
+  });
+
+  it('keeps webhook event ids apart per user', async () => {
+    const other = 'test-user-2';
+    getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(other);
+    const orchestrator = new Orchestrator(createAdapters(), new AgentRunner({ adapters: createAdapters() }));
+
+    const mine = await orchestrator.handleTransactionUpdate(TEST_USER_ID, [txn({})], 'evt_1');
+    const theirs = await orchestrator.handleTransactionUpdate(other, [txn({ user_id: other, amount: -12 })], 'evt_1');
+    expect(mine.ingested).toBe(1);
+    expect(theirs.ingested).toBe(1);
+    expect(getDb().prepare(`SELECT amount FROM transaction_ WHERE user_id = ?`).all(other)).toEqual([{ amount: -12 }]);
+    // A redelivery for the same user is still a no-op
+    expect(await orchestrator.handleTransactionUpdate(TEST_USER_ID, [txn({})], 'evt_1')).toEqual(mine);
+  });
+
+  it('announces completions with Scotty\'s new state, once', () => {
+    const questId = insertQuest('2020-01-01', '2020-01-02');
+
+    evaluateQuest(questId);
+    expect(received.map(e => e.type)).toEqual(['quest.progress', 'quest.completed', 'scotty.state_changed']);
+    expect(received[2].data).toMatchObject({ happiness: 75, food_credits: 13 });
+
+    // Nothing moved the second time round
+    received = [];
+    evaluateQuest(questId);
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,218 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Minimal stand-in for the Plaid API covering Link token creation, public token
+ * exchange and /transactions/sync. Each item keeps an append-only change log;
+ * a cursor is just the log offset, so tests can script added/modified/removed
+ * deltas and replay sync pages offline.
+ */
+
+export interface FakePlaidTransaction {
+  transaction_id: string;
+  account_id: string;
+  date: string;
+  amount: number;
+  iso_currency_code: string;
+  name: string;
+  merchant_name: string | null;
+  pending: boolean;
+  pending_transaction_id: string | null;
+  category: string[] | null;
+  personal_finance_category: { primary: string; detailed: string } | null;
+}
+
+export interface FakePlaidAccount {
+  account_id: string;
+  name: string;
+  mask: string | null;
+  type: string;
+  subtype: string | null;
+  balances: { current: number | null; iso_currency_code: string };
+}
+
+type Change =
+  | { kind: 'added' | 'modified'; txn: FakePlaidTransaction }
+  | { kind: 'removed'; transaction_id: string };
+
+interface FakeItem {
+  itemId: string;
+  accessToken: string;
+  changes: Change[];
+  accounts: FakePlaidAccount[];
+  /** Error returned by every data call until cleared */
+  error: { error_type: string; error_code: string; error_message: string } | null;
+  /** Fail the next N paginated calls with TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION */
+  mutationsDuringPagination: number;
+}
+
+export interface FakePlaidServer {
+  baseUrl: string;
+  /** Every request body received, in order */
+  requests: Array<{ path: string; body: any }>;
+  /** Max rows per /transactions/sync page (overrides the client's count when smaller) */
+  pageSize: number;
+  createItem(itemId?: string): { itemId: string; accessToken: string; publicToken: string };
+  addTransactions(itemId: string, txns: FakePlaidTransaction[]): void;
+  modifyTransaction(itemId: string, txn: FakePlaidTransaction): void;
+  removeTransaction(itemId: string, transactionId: string): void;
+  setAccounts(itemId: string, accounts: FakePlaidAccount[]): void;
+  requireLogin(itemId: string): void;
+  clearError(itemId: string): void;
+  failNextPage(itemId: string, times?: number): void;
+  close(): Promise<void>;
+}
+
+let counter = 0;
+
+export function fakePlaidTransaction(overrides: Partial<FakePlaidTransaction> = {}): FakePlaidTransaction {
+  counter++;
+  return {
+    transaction_id: `txn_${counter}`,
+    account_id: 'acc_checking',
+    date: '2026-01-10',
+    amount: 12.5,
+    iso_currency_code: 'USD',
+    name: 'CHIPOTLE 1234',
+    merchant_name: 'Chipotle',
+    pending: false,
+    pending_transaction_id: null,
+    category: ['Food and Drink', 'Restaurants'],
+    personal_finance_category: { primary: 'FOOD_AND_DRINK', detailed: 'FOOD_AND_DRINK_FAST_FOOD' },
+    ...overrides,
+  };
+}
+
+function plaidError(res: http.ServerResponse, status: number, error_type: string, error_code: string, error_message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error_type, error_code, error_message, display_message: null, request_id: 'fake' }));
+}
+
+export async function startFakePlaidServer(): Promise<FakePlaidServer> {
+  const items = new Map<string, FakeItem>();
+  const byAccessToken = new Map<string, FakeItem>();
+  const byPublicToken = new Map<string, FakeItem>();
+
+  const requireItem = (itemId: string): FakeItem => {
+    const item = items.get(itemId);
+    if (!item) throw new Error(`Unknown fake item ${itemId}`);
+    return item;
+  };
+
+  const fake: FakePlaidServer = {
+    baseUrl: '',
+    requests: [],
+    pageSize: 100,
+    createItem(itemId = `item_${items.size + 1}`) {
+      const item: FakeItem = {
+        itemId,
+        accessToken: `access-sandbox-${itemId}`,
+        changes: [],
+        accounts: [],
+        error: null,
+        mutationsDuringPagination: 0,
+      };
+      items.set(itemId, item);
+      byAccessToken.set(item.accessToken, item);
+      const publicToken = `public-sandbox-${itemId}`;
+      byPublicToken.set(publicToken, item);
+      return { itemId, accessToken: item.accessToken, publicToken };
+    },
+    addTransactions(itemId, txns) {
+      requireItem(itemId).changes.push(...txns.map(txn => ({ kind: 'added' as const, txn })));
+    },
+    modifyTransaction(itemId, txn) {
+      requireItem(itemId).changes.push({ kind: 'modified', txn });
+    },
+    removeTransaction(itemId, transactionId) {
+      requireItem(itemId).changes.push({ kind: 'removed', transaction_id: transactionId });
+    },
+    setAccounts(itemId, accounts) {
+      requireItem(itemId).accounts = accounts;
+    },
+    requireLogin(itemId) {
+      requireItem(itemId).error = {
+        error_type: 'ITEM_ERROR',
+        error_code: 'ITEM_LOGIN_REQUIRED',
+        error_message: 'the login details of this item have changed',
+      };
+    },
+    clearError(itemId) {
+      requireItem(itemId).error = null;
+    },
+    failNextPage(itemId, times = 1) {
+      requireItem(itemId).mutationsDuringPagination = times;
+    },
+    close: async () => undefined,
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : {};
+      const path = req.url || '';
+      fake.requests.push({ path, body });
+
+      if (!body.client_id || !body.secret) {
+        return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_API_KEYS', 'client_id and secret are required');
+      }
+
+      if (path === '/link/token/create') {
+        if (body.access_token && !byAccessToken.has(body.access_token)) {
+          return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_ACCESS_TOKEN', 'unknown access token');
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({
+          link_token: `link-sandbox-${body.user?.client_user_id}${body.access_token ? '-update' : ''}`,
+          expiration: '2099-01-01T00:00:00Z',
+          request_id: 'fake',
+        }));
+      }
+
+      if (path === '/item/public_token/exchange') {
+        const item = byPublicToken.get(body.public_token);
+        if (!item) return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_PUBLIC_TOKEN', 'unknown public token');
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ access_token: item.accessToken, item_id: item.itemId, request_id: 'fake' }));
+      }
+
+      if (path === '/transactions/sync') {
+        const item = byAccessToken.get(body.access_token);
+        if (!item) return plaidError(res, 400, 'INVALID_INPUT', 'INVALID_ACCESS_TOKEN', 'unknown access token');
+        if (item.error) {
+          const { error_type, error_code, error_message } = item.error;
+          return plaidError(res, 400, error_type, error_code, error_message);
+        }
+
+        const offset = body.cursor ? Number.parseInt(body.cursor, 10) : 0;
+        if (body.cursor && item.mutationsDuringPagination > 0) {
+          item.mutationsDuringPagination--;
+          return plaidError(res, 400, 'TRANSACTIONS_ERROR', 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION',
+            'underlying transaction data changed since the last page was fetched');
+        }
+
+        const count = Math.min(body.count || 100, fake.pageSize);
+        const page = item.changes.slice(offset, offset + count);
+        const next = offset + page.length;
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({
+          accounts: item.accounts,
+          added: page.filter(c => c.kind === 'added').map(c => (c as any).txn),
+          modified: page.filter(c => c.kind === 'modified').map(c => (c as any).txn),
+          removed: page.filter(c => c.kind === 'removed').map(c => ({ transaction_id: (c as any).transaction_id })),
+          next_cursor: String(next),
+          has_more: next < item.changes.length,
+          request_id: 'fake',
+        }));
+      }
+
+      plaidError(res, 404, 'INVALID_REQUEST', 'NOT_FOUND', `no fake handler for ${path}`);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  fake.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  fake.close = () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+  return fake;
+}
@@ -1,5 +1,6 @@
 import { v4 as uuid } from 'uuid';
 import { Transaction } from '../../src/schemas';
+import { DEFAULT_TIMEZONE, localDate } from '../../src/services/user-clock';
 
 const USER_ID = 'test-user-1';
 
@@ -151,3 +152,29 @@ export function edgeCaseFixture(): Transaction[] {
 }
 
 export const TEST_USER_ID = USER_ID;
+
+/**
+ * One posted $10 coffee for the test user today (in the default timezone),
+ * with any fields overridden.
+ */
+export function makeTransaction(overrides: Partial<Transaction> = {}): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date: localDate(DEFAULT_TIMEZONE),
+    amount: -10,
+    currency: 'USD',
+    name: 'Coffee',
+    merchant_name: null,
+    category_primary: 'Food & Drink',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+    ...overrides,
+  };
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  createGoal,
+  contribute,
+  withdraw,
+  listContributions,
+  linkGoalAccount,
+  matchTransferContributions,
+  goalProgress,
+  validateGoalInput,
+  validateContributionInput,
+} from '../src/services/goals';
+import { evaluateQuest } from '../src/services/quest-evaluation';
+import { createAccount } from '../src/services/accounts';
+import { ingestTransactions, applyTransactionDelta } from '../src/services/ingestion';
+import { AppEvent, subscribeEvents } from '../src/services/events';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+function txn(accountId: string, amount: number, date: string, name: string, category = 'Transfer'): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount,
+    currency: 'USD',
+    name,
+    merchant_name: null,
+    category_primary: category,
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: accountId,
+  };
+}
+
+function scotty() {
+  return getDb().prepare(`SELECT happiness, food_credits, last_reward_food FROM scotty_state WHERE user_id = ?`).get(TEST_USER_ID);
+}
+
+let events: AppEvent[];
+let unsubscribe: () => void;
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  getDb().prepare(`INSERT INTO scotty_state (user_id, happiness, mood, food_credits) VALUES (?, 50, 'content', 10)`).run(TEST_USER_ID);
+  vi.useFakeTimers();
+  // Midday in New York
+  vi.setSystemTime(new Date('2026-03-10T17:00:00Z'));
+  events = [];
+  unsubscribe = subscribeEvents(TEST_USER_ID, e => { events.push(e); });
+});
+
+afterEach(() => {
+  unsubscribe();
+  vi.useRealTimers();
+});
+
+describe('Contributions and withdrawals', () => {
+  it('keeps saved_so_far as the sum of the ledger', () => {
+    const goal = createGoal(TEST_USER_ID, { name: 'Trip', target_amount: 500, saved_so_far: 100 });
+    contribute(TEST_USER_ID, goal.id, { amount: 75, note: 'Birthday money' });
+    const result = withdraw(TEST_USER_ID, goal.id, { amount: 25 })!;
+
+    expect(result.goal!.saved_so_far).toBe(150);
+    expect(listContributions(TEST_USER_ID, goal.id)!.map(c => [c.kind, c.amount])).toEqual(
+      expect.arrayContaining([['initial', 100], ['manual', 75], ['withdrawal', -25]])
+    );
+    expect(withdraw(TEST_USER_ID, goal.id, { amount: 200 })!.error).toBe('Can\'t withdraw more than the $150.00 saved');
+    expect(contribute(TEST_USER_ID, 'missing', { amount: 5 })).toBeNull();
+  });
+
+  it('completes the goal at its target and rewards Scotty only the first time', () => {
+    const goal = createGoal(TEST_USER_ID, { name: 'Trip', target_amount: 200 });
+    expect(contribute(TEST_USER_ID, goal.id, { amount: 200 })!.goal!.status).toBe('COMPLETED');
+    expect(scotty()).toEqual({ happiness: 65, food_credits: 15, last_reward_food: 'truffle' });
+    expect(events.find(e => e.type === 'goal.completed')!.data).toMatchObject({ goal_id: goal.id, rewarded: true, happiness_delta: 15 });
+
+    expect(withdraw(TEST_USER_ID, goal.id, { amount: 50 })!.goal).toMatchObject({ status: 'ACTIVE', completed_at: null });
+    contribute(TEST_USER_ID, goal.id, { amount: 50 });
+    expect(scotty()).toMatchObject({ happiness: 65, food_credits: 15 });
+    expect(events.filter(e => e.type === 'goal.completed').map(e => (e.data as any).rewarded)).toEqual([true, false]);
+  });
+
+  it('turns away contributions and withdrawals on a cancelled goal', () => {
+    const goal = createGoal(TEST_USER_ID, { name: 'Trip', target_amount: 500, saved_so_far: 100 });
+    getDb().prepare(`UPDATE goal SET status = 'CANCELLED' WHERE id = ?`).run(goal.id);
+
+    expect(contribute(TEST_USER_ID, goal.id, { amount: 5 })!.error).toBe('Goal is cancelled');
+    expect(withdraw(TEST_USER_ID, goal.id, { amount: 5 })!.error).toBe('Goal is cancelled');
+    expect(listContributions(TEST_USER_ID, goal.id)).toHaveLength(1);
+  });
+});
+
+describe('Linked savings account', () => {
+  it('counts transfers into the account after it was linked, and drops removed ones', () => {
+    const checking = createAccount(TEST_USER_ID, { name: 'Checking', type: 'checking' });
+    const savings = createAccount(TEST_USER_ID, { name: 'Savings', type: 'savings' });
+    const goal = createGoal(TEST_USER_ID, { name: 'Emergency fund', target_amount: 1000 });
+
+    expect(linkGoalAccount(TEST_USER_ID, goal.id, checking.id)!.error).toBe('Only a savings account can be linked to a goal');
+    expect(linkGoalAccount(TEST_USER_ID, goal.id, savings.id)!.goal).toMatchObject({ linked_account_id: savings.id, linked_at: '2026-03-10' });
+
+    const before = txn(savings.id, 80, '2026-03-02', 'TRANSFER FROM CHECKING');
+    const inflow = txn(savings.id, 150, '2026-03-10', 'TRANSFER FROM CHECKING');
+    const interest = txn(savings.id, 1.2, '2026-03-10', 'INTEREST', 'Income');
+    ingestTransactions([
+      txn(checking.id, -80, '2026-03-02', 'TRANSFER TO SAVINGS'), before,
+      txn(checking.id, -150, '2026-03-10', 'TRANSFER TO SAVINGS'), inflow,
+      interest,
+    ]);
+
+    expect(matchTransferContributions(TEST_USER_ID)).toBe(1);
+    expect(matchTransferContributions(TEST_USER_ID)).toBe(0);
+    expect(listContributions(TEST_USER_ID, goal.id)).toEqual([
+      expect.objectContaining({ kind: 'transfer', amount: 150, transaction_id: inflow.id }),
+    ]);
+
+    applyTransactionDelta(TEST_USER_ID, { upsert: [], remove: [inflow.provider_txn_id] }, 'webhook');
+    matchTransferContributions(TEST_USER_ID);
+    expect(listContributions(TEST_USER_ID, goal.id)).toEqual([]);
+    expect(goalProgress(TEST_USER_ID, goal.id)!.goal.saved_so_far).toBe(0);
+  });
+
+  it('announces a goal a transfer completes only once the transaction has committed', () => {
+    const checking = createAccount(TEST_USER_ID, { name: 'Checking', type: 'checking' });
+    const savings = createAccount(TEST_USER_ID, { name: 'Savings', type: 'savings' });
+    const goal = createGoal(TEST_USER_ID, { name: 'Emergency fund', target_amount: 150 });
+    linkGoalAccount(TEST_USER_ID, goal.id, savings.id);
+    ingestTransactions([
+      txn(checking.id, -150, '2026-03-10', 'TRANSFER TO SAVINGS'),
+      txn(savings.id, 150, '2026-03-10', 'TRANSFER FROM CHECKING'),
+    ]);
+
+    const inTransaction: boolean[] = [];
+    const stop = subscribeEvents(TEST_USER_ID, e => {
+      if (e.type === 'goal.completed') inTransaction.push(getDb().inTransaction);
+    });
+    matchTransferContributions(TEST_USER_ID);
+    stop();
+
+    expect(inTransaction).toEqual([false]);
+    expect(goalProgress(TEST_USER_ID, goal.id)!.goal.status).toBe('COMPLETED');
+  });
+});
+
+describe('Quest savings', () => {
+  it('allocates what a verified spend-cap quest left unspent, and moves it on request', () => {
+    const soon = createGoal(TEST_USER_ID, { name: 'Concert', target_amount: 300, deadline: '2026-04-01' });
+    const later = createGoal(TEST_USER_ID, { name: 'Laptop', target_amount: 1500 });
+    const checking = createAccount(TEST_USER_ID, { name: 'Checking', type: 'checking' });
+    ingestTransactions([txn(checking.id, -20, '2026-03-03', 'CHIPOTLE', 'Food & Drink')]);
+
+    const questId = uuid();
+    getDb().prepare(`
+      INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+      VALUES (?, ?, 'ACTIVE', 'Keep dining low', '2026-03-02', '2026-03-08', 'CATEGORY_SPEND_CAP', ?, 'bone', 5)
+    `).run(questId, TEST_USER_ID, JSON.stringify({ category: 'Food & Drink', cap: 50 }));
+
+    expect(evaluateQuest(questId).newStatus).toBe('COMPLETED_VERIFIED');
+    expect(listContributions(TEST_USER_ID, soon.id)).toEqual([expect.objectContaining({ kind: 'quest', amount: 30, quest_id: questId })]);
+
+    const moved = contribute(TEST_USER_ID, later.id, { quest_id: questId })!;
+    expect(moved.goal!.saved_so_far).toBe(30);
+    expect(goalProgress(TEST_USER_ID, soon.id)!.goal.saved_so_far).toBe(0);
+    expect(contribute(TEST_USER_ID, later.id, { quest_id: questId })!.error).toBe('The quest\'s savings are already on this goal');
+  });
+});
+
+describe('Progress', () => {
+  it('paces the goal by how fast contributions are coming in', () => {
+    const goal = createGoal(TEST_USER_ID, { name: 'Trip', target_amount: 1200, deadline: '2026-06-08', saved_so_far: 200 });
+    expect(goalProgress(TEST_USER_ID, goal.id)!.progress).toMatchObject({
+      monthly_velocity: 0, projected_completion_date: null, status: 'stalled', monthly_pace_needed: 333.33,
+    });
+
+    contribute(TEST_USER_ID, goal.id, { amount: 100 });
+    expect(goalProgress(TEST_USER_ID, goal.id)!.progress).toMatchObject({
+      monthly_velocity: 100, remaining: 900, projected_completion_date: '2026-12-05', status: 'behind',
+    });
+
+    contribute(TEST_USER_ID, goal.id, { amount: 400 });
+    expect(goalProgress(TEST_USER_ID, goal.id)!.progress).toMatchObject({
+      monthly_velocity: 500, projected_completion_date: '2026-04-09', status: 'on_track', percent_complete: 58,
+    });
+  });
+
+  it('needs no deadline to be on track', () => {
+    const goal = createGoal(TEST_USER_ID, { name: 'Rainy day', target_amount: 1000 });
+    contribute(TEST_USER_ID, goal.id, { amount: 50 });
+    expect(goalProgress(TEST_USER_ID, goal.id)!.progress).toMatchObject({ monthly_pace_needed: null, status: 'on_track' });
+  });
+
+  it('validates goals and contributions', () => {
+    expect(validateGoalInput({ name: 'Trip', target_amount: 500 })).toEqual({});
+    expect(validateGoalInput({ name: 'Trip', target_amount: 500, deadline: 'June' }).error).toContain('YYYY-MM-DD');
+    expect(validateGoalInput({ name: 'Trip', target_amount: 500, saved_so_far: 500 }).error).toContain('less than');
+    expect(validateContributionInput({ amount: -5 }, 'contribution').error).toContain('positive');
+    expect(validateContributionInput({ quest_id: 'q1' }, 'contribution')).toEqual({});
+    expect(validateContributionInput({ quest_id: 'q1' }, 'withdrawal').error).toContain('amount');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import { detectIncomeStreams, estimateMonthlyIncome } from '../src/services/income-detection';
+import { computeHealthMetrics } from '../src/services/health-metrics';
+import { ingestTransactions } from '../src/services/ingestion';
+import { createAccount } from '../src/services/accounts';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+const AS_OF = new Date('2026-03-31T12:00:00Z');
+
+function deposit(date: string, amount: number, name: string, overrides: Partial<Transaction> = {}): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount,
+    currency: 'USD',
+    name,
+    merchant_name: null,
+    category_primary: 'Income',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+    ...overrides,
+  };
+}
+
+function daysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return d.toISOString().split('T')[0];
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+});
+
+describe('detectIncomeStreams', () => {
+  it('detects a biweekly paycheck and its next date', () => {
+    ingestTransactions(['2026-02-06', '2026-02-20', '2026-03-06', '2026-03-20'].map((d, i) =>
+      deposit(d, 1500 + i * 10, 'ACME CORP PAYROLL')
+    ));
+
+    const [stream] = detectIncomeStreams(TEST_USER_ID, 120, AS_OF);
+    expect(stream).toMatchObject({
+      kind: 'paycheck',
+      cadence: 'biweekly',
+      occurrences: 4,
+      last_date: '2026-03-20',
+      next_expected_date: '2026-04-03',
+      typical_amount: 1515,
+    });
+    expect(stream.amount_stddev).toBeGreaterThan(0);
+    expect(stream.monthly_amount).toBeCloseTo(1515 * 26 / 12, 2);
+    expect(stream.confidence).toBe(1);
+  });
+
+  it('tells semimonthly pay apart from biweekly', () => {
+    ingestTransactions(['2026-01-15', '2026-01-30', '2026-02-13', '2026-02-27', '2026-03-13', '2026-03-30'].map(d =>
+      deposit(d, 2100, 'GUSTO DIRECT DEP')
+    ));
+
+    const [stream] = detectIncomeStreams(TEST_USER_ID, 120, AS_OF);
+    expect(stream.cadence).toBe('semimonthly');
+    expect(stream.monthly_amount).toBe(4200);
+    expect(stream.next_expected_date).toBe('2026-04-13');
+  });
+
+  it('detects a monthly stipend', () => {
+    ingestTransactions(['2026-01-01', '2026-02-01', '2026-03-01'].map(d =>
+      deposit(d, 900, 'UNIVERSITY STIPEND', { category_primary: 'Transfer In' })
+    ));
+
+    const [stream] = detectIncomeStreams(TEST_USER_ID, 120, AS_OF);
+    expect(stream).toMatchObject({ kind: 'stipend', cadence: 'monthly', next_expected_date: '2026-04-01', monthly_amount: 900 });
+  });
+
+  it('ignores irregular deposits, small refunds and transfers between own accounts', () => {
+    const checking = createAccount(TEST_USER_ID, { name: 'Checking', type: 'checking' }).id;
+    const savings = createAccount(TEST_USER_ID, { name: 'Savings', type: 'savings' }).id;
+    ingestTransactions([
+      deposit('2026-01-03', 40, 'Venmo', { category_primary: 'Transfer In' }),
+      deposit('2026-02-25', 300, 'Venmo', { category_primary: 'Transfer In' }),
+      ...['2026-01-10', '2026-02-10', '2026-03-10'].map(d => deposit(d, 12, 'Card cashback')),
+      ...['2026-01-05', '2026-02-05', '2026-03-05'].flatMap(d => [
+        deposit(d, 500, 'From savings', { account_id: checking, category_primary: 'Transfer In' }),
+        deposit(d, -500, 'To checking', { account_id: savings, category_primary: 'Transfer Out' }),
+      ]),
+    ]);
+
+    expect(detectIncomeStreams(TEST_USER_ID, 120, AS_OF)).toEqual([]);
+  });
+});
+
+describe('estimateMonthlyIncome', () => {
+  it('falls back to observed deposits when no stream is confident', () => {
+    ingestTransactions([deposit(daysAgo(3), 750, 'Freelance client')]);
+    expect(estimateMonthlyIncome(TEST_USER_ID)).toEqual({ monthly_income: 750, source: 'observed', streams: [] });
+  });
+
+  it('reports no income for a user without deposits', () => {
+    expect(estimateMonthlyIncome(TEST_USER_ID).source).toBe('none');
+  });
+});
+
+describe('health metrics against real income', () => {
+  it('computes the savings rate from detected income and spending', () => {
+    ingestTransactions([
+      ...[28, 14, 0].map(days => deposit(daysAgo(days), 2000, 'ACME PAYROLL')),
+      deposit(daysAgo(2), -2600, 'Rent', { category_primary: 'Rent' }),
+    ]);
+
+    const metrics = computeHealthMetrics(TEST_USER_ID);
+    expect(metrics.incomeSource).toBe('streams');
+    expect(metrics.monthlyIncome).toBe(4333.33);
+    expect(metrics.monthlySpending).toBe(2600);
+    // (4333.33 - 2600) / 4333.33
+    expect(metrics.savingsRate).toBe(40);
+  });
+
+  it('scores zero savings when spending exceeds income', () => {
+    ingestTransactions([
+      deposit(daysAgo(5), 1000, 'Side gig'),
+      deposit(daysAgo(2), -1500, 'Laptop', { category_primary: 'Shopping' }),
+    ]);
+
+    const metrics = computeHealthMetrics(TEST_USER_ID);
+    expect(metrics.incomeSource).toBe('observed');
+    expect(metrics.savingsRate).toBe(0);
+    expect(metrics.budgetAdherence).toBeLessThan(50);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { createTestDb, getDb } from '../src/db/database';
-import { ingestTransactions, getTransactions } from '../src/services/ingestion';
+import { ingestTransactions, getTransactions, applyTransactionDelta, getTransactionAudit } from '../src/services/ingestion';
 import {
   diningSpikesFixture,
   pendingToPostedSubscription,
@@ -75,3 +75,60 @@ describe('Transaction Ingestion', () => {
     expect(refund!.amount).toBe(25.00);
   });
 });
+
+describe('Transaction Delta (upsert/delete)', () => {
+  it('inserts new rows and ignores unchanged ones', () => {
+    const txns = diningSpikesFixture();
+    const first = applyTransactionDelta(TEST_USER_ID, { upsert: txns });
+    expect(first).toMatchObject({ inserted: txns.length, modified: 0, removed: 0 });
+
+    const second = applyTransactionDelta(TEST_USER_ID, { upsert: txns });
+    expect(second).toMatchObject({ inserted: 0, modified: 0, removed: 0, changedDates: [] });
+    expect(getTransactionAudit(TEST_USER_ID)).toEqual([]);
+  });
+
+  it('applies corrections and audits the old values', () => {
+    const [txn] = diningSpikesFixture();
+    applyTransactionDelta(TEST_USER_ID, { upsert: [{ ...txn, metadata: { note: 'lunch' } }] });
+
+    const corrected = { ...txn, amount: -18.75, merchant_name: 'Chipotle Mexican Grill', metadata: { source_ref: 'x' } };
+    const result = applyTransactionDelta(TEST_USER_ID, { upsert: [corrected] }, 'plaid');
+    expect(result).toMatchObject({ inserted: 0, modified: 1, removed: 0, changedDates: [txn.date] });
+
+    const row = getDb().prepare(`SELECT * FROM transaction_ WHERE provider_txn_id = ?`).get(txn.provider_txn_id) as any;
+    expect(row.amount).toBe(-18.75);
+    expect(row.merchant_key).toBe('chipotle mexican grill');
+    // Metadata is merged rather than replaced
+    expect(JSON.parse(row.metadata)).toEqual({ note: 'lunch', source_ref: 'x' });
+
+    const [entry] = getTransactionAudit(TEST_USER_ID, row.id);
+    expect(entry.action).toBe('MODIFIED');
+    expect(entry.source).toBe('plaid');
+    expect(entry.old_values).toMatchObject({ amount: -12.5, merchant_name: 'Chipotle' });
+    expect(entry.new_values).toMatchObject({ amount: -18.75, merchant_name: 'Chipotle Mexican Grill' });
+  });
+
+  it('deletes removed rows, scoped to the user, and keeps them in the audit trail', () => {
+    const [a, b] = diningSpikesFixture();
+    applyTransactionDelta(TEST_USER_ID, { upsert: [a, b] });
+
+    expect(applyTransactionDelta('someone-else', { upsert: [], remove: [a.provider_txn_id!] }).removed).toBe(0);
+
+    const result = applyTransactionDelta(TEST_USER_ID, { upsert: [], remove: [a.provider_txn_id!, 'unknown'] });
+    expect(result).toMatchObject({ removed: 1, changedDates: [a.date] });
+
+    const remaining = (getDb().prepare(`SELECT provider_txn_id FROM transaction_`).all() as any[]).map(r => r.provider_txn_id);
+    expect(remaining).toEqual([b.provider_txn_id]);
+
+    const [entry] = getTransactionAudit(TEST_USER_ID);
+    expect(entry).toMatchObject({ action: 'REMOVED', provider_txn_id: a.provider_txn_id, new_values: null });
+    expect(entry.old_values).toMatchObject({ amount: a.amount, name: a.name });
+  });
+
+  it('reports both dates when a correction moves a transaction', () => {
+    const [txn] = diningSpikesFixture();
+    applyTransactionDelta(TEST_USER_ID, { upsert: [txn] });
+    const result = applyTransactionDelta(TEST_USER_ID, { upsert: [{ ...txn, date: '2020-01-01' }] });
+    expect(result.changedDates).toEqual(['2020-01-01', txn.date]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  enqueueJob,
+  getJob,
+  listJobs,
+  claimDueJobs,
+  completeJob,
+  failJob,
+  retryJob,
+  cancelJob,
+  pruneJobs,
+  retryDelayMs,
+  JobWorker,
+} from '../src/orchestrator/job-queue';
+import { scheduleUserJobs, JOB_TYPES } from '../src/orchestrator/scheduler';
+
+const NY_USER = 'user-new-york';
+const LA_USER = 'user-los-angeles';
+
+function at(iso: string): Date {
+  return new Date(iso);
+}
+
+beforeEach(() => {
+  createTestDb();
+  const db = getDb();
+  db.prepare(`INSERT INTO user_profile (id, timezone) VALUES (?, 'America/New_York')`).run(NY_USER);
+  db.prepare(`INSERT INTO user_profile (id, timezone) VALUES (?, 'America/Los_Angeles')`).run(LA_USER);
+});
+
+describe('Job queue', () => {
+  it('skips a job whose dedupe key is already queued', () => {
+    expect(enqueueJob('daily_digest', { userId: NY_USER, dedupeKey: 'digest:ny:2026-03-10' })).toBeTruthy();
+    expect(enqueueJob('daily_digest', { userId: NY_USER, dedupeKey: 'digest:ny:2026-03-10' })).toBeNull();
+    expect(listJobs({ type: 'daily_digest' })).toHaveLength(1);
+  });
+
+  it('leases due jobs once, oldest first', () => {
+    const now = at('2026-03-10T12:00:00Z');
+    const later = enqueueJob('bank_sync', { userId: NY_USER, runAt: at('2026-03-10T11:30:00Z') });
+    const first = enqueueJob('bank_sync', { userId: LA_USER, runAt: at('2026-03-10T11:00:00Z') });
+    enqueueJob('bank_sync', { userId: LA_USER, runAt: at('2026-03-10T13:00:00Z') });
+
+    const claimed = claimDueJobs('worker-a', 5, now);
+    expect(claimed.map(j => j.id)).toEqual([first, later]);
+    expect(claimed[0]).toMatchObject({ status: 'RUNNING', attempts: 1, lease_owner: 'worker-a' });
+    // The other worker gets nothing: the future job isn't due and the rest are leased
+    expect(claimDueJobs('worker-b', 5, now)).toEqual([]);
+  });
+
+  it('retries failures with backoff, then keeps the job as DEAD', () => {
+    const id = enqueueJob('daily_digest', { userId: NY_USER, maxAttempts: 2 })!;
+    const now = new Date();
+
+    claimDueJobs('worker-a', 1, now);
+    failJob(id, 'worker-a', 'LLM timed out', now);
+    expect(getJob(id)).toMatchObject({ status: 'QUEUED', last_error: 'LLM timed out', lease_owner: null });
+    expect(Date.parse(getJob(id)!.run_at) - now.getTime()).toBe(retryDelayMs(1));
+
+    const retryAt = new Date(now.getTime() + retryDelayMs(1));
+    expect(claimDueJobs('worker-a', 1, retryAt)).toHaveLength(1);
+    failJob(id, 'worker-a', 'LLM timed out again', retryAt);
+    expect(getJob(id)).toMatchObject({ status: 'DEAD', attempts: 2, last_error: 'LLM timed out again' });
+
+    expect(retryJob(NY_USER, id)!.job).toMatchObject({ status: 'QUEUED', attempts: 0 });
+    expect(retryJob(NY_USER, id)!.error).toContain('Only dead or cancelled');
+    expect(cancelJob(NY_USER, id)!.job!.status).toBe('CANCELLED');
+    expect(cancelJob(NY_USER, 'missing')).toBeNull();
+  });
+
+  it('lets only the job\'s own user retry or cancel it', () => {
+    const id = enqueueJob('bank_sync', { userId: NY_USER })!;
+
+    expect(cancelJob(LA_USER, id)).toBeNull();
+    expect(retryJob(LA_USER, id)).toBeNull();
+    expect(listJobs({ user_id: LA_USER })).toEqual([]);
+    expect(getJob(id)!.status).toBe('QUEUED');
+    expect(cancelJob(NY_USER, id)!.job!.status).toBe('CANCELLED');
+  });
+
+  it('requeues a job whose worker stopped renewing its lease', () => {
+    const id = enqueueJob('bank_sync', { userId: NY_USER })!;
+    const now = new Date();
+    claimDueJobs('crashed-worker', 1, now, 1_000);
+
+    const afterLease = new Date(now.getTime() + 2_000);
+    const [reclaimed] = claimDueJobs('worker-b', 1, afterLease);
+    expect(reclaimed).toMatchObject({ id, lease_owner: 'worker-b', attempts: 2 });
+
+    // The first worker's late result doesn't count
+    completeJob(id, 'crashed-worker', { synced: 1 });
+    expect(getJob(id)!.status).toBe('RUNNING');
+    completeJob(id, 'worker-b', { synced: 2 });
+    expect(getJob(id)).toMatchObject({ status: 'SUCCEEDED', result: { synced: 2 } });
+  });
+
+  it('prunes old finished jobs but keeps dead ones', () => {
+    const done = enqueueJob('bank_sync', { userId: NY_USER })!;
+    const dead = enqueueJob('bank_sync', { userId: LA_USER, maxAttempts: 1 })!;
+    const longAgo = at('2026-01-01T00:00:00Z');
+    claimDueJobs('worker-a', 2, new Date());
+    completeJob(done, 'worker-a', null, longAgo);
+    failJob(dead, 'worker-a', 'bank down', longAgo);
+
+    expect(pruneJobs(30, at('2026-03-10T00:00:00Z'))).toBe(1);
+    expect(getJob(done)).toBeNull();
+    expect(getJob(dead)!.status).toBe('DEAD');
+  });
+});
+
+describe('JobWorker', () => {
+  it('runs each user\'s job on its own, within the concurrency limit', async () => {
+    const ran: string[] = [];
+    let active = 0;
+    let maxActive = 0;
+    const worker = new JobWorker({
+      daily_digest: async (job) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        if (job.user_id === NY_USER) throw new Error('Digest failed');
+        ran.push(job.user_id!);
+        return { success: true };
+      },
+    }, { concurrency: 2 });
+
+    const ny = enqueueJob('daily_digest', { userId: NY_USER })!;
+    const la = enqueueJob('daily_digest', { userId: LA_USER })!;
+    const third = enqueueJob('daily_digest', { userId: LA_USER })!;
+    const unknown = enqueueJob('mystery', { maxAttempts: 1 })!;
+
+    expect(await worker.runDue()).toBe(2);
+    expect(maxActive).toBe(2);
+    expect(getJob(ny)).toMatchObject({ status: 'QUEUED', last_error: 'Digest failed' });
+    expect(getJob(la)).toMatchObject({ status: 'SUCCEEDED', result: { success: true } });
+
+    await worker.runDue();
+    expect(getJob(third)!.status).toBe('SUCCEEDED');
+    expect(getJob(unknown)).toMatchObject({ status: 'DEAD', last_error: 'No handler for job type mystery' });
+    expect(ran).toEqual([LA_USER, LA_USER]);
+  });
+});
+
+describe('Scheduler', () => {
+  it('enqueues the digest at 5 AM in each user\'s timezone, once per local day', () => {
+    // 10:00 UTC is 06:00 in New York (EDT) and 03:00 in Los Angeles (PDT)
+    const morning = at('2026-03-10T10:00:00Z');
+    expect(scheduleUserJobs(morning)).toEqual({ digests: 1, syncs: 0 });
+    expect(listJobs({ type: JOB_TYPES.DAILY_DIGEST })[0]).toMatchObject({
+      user_id: NY_USER,
+      dedupe_key: `daily_digest:${NY_USER}:2026-03-10`,
+    });
+
+    expect(scheduleUserJobs(at('2026-03-10T13:00:00Z'))).toEqual({ digests: 1, syncs: 0 });
+    expect(scheduleUserJobs(at('2026-03-10T14:00:00Z'))).toEqual({ digests: 0, syncs: 0 });
+    // 03:00 UTC on the 11th is still the 10th in Los Angeles
+    expect(scheduleUserJobs(at('2026-03-11T03:00:00Z'))).toEqual({ digests: 0, syncs: 0 });
+  });
+
+  it('enqueues a bank sync per user per interval', () => {
+    const options = { syncIntervalMinutes: 30 };
+    expect(scheduleUserJobs(at('2026-03-10T01:05:00Z'), options).syncs).toBe(2);
+    expect(scheduleUserJobs(at('2026-03-10T01:25:00Z'), options).syncs).toBe(0);
+    expect(scheduleUserJobs(at('2026-03-10T01:31:00Z'), options).syncs).toBe(2);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import { PlaidBankDataProvider, PlaidApiError, mapPlaidCategory } from '../src/adapters/plaid-bank';
+import { MockBankDataProvider } from '../src/adapters/mock-bank';
+import { createAdapters } from '../src/adapters';
+import { Orchestrator } from '../src/orchestrator';
+import { AgentRunner, MockLLMProvider } from '../src/agents/runner';
+import { listAccounts } from '../src/services/accounts';
+import { createBudget } from '../src/services/budget';
+import { listBudgetAlerts } from '../src/services/budget-alerts';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { startFakePlaidServer, fakePlaidTransaction, FakePlaidServer } from './fixtures/fake-plaid-server';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+let server: FakePlaidServer;
+let plaid: PlaidBankDataProvider;
+
+beforeAll(async () => {
+  server = await startFakePlaidServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  server.pageSize = 100;
+  plaid = new PlaidBankDataProvider({ clientId: 'client', secret: 'secret', baseUrl: server.baseUrl });
+});
+
+async function linkItem(itemId: string) {
+  const created = server.createItem(itemId);
+  await plaid.exchangePublicToken(TEST_USER_ID, created.publicToken, 'Fake Bank');
+  return created;
+}
+
+function storedTransactions() {
+  return getDb().prepare(
+    `SELECT provider_txn_id, amount, name, pending FROM transaction_ WHERE user_id = ? ORDER BY provider_txn_id`
+  ).all(TEST_USER_ID) as any[];
+}
+
+function syncState(itemId: string) {
+  return getDb().prepare(
+    `SELECT cursor, last_error FROM bank_sync_state WHERE user_id = ? AND provider = ?`
+  ).get(TEST_USER_ID, `plaid:${itemId}`) as { cursor: string | null; last_error: string | null } | undefined;
+}
+
+describe('Plaid Link', () => {
+  it('creates link tokens and stores exchanged items', async () => {
+    const { link_token } = await plaid.createLinkToken(TEST_USER_ID);
+    expect(link_token).toContain(TEST_USER_ID);
+
+    await linkItem('item_link');
+    const items = plaid.listItems(TEST_USER_ID);
+    expect(items).toEqual([expect.objectContaining({ item_id: 'item_link', status: 'ACTIVE', institution_name: 'Fake Bank' })]);
+    // The access token never leaves the backend
+    expect(items[0]).not.toHaveProperty('access_token');
+  });
+
+  it('surfaces Plaid errors with their code', async () => {
+    await expect(plaid.exchangePublicToken(TEST_USER_ID, 'public-bogus')).rejects.toBeInstanceOf(PlaidApiError);
+    await expect(plaid.exchangePublicToken(TEST_USER_ID, 'public-bogus')).rejects.toThrow('INVALID_PUBLIC_TOKEN');
+  });
+});
+
+describe('Plaid /transactions/sync', () => {
+  it('ingests added transactions across pages with the sign flipped', async () => {
+    const { itemId } = await linkItem('item_pages');
+    server.pageSize = 2;
+    server.addTransactions(itemId, [
+      fakePlaidTransaction({ transaction_id: 'p1', amount: 12.5 }),
+      fakePlaidTransaction({ transaction_id: 'p2', amount: -1500, name: 'PAYROLL', personal_finance_category: { primary: 'INCOME', detailed: 'INCOME_WAGES' } }),
+      fakePlaidTransaction({ transaction_id: 'p3', amount: 80, personal_finance_category: { primary: 'FOOD_AND_DRINK', detailed: 'FOOD_AND_DRINK_GROCERIES' } }),
+    ]);
+
+    const result = await plaid.syncTransactions(TEST_USER_ID);
+    expect(result.transactions.length).toBe(3);
+
+    const rows = getDb().prepare(
+      `SELECT provider_txn_id, amount, provider, category_primary FROM transaction_ ORDER BY provider_txn_id`
+    ).all() as any[];
+    expect(rows).toEqual([
+      { provider_txn_id: 'p1', amount: -12.5, provider: 'plaid', category_primary: 'Food & Drink' },
+      { provider_txn_id: 'p2', amount: 1500, provider: 'plaid', category_primary: 'Income' },
+      { provider_txn_id: 'p3', amount: -80, provider: 'plaid', category_primary: 'Groceries' },
+    ]);
+    expect(syncState(itemId)).toEqual({ cursor: '3', last_error: null });
+  });
+
+  it('resumes from the stored cursor and applies modified/removed deltas', async () => {
+    const { itemId } = await linkItem('item_delta');
+    server.addTransactions(itemId, [
+      fakePlaidTransaction({ transaction_id: 'pend_1', amount: 30, pending: true }),
+      fakePlaidTransaction({ transaction_id: 'd2', amount: 9.99, name: 'NETFLIX' }),
+    ]);
+    await plaid.syncTransactions(TEST_USER_ID);
+
+    server.modifyTransaction(itemId, fakePlaidTransaction({ transaction_id: 'd2', amount: 15.49, name: 'NETFLIX.COM' }));
+    server.removeTransaction(itemId, 'pend_1');
+    server.addTransactions(itemId, [fakePlaidTransaction({ transaction_id: 'post_1', amount: 32, pending_transaction_id: 'pend_1' })]);
+
+    const result = await plaid.syncTransactions(TEST_USER_ID);
+    expect(result.removed).toEqual(['pend_1']);
+    // Only the delta since the last cursor was requested
+    const lastSync = server.requests.filter(r => r.path === '/transactions/sync').pop()!;
+    expect(lastSync.body.cursor).toBe('2');
+
+    expect(storedTransactions()).toEqual([
+      { provider_txn_id: 'd2', amount: -15.49, name: 'NETFLIX.COM', pending: 0 },
+      { provider_txn_id: 'post_1', amount: -32, name: 'CHIPOTLE 1234', pending: 0 },
+    ]);
+  });
+
+  it('mirrors Plaid accounts and links transactions to them', async () => {
+    const { itemId } = await linkItem('item_accounts');
+    server.setAccounts(itemId, [
+      { account_id: 'acc_checking', name: 'Checking', mask: '0000', type: 'depository', subtype: 'checking', balances: { current: 1200, iso_currency_code: 'USD' } },
+      { account_id: 'acc_card', name: 'Card', mask: '1111', type: 'credit', subtype: 'credit card', balances: { current: 300, iso_currency_code: 'USD' } },
+    ]);
+    server.addTransactions(itemId, [
+      fakePlaidTransaction({ transaction_id: 'a1', account_id: 'acc_checking', amount: 300, name: 'CARD PAYMENT' }),
+      fakePlaidTransaction({ transaction_id: 'a2', account_id: 'acc_card', amount: -300, name: 'PAYMENT THANK YOU' }),
+    ]);
+
+    await plaid.syncTransactions(TEST_USER_ID);
+
+    const accounts = listAccounts(TEST_USER_ID);
+    expect(accounts.map(a => [a.type, a.mask, a.current_balance, a.institution])).toEqual([
+      ['checking', '0000', 1200, 'Fake Bank'],
+      ['credit_card', '1111', 300, 'Fake Bank'],
+    ]);
+    const rows = getDb().prepare(
+      `SELECT account_id, transfer_group_id FROM transaction_ ORDER BY provider_txn_id`
+    ).all() as any[];
+    expect(rows.map(r => r.account_id)).toEqual(accounts.map(a => a.id));
+    // The card payment is a transfer between the user's own accounts
+    expect(rows[0].transfer_group_id).not.toBeNull();
+    expect(rows[0].transfer_group_id).toBe(rows[1].transfer_group_id);
+  });
+
+  it('restarts pagination when data changes mid-sync', async () => {
+    const { itemId } = await linkItem('item_mutation');
+    server.pageSize = 1;
+    server.addTransactions(itemId, [
+      fakePlaidTransaction({ transaction_id: 'm1' }),
+      fakePlaidTransaction({ transaction_id: 'm2' }),
+    ]);
+    server.failNextPage(itemId);
+
+    await plaid.syncTransactions(TEST_USER_ID);
+    expect(storedTransactions().map(t => t.provider_txn_id)).toEqual(['m1', 'm2']);
+    expect(syncState(itemId)!.cursor).toBe('2');
+  });
+
+  it('flags ITEM_LOGIN_REQUIRED items and keeps syncing the others', async () => {
+    const broken = await linkItem('item_broken');
+    const healthy = await linkItem('item_healthy');
+    server.addTransactions(broken.itemId, [fakePlaidTransaction({ transaction_id: 'b1' })]);
+    server.addTransactions(healthy.itemId, [fakePlaidTransaction({ transaction_id: 'h1' })]);
+    server.requireLogin(broken.itemId);
+
+    await plaid.syncTransactions(TEST_USER_ID);
+    expect(storedTransactions().map(t => t.provider_txn_id)).toEqual(['h1']);
+    expect(plaid.getItem(TEST_USER_ID, broken.itemId)).toMatchObject({ status: 'LOGIN_REQUIRED', error_code: 'ITEM_LOGIN_REQUIRED' });
+    expect(syncState(broken.itemId)!.last_error).toBe('ITEM_LOGIN_REQUIRED');
+
+    // Skipped until the user goes through Link update mode
+    const { link_token } = await plaid.createLinkToken(TEST_USER_ID, broken.itemId);
+    expect(link_token).toContain('-update');
+    server.clearError(broken.itemId);
+    await plaid.syncTransactions(TEST_USER_ID);
+    expect(storedTransactions().map(t => t.provider_txn_id)).toEqual(['h1']);
+
+    plaid.markItemReconnected(TEST_USER_ID, broken.itemId);
+    await plaid.syncTransactions(TEST_USER_ID);
+    expect(storedTransactions().map(t => t.provider_txn_id)).toEqual(['b1', 'h1']);
+    expect(plaid.getItem(TEST_USER_ID, broken.itemId)!.status).toBe('ACTIVE');
+  });
+});
+
+describe('Plaid sync side effects', () => {
+  it('stores a budget alert when a synced charge crosses 80% of the budget', async () => {
+    const adapters = { ...createAdapters(), bank: plaid };
+    const orchestrator = new Orchestrator(adapters, new AgentRunner({ adapters, llmProvider: new MockLLMProvider() }));
+    createBudget(TEST_USER_ID, 'Food & Drink', 100, 'Month');
+    const { itemId } = await linkItem('item_alerts');
+    server.addTransactions(itemId, [fakePlaidTransaction({ amount: 85, date: localDate(DEFAULT_TIMEZONE) })]);
+
+    const result = await orchestrator.syncBank(TEST_USER_ID);
+    // A projected-overspend alert may fire too, depending on the day of the month
+    expect(result.alerts).toEqual(expect.arrayContaining([expect.objectContaining({ type: 'PERCENT_USED', threshold: 80 })]));
+    expect(listBudgetAlerts(TEST_USER_ID).alerts).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'PERCENT_USED', threshold: 80, category: 'Food & Drink' }),
+    ]));
+  });
+});
+
+describe('Plaid mapping and config', () => {
+  it('maps personal finance categories with a legacy fallback', () => {
+    expect(mapPlaidCategory({ personal_finance_category: { primary: 'TRANSPORTATION', detailed: 'TRANSPORTATION_GAS' } })).toBe('Transportation');
+    expect(mapPlaidCategory({ category: ['Shops', 'Clothing'], personal_finance_category: null })).toBe('Shops');
+  });
+
+  it('picks the bank provider from config', () => {
+    const plaidConfig = { clientId: 'c', secret: 's', baseUrl: server.baseUrl };
+    expect(createAdapters({ bankProvider: 'plaid', plaid: plaidConfig }).bank).toBeInstanceOf(PlaidBankDataProvider);
+    expect(createAdapters({ bankProvider: 'nessie', plaid: plaidConfig }).bank).toBeInstanceOf(MockBankDataProvider);
+    expect(createAdapters({ bankProvider: 'plaid', plaid: null }).bank).toBeInstanceOf(MockBankDataProvider);
+  });
+});
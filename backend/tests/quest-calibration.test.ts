@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import { estimateQuestSuccess, calibrateQuest } from '../src/services/quest-calibration';
+import { createQuestChain } from '../src/services/quest-chains';
+import { ingestTransactions } from '../src/services/ingestion';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const today = localDate(DEFAULT_TIMEZONE);
+
+function daysAgo(n: number): string {
+  const d = new Date(`${today}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - n);
+  return d.toISOString().split('T')[0];
+}
+
+function txn(overrides: Partial<Transaction>): Transaction {
+  return makeTransaction({ name: 'Lunch Spot', merchant_name: 'Lunch Spot', ...overrides });
+}
+
+/** A settled quest whose last snapshot says how it ended */
+function pastQuest(status: 'COMPLETED_VERIFIED' | 'FAILED') {
+  const db = getDb();
+  const id = uuid();
+  db.prepare(`
+    INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+    VALUES (?, ?, ?, 'Past', ?, ?, 'CATEGORY_SPEND_CAP', '{"category":"Food & Drink","cap":10}', 'bone', 5)
+  `).run(id, TEST_USER_ID, status, daysAgo(40), daysAgo(40));
+  db.prepare(`INSERT INTO quest_progress_snapshot (id, quest_id, status) VALUES (?, ?, ?)`).run(uuid(), id, status);
+}
+
+const foodCap = (cap: number) => ({ category: 'Food & Drink', cap });
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  // One $10 lunch a day for the last 30 days
+  ingestTransactions(Array.from({ length: 30 }, (_, i) => txn({ date: daysAgo(i + 1) })));
+});
+
+describe('Quest success estimate', () => {
+  it('reads the chance of staying under a cap from the spending history', () => {
+    const atAverage = estimateQuestSuccess(TEST_USER_ID, 'CATEGORY_SPEND_CAP', foodCap(10), 1, today)!;
+    expect(atAverage.probability).toBe(0.5);
+    expect(atAverage.tier).toBe('medium');
+    expect(atAverage.baseline).toMatchObject({ expected_spend: 10, expected_charges: 1, history_days: 30 });
+
+    expect(estimateQuestSuccess(TEST_USER_ID, 'CATEGORY_SPEND_CAP', foodCap(30), 1, today)!.tier).toBe('easy');
+    // A week at $10 a day can't fit under $20 unless no charge comes in at all
+    expect(estimateQuestSuccess(TEST_USER_ID, 'CATEGORY_SPEND_CAP', foodCap(20), 7, today)!.tier).toBe('hard');
+    expect(estimateQuestSuccess(TEST_USER_ID, 'NO_MERCHANT_CHARGE', { merchant_key: 'Lunch Spot' }, 1, today)!.probability)
+      .toBe(0.37);
+  });
+
+  it('leans towards how past quests of the same type actually went', () => {
+    for (let i = 0; i < 5; i++) pastQuest('COMPLETED_VERIFIED');
+    const estimate = estimateQuestSuccess(TEST_USER_ID, 'CATEGORY_SPEND_CAP', foodCap(10), 1, today)!;
+    expect(estimate.history).toEqual({ attempts: 5, passes: 5 });
+    expect(estimate.probability).toBe(0.75);
+  });
+
+  it('has no estimate without history or for metrics it cannot model', () => {
+    expect(estimateQuestSuccess(TEST_USER_ID, 'TRANSFER_AMOUNT', { target_amount: 50 }, 1, today)).toBeNull();
+    expect(estimateQuestSuccess('nobody', 'CATEGORY_SPEND_CAP', foodCap(10), 1, today)).toBeNull();
+  });
+});
+
+describe('Quest calibration', () => {
+  const proposal = {
+    title: 'Keep Food & Drink under $100.00 today',
+    description: 'Stay under $100.00.',
+    metric_type: 'CATEGORY_SPEND_CAP',
+    metric_params: { ...foodCap(100), window: 'daily' },
+    reward_food_type: 'steak' as const,
+    happiness_delta: 10,
+  };
+
+  it('pulls a trivial cap down to the easy target and pays an easy reward', () => {
+    const { quest, estimate } = calibrateQuest(TEST_USER_ID, proposal, 1, undefined, today);
+    expect(quest.metric_params).toEqual({ category: 'Food & Drink', cap: 19, window: 'daily' });
+    expect(quest.title).toBe('Keep Food & Drink under $19.00 today');
+    expect(quest.description).toBe('Stay under $19.00.');
+    expect(quest).toMatchObject({ reward_food_type: 'kibble', happiness_delta: 3 });
+    expect(estimate).toMatchObject({ probability: 0.82, tier: 'easy' });
+  });
+
+  it('fits the cap to a requested tier', () => {
+    const { quest, estimate } = calibrateQuest(TEST_USER_ID, proposal, 1, 'medium', today);
+    expect(quest.metric_params.cap).toBe(13);
+    expect(quest).toMatchObject({ reward_food_type: 'bone', happiness_delta: 5 });
+    expect(estimate!.tier).toBe('medium');
+  });
+
+  it('records the chance on chain quests without moving their caps', () => {
+    const chain = createQuestChain(TEST_USER_ID, {
+      title: 'Lunch Week',
+      steps: [{ title: 'Lunch under $10', metric_type: 'CATEGORY_SPEND_CAP', metric_params: foodCap(10), window_days: 1 }],
+    });
+    const row = getDb().prepare(
+      `SELECT metric_params, success_probability, difficulty FROM quest WHERE id = ?`
+    ).get(chain.steps[0].quest_id) as any;
+    expect(JSON.parse(row.metric_params).cap).toBe(10);
+    expect(row.success_probability).toBeGreaterThan(0);
+    expect(row.difficulty).not.toBeNull();
+  });
+});
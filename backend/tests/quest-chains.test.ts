@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  validateQuestChainInput,
+  createQuestChain,
+  getQuestChain,
+  listQuestChains,
+  abandonQuestChain,
+  QuestChainInput,
+} from '../src/services/quest-chains';
+import { listCampaigns, joinCampaign } from '../src/services/campaigns';
+import { evaluateQuest } from '../src/services/quest-evaluation';
+import { ingestTransactions } from '../src/services/ingestion';
+import { Orchestrator } from '../src/orchestrator';
+import { createAdapters } from '../src/adapters';
+import { AgentRunner, MockLLMProvider } from '../src/agents/runner';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const savingsChain: QuestChainInput = {
+  title: 'Rainy Day Fund',
+  steps: [
+    { title: 'First $50', metric_type: 'TRANSFER_AMOUNT', metric_params: { target_amount: 50 }, window_days: 7 },
+    { title: 'Then $100', metric_type: 'TRANSFER_AMOUNT', metric_params: { target_amount: 100 }, window_days: 7 },
+  ],
+  reward: { food_type: 'truffle', happiness: 10, growth_levels: 1 },
+};
+
+function scottyState() {
+  return getDb().prepare(
+    `SELECT happiness, food_credits, growth_level, last_reward_food FROM scotty_state WHERE user_id = ?`
+  ).get(TEST_USER_ID) as { happiness: number; food_credits: number; growth_level: number; last_reward_food: string };
+}
+
+beforeEach(() => {
+  createTestDb();
+  const db = getDb();
+  db.prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  db.prepare(`INSERT INTO scotty_state (user_id, happiness, mood, food_credits) VALUES (?, 50, 'content', 10)`).run(TEST_USER_ID);
+});
+
+describe('Quest chain input', () => {
+  it('checks steps against the metric registry', () => {
+    expect(validateQuestChainInput({ title: 'x', steps: [] }).error).toContain('steps');
+    expect(validateQuestChainInput({
+      title: 'x',
+      steps: [{ title: 'a', metric_type: 'NO_SPEND_DAYS', metric_params: {}, window_days: 3 }],
+    }).error).toContain('steps[0]: Invalid metric_params for NO_SPEND_DAYS');
+    expect(validateQuestChainInput({ ...savingsChain, reward: { growth_levels: 9 } }).error).toContain('growth_levels');
+    expect(validateQuestChainInput(savingsChain).error).toBeUndefined();
+  });
+});
+
+describe('Quest chains', () => {
+  it('unlocks each step when the one before is verified and pays the chain reward at the end', () => {
+    const chain = createQuestChain(TEST_USER_ID, savingsChain);
+    expect(chain.steps.map(s => s.status)).toEqual(['ACTIVE', 'LOCKED']);
+    expect(chain).toMatchObject({ status: 'ACTIVE', current_step: 0, total_steps: 2, completed_steps: 0 });
+
+    ingestTransactions([makeTransaction({ amount: 120, name: 'Transfer to Savings', category_primary: 'Transfer' })]);
+    evaluateQuest(chain.steps[0].quest_id!);
+
+    const afterFirst = getQuestChain(TEST_USER_ID, chain.id)!;
+    expect(afterFirst).toMatchObject({ status: 'ACTIVE', current_step: 1, completed_steps: 1 });
+    expect(afterFirst.steps[1].status).toBe('ACTIVE');
+    const growthBefore = scottyState().growth_level;
+
+    evaluateQuest(afterFirst.steps[1].quest_id!);
+    expect(getQuestChain(TEST_USER_ID, chain.id)).toMatchObject({ status: 'COMPLETED', completed_steps: 2 });
+    expect(scottyState()).toMatchObject({ growth_level: growthBefore + 1, last_reward_food: 'truffle' });
+  });
+
+  it('ends the chain when the current step fails and lets the user leave an active one', () => {
+    const failing = createQuestChain(TEST_USER_ID, {
+      title: 'Coffee Detox',
+      steps: [
+        { title: 'No Starbucks', metric_type: 'NO_MERCHANT_CHARGE', metric_params: { merchant_key: 'Starbucks' }, window_days: 3 },
+        { title: 'Still none', metric_type: 'NO_MERCHANT_CHARGE', metric_params: { merchant_key: 'Starbucks' }, window_days: 3 },
+      ],
+    });
+    ingestTransactions([makeTransaction({ amount: -6, name: 'Starbucks', merchant_name: 'Starbucks' })]);
+    evaluateQuest(failing.steps[0].quest_id!);
+    expect(getQuestChain(TEST_USER_ID, failing.id)).toMatchObject({ status: 'FAILED', current_step: 0 });
+    expect(abandonQuestChain(TEST_USER_ID, failing.id)).toBe(false);
+
+    const left = createQuestChain(TEST_USER_ID, savingsChain);
+    const questId = left.steps[0].quest_id!;
+    expect(abandonQuestChain('someone-else', left.id)).toBe(false);
+    expect(abandonQuestChain(TEST_USER_ID, left.id)).toBe(true);
+    expect(getDb().prepare('SELECT status FROM quest WHERE id = ?').get(questId)).toEqual({ status: 'ABANDONED' });
+    expect(getQuestChain(TEST_USER_ID, left.id)!.steps[0]).toMatchObject({ quest_id: questId, status: 'ABANDONED' });
+    expect(listQuestChains(TEST_USER_ID).map(c => c.status)).toEqual(['ABANDONED', 'FAILED']);
+  });
+
+  it('turns a goal into a day-by-day chain', async () => {
+    const orchestrator = new Orchestrator(createAdapters(), new AgentRunner({ adapters: createAdapters(), llmProvider: new MockLLMProvider() }));
+    const result = await orchestrator.createGoalQuests(TEST_USER_ID, {
+      title: 'Spend less on food', metric_type: 'CATEGORY_SPEND_CAP', metric_params: { category: 'Food & Drink', cap: 20 }, days: 3,
+    });
+    const chain = getQuestChain(TEST_USER_ID, result.chainId)!;
+    expect(result.queued).toBe(3);
+    expect(chain.steps.map(s => [s.title, s.status])).toEqual([
+      ['Spend less on food - Day 1', 'ACTIVE'],
+      ['Spend less on food - Day 2', 'LOCKED'],
+      ['Spend less on food - Day 3', 'LOCKED'],
+    ]);
+  });
+});
+
+describe('Seasonal campaigns', () => {
+  it('lists each campaign with its current or next run', () => {
+    const campaigns = listCampaigns(TEST_USER_ID, '2027-03-10');
+    expect(campaigns[0]).toMatchObject({
+      id: 'spring-break-saver', running: true, starts_on: '2027-02-15', ends_on: '2027-03-31', total_steps: 4, chain_id: null,
+    });
+    expect(campaigns.find(c => c.id === 'finals-week')).toMatchObject({ running: false, starts_on: '2027-12-01' });
+  });
+
+  it('lets a user join a running campaign once per run', () => {
+    expect(joinCampaign(TEST_USER_ID, 'moon-landing', '2027-03-10')).toBeNull();
+    expect(joinCampaign(TEST_USER_ID, 'finals-week', '2027-03-10')!.error).toContain('starts on 2027-12-01');
+
+    const joined = joinCampaign(TEST_USER_ID, 'spring-break-saver', '2027-03-10')!;
+    expect(joined.chain).toMatchObject({ campaign_id: 'spring-break-saver', ends_at: '2027-03-31', total_steps: 4 });
+    expect(joined.chain!.reward).toEqual({ food_type: 'truffle', happiness: 20, growth_levels: 1 });
+
+    const again = joinCampaign(TEST_USER_ID, 'spring-break-saver', '2027-03-10')!;
+    expect(again.error).toContain('Already joined');
+    expect(listCampaigns(TEST_USER_ID, '2027-03-10')[0].chain_id).toBe(joined.chain!.id);
+  });
+});
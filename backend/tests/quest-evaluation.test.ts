@@ -1,8 +1,19 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { v4 as uuid } from 'uuid';
 import { createTestDb, getDb } from '../src/db/database';
-import { ingestTransactions } from '../src/services/ingestion';
-import { evaluateQuest } from '../src/services/quest-evaluation';
+import { ingestTransactions, applyTransactionDelta } from '../src/services/ingestion';
+import { evaluateQuest, reevaluateQuestsForDates } from '../src/services/quest-evaluation';
+import { createBudget } from '../src/services/budget';
+import { createAccount } from '../src/services/accounts';
+import {
+  listQuestMetrics,
+  getQuestMetric,
+  validateMetricParams,
+  promptParams,
+  metricPromptLines,
+  presentQuest,
+} from '../src/services/quest-metrics';
+import { AgentQuestOutput, MetricType, Transaction } from '../src/schemas';
 import {
   diningSpikesFixture,
   stoppedSubscriptionFixture,
@@ -151,3 +162,212 @@ describe('Quest Progress Snapshots', () => {
     expect(snapshots.length).toBe(2);
   });
 });
+
+describe('Re-evaluation after transaction changes', () => {
+  function insertVerifiedQuest(window: [string, string]) {
+    const questId = uuid();
+    getDb().prepare(`
+      INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+      VALUES (?, ?, 'ACTIVE', 'Light dining week', ?, ?, 'CATEGORY_SPEND_CAP', ?, 'bone', 10)
+    `).run(questId, TEST_USER_ID, window[0], window[1], JSON.stringify({ category: 'Food & Drink', cap: 20 }));
+    expect(evaluateQuest(questId).newStatus).toBe('COMPLETED_VERIFIED');
+    return questId;
+  }
+
+  const lateCharge = {
+    id: uuid(), user_id: TEST_USER_ID, provider: 'plaid', provider_txn_id: 'late-1',
+    date: '2020-01-02', amount: -45, currency: 'USD', name: 'Steakhouse', merchant_name: 'Steakhouse',
+    category_primary: 'Food & Drink', category_detailed: null, pending: false,
+    pending_transaction_id: null, metadata: {},
+  };
+
+  it('revokes a verified quest when a late charge lands in its window', () => {
+    const questId = insertVerifiedQuest(['2020-01-01', '2020-01-03']);
+    const db = getDb();
+    expect((db.prepare('SELECT happiness, food_credits FROM scotty_state').get() as any))
+      .toEqual({ happiness: 80, food_credits: 13 });
+
+    const delta = applyTransactionDelta(TEST_USER_ID, { upsert: [lateCharge] });
+    const [result] = reevaluateQuestsForDates(TEST_USER_ID, delta.changedDates);
+
+    expect(result.questId).toBe(questId);
+    expect(result.previousStatus).toBe('COMPLETED_VERIFIED');
+    expect(result.newStatus).toBe('FAILED');
+    expect(result.rewardRevoked).toBe(true);
+    expect(result.explanation).toContain('revoked');
+    expect((db.prepare('SELECT happiness, food_credits FROM scotty_state').get() as any))
+      .toEqual({ happiness: 70, food_credits: 10 });
+  });
+
+  it('re-verifies when the offending charge is removed', () => {
+    applyTransactionDelta(TEST_USER_ID, { upsert: [lateCharge] });
+    const questId = uuid();
+    getDb().prepare(`
+      INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+      VALUES (?, ?, 'FAILED', 'Light dining week', '2020-01-01', '2020-01-03', 'CATEGORY_SPEND_CAP', ?, 'bone', 10)
+    `).run(questId, TEST_USER_ID, JSON.stringify({ category: 'Food & Drink', cap: 20 }));
+
+    const delta = applyTransactionDelta(TEST_USER_ID, { upsert: [], remove: ['late-1'] });
+    const [result] = reevaluateQuestsForDates(TEST_USER_ID, delta.changedDates);
+    expect(result.newStatus).toBe('COMPLETED_VERIFIED');
+    expect(result.rewardGranted).toBe(true);
+  });
+
+  it('leaves quests outside the changed dates alone', () => {
+    insertVerifiedQuest(['2020-02-01', '2020-02-03']);
+    const delta = applyTransactionDelta(TEST_USER_ID, { upsert: [lateCharge] });
+    expect(reevaluateQuestsForDates(TEST_USER_ID, delta.changedDates)).toEqual([]);
+  });
+});
+
+describe('Streak, count, savings and reduction metrics', () => {
+  function spend(date: string, amount: number, name = 'Cafe', overrides: Partial<Transaction> = {}): Transaction {
+    const id = uuid();
+    return {
+      id, user_id: TEST_USER_ID, provider: 'plaid', provider_txn_id: `ptx_${id}`, date, amount, currency: 'USD',
+      name, merchant_name: name, category_primary: 'Food & Drink', category_detailed: null, pending: false,
+      pending_transaction_id: null, metadata: {}, account_id: null, ...overrides,
+    };
+  }
+
+  function insertQuest(metricType: string, params: Record<string, unknown>, window: [string, string]): string {
+    const questId = uuid();
+    getDb().prepare(`
+      INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+      VALUES (?, ?, 'ACTIVE', 'Quest', ?, ?, ?, ?, 'bone', 5)
+    `).run(questId, TEST_USER_ID, window[0], window[1], metricType, JSON.stringify(params));
+    return questId;
+  }
+
+  it('counts no-spend days, ignoring bills', () => {
+    ingestTransactions([
+      spend('2020-03-01', -5),
+      spend('2020-03-03', -15, 'Netflix', { category_primary: 'Subscription' }),
+    ]);
+    const window: [string, string] = ['2020-03-01', '2020-03-05'];
+
+    const met = evaluateQuest(insertQuest('NO_SPEND_DAYS', { days: 3 }, window));
+    expect(met).toMatchObject({ newStatus: 'COMPLETED_VERIFIED', confirmedValue: 4 });
+
+    const missed = evaluateQuest(insertQuest('NO_SPEND_DAYS', { days: 5 }, window));
+    expect(missed.newStatus).toBe('FAILED');
+    expect(missed.explanation).toContain('Only 4 no-spend day(s)');
+  });
+
+  it('limits the number of purchases at a merchant', () => {
+    ingestTransactions([
+      spend('2020-03-01', -5, 'Starbucks'),
+      spend('2020-03-02', -6, 'Starbucks'),
+      spend('2020-03-04', -5, 'Starbucks #1234'),
+      spend('2020-03-04', -30, 'Chipotle'),
+    ]);
+    const result = evaluateQuest(insertQuest('MAX_TRANSACTION_COUNT', { merchant_key: 'starbucks', max_count: 2 }, ['2020-03-01', '2020-03-07']));
+    expect(result).toMatchObject({ newStatus: 'FAILED', confirmedValue: 3 });
+    expect(result.explanation).toContain('limit: 2');
+  });
+
+  it('tracks a streak under an explicit or budget-derived daily limit', () => {
+    ingestTransactions([
+      spend('2020-03-01', -10),
+      spend('2020-03-02', -30),
+      spend('2020-03-03', -5),
+      spend('2020-03-05', -15),
+      spend('2020-03-06', -50),
+    ]);
+    const window: [string, string] = ['2020-03-01', '2020-03-06'];
+
+    const explicit = evaluateQuest(insertQuest('DAILY_STREAK_UNDER_LIMIT', { days: 3, daily_limit: 20 }, window));
+    expect(explicit).toMatchObject({ newStatus: 'COMPLETED_VERIFIED', confirmedValue: 3 });
+
+    const noBudget = evaluateQuest(insertQuest('DAILY_STREAK_UNDER_LIMIT', { days: 3 }, window));
+    expect(noBudget.newStatus).toBe('EXPIRED');
+
+    createBudget(TEST_USER_ID, 'Food & Drink', 70, 'Week'); // $10/day
+    const derived = evaluateQuest(insertQuest('DAILY_STREAK_UNDER_LIMIT', { days: 3 }, window));
+    expect(derived).toMatchObject({ newStatus: 'FAILED', confirmedValue: 2 });
+    expect(derived.explanation).toContain('$10.00/day');
+  });
+
+  it('adds up deposits into savings accounts, transfers included', () => {
+    const window: [string, string] = ['2020-03-01', '2020-03-07'];
+    expect(evaluateQuest(insertQuest('SAVINGS_DEPOSIT', { target_amount: 100 }, window)).explanation)
+      .toContain('No savings account');
+
+    const savings = createAccount(TEST_USER_ID, { name: 'High Yield', type: 'savings' });
+    ingestTransactions([
+      spend('2020-03-02', 60, 'Transfer from checking', { category_primary: 'Transfer', account_id: savings.id }),
+      spend('2020-03-05', 50, 'Transfer from checking', { category_primary: 'Transfer', account_id: savings.id }),
+      spend('2020-03-05', 500, 'Paycheck', { category_primary: 'Income' }),
+    ]);
+    const result = evaluateQuest(insertQuest('SAVINGS_DEPOSIT', { target_amount: 100 }, window));
+    expect(result).toMatchObject({ newStatus: 'COMPLETED_VERIFIED', confirmedValue: 110 });
+  });
+
+  it('compares a category against last week and pins the baseline', () => {
+    ingestTransactions([
+      spend('2020-02-24', -40),
+      spend('2020-02-28', -30),
+      spend('2020-03-02', -50),
+    ]);
+    const questId = insertQuest('CATEGORY_REDUCTION_PCT', { category: 'Food & Drink', reduction_pct: 20 }, ['2020-03-01', '2020-03-07']);
+    const result = evaluateQuest(questId);
+    expect(result).toMatchObject({ newStatus: 'COMPLETED_VERIFIED', confirmedValue: 50 });
+    expect(result.explanation).toContain('target: $56.00');
+
+    const stored = getDb().prepare('SELECT metric_params FROM quest WHERE id = ?').get(questId) as { metric_params: string };
+    expect(JSON.parse(stored.metric_params).baseline).toBe(70);
+  });
+
+  it('requires the params each metric needs in agent output', () => {
+    const quest = {
+      title: 'No-spend weekend', description: 'Stay home and cook', reward_food_type: 'bone',
+      happiness_delta: 5, window_hours: 48, metric_type: 'NO_SPEND_DAYS',
+    };
+    expect(AgentQuestOutput.safeParse({ ...quest, metric_params: { days: 2 } }).success).toBe(true);
+    const missing = AgentQuestOutput.safeParse({ ...quest, metric_params: {} });
+    expect(missing.success).toBe(false);
+    expect(missing.error!.issues[0].path).toEqual(['metric_params', 'days']);
+  });
+});
+
+describe('Quest metric registry', () => {
+  function insertQuest(metricType: string, params: Record<string, unknown>, status = 'ACTIVE'): string {
+    const questId = uuid();
+    getDb().prepare(`
+      INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+      VALUES (?, ?, ?, 'Quest', '2020-01-01', '2020-01-02', ?, ?, 'bone', 5)
+    `).run(questId, TEST_USER_ID, status, metricType, JSON.stringify(params));
+    return questId;
+  }
+
+  it('drives the metric enum and the prompt from the registered modules', () => {
+    expect(MetricType.options).toEqual(listQuestMetrics().map(m => m.type));
+    expect(getQuestMetric('NO_SPEND_DAYS')!.progressUnit).toBe('days');
+    const categoryReduction = getQuestMetric('CATEGORY_REDUCTION_PCT')!;
+    expect(promptParams(categoryReduction)).toBe('{ "category", "reduction_pct" }');
+    expect(metricPromptLines()).toContain('  - MAX_TRANSACTION_COUNT { "max_count", "category"?, "merchant_key"? }: at most');
+  });
+
+  it('presents progress and goals per metric', () => {
+    expect(presentQuest('MAX_TRANSACTION_COUNT', { max_count: 2, merchant_key: 'Starbucks' }, 1)).toEqual({
+      icon: '🔢',
+      goal: 2,
+      progress_unit: 'purchases',
+      progress_label: '1 of 2 purchase(s)',
+      goal_description: 'Make at most 2 purchase(s) at Starbucks. Bring your own or batch your trips.',
+    });
+    expect(presentQuest('CATEGORY_REDUCTION_PCT', { category: 'Shopping', reduction_pct: 25, baseline: 80 }, 12)!.goal).toBe(60);
+    expect(presentQuest('MOON_LANDING', {}, 0)).toBeNull();
+    expect(validateMetricParams('TRANSFER_AMOUNT', { target_amount: -5 }).error).toContain('target_amount');
+  });
+
+  it('leaves quests with an unknown type or bad params as they are', () => {
+    const unknown = evaluateQuest(insertQuest('MOON_LANDING', {}, 'COMPLETED_VERIFIED'));
+    expect(unknown).toMatchObject({ newStatus: 'COMPLETED_VERIFIED', rewardRevoked: false });
+    expect(unknown.explanation).toContain('Unknown quest type MOON_LANDING');
+
+    const broken = evaluateQuest(insertQuest('CATEGORY_SPEND_CAP', { category: 'Food & Drink' }));
+    expect(broken).toMatchObject({ newStatus: 'ACTIVE', rewardGranted: false });
+    expect(broken.explanation).toContain("don't fit CATEGORY_SPEND_CAP");
+  });
+});
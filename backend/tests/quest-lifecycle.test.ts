@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  offerQuest,
+  openOffer,
+  acceptQuest,
+  declineQuest,
+  pauseQuest,
+  resumeQuest,
+  abandonQuest,
+  rerollsLeft,
+  recentQuestFeedback,
+  REROLLS_PER_WEEK,
+} from '../src/services/quest-lifecycle';
+import { createQuestChain } from '../src/services/quest-chains';
+import { evaluateQuest } from '../src/services/quest-evaluation';
+import { ingestTransactions } from '../src/services/ingestion';
+import { Orchestrator } from '../src/orchestrator';
+import { createAdapters } from '../src/adapters';
+import { AgentRunner, LLMProvider } from '../src/agents/runner';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const today = localDate(DEFAULT_TIMEZONE);
+
+function daysFromToday(n: number): string {
+  const d = new Date(`${today}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().split('T')[0];
+}
+
+function txn(overrides: Partial<Transaction>): Transaction {
+  return makeTransaction({ date: daysFromToday(-1), amount: -30, name: 'Diner', ...overrides });
+}
+
+const foodQuest = {
+  title: 'Keep Food & Drink under $20.00 today',
+  description: 'Cook at home.',
+  metric_type: 'CATEGORY_SPEND_CAP',
+  metric_params: { category: 'Food & Drink', cap: 20 },
+  reward_food_type: 'bone' as const,
+  happiness_delta: 5,
+  window_hours: 24,
+};
+
+/** Records the prompts it's given and answers nothing, so the runner falls back */
+class RecordingProvider implements LLMProvider {
+  prompts: string[] = [];
+  async generate(_system: string, user: string): Promise<string> {
+    this.prompts.push(user);
+    return '';
+  }
+}
+
+function questStatus(id: string): string {
+  return (getDb().prepare('SELECT status FROM quest WHERE id = ?').get(id) as { status: string }).status;
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  ingestTransactions([
+    txn({}),
+    txn({ amount: -50, name: 'Mall', category_primary: 'Shopping' }),
+    txn({ amount: -15, name: 'Cinema', category_primary: 'Entertainment' }),
+  ]);
+});
+
+describe('Quest offers', () => {
+  it('waits for the user to accept before tracking progress', () => {
+    const id = offerQuest(TEST_USER_ID, foodQuest, daysFromToday(-1));
+    expect(openOffer(TEST_USER_ID)!.id).toBe(id);
+    expect(evaluateQuest(id).newStatus).toBe('OFFERED');
+
+    const accepted = acceptQuest(TEST_USER_ID, id)!;
+    expect(accepted.quest).toMatchObject({ status: 'ACTIVE', window_start: today, window_end: daysFromToday(1) });
+    expect(acceptQuest(TEST_USER_ID, id)!.error).toContain('Only offered quests');
+    expect(acceptQuest('someone-else', id)).toBeNull();
+  });
+
+  it('expires offers left unanswered past their window', () => {
+    const id = offerQuest(TEST_USER_ID, foodQuest, daysFromToday(-5));
+    expect(openOffer(TEST_USER_ID)).toBeNull();
+    expect(questStatus(id)).toBe('EXPIRED');
+  });
+
+  it('remembers why a quest was declined and tells the next digest', async () => {
+    const id = offerQuest(TEST_USER_ID, foodQuest);
+    expect(declineQuest(TEST_USER_ID, id, 'I have a dinner party today')!.quest.status).toBe('DECLINED');
+    // The title carries the calibrated cap
+    const [feedback] = recentQuestFeedback(TEST_USER_ID);
+    expect(feedback).toMatch(/^Declined "Keep Food & Drink under \$[\d.]+ today" \(CATEGORY_SPEND_CAP, Food & Drink\): I have a dinner party today$/);
+
+    const provider = new RecordingProvider();
+    const runner = new AgentRunner({ adapters: createAdapters(), llmProvider: provider });
+    const { output } = await runner.generateDailyPayload(TEST_USER_ID);
+    expect(provider.prompts[0]).toContain('I have a dinner party today');
+    // The fallback leaves the declined category alone
+    expect(output.quest!.metric_params.category).toBe('Shopping');
+  });
+
+  it('swaps an offer for another category and counts the weekly rerolls', async () => {
+    const orchestrator = new Orchestrator(createAdapters(), new AgentRunner({ adapters: createAdapters() }));
+    const first = offerQuest(TEST_USER_ID, foodQuest);
+
+    const swapped = (await orchestrator.swapOfferedQuest(TEST_USER_ID, first, 'Too strict'))!;
+    expect(swapped.quest).toMatchObject({ status: 'OFFERED' });
+    expect(JSON.parse(swapped.quest.metric_params).category).toBe('Shopping');
+    expect(questStatus(first)).toBe('DECLINED');
+    expect(rerollsLeft(TEST_USER_ID)).toBe(REROLLS_PER_WEEK - 1);
+    expect(recentQuestFeedback(TEST_USER_ID)[0]).toContain('Swapped out');
+
+    const second = (await orchestrator.swapOfferedQuest(TEST_USER_ID, swapped.quest.id))!;
+    expect(JSON.parse(second.quest.metric_params).category).toBe('Entertainment');
+    // Every spending category has now been turned down
+    expect((await orchestrator.swapOfferedQuest(TEST_USER_ID, second.quest.id))!.error).toContain('No alternative');
+
+    // Use up the last reroll of the week
+    getDb().prepare(`UPDATE quest SET status = 'DECLINED', rerolled_at = ? WHERE id = ?`).run(today, second.quest.id);
+    const fresh = offerQuest(TEST_USER_ID, foodQuest);
+    expect(rerollsLeft(TEST_USER_ID)).toBe(0);
+    expect((await orchestrator.swapOfferedQuest(TEST_USER_ID, fresh))!.error).toContain('No rerolls left');
+  });
+});
+
+describe('Active quest controls', () => {
+  it('pauses, resumes and abandons quests outside chains', () => {
+    const id = offerQuest(TEST_USER_ID, foodQuest, daysFromToday(-1));
+    acceptQuest(TEST_USER_ID, id, daysFromToday(-1));
+
+    expect(pauseQuest(TEST_USER_ID, id)!.quest.status).toBe('PAUSED');
+    expect(evaluateQuest(id).newStatus).toBe('PAUSED');
+    expect(resumeQuest(TEST_USER_ID, id)!.quest).toMatchObject({ status: 'ACTIVE', window_start: today, paused_at: null });
+    expect(abandonQuest(TEST_USER_ID, id)!.quest.status).toBe('ABANDONED');
+    expect(pauseQuest(TEST_USER_ID, id)!.error).toContain("Can't pause");
+
+    const chain = createQuestChain(TEST_USER_ID, {
+      title: 'Two days',
+      steps: [{ title: 'Day 1', metric_type: 'CATEGORY_SPEND_CAP', metric_params: { category: 'Food & Drink', cap: 20 }, window_days: 1 }],
+    });
+    expect(abandonQuest(TEST_USER_ID, chain.steps[0].quest_id!)!.error).toContain('leave the chain');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import { validateSplitsInput, setTransactionSplits, getSplits, categoryAmount } from '../src/services/splits';
+import { ingestTransactions, applyTransactionDelta, getTransactions } from '../src/services/ingestion';
+import { listTransactionStats } from '../src/services/retrieval';
+import { buildFinancialSummary } from '../src/services/financial-summary';
+import { computeProjections, createBudget } from '../src/services/budget';
+import { evaluateQuest } from '../src/services/quest-evaluation';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const today = localDate(DEFAULT_TIMEZONE);
+
+let costco: Transaction;
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  costco = makeTransaction({ provider_txn_id: 'costco', amount: -150, name: 'COSTCO WHSE', category_primary: 'Shopping' });
+  ingestTransactions([
+    costco,
+    makeTransaction({ provider_txn_id: 'shoes', amount: -40, name: 'Shoe Store', category_primary: 'Shopping' }),
+    makeTransaction({ provider_txn_id: 'market', amount: -30, name: 'Farmers Market', category_primary: 'Groceries' }),
+  ]);
+});
+
+function splitCostco() {
+  return setTransactionSplits(TEST_USER_ID, costco.id, [
+    { category: 'Groceries', amount: 90 },
+    { category: 'Shopping', amount: 60, note: 'patio chair' },
+  ]);
+}
+
+describe('Transaction splits', () => {
+  it('validates that splits add up to the parent', () => {
+    expect(validateSplitsInput({ splits: [] }, -150).error).toBeUndefined();
+    expect(validateSplitsInput({ splits: [{ category: 'Groceries', amount: 150 }] }, -150).error).toContain('at least two');
+    expect(validateSplitsInput({ splits: [{ category: 'Groceries', amount: 100 }, { category: '', amount: 50 }] }, -150).error).toContain('category');
+    expect(validateSplitsInput({ splits: [{ category: 'Groceries', amount: 100 }, { category: 'Shopping', amount: 40 }] }, -150).error)
+      .toContain('add up to 140.00');
+    expect(validateSplitsInput({ splits: [{ category: 'Groceries', amount: -90 }, { category: 'Shopping', amount: 60 }] }, -150).error)
+      .toBeUndefined();
+  });
+
+  it('stores splits with the parent sign and replaces them on update', () => {
+    expect(splitCostco()!.map(s => [s.category, s.amount, s.note])).toEqual([
+      ['Groceries', -90, null],
+      ['Shopping', -60, 'patio chair'],
+    ]);
+    expect(setTransactionSplits(TEST_USER_ID, costco.id, [])).toEqual([]);
+    expect(setTransactionSplits('someone-else', costco.id, [])).toBeNull();
+  });
+
+  it('attaches splits to listed transactions and matches category filters on any part', () => {
+    splitCostco();
+    const groceries = getTransactions(TEST_USER_ID, today, today, { category: 'Groceries' });
+    expect(groceries.map(t => t.name).sort()).toEqual(['COSTCO WHSE', 'Farmers Market']);
+
+    const listed = groceries.find(t => t.id === costco.id)!;
+    expect(listed.splits).toHaveLength(2);
+    expect(categoryAmount(listed, 'Groceries')).toBe(-90);
+    expect(groceries.find(t => t.id !== costco.id)!.splits).toBeUndefined();
+  });
+
+  it('rescales splits when the provider corrects the amount and drops them on removal', () => {
+    splitCostco();
+    applyTransactionDelta(TEST_USER_ID, { upsert: [{ ...costco, amount: -165 }] });
+    expect(getSplits(TEST_USER_ID, costco.id).map(s => s.amount)).toEqual([-99, -66]);
+
+    applyTransactionDelta(TEST_USER_ID, { upsert: [], remove: ['costco'] });
+    expect(getDb().prepare(`SELECT COUNT(*) as n FROM transaction_split`).get()).toEqual({ n: 0 });
+  });
+});
+
+describe('Aggregates respect splits', () => {
+  beforeEach(() => {
+    splitCostco();
+  });
+
+  it('splits category stats without double-counting transactions', () => {
+    const stats = listTransactionStats({ user_id: TEST_USER_ID, date_start: today, date_end: today, group_by: 'category' });
+    expect(stats.rows.map(r => [r.group_key, r.total_spend, r.count])).toEqual([
+      ['Groceries', 120, 2],
+      ['Shopping', 100, 2],
+    ]);
+    expect(stats.overall).toEqual({ total_count: 3, total_spend: 220, avg: 73.33 });
+
+    const byMerchant = listTransactionStats({ user_id: TEST_USER_ID, date_start: today, date_end: today, group_by: 'merchant' });
+    expect(byMerchant.rows.find(r => r.group_key === 'costco whse')).toMatchObject({ count: 1, total_spend: 150, avg: 150 });
+  });
+
+  it('splits financial summary categories', () => {
+    const summary = buildFinancialSummary(TEST_USER_ID, today, today);
+    expect(summary.by_category).toEqual({ Groceries: 120, Shopping: 100 });
+    expect(summary.total_spent).toBe(220);
+  });
+
+  it('splits budget projections', () => {
+    createBudget(TEST_USER_ID, 'Shopping', 500, 'Month');
+    createBudget(TEST_USER_ID, 'Food & Drink', 500, 'Month');
+    const { projections } = computeProjections(TEST_USER_ID);
+    expect(projections.map(p => [p.category, p.currentSpent])).toEqual([
+      ['Food & Drink', 120],
+      ['Shopping', 100],
+    ]);
+  });
+
+  it('counts only the matching part toward a category spend cap quest', () => {
+    const questId = uuid();
+    getDb().prepare(`
+      INSERT INTO quest (id, user_id, status, title, window_start, window_end, metric_type, metric_params, reward_food_type, happiness_delta)
+      VALUES (?, ?, 'ACTIVE', 'Groceries under $150', ?, '2099-12-31', 'CATEGORY_SPEND_CAP', ?, 'bone', 5)
+    `).run(questId, TEST_USER_ID, today, JSON.stringify({ category: 'Groceries', cap: 150 }));
+
+    const result = evaluateQuest(questId);
+    expect(result.confirmedValue).toBe(120);
+    expect(result.newStatus).toBe('ACTIVE');
+  });
+});
@@ -62,25 +62,25 @@ describe('validateBudgetInput', () => {
   });
 
   it('rejects invalid category', () => {
-    const result = validateBudgetInput({ user_id: 'u1', category: 'Pets', limit_amount: 100 });
+    const result = validateBudgetInput({ user_id: TEST_USER_ID, category: 'Pets', limit_amount: 100 });
     expect(result.error).toContain('Invalid category');
   });
 
   it('rejects non-positive limit_amount', () => {
-    expect(validateBudgetInput({ user_id: 'u1', category: 'Food & Drink', limit_amount: 0 }).error).toContain('positive');
-    expect(validateBudgetInput({ user_id: 'u1', category: 'Food & Drink', limit_amount: -10 }).error).toContain('positive');
+    expect(validateBudgetInput({ user_id: TEST_USER_ID, category: 'Food & Drink', limit_amount: 0 }).error).toContain('positive');
+    expect(validateBudgetInput({ user_id: TEST_USER_ID, category: 'Food & Drink', limit_amount: -10 }).error).toContain('positive');
   });
 
   it('rejects invalid frequency', () => {
     const result = validateBudgetInput({
-      user_id: 'u1', category: 'Food & Drink', limit_amount: 100, frequency: 'Year',
+      user_id: TEST_USER_ID, category: 'Food & Drink', limit_amount: 100, frequency: 'Year',
     });
     expect(result.error).toContain('frequency');
   });
 
   it('accepts valid input', () => {
     const result = validateBudgetInput({
-      user_id: 'u1', category: 'Food & Drink', limit_amount: 100, frequency: 'Week',
+      user_id: TEST_USER_ID, category: 'Food & Drink', limit_amount: 100, frequency: 'Week',
     });
     expect(result.error).toBeUndefined();
   });
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  detectStatementFormat,
+  previewStatementImport,
+  commitStatementImport,
+  rollbackStatementImport,
+  listStatementImports,
+  listImportedTransactionIds,
+} from '../src/services/statement-import';
+import { createAccount, assignTransactionAccount } from '../src/services/accounts';
+import { getTransactionAudit } from '../src/services/ingestion';
+import { AppEvent, subscribeEvents } from '../src/services/events';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+const CHASE_CSV = [
+  'Transaction Date,Post Date,Description,Category,Type,Amount,Memo',
+  '01/05/2026,01/06/2026,STARBUCKS #1234,Food & Drink,Sale,-5.75,',
+  '01/05/2026,01/06/2026,STARBUCKS #1234,Food & Drink,Sale,-5.75,',
+  '01/07/2026,01/08/2026,"ACME, INC PAYROLL",,Payment,1500.00,',
+  'not-a-date,01/08/2026,Broken row,,Sale,-1.00,',
+].join('\n');
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><BANKID>123<ACCTID>9999<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260110120000[-5:EST]<TRNAMT>-42.10<FITID>A1<NAME>WHOLE FOODS<MEMO>Groceries run</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260111<TRNAMT>200.00<FITID>A2<NAME>TRANSFER IN</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+});
+
+describe('Statement parsing', () => {
+  it('parses quoted CSV fields', () => {
+    const rows = parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n');
+    expect(rows).toEqual([['a', 'b, c', 'say "hi"'], ['1', '2', '3']]);
+  });
+
+  it('maps a Chase export and reports bad rows', () => {
+    const parsed = parseCsvStatement(TEST_USER_ID, CHASE_CSV, 'chase');
+    expect(parsed.transactions.length).toBe(3);
+    expect(parsed.errors).toEqual([{ row: 5, message: expect.stringContaining('date') }]);
+
+    const [first, second, payroll] = parsed.transactions;
+    expect(first.date).toBe('2026-01-05');
+    expect(first.amount).toBe(-5.75);
+    expect(first.category_primary).toBe('Food & Drink');
+    expect(payroll.name).toBe('ACME, INC PAYROLL');
+    expect(payroll.amount).toBe(1500);
+    // Identical same-day rows get distinct but stable ids
+    expect(first.provider_txn_id).not.toBe(second.provider_txn_id);
+    expect(parseCsvStatement(TEST_USER_ID, CHASE_CSV, 'chase').transactions[1].provider_txn_id)
+      .toBe(second.provider_txn_id);
+  });
+
+  it('flips sign for profiles that export charges as positive', () => {
+    const parsed = parseCsvStatement(TEST_USER_ID, 'Date,Description,Amount\n01/02/2026,NETFLIX,15.49', 'amex');
+    expect(parsed.transactions[0].amount).toBe(-15.49);
+  });
+
+  it('uses debit/credit columns', () => {
+    const csv = 'Transaction Date,Posted Date,Card No.,Description,Category,Debit,Credit\n2026-01-03,2026-01-04,1234,SHELL,Gas,40.00,\n2026-01-05,2026-01-05,1234,REFUND,Other,,12.00';
+    const parsed = parseCsvStatement(TEST_USER_ID, csv, 'capital_one');
+    expect(parsed.transactions.map(t => t.amount)).toEqual([-40, 12]);
+  });
+
+  it('rejects CSVs that do not match the profile', () => {
+    expect(() => parseCsvStatement(TEST_USER_ID, 'foo,bar\n1,2', 'chase')).toThrow('Unreadable statement');
+  });
+
+  it('parses SGML OFX using FITID for stable ids', () => {
+    const parsed = parseOfxStatement(TEST_USER_ID, OFX);
+    expect(parsed.transactions.length).toBe(2);
+    expect(parsed.transactions[0]).toMatchObject({ date: '2026-01-10', amount: -42.1, name: 'WHOLE FOODS' });
+    expect(parsed.transactions[0].metadata).toMatchObject({ memo: 'Groceries run' });
+    expect(parsed.transactions[0].provider).toBe('statement_ofx');
+  });
+
+  it('detects format from extension or content', () => {
+    expect(detectStatementFormat('stmt.QFX', '')).toBe('qfx');
+    expect(detectStatementFormat(undefined, OFX)).toBe('ofx');
+    expect(detectStatementFormat(undefined, CHASE_CSV)).toBe('csv');
+  });
+});
+
+describe('Import lifecycle', () => {
+  it('previews without ingesting, then commits', () => {
+    const preview = previewStatementImport(TEST_USER_ID, { filename: 'chase.csv', content: CHASE_CSV, profile: 'chase' });
+    expect(preview.import.status).toBe('PREVIEW');
+    expect(preview.new_transactions.length).toBe(3);
+    expect(preview.errors.length).toBe(1);
+
+    const db = getDb();
+    const countTxns = () => (db.prepare('SELECT COUNT(*) as c FROM transaction_ WHERE user_id = ?').get(TEST_USER_ID) as any).c;
+    expect(countTxns()).toBe(0);
+
+    const committed = commitStatementImport(TEST_USER_ID, preview.import.id);
+    expect(committed!.status).toBe('COMMITTED');
+    expect(committed!.inserted_count).toBe(3);
+    expect(countTxns()).toBe(3);
+    // What the commit route hands to the budget alert check
+    expect(listImportedTransactionIds(TEST_USER_ID, preview.import.id)).toHaveLength(3);
+    expect(listImportedTransactionIds('someone-else', preview.import.id)).toEqual([]);
+  });
+
+  it('pushes the committed rows to clients', () => {
+    const received: AppEvent[] = [];
+    const unsubscribe = subscribeEvents(TEST_USER_ID, event => received.push(event));
+    const preview = previewStatementImport(TEST_USER_ID, { content: OFX });
+    expect(received).toEqual([]);
+
+    commitStatementImport(TEST_USER_ID, preview.import.id);
+    unsubscribe();
+    expect(received.map(e => e.type)).toEqual(['transaction.ingested']);
+    expect(received[0].data).toMatchObject({
+      inserted: 2,
+      removed_ids: [],
+      transactions: [expect.objectContaining({ name: 'WHOLE FOODS' }), expect.objectContaining({ name: 'TRANSFER IN' })],
+    });
+  });
+
+  it('treats re-importing the same file as a no-op', () => {
+    const first = previewStatementImport(TEST_USER_ID, { content: OFX, filename: 'a.ofx' });
+    commitStatementImport(TEST_USER_ID, first.import.id);
+
+    const second = previewStatementImport(TEST_USER_ID, { content: OFX, filename: 'a.ofx' });
+    expect(second.new_transactions.length).toBe(0);
+    expect(second.duplicates.length).toBe(2);
+    expect(commitStatementImport(TEST_USER_ID, second.import.id)!.inserted_count).toBe(0);
+  });
+
+  it('flags rows matching transactions from another provider', () => {
+    getDb().prepare(`
+      INSERT INTO transaction_ (id, user_id, provider, provider_txn_id, date, amount, name, pending)
+      VALUES ('bank-1', ?, 'plaid', 'plaid-1', '2026-01-10', -42.10, 'Whole Foods Market', 0)
+    `).run(TEST_USER_ID);
+
+    const preview = previewStatementImport(TEST_USER_ID, { content: OFX });
+    expect(preview.possible_duplicates).toEqual([
+      { transaction: expect.objectContaining({ name: 'WHOLE FOODS' }), existing_id: 'bank-1' },
+    ]);
+  });
+
+  it('rolls back only the rows the import inserted', () => {
+    getDb().prepare(`
+      INSERT INTO transaction_ (id, user_id, provider, provider_txn_id, date, amount, name, pending)
+      VALUES ('keep-me', ?, 'plaid', 'plaid-keep', '2026-01-01', -10, 'Other', 0)
+    `).run(TEST_USER_ID);
+
+    const preview = previewStatementImport(TEST_USER_ID, { content: OFX });
+    commitStatementImport(TEST_USER_ID, preview.import.id);
+    const rolledBack = rollbackStatementImport(TEST_USER_ID, preview.import.id);
+
+    expect(rolledBack!.status).toBe('ROLLED_BACK');
+    const ids = (getDb().prepare('SELECT id FROM transaction_').all() as any[]).map(r => r.id);
+    expect(ids).toEqual(['keep-me']);
+    expect(() => commitStatementImport(TEST_USER_ID, preview.import.id)).toThrow('not PREVIEW');
+  });
+
+  it('releases the other leg of a transfer when rolling back, and audits the removal', () => {
+    const checking = createAccount(TEST_USER_ID, { name: 'Checking', type: 'checking' });
+    const savings = createAccount(TEST_USER_ID, { name: 'Savings', type: 'savings' });
+    getDb().prepare(`
+      INSERT INTO transaction_ (id, user_id, provider, provider_txn_id, date, amount, name, pending, account_id)
+      VALUES ('out-leg', ?, 'plaid', 'plaid-out', '2026-01-11', -200, 'TRANSFER TO SAVINGS', 0, ?)
+    `).run(TEST_USER_ID, checking.id);
+
+    const preview = previewStatementImport(TEST_USER_ID, { content: OFX });
+    commitStatementImport(TEST_USER_ID, preview.import.id);
+    const inLeg = getDb().prepare(`SELECT id FROM transaction_ WHERE name = 'TRANSFER IN'`).get() as { id: string };
+    assignTransactionAccount(TEST_USER_ID, inLeg.id, savings.id);
+    const transferGroup = () => (getDb().prepare(`SELECT transfer_group_id FROM transaction_ WHERE id = 'out-leg'`).get() as any).transfer_group_id;
+    expect(transferGroup()).not.toBeNull();
+
+    rollbackStatementImport(TEST_USER_ID, preview.import.id);
+    expect(transferGroup()).toBeNull();
+    expect(getTransactionAudit(TEST_USER_ID, inLeg.id)).toEqual([
+      expect.objectContaining({ action: 'REMOVED', source: 'statement_import' }),
+    ]);
+  });
+
+  it('scopes imports to their owner', () => {
+    const preview = previewStatementImport(TEST_USER_ID, { content: OFX });
+    expect(commitStatementImport('someone-else', preview.import.id)).toBeNull();
+    expect(listStatementImports(TEST_USER_ID).length).toBe(1);
+    expect(listStatementImports('someone-else').length).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  detectRecurringCandidates,
+  upsertRecurringCandidates,
+  getUpcomingSubscriptions,
+  getSubscriptionHeadsUps,
+} from '../src/services/subscription-analysis';
+import { detectAnomalies } from '../src/services/retrieval';
+import { ingestTransactions } from '../src/services/ingestion';
+import { AppEvent, subscribeEvents } from '../src/services/events';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+function charge(merchant: string, amount: number, date: string): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount: -amount,
+    currency: 'USD',
+    name: merchant.toUpperCase(),
+    merchant_name: merchant,
+    category_primary: 'Entertainment',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+  };
+}
+
+function detect(merchant: string) {
+  return detectRecurringCandidates(TEST_USER_ID).find(c => c.merchant_key === merchant);
+}
+
+let events: AppEvent[];
+let unsubscribe: () => void;
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  vi.useFakeTimers();
+  // Midday in New York
+  vi.setSystemTime(new Date('2026-03-10T17:00:00Z'));
+  events = [];
+  unsubscribe = subscribeEvents(TEST_USER_ID, e => { events.push(e); });
+});
+
+afterEach(() => {
+  unsubscribe();
+  vi.useRealTimers();
+});
+
+describe('Price changes', () => {
+  beforeEach(() => {
+    ingestTransactions([
+      charge('Netflix', 15.49, '2025-12-05'),
+      charge('Netflix', 15.49, '2026-01-05'),
+      charge('Netflix', 15.49, '2026-02-05'),
+      charge('Netflix', 17.99, '2026-03-05'),
+    ]);
+  });
+
+  it('keeps detecting a subscription after a price hike, at the new price', () => {
+    const netflix = detect('netflix')!;
+    expect(netflix).toMatchObject({ typical_amount: 17.99, cadence: 'monthly', next_expected_date: '2026-04-05' });
+    expect(netflix.price_history.map(p => [p.amount, p.since])).toEqual([[15.49, '2025-12-05'], [17.99, '2026-03-05']]);
+  });
+
+  it('announces the change once and keeps the subscription\'s id', () => {
+    upsertRecurringCandidates(detectRecurringCandidates(TEST_USER_ID));
+    const [row] = getDb().prepare(`SELECT id FROM recurring_candidate WHERE user_id = ?`).all(TEST_USER_ID) as any[];
+    upsertRecurringCandidates(detectRecurringCandidates(TEST_USER_ID));
+
+    const changes = events.filter(e => e.type === 'subscription.price_changed');
+    expect(changes).toHaveLength(1);
+    expect(changes[0].data).toMatchObject({
+      id: row.id, previous_amount: 15.49, amount: 17.99, effective_date: '2026-03-05', message: 'Netflix went from $15.49 to $17.99',
+    });
+    expect(getDb().prepare(`SELECT id FROM recurring_candidate WHERE user_id = ?`).all(TEST_USER_ID)).toEqual([row]);
+  });
+
+  it('reports the hike as a subscription jump', () => {
+    upsertRecurringCandidates(detectRecurringCandidates(TEST_USER_ID));
+    const [jump] = detectAnomalies({ user_id: TEST_USER_ID, anomaly_types: ['subscription_jump'] }).anomalies;
+    expect(jump.explanation_short).toBe('Netflix went from $15.49 to $17.99 (+16%)');
+    expect(jump.computed_metrics).toMatchObject({ previous_amount: 15.49, latest_amount: 17.99 });
+  });
+});
+
+describe('Free trials', () => {
+  it('follows a $1 trial into its paid charges', () => {
+    ingestTransactions([charge('Spotify', 1, '2026-01-08'), charge('Spotify', 11.99, '2026-02-08')]);
+    expect(detect('spotify')).toMatchObject({
+      typical_amount: 11.99,
+      next_expected_date: '2026-03-08',
+      trial: { amount: 1, charged_on: '2026-01-08', converted_on: '2026-02-08' },
+    });
+
+    upsertRecurringCandidates(detectRecurringCandidates(TEST_USER_ID));
+    expect(events.find(e => e.type === 'subscription.price_changed')!.data).toMatchObject({
+      trial_converted: true, previous_amount: 1, amount: 11.99,
+    });
+  });
+
+  it('flags a $0 trial that hasn\'t converted yet', () => {
+    ingestTransactions([charge('Hulu', 0, '2026-03-01')]);
+    upsertRecurringCandidates(detectRecurringCandidates(TEST_USER_ID));
+
+    const { trials } = getSubscriptionHeadsUps(TEST_USER_ID);
+    expect(trials).toHaveLength(1);
+    expect(trials[0]).toMatchObject({ merchant_key: 'hulu', next_expected_date: '2026-03-31', trial: { converted_on: null } });
+
+    vi.setSystemTime(new Date('2026-04-02T17:00:00Z'));
+    expect(getUpcomingSubscriptions(TEST_USER_ID)).toEqual([]);
+  });
+});
+
+describe('Renewals', () => {
+  it('gives a heads-up for annual and quarterly renewals due within 30 days', () => {
+    ingestTransactions([
+      charge('Amazon Prime', 139, '2024-03-28'),
+      charge('Amazon Prime', 139, '2025-03-28'),
+      charge('Costco Quarterly', 45, '2025-09-15'),
+      charge('Costco Quarterly', 45, '2025-12-15'),
+    ]);
+    upsertRecurringCandidates(detectRecurringCandidates(TEST_USER_ID));
+
+    const { renewals } = getSubscriptionHeadsUps(TEST_USER_ID);
+    expect(renewals.map(r => [r.merchant_key, r.cadence, r.next_expected_date])).toEqual([
+      ['costco quarterly', 'quarterly', '2026-03-15'],
+      ['amazon prime', 'annual', '2026-03-28'],
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  cancelSubscription,
+  keepSubscription,
+  listCancellations,
+  verifyCancellations,
+} from '../src/services/subscription-cancellation';
+import { getUpcomingSubscriptions } from '../src/services/subscription-analysis';
+import { computeHealthMetrics } from '../src/services/health-metrics';
+import { ingestTransactions } from '../src/services/ingestion';
+import { MockCancellationProvider } from '../src/adapters/mock-cancellation';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID } from './fixtures/transactions';
+
+const provider = new MockCancellationProvider();
+
+function addRecurring(merchantKey: string, amount: number, nextDate = '2026-03-20'): string {
+  const id = uuid();
+  getDb().prepare(`
+    INSERT INTO recurring_candidate (id, user_id, merchant_key, typical_amount, cadence, next_expected_date, confidence)
+    VALUES (?, ?, ?, ?, 'monthly', ?, 0.9)
+  `).run(id, TEST_USER_ID, merchantKey, amount, nextDate);
+  return id;
+}
+
+function charge(merchant: string, amount: number, date: string): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: TEST_USER_ID,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount,
+    currency: 'USD',
+    name: merchant.toUpperCase(),
+    merchant_name: merchant,
+    category_primary: 'Entertainment',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+  };
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+  vi.useFakeTimers();
+  // Midday in New York
+  vi.setSystemTime(new Date('2026-03-10T17:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Mock cancellation provider', () => {
+  it('cancels, asks for manual steps, or fails depending on the merchant', async () => {
+    const netflix = await provider.initiateCancel(TEST_USER_ID, 'Netflix');
+    expect(netflix).toMatchObject({ success: true, confirmationId: expect.stringMatching(/^mock_cancel_/) });
+    expect(netflix.needsManualSteps).toBeUndefined();
+
+    const gym = await provider.initiateCancel(TEST_USER_ID, 'PLANET FITNESS #123');
+    expect(gym).toMatchObject({ success: true, needsManualSteps: true });
+    expect(gym.instructions!.length).toBeGreaterThan(0);
+
+    expect((await provider.initiateCancel(TEST_USER_ID, 'Xfinity')).success).toBe(false);
+    expect(await provider.initiateCancel(TEST_USER_ID, 'Corner Bakery Club')).toMatchObject({
+      success: true, needsManualSteps: true,
+    });
+  });
+});
+
+describe('Cancelling a subscription', () => {
+  it('confirms once the next charge is missed, crediting a goal and the savings rate', async () => {
+    const goalId = uuid();
+    getDb().prepare(`INSERT INTO goal (id, user_id, name, target_amount, deadline) VALUES (?, ?, 'Trip', 500, '2026-06-01')`)
+      .run(goalId, TEST_USER_ID);
+    const candidateId = addRecurring('netflix', 15.49);
+
+    const { cancellation } = (await cancelSubscription(TEST_USER_ID, candidateId, provider))!;
+    expect(cancellation).toMatchObject({
+      status: 'CANCELLING', method: 'provider', watch_from: '2026-03-10', expected_date: '2026-03-20', verify_by: '2026-03-23',
+    });
+    expect((await cancelSubscription(TEST_USER_ID, candidateId, provider))!.error).toContain('already being cancelled');
+
+    expect(verifyCancellations(new Date('2026-03-23T17:00:00Z'))).toEqual([]);
+    const [confirmed] = verifyCancellations(new Date('2026-03-24T17:00:00Z'));
+    expect(confirmed).toMatchObject({ status: 'CONFIRMED', credited_goal_id: goalId, monthly_amount: 15.49 });
+
+    expect(getDb().prepare(`SELECT saved_so_far FROM goal WHERE id = ?`).get(goalId)).toEqual({ saved_so_far: 15.49 });
+    expect(getUpcomingSubscriptions(TEST_USER_ID).map(s => s.merchant_key)).not.toContain('netflix');
+    expect(computeHealthMetrics(TEST_USER_ID).subscriptionSavings).toBe(15.49);
+  });
+
+  it('flags a charge that still comes through, and lets the user keep it', async () => {
+    const candidateId = addRecurring('spotify', 10.99);
+    const { cancellation } = (await cancelSubscription(TEST_USER_ID, candidateId, null))!;
+    expect(cancellation!.method).toBe('self');
+
+    ingestTransactions([charge('Spotify', -10.99, '2026-03-20')]);
+    const [flagged] = verifyCancellations(new Date('2026-03-20T17:00:00Z'));
+    expect(flagged).toMatchObject({ status: 'STILL_CHARGING', charge_transaction_id: expect.any(String) });
+
+    expect(keepSubscription(TEST_USER_ID, cancellation!.id)!.cancellation!.status).toBe('KEPT');
+    expect(keepSubscription(TEST_USER_ID, cancellation!.id)!.error).toContain('KEPT');
+    expect(keepSubscription(TEST_USER_ID, 'missing')).toBeNull();
+  });
+
+  it('records a provider failure without watching for the charge', async () => {
+    const candidateId = addRecurring('xfinity', 89.99);
+    const attempt = (await cancelSubscription(TEST_USER_ID, candidateId, provider))!;
+    expect(attempt.error).toContain('Couldn\'t reach Xfinity');
+    expect(attempt.cancellation!.status).toBe('FAILED');
+    expect(listCancellations(TEST_USER_ID, ['CANCELLING'])).toEqual([]);
+
+    expect(await cancelSubscription(TEST_USER_ID, 'missing', provider)).toBeNull();
+    expect((await cancelSubscription(TEST_USER_ID, candidateId, null, { method: 'provider' }))!.error)
+      .toContain('No cancellation provider');
+  });
+});
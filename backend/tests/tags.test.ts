@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  normalizeTag,
+  validateTagsInput,
+  validateNoteInput,
+  setTransactionTags,
+  removeTransactionTag,
+  setTransactionNote,
+  listTags,
+  renameTag,
+  deleteTag,
+} from '../src/services/tags';
+import { createRule, validateRuleInput } from '../src/services/categorization-rules';
+import { ingestTransactions, applyTransactionDelta } from '../src/services/ingestion';
+import { searchTransactions, listTransactionStats, getTransactionById } from '../src/services/retrieval';
+import { setTransactionSplits } from '../src/services/splits';
+import { createAdapters } from '../src/adapters';
+import { AgentRunner, MockLLMProvider } from '../src/agents/runner';
+import { DEFAULT_TIMEZONE, localDate } from '../src/services/user-clock';
+import { Transaction } from '../src/schemas';
+import { TEST_USER_ID, makeTransaction } from './fixtures/transactions';
+
+const today = localDate(DEFAULT_TIMEZONE);
+
+function seedTrip(): { hotel: Transaction; dinner: Transaction; lunch: Transaction } {
+  const hotel = makeTransaction({ amount: -300, name: 'Marriott', category_primary: 'Travel' });
+  const dinner = makeTransaction({ amount: -80, name: 'Katz Deli' });
+  const lunch = makeTransaction({ amount: -12, name: 'Chipotle' });
+  ingestTransactions([hotel, dinner, lunch]);
+  setTransactionTags(TEST_USER_ID, hotel.id, ['#trip-nyc', 'reimbursable']);
+  setTransactionTags(TEST_USER_ID, dinner.id, ['Trip-NYC']);
+  return { hotel, dinner, lunch };
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id) VALUES (?)`).run(TEST_USER_ID);
+});
+
+describe('Tag and note input', () => {
+  it('normalizes tags and rejects unusable ones', () => {
+    expect(normalizeTag('#Trip NYC')).toBe('trip-nyc');
+    expect(normalizeTag('##')).toBeNull();
+    expect(normalizeTag('a/b')).toBeNull();
+    expect(validateTagsInput({ tags: ['ok', 'not ok!'] }).error).toContain('not ok!');
+    expect(validateTagsInput({ tags: Array.from({ length: 11 }, (_, i) => `t${i}`) }).error).toContain('at most 10');
+    expect(validateNoteInput({}).error).toContain('note required');
+    expect(validateNoteInput({ note: null }).error).toBeUndefined();
+    expect(validateRuleInput({ match_merchant_key: 'uber', add_tag: '!!' }).error).toContain('add_tag');
+  });
+});
+
+describe('Tagging transactions', () => {
+  it('stores tags and notes in metadata and keeps them across provider updates', () => {
+    const { hotel } = seedTrip();
+    expect(setTransactionNote(TEST_USER_ID, hotel.id, '  Expense to client  ')).toEqual({ note: 'Expense to client' });
+    expect(setTransactionTags('someone-else', hotel.id, ['x'])).toBeNull();
+
+    applyTransactionDelta(TEST_USER_ID, { upsert: [{ ...hotel, amount: -310 }] });
+    const detail = getTransactionById(TEST_USER_ID, hotel.id)!;
+    expect(detail.amount).toBe(-310);
+    expect(detail.tags).toEqual(['trip-nyc', 'reimbursable']);
+    expect(detail.note).toBe('Expense to client');
+
+    expect(removeTransactionTag(TEST_USER_ID, hotel.id, '#Reimbursable')).toEqual(['trip-nyc']);
+    expect(setTransactionNote(TEST_USER_ID, hotel.id, '')).toEqual({ note: null });
+    expect(getTransactionById(TEST_USER_ID, hotel.id)!.metadata).not.toHaveProperty('note');
+  });
+
+  it('lists, renames and deletes tags across transactions', () => {
+    const { hotel, dinner } = seedTrip();
+    expect(listTags(TEST_USER_ID)).toEqual([
+      { tag: 'trip-nyc', count: 2, total_spend: 380, last_used: today },
+      { tag: 'reimbursable', count: 1, total_spend: 300, last_used: today },
+    ]);
+
+    expect(renameTag(TEST_USER_ID, 'reimbursable', 'trip-nyc')).toBe(1);
+    expect(getTransactionById(TEST_USER_ID, hotel.id)!.tags).toEqual(['trip-nyc']);
+    expect(deleteTag(TEST_USER_ID, '#trip-nyc')).toBe(2);
+    expect(getTransactionById(TEST_USER_ID, dinner.id)!.tags).toEqual([]);
+    expect(listTags(TEST_USER_ID)).toEqual([]);
+  });
+
+  it('normalizes tags added by rules', () => {
+    createRule(TEST_USER_ID, { match_merchant_key: 'uber', add_tag: '#Work Travel' });
+    ingestTransactions([makeTransaction({ name: 'Uber', merchant_name: 'Uber' })]);
+    expect(listTags(TEST_USER_ID).map(t => t.tag)).toEqual(['work-travel']);
+  });
+});
+
+describe('Tag filters and stats', () => {
+  it('filters searches by tag, #tag in the query text and note text', () => {
+    const { hotel, dinner } = seedTrip();
+    setTransactionNote(TEST_USER_ID, dinner.id, 'pastrami with Sam');
+
+    const tagged = searchTransactions({ user_id: TEST_USER_ID, tags: ['#trip-nyc'] });
+    expect(tagged.transactions.map(t => t.id).sort()).toEqual([hotel.id, dinner.id].sort());
+    expect(tagged.summary.total).toBe(380);
+
+    const both = searchTransactions({ user_id: TEST_USER_ID, query_text: '#trip-nyc #reimbursable' });
+    expect(both.transactions.map(t => t.id)).toEqual([hotel.id]);
+    expect(both.transactions[0].tags).toEqual(['trip-nyc', 'reimbursable']);
+
+    expect(searchTransactions({ user_id: TEST_USER_ID, query_text: 'pastrami' }).transactions.map(t => t.id))
+      .toEqual([dinner.id]);
+  });
+
+  it('groups spending by tag and narrows stats to one tag', () => {
+    const { dinner } = seedTrip();
+    setTransactionSplits(TEST_USER_ID, dinner.id, [
+      { category: 'Food & Drink', amount: -50 },
+      { category: 'Entertainment', amount: -30 },
+    ]);
+
+    const byTag = listTransactionStats({ user_id: TEST_USER_ID, date_start: today, date_end: today, group_by: 'tag' });
+    expect(byTag.rows.map(r => [r.group_key, r.count, r.total_spend])).toEqual([
+      ['trip-nyc', 2, 380],
+      ['reimbursable', 1, 300],
+    ]);
+    expect(byTag.overall.total_spend).toBe(392);
+
+    const trip = listTransactionStats({
+      user_id: TEST_USER_ID, date_start: today, date_end: today, group_by: 'category', tag: '#trip-nyc',
+    });
+    expect(trip.rows.map(r => [r.group_key, r.total_spend])).toEqual([
+      ['Travel', 300], ['Food & Drink', 50], ['Entertainment', 30],
+    ]);
+    expect(trip.overall).toMatchObject({ total_count: 2, total_spend: 380 });
+  });
+
+  it('answers "how much did I spend on #tag" in chat', async () => {
+    seedTrip();
+    const runner = new AgentRunner({ adapters: createAdapters(), llmProvider: new MockLLMProvider() });
+    const { output } = await runner.generateChatResponse(TEST_USER_ID, 'How much did I spend on #trip-nyc?');
+    expect(output.message).toContain('$380.00 across 2 transaction(s) tagged #trip-nyc');
+    expect(output.message).toContain('Travel $300.00');
+  });
+});
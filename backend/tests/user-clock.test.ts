@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { v4 as uuid } from 'uuid';
+import { createTestDb, getDb } from '../src/db/database';
+import {
+  localClock,
+  userToday,
+  addDays,
+  daysBetween,
+  startOfWeek,
+  daysInMonth,
+  isValidTimezone,
+} from '../src/services/user-clock';
+import { createBudget, computeDerivedDailyLimit, computeProjections } from '../src/services/budget';
+import { todaySpend } from '../src/services/financial-summary';
+import { ingestTransactions } from '../src/services/ingestion';
+import { evaluateQuest } from '../src/services/quest-evaluation';
+import { offerQuest, acceptQuest } from '../src/services/quest-lifecycle';
+import { Transaction } from '../src/schemas';
+
+const LA_USER = 'user-los-angeles';
+
+function txn(date: string, amount: number): Transaction {
+  const id = uuid();
+  return {
+    id,
+    user_id: LA_USER,
+    provider: 'plaid',
+    provider_txn_id: `ptx_${id}`,
+    date,
+    amount,
+    currency: 'USD',
+    name: 'Taqueria',
+    merchant_name: null,
+    category_primary: 'Food & Drink',
+    category_detailed: null,
+    pending: false,
+    pending_transaction_id: null,
+    metadata: {},
+    account_id: null,
+  };
+}
+
+beforeEach(() => {
+  createTestDb();
+  getDb().prepare(`INSERT INTO user_profile (id, timezone) VALUES (?, 'America/Los_Angeles')`).run(LA_USER);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('Local clock', () => {
+  it('follows the zone across daylight saving changes', () => {
+    // New York springs forward on 2026-03-08: 10:00 UTC is 05:00 before, 06:00 after
+    expect(localClock('America/New_York', new Date('2026-03-07T10:00:00Z'))).toEqual({ date: '2026-03-07', hour: 5, minute: 0 });
+    expect(localClock('America/New_York', new Date('2026-03-09T10:00:00Z'))).toMatchObject({ date: '2026-03-09', hour: 6 });
+    // ...and falls back on 2026-11-01
+    expect(localClock('America/New_York', new Date('2026-11-02T04:30:00Z'))).toMatchObject({ date: '2026-11-01', hour: 23 });
+    expect(localClock('Mars/Olympus_Mons', new Date('2026-03-07T10:00:00Z'))).toMatchObject({ date: '2026-03-07', hour: 10 });
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('does date arithmetic by calendar day, whatever the offset', () => {
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09');
+    expect(daysBetween('2026-03-01', '2026-04-01')).toBe(31);
+    expect(daysBetween('2026-11-02', '2026-11-01')).toBe(-1);
+    expect(startOfWeek('2026-03-11')).toBe('2026-03-08');
+    expect(startOfWeek('2026-03-08', 1)).toBe('2026-03-02');
+    expect(daysInMonth('2028-02-10')).toBe(29);
+  });
+
+  it('keeps a Californian\'s evening on their own day', () => {
+    // 8:30 PM on Saturday 2026-10-31 in Los Angeles is already November in UTC
+    vi.setSystemTime(new Date('2026-11-01T03:30:00Z'));
+    expect(userToday(LA_USER)).toBe('2026-10-31');
+    // An unknown user gets the default zone
+    expect(userToday('nobody')).toBe('2026-10-31');
+  });
+});
+
+describe('Budgets on the user\'s calendar', () => {
+  it('counts an evening charge toward the local day and month', () => {
+    vi.setSystemTime(new Date('2026-11-01T03:30:00Z'));
+    createBudget(LA_USER, 'Food & Drink', 310, 'Month');
+    ingestTransactions([txn('2026-10-31', -40), txn('2026-10-01', -20), txn('2026-09-30', -99)]);
+
+    expect(todaySpend(LA_USER)).toEqual({ date: '2026-10-31', spent: 40, pending: 0 });
+    const [food] = computeProjections(LA_USER).projections;
+    // All 31 days of October have passed, so nothing more is projected
+    expect(food).toMatchObject({ currentSpent: 60, projectedSpend: 60 });
+    expect(computeProjections(LA_USER).dailySummary.totalDailyLimit).toBe(10);
+  });
+
+  it('starts the new day at local midnight after the clocks change', () => {
+    // 00:30 on Sunday 2026-11-01 in LA (still PDT): a day-long budget only sees today's charge
+    vi.setSystemTime(new Date('2026-11-01T07:30:00Z'));
+    createBudget(LA_USER, 'Food & Drink', 50, 'Day');
+    ingestTransactions([txn('2026-10-31', -40), txn('2026-11-01', -5)]);
+
+    expect(computeProjections(LA_USER).projections[0].currentSpent).toBe(5);
+    expect(todaySpend(LA_USER).spent).toBe(5);
+  });
+
+  it('divides a monthly limit by the days in the user\'s month', () => {
+    expect(computeDerivedDailyLimit(290, 'Month', '2024-02-15')).toBe(10);
+    // 03:00 UTC on 1 March is still February in Los Angeles
+    vi.setSystemTime(new Date('2024-03-01T03:00:00Z'));
+    expect(createBudget(LA_USER, 'Food & Drink', 290, 'Month').derived_daily_limit).toBe(10);
+  });
+});
+
+describe('Quest windows on the user\'s calendar', () => {
+  it('starts on the local date and ends at local midnight on window_end', () => {
+    vi.setSystemTime(new Date('2026-11-01T03:30:00Z'));
+    const questId = offerQuest(LA_USER, {
+      title: 'Eat in tonight',
+      metric_type: 'CATEGORY_SPEND_CAP',
+      metric_params: { category: 'Food & Drink', cap: 30 },
+      window_hours: 24,
+      reward_food_type: 'bone',
+      happiness_delta: 5,
+    });
+    const quest = acceptQuest(LA_USER, questId)!.quest!;
+    expect(quest).toMatchObject({ window_start: '2026-10-31', window_end: '2026-11-01' });
+
+    // 11:30 PM local is still the 31st, even though UTC moved on hours ago
+    vi.setSystemTime(new Date('2026-11-01T06:30:00Z'));
+    expect(evaluateQuest(questId).newStatus).toBe('ACTIVE');
+    vi.setSystemTime(new Date('2026-11-01T07:30:00Z'));
+    expect(evaluateQuest(questId).newStatus).toBe('COMPLETED_VERIFIED');
+  });
+});
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Scotty from '@/components/Scotty';
+import { useApp } from '@/context/AppContext';
+import { DEMO_CREDENTIALS } from '@/services/api';
+import { Colors, Shadows } from '@/constants/Theme';
+
+type Mode = 'signup' | 'login';
+
+/** Pull the backend's { error } message out of an apiFetch failure. */
+function describeError(err: unknown, fallback: string): string {
+  if (!(err instanceof Error)) return fallback;
+  const match = err.message.match(/^API \d+: (.*)$/);
+  if (!match) return err.message;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
+export default function AccountScreen() {
+  const router = useRouter();
+  const { logIn, signUp } = useApp();
+  const [mode, setMode] = useState<Mode>('signup');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (action: () => Promise<void>, fallback: string) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+      router.push('/(onboarding)/connection');
+    } catch (err) {
+      setError(describeError(err, fallback));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!email.trim() || !password) {
+      setError('Enter an email and password.');
+      return;
+    }
+    if (mode === 'signup') {
+      submit(() => signUp(email.trim(), password), 'Sign up failed.');
+    } else {
+      submit(() => logIn(email.trim(), password), 'Log in failed.');
+    }
+  };
+
+  const handleDemo = () => {
+    const demo = DEMO_CREDENTIALS;
+    if (!demo) return;
+    submit(() => logIn(demo.email, demo.password), 'Demo login failed.');
+  };
+
+  return (
+    <LinearGradient
+      colors={[Colors.stickyYellow, Colors.paper]}
+      style={styles.gradient}
+    >
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <View style={styles.headerBlock}>
+            <Text style={styles.kicker}>Your Account</Text>
+            <Text style={styles.title}>
+              {mode === 'signup' ? 'Make Scotty a home of his own.' : 'Welcome back!'}
+            </Text>
+            <Text style={styles.subTitle}>Your data stays with your account.</Text>
+          </View>
+
+          <View style={styles.scottyStage}>
+            <Scotty size={110} />
+          </View>
+
+          <View style={styles.card}>
+            <TextInput
+              style={styles.input}
+              placeholder="email@example.com"
+              placeholderTextColor="#bbb"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+              value={email}
+              onChangeText={setEmail}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder={mode === 'signup' ? 'Password (8+ characters)' : 'Password'}
+              placeholderTextColor="#bbb"
+              secureTextEntry
+              value={password}
+              onChangeText={setPassword}
+            />
+            {error && <Text style={styles.errorText}>{error}</Text>}
+            <TouchableOpacity
+              style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              activeOpacity={0.85}
+            >
+              <Text style={styles.primaryButtonText}>
+                {isSubmitting ? 'One sec...' : mode === 'signup' ? 'Create Account' : 'Log In'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => {
+                setMode(mode === 'signup' ? 'login' : 'signup');
+                setError(null);
+              }}
+              activeOpacity={0.85}
+            >
+              <Text style={styles.switchText}>
+                {mode === 'signup' ? 'Already have an account? Log in' : 'New here? Create an account'}
+              </Text>
+            </TouchableOpacity>
+            {DEMO_CREDENTIALS && (
+              <TouchableOpacity
+                style={[styles.demoButton, isSubmitting && styles.buttonDisabled]}
+                onPress={handleDemo}
+                activeOpacity={0.85}
+              >
+                <Text style={styles.demoButtonText}>Use Demo Account</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  gradient: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    padding: 20,
+    justifyContent: 'space-between',
+  },
+  headerBlock: {
+    marginTop: 8,
+    gap: 10,
+  },
+  kicker: {
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 2,
+    color: Colors.textMuted,
+  },
+  title: {
+    fontFamily: 'SpaceMono',
+    fontSize: 24,
+    lineHeight: 30,
+    color: Colors.ink,
+  },
+  subTitle: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  scottyStage: {
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: Colors.white,
+    borderWidth: 2,
+    borderColor: Colors.ink,
+    borderRadius: 18,
+    padding: 16,
+    gap: 12,
+    ...Shadows.sketch,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: Colors.ink,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontFamily: 'SpaceMono',
+    fontSize: 14,
+    color: Colors.ink,
+    backgroundColor: Colors.paper,
+  },
+  errorText: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 12,
+    color: Colors.error,
+  },
+  primaryButton: {
+    backgroundColor: Colors.coral,
+    borderWidth: 2,
+    borderColor: Colors.ink,
+    borderRadius: 14,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 15,
+    color: Colors.ink,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  switchText: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+  },
+  demoButton: {
+    borderWidth: 2,
+    borderColor: Colors.textMuted,
+    borderRadius: 14,
+    borderStyle: 'dashed',
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: 'transparent',
+  },
+  demoButtonText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+});
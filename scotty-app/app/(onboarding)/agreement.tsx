@@ -47,7 +47,7 @@ export default function AgreementScreen() {
               onPress={() => {
                 if (!confirmed) setOnboardingAgreed(true);
                 setTimeout(() => {
-                  router.push('/(onboarding)/connection');
+                  router.push('/(onboarding)/account');
                 }, 120);
               }}
               activeOpacity={0.85}
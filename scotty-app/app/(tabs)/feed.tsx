@@ -19,6 +19,7 @@ import GoalWorkshopModal from '@/components/GoalWorkshopModal';
 import BudgetBuilderModal from '@/components/BudgetBuilderModal';
 import TutorialModal from '@/components/TutorialModal';
 import { getSpendingByCategory, getTotalSpending } from '@/services/transactionMetrics';
+import { excludedFromSpending } from '@/services/categories';
 import { TUTORIAL_STEPS } from '@/constants/Tutorial';
 
 type TabType = 'transactions' | 'analytics' | 'health';
@@ -43,6 +44,11 @@ export default function FeedScreen() {
     quests,
     upcomingBills,
     refreshGoals,
+    splitTransaction,
+    recategorizeTransaction,
+    annotateTransaction,
+    categories,
+    addCategory,
     tutorial,
     advanceTutorial,
     skipTutorial,
@@ -56,7 +62,7 @@ export default function FeedScreen() {
   const insets = useSafeAreaInsets();
   const headerOffset = Platform.OS === 'ios' ? -2 : 0;
   const headerTextOffset = Platform.OS === 'ios' ? -3 : 0;
-  const spending = getSpendingByCategory(transactions);
+  const spending = getSpendingByCategory(transactions, excludedFromSpending(categories));
   const monthlyTotal = getTotalSpending(transactions, 30);
   const pageWidth = useMemo(() => Dimensions.get('window').width, []);
 
@@ -155,7 +161,15 @@ export default function FeedScreen() {
           contentContainerStyle={styles.contentContainer}
           showsVerticalScrollIndicator={false}
         >
-          <TransactionList transactions={transactions} limit={30} />
+          <TransactionList
+            transactions={transactions}
+            limit={30}
+            onSplit={splitTransaction}
+            onRecategorize={recategorizeTransaction}
+            onAnnotate={annotateTransaction}
+            categories={categories}
+            onAddCategory={addCategory}
+          />
         </ScrollView>
 
         <ScrollView
@@ -174,6 +188,7 @@ export default function FeedScreen() {
             totalBalance={totalBalance}
             spendingTrend={spendingTrend}
             quests={quests}
+            categories={categories}
           />
         </ScrollView>
 
@@ -201,6 +216,7 @@ export default function FeedScreen() {
       <BudgetBuilderModal
         visible={showBudgetModal}
         onClose={() => setShowBudgetModal(false)}
+        categories={categories}
       />
 
       <TutorialModal
@@ -5,7 +5,7 @@ import { useApp } from '@/context/AppContext';
 import AchievementCard from '@/components/AchievementCard';
 
 export default function AchievementsModal() {
-  const { achievements, completeAchievement, dismissAchievement } = useApp();
+  const { achievements, categories, completeAchievement, dismissAchievement } = useApp();
 
   const activeAchievements = achievements.filter((a) => !a.completed);
   const completedAchievements = achievements.filter((a) => a.completed);
@@ -32,6 +32,7 @@ export default function AchievementsModal() {
               <AchievementCard
                 key={achievement.id}
                 achievement={achievement}
+                categories={categories}
                 onComplete={completeAchievement}
                 onDismiss={dismissAchievement}
               />
@@ -51,6 +52,7 @@ export default function AchievementsModal() {
               <AchievementCard
                 key={achievement.id}
                 achievement={achievement}
+                categories={categories}
               />
             ))}
           </View>
@@ -6,35 +6,22 @@ import {
   TouchableOpacity,
   Animated,
 } from 'react-native';
-import { Achievement } from '../types';
+import { Achievement, Category } from '../types';
 
 interface AchievementCardProps {
   achievement: Achievement;
+  categories?: Category[];
   onComplete?: (id: string) => void;
   onDismiss?: (id: string) => void;
 }
 
-const CATEGORY_ICONS: Record<string, string> = {
-  food_dining: '🍔',
-  groceries: '🛒',
-  transport: '🚗',
-  entertainment: '🎮',
-  shopping: '🛍️',
-  subscriptions: '📱',
-  utilities: '💡',
-  education: '📚',
-  health: '💊',
-  other: '💰',
-};
-
 export function AchievementCard({
   achievement,
+  categories = [],
   onComplete,
   onDismiss,
 }: AchievementCardProps) {
-  const icon = achievement.category
-    ? CATEGORY_ICONS[achievement.category]
-    : '🎯';
+  const icon = categories.find((c) => c.name === achievement.category)?.icon || '🎯';
 
   const progress = achievement.targetAmount && achievement.currentAmount
     ? Math.min(100, (achievement.currentAmount / achievement.targetAmount) * 100)
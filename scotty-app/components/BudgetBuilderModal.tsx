@@ -13,42 +13,39 @@ import {
   Alert,
 } from 'react-native';
 import { createBudget } from '../services/api';
+import { Category } from '../types';
 
 interface BudgetBuilderModalProps {
   visible: boolean;
   onClose: () => void;
+  /** The user's categories; custom ones can be budgeted too */
+  categories?: Category[];
 }
 
-type BudgetCategory = 'groceries' | 'dining' | 'travel' | 'shopping' | 'fun' | 'self_care' | 'miscellaneous';
-
-const CATEGORIES: { key: BudgetCategory; label: string; icon: string }[] = [
-  { key: 'groceries', label: 'GROCERIES', icon: '🥬' },
-  { key: 'dining', label: 'DINING', icon: '🍴' },
-  { key: 'travel', label: 'TRAVEL', icon: '🚌' },
-  { key: 'shopping', label: 'SHOPPING', icon: '🛍️' },
-  { key: 'fun', label: 'FUN', icon: '🎬' },
-  { key: 'self_care', label: 'SELF CARE', icon: '🌿' },
-  { key: 'miscellaneous', label: 'MISCELLANEOUS', icon: '🐾' },
+// Keys are backend category names; used until the user's list has loaded
+const DEFAULT_CATEGORIES: { key: string; label: string; icon: string }[] = [
+  { key: 'Groceries', label: 'GROCERIES', icon: '🥬' },
+  { key: 'Food & Drink', label: 'DINING', icon: '🍴' },
+  { key: 'Transportation', label: 'TRAVEL', icon: '🚌' },
+  { key: 'Shopping', label: 'SHOPPING', icon: '🛍️' },
+  { key: 'Entertainment', label: 'FUN', icon: '🎬' },
+  { key: 'Health', label: 'SELF CARE', icon: '🌿' },
+  { key: 'Subscription', label: 'MISCELLANEOUS', icon: '🐾' },
 ];
 
-export default function BudgetBuilderModal({ visible, onClose }: BudgetBuilderModalProps) {
-  const [selectedCategory, setSelectedCategory] = useState<BudgetCategory>('groceries');
+export default function BudgetBuilderModal({ visible, onClose, categories = [] }: BudgetBuilderModalProps) {
+  const options = categories.length > 0
+    ? categories
+      .filter((c) => !c.excludeFromSpending)
+      .map((c) => ({ key: c.name, label: c.name.toUpperCase(), icon: c.icon }))
+    : DEFAULT_CATEGORIES;
+  const [selectedCategory, setSelectedCategory] = useState<string>(options[0]?.key ?? 'Other');
   const [monthlyLimit, setMonthlyLimit] = useState('400');
   const [adaptiveMode, setAdaptiveMode] = useState(true);
 
   const [submitting, setSubmitting] = useState(false);
   const suggestedBudget = 400;
 
-  const CATEGORY_TO_BACKEND: Record<BudgetCategory, string> = {
-    groceries: 'Groceries',
-    dining: 'Food & Drink',
-    travel: 'Transportation',
-    shopping: 'Shopping',
-    fun: 'Entertainment',
-    self_care: 'Health',
-    miscellaneous: 'Subscription',
-  };
-
   const handleSubmit = async () => {
     const amount = parseFloat(monthlyLimit);
     if (!amount || amount <= 0) {
@@ -58,8 +55,7 @@ export default function BudgetBuilderModal({ visible, onClose }: BudgetBuilderMo
 
     setSubmitting(true);
     try {
-      const backendCategory = CATEGORY_TO_BACKEND[selectedCategory] || 'Other';
-      await createBudget(backendCategory, amount, 'Month');
+      await createBudget(selectedCategory, amount, 'Month');
       onClose();
     } catch (err: any) {
       // If backend fails, still close (graceful degradation)
@@ -93,7 +89,7 @@ export default function BudgetBuilderModal({ visible, onClose }: BudgetBuilderMo
               <View style={styles.field}>
                 <Text style={styles.fieldLabel}>🏷️ PICK A CATEGORY</Text>
                 <View style={styles.categoryGrid}>
-                  {CATEGORIES.map((cat) => (
+                  {options.map((cat) => (
                     <TouchableOpacity
                       key={cat.key}
                       style={[
@@ -0,0 +1,115 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+import Animated, {
+  useSharedValue,
+  useAnimatedProps,
+  withDelay,
+  withTiming,
+  Easing,
+} from 'react-native-reanimated';
+
+const AnimatedCircle = Animated.createAnimatedComponent(Circle);
+
+interface SafeToSpendRingProps {
+  /** Spent so far today */
+  spent: number;
+  /** What can still be spent today, from the cash-flow forecast */
+  safeToSpend: number;
+  /** The forecast has the balance going below zero */
+  overdraft?: boolean;
+  size?: number;
+}
+
+const formatLeft = (value: number) =>
+  value >= 1000 ? `$${(value / 1000).toFixed(1)}k` : `$${Math.round(value)}`;
+
+export default function SafeToSpendRing({ spent, safeToSpend, overdraft = false, size = 80 }: SafeToSpendRingProps) {
+  // The ring fills as today's spending uses up what was safe to spend
+  const total = spent + safeToSpend;
+  const percent = total > 0 ? spent / total : 1;
+
+  const strokeWidth = 8;
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const center = size / 2;
+
+  const progress = useSharedValue(0);
+
+  useEffect(() => {
+    progress.value = withDelay(
+      300,
+      withTiming(percent, { duration: 800, easing: Easing.out(Easing.cubic) })
+    );
+  }, [percent]);
+
+  const animatedProps = useAnimatedProps(() => ({
+    strokeDashoffset: circumference * (1 - progress.value),
+  }));
+
+  const isOut = safeToSpend <= 0;
+  const ringColor = overdraft || isOut ? '#ff6b6b' : percent >= 0.85 ? '#ffb347' : '#4caf50';
+
+  return (
+    <View style={[styles.container, { width: size, height: size }]}>
+      <Svg width={size} height={size}>
+        <Circle
+          cx={center}
+          cy={center}
+          r={radius}
+          stroke="#e0e0e0"
+          strokeWidth={strokeWidth}
+          fill="none"
+        />
+        <AnimatedCircle
+          cx={center}
+          cy={center}
+          r={radius}
+          stroke={ringColor}
+          strokeWidth={strokeWidth}
+          fill="none"
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          animatedProps={animatedProps}
+          transform={`rotate(-90 ${center} ${center})`}
+        />
+      </Svg>
+      <View style={styles.labelContainer}>
+        <Text style={[styles.amountText, (overdraft || isOut) && styles.amountTextLow]}>
+          {formatLeft(Math.max(0, safeToSpend))}
+        </Text>
+        <Text style={[styles.leftText, (overdraft || isOut) && styles.amountTextLow]}>
+          {overdraft ? 'LOW' : 'LEFT'}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  labelContainer: {
+    position: 'absolute',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  amountText: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 13,
+    fontWeight: '900',
+    color: '#000',
+  },
+  amountTextLow: {
+    color: '#ff6b6b',
+  },
+  leftText: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 8,
+    fontWeight: '900',
+    color: '#999',
+    letterSpacing: 1,
+  },
+});
@@ -20,13 +20,15 @@ import Animated, {
 } from 'react-native-reanimated';
 import AnimatedProgressBar from './AnimatedProgressBar';
 import DailySpendRing from './DailySpendRing';
+import SafeToSpendRing from './SafeToSpendRing';
 import DraggableFoodItem from './DraggableFoodItem';
 import HeartBurst from './HeartBurst';
 import ScottyQuestsModal from './ScottyQuestsModal';
 import { Scotty, ScottyRef } from './Scotty';
 import { useApp } from '../context/AppContext';
-import { fetchDailyQuests, refreshDailyQuests } from '../services/api';
-import { BudgetItem, Quest, TransactionCategory, BudgetProjectionsResponse } from '../types';
+import { fetchDailyQuests, refreshDailyQuests, fetchCashFlowForecast, CashFlowForecast } from '../services/api';
+import { BudgetItem, Quest, BudgetProjectionsResponse } from '../types';
+import { categoryFamily } from '../services/categories';
 import TutorialModal from './TutorialModal';
 import { TUTORIAL_STEPS } from '../constants/Tutorial';
 import { Colors, Shadows } from '../constants/Theme';
@@ -37,19 +39,6 @@ type BudgetTab = 'Daily' | 'Monthly' | 'Yearly';
 
 const BUDGET_TABS: BudgetTab[] = ['Daily', 'Monthly', 'Yearly'];
 
-const CATEGORY_EMOJI: Record<string, string> = {
-  'Food & Drink': '🍔',
-  Groceries: '🛒',
-  Transportation: '🚗',
-  Entertainment: '🎭',
-  Shopping: '🛍️',
-  Health: '💊',
-  Subscription: '💳',
-  Utilities: '💡',
-  Education: '📚',
-  Housing: '🏠',
-};
-
 const CATEGORY_COLORS = ['#9b59b6', '#ff8a65', '#81d4fa', '#4caf50', '#ff6b6b'];
 
 const formatCurrency = (value: number) =>
@@ -69,6 +58,9 @@ const formatCompact = (value: number): string => {
   return `${sign}$${abs.toFixed(2)}`;
 };
 
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
 const getDailyLimit = (budget: BudgetItem) => {
   if (budget.derivedDailyLimit > 0) return budget.derivedDailyLimit;
   if (budget.frequency === 'Day') return budget.limitAmount;
@@ -121,6 +113,10 @@ function QuestCard({ quest, index }: { quest: Quest; index: number }) {
         <Text style={styles.goalCompleteLabel}>QUEST CLEARED  +{quest.xpReward} XP</Text>
       ) : isFailed ? (
         <Text style={styles.goalFailedLabel}>QUEST FAILED</Text>
+      ) : quest.status === 'offered' ? (
+        <Text style={styles.goalStatusLabel}>NEW QUEST  ·  OPEN QUESTS TO ACCEPT</Text>
+      ) : quest.status === 'paused' ? (
+        <Text style={styles.goalStatusLabel}>PAUSED</Text>
       ) : (
         <>
           <Text style={[styles.goalAmount, isOverBudget && styles.goalAmountOver]}>
@@ -142,7 +138,9 @@ function QuestCard({ quest, index }: { quest: Quest; index: number }) {
           {quest.goalTarget ? (
             <Text style={styles.questInfoGoal}>Goal: {quest.goalTarget}</Text>
           ) : null}
-          <Text style={styles.questInfoXp}>+{quest.xpReward} XP</Text>
+          <Text style={styles.questInfoXp}>
+            +{quest.xpReward} XP{quest.successChance !== undefined ? `  ·  ${quest.successChance}% CHANCE` : ''}
+          </Text>
         </View>
       )}
     </View>
@@ -165,12 +163,18 @@ export default function ScottyHomeScreen({
     feedScotty,
     budgets,
     budgetProjections,
+    categories,
     transactions,
     totalBalance,
     dailySpend,
     scottyState,
     dailyInsight,
     quests: contextQuests,
+    questRerolls,
+    updateQuest,
+    questChains,
+    campaigns,
+    joinCampaign,
     goals,
     tutorial,
     advanceTutorial,
@@ -191,6 +195,12 @@ export default function ScottyHomeScreen({
     setFoodCounts({ coffee, food, pets });
   }, [creditShare]);
 
+  // Cash-flow forecast, refetched as today's spending changes
+  const [forecast, setForecast] = useState<CashFlowForecast | null>(null);
+  React.useEffect(() => {
+    fetchCashFlowForecast().then(setForecast);
+  }, [dailySpend]);
+
   // Quests data: prefer context (backend) quests, fallback to empty
   const [quests, setQuests] = useState<Quest[]>([]);
   React.useEffect(() => {
@@ -374,34 +384,26 @@ export default function ScottyHomeScreen({
     ? Math.min(100, Math.round((dailySpend / totalDailyLimit) * 100))
     : 0;
 
-  // Compute today's actual spending per budget category from real transactions
+  // Compute today's actual spending per budget category (with its subcategories) from real transactions
   const todaySpendByCategory = useMemo(() => {
-    const catMap: Record<string, string[]> = {
-      'Food & Drink': ['food_dining', 'groceries'],
-      'Groceries': ['groceries'],
-      'Transportation': ['transport'],
-      'Entertainment': ['entertainment'],
-      'Shopping': ['shopping'],
-      'Health': ['health'],
-      'Subscription': ['subscriptions'],
-    };
     const now = new Date();
 
     const result: Record<string, number> = {};
-    for (const [budgetCat, frontendCats] of Object.entries(catMap)) {
+    for (const { category: budgetCat } of budgets) {
+      const familyCats = categoryFamily(categories, budgetCat);
       const todayTxns = transactions.filter(t => {
         // Match "today" the same way TransactionList does: time diff < 24 hours
         const d = t.date instanceof Date ? t.date : new Date(t.date);
         const diffMs = now.getTime() - d.getTime();
         const isToday = diffMs >= 0 && diffMs < 24 * 60 * 60 * 1000;
         return isToday
-          && frontendCats.includes(t.category)
+          && familyCats.includes(t.category)
           && !t.isIncoming;
       });
       result[budgetCat] = todayTxns.reduce((sum, t) => sum + t.amount, 0);
     }
     return result;
-  }, [transactions]);
+  }, [budgets, categories, transactions]);
 
   const budgetsByTab = useMemo(() => {
     const byTab: Record<BudgetTab, Array<{
@@ -439,7 +441,7 @@ export default function ScottyHomeScreen({
         Monthly: budget.spent,
         Yearly: budget.spent * 12,
       };
-      const emoji = CATEGORY_EMOJI[budget.category] || '📊';
+      const emoji = categories.find((c) => c.name === budget.category)?.icon || '📊';
       const color = CATEGORY_COLORS[index % CATEGORY_COLORS.length];
 
       // Look up AI projection for this category
@@ -486,7 +488,7 @@ export default function ScottyHomeScreen({
     });
 
     return byTab;
-  }, [budgets, budgetProjections, todaySpendByCategory]);
+  }, [budgets, budgetProjections, categories, todaySpendByCategory]);
 
   const handleTutorialPrimary = () => {
     if (!currentStep) return;
@@ -630,6 +632,36 @@ export default function ScottyHomeScreen({
           </View>
         </View>
 
+        {/* Safe to Spend */}
+        {forecast?.has_balance && (
+          <View style={styles.safeToSpendRow}>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryLabel}>SAFE TO SPEND TODAY</Text>
+              <View style={styles.dailySpendRingRow}>
+                <SafeToSpendRing
+                  spent={dailySpend}
+                  safeToSpend={forecast.safe_to_spend_today}
+                  overdraft={forecast.overdraft_dates.length > 0}
+                  size={72}
+                />
+                <View style={styles.dailySpendText}>
+                  <Text style={styles.summaryValueMedium}>{formatCurrency(forecast.safe_to_spend_today)}</Text>
+                  <Text style={styles.dailySpendLimit}>
+                    {forecast.next_income_date
+                      ? `until payday ${formatShortDate(forecast.next_income_date)}`
+                      : `over the next ${forecast.days.length} days`}
+                  </Text>
+                  {forecast.overdraft_dates.length > 0 && (
+                    <Text style={styles.overdraftWarning}>
+                      Balance dips below $0 on {formatShortDate(forecast.overdraft_dates[0])}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Budget Dashboard */}
         <View style={styles.budgetSection}>
           <View style={styles.budgetHeader}>
@@ -809,6 +841,11 @@ export default function ScottyHomeScreen({
         onClose={onCloseQuestsModal || (() => {})}
         quests={quests}
         goals={goals}
+        chains={questChains}
+        campaigns={campaigns}
+        onJoinCampaign={joinCampaign}
+        rerollsLeft={questRerolls}
+        onQuestAction={updateQuest}
         onRefreshQuests={handleRefreshQuests}
       />
 
@@ -848,22 +885,6 @@ function formatCategoryName(category: string): string {
     .replace(/\b\w/g, (s) => s.toUpperCase());
 }
 
-function categoryEmoji(category: TransactionCategory): string {
-  const byCategory: Record<TransactionCategory, string> = {
-    food_dining: '🍔',
-    groceries: '🛒',
-    transport: '🚗',
-    entertainment: '🎭',
-    shopping: '🛍️',
-    subscriptions: '📺',
-    utilities: '💡',
-    education: '📚',
-    health: '💊',
-    other: '🐾',
-  };
-  return byCategory[category];
-}
-
 function categoryEmojiFromName(name: string): string {
   const lower = name.toLowerCase();
   if (lower.includes('food') || lower.includes('dining')) return '🍔';
@@ -1085,6 +1106,13 @@ const styles = StyleSheet.create({
     color: '#ff6b6b',
     letterSpacing: 2,
   },
+  goalStatusLabel: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 12,
+    fontWeight: '900',
+    color: '#9b59b6',
+    letterSpacing: 2,
+  },
   goalAmountOver: {
     color: '#ff6b6b',
     fontWeight: '900',
@@ -1244,6 +1272,17 @@ const styles = StyleSheet.create({
   summaryValuePurple: {
     color: '#9b59b6',
   },
+  safeToSpendRow: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  overdraftWarning: {
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#ff6b6b',
+    marginTop: 4,
+  },
   todayIncome: {
     fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
     fontSize: 10,
@@ -9,9 +9,22 @@ import {
   Platform,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Quest, GoalData } from '../types';
+import { Quest, GoalData, QuestChain, Campaign } from '../types';
+import { QuestLifecycleAction } from '../services/api';
 
-function ModalQuestCard({ quest, onDelete }: { quest: Quest; onDelete?: (id: string) => void }) {
+type QuestActionHandler = (questId: string, action: QuestLifecycleAction, reason?: string) => void;
+
+const DECLINE_REASONS = ['Too hard', 'Not relevant', 'Bad timing'];
+
+function ModalQuestCard({
+  quest,
+  onDelete,
+  onAction,
+}: {
+  quest: Quest;
+  onDelete?: (id: string) => void;
+  onAction?: QuestActionHandler;
+}) {
   const [showInfo, setShowInfo] = useState(false);
   const progressPercent = quest.goal > 0 ? (quest.progress / quest.goal) * 100 : 0;
   const isComplete = quest.goal > 0 && quest.progress >= quest.goal;
@@ -37,6 +50,11 @@ function ModalQuestCard({ quest, onDelete }: { quest: Quest; onDelete?: (id: str
 
         {/* Details Section */}
         <View style={styles.detailsSection}>
+          {quest.chain && (
+            <Text style={styles.chainStepLabel}>
+              STEP {quest.chain.step}/{quest.chain.totalSteps} · {quest.chain.title.toUpperCase()}
+            </Text>
+          )}
           <View style={styles.questHeader}>
             <Text style={styles.questTitle}>{quest.title}</Text>
             <Text style={styles.xpReward}>+{quest.xpReward} XP</Text>
@@ -60,6 +78,24 @@ function ModalQuestCard({ quest, onDelete }: { quest: Quest; onDelete?: (id: str
           >
             {quest.progress}/{quest.goal} {quest.progressUnit}
           </Text>
+          {quest.successChance !== undefined && quest.status === 'active' && (
+            <Text style={styles.chanceText}>
+              {quest.successChance}% chance{quest.difficulty ? ` · ${quest.difficulty.toUpperCase()}` : ''}
+            </Text>
+          )}
+          {onAction && !quest.chain && (quest.status === 'active' || quest.status === 'paused') && (
+            <View style={styles.offerActions}>
+              <TouchableOpacity
+                style={styles.smallButton}
+                onPress={() => onAction(quest.id, quest.status === 'paused' ? 'resume' : 'pause')}
+              >
+                <Text style={styles.smallButtonText}>{quest.status === 'paused' ? 'RESUME' : 'PAUSE'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.smallButton} onPress={() => onAction(quest.id, 'abandon')}>
+                <Text style={styles.smallButtonText}>GIVE UP</Text>
+              </TouchableOpacity>
+            </View>
+          )}
           {showInfo && (
             <View style={styles.infoBox}>
               <Text style={styles.infoBoxText}>{quest.subtitle}</Text>
@@ -74,11 +110,125 @@ function ModalQuestCard({ quest, onDelete }: { quest: Quest; onDelete?: (id: str
   );
 }
 
+function QuestOfferCard({
+  quest,
+  rerollsLeft,
+  onAction,
+}: {
+  quest: Quest;
+  rerollsLeft: number;
+  onAction?: QuestActionHandler;
+}) {
+  const [choosingReason, setChoosingReason] = useState(false);
+
+  return (
+    <View style={[styles.chainCard, { backgroundColor: quest.bgColor }]}>
+      <View style={styles.questHeader}>
+        <Text style={styles.questTitle}>{quest.emoji} {quest.title}</Text>
+        <Text style={styles.xpReward}>+{quest.xpReward} XP</Text>
+      </View>
+      <Text style={styles.questSubtitle}>{quest.subtitle}</Text>
+      {quest.successChance !== undefined && (
+        <Text style={styles.chanceText}>
+          {quest.successChance}% chance{quest.difficulty ? ` · ${quest.difficulty.toUpperCase()}` : ''}
+        </Text>
+      )}
+      {choosingReason ? (
+        <View style={styles.offerActions}>
+          {DECLINE_REASONS.map((reason) => (
+            <TouchableOpacity key={reason} style={styles.smallButton} onPress={() => onAction?.(quest.id, 'decline', reason)}>
+              <Text style={styles.smallButtonText}>{reason.toUpperCase()}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.smallButton} onPress={() => setChoosingReason(false)}>
+            <Text style={styles.smallButtonText}>BACK</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.offerActions}>
+          <TouchableOpacity style={styles.joinButton} onPress={() => onAction?.(quest.id, 'accept')}>
+            <Text style={styles.joinButtonText}>ACCEPT</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, rerollsLeft === 0 && styles.joinButtonDisabled]}
+            onPress={() => onAction?.(quest.id, 'swap')}
+            disabled={rerollsLeft === 0}
+          >
+            <Text style={styles.smallButtonText}>SWAP ({rerollsLeft})</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.smallButton} onPress={() => setChoosingReason(true)}>
+            <Text style={styles.smallButtonText}>DECLINE</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+function ChainProgressCard({ chain }: { chain: QuestChain }) {
+  const percent = chain.totalSteps > 0 ? (chain.completedSteps / chain.totalSteps) * 100 : 0;
+  const statusLabel =
+    chain.status === 'completed' ? 'COMPLETE!' :
+    chain.status === 'failed' ? 'CHAIN BROKEN' :
+    `STEP ${Math.min(chain.completedSteps + 1, chain.totalSteps)}/${chain.totalSteps}`;
+
+  return (
+    <View style={styles.chainCard}>
+      <View style={styles.questHeader}>
+        <Text style={styles.questTitle}>{chain.title}</Text>
+        <Text style={[styles.chainStatus, chain.status === 'completed' && styles.progressTextComplete]}>
+          {statusLabel}
+        </Text>
+      </View>
+      {chain.status === 'active' && chain.currentStepTitle ? (
+        <Text style={styles.questSubtitle}>Now: {chain.currentStepTitle}</Text>
+      ) : null}
+      <View style={styles.progressContainer}>
+        <View style={styles.progressBarBg}>
+          <View style={[styles.progressBarFill, styles.chainBarFill, { width: `${Math.min(percent, 100)}%` }]} />
+        </View>
+      </View>
+      <Text style={styles.chainReward}>
+        {chain.completedSteps}/{chain.totalSteps} steps · Reward: {chain.reward}
+      </Text>
+    </View>
+  );
+}
+
+function CampaignCard({ campaign, onJoin }: { campaign: Campaign; onJoin?: (id: string) => void }) {
+  const canJoin = campaign.running && !campaign.joined && !!onJoin;
+  const label = campaign.joined ? 'JOINED' : campaign.running ? 'JOIN' : `STARTS ${campaign.startsOn.slice(5)}`;
+
+  return (
+    <View style={styles.campaignCard}>
+      <Text style={styles.campaignIcon}>{campaign.icon}</Text>
+      <View style={styles.detailsSection}>
+        <Text style={styles.questTitle}>{campaign.title}</Text>
+        <Text style={styles.questSubtitle}>
+          {campaign.totalSteps} steps · until {campaign.endsOn}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.joinButton, !canJoin && styles.joinButtonDisabled]}
+        onPress={() => onJoin?.(campaign.id)}
+        disabled={!canJoin}
+      >
+        <Text style={styles.joinButtonText}>{label}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
 interface ScottyQuestsModalProps {
   visible: boolean;
   onClose: () => void;
   quests: Quest[];
   goals?: GoalData[];
+  chains?: QuestChain[];
+  campaigns?: Campaign[];
+  onJoinCampaign?: (campaignId: string) => void;
+  rerollsLeft?: number;
+  onQuestAction?: QuestActionHandler;
   onRefreshQuests?: () => void;
   onDeleteQuest?: (id: string) => void;
 }
@@ -88,6 +238,11 @@ export default function ScottyQuestsModal({
   onClose,
   quests,
   goals = [],
+  chains = [],
+  campaigns = [],
+  onJoinCampaign,
+  rerollsLeft = 0,
+  onQuestAction,
   onRefreshQuests,
   onDeleteQuest,
 }: ScottyQuestsModalProps) {
@@ -98,9 +253,12 @@ export default function ScottyQuestsModal({
 
   // Filter to goal-linked quests only (Scotty's Quests are for saving toward goals)
   const scottyQuests = useMemo(() => {
-    return quests.filter((q) => q.goalTarget);
+    return quests.filter((q) => q.goalTarget && q.status !== 'offered');
   }, [quests]);
 
+  // New quests wait here until the user accepts, swaps or declines them
+  const offers = useMemo(() => quests.filter((q) => q.status === 'offered'), [quests]);
+
   // Calculate time until midnight reset
   useEffect(() => {
     const updateTimer = () => {
@@ -157,9 +315,33 @@ export default function ScottyQuestsModal({
             contentContainerStyle={styles.questListContent}
             showsVerticalScrollIndicator={false}
           >
+            {offers.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>NEW QUEST OFFERS</Text>
+                {offers.map((quest) => (
+                  <QuestOfferCard key={quest.id} quest={quest} rerollsLeft={rerollsLeft} onAction={onQuestAction} />
+                ))}
+              </>
+            )}
+            {chains.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>QUEST CHAINS</Text>
+                {chains.map((chain) => (
+                  <ChainProgressCard key={chain.id} chain={chain} />
+                ))}
+              </>
+            )}
+            {campaigns.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>SEASONAL CAMPAIGNS</Text>
+                {campaigns.map((campaign) => (
+                  <CampaignCard key={campaign.id} campaign={campaign} onJoin={onJoinCampaign} />
+                ))}
+              </>
+            )}
             {hasGoals && scottyQuests.length > 0 ? (
               scottyQuests.map((quest) => (
-                <ModalQuestCard key={quest.id} quest={quest} onDelete={onDeleteQuest} />
+                <ModalQuestCard key={quest.id} quest={quest} onDelete={onDeleteQuest} onAction={onQuestAction} />
               ))
             ) : (
               <View style={styles.emptyState}>
@@ -392,6 +574,114 @@ const styles = StyleSheet.create({
   progressTextComplete: {
     color: '#4caf50',
   },
+  chanceText: {
+    fontFamily: FONT,
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#666',
+    marginTop: 2,
+  },
+
+  // Chains & Campaigns
+  sectionLabel: {
+    fontFamily: FONT,
+    fontSize: 11,
+    fontWeight: '900',
+    color: '#999',
+    letterSpacing: 2,
+    marginBottom: 8,
+  },
+  chainStepLabel: {
+    fontFamily: FONT,
+    fontSize: 10,
+    fontWeight: '900',
+    color: '#9b59b6',
+    letterSpacing: 1,
+    marginBottom: 2,
+  },
+  chainCard: {
+    backgroundColor: '#fff',
+    borderWidth: 3,
+    borderColor: '#000',
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 4, height: 4 },
+    shadowOpacity: 1,
+    shadowRadius: 0,
+    elevation: 4,
+  },
+  chainStatus: {
+    fontFamily: FONT,
+    fontSize: 12,
+    fontWeight: '900',
+    color: '#9b59b6',
+    marginLeft: 8,
+  },
+  chainBarFill: {
+    backgroundColor: '#9b59b6',
+  },
+  chainReward: {
+    fontFamily: FONT,
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#000',
+  },
+  campaignCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff9c4',
+    borderWidth: 3,
+    borderColor: '#000',
+    borderRadius: 20,
+    padding: 12,
+    marginBottom: 12,
+  },
+  campaignIcon: {
+    fontSize: 32,
+    marginRight: 12,
+  },
+  joinButton: {
+    backgroundColor: '#ff6b6b',
+    borderWidth: 2,
+    borderColor: '#000',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  joinButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  offerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  smallButton: {
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#000',
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  smallButtonText: {
+    fontFamily: FONT,
+    fontSize: 10,
+    fontWeight: '900',
+    color: '#000',
+    letterSpacing: 1,
+  },
+  joinButtonText: {
+    fontFamily: FONT,
+    fontSize: 11,
+    fontWeight: '900',
+    color: '#fff',
+    letterSpacing: 1,
+  },
 
   // Footer
   footer: {
@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet, Platform } from 'react-native';
-import { TransactionCategory, Transaction, DailyInsight, Quest, AccountInfo } from '../types';
+import { TransactionCategory, Transaction, DailyInsight, Quest, AccountInfo, Category } from '../types';
+import { categoryDisplay } from '../services/categories';
 
 interface SpendingChartProps {
   spending: Partial<Record<TransactionCategory, number>>;
@@ -13,34 +14,9 @@ interface SpendingChartProps {
   totalBalance?: number;
   spendingTrend?: { months: string[]; totals: number[] };
   quests?: Quest[];
+  categories?: Category[];
 }
 
-const CATEGORY_COLORS: Record<TransactionCategory, string> = {
-  food_dining: '#ff6b6b',
-  groceries: '#4caf50',
-  transport: '#81d4fa',
-  entertainment: '#9b59b6',
-  shopping: '#ff9800',
-  subscriptions: '#e1bee7',
-  utilities: '#bbdefb',
-  education: '#c8e6c9',
-  health: '#f8bbd0',
-  other: '#999',
-};
-
-const CATEGORY_LABELS: Record<TransactionCategory, string> = {
-  food_dining: 'Dining',
-  groceries: 'Groceries',
-  transport: 'Transport',
-  entertainment: 'Entertainment',
-  shopping: 'Shopping',
-  subscriptions: 'Subs',
-  utilities: 'Utilities',
-  education: 'Education',
-  health: 'Health',
-  other: 'Other',
-};
-
 export function SpendingChart({
   spending,
   budget,
@@ -52,6 +28,7 @@ export function SpendingChart({
   totalBalance: propTotalBalance,
   spendingTrend: propTrend,
   quests = [],
+  categories = [],
 }: SpendingChartProps) {
   const entries = Object.entries(spending)
     .filter(([, amount]) => amount && amount > 0)
@@ -62,7 +39,7 @@ export function SpendingChart({
   const top3 = entries.slice(0, 3);
 
   // Insight message — use agent-generated insight if available
-  const insightCategory = topCategory ? CATEGORY_LABELS[topCategory[0]] : 'spending';
+  const insightCategory = topCategory ? categoryDisplay(categories, topCategory[0]).label : 'spending';
   const insightMessage = dailyInsight?.message
     ? `"${dailyInsight.message}"`
     : `"Yo! Your top spending is ${insightCategory}. Your savings goals are waiting for you!"`;
@@ -185,7 +162,7 @@ export function SpendingChart({
                   style={[
                     styles.donutSegmentBar,
                     {
-                      backgroundColor: CATEGORY_COLORS[cat],
+                      backgroundColor: categoryDisplay(categories, cat).color,
                       width: `${pct}%`,
                     },
                   ]}
@@ -196,7 +173,7 @@ export function SpendingChart({
           <View style={styles.donutCenter}>
             <Text style={styles.donutCenterLabel}>BIGGEST</Text>
             <Text style={styles.donutCenterCategory}>
-              {topCategory ? CATEGORY_LABELS[topCategory[0]] : '—'}
+              {topCategory ? categoryDisplay(categories, topCategory[0]).label : '—'}
             </Text>
           </View>
         </View>
@@ -205,8 +182,8 @@ export function SpendingChart({
         <View style={styles.donutLegend}>
           {entries.map(([cat]) => (
             <View key={cat} style={styles.legendItem}>
-              <View style={[styles.legendDot, { backgroundColor: CATEGORY_COLORS[cat] }]} />
-              <Text style={styles.legendLabel}>{CATEGORY_LABELS[cat].toUpperCase()}</Text>
+              <View style={[styles.legendDot, { backgroundColor: categoryDisplay(categories, cat).color }]} />
+              <Text style={styles.legendLabel}>{categoryDisplay(categories, cat).label.toUpperCase()}</Text>
             </View>
           ))}
         </View>
@@ -7,25 +7,27 @@ import {
   Platform,
   TouchableOpacity,
 } from 'react-native';
-import { Transaction, TransactionCategory } from '../types';
+import { Transaction, TransactionCategory, TransactionSplit, Category } from '../types';
+import { categoryDisplay } from '../services/categories';
 
 interface TransactionListProps {
   transactions: Transaction[];
   limit?: number;
+  /** Enables tapping a purchase to split it across categories */
+  onSplit?: (transactionId: string, splits: TransactionSplit[]) => Promise<void>;
+  /** Enables moving a transaction to another category, optionally as a rule for the merchant */
+  onRecategorize?: (transactionId: string, category: TransactionCategory, createRule: boolean) => Promise<void>;
+  /** The user's categories (icons, colors, and what can be picked) */
+  categories?: Category[];
+  /** Enables creating a new category while moving a transaction */
+  onAddCategory?: (name: string) => Promise<Category>;
+  /** Enables tagging a transaction (#trip-nyc) and adding a note */
+  onAnnotate?: (transactionId: string, tags: string[], note: string | null) => Promise<void>;
 }
 
-const CATEGORY_INFO: Record<TransactionCategory, { icon: string; label: string; color: string }> = {
-  food_dining: { icon: '☕', label: 'DINING', color: '#fff9c4' },
-  groceries: { icon: '🛒', label: 'GROCERIES', color: '#c8e6c9' },
-  transport: { icon: '🚗', label: 'TRANSPORT', color: '#bbdefb' },
-  entertainment: { icon: '🎭', label: 'ENTERTAINMENT', color: '#e1bee7' },
-  shopping: { icon: '🛍️', label: 'SHOPPING', color: '#fff9c4' },
-  subscriptions: { icon: '📱', label: 'SUBSCRIPTION', color: '#bbdefb' },
-  utilities: { icon: '💡', label: 'UTILITIES', color: '#bbdefb' },
-  education: { icon: '📚', label: 'EDUCATION', color: '#c8e6c9' },
-  health: { icon: '💊', label: 'HEALTH', color: '#f8bbd0' },
-  other: { icon: '💰', label: 'OTHER', color: '#ffece6' },
-};
+type CardPanel = 'menu' | 'rule' | 'split' | 'notes';
+
+const MAX_SPLITS = 10;
 
 function formatDate(date: Date): string {
   const now = new Date();
@@ -42,68 +44,498 @@ function formatTime(date: Date): string {
   return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
 }
 
-function TransactionCard({ transaction }: { transaction: Transaction }) {
-  const info = CATEGORY_INFO[transaction.category];
-  const isRecurring = transaction.isSubscription;
-  const isNew = (new Date().getTime() - transaction.date.getTime()) < 1000 * 60 * 60 * 6; // within 6 hours
-  const isBill = transaction.amount >= 100;
-  const isIncoming = transaction.isIncoming === true;
+// Category names to pick from; without the user's list (offline) offer the current one and Other
+function pickableCategories(categories: Category[], transaction: Transaction): TransactionCategory[] {
+  const names = categories.map((c) => c.name);
+  return names.length > 0 ? names : [...new Set([transaction.category, 'Other'])];
+}
+
+function categoryInfo(categories: Category[], name: TransactionCategory) {
+  const display = categoryDisplay(categories, name);
+  return { ...display, label: display.label.toUpperCase() };
+}
+
+interface SplitRow {
+  category: TransactionCategory;
+  amountText: string;
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+function initialSplitRows(transaction: Transaction, names: TransactionCategory[]): SplitRow[] {
+  if (transaction.splits?.length) {
+    return transaction.splits.map((s) => ({ category: s.category, amountText: s.amount.toFixed(2) }));
+  }
+  // Start with an even split between the current category and the next one
+  const half = Math.floor(toCents(transaction.amount) / 2) / 100;
+  const other = names.find((c) => c !== transaction.category) ?? 'Other';
+  return [
+    { category: transaction.category, amountText: (transaction.amount - half).toFixed(2) },
+    { category: other, amountText: half.toFixed(2) },
+  ];
+}
+
+function SplitEditor({
+  transaction,
+  categories,
+  onSave,
+  onClose,
+}: {
+  transaction: Transaction;
+  categories: Category[];
+  onSave: (splits: TransactionSplit[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const names = pickableCategories(categories, transaction);
+  const [rows, setRows] = useState<SplitRow[]>(() => initialSplitRows(transaction, names));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = rows.map((r) => parseFloat(r.amountText));
+  const remainingCents = toCents(transaction.amount) - parsed.reduce((sum, a) => sum + (Number.isFinite(a) ? toCents(a) : 0), 0);
+  const canSave = rows.length >= 2 && remainingCents === 0 && parsed.every((a) => Number.isFinite(a) && a > 0) && !saving;
+
+  const updateRow = (index: number, changes: Partial<SplitRow>) => {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)));
+  };
+
+  const cycleCategory = (index: number) => {
+    const next = (names.indexOf(rows[index].category) + 1) % names.length;
+    updateRow(index, { category: names[next] });
+  };
+
+  const addRow = () => {
+    setRows((prev) => [...prev, { category: 'Other', amountText: Math.max(0, remainingCents / 100).toFixed(2) }]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const save = async (splits: TransactionSplit[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(splits);
+      onClose();
+    } catch {
+      setError("Couldn't save the split. Try again!");
+      setSaving(false);
+    }
+  };
 
   return (
-    <View style={styles.card}>
-      <View style={[styles.cardIcon, { backgroundColor: info.color }]}>
-        <Text style={styles.cardIconText}>{info.icon}</Text>
+    <View style={styles.splitEditor}>
+      {rows.map((row, index) => (
+        <View key={index} style={styles.splitRow}>
+          <TouchableOpacity
+            style={[styles.splitCategory, { backgroundColor: categoryInfo(categories, row.category).color }]}
+            onPress={() => cycleCategory(index)}
+          >
+            <Text style={styles.splitCategoryText}>
+              {categoryInfo(categories, row.category).icon} {categoryInfo(categories, row.category).label}
+            </Text>
+          </TouchableOpacity>
+          <TextInput
+            style={styles.splitAmountInput}
+            value={row.amountText}
+            onChangeText={(text) => updateRow(index, { amountText: text })}
+            keyboardType="decimal-pad"
+          />
+          {rows.length > 2 && (
+            <TouchableOpacity style={styles.splitRemove} onPress={() => removeRow(index)}>
+              <Text style={styles.splitRemoveText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      <Text style={[styles.splitRemaining, remainingCents !== 0 && styles.splitRemainingOff]}>
+        {remainingCents === 0
+          ? 'ALL SPLIT UP!'
+          : `${remainingCents > 0 ? 'LEFT' : 'OVER'}: $${(Math.abs(remainingCents) / 100).toFixed(2)}`}
+      </Text>
+      {error && <Text style={styles.splitError}>{error}</Text>}
+
+      <View style={styles.splitActions}>
+        {rows.length < MAX_SPLITS && (
+          <TouchableOpacity style={styles.splitButton} onPress={addRow}>
+            <Text style={styles.splitButtonText}>+ PART</Text>
+          </TouchableOpacity>
+        )}
+        {transaction.splits?.length ? (
+          <TouchableOpacity style={styles.splitButton} onPress={() => save([])} disabled={saving}>
+            <Text style={styles.splitButtonText}>UNSPLIT</Text>
+          </TouchableOpacity>
+        ) : null}
+        <TouchableOpacity style={styles.splitButton} onPress={onClose}>
+          <Text style={styles.splitButtonText}>CANCEL</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.splitButton, styles.splitButtonPrimary, !canSave && styles.splitButtonDisabled]}
+          onPress={() => save(rows.map((r, i) => ({ category: r.category, amount: parsed[i] })))}
+          disabled={!canSave}
+        >
+          <Text style={styles.splitButtonText}>SAVE</Text>
+        </TouchableOpacity>
       </View>
+    </View>
+  );
+}
 
-      <View style={styles.cardContent}>
-        <View style={styles.cardTopRow}>
-          <Text style={styles.merchantName} numberOfLines={1}>
-            {transaction.merchant.toUpperCase()}
-          </Text>
-          {isNew && (
-            <View style={styles.tagNew}>
-              <Text style={styles.tagText}>NEW</Text>
-            </View>
-          )}
-          {isIncoming && (
-            <View style={styles.tagIncoming}>
-              <Text style={styles.tagText}>INCOME</Text>
+function NotesEditor({
+  transaction,
+  onSave,
+  onClose,
+}: {
+  transaction: Transaction;
+  onSave: (tags: string[], note: string | null) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [tagsText, setTagsText] = useState(() => (transaction.tags ?? []).map((t) => `#${t}`).join(' '));
+  const [note, setNote] = useState(transaction.note ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const tags = tagsText.split(/[\s,]+/).map((t) => t.replace(/^#+/, '')).filter(Boolean);
+      await onSave(tags, note.trim() || null);
+      onClose();
+    } catch {
+      setError("Couldn't save those tags. Use letters, digits and dashes!");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.splitEditor}>
+      <Text style={styles.panelTitle}>TAGS:</Text>
+      <TextInput
+        style={[styles.splitAmountInput, styles.notesInput]}
+        value={tagsText}
+        onChangeText={setTagsText}
+        placeholder="#trip-nyc #reimbursable"
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <Text style={styles.panelTitle}>NOTE:</Text>
+      <TextInput
+        style={[styles.splitAmountInput, styles.notesInput]}
+        value={note}
+        onChangeText={setNote}
+        placeholder="What was this for?"
+        maxLength={500}
+        multiline
+      />
+      {error && <Text style={styles.splitError}>{error}</Text>}
+      <View style={styles.splitActions}>
+        <TouchableOpacity style={styles.splitButton} onPress={onClose}>
+          <Text style={styles.splitButtonText}>CANCEL</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.splitButton, styles.splitButtonPrimary, saving && styles.splitButtonDisabled]}
+          onPress={save}
+          disabled={saving}
+        >
+          <Text style={styles.splitButtonText}>SAVE</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+function CategoryMenu({
+  transaction,
+  categories,
+  onPick,
+  onAddCategory,
+  onSplit,
+  onNotes,
+}: {
+  transaction: Transaction;
+  categories: Category[];
+  onPick?: (category: TransactionCategory) => void;
+  onAddCategory?: (name: string) => Promise<Category>;
+  onSplit?: () => void;
+  onNotes?: () => void;
+}) {
+  const [newName, setNewName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const addAndPick = async () => {
+    const name = newName?.trim();
+    if (!name || !onAddCategory || !onPick) return;
+    setError(null);
+    try {
+      const created = await onAddCategory(name);
+      setNewName(null);
+      onPick(created.name);
+    } catch {
+      setError("Couldn't add that category. Try another name!");
+    }
+  };
+
+  return (
+    <View style={styles.splitEditor}>
+      {onPick && (
+        <>
+          <Text style={styles.panelTitle}>MOVE TO:</Text>
+          <View style={styles.categoryChips}>
+            {pickableCategories(categories, transaction).filter((c) => c !== transaction.category).map((category) => (
+              <TouchableOpacity
+                key={category}
+                style={[styles.splitCategory, styles.categoryChip, { backgroundColor: categoryInfo(categories, category).color }]}
+                onPress={() => onPick(category)}
+              >
+                <Text style={styles.splitCategoryText}>
+                  {categoryInfo(categories, category).icon} {categoryInfo(categories, category).label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {onAddCategory && newName === null && (
+              <TouchableOpacity style={[styles.splitCategory, styles.categoryChip]} onPress={() => setNewName('')}>
+                <Text style={styles.splitCategoryText}>+ NEW</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {newName !== null && (
+            <View style={styles.splitRow}>
+              <TextInput
+                style={[styles.splitAmountInput, styles.newCategoryInput]}
+                value={newName}
+                onChangeText={setNewName}
+                placeholder="Category name"
+                autoFocus
+                onSubmitEditing={addAndPick}
+              />
+              <TouchableOpacity style={[styles.splitButton, styles.splitButtonPrimary]} onPress={addAndPick}>
+                <Text style={styles.splitButtonText}>ADD</Text>
+              </TouchableOpacity>
             </View>
           )}
-          {isRecurring && (
-            <View style={styles.tagRecurring}>
-              <Text style={styles.tagText}>RECURRING</Text>
-            </View>
+          {error && <Text style={styles.splitError}>{error}</Text>}
+        </>
+      )}
+      {(onSplit || onNotes) && (
+        <View style={styles.splitActions}>
+          {onNotes && (
+            <TouchableOpacity style={styles.splitButton} onPress={onNotes}>
+              <Text style={styles.splitButtonText}>TAGS & NOTE</Text>
+            </TouchableOpacity>
           )}
-          {isBill && !isRecurring && !isIncoming && (
-            <View style={styles.tagBill}>
-              <Text style={styles.tagText}>BILL</Text>
-            </View>
+          {onSplit && (
+            <TouchableOpacity style={styles.splitButton} onPress={onSplit}>
+              <Text style={styles.splitButtonText}>{transaction.splits?.length ? 'EDIT SPLIT' : 'SPLIT IT'}</Text>
+            </TouchableOpacity>
           )}
         </View>
-        <Text style={styles.categoryLabel}>
-          {info.label} · {formatTime(transaction.date)}
-        </Text>
-      </View>
+      )}
+    </View>
+  );
+}
+
+function RulePrompt({
+  transaction,
+  category,
+  categories,
+  onConfirm,
+  onBack,
+}: {
+  transaction: Transaction;
+  category: TransactionCategory;
+  categories: Category[];
+  onConfirm: (createRule: boolean) => Promise<void>;
+  onBack: () => void;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-      <View style={[styles.amountBadge, isIncoming && styles.amountBadgeIncoming]}>
-        <Text style={[styles.amountText, isIncoming && styles.amountTextIncoming]}>
-          {isIncoming ? '+' : '-'}${transaction.amount.toFixed(2)}
-        </Text>
+  const confirm = async (createRule: boolean) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onConfirm(createRule);
+    } catch {
+      setError("Couldn't move it. Try again!");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.splitEditor}>
+      <Text style={styles.panelTitle}>
+        ALWAYS FILE {transaction.merchant.toUpperCase()} UNDER {categoryInfo(categories, category).label}?
+      </Text>
+      {error && <Text style={styles.splitError}>{error}</Text>}
+      <View style={styles.splitActions}>
+        <TouchableOpacity style={styles.splitButton} onPress={onBack} disabled={saving}>
+          <Text style={styles.splitButtonText}>BACK</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.splitButton} onPress={() => confirm(false)} disabled={saving}>
+          <Text style={styles.splitButtonText}>JUST THIS ONE</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.splitButton, styles.splitButtonPrimary]} onPress={() => confirm(true)} disabled={saving}>
+          <Text style={styles.splitButtonText}>ALWAYS</Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
 }
 
-export function TransactionList({ transactions, limit }: TransactionListProps) {
+function TransactionCard({
+  transaction,
+  categories,
+  onSplit,
+  onRecategorize,
+  onAddCategory,
+  onAnnotate,
+}: {
+  transaction: Transaction;
+  categories: Category[];
+  onSplit?: TransactionListProps['onSplit'];
+  onRecategorize?: TransactionListProps['onRecategorize'];
+  onAddCategory?: TransactionListProps['onAddCategory'];
+  onAnnotate?: TransactionListProps['onAnnotate'];
+}) {
+  const [panel, setPanel] = useState<CardPanel | null>(null);
+  const [pendingCategory, setPendingCategory] = useState<TransactionCategory | null>(null);
+  const info = categoryInfo(categories, transaction.category);
+  const isRecurring = transaction.isSubscription;
+  const isNew = (new Date().getTime() - transaction.date.getTime()) < 1000 * 60 * 60 * 6; // within 6 hours
+  const isBill = transaction.amount >= 100;
+  const isIncoming = transaction.isIncoming === true;
+  const isSplit = (transaction.splits?.length ?? 0) > 0;
+  const canSplit = !!onSplit && !isIncoming;
+  const canEdit = canSplit || !!onRecategorize || !!onAnnotate;
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={canEdit ? 0.7 : 1}
+        disabled={!canEdit}
+        onPress={() => setPanel((p) => (p ? null : 'menu'))}
+      >
+        <View style={[styles.cardIcon, { backgroundColor: info.color }]}>
+          <Text style={styles.cardIconText}>{info.icon}</Text>
+        </View>
+
+        <View style={styles.cardContent}>
+          <View style={styles.cardTopRow}>
+            <Text style={styles.merchantName} numberOfLines={1}>
+              {transaction.merchant.toUpperCase()}
+            </Text>
+            {isNew && (
+              <View style={styles.tagNew}>
+                <Text style={styles.tagText}>NEW</Text>
+              </View>
+            )}
+            {isIncoming && (
+              <View style={styles.tagIncoming}>
+                <Text style={styles.tagText}>INCOME</Text>
+              </View>
+            )}
+            {isRecurring && (
+              <View style={styles.tagRecurring}>
+                <Text style={styles.tagText}>RECURRING</Text>
+              </View>
+            )}
+            {isBill && !isRecurring && !isIncoming && (
+              <View style={styles.tagBill}>
+                <Text style={styles.tagText}>BILL</Text>
+              </View>
+            )}
+            {isSplit && (
+              <View style={styles.tagSplit}>
+                <Text style={styles.tagText}>SPLIT</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.categoryLabel}>
+            {isSplit
+              ? transaction.splits!.map((s) => `${categoryInfo(categories, s.category).label} $${s.amount.toFixed(2)}`).join(' · ')
+              : `${info.label} · ${formatTime(transaction.date)}`}
+          </Text>
+          {(transaction.tags?.length || transaction.note) ? (
+            <Text style={styles.notesLabel} numberOfLines={1}>
+              {[...(transaction.tags ?? []).map((t) => `#${t}`), transaction.note].filter(Boolean).join(' · ')}
+            </Text>
+          ) : null}
+        </View>
+
+        <View style={[styles.amountBadge, isIncoming && styles.amountBadgeIncoming]}>
+          <Text style={[styles.amountText, isIncoming && styles.amountTextIncoming]}>
+            {isIncoming ? '+' : '-'}${transaction.amount.toFixed(2)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+      {panel === 'menu' && (
+        <CategoryMenu
+          transaction={transaction}
+          categories={categories}
+          onAddCategory={onAddCategory}
+          onPick={onRecategorize ? (category) => { setPendingCategory(category); setPanel('rule'); } : undefined}
+          onSplit={canSplit ? () => setPanel('split') : undefined}
+          onNotes={onAnnotate ? () => setPanel('notes') : undefined}
+        />
+      )}
+      {panel === 'notes' && onAnnotate && (
+        <NotesEditor
+          transaction={transaction}
+          onSave={(tags, note) => onAnnotate(transaction.id, tags, note)}
+          onClose={() => setPanel(null)}
+        />
+      )}
+      {panel === 'rule' && pendingCategory && onRecategorize && (
+        <RulePrompt
+          transaction={transaction}
+          category={pendingCategory}
+          categories={categories}
+          onConfirm={async (createRule) => {
+            await onRecategorize(transaction.id, pendingCategory, createRule);
+            setPanel(null);
+          }}
+          onBack={() => setPanel('menu')}
+        />
+      )}
+      {panel === 'split' && onSplit && (
+        <SplitEditor
+          transaction={transaction}
+          categories={categories}
+          onSave={(splits) => onSplit(transaction.id, splits)}
+          onClose={() => setPanel(null)}
+        />
+      )}
+    </View>
+  );
+}
+
+export function TransactionList({
+  transactions,
+  limit,
+  onSplit,
+  onRecategorize,
+  categories = [],
+  onAddCategory,
+  onAnnotate,
+}: TransactionListProps) {
   const [searchQuery, setSearchQuery] = useState('');
 
+  // "#trip" finds tags; plain text also matches notes
+  const query = searchQuery.toLowerCase();
   const filtered = transactions
     .slice(0, limit)
     .filter((t) =>
-      searchQuery === '' ||
-      t.merchant.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      CATEGORY_INFO[t.category].label.toLowerCase().includes(searchQuery.toLowerCase())
+      query === '' ||
+      t.merchant.toLowerCase().includes(query) ||
+      t.category.toLowerCase().includes(query) ||
+      (t.tags ?? []).some((tag) => `#${tag}`.includes(query)) ||
+      (t.note ?? '').toLowerCase().includes(query)
     );
 
   // Group by date
@@ -148,7 +580,15 @@ export function TransactionList({ transactions, limit }: TransactionListProps) {
             </View>
           </View>
           {section.items.map((transaction) => (
-            <TransactionCard key={transaction.id} transaction={transaction} />
+            <TransactionCard
+              key={transaction.id}
+              transaction={transaction}
+              categories={categories}
+              onSplit={onSplit}
+              onRecategorize={onRecategorize}
+              onAddCategory={onAddCategory}
+              onAnnotate={onAnnotate}
+            />
           ))}
         </View>
       ))}
@@ -334,6 +774,14 @@ const styles = StyleSheet.create({
     paddingHorizontal: 5,
     paddingVertical: 1,
   },
+  tagSplit: {
+    backgroundColor: '#c8e6c9',
+    borderWidth: 1,
+    borderColor: '#000',
+    borderRadius: 4,
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+  },
   tagText: {
     fontFamily: FONT,
     fontSize: 7,
@@ -365,6 +813,136 @@ const styles = StyleSheet.create({
   amountTextIncoming: {
     color: '#4caf50',
   },
+
+  // Split editor
+  splitEditor: {
+    backgroundColor: '#fffdf5',
+    borderWidth: 2,
+    borderColor: '#000',
+    borderTopWidth: 0,
+    borderBottomLeftRadius: 16,
+    borderBottomRightRadius: 16,
+    marginHorizontal: 28,
+    marginTop: -8,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingTop: 14,
+    paddingBottom: 10,
+    gap: 8,
+  },
+  panelTitle: {
+    fontFamily: FONT,
+    fontSize: 10,
+    fontWeight: '900',
+    color: '#000',
+    letterSpacing: 0.5,
+  },
+  categoryChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  categoryChip: {
+    flex: 0,
+  },
+  newCategoryInput: {
+    flex: 1,
+    textAlign: 'left',
+  },
+  notesInput: {
+    width: '100%',
+    textAlign: 'left',
+    marginBottom: 8,
+  },
+  notesLabel: {
+    fontFamily: FONT,
+    fontSize: 9,
+    color: '#666',
+    marginTop: 2,
+  },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  splitCategory: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderColor: '#000',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  splitCategoryText: {
+    fontFamily: FONT,
+    fontSize: 10,
+    fontWeight: '900',
+    color: '#000',
+  },
+  splitAmountInput: {
+    width: 80,
+    borderWidth: 1.5,
+    borderColor: '#000',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 5,
+    fontFamily: FONT,
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#000',
+    textAlign: 'right',
+    backgroundColor: '#fff',
+  },
+  splitRemove: {
+    width: 24,
+    alignItems: 'center',
+  },
+  splitRemoveText: {
+    fontSize: 12,
+    color: '#ff6b6b',
+    fontWeight: '900',
+  },
+  splitRemaining: {
+    fontFamily: FONT,
+    fontSize: 9,
+    fontWeight: '900',
+    color: '#4caf50',
+    letterSpacing: 0.5,
+  },
+  splitRemainingOff: {
+    color: '#ff6b6b',
+  },
+  splitError: {
+    fontFamily: FONT,
+    fontSize: 9,
+    color: '#ff6b6b',
+  },
+  splitActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  splitButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1.5,
+    borderColor: '#000',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  splitButtonPrimary: {
+    backgroundColor: '#fff9c4',
+  },
+  splitButtonDisabled: {
+    opacity: 0.4,
+  },
+  splitButtonText: {
+    fontFamily: FONT,
+    fontSize: 10,
+    fontWeight: '900',
+    color: '#000',
+  },
 });
 
 export default TransactionList;
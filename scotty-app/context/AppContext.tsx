@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 import {
   Transaction,
+  TransactionSplit,
   Achievement,
   ScottyState,
   HealthMetrics,
@@ -11,7 +12,10 @@ import {
   BudgetItem,
   AccountInfo,
   TransactionCategory,
+  Category,
   Quest,
+  QuestChain,
+  Campaign,
   GoalData,
   ChatAction,
   BudgetProjectionsResponse,
@@ -22,6 +26,7 @@ import {
 } from '../services/healthScore';
 import { generateDailyInsight, generateChatResponse } from '../services/ai';
 import { getSpendingByCategory } from '../services/transactionMetrics';
+import { categoryFamily } from '../services/categories';
 import {
   checkBackendHealth,
   fetchDailyPayload,
@@ -35,16 +40,36 @@ import {
   fetchActiveQuest,
   mapInsightToFrontend,
   fetchBudgets,
+  fetchCategories,
+  createCategory as createCategoryAPI,
   fetchBudgetProjections,
   fetchAccounts,
   fetchTodaySpend,
+  syncTimezone,
   fetchDailyQuests,
   refreshDailyQuests,
   fetchSpendingTrend,
   fetchUpcomingBills,
   fetchGoals,
+  fetchQuestChains,
+  fetchCampaigns,
+  joinCampaign as joinCampaignAPI,
+  updateQuestLifecycle,
+  fetchQuestRerolls,
+  QuestLifecycleAction,
+  subscribeToEvents,
+  LiveEvent,
+  saveTransactionSplits,
+  recategorizeTransaction as recategorizeTransactionAPI,
+  saveTransactionTags,
+  saveTransactionNote,
   generateBudgets,
   fetchChatSuggestedActions,
+  loadAuthToken,
+  hasAuthToken,
+  logIn as logInAPI,
+  signUp as signUpAPI,
+  logOut as logOutAPI,
   UpcomingBillsData,
   GoalData as APIGoalData,
 } from '../services/api';
@@ -75,6 +100,7 @@ interface AppState {
   allInsights: DailyInsight[];
 
   // Financial data
+  categories: Category[];
   budgets: BudgetItem[];
   accounts: AccountInfo[];
   totalBalance: number;
@@ -85,6 +111,9 @@ interface AppState {
 
   // Quests, goals & trends
   quests: Quest[];
+  questRerolls: number; // swaps left this week
+  questChains: QuestChain[];
+  campaigns: Campaign[];
   goals: GoalData[];
   spendingTrend: { months: string[]; totals: number[] };
   upcomingBills: UpcomingBillsData | null;
@@ -96,6 +125,9 @@ interface AppState {
   // Connection status
   backendConnected: boolean;
 
+  // Auth
+  isAuthenticated: boolean;
+
   // Onboarding
   onboarding: {
     agreedToPact: boolean;
@@ -115,12 +147,21 @@ interface AppState {
   refreshInsight: () => Promise<void>;
   cycleInsight: () => void;
   refreshGoals: () => Promise<void>;
+  splitTransaction: (transactionId: string, splits: TransactionSplit[]) => Promise<void>;
+  recategorizeTransaction: (transactionId: string, category: TransactionCategory, createRule: boolean) => Promise<void>;
+  annotateTransaction: (transactionId: string, tags: string[], note: string | null) => Promise<void>;
+  joinCampaign: (campaignId: string) => Promise<void>;
+  updateQuest: (questId: string, action: QuestLifecycleAction, reason?: string) => Promise<void>;
+  addCategory: (name: string, parentId?: string | null) => Promise<Category>;
   loadChatActions: () => Promise<void>;
   setOnboardingAgreed: (value: boolean) => void;
   advanceTutorial: () => void;
   skipTutorial: () => void;
   completeTutorial: () => void;
   resetTutorial: () => void;
+  logIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
+  logOut: () => Promise<void>;
 }
 
 const defaultScottyState: ScottyState = {
@@ -194,16 +235,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [dailyInsight, setDailyInsight] = useState<DailyInsight | null>(null);
   const [allInsights, setAllInsights] = useState<DailyInsight[]>([]);
   const insightIndexRef = useRef(0);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [budgets, setBudgets] = useState<BudgetItem[]>([]);
   const [accounts, setAccounts] = useState<AccountInfo[]>([]);
   const [totalBalance, setTotalBalance] = useState(0);
   const [dailySpend, setDailySpend] = useState(0);
   const [budgetProjections, setBudgetProjections] = useState<BudgetProjectionsResponse | null>(null);
   const [quests, setQuests] = useState<Quest[]>([]);
+  const [questRerolls, setQuestRerolls] = useState(0);
+  const [questChains, setQuestChains] = useState<QuestChain[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [goals, setGoals] = useState<GoalData[]>([]);
   const [spendingTrend, setSpendingTrend] = useState<{ months: string[]; totals: number[] }>({ months: [], totals: [] });
   const [upcomingBills, setUpcomingBills] = useState<UpcomingBillsData | null>(null);
   const [backendConnected, setBackendConnected] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [onboardingAgreed, setOnboardingAgreed] = useState(false);
   const [tutorialActive, setTutorialActive] = useState(false);
   const [tutorialStep, setTutorialStep] = useState(0);
@@ -246,9 +292,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(intervalId);
   }, []);
 
+  // Live updates from the backend: apply pushed events to state instead of refetching
+  useEffect(() => {
+    if (!backendConnected || !isAuthenticated) return;
+    return subscribeToEvents(applyLiveEvent);
+  }, [backendConnected, isAuthenticated]);
+
   // Initialize on mount: show mock data immediately, then try backend in background
   useEffect(() => {
-    initializeApp();
+    loadAuthToken()
+      .catch(() => null)
+      .then((token) => {
+        setIsAuthenticated(!!token);
+        initializeApp();
+      });
   }, []);
 
   useEffect(() => {
@@ -297,7 +354,8 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   async function initializeApp() {
     const isHealthy = await checkBackendHealth();
-    if (!isHealthy) {
+    // Backend data is per-account; until the user signs in, show mock data
+    if (!isHealthy || !hasAuthToken()) {
       initializeFromMock();
       return;
     }
@@ -314,6 +372,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   async function loadFromBackend() {
     console.log('[AppContext] Loading data from backend...');
+
+    // "Today" on the backend follows the profile's timezone; keep it on the device's
+    await syncTimezone().catch((err) => console.warn('[AppContext] Timezone sync failed:', err));
     
     const [txns, metrics, scotty, userProfile] = await Promise.all([
       fetchTransactions(30),
@@ -335,28 +396,22 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
     // Fetch budgets, accounts, daily spend (non-critical, don't block)
     try {
-      const [budgetData, accountData, todaySpend, projectionsData] = await Promise.all([
+      const [budgetData, categoryData, accountData, todaySpend, projectionsData] = await Promise.all([
         fetchBudgets().catch((err) => { console.warn('[AppContext] Budget fetch failed:', err); return []; }),
+        fetchCategories().catch((err) => { console.warn('[AppContext] Categories fetch failed:', err); return [] as Category[]; }),
         fetchAccounts().catch((err) => { console.warn('[AppContext] Accounts fetch failed:', err); return { accounts: [] as AccountInfo[], totalBalance: 0 }; }),
         fetchTodaySpend().catch((err) => { console.warn('[AppContext] Daily spend fetch failed:', err); return 0; }),
         fetchBudgetProjections().catch((err) => { console.warn('[AppContext] Projections fetch failed:', err); return null; }),
       ]);
 
+      setCategories(categoryData);
+
       if (budgetData.length > 0) {
-        // Compute spent per budget category from transactions
-        // Group Groceries into Food & Drink so grocery spend counts toward that budget
-        const catMap: Record<string, string[]> = {
-          'Food & Drink': ['food_dining', 'groceries'],
-          'Groceries': ['groceries'],
-          'Transportation': ['transport'],
-          'Entertainment': ['entertainment'],
-          'Shopping': ['shopping'],
-          'Health': ['health'],
-          'Subscription': ['subscriptions'],
-        };
+        // Compute spent per budget category from transactions;
+        // subcategories (e.g. Groceries under Food & Drink) count toward the parent's budget
         const today = new Date();
         const budgetsWithSpend = budgetData.map(b => {
-          const matchCategories = catMap[b.category] || ['other'];
+          const matchCategories = categoryFamily(categoryData, b.category);
           const catTxns = txns.filter(t => matchCategories.includes(t.category));
           // Sum spending in current period
           const periodDays = b.frequency === 'Day' ? 1 : b.frequency === 'Week' ? 7 : 30;
@@ -387,14 +442,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
       // Non-critical data — keep defaults
     }
 
-    // Fetch quests, goals, spending trend, upcoming bills (non-critical)
+    // Fetch quests, chains, campaigns, goals, spending trend, upcoming bills (non-critical)
     try {
-      const [questsData, goalsData, trendData, billsData] = await Promise.all([
+      const [questsData, rerollsData, chainsData, campaignsData, goalsData, trendData, billsData] = await Promise.all([
         fetchDailyQuests().catch(() => []),
+        fetchQuestRerolls().catch(() => 0),
+        fetchQuestChains().catch(() => []),
+        fetchCampaigns().catch(() => []),
         fetchGoals().catch(() => []),
         fetchSpendingTrend().catch(() => ({ months: [], totals: [] })),
         fetchUpcomingBills().catch(() => null),
       ]);
+      setQuestRerolls(rerollsData);
+      setQuestChains(chainsData);
+      setCampaigns(campaignsData);
 
       if (questsData.length > 0) {
         setQuests(questsData);
@@ -451,6 +512,49 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  // Apply one pushed event. Only state setters are used, so a stale closure is fine.
+  function applyLiveEvent(event: LiveEvent) {
+    switch (event.type) {
+      case 'transaction.ingested': {
+        const changed = new Map(event.transactions.map((t) => [t.id, t]));
+        setTransactions((prev) => {
+          const known = new Set(prev.map((t) => t.id));
+          const added = event.transactions.filter((t) => !known.has(t.id));
+          return [...added, ...prev.map((t) => changed.get(t.id) ?? t)]
+            .filter((t) => !event.removedIds.includes(t.id))
+            .sort((a, b) => b.date.getTime() - a.date.getTime());
+        });
+        break;
+      }
+      case 'quest.progress':
+        setQuests((prev) => prev.map((q) =>
+          q.id === event.questId
+            ? { ...q, status: event.status, progress: event.progress, goalTarget: event.explanation || q.goalTarget }
+            : q
+        ));
+        break;
+      case 'quest.completed':
+        // A completed chain step may have unlocked the next one
+        Promise.all([fetchDailyQuests(), fetchQuestChains()])
+          .then(([questsData, chainsData]) => {
+            setQuests(questsData);
+            setQuestChains(chainsData);
+          })
+          .catch(() => undefined);
+        break;
+      case 'scotty.state_changed':
+        setScottyState(event.scottyState);
+        break;
+      case 'insight.created':
+        setAllInsights((prev) => [...prev, event.insight]);
+        setDailyInsight((prev) => prev ?? event.insight);
+        break;
+      case 'action.created':
+        // No screen lists queued actions yet
+        break;
+    }
+  }
+
   // Feed Scotty
   const feedScotty = async (type: FoodType) => {
     if (backendConnected) {
@@ -570,6 +674,67 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Split a transaction across categories (empty list removes the split)
+  const splitTransaction = async (transactionId: string, splits: TransactionSplit[]) => {
+    const saved = backendConnected ? await saveTransactionSplits(transactionId, splits) : splits;
+    setTransactions((prev) => prev.map((t) =>
+      t.id === transactionId ? { ...t, splits: saved && saved.length > 0 ? saved : undefined } : t
+    ));
+  };
+
+  // Move a transaction to another category; a rule also re-files the merchant's other transactions
+  const recategorizeTransaction = async (transactionId: string, category: TransactionCategory, createRule: boolean) => {
+    if (backendConnected) {
+      const { reapplied } = await recategorizeTransactionAPI(transactionId, category, createRule);
+      if (reapplied > 0) {
+        setTransactions(await fetchTransactions(30));
+        return;
+      }
+    }
+    setTransactions((prev) => prev.map((t) => (t.id === transactionId ? { ...t, category } : t)));
+  };
+
+  // Save a transaction's tags and note (the backend normalizes tags to lowercase without '#')
+  const annotateTransaction = async (transactionId: string, tags: string[], note: string | null) => {
+    let savedTags = tags.map((t) => t.replace(/^#+/, '').toLowerCase()).filter(Boolean);
+    let savedNote = note?.trim() || null;
+    if (backendConnected) {
+      savedTags = await saveTransactionTags(transactionId, tags);
+      savedNote = await saveTransactionNote(transactionId, note);
+    }
+    setTransactions((prev) => prev.map((t) =>
+      t.id === transactionId
+        ? { ...t, tags: savedTags.length > 0 ? savedTags : undefined, note: savedNote ?? undefined }
+        : t
+    ));
+  };
+
+  // Opt into a seasonal campaign; its first quest shows up with the other quests
+  const joinCampaign = async (campaignId: string) => {
+    const chain = await joinCampaignAPI(campaignId);
+    setQuestChains((prev) => [chain, ...prev]);
+    setCampaigns((prev) => prev.map((c) => (c.id === campaignId ? { ...c, joined: true } : c)));
+    setQuests(await fetchDailyQuests());
+  };
+
+  // Answer a quest offer or pause/resume/abandon an active quest. A swap
+  // replaces the offer with its alternative; declined and abandoned quests drop out.
+  const updateQuest = async (questId: string, action: QuestLifecycleAction, reason?: string) => {
+    const updated = await updateQuestLifecycle(questId, action, reason);
+    setQuests((prev) => {
+      if (action === 'decline' || action === 'abandon') return prev.filter((q) => q.id !== questId);
+      return prev.map((q) => (q.id === questId ? { ...updated, bgColor: q.bgColor } : q));
+    });
+    if (action === 'swap') setQuestRerolls((prev) => Math.max(0, prev - 1));
+  };
+
+  // Create a custom category (optionally under a parent) and add it to the list
+  const addCategory = async (name: string, parentId: string | null = null) => {
+    const category = await createCategoryAPI({ name, parentId });
+    setCategories((prev) => [...prev, category]);
+    return category;
+  };
+
   // Refresh insight
   const refreshInsight = async () => {
     if (backendConnected) {
@@ -634,6 +799,25 @@ export function AppProvider({ children }: { children: ReactNode }) {
     completeTutorial();
   };
 
+  const logIn = async (email: string, password: string) => {
+    await logInAPI(email, password);
+    setIsAuthenticated(true);
+    await initializeApp();
+  };
+
+  const signUp = async (email: string, password: string) => {
+    await signUpAPI(email, password);
+    setIsAuthenticated(true);
+    await initializeApp();
+  };
+
+  const logOut = async () => {
+    await logOutAPI().catch(() => undefined);
+    setIsAuthenticated(false);
+    setBackendConnected(false);
+    initializeFromMock();
+  };
+
   const resetTutorial = () => {
     AsyncStorage.removeItem(TUTORIAL_STORAGE_KEY).catch(() => undefined);
     setTutorialStep(0);
@@ -653,18 +837,23 @@ export function AppProvider({ children }: { children: ReactNode }) {
         healthMetrics,
         dailyInsight,
         allInsights,
+        categories,
         budgets,
         budgetProjections,
         accounts,
         totalBalance,
         dailySpend,
         quests,
+        questRerolls,
+        questChains,
+        campaigns,
         goals,
         spendingTrend,
         upcomingBills,
         chatMessages,
         chatActions,
         backendConnected,
+        isAuthenticated,
         onboarding: { agreedToPact: onboardingAgreed },
         tutorial: { active: tutorialActive, step: tutorialStep },
         feedScotty,
@@ -674,12 +863,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
         refreshInsight,
         cycleInsight,
         refreshGoals,
+        splitTransaction,
+        recategorizeTransaction,
+        annotateTransaction,
+        joinCampaign,
+        updateQuest,
+        addCategory,
         loadChatActions,
         setOnboardingAgreed,
         advanceTutorial,
         skipTutorial,
         completeTutorial,
         resetTutorial,
+        logIn,
+        signUp,
+        logOut,
       }}
     >
       {children}
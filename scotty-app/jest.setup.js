@@ -12,11 +12,21 @@ jest.mock('expo-router', () => {
       replace: jest.fn(),
       back: jest.fn(),
     }),
+    router: {
+      push: jest.fn(),
+      replace: jest.fn(),
+      back: jest.fn(),
+    },
     useLocalSearchParams: () => ({}),
     Link: ({ children, ...props }) => React.createElement('View', props, children),
   };
 });
 
+// Mock AsyncStorage (official jest mock; native module is unavailable under jest)
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
 // Mock expo-splash-screen
 jest.mock('expo-splash-screen', () => ({
   preventAutoHideAsync: jest.fn(() => Promise.resolve()),
@@ -143,7 +143,7 @@ function generateMockChatResponse(userMessage: string, transactions: Transaction
   }
 
   if (lowerMessage.includes('food') || lowerMessage.includes('eating')) {
-    const foodSpend = (spending.food_dining || 0) + (spending.groceries || 0);
+    const foodSpend = (spending['Food & Drink'] || 0) + (spending['Groceries'] || 0);
     return `You've spent $${foodSpend.toFixed(0)} on food this month. ${foodSpend > 300 ? "That's a bit ruff on the budget - maybe try meal prepping?" : "Not bad at all! Good balance between dining out and groceries."}`;
   }
 
@@ -206,7 +206,7 @@ function generateMockAchievements(transactions: Transaction[]): Achievement[] {
       description: `You've spent $${deliverySpend.toFixed(0)} on delivery. Cook all meals for 5 days to save ~$40!`,
       targetAmount: Math.round(deliverySpend * 0.6),
       completed: false,
-      category: 'food_dining',
+      category: 'Food & Drink',
       aiGenerated: true,
     });
   }
@@ -223,19 +223,19 @@ function generateMockAchievements(transactions: Transaction[]): Achievement[] {
       description: 'Make your own coffee Mon-Thu, treat yourself Friday. Save ~$15 this week!',
       targetAmount: 15,
       completed: false,
-      category: 'food_dining',
+      category: 'Food & Drink',
       aiGenerated: true,
     });
   }
 
   // Entertainment budget
-  if ((spending.entertainment || 0) > 60) {
+  if ((spending['Entertainment'] || 0) > 60) {
     achievements.push({
       id: `ach_${Date.now()}_3`,
       title: '🎮 Free Fun Friday',
       description: 'Find 3 free entertainment activities this week (parks, game nights, campus events).',
       completed: false,
-      category: 'entertainment',
+      category: 'Entertainment',
       aiGenerated: true,
     });
   }
@@ -304,7 +304,7 @@ function generateMockInsight(transactions: Transaction[]): DailyInsight {
   }
 
   // Grocery insight
-  if ((spending.groceries || 0) > (spending.food_dining || 0)) {
+  if ((spending['Groceries'] || 0) > (spending['Food & Drink'] || 0)) {
     insights.push({
       message: "Nice! You're spending more on groceries than dining out. Smart money moves!",
       type: 'positive',
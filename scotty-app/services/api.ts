@@ -1,6 +1,8 @@
 import {
   Transaction,
   TransactionCategory,
+  TransactionSplit,
+  Category,
   Achievement,
   ScottyState,
   HealthMetrics,
@@ -9,6 +11,8 @@ import {
   BudgetItem,
   AccountInfo,
   Quest,
+  QuestChain,
+  Campaign,
   UserProfile,
   ChatAction,
   BudgetProjectionsResponse,
@@ -32,6 +36,8 @@ import {
 
 import { Platform } from 'react-native';
 import Constants from 'expo-constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { router } from 'expo-router';
 
 // Auto-detect the development server IP from Expo
 const getDevServerHost = (): string => {
@@ -85,59 +91,70 @@ if (__DEV__) {
   console.log(`[API] Base URL: ${API_BASE_URL} (platform: ${Platform.OS})`);
 }
 
-// Default user for prototype (matches seed data)
-const DEFAULT_USER_ID = 'user_1';
-
-// ─── Category Mapping ───
-// Backend uses Plaid-style categories, frontend uses enum keys
-const BACKEND_TO_FRONTEND_CATEGORY: Record<string, TransactionCategory> = {
-  'Food & Drink': 'food_dining',
-  'Food and Drink': 'food_dining',
-  'Groceries': 'groceries',
-  'Transportation': 'transport',
-  'Travel': 'transport',
-  'Entertainment': 'entertainment',
-  'Recreation': 'entertainment',
-  'Shopping': 'shopping',
-  'Merchandise': 'shopping',
-  'Subscription': 'subscriptions',
-  'Service': 'subscriptions',
-  'Utilities': 'utilities',
-  'Education': 'education',
-  'Health': 'health',
-  'Healthcare': 'health',
-  'Medical': 'health',
-  'Transfer': 'other',
-  'Payment': 'other',
-  'Other': 'other',
-};
+// ─── Auth Token ───
+// The backend identifies the user from the bearer token, never from a user_id param.
+const AUTH_TOKEN_STORAGE_KEY = 'scotty_auth_token';
+let authToken: string | null = null;
+
+// The backend's opt-in demo login (its DEMO_EMAIL / DEMO_PASSWORD), for
+// development builds only. Set EXPO_PUBLIC_DEMO_PASSWORD to show the button.
+export const DEMO_CREDENTIALS: { email: string; password: string } | null =
+  __DEV__ && process.env.EXPO_PUBLIC_DEMO_PASSWORD
+    ? {
+        email: process.env.EXPO_PUBLIC_DEMO_EMAIL || 'demo@scotty.app',
+        password: process.env.EXPO_PUBLIC_DEMO_PASSWORD,
+      }
+    : null;
+
+export interface AuthSession {
+  token: string;
+  user_id: string;
+  email: string;
+  expires_at: string;
+}
 
-function mapCategory(backendCategory: string | null): TransactionCategory {
-  if (!backendCategory) return 'other';
-  // Try exact match first
-  if (BACKEND_TO_FRONTEND_CATEGORY[backendCategory]) {
-    return BACKEND_TO_FRONTEND_CATEGORY[backendCategory];
-  }
-  // Try partial match
-  const lower = backendCategory.toLowerCase();
-  for (const [key, value] of Object.entries(BACKEND_TO_FRONTEND_CATEGORY)) {
-    if (lower.includes(key.toLowerCase())) return value;
+async function setAuthToken(token: string | null): Promise<void> {
+  authToken = token;
+  if (token) {
+    await AsyncStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token).catch(() => undefined);
+  } else {
+    await AsyncStorage.removeItem(AUTH_TOKEN_STORAGE_KEY).catch(() => undefined);
   }
-  return 'other';
+}
+
+/**
+ * Restore a previously saved session token. Call once on app start.
+ */
+export async function loadAuthToken(): Promise<string | null> {
+  authToken = await AsyncStorage.getItem(AUTH_TOKEN_STORAGE_KEY).catch(() => null);
+  return authToken;
+}
+
+export function hasAuthToken(): boolean {
+  return !!authToken;
 }
 
 // ─── API Helpers ───
 async function apiFetch<T>(path: string, options?: RequestInit): Promise<T> {
   const url = `${API_BASE_URL}${path}`;
 
+  const sentToken = authToken;
+
   const response = await fetch(url, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(sentToken ? { Authorization: `Bearer ${sentToken}` } : {}),
       ...options?.headers,
     },
   });
 
+  // Expired or revoked session: drop it and send the user back through onboarding
+  if (response.status === 401 && sentToken) {
+    await setAuthToken(null);
+    router.replace('/(onboarding)/adoption');
+  }
+
   if (!response.ok) {
     const body = await response.text();
     throw new Error(`API ${response.status}: ${body}`);
@@ -157,29 +174,168 @@ interface BackendTransaction {
   category_primary: string | null;
   category_detailed: string | null;
   pending: boolean;
+  splits?: BackendTransactionSplit[];
+  metadata?: { tags?: string[]; note?: string };
+}
+
+interface BackendTransactionSplit {
+  category: string;
+  amount: number;
+}
+
+function mapSplits(splits: BackendTransactionSplit[] | undefined): TransactionSplit[] | undefined {
+  if (!splits || splits.length === 0) return undefined;
+  return splits.map((s) => ({ category: s.category, amount: Math.abs(s.amount) }));
 }
 
 function mapTransaction(bt: BackendTransaction): Transaction {
   return {
     id: bt.id,
     amount: Math.abs(bt.amount),
-    category: mapCategory(bt.category_primary),
+    category: bt.category_primary || 'Other',
     merchant: bt.merchant_name || bt.name,
     date: new Date(bt.date),
     isSubscription: bt.category_primary?.toLowerCase().includes('subscription') || false,
     isIncoming: bt.amount > 0,
+    splits: mapSplits(bt.splits),
+    tags: bt.metadata?.tags?.length ? bt.metadata.tags : undefined,
+    note: bt.metadata?.note || undefined,
   };
 }
 
 // ─── Public API Functions ───
 
+export async function signUp(email: string, password: string): Promise<AuthSession> {
+  const session = await apiFetch<AuthSession>('/v1/auth/signup', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+  await setAuthToken(session.token);
+  return session;
+}
+
+export async function logIn(email: string, password: string): Promise<AuthSession> {
+  const session = await apiFetch<AuthSession>('/v1/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+  await setAuthToken(session.token);
+  return session;
+}
+
+export async function logOut(): Promise<void> {
+  try {
+    if (authToken) await apiFetch('/v1/auth/logout', { method: 'POST' });
+  } finally {
+    await setAuthToken(null);
+  }
+}
+
 export async function fetchTransactions(days: number = 30): Promise<Transaction[]> {
   const data = await apiFetch<BackendTransaction[]>(
-    `/v1/transactions?user_id=${DEFAULT_USER_ID}&days=${days}&include_pending=true`
+    `/v1/transactions?days=${days}&include_pending=true`
   );
   return data.map(mapTransaction);
 }
 
+/** Split a transaction across categories; an empty list removes the split. */
+export async function saveTransactionSplits(
+  transactionId: string,
+  splits: TransactionSplit[]
+): Promise<TransactionSplit[] | undefined> {
+  const data = await apiFetch<{ splits: BackendTransactionSplit[] }>(
+    `/v1/transactions/${transactionId}/splits`,
+    {
+      method: 'PUT',
+      body: JSON.stringify({
+        splits: splits.map((s) => ({ category: s.category, amount: s.amount })),
+      }),
+    }
+  );
+  return mapSplits(data.splits);
+}
+
+/**
+ * Move a transaction to another category. With createRule the backend also
+ * remembers the choice for the merchant and re-files its past transactions.
+ */
+export async function recategorizeTransaction(
+  transactionId: string,
+  category: TransactionCategory,
+  createRule: boolean
+): Promise<{ reapplied: number }> {
+  const data = await apiFetch<{ reapplied?: number }>(`/v1/transactions/${transactionId}/category`, {
+    method: 'PUT',
+    body: JSON.stringify({ category, create_rule: createRule }),
+  });
+  return { reapplied: data.reapplied ?? 0 };
+}
+
+/** Replace a transaction's tags; returns them as the backend stored them (lowercase, no '#'). */
+export async function saveTransactionTags(transactionId: string, tags: string[]): Promise<string[]> {
+  const data = await apiFetch<{ tags: string[] }>(`/v1/transactions/${transactionId}/tags`, {
+    method: 'PUT',
+    body: JSON.stringify({ tags }),
+  });
+  return data.tags;
+}
+
+/** Set a transaction's note; null or blank clears it. */
+export async function saveTransactionNote(transactionId: string, note: string | null): Promise<string | null> {
+  const data = await apiFetch<{ note: string | null }>(`/v1/transactions/${transactionId}/note`, {
+    method: 'PUT',
+    body: JSON.stringify({ note }),
+  });
+  return data.note;
+}
+
+// ─── Categories ───
+interface BackendCategory {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  icon: string | null;
+  color: string | null;
+  exclude_from_spending: boolean;
+}
+
+function mapCategory(bc: BackendCategory): Category {
+  return {
+    id: bc.id,
+    name: bc.name,
+    parentId: bc.parent_id,
+    icon: bc.icon || '💰',
+    color: bc.color || '#dddddd',
+    excludeFromSpending: bc.exclude_from_spending,
+  };
+}
+
+/** The user's categories, parents first; the same list the backend validates against. */
+export async function fetchCategories(): Promise<Category[]> {
+  const data = await apiFetch<{ categories: BackendCategory[] }>('/v1/categories');
+  return data.categories.map(mapCategory);
+}
+
+export async function createCategory(input: {
+  name: string;
+  parentId?: string | null;
+  icon?: string;
+  color?: string;
+  excludeFromSpending?: boolean;
+}): Promise<Category> {
+  const data = await apiFetch<BackendCategory>('/v1/categories', {
+    method: 'POST',
+    body: JSON.stringify({
+      name: input.name,
+      parent_id: input.parentId ?? null,
+      icon: input.icon,
+      color: input.color,
+      exclude_from_spending: input.excludeFromSpending ?? false,
+    }),
+  });
+  return mapCategory(data);
+}
+
 export async function seedNessieDemo(): Promise<void> {
   await apiFetch('/v1/admin/nessie/seed', { method: 'POST' });
 }
@@ -222,11 +378,11 @@ export interface DailyPayload {
 }
 
 export async function fetchDailyPayload(): Promise<DailyPayload> {
-  return apiFetch<DailyPayload>(`/v1/home/daily?user_id=${DEFAULT_USER_ID}`);
+  return apiFetch<DailyPayload>('/v1/home/daily');
 }
 
 export async function fetchHealthMetrics(): Promise<HealthMetrics> {
-  return apiFetch<HealthMetrics>(`/v1/health-metrics?user_id=${DEFAULT_USER_ID}`);
+  return apiFetch<HealthMetrics>('/v1/health-metrics');
 }
 
 export async function fetchUserProfile(): Promise<UserProfile> {
@@ -234,7 +390,7 @@ export async function fetchUserProfile(): Promise<UserProfile> {
     monthly_budget: number;
     monthly_savings_goal: number;
     current_balance: number;
-  }>(`/v1/profile?user_id=${DEFAULT_USER_ID}`);
+  }>('/v1/profile');
 
   return {
     monthlyBudget: data.monthly_budget,
@@ -257,7 +413,7 @@ export async function fetchScottyState(): Promise<ScottyState> {
     mood: string;
     last_fed: string | null;
     food_credits: number;
-  }>(`/v1/scotty/state?user_id=${DEFAULT_USER_ID}`);
+  }>('/v1/scotty/state');
 
   return {
     happiness: data.happiness,
@@ -276,7 +432,6 @@ export async function feedScottyAPI(foodType: FoodType): Promise<ScottyState> {
   }>('/v1/scotty/feed', {
     method: 'POST',
     body: JSON.stringify({
-      user_id: DEFAULT_USER_ID,
       food_type: foodType,
     }),
   });
@@ -293,7 +448,6 @@ export async function sendChatMessageAPI(message: string): Promise<{ response: s
   const data = await apiFetch<{ response: string; actions?: any[]; suggested_actions?: ChatAction[] }>('/v1/chat', {
     method: 'POST',
     body: JSON.stringify({
-      user_id: DEFAULT_USER_ID,
       message,
     }),
   });
@@ -304,14 +458,14 @@ export async function sendChatMessageAPI(message: string): Promise<{ response: s
 export async function setScottyHappiness(happiness: number): Promise<void> {
   await apiFetch('/v1/scotty/set-happiness', {
     method: 'POST',
-    body: JSON.stringify({ user_id: DEFAULT_USER_ID, happiness }),
+    body: JSON.stringify({ happiness }),
   });
 }
 
 export async function fetchChatSuggestedActions(): Promise<ChatAction[]> {
   try {
     const data = await apiFetch<{ actions: ChatAction[] }>(
-      `/v1/chat/suggested-actions?user_id=${DEFAULT_USER_ID}`
+      '/v1/chat/suggested-actions'
     );
     return data.actions || [];
   } catch {
@@ -320,7 +474,7 @@ export async function fetchChatSuggestedActions(): Promise<ChatAction[]> {
 }
 
 export async function fetchActiveQuest(): Promise<Achievement | null> {
-  const quest = await apiFetch<any>(`/v1/quests/active?user_id=${DEFAULT_USER_ID}`);
+  const quest = await apiFetch<any>('/v1/quests/active');
   if (!quest) return null;
 
   // Map backend quest -> frontend Achievement
@@ -331,7 +485,7 @@ export async function fetchActiveQuest(): Promise<Achievement | null> {
     targetAmount: quest.metric_params?.cap || quest.metric_params?.amount,
     currentAmount: 0, // Updated via progress snapshots
     completed: quest.status === 'COMPLETED_VERIFIED',
-    category: mapCategory(quest.metric_params?.category),
+    category: quest.metric_params?.category,
     aiGenerated: quest.created_by === 'agent',
   };
 }
@@ -340,29 +494,8 @@ function buildQuestDescription(quest: any): string {
   // Use agent-generated description if available
   if (quest.description && quest.description.trim().length > 10) return quest.description;
 
-  const params = quest.metric_params || {};
-  const cap = params.cap || params.target_amount || 0;
-  const cat = params.category || '';
-  const merchant = params.merchant || params.merchant_key || params.merchant_name || '';
-
-  switch (quest.metric_type) {
-    case 'CATEGORY_SPEND_CAP':
-      return cap > 0
-        ? `Keep your ${cat} spending under $${cap.toFixed(2)} today. Try cooking at home, skipping impulse buys, or finding a free alternative.`
-        : `Watch your ${cat} spending today. Aim to cut back by skipping one unnecessary purchase.`;
-    case 'MERCHANT_SPEND_CAP':
-      return cap > 0
-        ? `Limit your spending at ${merchant || 'this merchant'} to $${cap.toFixed(2)}. Consider smaller orders or bringing your own instead.`
-        : `Cut back on spending at ${merchant || 'this merchant'} today. Every dollar saved counts!`;
-    case 'NO_MERCHANT_CHARGE':
-      return `Avoid making any purchases at ${merchant || 'this merchant'} today. Find a free or cheaper alternative to break the habit.`;
-    case 'TRANSFER_AMOUNT':
-      return cap > 0
-        ? `Transfer $${cap.toFixed(2)} to your savings. Set it up now so you don't forget!`
-        : `Make a savings transfer today. Even a small amount helps build the habit.`;
-    default:
-      return `Complete this quest to earn rewards and keep your finances on track!`;
-  }
+  // Otherwise the backend's description of the quest's metric
+  return quest.goal_description || `Complete this quest to earn rewards and keep your finances on track!`;
 }
 
 export async function fetchSubscriptions(): Promise<Array<{
@@ -372,7 +505,7 @@ export async function fetchSubscriptions(): Promise<Array<{
   cadence: string;
 }>> {
   const data = await apiFetch<any[]>(
-    `/v1/subscriptions/upcoming?user_id=${DEFAULT_USER_ID}`
+    '/v1/subscriptions/upcoming'
   );
   return data.map((sub: any) => ({
     merchant: sub.merchant_key,
@@ -409,7 +542,7 @@ export async function fetchBudgets(): Promise<BudgetItem[]> {
     frequency: string;
     limit_amount: number;
     derived_daily_limit: number;
-  }> }>(`/v1/budget?user_id=${DEFAULT_USER_ID}`);
+  }> }>('/v1/budget');
 
   return data.budgets.map(b => ({
     id: b.id,
@@ -425,7 +558,7 @@ export async function fetchBudgets(): Promise<BudgetItem[]> {
 
 export async function fetchBudgetProjections(): Promise<BudgetProjectionsResponse> {
   return apiFetch<BudgetProjectionsResponse>(
-    `/v1/budget/projections?user_id=${DEFAULT_USER_ID}`
+    '/v1/budget/projections'
   );
 }
 
@@ -461,29 +594,106 @@ export async function fetchAccounts(): Promise<{ accounts: AccountInfo[]; totalB
 
 // ─── Daily Spend ───
 
+/** Spend on the user's local calendar day (pending included), as the backend counts it. */
 export async function fetchTodaySpend(): Promise<number> {
-  const now = new Date();
-
   try {
-    // Fetch recent transactions and filter for today
-    const transactions = await fetchTransactions(7);
-
-    const todaySpend = transactions
-      .filter(t => {
-        // Match "today" using time diff < 24h (same as TransactionList)
-        const d = t.date instanceof Date ? t.date : new Date(t.date);
-        const diffMs = now.getTime() - d.getTime();
-        return diffMs >= 0 && diffMs < 24 * 60 * 60 * 1000 && !t.isIncoming;
-      })
-      .reduce((sum, t) => sum + t.amount, 0);
-
-    return Math.round(todaySpend * 100) / 100;
+    const data = await apiFetch<{ date: string; spent: number; pending: number }>('/v1/spend/today');
+    return data.spent;
   } catch (error) {
     console.warn('[API] Failed to fetch today spend:', error);
     return 0;
   }
 }
 
+export interface CashFlowForecast {
+  as_of: string;
+  starting_balance: number;
+  has_balance: boolean;
+  days: Array<{
+    date: string;
+    income: number;
+    bills: number;
+    budgeted: number;
+    balance: number;
+    entries: Array<{ kind: 'income' | 'bill'; name: string; amount: number }>;
+  }>;
+  next_income_date: string | null;
+  safe_to_spend_today: number;
+  lowest_balance: { date: string; balance: number };
+  overdraft_dates: string[];
+}
+
+/** Projected balance and today's safe-to-spend; null if the backend can't be reached */
+export async function fetchCashFlowForecast(days = 30): Promise<CashFlowForecast | null> {
+  try {
+    return await apiFetch<CashFlowForecast>(`/v1/cash-flow/forecast?days=${days}`);
+  } catch (error) {
+    console.warn('[API] Failed to fetch cash-flow forecast:', error);
+    return null;
+  }
+}
+
+/** Tell the backend which timezone the device is in, so its "today" matches the user's. */
+export async function syncTimezone(): Promise<string | null> {
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!timezone) return null;
+  const data = await apiFetch<{ timezone: string; today: string }>('/v1/profile/timezone', {
+    method: 'PUT',
+    body: JSON.stringify({ timezone }),
+  });
+  return data.timezone;
+}
+
+export interface ActionItem {
+  id: string;
+  type: 'SUBSCRIPTION_REVIEW' | 'BUDGET_SUGGESTION' | 'SAVINGS_TIP' | 'SPENDING_ALERT';
+  payload: Record<string, any>;
+  status: 'OPEN' | 'DISMISSED' | 'EXECUTING' | 'APPROVED' | 'COMPLETED' | 'FAILED' | 'UNDONE';
+  result: Record<string, any> | null;
+  error: string | null;
+  created_at: string;
+}
+
+/** Queued actions, newest first; pass statuses to filter (OPEN and APPROVED are the pending ones). */
+export async function fetchActions(statuses: ActionItem['status'][] = []): Promise<ActionItem[]> {
+  const query = statuses.length > 0 ? `?status=${statuses.join(',')}` : '';
+  const data = await apiFetch<{ actions: ActionItem[] }>(`/v1/actions${query}`);
+  return data.actions;
+}
+
+/** Approve, dismiss or undo an action. Returns it as it is afterwards. */
+export async function updateAction(actionId: string, change: 'approve' | 'dismiss' | 'undo'): Promise<ActionItem> {
+  return apiFetch<ActionItem>(`/v1/actions/${actionId}/${change}`, { method: 'POST' });
+}
+
+export interface BudgetAlert {
+  id: string;
+  budget_id: string;
+  category: string;
+  type: 'PERCENT_USED' | 'PROJECTED_OVERSPEND' | 'LARGE_TRANSACTION';
+  title: string;
+  body: string;
+  status: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+/** The budget alert inbox, newest first. */
+export async function fetchBudgetAlerts(unreadOnly = false): Promise<{ alerts: BudgetAlert[]; unread_count: number }> {
+  try {
+    return await apiFetch(`/v1/budget/alerts${unreadOnly ? '?unread=true' : ''}`);
+  } catch (error) {
+    console.warn('[API] Failed to fetch budget alerts:', error);
+    return { alerts: [], unread_count: 0 };
+  }
+}
+
+/** Mark one budget alert read, or all of them without an id. */
+export async function markBudgetAlertsRead(alertId?: string): Promise<void> {
+  const path = alertId ? `/v1/budget/alerts/${alertId}/read` : '/v1/budget/alerts/read-all';
+  await apiFetch(path, { method: 'POST' });
+}
+
 /**
  * Check if backend is reachable.
  */
@@ -521,65 +731,103 @@ interface BackendQuest {
   confirmed_value: number;
   pending_value: number;
   explanation: string;
+  // From the backend's quest metric registry; absent for unknown metric types
+  icon?: string;
+  goal?: number;
+  progress_unit?: string;
+  progress_label?: string;
+  goal_description?: string;
+  chain?: { chain_id: string; title: string; position: number; total_steps: number } | null;
+  // Calibrated chance of success (0-1); null when the backend can't estimate it
+  success_probability?: number | null;
+  difficulty?: 'easy' | 'medium' | 'hard' | null;
 }
 
-const QUEST_EMOJI: Record<string, string> = {
-  'CATEGORY_SPEND_CAP': '🍖',
-  'MERCHANT_SPEND_CAP': '☕',
-  'NO_MERCHANT_CHARGE': '🚫',
-  'TRANSFER_AMOUNT': '💰',
-};
-
 const QUEST_COLORS = ['#ffb3ba', '#fff9c4', '#c8e6c9', '#bbdefb', '#e1bee7'];
 
 function mapQuestStatus(backendStatus: string): Quest['status'] {
   const s = backendStatus.toUpperCase();
+  if (s === 'OFFERED') return 'offered';
+  if (s === 'PAUSED') return 'paused';
   if (s === 'COMPLETED_VERIFIED' || s === 'COMPLETED') return 'completed';
   if (s === 'FAILED' || s === 'EXPIRED') return 'failed';
   return 'active';
 }
 
 function mapBackendQuest(q: BackendQuest, index: number): Quest {
-  const cap = q.metric_params?.cap || q.metric_params?.target_amount || 0;
   return {
     id: q.id,
     title: q.title,
     subtitle: buildQuestDescription(q),
-    emoji: QUEST_EMOJI[q.metric_type] || '🎯',
+    emoji: q.icon || '🎯',
     xpReward: q.happiness_delta * 5,
     progress: Math.round(q.confirmed_value * 100) / 100,
-    goal: cap,
-    progressUnit: q.metric_type === 'NO_MERCHANT_CHARGE' ? 'charges' : 'spent',
+    goal: q.goal ?? 0,
+    progressUnit: q.progress_unit || 'spent',
     bgColor: QUEST_COLORS[index % QUEST_COLORS.length],
     status: mapQuestStatus(q.status),
     goalTarget: q.explanation || undefined,
+    chain: q.chain
+      ? { title: q.chain.title, step: q.chain.position + 1, totalSteps: q.chain.total_steps }
+      : undefined,
+    successChance: q.success_probability != null ? Math.round(q.success_probability * 100) : undefined,
+    difficulty: q.difficulty ?? undefined,
   };
 }
 
 /**
  * Fetch daily quests for the user.
  */
-export async function fetchDailyQuests(userId: string = DEFAULT_USER_ID): Promise<Quest[]> {
-  const quests = await apiFetch<BackendQuest[]>(`/v1/quests/list?user_id=${userId}`);
-  return quests.map(mapBackendQuest);
+export async function fetchDailyQuests(): Promise<Quest[]> {
+  const quests = await apiFetch<BackendQuest[]>('/v1/quests/list');
+  return quests.filter(isShownQuest).map(mapBackendQuest);
 }
 
 /**
  * Refresh/generate new daily quests.
  */
-export async function refreshDailyQuests(userId: string = DEFAULT_USER_ID): Promise<Quest[]> {
+export async function refreshDailyQuests(): Promise<Quest[]> {
   const quests = await apiFetch<BackendQuest[]>('/v1/quests/refresh', {
     method: 'POST',
-    body: JSON.stringify({ user_id: userId }),
   });
-  return quests.map(mapBackendQuest);
+  return quests.filter(isShownQuest).map(mapBackendQuest);
+}
+
+// Declined and abandoned quests drop out of the list
+function isShownQuest(q: BackendQuest): boolean {
+  return q.status !== 'DECLINED' && q.status !== 'ABANDONED';
+}
+
+// ─── Quest Offer & Lifecycle API ───
+
+export type QuestLifecycleAction = 'accept' | 'decline' | 'swap' | 'pause' | 'resume' | 'abandon';
+
+/**
+ * Accept, decline, swap, pause, resume or abandon a quest. Decline and swap
+ * take an optional reason Scotty remembers; swap returns the replacement offer.
+ */
+export async function updateQuestLifecycle(
+  questId: string,
+  action: QuestLifecycleAction,
+  reason?: string
+): Promise<Quest> {
+  const quest = await apiFetch<BackendQuest>(
+    `/v1/quests/${encodeURIComponent(questId)}/${action}`,
+    { method: 'POST', body: JSON.stringify(reason ? { reason } : {}) }
+  );
+  return mapBackendQuest(quest, 0);
+}
+
+export async function fetchQuestRerolls(): Promise<number> {
+  const data = await apiFetch<{ rerolls_left: number; per_week: number }>('/v1/quests/rerolls');
+  return data.rerolls_left;
 }
 
 // ─── Spending Trend API ───
 
 export async function fetchSpendingTrend(): Promise<{ months: string[]; totals: number[] }> {
   const data = await apiFetch<{ trend: Array<{ month: string; total: number }> }>(
-    `/v1/finance/spending-trend?user_id=${DEFAULT_USER_ID}`
+    '/v1/finance/spending-trend'
   );
   return {
     months: data.trend.map(t => t.month),
@@ -589,27 +837,65 @@ export async function fetchSpendingTrend(): Promise<{ months: string[]; totals:
 
 // ─── Upcoming Bills API ───
 
+export interface UpcomingSubscription {
+  id: string;
+  merchant_key: string;
+  typical_amount: number;
+  next_expected_date: string;
+  cadence: string;
+  /** Oldest first; the last entry is the current price */
+  price_history: Array<{ amount: number; since: string; transaction_id: string }>;
+  trial: { amount: number; charged_on: string; converts_on: string; converted_on: string | null } | null;
+}
+
 export interface UpcomingBillsData {
-  subscriptions: Array<{
-    merchant_key: string;
-    typical_amount: number;
-    next_expected_date: string;
-    cadence: string;
-  }>;
+  subscriptions: UpcomingSubscription[];
   bill_days: number[];
-  due_today: Array<{
-    merchant_key: string;
-    typical_amount: number;
-    next_expected_date: string;
-  }>;
+  due_today: UpcomingSubscription[];
+  /** Annual and quarterly charges due in the next 30 days */
+  renewals: UpcomingSubscription[];
+  /** Free trials turning into paid charges in the next 30 days */
+  trials: UpcomingSubscription[];
 }
 
 export async function fetchUpcomingBills(): Promise<UpcomingBillsData> {
   return apiFetch<UpcomingBillsData>(
-    `/v1/subscriptions/upcoming?user_id=${DEFAULT_USER_ID}`
+    '/v1/subscriptions/upcoming'
   );
 }
 
+export interface SubscriptionCancellation {
+  id: string;
+  merchant_key: string;
+  status: 'CANCELLING' | 'CONFIRMED' | 'STILL_CHARGING' | 'FAILED' | 'KEPT';
+  method: 'provider' | 'self';
+  message: string | null;
+  confirmation_id: string | null;
+  instructions: string[];
+  monthly_amount: number;
+  expected_date: string;
+  verify_by: string;
+}
+
+/** Start cancelling a recurring charge; Scotty confirms it once the next charge doesn't come */
+export async function cancelSubscription(
+  subscriptionId: string,
+  method?: SubscriptionCancellation['method']
+): Promise<SubscriptionCancellation> {
+  return apiFetch<SubscriptionCancellation>(`/v1/subscriptions/${subscriptionId}/cancel`, {
+    method: 'POST',
+    body: JSON.stringify(method ? { method } : {}),
+  });
+}
+
+export async function fetchCancellations(
+  statuses: SubscriptionCancellation['status'][] = []
+): Promise<SubscriptionCancellation[]> {
+  const query = statuses.length > 0 ? `?status=${statuses.join(',')}` : '';
+  const data = await apiFetch<{ cancellations: SubscriptionCancellation[] }>(`/v1/subscriptions/cancellations${query}`);
+  return data.cancellations;
+}
+
 // ─── Create Budget API ───
 
 // ─── Goal API ───
@@ -622,9 +908,32 @@ export interface GoalData {
   deadline: string | null;
   budget_percent: number;
   status: string;
+  linked_account_id: string | null;
+  completed_at: string | null;
   created_at: string;
 }
 
+export interface GoalContribution {
+  id: string;
+  goal_id: string;
+  kind: 'initial' | 'manual' | 'transfer' | 'quest' | 'subscription' | 'withdrawal';
+  /** Negative for withdrawals */
+  amount: number;
+  date: string;
+  note: string | null;
+}
+
+export interface GoalProgress {
+  target_amount: number;
+  current_amount: number;
+  remaining: number;
+  percent_complete: number;
+  monthly_pace_needed: number | null;
+  monthly_velocity: number;
+  projected_completion_date: string | null;
+  status: 'completed' | 'on_track' | 'behind' | 'stalled';
+}
+
 export async function createGoal(
   name: string,
   targetAmount: number,
@@ -635,7 +944,6 @@ export async function createGoal(
   return apiFetch<GoalData>('/v1/goals', {
     method: 'POST',
     body: JSON.stringify({
-      user_id: DEFAULT_USER_ID,
       name,
       target_amount: targetAmount,
       deadline: deadline || null,
@@ -647,11 +955,117 @@ export async function createGoal(
 
 export async function fetchGoals(): Promise<GoalData[]> {
   const data = await apiFetch<{ goals: GoalData[] }>(
-    `/v1/goals?user_id=${DEFAULT_USER_ID}`
+    '/v1/goals'
   );
   return data.goals;
 }
 
+export async function fetchGoalProgress(goalId: string): Promise<GoalProgress> {
+  const data = await apiFetch<{ goal: GoalData; progress: GoalProgress }>(
+    `/v1/goals/${goalId}/progress`
+  );
+  return data.progress;
+}
+
+export async function fetchGoalContributions(goalId: string): Promise<GoalContribution[]> {
+  const data = await apiFetch<{ contributions: GoalContribution[] }>(
+    `/v1/goals/${goalId}/contributions`
+  );
+  return data.contributions;
+}
+
+export async function contributeToGoal(goalId: string, amount: number, note?: string): Promise<GoalData> {
+  const data = await apiFetch<{ goal: GoalData }>(`/v1/goals/${goalId}/contributions`, {
+    method: 'POST',
+    body: JSON.stringify({ amount, note }),
+  });
+  return data.goal;
+}
+
+export async function withdrawFromGoal(goalId: string, amount: number, note?: string): Promise<GoalData> {
+  const data = await apiFetch<{ goal: GoalData }>(`/v1/goals/${goalId}/withdrawals`, {
+    method: 'POST',
+    body: JSON.stringify({ amount, note }),
+  });
+  return data.goal;
+}
+
+// ─── Quest Chains & Campaigns API ───
+
+interface BackendQuestChain {
+  id: string;
+  title: string;
+  status: string;
+  current_step: number;
+  total_steps: number;
+  completed_steps: number;
+  campaign_id: string | null;
+  ends_at: string | null;
+  reward: { food_type: string; happiness: number; growth_levels: number };
+  steps: Array<{ title: string }>;
+}
+
+function mapQuestChain(c: BackendQuestChain): QuestChain {
+  const growth = c.reward.growth_levels;
+  return {
+    id: c.id,
+    title: c.title,
+    status: c.status === 'COMPLETED' ? 'completed' : c.status === 'ACTIVE' ? 'active' : 'failed',
+    completedSteps: c.completed_steps,
+    totalSteps: c.total_steps,
+    currentStepTitle: c.steps[c.current_step]?.title ?? null,
+    reward: growth > 0
+      ? `${c.reward.food_type} + ${growth} growth level${growth > 1 ? 's' : ''}`
+      : c.reward.food_type,
+    campaignId: c.campaign_id,
+    endsAt: c.ends_at,
+  };
+}
+
+/**
+ * Fetch the user's quest chains (abandoned ones left out).
+ */
+export async function fetchQuestChains(): Promise<QuestChain[]> {
+  const data = await apiFetch<{ chains: BackendQuestChain[] }>('/v1/quest-chains');
+  return data.chains.filter(c => c.status !== 'ABANDONED').map(mapQuestChain);
+}
+
+export async function fetchCampaigns(): Promise<Campaign[]> {
+  const data = await apiFetch<{ campaigns: Array<{
+    id: string;
+    title: string;
+    description: string;
+    icon: string;
+    starts_on: string;
+    ends_on: string;
+    running: boolean;
+    total_steps: number;
+    chain_id: string | null;
+  }> }>('/v1/campaigns');
+  return data.campaigns.map(c => ({
+    id: c.id,
+    title: c.title,
+    description: c.description,
+    icon: c.icon,
+    startsOn: c.starts_on,
+    endsOn: c.ends_on,
+    running: c.running,
+    totalSteps: c.total_steps,
+    joined: !!c.chain_id,
+  }));
+}
+
+/**
+ * Opt into a running campaign; returns the new chain.
+ */
+export async function joinCampaign(campaignId: string): Promise<QuestChain> {
+  const chain = await apiFetch<BackendQuestChain>(
+    `/v1/campaigns/${encodeURIComponent(campaignId)}/join`,
+    { method: 'POST' }
+  );
+  return mapQuestChain(chain);
+}
+
 // ─── Budget Generation API ───
 
 export async function generateBudgets(apply: boolean = true): Promise<{
@@ -660,7 +1074,7 @@ export async function generateBudgets(apply: boolean = true): Promise<{
 }> {
   return apiFetch('/v1/budgets/generate', {
     method: 'POST',
-    body: JSON.stringify({ user_id: DEFAULT_USER_ID, apply }),
+    body: JSON.stringify({ apply }),
   });
 }
 
@@ -674,10 +1088,150 @@ export async function createBudget(
   return apiFetch('/v1/budget', {
     method: 'POST',
     body: JSON.stringify({
-      user_id: DEFAULT_USER_ID,
       category,
       limit_amount: limitAmount,
       frequency,
     }),
   });
 }
+
+// ─── Live Events (GET /v1/events) ───
+
+export type LiveEvent =
+  | { type: 'transaction.ingested'; transactions: Transaction[]; removedIds: string[] }
+  | { type: 'quest.progress'; questId: string; status: Quest['status']; progress: number; explanation: string }
+  | { type: 'quest.completed'; questId: string; title: string }
+  | { type: 'scotty.state_changed'; scottyState: ScottyState }
+  | { type: 'insight.created'; insight: DailyInsight }
+  | { type: 'action.created'; actionId: string; actionType: string };
+
+function mapLiveEvent(type: string, data: any): LiveEvent | null {
+  switch (type) {
+    case 'transaction.ingested':
+      return { type, transactions: data.transactions.map(mapTransaction), removedIds: data.removed_ids };
+    case 'quest.progress':
+      return {
+        type,
+        questId: data.quest_id,
+        status: mapQuestStatus(data.status),
+        progress: Math.round(data.confirmed_value * 100) / 100,
+        explanation: data.explanation,
+      };
+    case 'quest.completed':
+      return { type, questId: data.quest_id, title: data.title };
+    case 'scotty.state_changed':
+      return {
+        type,
+        scottyState: {
+          happiness: data.happiness,
+          mood: data.mood as ScottyState['mood'],
+          lastFed: data.last_fed ? new Date(data.last_fed) : null,
+          foodCredits: data.food_credits,
+        },
+      };
+    case 'insight.created':
+      return { type, insight: mapInsightToFrontend(data) };
+    case 'action.created':
+      return { type, actionId: data.id, actionType: data.type };
+    default:
+      return null; // An event this version of the app doesn't know about
+  }
+}
+
+const EVENT_RETRY_MIN_MS = 1_000;
+const EVENT_RETRY_MAX_MS = 60_000;
+// The XHR keeps the whole stream in responseText; start a fresh one now and then
+const EVENT_STREAM_MAX_CHARS = 1_000_000;
+
+/**
+ * Subscribe to the backend's server-sent events. Uses XMLHttpRequest because
+ * React Native's fetch can't stream and EventSource can't send the bearer
+ * token. Reconnects with exponential backoff, sending Last-Event-ID so the
+ * backend replays what was missed. Returns the unsubscribe function.
+ */
+export function subscribeToEvents(onEvent: (event: LiveEvent) => void): () => void {
+  let request: XMLHttpRequest | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let lastEventId: string | null = null;
+  let closed = false;
+
+  // One event block: "id: …", "event: …" and "data: …" lines; ":" lines are heartbeats
+  function dispatch(block: string) {
+    let type = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'id') lastEventId = value;
+      else if (field === 'event') type = value;
+      else if (field === 'data') data.push(value);
+    }
+    if (data.length === 0) return;
+    try {
+      const event = mapLiveEvent(type, JSON.parse(data.join('\n')));
+      if (event) onEvent(event);
+    } catch (err) {
+      console.warn(`[API] Bad ${type} event:`, err);
+    }
+  }
+
+  function scheduleReconnect() {
+    if (closed) return;
+    const delay = Math.min(EVENT_RETRY_MAX_MS, EVENT_RETRY_MIN_MS * 2 ** failures);
+    failures++;
+    retryTimer = setTimeout(connect, delay * (0.5 + Math.random() / 2));
+  }
+
+  function connect() {
+    retryTimer = null;
+    if (closed || !authToken) return;
+
+    const xhr = new XMLHttpRequest();
+    request = xhr;
+    let parsed = 0;
+    let pending = '';
+
+    xhr.open('GET', `${API_BASE_URL}/v1/events`);
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    xhr.setRequestHeader('Authorization', `Bearer ${authToken}`);
+    if (lastEventId) xhr.setRequestHeader('Last-Event-ID', lastEventId);
+
+    xhr.onreadystatechange = () => {
+      if (request !== xhr) return;
+      if (xhr.readyState >= XMLHttpRequest.LOADING && xhr.status === 200) {
+        failures = 0;
+        pending += xhr.responseText.slice(parsed).replace(/\r\n?/g, '\n');
+        parsed = xhr.responseText.length;
+        const blocks = pending.split('\n\n');
+        pending = blocks.pop() ?? '';
+        blocks.forEach(dispatch);
+        if (parsed > EVENT_STREAM_MAX_CHARS) {
+          request = null;
+          xhr.abort();
+          connect();
+          return;
+        }
+      }
+      if (xhr.readyState === XMLHttpRequest.DONE) {
+        request = null;
+        // A rejected token won't get better by retrying
+        if (xhr.status === 401) return;
+        scheduleReconnect();
+      }
+    };
+    xhr.send();
+  }
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    const xhr = request;
+    request = null;
+    xhr?.abort();
+  };
+}
@@ -0,0 +1,30 @@
+import { Category, TransactionCategory } from '../types';
+
+export interface CategoryDisplay {
+  icon: string;
+  label: string;
+  color: string;
+}
+
+// Shown for names that aren't in the user's list (e.g. a raw provider category)
+const UNKNOWN_CATEGORY: Omit<CategoryDisplay, 'label'> = { icon: '💰', color: '#dddddd' };
+
+export function categoryDisplay(categories: Category[], name: TransactionCategory): CategoryDisplay {
+  const category = categories.find((c) => c.name === name);
+  return {
+    icon: category?.icon || UNKNOWN_CATEGORY.icon,
+    label: name,
+    color: category?.color || UNKNOWN_CATEGORY.color,
+  };
+}
+
+/** A category plus its subcategories, matching how the backend rolls up budgets. */
+export function categoryFamily(categories: Category[], name: TransactionCategory): TransactionCategory[] {
+  const parent = categories.find((c) => c.name === name);
+  if (!parent) return [name];
+  return [name, ...categories.filter((c) => c.parentId === parent.id).map((c) => c.name)];
+}
+
+export function excludedFromSpending(categories: Category[]): Set<TransactionCategory> {
+  return new Set(categories.filter((c) => c.excludeFromSpending).map((c) => c.name));
+}
@@ -1,14 +1,19 @@
 import { Transaction, TransactionCategory } from '../types';
 
 export function getSpendingByCategory(
-  transactions: Transaction[]
+  transactions: Transaction[],
+  excluded: Set<TransactionCategory> = new Set() // categories flagged "exclude from spending"
 ): Record<TransactionCategory, number> {
-  const spending: Partial<Record<TransactionCategory, number>> = {};
+  const spending: Record<TransactionCategory, number> = {};
   for (const tx of transactions) {
     if (tx.isIncoming) continue; // Exclude income (e.g. paychecks)
-    spending[tx.category] = (spending[tx.category] || 0) + tx.amount;
+    const parts = tx.splits?.length ? tx.splits : [{ category: tx.category, amount: tx.amount }];
+    for (const part of parts) {
+      if (excluded.has(part.category)) continue;
+      spending[part.category] = (spending[part.category] || 0) + part.amount;
+    }
   }
-  return spending as Record<TransactionCategory, number>;
+  return spending;
 }
 
 export function getTotalSpending(transactions: Transaction[], days: number = 30): number {
@@ -35,7 +40,7 @@ export function getTopSpendingCategories(
     .sort(([, a], [, b]) => b - a)
     .slice(0, limit)
     .map(([category, amount]) => ({
-      category: category as TransactionCategory,
+      category,
       amount,
     }));
 }
@@ -10,19 +10,27 @@ export interface Transaction {
   date: Date;
   isSubscription?: boolean;
   isIncoming?: boolean;
+  splits?: TransactionSplit[]; // category parts summing to amount
+  tags?: string[]; // lowercase, without the '#'
+  note?: string;
 }
 
-export type TransactionCategory =
-  | 'food_dining'
-  | 'groceries'
-  | 'transport'
-  | 'entertainment'
-  | 'shopping'
-  | 'subscriptions'
-  | 'utilities'
-  | 'education'
-  | 'health'
-  | 'other';
+export interface TransactionSplit {
+  category: TransactionCategory;
+  amount: number;
+}
+
+// Name of one of the user's categories (see Category); custom names are allowed
+export type TransactionCategory = string;
+
+export interface Category {
+  id: string;
+  name: string;
+  parentId: string | null; // subcategory totals roll up into the parent
+  icon: string;
+  color: string;
+  excludeFromSpending: boolean; // e.g. card payments; left out of spending charts
+}
 
 export interface Achievement {
   id: string;
@@ -36,7 +44,7 @@ export interface Achievement {
   aiGenerated: boolean;
 }
 
-export type QuestStatus = 'active' | 'completed' | 'failed';
+export type QuestStatus = 'offered' | 'active' | 'paused' | 'completed' | 'failed';
 
 export interface Quest {
   id: string;
@@ -50,6 +58,35 @@ export interface Quest {
   bgColor: string;
   status: QuestStatus; // validated by backend agent
   goalTarget?: string; // Which savings goal this quest contributes to
+  chain?: { title: string; step: number; totalSteps: number }; // step is 1-based
+  successChance?: number; // 0-100, from the backend's difficulty calibration
+  difficulty?: 'easy' | 'medium' | 'hard';
+}
+
+// Ordered quests where verifying one unlocks the next
+export interface QuestChain {
+  id: string;
+  title: string;
+  status: 'active' | 'completed' | 'failed';
+  completedSteps: number;
+  totalSteps: number;
+  currentStepTitle: string | null;
+  reward: string; // e.g. "truffle + 1 growth level"
+  campaignId: string | null;
+  endsAt: string | null;
+}
+
+// Seasonal quest chain any user can opt into while it runs
+export interface Campaign {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  startsOn: string;
+  endsOn: string;
+  running: boolean;
+  totalSteps: number;
+  joined: boolean;
 }
 
 export interface ScottyState {
@@ -64,6 +101,10 @@ export interface HealthMetrics {
   savingsRate: number; // 0-100
   impulseScore: number; // 0-100 (higher = fewer impulse purchases)
   overallScore: number; // 0-100
+  monthlyIncome?: number; // detected from deposits by the backend
+  monthlySpending?: number;
+  incomeSource?: 'streams' | 'observed' | 'none';
+  subscriptionSavings?: number; // monthly cost of subscriptions confirmed cancelled in the last 30 days
 }
 
 export interface UserProfile {